@@ -28,6 +28,8 @@ const Auth = lazy(() => import("./pages/Auth"));
 const NotFound = lazy(() => import("./pages/NotFound"));
 const Notifications = lazy(() => import("./pages/Notifications"));
 const Tasks = lazy(() => import("./pages/Tasks"));
+const Approvals = lazy(() => import("./pages/Approvals"));
+const DealAnalytics = lazy(() => import("./pages/DealAnalytics"));
 
 
 // Build version for cache busting on deployments
@@ -272,6 +274,16 @@ const AppRouter = () => (
           <Tasks />
         </ProtectedRoute>
       } />
+      <Route path="/approvals" element={
+        <ProtectedRoute>
+          <Approvals />
+        </ProtectedRoute>
+      } />
+      <Route path="/analytics" element={
+        <ProtectedRoute>
+          <DealAnalytics />
+        </ProtectedRoute>
+      } />
       <Route path="/settings" element={
         <ProtectedRoute>
           <Settings />
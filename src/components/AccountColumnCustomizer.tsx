@@ -19,6 +19,8 @@ interface AccountColumnCustomizerProps {
   onColumnsChange: (columns: AccountColumnConfig[]) => void;
   onSave?: (columns: AccountColumnConfig[]) => Promise<unknown>;
   isSaving?: boolean;
+  // Columns the user can pick from; defaults to the built-in set
+  availableColumns?: AccountColumnConfig[];
 }
 
 export const defaultAccountColumns: AccountColumnConfig[] = [
@@ -45,6 +47,7 @@ export const AccountColumnCustomizer = ({
   onColumnsChange,
   onSave,
   isSaving = false,
+  availableColumns = defaultAccountColumns,
 }: AccountColumnCustomizerProps) => {
   // Initialize local columns only when dialog opens
   const [localColumns, setLocalColumns] = useState<AccountColumnConfig[]>([]);
@@ -54,9 +57,9 @@ export const AccountColumnCustomizer = ({
   useEffect(() => {
     if (open && !isInitialized) {
       const existingFields = new Set(columns.map(c => c.field));
-      const missingColumns = defaultAccountColumns.filter(dc => !existingFields.has(dc.field));
+      const missingColumns = availableColumns.filter(dc => !existingFields.has(dc.field));
       const validColumns = columns.filter(c => 
-        defaultAccountColumns.some(dc => dc.field === c.field)
+        availableColumns.some(dc => dc.field === c.field)
       );
       
       if (missingColumns.length > 0 || validColumns.length !== columns.length) {
@@ -89,7 +92,7 @@ export const AccountColumnCustomizer = ({
   };
 
   const handleReset = () => {
-    setLocalColumns(defaultAccountColumns);
+    setLocalColumns(availableColumns);
   };
 
   return (
@@ -5,7 +5,9 @@ import { z } from "zod";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import { useCRUDAudit } from "@/hooks/useCRUDAudit";
+import { useApprovalGuard } from "@/hooks/useApprovals";
 import { useDuplicateDetection } from "@/hooks/useDuplicateDetection";
+import { useCustomFields } from "@/hooks/useCustomFields";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
@@ -18,7 +20,9 @@ import { X, ChevronDown } from "lucide-react";
 import { Account } from "./AccountTable";
 import { DuplicateWarning } from "./shared/DuplicateWarning";
 import { MergeRecordsModal } from "./shared/MergeRecordsModal";
+import { CustomFieldsSection } from "./shared/CustomFieldsSection";
 import { regions, regionCountries } from "@/utils/countryData";
+import { CustomFieldValues, cleanCustomFieldValues, validateCustomFieldValues } from "@/types/customField";
 
 const accountSchema = z.object({
   company_name: z.string()
@@ -78,8 +82,12 @@ const companyTypes = ["OEM", "Tier-1", "Tier-2", "Startup", "Enterprise", "SMB",
 export const AccountModal = ({ open, onOpenChange, account, onSuccess, onCreated }: AccountModalProps) => {
   const { toast } = useToast();
   const { logCreate, logUpdate } = useCRUDAudit();
+  const { notifyIfHeld } = useApprovalGuard('accounts');
   const [loading, setLoading] = useState(false);
   const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  const [customFieldValues, setCustomFieldValues] = useState<CustomFieldValues>({});
+  const [customFieldErrors, setCustomFieldErrors] = useState<Record<string, string>>({});
+  const { fields: customFields } = useCustomFields('account');
   const [availableCountries, setAvailableCountries] = useState<string[]>([]);
   const [users, setUsers] = useState<{ id: string; full_name: string | null }[]>([]);
   
@@ -172,6 +180,7 @@ export const AccountModal = ({ open, onOpenChange, account, onSuccess, onCreated
         account_owner: account.account_owner || "",
       });
       setSelectedTags(account.tags || []);
+      setCustomFieldValues(account.custom_fields || {});
       if (account.region && regionCountries[account.region]) {
         setAvailableCountries(regionCountries[account.region]);
       }
@@ -190,7 +199,9 @@ export const AccountModal = ({ open, onOpenChange, account, onSuccess, onCreated
         account_owner: "",
       });
       setSelectedTags([]);
+      setCustomFieldValues({});
     }
+    setCustomFieldErrors({});
   }, [account, form]);
 
   const toggleTag = (tag: string) => {
@@ -200,6 +211,17 @@ export const AccountModal = ({ open, onOpenChange, account, onSuccess, onCreated
   };
 
   const onSubmit = async (data: AccountFormData) => {
+    const fieldErrors = validateCustomFieldValues(customFields, customFieldValues);
+    setCustomFieldErrors(fieldErrors);
+    if (Object.keys(fieldErrors).length > 0) {
+      toast({
+        title: "Missing information",
+        description: Object.values(fieldErrors)[0],
+        variant: "destructive",
+      });
+      return;
+    }
+
     try {
       setLoading(true);
       const user = await supabase.auth.getUser();
@@ -247,25 +269,30 @@ export const AccountModal = ({ open, onOpenChange, account, onSuccess, onCreated
         phone: data.phone || null,
         modified_by: user.data.user.id,
         account_owner: data.account_owner || user.data.user.id,
+        custom_fields: cleanCustomFieldValues(customFieldValues),
       };
 
       if (account) {
-        const { error } = await supabase
+        const { data: updatedAccount, error } = await supabase
           .from('accounts')
           .update({
             ...accountData,
             updated_at: new Date().toISOString(),
           })
-          .eq('id', account.id);
+          .eq('id', account.id)
+          .select()
+          .single();
 
         if (error) throw error;
 
         await logUpdate('accounts', account.id, accountData, account);
 
-        toast({
-          title: "Success",
-          description: "Account updated successfully",
-        });
+        if (!notifyIfHeld(accountData, updatedAccount)) {
+          toast({
+            title: "Success",
+            description: "Account updated successfully",
+          });
+        }
       } else {
         const { data: newAccount, error } = await supabase
           .from('accounts')
@@ -280,10 +307,12 @@ export const AccountModal = ({ open, onOpenChange, account, onSuccess, onCreated
 
         await logCreate('accounts', newAccount.id, accountData);
 
-        toast({
-          title: "Success",
-          description: "Account created successfully",
-        });
+        if (!notifyIfHeld(accountData, newAccount)) {
+          toast({
+            title: "Success",
+            description: "Account created successfully",
+          });
+        }
 
         // Call onCreated callback if provided
         if (onCreated && newAccount) {
@@ -627,6 +656,13 @@ export const AccountModal = ({ open, onOpenChange, account, onSuccess, onCreated
               </Popover>
             </div>
 
+            <CustomFieldsSection
+              entityType="account"
+              values={customFieldValues}
+              onChange={setCustomFieldValues}
+              errors={customFieldErrors}
+            />
+
             <FormField
               control={form.control}
               name="notes"
@@ -5,15 +5,16 @@ import { useToast } from "@/hooks/use-toast";
 import { useCRUDAudit } from "@/hooks/useCRUDAudit";
 import { useUserDisplayNames } from "@/hooks/useUserDisplayNames";
 import { useColumnPreferences } from "@/hooks/useColumnPreferences";
+import { useCustomFieldColumns } from "@/hooks/useCustomFields";
+import { isCustomFieldColumn } from "@/types/customField";
 import { Card } from "@/components/ui/card";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Badge } from "@/components/ui/badge";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Search, ArrowUpDown, ArrowUp, ArrowDown, ChevronLeft, ChevronRight, X, Eye, Building2, Pencil, CheckSquare } from "lucide-react";
+import { ArrowUpDown, ArrowUp, ArrowDown, X, Eye, Building2, Pencil, CheckSquare } from "lucide-react";
 import { RowActionsDropdown, Edit, Trash2 } from "./RowActionsDropdown";
 import { AccountModal } from "./AccountModal";
 import { AccountColumnCustomizer, AccountColumnConfig, defaultAccountColumns } from "./AccountColumnCustomizer";
@@ -25,8 +26,13 @@ import { getAccountStatusColor } from "@/utils/accountStatusUtils";
 import { moveFieldToEnd } from "@/utils/columnOrderUtils";
 import { formatDateTimeStandard } from "@/utils/formatUtils";
 import { ClearFiltersButton } from "./shared/ClearFiltersButton";
+import { AdvancedSearchBar, SearchGroup } from "./shared/AdvancedSearchBar";
+import { TablePagination } from "./shared/TablePagination";
 import { TableSkeleton } from "./shared/Skeletons";
 import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useServerTable } from "@/hooks/useServerTable";
+import { ServerTableConfig } from "@/utils/serverTableQuery";
+import { CustomFieldValues } from "@/types/customField";
 
 // Export ref interface for parent component
 export interface AccountTableRef {
@@ -53,6 +59,7 @@ export interface Account {
   deal_count?: number;
   contact_count?: number;
   lead_count?: number;
+  custom_fields?: CustomFieldValues | null;
 }
 interface AccountTableProps {
   showColumnCustomizer: boolean;
@@ -65,6 +72,55 @@ interface AccountTableProps {
   initialStatus?: string;
 }
 const PAGE_SIZE_OPTIONS = [10, 25, 50, 100];
+
+const countByAccount = (rows: { account_id: string | null }[] | null) => (rows || []).reduce((acc, row) => {
+  if (row.account_id) acc[row.account_id] = (acc[row.account_id] || 0) + 1;
+  return acc;
+}, {} as Record<string, number>);
+
+// Linked record counts for the accounts on the current page only
+const withLinkedCounts = async (accounts: Account[]): Promise<Account[]> => {
+  const ids = accounts.map(a => a.id);
+  if (ids.length === 0) return accounts;
+  const [contactsResult, dealsResult, leadsResult] = await Promise.all([
+    supabase.from('contacts').select('account_id').in('account_id', ids),
+    supabase.from('deals').select('account_id').in('account_id', ids),
+    supabase.from('leads').select('account_id').in('account_id', ids),
+  ]);
+  const contactCountMap = countByAccount(contactsResult.data);
+  const dealCountMap = countByAccount(dealsResult.data);
+  const leadCountMap = countByAccount(leadsResult.data);
+  return accounts.map(account => ({
+    ...account,
+    contact_count: account.contact_count || contactCountMap[account.id] || 0,
+    deal_count: account.deal_count || dealCountMap[account.id] || 0,
+    lead_count: leadCountMap[account.id] || 0,
+  }));
+};
+
+const ACCOUNT_TABLE: ServerTableConfig<Account> = {
+  table: 'accounts',
+  select: '*',
+  searchColumns: ['company_name', 'industry', 'country', 'email', 'phone', 'website', 'notes', 'company_type', 'region'],
+  arraySearchColumns: ['tags'],
+  // Lead counts are not stored on the account
+  sortColumns: { lead_count: null },
+  defaultSort: { field: 'created_at', direction: 'desc' },
+  transform: rows => withLinkedCounts(rows as unknown as Account[]),
+};
+
+const ACCOUNT_SEARCH_FIELDS = [
+  { value: 'company_name', label: 'Company Name' },
+  { value: 'company_type', label: 'Company Type' },
+  { value: 'industry', label: 'Industry' },
+  { value: 'region', label: 'Region' },
+  { value: 'country', label: 'Country' },
+  { value: 'status', label: 'Status' },
+  { value: 'email', label: 'Email' },
+  { value: 'phone', label: 'Phone' },
+  { value: 'website', label: 'Website' },
+  { value: 'notes', label: 'Notes' },
+];
 const AccountTable = forwardRef<AccountTableRef, AccountTableProps>(({
   showColumnCustomizer,
   setShowColumnCustomizer,
@@ -83,11 +139,22 @@ const AccountTable = forwardRef<AccountTableRef, AccountTableProps>(({
   } = useCRUDAudit();
   const queryClient = useQueryClient();
   const [searchParams, setSearchParams] = useSearchParams();
-  const [filteredAccounts, setFilteredAccounts] = useState<Account[]>([]);
   const [searchTerm, setSearchTerm] = useState("");
+  const [debouncedSearchTerm, setDebouncedSearchTerm] = useState("");
+  const [searchGroups, setSearchGroups] = useState<SearchGroup[]>([]);
+  // Remounts the search bar so clearing filters also clears its advanced conditions
+  const [searchBarKey, setSearchBarKey] = useState(0);
   const [statusFilter, setStatusFilter] = useState(initialStatus);
   const [currentUserId, setCurrentUserId] = useState<string | null>(null);
 
+  // Built-in columns plus admin-defined custom fields
+  const {
+    columns: availableColumns,
+    customFields,
+    loading: customFieldsLoading,
+    getCustomFieldCellValue
+  } = useCustomFieldColumns('account', defaultAccountColumns);
+
   // Column preferences hook
   const {
     columns,
@@ -95,18 +162,26 @@ const AccountTable = forwardRef<AccountTableRef, AccountTableProps>(({
     isSaving
   } = useColumnPreferences({
     moduleName: 'accounts',
-    defaultColumns: defaultAccountColumns
+    defaultColumns: availableColumns
   });
   const [localColumns, setLocalColumns] = useState<AccountColumnConfig[]>([]);
   const [isColumnsInitialized, setIsColumnsInitialized] = useState(false);
 
   // Only initialize columns once when they first load from preferences
   useEffect(() => {
-    if (columns.length > 0 && !isColumnsInitialized) {
+    if (columns.length > 0 && !isColumnsInitialized && !customFieldsLoading) {
       setLocalColumns(columns);
       setIsColumnsInitialized(true);
     }
-  }, [columns, isColumnsInitialized]);
+  }, [columns, isColumnsInitialized, customFieldsLoading]);
+
+  // Debounce search
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setDebouncedSearchTerm(searchTerm);
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [searchTerm]);
 
   // Get owner parameter from URL - "me" means filter by current user
   const ownerParam = searchParams.get('owner');
@@ -188,74 +263,64 @@ const AccountTable = forwardRef<AccountTableRef, AccountTableProps>(({
     staleTime: 10 * 60 * 1000, // 10 minutes
   });
 
-  // Fetch accounts with React Query caching - PARALLELIZED counts
-  const { data: accounts = [], isLoading: loading, refetch: refetchAccounts } = useQuery({
-    queryKey: ['accounts'],
-    queryFn: async () => {
-      // Run all queries in parallel for faster loading
-      const [accountsResult, contactCountsResult, dealCountsResult, leadCountsResult] = await Promise.all([
-        supabase.from('accounts').select('*').order('created_at', { ascending: false }),
-        supabase.from('contacts').select('account_id').not('account_id', 'is', null),
-        supabase.from('deals').select('account_id').not('account_id', 'is', null),
-        supabase.from('leads').select('account_id').not('account_id', 'is', null),
-      ]);
-
-      if (accountsResult.error) throw accountsResult.error;
-
-      // Calculate counts from parallel results
-      const contactCountMap = (contactCountsResult.data || []).reduce((acc, c) => {
-        if (c.account_id) acc[c.account_id] = (acc[c.account_id] || 0) + 1;
-        return acc;
-      }, {} as Record<string, number>);
-
-      const dealCountMap = (dealCountsResult.data || []).reduce((acc, d) => {
-        if (d.account_id) acc[d.account_id] = (acc[d.account_id] || 0) + 1;
-        return acc;
-      }, {} as Record<string, number>);
-
-      const leadCountMap = (leadCountsResult.data || []).reduce((acc, l) => {
-        if (l.account_id) acc[l.account_id] = (acc[l.account_id] || 0) + 1;
-        return acc;
-      }, {} as Record<string, number>);
-
-      // Merge counts into accounts
-      return (accountsResult.data || []).map(account => ({
-        ...account,
-        contact_count: account.contact_count || contactCountMap[account.id] || 0,
-        deal_count: account.deal_count || dealCountMap[account.id] || 0,
-        lead_count: leadCountMap[account.id] || 0,
-      })) as Account[];
+  // One page of accounts, filtered, sorted and counted in the database
+  const tableParams = useMemo(() => ({
+    page: currentPage,
+    pageSize: itemsPerPage,
+    search: debouncedSearchTerm,
+    searchGroups,
+    filters: {
+      status: statusFilter !== "all" ? { op: 'eq' as const, value: statusFilter } : null,
+      account_owner: ownerFilter !== "all" ? { op: 'eq' as const, value: ownerFilter } : null,
+      tags: tagFilter ? { op: 'contains' as const, value: [tagFilter] } : null,
     },
-    staleTime: 2 * 60 * 1000, // 2 minutes
-  });
+    sort: sortField ? { field: sortField, direction: sortDirection } : null,
+  }), [currentPage, itemsPerPage, debouncedSearchTerm, searchGroups, statusFilter, ownerFilter, tagFilter, sortField, sortDirection]);
+
+  const {
+    rows: accounts,
+    total: totalAccounts,
+    totalPages,
+    loading,
+    refetch: refetchAccounts,
+  } = useServerTable(ACCOUNT_TABLE, tableParams, setCurrentPage);
 
   const fetchAccounts = () => {
     refetchAccounts();
   };
 
-  // Handle viewId and tab from URL (from global search or return from Tasks)
+  // Handle viewId and tab from URL (from global search or return from Tasks); the account may be on another page
   const viewId = searchParams.get('viewId');
   const tabParam = searchParams.get('tab');
   useEffect(() => {
-    if (viewId && accounts.length > 0) {
-      const accountToView = accounts.find(a => a.id === viewId);
-      if (accountToView) {
-        setViewingAccount(accountToView);
-        // Set the tab if provided (e.g., returning from Tasks module)
-        if (tabParam) {
-          setDetailModalDefaultTab(tabParam);
-        }
-        setShowDetailModal(true);
-        // Clear the viewId and tab from URL after opening
-        setSearchParams(prev => {
-          prev.delete('viewId');
-          prev.delete('tab');
-          return prev;
-        }, {
-          replace: true
-        });
+    if (!viewId) return;
+    let cancelled = false;
+    const openAccount = async () => {
+      let accountToView = accounts.find(a => a.id === viewId);
+      if (!accountToView) {
+        const { data } = await supabase.from('accounts').select('*').eq('id', viewId).maybeSingle();
+        if (data) [accountToView] = await withLinkedCounts([data as Account]);
       }
-    }
+      if (cancelled || !accountToView) return;
+      setViewingAccount(accountToView);
+      // Set the tab if provided (e.g., returning from Tasks module)
+      if (tabParam) {
+        setDetailModalDefaultTab(tabParam);
+      }
+      setShowDetailModal(true);
+      // Clear the viewId and tab from URL after opening
+      setSearchParams(prev => {
+        prev.delete('viewId');
+        prev.delete('tab');
+        return prev;
+      }, {
+        replace: true
+      });
+    };
+    openAccount();
+    return () => {
+      cancelled = true;
+    };
   }, [viewId, tabParam, accounts, setSearchParams]);
 
   // Expose handleBulkDelete to parent via ref
@@ -263,37 +328,11 @@ const AccountTable = forwardRef<AccountTableRef, AccountTableProps>(({
     handleBulkDelete
   }), [selectedAccounts, accounts]);
 
+  // Filters, search and sort apply to the whole table, so start again from the first page
   useEffect(() => {
-    const searchLower = searchTerm.toLowerCase();
-    let filtered = accounts.filter(account => account.company_name?.toLowerCase().includes(searchLower) || account.industry?.toLowerCase().includes(searchLower) || account.country?.toLowerCase().includes(searchLower) || account.email?.toLowerCase().includes(searchLower) || account.phone?.toLowerCase().includes(searchLower) || account.website?.toLowerCase().includes(searchLower) || account.notes?.toLowerCase().includes(searchLower) || account.company_type?.toLowerCase().includes(searchLower) || account.region?.toLowerCase().includes(searchLower) || account.tags?.some(tag => tag.toLowerCase().includes(searchLower)));
-    if (statusFilter !== "all") {
-      filtered = filtered.filter(account => account.status === statusFilter);
-    }
-
-    // FIX: Use account_owner instead of created_by for owner filtering
-    if (ownerFilter !== "all") {
-      filtered = filtered.filter(account => account.account_owner === ownerFilter);
-    }
-    if (tagFilter) {
-      filtered = filtered.filter(account => account.tags?.includes(tagFilter));
-    }
-    if (sortField) {
-      filtered.sort((a, b) => {
-        const aValue = a[sortField as keyof Account] || '';
-        const bValue = b[sortField as keyof Account] || '';
-
-        // Handle numeric sorting for counts
-        if (typeof aValue === 'number' && typeof bValue === 'number') {
-          return sortDirection === 'asc' ? aValue - bValue : bValue - aValue;
-        }
-        const comparison = aValue.toString().localeCompare(bValue.toString());
-        return sortDirection === 'asc' ? comparison : -comparison;
-      });
-    }
-    setFilteredAccounts(filtered);
     setCurrentPage(1);
-  }, [accounts, searchTerm, statusFilter, ownerFilter, tagFilter, sortField, sortDirection]);
-  
+  }, [debouncedSearchTerm, searchGroups, statusFilter, ownerFilter, tagFilter, sortField, sortDirection, itemsPerPage]);
+
   const handleSort = (field: string) => {
     if (sortField === field) {
       setSortDirection(sortDirection === 'asc' ? 'desc' : 'asc');
@@ -400,7 +439,7 @@ const AccountTable = forwardRef<AccountTableRef, AccountTableProps>(({
   };
   const handleSelectAll = (checked: boolean) => {
     if (checked) {
-      const pageAccounts = getCurrentPageAccounts().slice(0, 50);
+      const pageAccounts = accounts.slice(0, 50);
       setSelectedAccounts(pageAccounts.map(a => a.id));
     } else {
       setSelectedAccounts([]);
@@ -413,11 +452,6 @@ const AccountTable = forwardRef<AccountTableRef, AccountTableProps>(({
       setSelectedAccounts(prev => prev.filter(id => id !== accountId));
     }
   };
-  const getCurrentPageAccounts = () => {
-    const startIndex = (currentPage - 1) * itemsPerPage;
-    return filteredAccounts.slice(startIndex, startIndex + itemsPerPage);
-  };
-  const totalPages = Math.ceil(filteredAccounts.length / itemsPerPage);
 
   // Get owner IDs for display names - use account_owner instead of created_by
   const ownerIds = useMemo(() => {
@@ -430,12 +464,14 @@ const AccountTable = forwardRef<AccountTableRef, AccountTableProps>(({
     localColumns.filter((col) => col.visible).sort((a, b) => a.order - b.order),
     "account_owner",
   );
-  const pageAccounts = getCurrentPageAccounts();
+  const pageAccounts = accounts;
 
   // Check if any filters are active
-  const hasActiveFilters = searchTerm !== "" || statusFilter !== "all" || ownerFilter !== "all" || tagFilter !== null;
+  const hasActiveFilters = debouncedSearchTerm !== "" || searchGroups.length > 0 || statusFilter !== "all" || ownerFilter !== "all" || tagFilter !== null;
   const clearAllFilters = () => {
     setSearchTerm("");
+    setSearchGroups([]);
+    setSearchBarKey(key => key + 1);
     setStatusFilter("all");
     setOwnerFilter("all");
     setTagFilter(null);
@@ -468,9 +504,8 @@ const AccountTable = forwardRef<AccountTableRef, AccountTableProps>(({
       {/* Header and Actions */}
       <div className="flex items-center justify-between gap-4 flex-wrap">
         <div className="flex items-center gap-3 flex-wrap">
-          <div className="relative w-64">
-            <Search className="absolute left-2.5 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4 pointer-events-none" />
-            <Input placeholder="Search accounts..." value={searchTerm} onChange={e => setSearchTerm(e.target.value)} className="pl-9" inputSize="control" />
+          <div className="w-96">
+            <AdvancedSearchBar key={searchBarKey} fields={ACCOUNT_SEARCH_FIELDS} customFields={customFields} onSearch={setSearchGroups} placeholder="Search accounts..." simpleSearch={searchTerm} onSimpleSearchChange={setSearchTerm} />
           </div>
           <AccountStatusFilter value={statusFilter} onValueChange={setStatusFilter} />
           <Select value={ownerFilter} onValueChange={setOwnerFilter}>
@@ -558,7 +593,7 @@ const AccountTable = forwardRef<AccountTableRef, AccountTableProps>(({
                     setDetailModalDefaultTab("overview");
                     setShowDetailModal(true);
                   }} className="text-primary hover:underline font-medium text-left truncate">
-                              <HighlightedText text={account.company_name} highlight={searchTerm} />
+                              <HighlightedText text={account.company_name} highlight={debouncedSearchTerm} />
                             </button> : column.field === 'account_owner' ? (
                             account.account_owner ? (
                               <span className="truncate block">{displayNames[account.account_owner] || "Loading..."}</span>
@@ -637,19 +672,19 @@ const AccountTable = forwardRef<AccountTableRef, AccountTableProps>(({
                             )
                           ) : column.field === 'industry' ? (
                             account.industry ? (
-                              <HighlightedText text={account.industry} highlight={searchTerm} />
+                              <HighlightedText text={account.industry} highlight={debouncedSearchTerm} />
                             ) : (
                               <span className="text-center text-muted-foreground w-full block">-</span>
                             )
                           ) : column.field === 'country' ? (
                             account.country ? (
-                              <HighlightedText text={account.country} highlight={searchTerm} />
+                              <HighlightedText text={account.country} highlight={debouncedSearchTerm} />
                             ) : (
                               <span className="text-center text-muted-foreground w-full block">-</span>
                             )
                           ) : column.field === 'email' ? (
                             account.email ? (
-                              <HighlightedText text={account.email} highlight={searchTerm} />
+                              <HighlightedText text={account.email} highlight={debouncedSearchTerm} />
                             ) : (
                               <span className="text-center text-muted-foreground w-full block">-</span>
                             )
@@ -659,6 +694,12 @@ const AccountTable = forwardRef<AccountTableRef, AccountTableProps>(({
                             ) : (
                               <span className="text-center text-muted-foreground w-full block">-</span>
                             )
+                          ) : isCustomFieldColumn(column.field) ? (
+                            getCustomFieldCellValue(account, column.field) ? (
+                              <span title={getCustomFieldCellValue(account, column.field)} className="truncate block">{getCustomFieldCellValue(account, column.field)}</span>
+                            ) : (
+                              <span className="text-center text-muted-foreground w-full block">-</span>
+                            )
                           ) : (
                             account[column.field as keyof Account] ? (
                               <span title={account[column.field as keyof Account]?.toString()} className="truncate block">{account[column.field as keyof Account]?.toString()}</span>
@@ -710,25 +751,8 @@ const AccountTable = forwardRef<AccountTableRef, AccountTableProps>(({
         </div>
         
         {/* Pagination */}
-        <div className="flex items-center justify-between p-4 border-t flex-shrink-0">
-          <div className="flex items-center gap-2">
-            <span className="text-sm text-muted-foreground">
-              Showing {filteredAccounts.length === 0 ? 0 : (currentPage - 1) * itemsPerPage + 1} to {Math.min(currentPage * itemsPerPage, filteredAccounts.length)} of {filteredAccounts.length} accounts
-            </span>
-          </div>
-          <div className="flex items-center gap-2">
-            <Button variant="outline" size="sm" onClick={() => setCurrentPage(prev => Math.max(1, prev - 1))} disabled={currentPage === 1 || totalPages === 0}>
-              <ChevronLeft className="w-4 h-4" />
-              Previous
-            </Button>
-            <span className="text-sm">
-              Page {currentPage} of {totalPages || 1}
-            </span>
-            <Button variant="outline" size="sm" onClick={() => setCurrentPage(prev => Math.min(totalPages, prev + 1))} disabled={currentPage === totalPages || totalPages === 0}>
-              Next
-              <ChevronRight className="w-4 h-4" />
-            </Button>
-          </div>
+        <div className="border-t flex-shrink-0 px-2">
+          <TablePagination currentPage={currentPage} totalPages={totalPages} itemsPerPage={itemsPerPage} totalItems={totalAccounts} onPageChange={setCurrentPage} entityName="accounts" />
         </div>
       </Card>
 
@@ -741,7 +765,7 @@ const AccountTable = forwardRef<AccountTableRef, AccountTableProps>(({
       setEditingAccount(null);
     }} />
 
-      <AccountColumnCustomizer open={showColumnCustomizer} onOpenChange={setShowColumnCustomizer} columns={localColumns} onColumnsChange={setLocalColumns} onSave={saveColumns} isSaving={isSaving} />
+      <AccountColumnCustomizer open={showColumnCustomizer} onOpenChange={setShowColumnCustomizer} columns={localColumns} onColumnsChange={setLocalColumns} onSave={saveColumns} isSaving={isSaving} availableColumns={availableColumns} />
 
       <AccountDeleteConfirmDialog open={showDeleteDialog} onConfirm={handleDelete} onCancel={() => {
       setShowDeleteDialog(false);
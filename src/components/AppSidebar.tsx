@@ -11,7 +11,9 @@ import {
   Sun,
   Moon,
   Building2,
-  CheckSquare
+  CheckSquare,
+  ShieldCheck,
+  TrendingUp
 } from "lucide-react";
 import { NavLink, useLocation, useNavigate } from "react-router-dom";
 import { useAuth } from "@/hooks/useAuth";
@@ -43,7 +45,9 @@ const allMenuItems = [
   { title: "Leads", url: "/leads", route: "/leads", icon: UserPlus },
   { title: "Meetings", url: "/meetings", route: "/meetings", icon: Video },
   { title: "Deals", url: "/deals", route: "/deals", icon: BarChart3 },
+  { title: "Deal Analytics", url: "/analytics", route: "/analytics", icon: TrendingUp },
   { title: "Tasks", url: "/tasks", route: "/tasks", icon: CheckSquare },
+  { title: "Approvals", url: "/approvals", route: "/approvals", icon: ShieldCheck },
   { title: "Settings", url: "/settings", route: "/settings", icon: Settings },
 ];
 
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { ReactNode, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
@@ -11,9 +11,11 @@ interface BulkActionsBarProps {
   onExport: () => void;
   onClearSelection: () => void;
   itemType?: string;
+  // Entity-specific actions shown before Export
+  extraActions?: ReactNode;
 }
 
-export const BulkActionsBar = ({ selectedCount, onDelete, onExport, onClearSelection, itemType = "items" }: BulkActionsBarProps) => {
+export const BulkActionsBar = ({ selectedCount, onDelete, onExport, onClearSelection, itemType = "items", extraActions }: BulkActionsBarProps) => {
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
 
   if (selectedCount === 0) return null;
@@ -37,6 +39,8 @@ export const BulkActionsBar = ({ selectedCount, onDelete, onExport, onClearSelec
           </Badge>
           
           <div className="flex items-center gap-2">
+            {extraActions}
+
             <Tooltip>
               <TooltipTrigger asChild>
                 <Button
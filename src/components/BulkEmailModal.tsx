@@ -1,4 +1,4 @@
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
@@ -7,13 +7,15 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Mail, Send, Loader2, Users, X, Eye } from "lucide-react";
+import { Send, Loader2, Users, Clock } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import { Switch } from "@/components/ui/switch";
 import { RichTextEditor } from "@/components/shared/RichTextEditor";
 import { EMAIL_VARIABLES } from "@/utils/emailConstants";
-import { stripHtmlTags } from "@/utils/emailUtils";
-import { useQueryClient } from "@tanstack/react-query";
+import { useBulkEmailJobActions } from "@/hooks/useBulkEmailJobs";
+import { useSuppressedEmails } from "@/hooks/useEmailConsent";
+import { DEFAULT_BULK_RATE_PER_MINUTE } from "@/types/bulkEmail";
 
 export interface BulkEmailRecipient {
   id: string;
@@ -39,19 +41,27 @@ interface BulkEmailModalProps {
 export const BulkEmailModal = ({ open, onOpenChange, recipients, onEmailsSent }: BulkEmailModalProps) => {
   const { toast } = useToast();
   const { user } = useAuth();
-  const queryClient = useQueryClient();
+  const { createJob, isCreating } = useBulkEmailJobActions();
   const [templates, setTemplates] = useState<EmailTemplate[]>([]);
   const [selectedTemplate, setSelectedTemplate] = useState<string>("");
   const [subject, setSubject] = useState("");
   const [body, setBody] = useState("");
-  const [isSending, setIsSending] = useState(false);
-  const [sendProgress, setSendProgress] = useState({ sent: 0, total: 0 });
+  const [sendLater, setSendLater] = useState(false);
+  const [scheduledAt, setScheduledAt] = useState("");
+  const [ratePerMinute, setRatePerMinute] = useState(DEFAULT_BULK_RATE_PER_MINUTE);
   
   const senderEmail = user?.email || "noreply@acmecrm.com";
   
-  // Filter recipients with valid emails
-  const validRecipients = recipients.filter(r => r.email);
+  // Filter recipients with valid emails; unsubscribed addresses are left out of the job
+  const { suppressed, loading: checkingSuppressions } = useSuppressedEmails(
+    recipients.map(r => r.email || ""),
+    "marketing",
+    open
+  );
+  const isSuppressed = (r: BulkEmailRecipient) => !!r.email && suppressed.has(r.email.trim().toLowerCase());
+  const validRecipients = recipients.filter(r => r.email && !isSuppressed(r));
   const invalidRecipients = recipients.filter(r => !r.email);
+  const suppressedRecipients = recipients.filter(isSuppressed);
 
   useEffect(() => {
     if (open) {
@@ -59,7 +69,9 @@ export const BulkEmailModal = ({ open, onOpenChange, recipients, onEmailsSent }:
       setSelectedTemplate("");
       setSubject("");
       setBody("");
-      setSendProgress({ sent: 0, total: 0 });
+      setSendLater(false);
+      setScheduledAt("");
+      setRatePerMinute(DEFAULT_BULK_RATE_PER_MINUTE);
     }
   }, [open]);
 
@@ -93,12 +105,6 @@ export const BulkEmailModal = ({ open, onOpenChange, recipients, onEmailsSent }:
     }
   };
 
-  const replaceVariables = (text: string, recipient: BulkEmailRecipient) => {
-    return text
-      .replace(/\{\{contact_name\}\}/g, recipient.name || '')
-      .replace(/\{\{name\}\}/g, recipient.name || '');
-  };
-
   const handleSendBulkEmail = async () => {
     if (validRecipients.length === 0) {
       toast({
@@ -118,81 +124,43 @@ export const BulkEmailModal = ({ open, onOpenChange, recipients, onEmailsSent }:
       return;
     }
 
-    setIsSending(true);
-    setSendProgress({ sent: 0, total: validRecipients.length });
-    
-    let successCount = 0;
-    let failCount = 0;
-
-    const now = new Date().toISOString();
-    const contactIds: string[] = [];
-    const leadIds: string[] = [];
-    const accountIds: string[] = [];
-
-    for (const recipient of validRecipients) {
-      try {
-        const personalizedSubject = replaceVariables(subject.trim(), recipient);
-        const personalizedBody = replaceVariables(body.trim(), recipient);
-
-        // Pass entityType and entityId so send-email creates the email_history record
-        // with proper association - no need to create a duplicate record client-side
-        const { data, error } = await supabase.functions.invoke('send-email', {
-          body: {
-            to: recipient.email,
-            toName: recipient.name,
-            subject: personalizedSubject,
-            body: personalizedBody,
-            from: senderEmail,
-            entityType: recipient.type,
-            entityId: recipient.id,
-          },
-        });
-
-        if (error) throw error;
-
-        // Track successful recipients by type for last_contacted_at update
-        if (recipient.type === 'contact') contactIds.push(recipient.id);
-        else if (recipient.type === 'lead') leadIds.push(recipient.id);
-        else if (recipient.type === 'account') accountIds.push(recipient.id);
-
-        successCount++;
-      } catch (error) {
-        console.error(`Failed to send email to ${recipient.email}:`, error);
-        failCount++;
-      }
-      
-      setSendProgress(prev => ({ ...prev, sent: prev.sent + 1 }));
-    }
-
-    // Update last_contacted_at for all successfully emailed recipients
-    if (contactIds.length > 0) {
-      await supabase.from('contacts').update({ last_contacted_at: now }).in('id', contactIds);
-    }
-    if (leadIds.length > 0) {
-      await supabase.from('leads').update({ last_contacted_at: now }).in('id', leadIds);
-    }
-    if (accountIds.length > 0) {
-      await supabase.from('accounts').update({ last_contacted_at: now }).in('id', accountIds);
+    const startAt = sendLater && scheduledAt ? new Date(scheduledAt) : null;
+    if (sendLater && (!startAt || startAt.getTime() <= Date.now())) {
+      toast({
+        title: "Invalid send time",
+        description: "Choose a start time in the future",
+        variant: "destructive",
+      });
+      return;
     }
 
-    setIsSending(false);
+    // The job is sent server-side, so closing this dialog or the tab does not stop it.
+    // {{variables}} are filled in per recipient when each email goes out.
+    try {
+      const job = await createJob({
+        subject: subject.trim(),
+        body: body.trim(),
+        senderEmail,
+        templateId: selectedTemplate && selectedTemplate !== "none" ? selectedTemplate : null,
+        recipients: validRecipients.map((r) => ({
+          email: r.email!,
+          name: r.name,
+          [`${r.type}_id`]: r.id,
+        })),
+        scheduledAt: startAt?.toISOString() ?? null,
+        ratePerMinute,
+      });
 
-    if (successCount > 0) {
-      // Invalidate caches so tables refresh immediately
-      queryClient.invalidateQueries({ queryKey: ['contacts'] });
-      queryClient.invalidateQueries({ queryKey: ['leads'] });
-      queryClient.invalidateQueries({ queryKey: ['accounts'] });
-      
       toast({
-        title: "Bulk email completed",
-        description: `Successfully sent ${successCount} emails${failCount > 0 ? `, ${failCount} failed` : ''}`,
+        title: startAt ? "Bulk email scheduled" : "Bulk email started",
+        description: `${job.total_count} emails ${startAt ? `will start sending ${startAt.toLocaleString()}` : "are being sent"} at up to ${job.rate_per_minute} per minute. Track progress in Email Center → Bulk Jobs.`,
       });
       onEmailsSent?.();
       onOpenChange(false);
-    } else {
+    } catch (error: unknown) {
       toast({
-        title: "Failed to send emails",
-        description: "All emails failed to send. Please try again.",
+        title: "Failed to queue emails",
+        description: error instanceof Error ? error.message : "Please try again.",
         variant: "destructive",
       });
     }
@@ -226,6 +194,11 @@ export const BulkEmailModal = ({ open, onOpenChange, recipients, onEmailsSent }:
                 {invalidRecipients.length} recipient(s) have no email address and will be skipped.
               </p>
             )}
+            {suppressedRecipients.length > 0 && (
+              <p className="text-xs text-muted-foreground" title={suppressedRecipients.map(r => r.email).join(", ")}>
+                {suppressedRecipients.length} recipient(s) have unsubscribed and will be skipped.
+              </p>
+            )}
           </div>
 
           <div className="p-3 bg-muted/50 rounded-lg">
@@ -249,7 +222,7 @@ export const BulkEmailModal = ({ open, onOpenChange, recipients, onEmailsSent }:
               </SelectContent>
             </Select>
             <p className="text-xs text-muted-foreground">
-              Use {"{{name}}"} or {"{{contact_name}}"} to personalize each email.
+              Use {"{{name}}"}, {"{{first_name}}"} or {"{{company_name}}"} to personalize each email.
             </p>
           </div>
 
@@ -285,36 +258,54 @@ export const BulkEmailModal = ({ open, onOpenChange, recipients, onEmailsSent }:
             </div>
           </div>
 
-          {isSending && (
-            <div className="p-3 bg-muted/50 rounded-lg">
-              <div className="flex items-center justify-between mb-2">
-                <span className="text-sm">Sending emails...</span>
-                <span className="text-sm text-muted-foreground">
-                  {sendProgress.sent} / {sendProgress.total}
-                </span>
+          <div className="grid grid-cols-2 gap-4 p-3 bg-muted/50 rounded-lg">
+            <div className="space-y-2">
+              <div className="flex items-center gap-2">
+                <Switch id="send-later" checked={sendLater} onCheckedChange={setSendLater} />
+                <Label htmlFor="send-later">Send later</Label>
               </div>
-              <div className="w-full bg-secondary rounded-full h-2">
-                <div 
-                  className="bg-primary h-2 rounded-full transition-all duration-300"
-                  style={{ width: `${(sendProgress.sent / sendProgress.total) * 100}%` }}
+              {sendLater && (
+                <Input
+                  type="datetime-local"
+                  value={scheduledAt}
+                  onChange={(e) => setScheduledAt(e.target.value)}
                 />
-              </div>
+              )}
             </div>
-          )}
+            <div className="space-y-2">
+              <Label htmlFor="rate">Emails per minute</Label>
+              <Input
+                id="rate"
+                type="number"
+                min={1}
+                max={600}
+                value={ratePerMinute}
+                onChange={(e) => setRatePerMinute(Math.min(Math.max(Number(e.target.value) || 1, 1), 600))}
+              />
+            </div>
+            <p className="col-span-2 text-xs text-muted-foreground">
+              Emails are sent from the server in the background, so you can close this window. Failed sends are retried automatically.
+            </p>
+          </div>
 
           <div className="flex justify-end gap-2 pt-4">
-            <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSending}>
+            <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isCreating}>
               Cancel
             </Button>
             <Button 
               onClick={handleSendBulkEmail} 
-              disabled={validRecipients.length === 0 || isSending}
+              disabled={validRecipients.length === 0 || isCreating || checkingSuppressions || (sendLater && !scheduledAt)}
               className="gap-2"
             >
-              {isSending ? (
+              {isCreating ? (
                 <>
                   <Loader2 className="h-4 w-4 animate-spin" />
-                  Sending...
+                  Queuing...
+                </>
+              ) : sendLater ? (
+                <>
+                  <Clock className="h-4 w-4" />
+                  Schedule for {validRecipients.length} Recipients
                 </>
               ) : (
                 <>
@@ -19,6 +19,8 @@ interface ContactColumnCustomizerProps {
   onColumnsChange: (columns: ContactColumnConfig[]) => void;
   onSave?: (columns: ContactColumnConfig[]) => Promise<unknown>;
   isSaving?: boolean;
+  // Columns the user can pick from; defaults to the built-in set
+  availableColumns?: ContactColumnConfig[];
 }
 
 // Updated default columns - removed redundant fields (region, industry, website are in Account; engagement metrics are in detail view)
@@ -34,6 +36,7 @@ export const defaultContactColumns: ContactColumnConfig[] = [
   { field: 'last_contacted_at', label: 'Last Contacted', visible: false, order: 8 },
   { field: 'created_time', label: 'Created Date', visible: false, order: 9 },
   { field: 'contact_owner', label: 'Contact Owner', visible: true, order: 10 },
+  { field: 'score', label: 'Score', visible: false, order: 11 },
 ];
 
 export const ContactColumnCustomizer = ({
@@ -43,6 +46,7 @@ export const ContactColumnCustomizer = ({
   onColumnsChange,
   onSave,
   isSaving = false,
+  availableColumns = defaultContactColumns,
 }: ContactColumnCustomizerProps) => {
   // Initialize local columns only when dialog opens
   const [localColumns, setLocalColumns] = useState<ContactColumnConfig[]>([]);
@@ -52,11 +56,11 @@ export const ContactColumnCustomizer = ({
   useEffect(() => {
     if (open && !isInitialized) {
       const existingFields = new Set(columns.map(c => c.field));
-      const missingColumns = defaultContactColumns.filter(dc => !existingFields.has(dc.field));
+      const missingColumns = availableColumns.filter(dc => !existingFields.has(dc.field));
       
       // Filter out invalid columns that are not in the default columns list
       const validColumns = columns.filter(c => 
-        defaultContactColumns.some(dc => dc.field === c.field)
+        availableColumns.some(dc => dc.field === c.field)
       );
       
       if (missingColumns.length > 0 || validColumns.length !== columns.length) {
@@ -89,7 +93,7 @@ export const ContactColumnCustomizer = ({
   };
 
   const handleReset = () => {
-    setLocalColumns(defaultContactColumns);
+    setLocalColumns(availableColumns);
   };
 
   return (
@@ -6,6 +6,7 @@ import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import { useCRUDAudit } from "@/hooks/useCRUDAudit";
 import { useDuplicateDetection } from "@/hooks/useDuplicateDetection";
+import { useCustomFields } from "@/hooks/useCustomFields";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
@@ -17,8 +18,10 @@ import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover
 import { X, ChevronDown, Plus, Loader2 } from "lucide-react";
 import { DuplicateWarning } from "./shared/DuplicateWarning";
 import { MergeRecordsModal } from "./shared/MergeRecordsModal";
+import { CustomFieldsSection } from "./shared/CustomFieldsSection";
 import { AccountModal } from "./AccountModal";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
+import { CustomFieldValues, cleanCustomFieldValues, validateCustomFieldValues } from "@/types/customField";
 
 // Helper function for URL validation
 const normalizeUrl = (url: string) => {
@@ -70,6 +73,7 @@ interface Contact {
   contact_source?: string;
   description?: string;
   tags?: string[];
+  custom_fields?: CustomFieldValues | null;
 }
 
 interface Account {
@@ -110,6 +114,9 @@ export const ContactModal = ({ open, onOpenChange, contact, onSuccess }: Contact
   const [accounts, setAccounts] = useState<Account[]>([]);
   const [accountSearch, setAccountSearch] = useState("");
   const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  const [customFieldValues, setCustomFieldValues] = useState<CustomFieldValues>({});
+  const [customFieldErrors, setCustomFieldErrors] = useState<Record<string, string>>({});
+  const { fields: customFields } = useCustomFields('contact');
   const [accountModalOpen, setAccountModalOpen] = useState(false);
   const [users, setUsers] = useState<{ id: string; full_name: string | null }[]>([]);
   
@@ -204,6 +211,7 @@ export const ContactModal = ({ open, onOpenChange, contact, onSuccess }: Contact
         contact_owner: (contact as any).contact_owner || "",
       });
       setSelectedTags(contact.tags || []);
+      setCustomFieldValues(contact.custom_fields || {});
     } else {
       form.reset({
         contact_name: "",
@@ -217,10 +225,23 @@ export const ContactModal = ({ open, onOpenChange, contact, onSuccess }: Contact
         contact_owner: "",
       });
       setSelectedTags([]);
+      setCustomFieldValues({});
     }
+    setCustomFieldErrors({});
   }, [contact, form]);
 
   const onSubmit = async (data: ContactFormData) => {
+    const fieldErrors = validateCustomFieldValues(customFields, customFieldValues);
+    setCustomFieldErrors(fieldErrors);
+    if (Object.keys(fieldErrors).length > 0) {
+      toast({
+        title: "Missing information",
+        description: Object.values(fieldErrors)[0],
+        variant: "destructive",
+      });
+      return;
+    }
+
     try {
       setLoading(true);
       const user = await supabase.auth.getUser();
@@ -270,6 +291,7 @@ export const ContactModal = ({ open, onOpenChange, contact, onSuccess }: Contact
         created_by: user.data.user.id,
         modified_by: user.data.user.id,
         contact_owner: data.contact_owner || user.data.user.id,
+        custom_fields: cleanCustomFieldValues(customFieldValues),
       };
 
       if (contact) {
@@ -597,6 +619,13 @@ export const ContactModal = ({ open, onOpenChange, contact, onSuccess }: Contact
               </Popover>
             </div>
 
+            <CustomFieldsSection
+              entityType="contact"
+              values={customFieldValues}
+              onChange={setCustomFieldValues}
+              errors={customFieldErrors}
+            />
+
             <FormField
               control={form.control}
               name="description"
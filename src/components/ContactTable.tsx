@@ -4,6 +4,8 @@ import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import { useCRUDAudit } from "@/hooks/useCRUDAudit";
 import { useColumnPreferences } from "@/hooks/useColumnPreferences";
+import { useCustomFieldColumns } from "@/hooks/useCustomFields";
+import { isCustomFieldColumn } from "@/types/customField";
 import { useUserDisplayNames } from "@/hooks/useUserDisplayNames";
 import { Card } from "@/components/ui/card";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
@@ -13,7 +15,7 @@ import { Checkbox } from "@/components/ui/checkbox";
 import { Badge } from "@/components/ui/badge";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Search, ArrowUpDown, ArrowUp, ArrowDown, ChevronLeft, ChevronRight, X, Eye, User, CalendarPlus, Pencil, CheckSquare } from "lucide-react";
+import { ArrowUpDown, ArrowUp, ArrowDown, X, Eye, User, CalendarPlus, Pencil, CheckSquare } from "lucide-react";
 import { RowActionsDropdown, Edit, Trash2, Mail, UserPlus } from "./RowActionsDropdown";
 import { ContactDeleteConfirmDialog } from "./ContactDeleteConfirmDialog";
 
@@ -27,10 +29,17 @@ import { ConvertContactToLeadModal } from "./contacts/ConvertContactToLeadModal"
 import { MergeRecordsModal } from "./shared/MergeRecordsModal";
 import { HighlightedText } from "./shared/HighlightedText";
 import { ClearFiltersButton } from "./shared/ClearFiltersButton";
+import { getScoreBandFilter, ScoreBandFilter } from "./shared/ScoreBandFilter";
+import { AdvancedSearchBar, SearchGroup } from "./shared/AdvancedSearchBar";
+import { TablePagination } from "./shared/TablePagination";
 import { TableSkeleton } from "./shared/Skeletons";
 import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useServerTable } from "@/hooks/useServerTable";
+import { ServerTableConfig } from "@/utils/serverTableQuery";
 import { moveFieldToEnd } from "@/utils/columnOrderUtils";
 import { formatDateTimeStandard } from "@/utils/formatUtils";
+import { CustomFieldValues } from "@/types/customField";
+import { getScoreBand, SCORE_BAND_CLASSES } from "@/types/scoring";
 
 // Export ref interface for parent component
 export interface ContactTableRef {
@@ -64,7 +73,9 @@ interface Contact {
   tags?: string[];
   email_opens?: number;
   engagement_score?: number;
+  score?: number | null;
   last_contacted_at?: string;
+  custom_fields?: CustomFieldValues | null;
 }
 
 interface ContactTableProps {
@@ -80,6 +91,47 @@ interface ContactTableProps {
 
 const PAGE_SIZE_OPTIONS = [10, 25, 50, 100];
 
+type ContactRow = Contact & { accounts?: { company_name?: string; industry?: string; region?: string } | null };
+
+const CONTACT_SELECT = `
+  *,
+  accounts:account_id (
+    company_name,
+    industry,
+    region
+  )
+`;
+
+// Flatten the linked account into the contact row
+const toContact = (contact: ContactRow) => ({
+  ...contact,
+  account_company_name: contact.accounts?.company_name || contact.company_name || null,
+  account_industry: contact.accounts?.industry,
+  account_region: contact.accounts?.region,
+}) as Contact;
+
+const CONTACT_TABLE: ServerTableConfig<Contact> = {
+  table: 'contacts',
+  select: CONTACT_SELECT,
+  searchColumns: ['contact_name', 'company_name', 'email', 'phone_no', 'linkedin', 'description', 'position'],
+  arraySearchColumns: ['tags'],
+  sortColumns: { account_company_name: 'company_name' },
+  defaultSort: { field: 'created_time', direction: 'desc' },
+  transform: rows => (rows as unknown as ContactRow[]).map(toContact),
+};
+
+const CONTACT_SEARCH_FIELDS = [
+  { value: 'contact_name', label: 'Name' },
+  { value: 'company_name', label: 'Company' },
+  { value: 'position', label: 'Position' },
+  { value: 'email', label: 'Email' },
+  { value: 'phone_no', label: 'Phone' },
+  { value: 'region', label: 'Region' },
+  { value: 'industry', label: 'Industry' },
+  { value: 'contact_source', label: 'Source' },
+  { value: 'description', label: 'Description' },
+];
+
 export const ContactTable = forwardRef<ContactTableRef, ContactTableProps>(({
   showColumnCustomizer,
   setShowColumnCustomizer,
@@ -94,26 +146,36 @@ export const ContactTable = forwardRef<ContactTableRef, ContactTableProps>(({
   const { logDelete, logBulkDelete } = useCRUDAudit();
   const queryClient = useQueryClient();
   const [searchParams, setSearchParams] = useSearchParams();
-  const [filteredContacts, setFilteredContacts] = useState<Contact[]>([]);
   const [searchTerm, setSearchTerm] = useState("");
+  const [searchGroups, setSearchGroups] = useState<SearchGroup[]>([]);
+  // Remounts the search bar so clearing filters also clears its advanced conditions
+  const [searchBarKey, setSearchBarKey] = useState(0);
   const [debouncedSearchTerm, setDebouncedSearchTerm] = useState("");
   const [currentUserId, setCurrentUserId] = useState<string | null>(null);
 
+  // Built-in columns plus admin-defined custom fields
+  const {
+    columns: availableColumns,
+    customFields,
+    loading: customFieldsLoading,
+    getCustomFieldCellValue,
+  } = useCustomFieldColumns('contact', defaultContactColumns);
+
   // Column preferences hook
   const { columns, saveColumns, isSaving } = useColumnPreferences({
     moduleName: 'contacts',
-    defaultColumns: defaultContactColumns,
+    defaultColumns: availableColumns,
   });
   const [localColumns, setLocalColumns] = useState<ContactColumnConfig[]>([]);
   const [isColumnsInitialized, setIsColumnsInitialized] = useState(false);
 
   // Only initialize columns once when they first load from preferences
   useEffect(() => {
-    if (columns.length > 0 && !isColumnsInitialized) {
+    if (columns.length > 0 && !isColumnsInitialized && !customFieldsLoading) {
       setLocalColumns(columns);
       setIsColumnsInitialized(true);
     }
-  }, [columns, isColumnsInitialized]);
+  }, [columns, isColumnsInitialized, customFieldsLoading]);
 
   // Debounce search
   useEffect(() => {
@@ -129,6 +191,7 @@ export const ContactTable = forwardRef<ContactTableRef, ContactTableProps>(({
   
   const [sourceFilter, setSourceFilter] = useState<string>(() => sourceParam || "all");
   const [ownerFilter, setOwnerFilter] = useState<string>("all");
+  const [scoreFilter, setScoreFilter] = useState<string>("all");
   
   const [tagFilter, setTagFilter] = useState<string | null>(null);
 
@@ -221,54 +284,57 @@ export const ContactTable = forwardRef<ContactTableRef, ContactTableProps>(({
     staleTime: 10 * 60 * 1000, // 10 minutes
   });
 
-  // Fetch contacts with React Query caching
-  const { data: contacts = [], isLoading: loading, refetch: refetchContacts } = useQuery({
-    queryKey: ['contacts'],
-    queryFn: async () => {
-      const { data, error } = await supabase
-        .from('contacts')
-        .select(`
-          *,
-          accounts:account_id (
-            company_name,
-            industry,
-            region
-          )
-        `)
-        .order('created_time', { ascending: false });
-
-      if (error) throw error;
-
-      // Transform data to include account fields
-      return (data || []).map(contact => ({
-        ...contact,
-        account_company_name: contact.accounts?.company_name || contact.company_name || null,
-        account_industry: contact.accounts?.industry,
-        account_region: contact.accounts?.region,
-      })) as Contact[];
+  // One page of contacts, filtered, sorted and counted in the database
+  const tableParams = useMemo(() => ({
+    page: currentPage,
+    pageSize: itemsPerPage,
+    search: debouncedSearchTerm,
+    searchGroups,
+    filters: {
+      contact_source: sourceFilter && sourceFilter !== "all" ? { op: 'eq' as const, value: sourceFilter } : null,
+      contact_owner: ownerFilter && ownerFilter !== "all" ? { op: 'eq' as const, value: ownerFilter } : null,
+      tags: tagFilter ? { op: 'contains' as const, value: [tagFilter] } : null,
+      score: getScoreBandFilter(scoreFilter),
     },
-    staleTime: 2 * 60 * 1000, // 2 minutes
-  });
+    sort: sortField ? { field: sortField, direction: sortDirection } : null,
+  }), [currentPage, itemsPerPage, debouncedSearchTerm, searchGroups, sourceFilter, ownerFilter, tagFilter, scoreFilter, sortField, sortDirection]);
+
+  const {
+    rows: contacts,
+    total: totalContacts,
+    totalPages,
+    loading,
+    refetch: refetchContacts,
+  } = useServerTable(CONTACT_TABLE, tableParams, setCurrentPage);
 
   const fetchContacts = () => {
     refetchContacts();
   };
 
-  // Handle viewId from URL (from global search)
+  // Handle viewId from URL (from global search); the contact may be on another page
   const viewId = searchParams.get('viewId');
   useEffect(() => {
-    if (viewId && contacts.length > 0) {
-      const contactToView = contacts.find(c => c.id === viewId);
-      if (contactToView) {
-        setViewingContact(contactToView);
-        setShowDetailModal(true);
-        // Clear the viewId from URL after opening
-        setSearchParams(prev => {
-          prev.delete('viewId');
-          return prev;
-        }, { replace: true });
+    if (!viewId) return;
+    let cancelled = false;
+    const openContact = async () => {
+      let contactToView = contacts.find(c => c.id === viewId);
+      if (!contactToView) {
+        const { data } = await supabase.from('contacts').select(CONTACT_SELECT).eq('id', viewId).maybeSingle();
+        if (data) contactToView = toContact(data as ContactRow);
       }
-    }
+      if (cancelled || !contactToView) return;
+      setViewingContact(contactToView);
+      setShowDetailModal(true);
+      // Clear the viewId from URL after opening
+      setSearchParams(prev => {
+        prev.delete('viewId');
+        return prev;
+      }, { replace: true });
+    };
+    openContact();
+    return () => {
+      cancelled = true;
+    };
   }, [viewId, contacts, setSearchParams]);
 
   // Expose methods to parent via ref
@@ -287,64 +353,18 @@ export const ContactTable = forwardRef<ContactTableRef, ContactTableProps>(({
     }
   }, [refreshTrigger]);
 
-  // Filter and sort contacts
+  // Filters, search and sort apply to the whole table, so start again from the first page
   useEffect(() => {
-    const searchLower = debouncedSearchTerm.toLowerCase();
-    let filtered = contacts.filter(contact =>
-      contact.contact_name?.toLowerCase().includes(searchLower) ||
-      contact.company_name?.toLowerCase().includes(searchLower) ||
-      contact.account_company_name?.toLowerCase().includes(searchLower) ||
-      contact.email?.toLowerCase().includes(searchLower) ||
-      contact.phone_no?.toLowerCase().includes(searchLower) ||
-      contact.linkedin?.toLowerCase().includes(searchLower) ||
-      contact.description?.toLowerCase().includes(searchLower) ||
-      contact.position?.toLowerCase().includes(searchLower) ||
-      contact.tags?.some(tag => tag.toLowerCase().includes(searchLower))
-    );
-
-    // Apply source filter
-    if (sourceFilter && sourceFilter !== "all") {
-      filtered = filtered.filter(contact =>
-        contact.contact_source?.toLowerCase() === sourceFilter.toLowerCase()
-      );
-    }
-
-    // Apply owner filter
-    if (ownerFilter && ownerFilter !== "all") {
-      filtered = filtered.filter(contact => contact.contact_owner === ownerFilter);
-    }
-
-
-    // Apply tag filter
-    if (tagFilter) {
-      filtered = filtered.filter(contact => contact.tags?.includes(tagFilter));
-    }
-
-    // Apply sorting
-    if (sortField) {
-      filtered.sort((a, b) => {
-        const aValue = a[sortField as keyof Contact] || '';
-        const bValue = b[sortField as keyof Contact] || '';
-
-        if (typeof aValue === 'number' && typeof bValue === 'number') {
-          return sortDirection === 'asc' ? aValue - bValue : bValue - aValue;
-        }
-
-        const comparison = aValue.toString().localeCompare(bValue.toString());
-        return sortDirection === 'asc' ? comparison : -comparison;
-      });
-    }
-
-    setFilteredContacts(filtered);
     setCurrentPage(1);
-  }, [contacts, debouncedSearchTerm, sourceFilter, ownerFilter, tagFilter, sortField, sortDirection]);
+  }, [debouncedSearchTerm, searchGroups, sourceFilter, ownerFilter, tagFilter, scoreFilter, sortField, sortDirection, itemsPerPage]);
 
   const handleSort = (field: string) => {
     if (sortField === field) {
       setSortDirection(prev => prev === 'asc' ? 'desc' : 'asc');
     } else {
       setSortField(field);
-      setSortDirection('asc');
+      // Highest score first
+      setSortDirection(field === 'score' ? 'desc' : 'asc');
     }
   };
 
@@ -460,9 +480,7 @@ export const ContactTable = forwardRef<ContactTableRef, ContactTableProps>(({
     localColumns.filter((col) => col.visible).sort((a, b) => a.order - b.order),
     "contact_owner",
   );
-  const totalPages = Math.ceil(filteredContacts.length / itemsPerPage);
-  const startIndex = (currentPage - 1) * itemsPerPage;
-  const pageContacts = filteredContacts.slice(startIndex, startIndex + itemsPerPage);
+  const pageContacts = contacts;
 
   // Get owner IDs for display names
   const ownerIds = useMemo(() => {
@@ -475,12 +493,15 @@ export const ContactTable = forwardRef<ContactTableRef, ContactTableProps>(({
   const { displayNames } = useUserDisplayNames(ownerIds);
 
   // Check if any filters are active
-  const hasActiveFilters = debouncedSearchTerm !== "" || sourceFilter !== "all" || ownerFilter !== "all" || tagFilter !== null;
+  const hasActiveFilters = debouncedSearchTerm !== "" || searchGroups.length > 0 || sourceFilter !== "all" || ownerFilter !== "all" || scoreFilter !== "all" || tagFilter !== null;
 
   const clearAllFilters = () => {
     setSearchTerm("");
+    setSearchGroups([]);
+    setSearchBarKey(key => key + 1);
     setSourceFilter("all");
     setOwnerFilter("all");
+    setScoreFilter("all");
     setTagFilter(null);
   };
 
@@ -504,8 +525,10 @@ export const ContactTable = forwardRef<ContactTableRef, ContactTableProps>(({
     return colors[index];
   };
 
-  const getDisplayValue = (contact: Contact, columnField: string) => {
-    if (columnField === 'contact_owner') {
+  const getDisplayValue = (contact: Contact, columnField: string): string => {
+    if (isCustomFieldColumn(columnField)) {
+      return getCustomFieldCellValue(contact, columnField) || '-';
+    } else if (columnField === 'contact_owner') {
       if (!contact.contact_owner) return '-';
       return displayNames[contact.contact_owner] || "Loading...";
     } else if (columnField === 'created_by') {
@@ -516,7 +539,7 @@ export const ContactTable = forwardRef<ContactTableRef, ContactTableProps>(({
       if (!dateValue) return '-';
       return formatDateTimeStandard(dateValue as string);
     }
-    return contact[columnField as keyof Contact] || '-';
+    return (contact[columnField as keyof Contact] as string) || '-';
   };
 
   return (
@@ -524,14 +547,15 @@ export const ContactTable = forwardRef<ContactTableRef, ContactTableProps>(({
       {/* Header and Actions */}
       <div className="flex items-center justify-between gap-4 flex-wrap">
         <div className="flex items-center gap-3 flex-wrap">
-          <div className="relative w-64">
-            <Search className="absolute left-2.5 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4 pointer-events-none" />
-            <Input
+          <div className="w-96">
+            <AdvancedSearchBar
+              key={searchBarKey}
+              fields={CONTACT_SEARCH_FIELDS}
+              customFields={customFields}
+              onSearch={setSearchGroups}
               placeholder="Search contacts..."
-              value={searchTerm}
-              onChange={e => setSearchTerm(e.target.value)}
-              className="pl-9"
-              inputSize="control"
+              simpleSearch={searchTerm}
+              onSimpleSearchChange={setSearchTerm}
             />
           </div>
 
@@ -567,7 +591,7 @@ export const ContactTable = forwardRef<ContactTableRef, ContactTableProps>(({
             </SelectContent>
           </Select>
 
-          
+          <ScoreBandFilter value={scoreFilter} onValueChange={setScoreFilter} />
 
           {tagFilter && (
             <Badge variant="secondary" className="flex items-center gap-1">
@@ -746,14 +770,10 @@ export const ContactTable = forwardRef<ContactTableRef, ContactTableProps>(({
                               </TooltipContent>
                             </Tooltip>
                           </TooltipProvider>
-                        ) : column.field === 'engagement_score' ? (
-                          contact.engagement_score != null ? (
-                            <span className={`font-medium ${contact.engagement_score >= 70 ? 'text-green-600 dark:text-green-400' : contact.engagement_score >= 40 ? 'text-amber-600 dark:text-amber-400' : 'text-muted-foreground'}`}>
-                              {contact.engagement_score}
-                            </span>
-                          ) : (
-                            <span className="text-center text-muted-foreground w-full block">-</span>
-                          )
+                        ) : column.field === 'score' ? (
+                          <span className={`font-medium ${SCORE_BAND_CLASSES[getScoreBand(contact.score)]}`}>
+                            {contact.score ?? 0}
+                          </span>
                         ) : column.field === 'email_opens' ? (
                           <span className="text-center w-full block">{contact.email_opens ?? 0}</span>
                         ) : column.field === 'last_contacted_at' ? (
@@ -837,35 +857,15 @@ export const ContactTable = forwardRef<ContactTableRef, ContactTableProps>(({
         </div>
         
         {/* Pagination */}
-        <div className="flex items-center justify-between p-4 border-t flex-shrink-0">
-          <div className="flex items-center gap-2">
-            <span className="text-sm text-muted-foreground">
-              Showing {filteredContacts.length === 0 ? 0 : startIndex + 1} to {Math.min(startIndex + itemsPerPage, filteredContacts.length)} of {filteredContacts.length} contacts
-            </span>
-          </div>
-          <div className="flex items-center gap-2">
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={() => setCurrentPage(prev => Math.max(1, prev - 1))}
-              disabled={currentPage === 1 || totalPages === 0}
-            >
-              <ChevronLeft className="w-4 h-4" />
-              Previous
-            </Button>
-            <span className="text-sm">
-              Page {currentPage} of {totalPages || 1}
-            </span>
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={() => setCurrentPage(prev => Math.min(totalPages, prev + 1))}
-              disabled={currentPage === totalPages || totalPages === 0}
-            >
-              Next
-              <ChevronRight className="w-4 h-4" />
-            </Button>
-          </div>
+        <div className="border-t flex-shrink-0 px-2">
+          <TablePagination
+            currentPage={currentPage}
+            totalPages={totalPages}
+            itemsPerPage={itemsPerPage}
+            totalItems={totalContacts}
+            onPageChange={setCurrentPage}
+            entityName="contacts"
+          />
         </div>
       </Card>
 
@@ -902,6 +902,7 @@ export const ContactTable = forwardRef<ContactTableRef, ContactTableProps>(({
         onColumnsChange={setLocalColumns}
         onSave={saveColumns}
         isSaving={isSaving}
+        availableColumns={availableColumns}
       />
 
       <ContactDeleteConfirmDialog
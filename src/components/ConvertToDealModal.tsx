@@ -4,10 +4,11 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/u
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
 import { DealForm } from "./DealForm";
-import { supabase } from "@/integrations/supabase/client";
 import { Deal } from "@/types/deal";
 import { useUserDisplayNames } from "@/hooks/useUserDisplayNames";
 import { useCRUDAudit } from "@/hooks/useCRUDAudit";
+import { useConversionMappings, useConversions } from "@/hooks/useConversions";
+import { applyConversionMappings } from "@/types/conversion";
 
 interface Lead {
   id: string;
@@ -17,6 +18,8 @@ interface Lead {
   contact_owner?: string;
   created_by?: string;
   lead_status?: string;
+  account_id?: string | null;
+  custom_fields?: unknown;
 }
 
 interface ConvertToDealModalProps {
@@ -28,7 +31,9 @@ interface ConvertToDealModalProps {
 
 export const ConvertToDealModal = ({ open, onOpenChange, lead, onSuccess }: ConvertToDealModalProps) => {
   const { toast } = useToast();
-  const { logCreate, logUpdate } = useCRUDAudit();
+  const { logCreate } = useCRUDAudit();
+  const { mappings } = useConversionMappings('lead_to_deal');
+  const { convertLeadToDeal } = useConversions();
 
   // Get display names for lead owner
   const leadOwnerIds = lead?.created_by ? [lead.created_by] : [];
@@ -38,61 +43,20 @@ export const ConvertToDealModal = ({ open, onOpenChange, lead, onSuccess }: Conv
 
   const handleSaveDeal = async (dealData: Partial<Deal>) => {
     try {
-      console.log("Converting lead to deal with data:", dealData);
-      
-      // Get current user for created_by field
-      const { data: { user }, error: userError } = await supabase.auth.getUser();
-      
-      if (userError || !user) {
-        throw new Error("User not authenticated");
-      }
-
       // Get the lead owner display name from the hook
       const leadOwnerDisplayName = lead.created_by ? displayNames[lead.created_by] || 'Unknown User' : '';
 
-      // Ensure required fields are present and remove any undefined/null values that could cause UUID errors
-      const dealToInsert = {
-        deal_name: dealData.deal_name || `Deal for ${lead.lead_name}`,
-        stage: dealData.stage || 'Lead',
-        project_name: dealData.project_name || '',
-        customer_name: dealData.customer_name || lead.company_name || '',
-        lead_name: dealData.lead_name || lead.lead_name,
-        lead_owner: dealData.lead_owner || leadOwnerDisplayName,
-        region: dealData.region || lead.country || '',
-        priority: dealData.priority || 3,
-        created_by: user.id, // Ensure created_by is set for RLS
-        // Only include fields that have actual values to avoid UUID parsing errors
-        ...(dealData.currency_type && { currency_type: dealData.currency_type }),
-        ...(dealData.quarterly_revenue_q1 !== undefined && { quarterly_revenue_q1: dealData.quarterly_revenue_q1 }),
-        ...(dealData.quarterly_revenue_q2 !== undefined && { quarterly_revenue_q2: dealData.quarterly_revenue_q2 }),
-        ...(dealData.quarterly_revenue_q3 !== undefined && { quarterly_revenue_q3: dealData.quarterly_revenue_q3 }),
-        ...(dealData.quarterly_revenue_q4 !== undefined && { quarterly_revenue_q4: dealData.quarterly_revenue_q4 }),
-      };
-      
-      const { data: insertedDeal, error } = await supabase
-        .from('deals')
-        .insert([dealToInsert])
-        .select()
-        .single();
-
-      if (error) throw error;
+      // Creates the deal, marks the lead converted and moves its open work in one transaction
+      const insertedDeal = await convertLeadToDeal({
+        leadId: lead.id,
+        values: {
+          ...dealData,
+          lead_owner: dealData.lead_owner || leadOwnerDisplayName,
+        },
+      });
 
       // Log deal creation
-      await logCreate('deals', insertedDeal.id, dealToInsert);
-
-      // Update lead status to 'Converted'
-      const { error: leadUpdateError } = await supabase
-        .from('leads')
-        .update({ lead_status: 'Converted' })
-        .eq('id', lead.id);
-
-      if (leadUpdateError) {
-        console.error("Error updating lead status:", leadUpdateError);
-        throw leadUpdateError; // Throw the error so user knows about it
-      }
-
-      // Log lead update
-      await logUpdate('leads', lead.id, { lead_status: 'Converted' }, { lead_status: lead.lead_status });
+      await logCreate('deals', insertedDeal.id, insertedDeal);
 
       toast({
         title: "Success",
@@ -112,22 +76,21 @@ export const ConvertToDealModal = ({ open, onOpenChange, lead, onSuccess }: Conv
     }
   };
 
-  // Create initial deal data based on lead with all required fields
+  // Pre-fill the deal from the lead using the admin-configured field mappings
   // Keep Project Name blank as requested
+  const mapped = applyConversionMappings(mappings, lead as unknown as Record<string, unknown>) as Partial<Deal>;
   const initialDeal: Deal = {
     id: '', // Will be generated by database
     created_at: new Date().toISOString(),
     modified_at: new Date().toISOString(),
     created_by: null, // Will be set by RLS
     modified_by: null,
-    deal_name: `Deal for ${lead.lead_name}`, // This will be the deal name, not project name
-    stage: 'Lead',
     project_name: '', // Keep blank as requested
-    customer_name: lead.company_name || '',
-    lead_name: lead.lead_name,
     lead_owner: lead.created_by ? (displayNames[lead.created_by] || 'Unknown User') : '', // Use display name from hook
-    region: lead.country || '',
     priority: 3, // Default priority
+    ...mapped,
+    deal_name: mapped.deal_name || `Deal for ${lead.lead_name}`, // This will be the deal name, not project name
+    stage: 'Lead',
   };
 
   return (
@@ -10,6 +10,7 @@ import {
 import { Settings, Upload, Download, Columns } from "lucide-react";
 import { Deal } from "@/types/deal";
 import { useDealsImportExport } from "@/hooks/useDealsImportExport";
+import { SPREADSHEET_ACCEPT } from "@/utils/spreadsheetFile";
 
 interface DealActionsDropdownProps {
   deals: Deal[];
@@ -44,7 +45,7 @@ export const DealActionsDropdown = ({
   const handleImportClick = () => {
     const input = document.createElement('input');
     input.type = 'file';
-    input.accept = '.csv';
+    input.accept = SPREADSHEET_ACCEPT;
     input.onchange = async (e) => {
       const file = (e.target as HTMLInputElement).files?.[0];
       if (file) {
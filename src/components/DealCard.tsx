@@ -3,7 +3,7 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { Deal, STAGE_COLORS } from "@/types/deal";
+import { Deal, DealStage } from "@/types/deal";
 import { format } from "date-fns";
 import { Trash2, XCircle } from "lucide-react";
 
@@ -14,7 +14,9 @@ interface DealCardProps {
   isSelected?: boolean;
   selectionMode?: boolean;
   onDelete?: (dealId: string) => void;
-  onStageChange?: (dealId: string, newStage: any) => void;
+  onStageChange?: (dealId: string, newStage: DealStage) => void;
+  // Lost stage offered as a quick "drop" action; omitted when the deal can't be dropped from its stage
+  dropStage?: DealStage;
   displayNames?: Record<string, string>;
 }
 
@@ -26,6 +28,7 @@ export const DealCard = ({
   selectionMode, 
   onDelete, 
   onStageChange,
+  dropStage,
   displayNames 
 }: DealCardProps) => {
   const formatCurrency = (amount: number, currency: string = 'EUR') => {
@@ -35,8 +38,8 @@ export const DealCard = ({
 
   const handleMoveToDropped = (e: React.MouseEvent) => {
     e.stopPropagation();
-    if (onStageChange) {
-      onStageChange(deal.id, 'Dropped');
+    if (onStageChange && dropStage) {
+      onStageChange(deal.id, dropStage);
     }
   };
 
@@ -55,13 +58,13 @@ export const DealCard = ({
             {deal.project_name || 'Untitled Deal'}
           </CardTitle>
           <div className="flex items-center gap-1">
-            {!selectionMode && deal.stage === 'Offered' && onStageChange && (
+            {!selectionMode && dropStage && onStageChange && (
               <Button
                 size="sm"
                 variant="ghost"
                 onClick={handleMoveToDropped}
                 className="opacity-0 group-hover:opacity-100 transition-all duration-200 p-1 h-6 w-6 bg-amber-50 hover:bg-amber-100 text-amber-700"
-                title="Move to Dropped"
+                title={`Move to ${dropStage}`}
               >
                 <XCircle className="w-3 h-3" />
               </Button>
@@ -19,6 +19,8 @@ interface DealColumnCustomizerProps {
   onColumnsChange: (columns: DealColumnConfig[]) => void;
   onSave?: (columns: DealColumnConfig[]) => Promise<unknown>;
   isSaving?: boolean;
+  // Columns the user can pick from; defaults to the built-in set
+  availableColumns?: DealColumnConfig[];
 }
 
 // Removed region column - available from linked Account/Customer
@@ -46,6 +48,7 @@ export const DealColumnCustomizer = ({
   onColumnsChange,
   onSave,
   isSaving = false,
+  availableColumns = defaultDealColumns,
 }: DealColumnCustomizerProps) => {
   // Initialize local columns only when dialog opens
   const [localColumns, setLocalColumns] = useState<DealColumnConfig[]>([]);
@@ -55,9 +58,9 @@ export const DealColumnCustomizer = ({
   useEffect(() => {
     if (open && !isInitialized) {
       const existingFields = new Set(columns.map(c => c.field));
-      const missingColumns = defaultDealColumns.filter(dc => !existingFields.has(dc.field));
+      const missingColumns = availableColumns.filter(dc => !existingFields.has(dc.field));
       const validColumns = columns.filter(c => 
-        defaultDealColumns.some(dc => dc.field === c.field)
+        availableColumns.some(dc => dc.field === c.field)
       );
       
       if (missingColumns.length > 0 || validColumns.length !== columns.length) {
@@ -90,7 +93,7 @@ export const DealColumnCustomizer = ({
   };
 
   const handleReset = () => {
-    setLocalColumns(defaultDealColumns);
+    setLocalColumns(availableColumns);
   };
 
   return (
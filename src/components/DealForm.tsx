@@ -5,19 +5,25 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/u
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
-import { Deal, DealStage, getNextStage, getFinalStageOptions, getStageIndex, DEAL_STAGES } from "@/types/deal";
+import { Deal, DealStage, getNextStage, getStageColorStyle, isClosedStage } from "@/types/deal";
+import { usePipelineStages } from "@/hooks/usePipelineStages";
+import { useCustomFields } from "@/hooks/useCustomFields";
+import { validateCustomFieldValues } from "@/types/customField";
 import { useToast } from "@/hooks/use-toast";
 import { validateRequiredFields, getFieldErrors, validateDateLogic, validateRevenueSum } from "./deal-form/validation";
 import { DealStageForm } from "./deal-form/DealStageForm";
+import { CustomFieldsSection } from "./shared/CustomFieldsSection";
 import { supabase } from "@/integrations/supabase/client";
 import { useUserDisplayNames } from "@/hooks/useUserDisplayNames";
 import { Plus, ListTodo } from "lucide-react";
+import { ApprovalStatusPanel } from "@/components/approvals/ApprovalStatusPanel";
+import { DealActionItemsPanel } from "@/components/deals/DealActionItemsPanel";
 
 interface DealFormProps {
   deal: Deal | null;
   isOpen: boolean;
   onClose: () => void;
-  onSave: (dealData: Partial<Deal>) => Promise<void>;
+  onSave: (dealData: Partial<Deal>) => Promise<{ heldForApproval?: boolean } | void>;
   onRefresh?: () => Promise<void>;
   isCreating?: boolean;
   initialStage?: DealStage;
@@ -31,7 +37,10 @@ export const DealForm = ({ deal, isOpen, onClose, onSave, isCreating = false, in
   const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
   const [showValidationErrors, setShowValidationErrors] = useState(false);
   const [linkedTasksCount, setLinkedTasksCount] = useState(0);
+  const [customFieldErrors, setCustomFieldErrors] = useState<Record<string, string>>({});
+  const { fields: customFields } = useCustomFields('deal');
   const { toast } = useToast();
+  const { stages, stageNames, openStageNames, getStage, getDefaultProbability, getProbabilityForStageChange } = usePipelineStages();
 
   // NEW: Track current user id for default Lead Owner
   const [currentUserId, setCurrentUserId] = useState<string | null>(null);
@@ -87,6 +96,7 @@ export const DealForm = ({ deal, isOpen, onClose, onSave, isCreating = false, in
       // Set default values for new deals
       const defaultData: Partial<Deal> = {
         stage: initialStage,
+        probability: getDefaultProbability(initialStage),
         currency_type: 'EUR', // Default to EUR
         quarterly_revenue_q1: 0,
         quarterly_revenue_q2: 0,
@@ -97,6 +107,7 @@ export const DealForm = ({ deal, isOpen, onClose, onSave, isCreating = false, in
       setShowValidationErrors(false);
     }
     setShowPreviousStages(false);
+    setCustomFieldErrors({});
   }, [deal, isCreating, initialStage, isOpen]);
 
   // Fetch linked tasks count for this deal
@@ -125,7 +136,13 @@ export const DealForm = ({ deal, isOpen, onClose, onSave, isCreating = false, in
     }
   }, [deal?.id, isOpen, isCreating]);
 
-  const currentStage = formData.stage || 'Lead';
+  const currentStage = formData.stage || openStageNames[0];
+
+  // Stage change plus the target stage's default probability, unless it was set by hand
+  const withStage = (targetStage: DealStage): Partial<Deal> => {
+    const probability = getProbabilityForStageChange(currentStage, targetStage, formData.probability);
+    return probability !== undefined ? { stage: targetStage, probability } : { stage: targetStage };
+  };
 
   // No field errors since validation is removed
   useEffect(() => {
@@ -146,6 +163,19 @@ export const DealForm = ({ deal, isOpen, onClose, onSave, isCreating = false, in
     });
   };
 
+  // Required custom fields block saving and stage moves alike
+  const hasCustomFieldErrors = () => {
+    const errors = validateCustomFieldValues(customFields, formData.custom_fields);
+    setCustomFieldErrors(errors);
+    if (Object.keys(errors).length === 0) return false;
+    toast({
+      title: "Missing information",
+      description: Object.values(errors)[0],
+      variant: "destructive",
+    });
+    return true;
+  };
+
   const handleLeadSelect = (lead: any) => {
     console.log("Selected lead:", lead);
     // The lead selection is handled in the FormFieldRenderer component
@@ -153,6 +183,7 @@ export const DealForm = ({ deal, isOpen, onClose, onSave, isCreating = false, in
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    if (hasCustomFieldErrors()) return;
     setLoading(true);
 
     try {
@@ -170,13 +201,15 @@ export const DealForm = ({ deal, isOpen, onClose, onSave, isCreating = false, in
       
       console.log("Save data:", saveData);
       
-      await onSave(saveData);
+      const result = await onSave(saveData);
       
       console.log("Save successful");
-      toast({
-        title: "Success",
-        description: isCreating ? "Deal created successfully" : "Deal updated successfully",
-      });
+      if (!(result && result.heldForApproval)) {
+        toast({
+          title: "Success",
+          description: isCreating ? "Deal created successfully" : "Deal updated successfully",
+        });
+      }
       
       if (onRefresh) {
         await onRefresh();
@@ -198,27 +231,30 @@ export const DealForm = ({ deal, isOpen, onClose, onSave, isCreating = false, in
   };
 
   const handleMoveToNextStage = async () => {
+    if (hasCustomFieldErrors()) return;
     setLoading(true);
     
     try {
-      const nextStage = getNextStage(currentStage);
+      const nextStage = getNextStage(currentStage, stages);
       if (nextStage) {
         console.log(`Moving deal from ${currentStage} to ${nextStage}`);
         
         const updatedData = {
           ...formData,
-          stage: nextStage,
+          ...withStage(nextStage),
           deal_name: formData.project_name || formData.deal_name || 'Untitled Deal',
           modified_at: new Date().toISOString(),
           modified_by: deal?.created_by || formData.created_by
         };
         
-        await onSave(updatedData);
+        const result = await onSave(updatedData);
         
-        toast({
-          title: "Success",
-          description: `Deal moved to ${nextStage} stage`,
-        });
+        if (!(result && result.heldForApproval)) {
+          toast({
+            title: "Success",
+            description: `Deal moved to ${nextStage} stage`,
+          });
+        }
         
         onClose();
         if (onRefresh) {
@@ -238,6 +274,7 @@ export const DealForm = ({ deal, isOpen, onClose, onSave, isCreating = false, in
   };
 
   const handleMoveToFinalStage = async (finalStage: DealStage) => {
+    if (hasCustomFieldErrors()) return;
     setLoading(true);
     
     try {
@@ -245,19 +282,21 @@ export const DealForm = ({ deal, isOpen, onClose, onSave, isCreating = false, in
       
       const updatedData = {
         ...formData,
-        stage: finalStage,
+        ...withStage(finalStage),
         deal_name: formData.project_name || formData.deal_name || 'Untitled Deal',
         modified_at: new Date().toISOString(),
         modified_by: deal?.created_by || formData.created_by
       };
       
       setFormData(updatedData);
-      await onSave(updatedData);
+      const result = await onSave(updatedData);
       
-      toast({
-        title: "Success",
-        description: `Deal moved to ${finalStage} stage`,
-      });
+      if (!(result && result.heldForApproval)) {
+        toast({
+          title: "Success",
+          description: `Deal moved to ${finalStage} stage`,
+        });
+      }
       
       onClose();
       if (onRefresh) {
@@ -276,6 +315,7 @@ export const DealForm = ({ deal, isOpen, onClose, onSave, isCreating = false, in
   };
 
   const handleMoveToSpecificStage = async (targetStage: DealStage) => {
+    if (hasCustomFieldErrors()) return;
     setLoading(true);
     
     try {
@@ -283,19 +323,21 @@ export const DealForm = ({ deal, isOpen, onClose, onSave, isCreating = false, in
       
       const updatedData = {
         ...formData,
-        stage: targetStage,
+        ...withStage(targetStage),
         deal_name: formData.project_name || formData.deal_name || 'Untitled Deal',
         modified_at: new Date().toISOString(),
         modified_by: deal?.created_by || formData.created_by
       };
       
       setFormData(updatedData);
-      await onSave(updatedData);
+      const result = await onSave(updatedData);
       
-      toast({
-        title: "Success",
-        description: `Deal moved to ${targetStage} stage`,
-      });
+      if (!(result && result.heldForApproval)) {
+        toast({
+          title: "Success",
+          description: `Deal moved to ${targetStage} stage`,
+        });
+      }
       
       onClose();
       if (onRefresh) {
@@ -315,12 +357,11 @@ export const DealForm = ({ deal, isOpen, onClose, onSave, isCreating = false, in
 
   // Allow movement to any stage - no restrictions
   const getAvailableStagesForMoveTo = (): DealStage[] => {
-    const allStages: DealStage[] = ['Lead', 'Discussions', 'Qualified', 'RFQ', 'Offered', 'Won', 'Lost', 'Dropped'];
-    return allStages.filter(stage => stage !== currentStage);
+    return stageNames.filter(stage => stage !== currentStage);
   };
 
   // No validation - always allow movement and saving
-  const canMoveToNextStage = !isCreating && getNextStage(currentStage) !== null;
+  const canMoveToNextStage = !isCreating && getNextStage(currentStage, stages) !== null;
   const canMoveToFinalStage = !isCreating;
   const canSave = true; // Always allow saving
 
@@ -370,7 +411,7 @@ export const DealForm = ({ deal, isOpen, onClose, onSave, isCreating = false, in
                 {isCreating ? 'Create New Deal' : formData.project_name || 'Edit Deal'}
               </DialogTitle>
               <div className="flex items-center gap-2 mt-2">
-                <Badge variant="outline" className="text-sm px-3 py-1">
+                <Badge variant="outline" className="text-sm px-3 py-1" style={getStageColorStyle(getStage(currentStage)?.stage_color)}>
                   {currentStage}
                 </Badge>
                 {!isCreating && (
@@ -424,6 +465,11 @@ export const DealForm = ({ deal, isOpen, onClose, onSave, isCreating = false, in
         <form onSubmit={handleSubmit} className="flex flex-col flex-1 min-h-0">
           {/* Scrollable stages section */}
           <div className="flex-1 overflow-y-auto pr-2">
+            {!isCreating && deal?.id && (
+              <div className="mb-4">
+                <ApprovalStatusPanel entityType="deals" entityId={deal.id} compact />
+              </div>
+            )}
             <DealStageForm
               formData={formData}
               onFieldChange={handleFieldChange}
@@ -432,6 +478,19 @@ export const DealForm = ({ deal, isOpen, onClose, onSave, isCreating = false, in
               stage={currentStage}
               showPreviousStages={showPreviousStages}
             />
+            <div className="mt-4">
+              <CustomFieldsSection
+                entityType="deal"
+                values={formData.custom_fields || {}}
+                onChange={(values) => setFormData(prev => ({ ...prev, custom_fields: values }))}
+                errors={customFieldErrors}
+              />
+            </div>
+            {!isCreating && deal?.id && (
+              <div className="mt-4">
+                <DealActionItemsPanel dealId={deal.id} isDealClosed={isClosedStage(currentStage, stages)} />
+              </div>
+            )}
           </div>
 
           {/* Action Buttons - Fixed at bottom */}
@@ -10,7 +10,8 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from
 import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Filter, X, Save, FolderOpen, Trash2, Search } from "lucide-react";
-import { DealStage, DEAL_STAGES } from "@/types/deal";
+import { DealStage } from "@/types/deal";
+import { usePipelineStages } from "@/hooks/usePipelineStages";
 import { cn } from "@/lib/utils";
 import { useSavedFilters } from "@/hooks/useSavedFilters";
 
@@ -28,10 +29,11 @@ export interface AdvancedFilterState {
 interface DealsAdvancedFilterProps {
   filters: AdvancedFilterState;
   onFiltersChange: (filters: AdvancedFilterState) => void;
-  availableRegions: string[];
+  // Regions, priorities and probabilities use the fixed option lists below
+  availableRegions?: string[];
   availableLeadOwners: string[];
-  availablePriorities: string[];
-  availableProbabilities: string[];
+  availablePriorities?: string[];
+  availableProbabilities?: string[];
   availableHandoffStatuses: string[];
 }
 
@@ -61,6 +63,7 @@ export const DealsAdvancedFilter = ({
 }: DealsAdvancedFilterProps) => {
   const [localFilters, setLocalFilters] = useState<AdvancedFilterState>(filters);
   const [isOpen, setIsOpen] = useState(false);
+  const { stageNames } = usePipelineStages();
   const [filterName, setFilterName] = useState("");
   const [showSaveDialog, setShowSaveDialog] = useState(false);
   const filterRef = useRef<HTMLDivElement>(null);
@@ -277,7 +280,7 @@ export const DealsAdvancedFilter = ({
               <div className="grid grid-cols-2 gap-6">
                 {/* Left Column */}
                 <div className="space-y-4">
-                  {renderMultiSelectSection("Stages", "stages", DEAL_STAGES)}
+                  {renderMultiSelectSection("Stages", "stages", stageNames)}
                   {renderMultiSelectSection("Regions", "regions", REGION_OPTIONS)}
                   {renderMultiSelectSection("Priorities", "priorities", PRIORITY_OPTIONS)}
                 </div>
@@ -9,6 +9,7 @@ import {
 import { Settings, Upload, Download, Columns, Trash2 } from "lucide-react";
 import { Deal } from "@/types/deal";
 import { useDealsImportExport } from "@/hooks/useDealsImportExport";
+import { SPREADSHEET_ACCEPT } from "@/utils/spreadsheetFile";
 
 interface DealsSettingsDropdownProps {
   deals: Deal[];
@@ -45,7 +46,7 @@ export const DealsSettingsDropdown = ({
   const handleImportClick = () => {
     const input = document.createElement('input');
     input.type = 'file';
-    input.accept = '.csv';
+    input.accept = SPREADSHEET_ACCEPT;
     input.onchange = async (e) => {
       const file = (e.target as HTMLInputElement).files?.[0];
       if (file) {
@@ -75,7 +76,7 @@ export const DealsSettingsDropdown = ({
         )}
         <DropdownMenuItem onClick={handleImportClick}>
           <Upload className="w-4 h-4 mr-2" />
-          Import CSV
+          Import CSV / Excel
         </DropdownMenuItem>
         <DropdownMenuItem onClick={handleExportClick}>
           <Download className="w-4 h-4 mr-2" />
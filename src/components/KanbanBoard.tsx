@@ -1,6 +1,7 @@
 import { useState, useMemo, useEffect } from "react";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
 import { DragDropContext, Droppable, Draggable, DropResult } from "@hello-pangea/dnd";
-import { Deal, DealStage, DEAL_STAGES, STAGE_COLORS } from "@/types/deal";
+import { Deal, DealStage, getStageColorStyle } from "@/types/deal";
 import { DealCard } from "./DealCard";
 import { Button } from "@/components/ui/button";
 import { Checkbox } from "@/components/ui/checkbox";
@@ -12,10 +13,19 @@ import { DealsAdvancedFilter, AdvancedFilterState } from "./DealsAdvancedFilter"
 import { DeleteConfirmDialog } from "./shared/DeleteConfirmDialog";
 import { useUserDisplayNames } from "@/hooks/useUserDisplayNames";
 import { useDealsImportExport } from "@/hooks/useDealsImportExport";
+import { usePipelineStages } from "@/hooks/usePipelineStages";
+import { MoveDealStage, useStageGate } from "@/hooks/useStageGate";
+import { StageGateDialog } from "./deals/StageGateDialog";
+import { supabase } from "@/integrations/supabase/client";
+import { dealFiltersToParams, fetchAllDeals, HANDOFF_STATUS_OPTIONS } from "@/utils/dealTableQuery";
+
+// Stable while nothing has loaded, so memoised values don't rerun
+const NO_DEALS: Deal[] = [];
 
 interface KanbanBoardProps {
-  deals: Deal[];
-  onUpdateDeal: (dealId: string, updates: Partial<Deal>) => Promise<void>;
+  // Only deals created by this user ("my deals")
+  createdBy?: string;
+  onMoveDealStage: MoveDealStage;
   onDealClick: (deal: Deal) => void;
   onCreateDeal: (stage: DealStage) => void;
   onDeleteDeals: (dealIds: string[]) => void;
@@ -24,8 +34,8 @@ interface KanbanBoardProps {
 }
 
 export const KanbanBoard = ({ 
-  deals, 
-  onUpdateDeal, 
+  createdBy,
+  onMoveDealStage,
   onDealClick, 
   onCreateDeal, 
   onDeleteDeals, 
@@ -36,6 +46,7 @@ export const KanbanBoard = ({
   const [selectedDeals, setSelectedDeals] = useState<Set<string>>(new Set());
   const [selectionMode, setSelectionMode] = useState(false);
   const [searchTerm, setSearchTerm] = useState("");
+  const [debouncedSearchTerm, setDebouncedSearchTerm] = useState("");
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [dealToDelete, setDealToDelete] = useState<Deal | null>(null);
   const [filters, setFilters] = useState<AdvancedFilterState>({
@@ -49,35 +60,57 @@ export const KanbanBoard = ({
     probabilityRange: [0, 100],
   });
   const { toast } = useToast();
+  const { activeStages, openStageNames, lostStageNames, getStage, isLostStage } = usePipelineStages();
+  const { moveToStage, gate, remaining, completeGate, skipGate, cancelGates, isSubmitting } = useStageGate(onMoveDealStage);
+  const firstStage = openStageNames[0];
+  const lastOpenStage = openStageNames[openStageNames.length - 1];
+  const dropStage = lostStageNames.includes('Dropped') ? 'Dropped' : lostStageNames[lostStageNames.length - 1];
+
+  // Debounce search
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setDebouncedSearchTerm(searchTerm);
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [searchTerm]);
+
+  // Search and filters run in the database. The board lays every matching deal out by stage
+  // (column counts, select-all per column, drop targets), so it reads the whole filtered set in
+  // pages instead of one table page; the list view pages with useServerTable.
+  const boardParams = useMemo(
+    () => dealFiltersToParams(filters, debouncedSearchTerm, { createdBy }),
+    [filters, debouncedSearchTerm, createdBy]
+  );
+  const { data: deals = NO_DEALS } = useQuery({
+    queryKey: ['deals', 'board', boardParams],
+    queryFn: () => fetchAllDeals(boardParams),
+    placeholderData: keepPreviousData,
+    staleTime: 2 * 60 * 1000,
+  });
+
+  // Owners of deals outside the current filter are offered too - use shared cache
+  const { data: allProfiles = [] } = useQuery({
+    queryKey: ['all-profiles'],
+    queryFn: async () => {
+      const { data } = await supabase.from('profiles').select('id, full_name');
+      return data || [];
+    },
+    staleTime: 10 * 60 * 1000, // 10 minutes - profiles rarely change
+    gcTime: 30 * 60 * 1000,
+  });
 
   // Get owner IDs for display names
   const ownerIds = useMemo(() => {
     return [...new Set(deals.map(d => d.lead_owner).filter(Boolean))] as string[];
   }, [deals]);
   const { displayNames } = useUserDisplayNames(ownerIds);
+  const leadOwnerOptions = useMemo(() => allProfiles.map(profile => profile.id), [allProfiles]);
 
   // Initialize import/export for bulk export
   const { handleExportSelected } = useDealsImportExport({
     onRefresh
   });
 
-  // Generate available options for multi-select filters
-  const availableOptions = useMemo(() => {
-    const regions = Array.from(new Set(deals.map(d => d.region).filter(Boolean)));
-    const leadOwners = Array.from(new Set(deals.map(d => d.lead_owner).filter(Boolean)));
-    const priorities = Array.from(new Set(deals.map(d => String(d.priority)).filter(p => p !== 'undefined')));
-    const probabilities = Array.from(new Set(deals.map(d => String(d.probability)).filter(p => p !== 'undefined')));
-    const handoffStatuses = Array.from(new Set(deals.map(d => d.handoff_status).filter(Boolean)));
-    
-    return {
-      regions,
-      leadOwners,
-      priorities,
-      probabilities,
-      handoffStatuses,
-    };
-  }, [deals]);
-
   useEffect(() => {
     const savedFilters = localStorage.getItem('deals-kanban-filters');
     if (savedFilters) {
@@ -96,50 +129,40 @@ export const KanbanBoard = ({
     localStorage.setItem('deals-kanban-filters', JSON.stringify(filtersWithSearch));
   }, [filters, searchTerm]);
 
-  const filterDeals = (deals: Deal[]) => {
-    return deals.filter(deal => {
-      // Combine search from both searchTerm and filters.searchTerm
-      const allSearchTerms = [searchTerm, filters.searchTerm].filter(Boolean).join(' ').toLowerCase();
-      const searchMatch = !allSearchTerms || 
-        deal.deal_name?.toLowerCase().includes(allSearchTerms) ||
-        deal.project_name?.toLowerCase().includes(allSearchTerms) ||
-        deal.lead_name?.toLowerCase().includes(allSearchTerms) ||
-        deal.customer_name?.toLowerCase().includes(allSearchTerms) ||
-        deal.region?.toLowerCase().includes(allSearchTerms);
-      
-      // Apply multi-select filters
-      const matchesStages = filters.stages.length === 0 || filters.stages.includes(deal.stage);
-      const matchesRegions = filters.regions.length === 0 || filters.regions.includes(deal.region || '');
-      const matchesLeadOwners = filters.leadOwners.length === 0 || filters.leadOwners.includes(deal.lead_owner || '');
-      const matchesPriorities = filters.priorities.length === 0 || filters.priorities.includes(String(deal.priority || ''));
-      const matchesProbabilities = filters.probabilities.length === 0 || filters.probabilities.includes(String(deal.probability || ''));
-      const matchesHandoffStatuses = filters.handoffStatuses.length === 0 || filters.handoffStatuses.includes(deal.handoff_status || '');
-      
-      // Probability range filter
-      const dealProbability = deal.probability || 0;
-      const matchesProbabilityRange = dealProbability >= filters.probabilityRange[0] && dealProbability <= filters.probabilityRange[1];
-      
-      return searchMatch && matchesStages && matchesRegions && matchesLeadOwners && 
-             matchesPriorities && matchesProbabilities && matchesHandoffStatuses && matchesProbabilityRange;
-    });
-  };
+  const getDealsByStage = (stage: DealStage) => deals.filter(deal => deal.stage === stage);
 
-  const getDealsByStage = (stage: DealStage) => {
-    const filteredDeals = filterDeals(deals);
-    return filteredDeals.filter(deal => deal.stage === stage);
+  const getVisibleStages = () => {
+    // The entry stage and lost stages only get a column while they hold deals
+    const stages = activeStages
+      .map(s => s.stage_name)
+      .filter(stage => {
+        if (stage === firstStage || isLostStage(stage)) return getDealsByStage(stage).length > 0;
+        return true;
+      });
+
+    // Deals sitting in a deactivated stage stay visible in a trailing column
+    const orphanStages = [...new Set(deals.map(d => d.stage))].filter(
+      stage => stage && !activeStages.some(s => s.stage_name === stage)
+    );
+    return [...stages, ...orphanStages.filter(stage => getDealsByStage(stage).length > 0)];
   };
 
-  const getVisibleStages = () => {
-    const leadDeals = getDealsByStage('Lead');
-    const lostDeals = getDealsByStage('Lost');
-    const droppedDeals = getDealsByStage('Dropped');
-    
-    return DEAL_STAGES.filter(stage => {
-      if (stage === 'Lead') return leadDeals.length > 0;
-      if (stage === 'Lost') return lostDeals.length > 0;
-      if (stage === 'Dropped') return droppedDeals.length > 0;
-      return true;
-    });
+  // Moves one deal through the stage gate; missing entry criteria open the complete-stage form
+  const moveDeal = async (deal: Deal, newStage: DealStage) => {
+    const summary = await moveToStage([deal], newStage);
+    if (summary.moved > 0) {
+      toast({
+        title: "Deal Moved",
+        description: `Successfully moved to ${newStage} stage`,
+      });
+    }
+    if (summary.errors.length > 0) {
+      toast({
+        title: "Error",
+        description: summary.errors[0],
+        variant: "destructive",
+      });
+    }
   };
 
   const onDragStart = (start: any) => {
@@ -157,36 +180,7 @@ export const KanbanBoard = ({
     
     if (!deal || deal.stage === newStage) return;
 
-    console.log(`Moving deal from ${deal.stage} to ${newStage}`);
-
-    try {
-      console.log(`Moving deal ${draggableId} to stage ${newStage}`);
-      
-      // Show immediate visual feedback
-      toast({
-        title: "Moving Deal...",
-        description: `Moving to ${newStage} stage`,
-      });
-      
-      // Create update object with the new stage
-      const updates: Partial<Deal> = {
-        stage: newStage
-      };
-      
-      await onUpdateDeal(draggableId, updates);
-      
-      toast({
-        title: "Deal Moved",
-        description: `Successfully moved to ${newStage} stage`,
-      });
-    } catch (error) {
-      console.error("Error updating deal stage:", error);
-      toast({
-        title: "Error",
-        description: "Failed to update deal stage",
-        variant: "destructive",
-      });
-    }
+    await moveDeal(deal, newStage);
   };
 
   const handleSelectDeal = (dealId: string, checked: boolean, event?: React.MouseEvent) => {
@@ -245,28 +239,8 @@ export const KanbanBoard = ({
   };
 
   const handleDealCardAction = async (dealId: string, newStage: DealStage) => {
-    try {
-      console.log(`Card action: Moving deal ${dealId} to stage ${newStage}`);
-      
-      // Create update object with the new stage
-      const updates: Partial<Deal> = {
-        stage: newStage
-      };
-      
-      await onUpdateDeal(dealId, updates);
-      
-      toast({
-        title: "Deal Updated",
-        description: `Deal moved to ${newStage} stage`,
-      });
-    } catch (error) {
-      console.error("Error updating deal stage:", error);
-      toast({
-        title: "Error",
-        description: "Failed to update deal stage",
-        variant: "destructive",
-      });
-    }
+    const deal = deals.find(d => d.id === dealId);
+    if (deal) await moveDeal(deal, newStage);
   };
 
   // Get selected deal objects for export
@@ -294,11 +268,8 @@ export const KanbanBoard = ({
             <DealsAdvancedFilter 
               filters={filters} 
               onFiltersChange={setFilters}
-              availableRegions={availableOptions.regions}
-              availableLeadOwners={availableOptions.leadOwners}
-              availablePriorities={availableOptions.priorities}
-              availableProbabilities={availableOptions.probabilities}
-              availableHandoffStatuses={availableOptions.handoffStatuses}
+              availableLeadOwners={leadOwnerOptions}
+              availableHandoffStatuses={HANDOFF_STATUS_OPTIONS}
             />
             
             <div className="flex items-center gap-2 flex-shrink-0">
@@ -364,7 +335,7 @@ export const KanbanBoard = ({
                 const allSelected = selectedInStage === stageDeals.length && stageDeals.length > 0;
                 
                 return (
-                  <div key={stage} className={`p-2 rounded-lg border-2 ${STAGE_COLORS[stage]} transition-all hover:shadow-md`}>
+                  <div key={stage} className="p-2 rounded-lg border-2 transition-all hover:shadow-md" style={getStageColorStyle(getStage(stage)?.stage_color)}>
                     <div className="flex items-center justify-between">
                       <div className="flex items-center gap-2 min-w-0 flex-1">
                         {selectionMode && (
@@ -383,7 +354,7 @@ export const KanbanBoard = ({
                             <span className="text-primary ml-1">({selectedInStage})</span>
                           )}
                         </span>
-                        {stage === 'Lead' && (
+                        {stage === firstStage && (
                           <Button
                             size="sm"
                             variant="ghost"
@@ -466,6 +437,7 @@ export const KanbanBoard = ({
                                       setDeleteDialogOpen(true);
                                     }}
                                     onStageChange={handleDealCardAction}
+                                    dropStage={deal.stage === lastOpenStage ? dropStage : undefined}
                                   />
                                 </div>
                               )}
@@ -511,6 +483,15 @@ export const KanbanBoard = ({
         itemName={dealToDelete?.project_name || 'this deal'}
         itemType="deal"
       />
+
+      <StageGateDialog
+        gate={gate}
+        remaining={remaining}
+        isSubmitting={isSubmitting}
+        onSubmit={completeGate}
+        onSkip={skipGate}
+        onCancel={cancelGates}
+      />
     </div>
   );
 };
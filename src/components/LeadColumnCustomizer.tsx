@@ -19,6 +19,8 @@ interface LeadColumnCustomizerProps {
   onColumnsChange: (columns: LeadColumnConfig[]) => void;
   onSave?: (columns: LeadColumnConfig[]) => Promise<unknown>;
   isSaving?: boolean;
+  // Columns the user can pick from; defaults to the built-in set
+  availableColumns?: LeadColumnConfig[];
 }
 
 export const defaultLeadColumns: LeadColumnConfig[] = [
@@ -33,6 +35,7 @@ export const defaultLeadColumns: LeadColumnConfig[] = [
   { field: 'created_time', label: 'Created Date', visible: false, order: 8 },
   { field: 'last_contacted_at', label: 'Last Contacted', visible: true, order: 9 },
   { field: 'contact_owner', label: 'Lead Owner', visible: true, order: 10 },
+  { field: 'score', label: 'Score', visible: false, order: 11 },
 ];
 
 export const LeadColumnCustomizer = ({ 
@@ -42,6 +45,7 @@ export const LeadColumnCustomizer = ({
   onColumnsChange,
   onSave,
   isSaving = false,
+  availableColumns = defaultLeadColumns,
 }: LeadColumnCustomizerProps) => {
   // Initialize local columns only when dialog opens
   const [localColumns, setLocalColumns] = useState<LeadColumnConfig[]>([]);
@@ -51,11 +55,11 @@ export const LeadColumnCustomizer = ({
   useEffect(() => {
     if (open && !isInitialized) {
       const existingFields = new Set(columns.map(c => c.field));
-      const missingColumns = defaultLeadColumns.filter(dc => !existingFields.has(dc.field));
+      const missingColumns = availableColumns.filter(dc => !existingFields.has(dc.field));
       
       // Filter out invalid columns that are not in the default columns list
       const validColumns = columns.filter(c => 
-        defaultLeadColumns.some(dc => dc.field === c.field)
+        availableColumns.some(dc => dc.field === c.field)
       );
       
       if (missingColumns.length > 0 || validColumns.length !== columns.length) {
@@ -88,7 +92,7 @@ export const LeadColumnCustomizer = ({
   };
 
   const handleReset = () => {
-    setLocalColumns(defaultLeadColumns);
+    setLocalColumns(availableColumns);
   };
 
   return (
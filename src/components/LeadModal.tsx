@@ -6,6 +6,8 @@ import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import { useCRUDAudit } from "@/hooks/useCRUDAudit";
 import { useDuplicateDetection } from "@/hooks/useDuplicateDetection";
+import { useCustomFields } from "@/hooks/useCustomFields";
+import { useApprovalGuard } from "@/hooks/useApprovals";
 import { useQuery } from "@tanstack/react-query";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
@@ -17,8 +19,10 @@ import { Plus, Loader2 } from "lucide-react";
 import { LEAD_SOURCES } from "@/utils/leadStatusUtils";
 import { DuplicateWarning } from "./shared/DuplicateWarning";
 import { MergeRecordsModal } from "./shared/MergeRecordsModal";
+import { CustomFieldsSection } from "./shared/CustomFieldsSection";
 import { AccountModal } from "./AccountModal";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
+import { CustomFieldValues, cleanCustomFieldValues, validateCustomFieldValues } from "@/types/customField";
 
 const leadSchema = z.object({
   lead_name: z.string()
@@ -49,6 +53,7 @@ interface Lead {
   contact_source?: string;
   description?: string;
   lead_status?: string;
+  custom_fields?: CustomFieldValues | null;
 }
 
 interface Account {
@@ -73,11 +78,15 @@ interface LeadModalProps {
 export const LeadModal = ({ open, onOpenChange, lead, onSuccess }: LeadModalProps) => {
   const { toast } = useToast();
   const { logCreate, logUpdate } = useCRUDAudit();
+  const { notifyIfHeld } = useApprovalGuard('leads');
   const [loading, setLoading] = useState(false);
   const [accounts, setAccounts] = useState<Account[]>([]);
   const [accountSearch, setAccountSearch] = useState("");
   const [accountModalOpen, setAccountModalOpen] = useState(false);
   const [users, setUsers] = useState<{ id: string; full_name: string | null }[]>([]);
+  const [customFieldValues, setCustomFieldValues] = useState<CustomFieldValues>({});
+  const [customFieldErrors, setCustomFieldErrors] = useState<Record<string, string>>({});
+  const { fields: customFields } = useCustomFields('lead');
   
   // Merge modal state
   const [mergeModalOpen, setMergeModalOpen] = useState(false);
@@ -190,6 +199,7 @@ export const LeadModal = ({ open, onOpenChange, lead, onSuccess }: LeadModalProp
         description: lead.description || "",
         contact_owner: (lead as any).contact_owner || "",
       });
+      setCustomFieldValues(lead.custom_fields || {});
     } else {
       form.reset({
         lead_name: "",
@@ -203,10 +213,23 @@ export const LeadModal = ({ open, onOpenChange, lead, onSuccess }: LeadModalProp
         description: "",
         contact_owner: "",
       });
+      setCustomFieldValues({});
     }
+    setCustomFieldErrors({});
   }, [lead, form]);
 
   const onSubmit = async (data: LeadFormData) => {
+    const fieldErrors = validateCustomFieldValues(customFields, customFieldValues);
+    setCustomFieldErrors(fieldErrors);
+    if (Object.keys(fieldErrors).length > 0) {
+      toast({
+        title: "Missing information",
+        description: Object.values(fieldErrors)[0],
+        variant: "destructive",
+      });
+      return;
+    }
+
     try {
       setLoading(true);
       const user = await supabase.auth.getUser();
@@ -252,6 +275,7 @@ export const LeadModal = ({ open, onOpenChange, lead, onSuccess }: LeadModalProp
         description: data.description || null,
         modified_by: user.data.user.id,
         contact_owner: data.contact_owner || user.data.user.id,
+        custom_fields: cleanCustomFieldValues(customFieldValues),
       };
 
       if (lead) {
@@ -276,10 +300,12 @@ export const LeadModal = ({ open, onOpenChange, lead, onSuccess }: LeadModalProp
 
         await logUpdate('leads', lead.id, baseLeadData, lead);
 
-        toast({
-          title: "Success",
-          description: "Lead updated successfully",
-        });
+        if (!notifyIfHeld(baseLeadData, updatedLead)) {
+          toast({
+            title: "Success",
+            description: "Lead updated successfully",
+          });
+        }
       } else {
         // For new leads, add created_by and contact_owner
         const newLeadData = {
@@ -305,10 +331,12 @@ export const LeadModal = ({ open, onOpenChange, lead, onSuccess }: LeadModalProp
 
         await logCreate('leads', newLead.id, newLeadData);
 
-        toast({
-          title: "Success",
-          description: "Lead created successfully",
-        });
+        if (!notifyIfHeld(newLeadData, newLead)) {
+          toast({
+            title: "Success",
+            description: "Lead created successfully",
+          });
+        }
       }
 
       onSuccess();
@@ -583,6 +611,13 @@ export const LeadModal = ({ open, onOpenChange, lead, onSuccess }: LeadModalProp
               />
             </div>
 
+            <CustomFieldsSection
+              entityType="lead"
+              values={customFieldValues}
+              onChange={setCustomFieldValues}
+              errors={customFieldErrors}
+            />
+
             <FormField
               control={form.control}
               name="description"
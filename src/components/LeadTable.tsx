@@ -6,15 +6,16 @@ import { useCRUDAudit } from "@/hooks/useCRUDAudit";
 import { useUserDisplayNames } from "@/hooks/useUserDisplayNames";
 import { useUserRole } from "@/hooks/useUserRole";
 import { useColumnPreferences } from "@/hooks/useColumnPreferences";
+import { useCustomFieldColumns } from "@/hooks/useCustomFields";
+import { isCustomFieldColumn } from "@/types/customField";
 import { Card } from "@/components/ui/card";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Badge } from "@/components/ui/badge";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Search, ArrowUpDown, ArrowUp, ArrowDown, ChevronLeft, ChevronRight, CalendarPlus, CheckSquare, FileText, Plus, Eye, User } from "lucide-react";
+import { ArrowUpDown, ArrowUp, ArrowDown, CalendarPlus, CheckSquare, FileText, Plus, Eye, User } from "lucide-react";
 import { RowActionsDropdown, Edit, Trash2, Mail, RefreshCw } from "./RowActionsDropdown";
 import { LeadModal } from "./LeadModal";
 import { LeadColumnCustomizer, LeadColumnConfig, defaultLeadColumns } from "./LeadColumnCustomizer";
@@ -27,11 +28,18 @@ import { MeetingModal } from "./MeetingModal";
 import { LeadDetailModal } from "./leads/LeadDetailModal";
 import { HighlightedText } from "./shared/HighlightedText";
 import { ClearFiltersButton } from "./shared/ClearFiltersButton";
+import { getScoreBandFilter, ScoreBandFilter } from "./shared/ScoreBandFilter";
+import { AdvancedSearchBar, SearchGroup } from "./shared/AdvancedSearchBar";
+import { TablePagination } from "./shared/TablePagination";
 import { TableSkeleton } from "./shared/Skeletons";
-import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useQuery } from "@tanstack/react-query";
+import { useServerTable } from "@/hooks/useServerTable";
+import { ServerTableConfig } from "@/utils/serverTableQuery";
 import { moveFieldToEnd } from "@/utils/columnOrderUtils";
 import { formatDateTimeStandard } from "@/utils/formatUtils";
 import { getLeadStatusColor } from "@/utils/statusBadgeUtils";
+import { CustomFieldValues } from "@/types/customField";
+import { getScoreBand, SCORE_BAND_CLASSES } from "@/types/scoring";
 
 // Export ref interface for parent component
 export interface LeadTableRef {
@@ -61,6 +69,8 @@ interface Lead {
   country?: string | null;
   industry?: string | null;
   last_contacted_at?: string | null;
+  score?: number | null;
+  custom_fields?: CustomFieldValues | null;
 }
 
 // Use defaultLeadColumns from LeadColumnCustomizer (imported above)
@@ -78,6 +88,43 @@ interface LeadTableProps {
 
 const PAGE_SIZE_OPTIONS = [10, 25, 50, 100];
 
+type LeadRow = Lead & { accounts?: { company_name?: string } | null };
+
+const LEAD_SELECT = `
+  *,
+  accounts:account_id (
+    company_name
+  )
+`;
+
+// Include the linked account's name as account_company_name
+const toLead = (lead: LeadRow) => ({
+  ...lead,
+  account_company_name: lead.accounts?.company_name || lead.company_name || null
+}) as Lead;
+
+const LEAD_TABLE: ServerTableConfig<Lead> = {
+  table: 'leads',
+  select: LEAD_SELECT,
+  searchColumns: ['lead_name', 'company_name', 'email', 'phone_no', 'position', 'linkedin', 'website'],
+  sortColumns: { account_company_name: 'company_name' },
+  defaultSort: { field: 'created_time', direction: 'desc' },
+  transform: rows => (rows as unknown as LeadRow[]).map(toLead),
+};
+
+const LEAD_SEARCH_FIELDS = [
+  { value: 'lead_name', label: 'Lead Name' },
+  { value: 'company_name', label: 'Company' },
+  { value: 'position', label: 'Position' },
+  { value: 'email', label: 'Email' },
+  { value: 'phone_no', label: 'Phone' },
+  { value: 'country', label: 'Country' },
+  { value: 'industry', label: 'Industry' },
+  { value: 'contact_source', label: 'Source' },
+  { value: 'lead_status', label: 'Status' },
+  { value: 'description', label: 'Description' },
+];
+
 const LeadTable = forwardRef<LeadTableRef, LeadTableProps>(({
   showColumnCustomizer,
   setShowColumnCustomizer,
@@ -91,10 +138,11 @@ const LeadTable = forwardRef<LeadTableRef, LeadTableProps>(({
   const { toast } = useToast();
   const { logDelete, logBulkDelete } = useCRUDAudit();
   const { userRole } = useUserRole();
-  const queryClient = useQueryClient();
   const [searchParams, setSearchParams] = useSearchParams();
-  const [filteredLeads, setFilteredLeads] = useState<Lead[]>([]);
   const [searchTerm, setSearchTerm] = useState("");
+  const [searchGroups, setSearchGroups] = useState<SearchGroup[]>([]);
+  // Remounts the search bar so clearing filters also clears its advanced conditions
+  const [searchBarKey, setSearchBarKey] = useState(0);
   const [debouncedSearchTerm, setDebouncedSearchTerm] = useState("");
   const [statusFilter, setStatusFilter] = useState(initialStatus);
   const [currentUserId, setCurrentUserId] = useState<string | null>(null);
@@ -105,6 +153,7 @@ const LeadTable = forwardRef<LeadTableRef, LeadTableProps>(({
   const fromDateParam = searchParams.get('from');
   const toDateParam = searchParams.get('to');
   const [ownerFilter, setOwnerFilter] = useState<string>("all");
+  const [scoreFilter, setScoreFilter] = useState<string>("all");
   const [dateFromFilter, setDateFromFilter] = useState<string | null>(fromDateParam);
   const [dateToFilter, setDateToFilter] = useState<string | null>(toDateParam);
 
@@ -159,21 +208,29 @@ const LeadTable = forwardRef<LeadTableRef, LeadTableProps>(({
   
   // viewId effect is moved below the leads query
   
+  // Built-in columns plus admin-defined custom fields
+  const {
+    columns: availableColumns,
+    customFields,
+    loading: customFieldsLoading,
+    getCustomFieldCellValue,
+  } = useCustomFieldColumns('lead', defaultLeadColumns);
+
   // Column preferences hook
   const { columns, saveColumns, isSaving } = useColumnPreferences({
     moduleName: 'leads',
-    defaultColumns: defaultLeadColumns,
+    defaultColumns: availableColumns,
   });
   const [localColumns, setLocalColumns] = useState<LeadColumnConfig[]>([]);
   const [isColumnsInitialized, setIsColumnsInitialized] = useState(false);
   
   // Only initialize columns once when they first load from preferences
   useEffect(() => {
-    if (columns.length > 0 && !isColumnsInitialized) {
+    if (columns.length > 0 && !isColumnsInitialized && !customFieldsLoading) {
       setLocalColumns(columns);
       setIsColumnsInitialized(true);
     }
-  }, [columns, isColumnsInitialized]);
+  }, [columns, isColumnsInitialized, customFieldsLoading]);
 
   const [currentPage, setCurrentPage] = useState(1);
   const [itemsPerPage, setItemsPerPage] = useState(25);
@@ -212,106 +269,75 @@ const LeadTable = forwardRef<LeadTableRef, LeadTableProps>(({
     staleTime: 10 * 60 * 1000, // 10 minutes
   });
 
-  // Fetch leads with React Query caching
-  const { data: leads = [], isLoading: loading, refetch: refetchLeads } = useQuery({
-    queryKey: ['leads'],
-    queryFn: async () => {
-      const { data, error } = await supabase.from('leads').select(`
-        *,
-        accounts:account_id (
-          company_name
-        )
-      `).order('created_time', { ascending: false });
-      
-      if (error) throw error;
-      
-      // Transform data to include account_company_name
-      return (data || []).map(lead => ({
-        ...lead,
-        account_company_name: lead.accounts?.company_name || lead.company_name || null
-      })) as Lead[];
+  // One page of leads, filtered, sorted and counted in the database
+  const tableParams = useMemo(() => ({
+    page: currentPage,
+    pageSize: itemsPerPage,
+    search: debouncedSearchTerm,
+    searchGroups,
+    filters: {
+      lead_status: statusFilter !== "all" ? { op: 'eq' as const, value: statusFilter } : null,
+      contact_owner: ownerFilter !== "all" ? { op: 'eq' as const, value: ownerFilter } : null,
+      score: getScoreBandFilter(scoreFilter),
+      created_time: dateFromFilter || dateToFilter ? {
+        op: 'range' as const,
+        gte: dateFromFilter ? new Date(dateFromFilter).toISOString() : undefined,
+        lte: dateToFilter ? new Date(dateToFilter).toISOString() : undefined,
+      } : null,
     },
-    staleTime: 2 * 60 * 1000, // 2 minutes - balance freshness with performance
-  });
+    sort: sortField ? { field: sortField, direction: sortDirection } : null,
+  }), [currentPage, itemsPerPage, debouncedSearchTerm, searchGroups, statusFilter, ownerFilter, scoreFilter, dateFromFilter, dateToFilter, sortField, sortDirection]);
+
+  const {
+    rows: leads,
+    total: totalLeads,
+    totalPages,
+    loading,
+    refetch: refetchLeads,
+  } = useServerTable(LEAD_TABLE, tableParams, setCurrentPage);
 
   const fetchLeads = () => {
     refetchLeads();
   };
 
-  // Handle viewId from URL (from global search)
+  // Handle viewId from URL (from global search); the lead may be on another page
   const viewId = searchParams.get('viewId');
   useEffect(() => {
-    if (viewId && leads.length > 0) {
-      const leadToView = leads.find(l => l.id === viewId);
-      if (leadToView) {
-        setViewingLead(leadToView);
-        setShowDetailModal(true);
-        // Clear the viewId from URL after opening
-        setSearchParams(prev => {
-          prev.delete('viewId');
-          return prev;
-        }, { replace: true });
+    if (!viewId) return;
+    let cancelled = false;
+    const openLead = async () => {
+      let leadToView = leads.find(l => l.id === viewId);
+      if (!leadToView) {
+        const { data } = await supabase.from('leads').select(LEAD_SELECT).eq('id', viewId).maybeSingle();
+        if (data) leadToView = toLead(data as LeadRow);
       }
-    }
+      if (cancelled || !leadToView) return;
+      setViewingLead(leadToView);
+      setShowDetailModal(true);
+      // Clear the viewId from URL after opening
+      setSearchParams(prev => {
+        prev.delete('viewId');
+        return prev;
+      }, { replace: true });
+    };
+    openLead();
+    return () => {
+      cancelled = true;
+    };
   }, [viewId, leads, setSearchParams]);
 
+  // Filters, search and sort apply to the whole table, so start again from the first page
   useEffect(() => {
-    const searchLower = debouncedSearchTerm.toLowerCase();
-    let filtered = leads.filter(lead => 
-      lead.lead_name?.toLowerCase().includes(searchLower) || 
-      lead.company_name?.toLowerCase().includes(searchLower) || 
-      lead.account_company_name?.toLowerCase().includes(searchLower) ||
-      lead.email?.toLowerCase().includes(searchLower) ||
-      lead.phone_no?.toLowerCase().includes(searchLower) ||
-      lead.position?.toLowerCase().includes(searchLower) ||
-      lead.linkedin?.toLowerCase().includes(searchLower) ||
-      lead.website?.toLowerCase().includes(searchLower)
-    );
-    
-    if (statusFilter !== "all") {
-      filtered = filtered.filter(lead => lead.lead_status === statusFilter);
-    }
-    
-    // FIX: Use contact_owner instead of created_by for owner filtering
-    if (ownerFilter !== "all") {
-      filtered = filtered.filter(lead => lead.contact_owner === ownerFilter);
-    }
-    
-    // Apply date range filtering
-    if (dateFromFilter) {
-      const fromDate = new Date(dateFromFilter);
-      filtered = filtered.filter(lead => {
-        if (!lead.created_time) return false;
-        return new Date(lead.created_time) >= fromDate;
-      });
-    }
-    if (dateToFilter) {
-      const toDate = new Date(dateToFilter);
-      filtered = filtered.filter(lead => {
-        if (!lead.created_time) return false;
-        return new Date(lead.created_time) <= toDate;
-      });
-    }
-
-    // Apply sorting
-    if (sortField) {
-      filtered.sort((a, b) => {
-        const aValue = a[sortField as keyof Lead] || '';
-        const bValue = b[sortField as keyof Lead] || '';
-        const comparison = aValue.toString().localeCompare(bValue.toString());
-        return sortDirection === 'asc' ? comparison : -comparison;
-      });
-    }
-    setFilteredLeads(filtered);
     setCurrentPage(1);
-  }, [leads, debouncedSearchTerm, statusFilter, ownerFilter, dateFromFilter, dateToFilter, sortField, sortDirection]);
+  }, [debouncedSearchTerm, searchGroups, statusFilter, ownerFilter, scoreFilter, dateFromFilter, dateToFilter, sortField, sortDirection, itemsPerPage]);
 
   const handleSort = (field: string) => {
     if (sortField === field) {
       setSortDirection(sortDirection === 'asc' ? 'desc' : 'asc');
     } else {
       setSortField(field);
-      setSortDirection('asc');
+      // Highest score first
+      setSortDirection(field === 'score' ? 'desc' : 'asc');
     }
   };
 
@@ -418,7 +444,7 @@ const LeadTable = forwardRef<LeadTableRef, LeadTableProps>(({
 
   const handleSelectAll = (checked: boolean) => {
     if (checked) {
-      const pageLeads = getCurrentPageLeads().slice(0, 50);
+      const pageLeads = leads.slice(0, 50);
       setSelectedLeads(pageLeads.map(l => l.id));
     } else {
       setSelectedLeads([]);
@@ -433,13 +459,6 @@ const LeadTable = forwardRef<LeadTableRef, LeadTableProps>(({
     }
   };
 
-  const getCurrentPageLeads = () => {
-    const startIndex = (currentPage - 1) * itemsPerPage;
-    return filteredLeads.slice(startIndex, startIndex + itemsPerPage);
-  };
-
-  const totalPages = Math.ceil(filteredLeads.length / itemsPerPage);
-
   // Get owner IDs for display names - use contact_owner
   const ownerIds = useMemo(() => {
     return [...new Set([
@@ -455,15 +474,18 @@ const LeadTable = forwardRef<LeadTableRef, LeadTableProps>(({
     localColumns.filter((col) => col.visible).sort((a, b) => a.order - b.order),
     "contact_owner",
   ), [localColumns]);
-  const pageLeads = getCurrentPageLeads();
+  const pageLeads = leads;
 
   // Check if any filters are active
-  const hasActiveFilters = debouncedSearchTerm !== "" || statusFilter !== "all" || ownerFilter !== "all" || dateFromFilter !== null || dateToFilter !== null;
+  const hasActiveFilters = debouncedSearchTerm !== "" || searchGroups.length > 0 || statusFilter !== "all" || ownerFilter !== "all" || scoreFilter !== "all" || dateFromFilter !== null || dateToFilter !== null;
 
   const clearAllFilters = () => {
     setSearchTerm("");
+    setSearchGroups([]);
+    setSearchBarKey(key => key + 1);
     setStatusFilter("all");
     setOwnerFilter("all");
+    setScoreFilter("all");
     setDateFromFilter(null);
     setDateToFilter(null);
     setSearchParams({});
@@ -474,21 +496,8 @@ const LeadTable = forwardRef<LeadTableRef, LeadTableProps>(({
     setShowConvertModal(true);
   };
 
-  const handleConvertSuccess = async () => {
-    if (leadToConvert) {
-      try {
-        const { error } = await supabase.from('leads').update({
-          lead_status: 'Converted'
-        }).eq('id', leadToConvert.id);
-        
-        if (!error) {
-          // Invalidate cache to trigger refetch
-          queryClient.invalidateQueries({ queryKey: ['leads'] });
-        }
-      } catch (error) {
-        // Silent fail for status update
-      }
-    }
+  const handleConvertSuccess = () => {
+    // The conversion already marked the lead as converted
     fetchLeads();
     setLeadToConvert(null);
   };
@@ -523,14 +532,15 @@ const LeadTable = forwardRef<LeadTableRef, LeadTableProps>(({
       {/* Header and Actions */}
       <div className="flex items-center justify-between gap-4 flex-wrap">
         <div className="flex items-center gap-3 flex-wrap">
-          <div className="relative w-64">
-            <Search className="absolute left-2.5 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4 pointer-events-none" />
-            <Input 
-              placeholder="Search leads..." 
-              value={searchTerm} 
-              onChange={e => setSearchTerm(e.target.value)} 
-              className="pl-9" 
-              inputSize="control" 
+          <div className="w-96">
+            <AdvancedSearchBar
+              key={searchBarKey}
+              fields={LEAD_SEARCH_FIELDS}
+              customFields={customFields}
+              onSearch={setSearchGroups}
+              placeholder="Search leads..."
+              simpleSearch={searchTerm}
+              onSimpleSearchChange={setSearchTerm}
             />
           </div>
           <LeadStatusFilter value={statusFilter} onValueChange={setStatusFilter} />
@@ -547,6 +557,7 @@ const LeadTable = forwardRef<LeadTableRef, LeadTableProps>(({
               ))}
             </SelectContent>
           </Select>
+          <ScoreBandFilter value={scoreFilter} onValueChange={setScoreFilter} />
           <ClearFiltersButton hasActiveFilters={hasActiveFilters} onClear={clearAllFilters} />
         </div>
         
@@ -596,6 +607,7 @@ const LeadTable = forwardRef<LeadTableRef, LeadTableProps>(({
                         case 'created_time': return 'w-[150px]';
                         case 'last_contacted_at': return 'w-[150px]';
                         case 'contact_owner': return 'w-[150px]';
+                        case 'score': return 'w-[80px]';
                         default: return 'w-[120px]';
                       }
                     };
@@ -718,16 +730,28 @@ const LeadTable = forwardRef<LeadTableRef, LeadTableProps>(({
                             ) : (
                               <span className="text-center text-muted-foreground w-full block">-</span>
                             )
+                          ) : column.field === 'score' ? (
+                            <span className={`font-medium ${SCORE_BAND_CLASSES[getScoreBand(lead.score)]}`}>
+                              {lead.score ?? 0}
+                            </span>
                           ) : column.field === 'created_time' || column.field === 'modified_time' || column.field === 'last_contacted_at' ? (
                             lead[column.field as keyof Lead] ? (
                               <span className="text-sm">{formatDateTimeStandard(lead[column.field as keyof Lead] as string)}</span>
                             ) : (
                               <span className="text-center text-muted-foreground w-full block">-</span>
                             )
+                          ) : isCustomFieldColumn(column.field) ? (
+                            getCustomFieldCellValue(lead, column.field) ? (
+                              <span className="truncate block" title={getCustomFieldCellValue(lead, column.field)}>
+                                {getCustomFieldCellValue(lead, column.field)}
+                              </span>
+                            ) : (
+                              <span className="text-center text-muted-foreground w-full block">-</span>
+                            )
                           ) : (
                             lead[column.field as keyof Lead] ? (
                               <span className="truncate block" title={lead[column.field as keyof Lead]?.toString()}>
-                                {lead[column.field as keyof Lead]}
+                                {lead[column.field as keyof Lead] as string}
                               </span>
                             ) : (
                               <span className="text-center text-muted-foreground w-full block">-</span>
@@ -810,25 +834,15 @@ const LeadTable = forwardRef<LeadTableRef, LeadTableProps>(({
         </div>
         
         {/* Pagination */}
-        <div className="flex items-center justify-between p-4 border-t flex-shrink-0">
-          <div className="flex items-center gap-2">
-            <span className="text-sm text-muted-foreground">
-              Showing {filteredLeads.length === 0 ? 0 : (currentPage - 1) * itemsPerPage + 1} to {Math.min(currentPage * itemsPerPage, filteredLeads.length)} of {filteredLeads.length} leads
-            </span>
-          </div>
-          <div className="flex items-center gap-2">
-            <Button variant="outline" size="sm" onClick={() => setCurrentPage(prev => Math.max(1, prev - 1))} disabled={currentPage === 1 || totalPages === 0}>
-              <ChevronLeft className="w-4 h-4" />
-              Previous
-            </Button>
-            <span className="text-sm">
-              Page {currentPage} of {totalPages || 1}
-            </span>
-            <Button variant="outline" size="sm" onClick={() => setCurrentPage(prev => Math.min(totalPages, prev + 1))} disabled={currentPage === totalPages || totalPages === 0}>
-              Next
-              <ChevronRight className="w-4 h-4" />
-            </Button>
-          </div>
+        <div className="border-t flex-shrink-0 px-2">
+          <TablePagination
+            currentPage={currentPage}
+            totalPages={totalPages}
+            itemsPerPage={itemsPerPage}
+            totalItems={totalLeads}
+            onPageChange={setCurrentPage}
+            entityName="leads"
+          />
         </div>
       </Card>
 
@@ -862,6 +876,7 @@ const LeadTable = forwardRef<LeadTableRef, LeadTableProps>(({
         onColumnsChange={setLocalColumns} 
         onSave={saveColumns} 
         isSaving={isSaving} 
+        availableColumns={availableColumns}
       />
 
       <ConvertToDealModal 
@@ -6,8 +6,8 @@ import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Checkbox } from "@/components/ui/checkbox";
-import { Deal, DealStage, DEAL_STAGES, STAGE_COLORS } from "@/types/deal";
-import { Search, Filter, X, ArrowUp, ArrowDown, ChevronLeft, ChevronRight, Briefcase, Edit3 } from "lucide-react";
+import { Deal, DealStage } from "@/types/deal";
+import { Search, Filter, X, ArrowUp, ArrowDown, Briefcase, Edit3 } from "lucide-react";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { RowActionsDropdown, Edit, Trash2, CheckSquare } from "./RowActionsDropdown";
 import { format } from "date-fns";
@@ -21,19 +21,30 @@ import { useToast } from "@/hooks/use-toast";
 import { useQuery } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { useColumnPreferences } from "@/hooks/useColumnPreferences";
+import { useCustomFieldColumns } from "@/hooks/useCustomFields";
+import { isCustomFieldColumn } from "@/types/customField";
 import { DeleteConfirmDialog } from "./shared/DeleteConfirmDialog";
 import { ClearFiltersButton } from "./shared/ClearFiltersButton";
 import { HighlightedText } from "./shared/HighlightedText";
+import { TablePagination } from "./shared/TablePagination";
+import { TableSkeleton } from "./shared/Skeletons";
 import { useUserDisplayNames } from "@/hooks/useUserDisplayNames";
 import { moveFieldToEnd } from "@/utils/columnOrderUtils";
 import { getDealStageColor } from "@/utils/statusBadgeUtils";
+import { usePipelineStages } from "@/hooks/usePipelineStages";
+import { MoveDealStage, StageMoveSummary, useStageGate } from "@/hooks/useStageGate";
+import { StageGateDialog } from "./deals/StageGateDialog";
+import { useServerTable } from "@/hooks/useServerTable";
+import { DEAL_TABLE, dealFiltersToParams, fetchDealsByIds, HANDOFF_STATUS_OPTIONS } from "@/utils/dealTableQuery";
 
 const PAGE_SIZE_OPTIONS = [10, 25, 50, 100];
 
 interface ListViewProps {
-  deals: Deal[];
+  // Only deals created by this user ("my deals")
+  createdBy?: string;
   onDealClick: (deal: Deal) => void;
   onUpdateDeal: (dealId: string, updates: Partial<Deal>) => void;
+  onMoveDealStage: MoveDealStage;
   onDeleteDeals: (dealIds: string[]) => void;
   onImportDeals: (deals: Partial<Deal>[]) => void;
   initialStageFilter?: string;
@@ -41,15 +52,17 @@ interface ListViewProps {
 }
 
 export const ListView = ({ 
-  deals, 
+  createdBy,
   onDealClick, 
   onUpdateDeal, 
+  onMoveDealStage,
   onDeleteDeals, 
   onImportDeals,
   initialStageFilter = 'all',
   onSelectionChange
 }: ListViewProps) => {
   const [searchTerm, setSearchTerm] = useState("");
+  const [debouncedSearchTerm, setDebouncedSearchTerm] = useState("");
   const [leadOwnerFilter, setLeadOwnerFilter] = useState("all");
   const [filters, setFilters] = useState<AdvancedFilterState>(() => ({
     stages: initialStageFilter !== 'all' ? [initialStageFilter as DealStage] : [],
@@ -67,11 +80,31 @@ export const ListView = ({
   const [currentPage, setCurrentPage] = useState(1);
   const [itemsPerPage, setItemsPerPage] = useState(25);
 
-  // Get owner IDs for display names
-  const ownerIds = useMemo(() => {
-    return [...new Set(deals.map(d => d.lead_owner).filter(Boolean))] as string[];
-  }, [deals]);
-  const { displayNames } = useUserDisplayNames(ownerIds);
+  // Debounce search
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setDebouncedSearchTerm(searchTerm);
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [searchTerm]);
+
+  // One page of deals, filtered, sorted and counted in the database
+  const tableParams = useMemo(() => ({
+    page: currentPage,
+    pageSize: itemsPerPage,
+    ...dealFiltersToParams(filters, debouncedSearchTerm, {
+      leadOwner: leadOwnerFilter !== "all" ? leadOwnerFilter : undefined,
+      createdBy,
+    }),
+    sort: { field: sortBy, direction: sortOrder },
+  }), [currentPage, itemsPerPage, filters, debouncedSearchTerm, leadOwnerFilter, createdBy, sortBy, sortOrder]);
+
+  const {
+    rows: deals,
+    total: totalDeals,
+    totalPages,
+    loading,
+  } = useServerTable(DEAL_TABLE, tableParams, setCurrentPage);
 
   // Sync stage filter when initialStageFilter prop changes (from URL)
   useEffect(() => {
@@ -105,6 +138,17 @@ export const ListView = ({
     gcTime: 30 * 60 * 1000,
   });
 
+  // Any user can own deals on other pages, so the owner filters offer every profile
+  const ownerIds = useMemo(() => allProfiles.map(profile => profile.id), [allProfiles]);
+  const { displayNames } = useUserDisplayNames(ownerIds);
+
+  // Built-in columns plus admin-defined custom fields
+  const {
+    columns: availableColumns,
+    loading: customFieldsLoading,
+    getCustomFieldCellValue,
+  } = useCustomFieldColumns('deal', defaultDealColumns);
+
   // Use column preferences hook for database persistence
   const { 
     columns: savedColumns, 
@@ -113,7 +157,7 @@ export const ListView = ({
     isLoading: columnsLoading 
   } = useColumnPreferences({
     moduleName: 'deals',
-    defaultColumns: defaultDealColumns,
+    defaultColumns: availableColumns,
   });
 
   // Local state for optimistic updates
@@ -122,11 +166,11 @@ export const ListView = ({
 
   // Only initialize columns once when they first load from preferences
   useEffect(() => {
-    if (savedColumns.length > 0 && !isColumnsInitialized) {
+    if (savedColumns.length > 0 && !isColumnsInitialized && !customFieldsLoading) {
       setLocalColumns(savedColumns);
       setIsColumnsInitialized(true);
     }
-  }, [savedColumns, isColumnsInitialized]);
+  }, [savedColumns, isColumnsInitialized, customFieldsLoading]);
 
   // Column width state
   const [columnWidths, setColumnWidths] = useState<Record<string, number>>({
@@ -154,6 +198,8 @@ export const ListView = ({
   const tableRef = useRef<HTMLTableElement>(null);
 
   const { toast } = useToast();
+  const { activeStages } = usePipelineStages();
+  const { moveToStage, gate, remaining, completeGate, skipGate, cancelGates, isSubmitting } = useStageGate(onMoveDealStage);
 
   const formatCurrency = (amount: number | undefined, currency: string = 'EUR') => {
     if (!amount) return '-';
@@ -252,7 +298,7 @@ export const ListView = ({
 
   const handleSelectAll = (checked: boolean) => {
     if (checked) {
-      setSelectedDeals(new Set(filteredAndSortedDeals.map(deal => deal.id)));
+      setSelectedDeals(new Set(deals.map(deal => deal.id)));
     } else {
       setSelectedDeals(new Set());
     }
@@ -280,6 +326,37 @@ export const ListView = ({
     });
   };
 
+  const toastStageMoveSummary = (summary: StageMoveSummary, stage: DealStage) => {
+    const parts = [
+      summary.moved > 0 && `${summary.moved} moved to ${stage}`,
+      summary.held > 0 && `${summary.held} awaiting approval`,
+      summary.gated > 0 && `${summary.gated} need required fields`,
+    ].filter(Boolean);
+    if (parts.length > 0) {
+      toast({
+        title: "Stage updated",
+        description: parts.join(", "),
+      });
+    }
+    if (summary.errors.length > 0) {
+      toast({
+        title: "Some deals were not moved",
+        description: `${summary.errors.length} failed: ${summary.errors[0]}`,
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Bulk stage changes go through the same entry criteria and approvals as drag and drop
+  const handleBulkMoveStage = async (stage: DealStage) => {
+    // The selection can span pages
+    const selected = await fetchDealsByIds(Array.from(selectedDeals));
+    if (selected.length === 0) return;
+    const summary = await moveToStage(selected, stage);
+    setSelectedDeals(new Set());
+    toastStageMoveSummary(summary, stage);
+  };
+
   const handleBulkExport = () => {
     const selectedDealObjects = deals.filter(deal => selectedDeals.has(deal.id));
     // Export logic handled by DealActionsDropdown
@@ -323,6 +400,14 @@ export const ListView = ({
       }
     }
     
+    if (field === 'stage') {
+      const deal = deals.find(d => d.id === dealId);
+      if (!deal) return;
+      const summary = await moveToStage([deal], value as DealStage);
+      if (summary.gated === 0) toastStageMoveSummary(summary, value as DealStage);
+      return;
+    }
+    
     try {
       await onUpdateDeal(dealId, { [field]: value });
       toast({
@@ -377,23 +462,6 @@ export const ListView = ({
     "lead_owner",
   );
 
-  // Generate available options for multi-select filters
-  const availableOptions = useMemo(() => {
-    const regions = Array.from(new Set(deals.map(d => d.region).filter(Boolean)));
-    const leadOwners = Array.from(new Set(deals.map(d => d.lead_owner).filter(Boolean)));
-    const priorities = Array.from(new Set(deals.map(d => String(d.priority)).filter(p => p !== 'undefined')));
-    const probabilities = Array.from(new Set(deals.map(d => String(d.probability)).filter(p => p !== 'undefined')));
-    const handoffStatuses = Array.from(new Set(deals.map(d => d.handoff_status).filter(Boolean)));
-    
-    return {
-      regions,
-      leadOwners,
-      priorities,
-      probabilities,
-      handoffStatuses,
-    };
-  }, [deals]);
-
   useEffect(() => {
     const savedFilters = localStorage.getItem('deals-filters');
     if (savedFilters) {
@@ -412,74 +480,10 @@ export const ListView = ({
     localStorage.setItem('deals-filters', JSON.stringify(filtersWithSearch));
   }, [filters, searchTerm]);
 
-  const filteredAndSortedDeals = deals
-    .filter(deal => {
-      // Combine search from both searchTerm and filters.searchTerm
-      const allSearchTerms = [searchTerm, filters.searchTerm].filter(Boolean).join(' ').toLowerCase();
-      const matchesSearch = !allSearchTerms || 
-        deal.deal_name?.toLowerCase().includes(allSearchTerms) ||
-        deal.project_name?.toLowerCase().includes(allSearchTerms) ||
-        deal.lead_name?.toLowerCase().includes(allSearchTerms) ||
-        deal.customer_name?.toLowerCase().includes(allSearchTerms) ||
-        deal.region?.toLowerCase().includes(allSearchTerms);
-      
-      // Apply lead owner filter (standalone dropdown)
-      const matchesLeadOwnerDropdown = leadOwnerFilter === "all" || deal.lead_owner === leadOwnerFilter;
-      
-      // Apply multi-select filters
-      const matchesStages = filters.stages.length === 0 || filters.stages.includes(deal.stage);
-      const matchesRegions = filters.regions.length === 0 || filters.regions.includes(deal.region || '');
-      const matchesLeadOwners = filters.leadOwners.length === 0 || filters.leadOwners.includes(deal.lead_owner || '');
-      const matchesPriorities = filters.priorities.length === 0 || filters.priorities.includes(String(deal.priority || ''));
-      const matchesProbabilities = filters.probabilities.length === 0 || filters.probabilities.includes(String(deal.probability || ''));
-      const matchesHandoffStatuses = filters.handoffStatuses.length === 0 || filters.handoffStatuses.includes(deal.handoff_status || '');
-      
-      // Probability range filter
-      const dealProbability = deal.probability || 0;
-      const matchesProbabilityRange = dealProbability >= filters.probabilityRange[0] && dealProbability <= filters.probabilityRange[1];
-      
-      return matchesSearch && matchesLeadOwnerDropdown && matchesStages && matchesRegions && matchesLeadOwners && 
-             matchesPriorities && matchesProbabilities && matchesHandoffStatuses && matchesProbabilityRange;
-    })
-    .sort((a, b) => {
-      const aValue = a[sortBy as keyof Deal];
-      const bValue = b[sortBy as keyof Deal];
-
-      // Handle null/undefined - push to end
-      if (aValue == null && bValue == null) return 0;
-      if (aValue == null) return sortOrder === 'asc' ? 1 : -1;
-      if (bValue == null) return sortOrder === 'asc' ? -1 : 1;
-
-      // Numeric fields
-      if (['priority', 'probability', 'project_duration', 'total_contract_value', 'total_revenue', 'quarterly_revenue_q1', 'quarterly_revenue_q2', 'quarterly_revenue_q3', 'quarterly_revenue_q4'].includes(sortBy)) {
-        const numA = Number(aValue) || 0;
-        const numB = Number(bValue) || 0;
-        return sortOrder === 'asc' ? numA - numB : numB - numA;
-      }
-
-      // Date fields
-      if (['expected_closing_date', 'start_date', 'end_date', 'created_at', 'modified_at', 'proposal_due_date', 'rfq_received_date', 'signed_contract_date', 'implementation_start_date'].includes(sortBy)) {
-        const dateA = new Date(String(aValue)).getTime();
-        const dateB = new Date(String(bValue)).getTime();
-        return sortOrder === 'asc' ? dateA - dateB : dateB - dateA;
-      }
-
-      // String fields - use localeCompare for proper sorting
-      const strA = String(aValue);
-      const strB = String(bValue);
-      const comparison = strA.localeCompare(strB, undefined, { sensitivity: 'base' });
-      return sortOrder === 'asc' ? comparison : -comparison;
-    });
-
-  // Pagination
-  const totalPages = Math.ceil(filteredAndSortedDeals.length / itemsPerPage);
-  const startIndex = (currentPage - 1) * itemsPerPage;
-  const paginatedDeals = filteredAndSortedDeals.slice(startIndex, startIndex + itemsPerPage);
-
-  // Reset to first page when filters change
+  // Filters, search and sort apply to the whole table, so start again from the first page
   useEffect(() => {
     setCurrentPage(1);
-  }, [filters, searchTerm, leadOwnerFilter]);
+  }, [filters, debouncedSearchTerm, leadOwnerFilter, createdBy, sortBy, sortOrder, itemsPerPage]);
 
   const getActiveFiltersCount = () => {
     let count = 0;
@@ -555,7 +559,7 @@ export const ListView = ({
             </SelectTrigger>
             <SelectContent>
               <SelectItem value="all">All Lead Owners</SelectItem>
-              {availableOptions.leadOwners.map((ownerId) => (
+              {ownerIds.map((ownerId) => (
                 <SelectItem key={ownerId} value={ownerId}>
                   {displayNames[ownerId] || ownerId}
                 </SelectItem>
@@ -566,11 +570,8 @@ export const ListView = ({
           <DealsAdvancedFilter 
             filters={filters} 
             onFiltersChange={setFilters}
-            availableRegions={availableOptions.regions}
-            availableLeadOwners={availableOptions.leadOwners}
-            availablePriorities={availableOptions.priorities}
-            availableProbabilities={availableOptions.probabilities}
-            availableHandoffStatuses={availableOptions.handoffStatuses}
+            availableLeadOwners={ownerIds}
+            availableHandoffStatuses={HANDOFF_STATUS_OPTIONS}
           />
 
           <ClearFiltersButton hasActiveFilters={hasActiveFilters} onClear={clearAllFilters} />
@@ -597,7 +598,7 @@ export const ListView = ({
             <TableRow className="sticky top-0 z-20 bg-muted border-b-2 shadow-sm">
               <TableHead className="w-12 min-w-12 text-center font-bold text-foreground bg-muted">
                 <Checkbox
-                  checked={selectedDeals.size === paginatedDeals.length && paginatedDeals.length > 0}
+                  checked={selectedDeals.size === deals.length && deals.length > 0}
                   onCheckedChange={handleSelectAll}
                   className="transition-all hover:scale-110"
                 />
@@ -639,7 +640,13 @@ export const ListView = ({
             </TableRow>
           </TableHeader>
           <TableBody>
-            {filteredAndSortedDeals.length === 0 ? (
+            {loading ? (
+              <TableRow>
+                <TableCell colSpan={visibleColumns.length + 2} className="p-0">
+                  <TableSkeleton columns={visibleColumns.length + 2} rows={10} />
+                </TableCell>
+              </TableRow>
+            ) : deals.length === 0 ? (
               <TableRow>
                 <TableCell colSpan={visibleColumns.length + 2} className="text-center py-8">
                   <div className="flex flex-col items-center gap-2 text-muted-foreground">
@@ -654,7 +661,7 @@ export const ListView = ({
                 </TableCell>
               </TableRow>
             ) : (
-              paginatedDeals.map((deal) => (
+              deals.map((deal) => (
                 <TableRow 
                   key={deal.id} 
                   className={`hover:bg-muted/30 border-b group transition-colors ${selectedDeals.has(deal.id) ? 'bg-primary/5' : ''}`}
@@ -685,7 +692,7 @@ export const ListView = ({
                             className="text-primary hover:underline font-medium text-left truncate"
                             title={deal[column.field as keyof Deal]?.toString() || 'Click to view'}
                           >
-                            <HighlightedText text={deal[column.field as keyof Deal]?.toString() || '-'} highlight={searchTerm} />
+                            <HighlightedText text={deal[column.field as keyof Deal]?.toString() || '-'} highlight={debouncedSearchTerm} />
                           </button>
                           <button
                             className="opacity-0 group-hover:opacity-100 transition-opacity flex-shrink-0 p-0.5 hover:bg-muted rounded"
@@ -698,6 +705,10 @@ export const ListView = ({
                             <Edit3 className="w-3 h-3 text-muted-foreground" />
                           </button>
                         </div>
+                      ) : isCustomFieldColumn(column.field) ? (
+                        <span className="truncate block" title={getCustomFieldCellValue(deal, column.field)}>
+                          {getCustomFieldCellValue(deal, column.field) || '-'}
+                        </span>
                       ) : (
                         <InlineEditCell
                           value={deal[column.field as keyof Deal]}
@@ -748,35 +759,8 @@ export const ListView = ({
         </div>
         
         {/* Pagination */}
-        <div className="flex items-center justify-between p-4 border-t flex-shrink-0">
-          <div className="flex items-center gap-2">
-            <span className="text-sm text-muted-foreground">
-              Showing {filteredAndSortedDeals.length === 0 ? 0 : (currentPage - 1) * itemsPerPage + 1} to {Math.min(currentPage * itemsPerPage, filteredAndSortedDeals.length)} of {filteredAndSortedDeals.length} deals
-            </span>
-          </div>
-          <div className="flex items-center gap-2">
-            <Button 
-              variant="outline" 
-              size="sm" 
-              onClick={() => setCurrentPage(prev => Math.max(1, prev - 1))} 
-              disabled={currentPage === 1 || totalPages === 0}
-            >
-              <ChevronLeft className="w-4 h-4" />
-              Previous
-            </Button>
-            <span className="text-sm">
-              Page {currentPage} of {totalPages || 1}
-            </span>
-            <Button 
-              variant="outline" 
-              size="sm" 
-              onClick={() => setCurrentPage(prev => Math.min(totalPages, prev + 1))} 
-              disabled={currentPage === totalPages || totalPages === 0}
-            >
-              Next
-              <ChevronRight className="w-4 h-4" />
-            </Button>
-          </div>
+        <div className="border-t flex-shrink-0 px-2">
+          <TablePagination currentPage={currentPage} totalPages={totalPages} itemsPerPage={itemsPerPage} totalItems={totalDeals} onPageChange={setCurrentPage} entityName="deals" />
         </div>
       </Card>
 
@@ -787,6 +771,20 @@ export const ListView = ({
           onDelete={handleBulkDelete}
           onExport={handleBulkExport}
           onClearSelection={() => setSelectedDeals(new Set())}
+          extraActions={
+            <Select value="" onValueChange={(stage) => handleBulkMoveStage(stage as DealStage)}>
+              <SelectTrigger className="h-9 w-[150px]" aria-label="Move selected deals to stage">
+                <SelectValue placeholder="Move to stage" />
+              </SelectTrigger>
+              <SelectContent>
+                {activeStages.map(stage => (
+                  <SelectItem key={stage.id} value={stage.stage_name}>
+                    {stage.stage_name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          }
         />
       )}
 
@@ -797,6 +795,7 @@ export const ListView = ({
         onColumnsChange={setLocalColumns}
         onSave={saveColumns}
         isSaving={isSavingColumns}
+        availableColumns={availableColumns}
       />
 
       <DeleteConfirmDialog
@@ -816,6 +815,15 @@ export const ListView = ({
         itemName={dealToDelete?.project_name || 'this deal'}
         itemType="deal"
       />
+
+      <StageGateDialog
+        gate={gate}
+        remaining={remaining}
+        isSubmitting={isSubmitting}
+        onSubmit={completeGate}
+        onSkip={skipGate}
+        onCancel={cancelGates}
+      />
     </div>
   );
 };
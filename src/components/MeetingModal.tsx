@@ -278,6 +278,9 @@ const getBrowserTimezone = () => {
     return "Asia/Kolkata";
   }
 };
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
 interface Meeting {
   id: string;
   subject: string;
@@ -735,6 +738,48 @@ export const MeetingModal = ({
       setCreatingTeamsMeeting(false);
     }
   };
+  // Without a Teams meeting nobody else gets a calendar entry, so each attendee is emailed an
+  // invite.ics instead (send-email attaches it for meetingId). Returns how many sends failed.
+  const sendInvitations = async (
+    meetingId: string,
+    attendees: { email: string; name: string }[],
+    meetingData: { subject: string; description: string | null; start_time: string; end_time: string },
+    isUpdate: boolean
+  ) => {
+    if (!user?.email || attendees.length === 0) return 0;
+    const lead = linkType === "lead" ? leads.find((l) => l.id === formData.lead_id) : undefined;
+    const contact = linkType === "contact" ? contacts.find((c) => c.id === formData.contact_id) : undefined;
+    const when = `${format(toZonedTime(new Date(meetingData.start_time), timezone), "EEEE, MMMM d, yyyy 'at' HH:mm")} - ${format(toZonedTime(new Date(meetingData.end_time), timezone), "HH:mm")} (${timezone})`;
+    const body = [
+      `<p>${isUpdate ? "The meeting has been updated." : "You are invited to a meeting."}</p>`,
+      `<p><strong>${escapeHtml(meetingData.subject)}</strong><br/>${when}</p>`,
+      meetingData.description ? `<p>${escapeHtml(meetingData.description).replace(/\n/g, "<br/>")}</p>` : "",
+    ].join("");
+
+    const results = await Promise.all(
+      attendees.map((attendee) => {
+        const entity =
+          lead?.email === attendee.email
+            ? { entityType: "lead", entityId: lead.id }
+            : contact?.email === attendee.email
+              ? { entityType: "contact", entityId: contact.id }
+              : {};
+        return supabase.functions.invoke("send-email", {
+          body: {
+            to: attendee.email,
+            toName: attendee.name,
+            from: user.email,
+            subject: `${isUpdate ? "Updated invitation" : "Invitation"}: ${meetingData.subject}`,
+            body,
+            meetingId,
+            ...entity,
+          },
+        });
+      })
+    );
+    return results.filter((result) => result.error).length;
+  };
+
   const handleSubmit = async (
     e: React.FormEvent,
     joinUrlOverride?: string | null,
@@ -827,6 +872,7 @@ export const MeetingModal = ({
         if (teamsError) throw teamsError;
       }
 
+      let savedId = meeting?.id;
       if (isUpdate) {
         const { error } = await supabase
           .from("meetings")
@@ -835,13 +881,34 @@ export const MeetingModal = ({
         if (error) throw error;
         toast({ title: "Success", description: "Meeting saved" });
       } else {
-        const { error } = await supabase
+        const { data: inserted, error } = await supabase
           .from("meetings")
-          .insert([{ ...meetingData, created_by: user?.id }]);
+          .insert([{ ...meetingData, created_by: user?.id }])
+          .select("id")
+          .single();
         if (error) throw error;
+        savedId = inserted.id;
         toast({ title: "Success", description: "Meeting created" });
       }
 
+      // Invitations go out for new meetings and for changes attendees would see in their calendar
+      const scheduleChanged =
+        !isUpdate ||
+        meeting!.subject !== meetingData.subject ||
+        meeting!.description !== meetingData.description ||
+        new Date(meeting!.start_time).getTime() !== new Date(meetingData.start_time).getTime() ||
+        new Date(meeting!.end_time).getTime() !== new Date(meetingData.end_time).getTime();
+      if (savedId && !joinUrl && meetingData.status === "scheduled" && scheduleChanged) {
+        const failed = await sendInvitations(savedId, attendeesPayload, meetingData, isUpdate);
+        if (failed > 0) {
+          toast({
+            title: "Invitations not sent",
+            description: `${failed} of ${attendeesPayload.length} calendar invitation(s) could not be emailed`,
+            variant: "destructive",
+          });
+        }
+      }
+
       onSuccess();
       onOpenChange(false);
     } catch (error: any) {
@@ -55,6 +55,8 @@ export const NotificationBell = ({ placement = 'down', size = 'large' }: Notific
     if (notification.lead_id) {
       // Direct lead ID available, navigate to leads page
       navigate(`/leads?highlight=${notification.lead_id}`);
+    } else if (notification.deal_id) {
+      navigate(`/deals?viewId=${notification.deal_id}`);
     } else if (dealMatch) {
       // Deal ID found in message, navigate to deals page
       const dealId = dealMatch[1];
@@ -103,6 +105,8 @@ export const NotificationBell = ({ placement = 'down', size = 'large' }: Notific
         return '👤';
       case 'deal_update':
         return '💼';
+      case 'stale_deal':
+        return '⏳';
       default:
         return '🔔';
     }
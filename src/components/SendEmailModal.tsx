@@ -7,9 +7,14 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Mail, Send, Loader2, Paperclip, X, FileIcon } from "lucide-react";
+import { Mail, Send, Loader2, Paperclip, X, FileIcon, BellOff } from "lucide-react";
 import { RichTextEditor } from "@/components/shared/RichTextEditor";
 import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useTemplateContext } from "@/hooks/useTemplateContext";
+import { TemplateIssuesAlert } from "@/components/email/TemplateIssuesAlert";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { useSuppressedEmails } from "@/hooks/useEmailConsent";
+import { RenderedEmail, renderEmailTemplate } from "@/utils/templateEngine";
 
 // Generic recipient interface that works with contacts, leads, and accounts
 export interface EmailRecipient {
@@ -53,6 +58,7 @@ export const SendEmailModal = ({ open, onOpenChange, recipient, contactId, leadI
   const [body, setBody] = useState("");
   const [isSending, setIsSending] = useState(false);
   const [attachments, setAttachments] = useState<File[]>([]);
+  const [templateReport, setTemplateReport] = useState<RenderedEmail | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   
   const senderEmail = user?.email || "noreply@acmecrm.com";
@@ -85,6 +91,17 @@ export const SendEmailModal = ({ open, onOpenChange, recipient, contactId, leadI
     position: contact.position,
   } : null);
 
+  const { context: templateContext, loading: contextLoading } = useTemplateContext(
+    emailRecipient
+      ? { contactId, leadId, accountId, recipientName: emailRecipient.name, recipientEmail: emailRecipient.email }
+      : null,
+    open
+  );
+
+  // Only an opt-out of all email blocks one-to-one sends; send-email enforces it as well
+  const { suppressed } = useSuppressedEmails(emailRecipient?.email ? [emailRecipient.email] : [], "all", open);
+  const isUnsubscribed = !!emailRecipient?.email && suppressed.has(emailRecipient.email.trim().toLowerCase());
+
   useEffect(() => {
     if (open) {
       fetchTemplates();
@@ -92,6 +109,7 @@ export const SendEmailModal = ({ open, onOpenChange, recipient, contactId, leadI
       setSubject("");
       setBody("");
       setAttachments([]);
+      setTemplateReport(null);
     }
   }, [open]);
 
@@ -159,20 +177,10 @@ export const SendEmailModal = ({ open, onOpenChange, recipient, contactId, leadI
     }
   };
 
-  const replaceVariables = (text: string, recipientData: EmailRecipient | null) => {
-    if (!recipientData) return text;
-    
-    return text
-      .replace(/\{\{contact_name\}\}/g, recipientData.name || '')
-      .replace(/\{\{name\}\}/g, recipientData.name || '')
-      .replace(/\{\{company_name\}\}/g, recipientData.company_name || '')
-      .replace(/\{\{position\}\}/g, recipientData.position || '')
-      .replace(/\{\{email\}\}/g, recipientData.email || '');
-  };
-
   const handleTemplateSelect = (templateId: string) => {
     setSelectedTemplate(templateId);
-    
+    setTemplateReport(null);
+
     if (templateId === "none") {
       setSubject("");
       setBody("");
@@ -180,9 +188,11 @@ export const SendEmailModal = ({ open, onOpenChange, recipient, contactId, leadI
     }
 
     const template = templates.find(t => t.id === templateId);
-    if (template) {
-      setSubject(replaceVariables(template.subject, emailRecipient));
-      setBody(replaceVariables(template.body, emailRecipient));
+    if (template && templateContext) {
+      const rendered = renderEmailTemplate(template, templateContext);
+      setSubject(rendered.subject);
+      setBody(rendered.body);
+      setTemplateReport(rendered);
     }
   };
 
@@ -311,6 +321,15 @@ export const SendEmailModal = ({ open, onOpenChange, recipient, contactId, leadI
         </DialogHeader>
         
         <div className="space-y-4">
+          {isUnsubscribed && (
+            <Alert variant="destructive">
+              <BellOff className="h-4 w-4" />
+              <AlertDescription>
+                {emailRecipient.email} has unsubscribed from all emails and cannot be emailed.
+              </AlertDescription>
+            </Alert>
+          )}
+
           <div className="grid grid-cols-2 gap-4">
             <div className="p-3 bg-muted/50 rounded-lg">
               <Label className="text-xs text-muted-foreground uppercase tracking-wide">From</Label>
@@ -326,9 +345,9 @@ export const SendEmailModal = ({ open, onOpenChange, recipient, contactId, leadI
 
           <div className="space-y-2">
             <Label htmlFor="template">Email Template</Label>
-            <Select value={selectedTemplate} onValueChange={handleTemplateSelect}>
+            <Select value={selectedTemplate} onValueChange={handleTemplateSelect} disabled={contextLoading}>
               <SelectTrigger>
-                <SelectValue placeholder="Select a template (optional)" />
+                <SelectValue placeholder={contextLoading ? "Loading record details..." : "Select a template (optional)"} />
               </SelectTrigger>
               <SelectContent>
                 <SelectItem value="none">No template</SelectItem>
@@ -344,6 +363,13 @@ export const SendEmailModal = ({ open, onOpenChange, recipient, contactId, leadI
                 No templates available. Create templates in Settings → Email Templates.
               </p>
             )}
+            {templateReport && (
+              <TemplateIssuesAlert
+                issues={templateReport.issues}
+                unknownVariables={templateReport.unknownVariables}
+                missing={templateReport.missing}
+              />
+            )}
           </div>
 
           <div className="space-y-2">
@@ -426,7 +452,7 @@ export const SendEmailModal = ({ open, onOpenChange, recipient, contactId, leadI
             </Button>
             <Button 
               onClick={handleSendEmail} 
-              disabled={!emailRecipient?.email || isSending}
+              disabled={!emailRecipient?.email || isSending || isUnsubscribed}
               className="gap-2"
             >
               {isSending ? (
@@ -2,7 +2,7 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { TrendingUp, Target, Euro, Calendar, Edit2, Check, X, AlertCircle } from "lucide-react";
+import { TrendingUp, Target, Banknote, Calendar, Edit2, Check, X, AlertCircle } from "lucide-react";
 import { NotificationBell } from "@/components/NotificationBell";
 import { useYearlyRevenueData, useAvailableYears } from "@/hooks/useYearlyRevenueData";
 import { Skeleton } from "@/components/ui/skeleton";
@@ -11,6 +11,7 @@ import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
 import { useNavigate } from "react-router-dom";
+import { formatCurrency as formatInCurrency, getCurrencySymbol } from "@/utils/formatUtils";
 interface YearlyRevenueSummaryProps {
   selectedYear?: number;
 }
@@ -41,14 +42,22 @@ const YearlyRevenueSummary = ({
   } = useYearlyRevenueData(selectedYear);
   const [editingTarget, setEditingTarget] = useState(false);
   const [targetValue, setTargetValue] = useState('');
+  const reportingCurrency = revenueData?.reportingCurrency || 'EUR';
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-US', {
       style: 'currency',
-      currency: 'EUR',
+      currency: reportingCurrency,
       minimumFractionDigits: 0,
       maximumFractionDigits: 0
     }).format(amount);
   };
+
+  // Original deal amounts behind a converted total, e.g. "€1,200 EUR + $300 USD"
+  const formatOriginalAmounts = (amounts: Record<string, number> = {}) => {
+    const entries = Object.entries(amounts).filter(([, amount]) => amount);
+    if (entries.length === 0 || entries.every(([code]) => code === reportingCurrency)) return null;
+    return entries.map(([code, amount]) => `${formatInCurrency(Math.round(amount), code)} ${code}`).join(' + ');
+  };
   const getProgressPercentage = (actual: number, target: number) => {
     if (target === 0) return 0;
     return actual / target * 100;
@@ -61,6 +70,7 @@ const YearlyRevenueSummary = ({
       } = await supabase.from('yearly_revenue_targets').upsert({
         year: selectedYear,
         total_target: Number(targetValue),
+        currency: reportingCurrency,
         created_by: user.id
       }, {
         onConflict: 'year'
@@ -126,8 +136,18 @@ const YearlyRevenueSummary = ({
       </div>;
   }
   const totalCombined = (revenueData?.totalActual || 0) + (revenueData?.totalProjected || 0);
+  const originalActual = formatOriginalAmounts(revenueData?.originalActual);
+  const originalProjected = formatOriginalAmounts(revenueData?.originalProjected);
+  const unconverted = formatOriginalAmounts(revenueData?.unconverted);
   const progressPercentage = getProgressPercentage(revenueData?.totalActual || 0, revenueData?.target || 0);
   return <div className="space-y-6">
+      {unconverted && <div className="flex items-start gap-2 rounded-md border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800 dark:border-amber-800 dark:bg-amber-950/30 dark:text-amber-300">
+          <AlertCircle className="w-4 h-4 mt-0.5 shrink-0" />
+          <span>
+            {unconverted} left out of the totals: no exchange rate to {reportingCurrency}. Ask an admin to add one under Settings → Reports → Exchange Rates.
+          </span>
+        </div>}
+
       {/* Summary Cards */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
         <Card className="hover-scale">
@@ -153,7 +173,7 @@ const YearlyRevenueSummary = ({
           <CardContent>
             {editingTarget ? (
               <div className="flex items-center gap-1">
-                <span className="text-lg font-semibold">€</span>
+                <span className="text-lg font-semibold">{getCurrencySymbol(reportingCurrency)}</span>
                 <Input 
                   value={targetValue ? Number(targetValue).toLocaleString('en-US') : ''} 
                   onChange={e => {
@@ -170,13 +190,16 @@ const YearlyRevenueSummary = ({
               <div className="text-2xl font-bold">{formatCurrency(revenueData?.target || 0)}</div>
             )}
             <p className="text-xs text-muted-foreground">Set for {selectedYear}</p>
+            {revenueData?.targetOriginal && !editingTarget && <p className="text-xs text-muted-foreground">
+                Entered as {formatInCurrency(revenueData.targetOriginal.amount, revenueData.targetOriginal.currency)} {revenueData.targetOriginal.currency}
+              </p>}
           </CardContent>
         </Card>
 
         <Card className="hover-scale cursor-pointer" onClick={() => handleCardClick('actual')}>
           <CardHeader className="flex flex-row items-center justify-between pb-2">
             <CardTitle className="text-sm font-medium">Actual Revenue</CardTitle>
-            <Euro className="w-4 h-4 text-green-600" />
+            <Banknote className="w-4 h-4 text-green-600" />
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold text-green-600">
@@ -185,6 +208,9 @@ const YearlyRevenueSummary = ({
             <p className="text-xs text-muted-foreground">
               {progressPercentage.toFixed(1)}% of target
             </p>
+            {originalActual && <p className="text-xs text-muted-foreground truncate" title={originalActual}>
+                {originalActual}
+              </p>}
           </CardContent>
         </Card>
 
@@ -198,6 +224,9 @@ const YearlyRevenueSummary = ({
               {formatCurrency(revenueData?.totalProjected || 0)}
             </div>
             <p className="text-xs text-muted-foreground">From RFQ deals</p>
+            {originalProjected && <p className="text-xs text-muted-foreground truncate" title={originalProjected}>
+                {originalProjected}
+              </p>}
           </CardContent>
         </Card>
 
@@ -210,7 +239,7 @@ const YearlyRevenueSummary = ({
             <div className="text-2xl font-bold text-purple-600">
               {formatCurrency(totalCombined)}
             </div>
-            <p className="text-xs text-muted-foreground">Actual + Projected</p>
+            <p className="text-xs text-muted-foreground">Actual + Projected, in {reportingCurrency}</p>
           </CardContent>
         </Card>
       </div>
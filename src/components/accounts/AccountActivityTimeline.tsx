@@ -20,6 +20,8 @@ import {
 import { format } from "date-fns";
 import { ActivityDetailModal } from "@/components/shared/ActivityDetailModal";
 import { useProfiles, getDisplayName } from "@/hooks/useProfiles";
+import { formatCurrency } from "@/utils/formatUtils";
+import { DEFAULT_DEAL_CURRENCY } from "@/utils/currencyConversion";
 
 interface TimelineItem {
   id: string;
@@ -90,7 +92,7 @@ export const AccountActivityTimeline = ({ accountId, onAddActivity }: AccountAct
           .limit(50),
         supabase
           .from('deals')
-          .select('id, deal_name, stage, total_contract_value, created_at, created_by')
+          .select('id, deal_name, stage, total_contract_value, currency_type, created_at, created_by')
           .eq('account_id', accountId)
           .order('created_at', { ascending: false })
           .limit(50),
@@ -161,7 +163,7 @@ export const AccountActivityTimeline = ({ accountId, onAddActivity }: AccountAct
           id: `deal-${deal.id}`,
           type: 'deal',
           title: `Deal created: ${deal.deal_name}`,
-          description: `Stage: ${deal.stage}${deal.total_contract_value ? ` • Value: $${deal.total_contract_value.toLocaleString()}` : ''}`,
+          description: `Stage: ${deal.stage}${deal.total_contract_value ? ` • Value: ${formatCurrency(deal.total_contract_value, deal.currency_type || DEFAULT_DEAL_CURRENCY)}` : ''}`,
           date: deal.created_at,
           icon: <Briefcase className="h-4 w-4" />,
           metadata: { stage: deal.stage },
@@ -7,6 +7,8 @@ import { ScrollArea } from "@/components/ui/scroll-area";
 import { User, Briefcase, ExternalLink, Loader2, Mail, Phone, Plus, UserPlus } from "lucide-react";
 import { useNavigate } from "react-router-dom";
 import { AttachRecordModal } from "@/components/shared/AttachRecordModal";
+import { formatCurrency } from "@/utils/formatUtils";
+import { DEFAULT_DEAL_CURRENCY } from "@/utils/currencyConversion";
 
 interface Contact {
   id: string;
@@ -21,6 +23,7 @@ interface Deal {
   deal_name: string;
   stage: string;
   total_contract_value?: number;
+  currency_type?: string | null;
   probability?: number;
 }
 
@@ -66,7 +69,7 @@ export const AccountAssociations = ({ accountId, companyName }: AccountAssociati
 
       const { data: dealData } = await supabase
         .from('deals')
-        .select('id, deal_name, stage, total_contract_value, probability')
+        .select('id, deal_name, stage, total_contract_value, currency_type, probability')
         .eq('account_id', accountId)
         .order('created_at', { ascending: false });
 
@@ -262,7 +265,7 @@ export const AccountAssociations = ({ accountId, companyName }: AccountAssociati
                         <p className="font-medium text-xs truncate">{deal.deal_name}</p>
                         {deal.total_contract_value && (
                           <p className="text-xs text-muted-foreground">
-                            ${deal.total_contract_value.toLocaleString()}
+                            {formatCurrency(deal.total_contract_value, deal.currency_type || DEFAULT_DEAL_CURRENCY)}
                           </p>
                         )}
                       </div>
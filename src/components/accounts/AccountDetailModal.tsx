@@ -9,11 +9,14 @@ import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { RelatedTasksSection } from "@/components/shared/RelatedTasksSection";
+import { ApprovalStatusPanel } from "@/components/approvals/ApprovalStatusPanel";
+import { MergeHistoryPanel } from "@/components/shared/MergeHistoryPanel";
 import { Task } from "@/types/task";
 import { Building2, Globe, Phone, MapPin, Factory, Clock, Plus, ExternalLink, Mail, Pencil, ListTodo, History, Link2, Activity, User, UserPlus, Briefcase, Calendar, Loader2, MessageSquare } from "lucide-react";
 import { RecordChangeHistory } from "@/components/shared/RecordChangeHistory";
 import { format } from "date-fns";
-import { formatDateTimeStandard } from "@/utils/formatUtils";
+import { formatDateTimeStandard, formatCurrency } from "@/utils/formatUtils";
+import { DEFAULT_DEAL_CURRENCY } from "@/utils/currencyConversion";
 import { AccountActivityTimeline } from "./AccountActivityTimeline";
 import { ActivityLogModal } from "./ActivityLogModal";
 import { AttachRecordModal } from "@/components/shared/AttachRecordModal";
@@ -68,6 +71,7 @@ interface Deal {
   deal_name: string;
   stage: string;
   total_contract_value?: number | null;
+  currency_type?: string | null;
 }
 interface Meeting {
   id: string;
@@ -179,7 +183,7 @@ export const AccountDetailModal = ({
       const {
         data,
         error
-      } = await supabase.from('deals').select('id, deal_name, stage, total_contract_value').eq('account_id', account.id).order('created_at', {
+      } = await supabase.from('deals').select('id, deal_name, stage, total_contract_value, currency_type').eq('account_id', account.id).order('created_at', {
         ascending: false
       });
       if (error) throw error;
@@ -367,6 +371,10 @@ export const AccountDetailModal = ({
                 </CardContent>
               </Card>
 
+              <ApprovalStatusPanel entityType="accounts" entityId={account.id} />
+
+              <MergeHistoryPanel entityType="accounts" entityId={account.id} />
+
               {/* Notes */}
               {account.notes && <Card>
                   <CardHeader className="pb-3">
@@ -493,7 +501,7 @@ export const AccountDetailModal = ({
                               <div className="min-w-0 flex-1">
                                 <p className="font-medium text-xs truncate">{deal.deal_name}</p>
                                 {deal.total_contract_value && <p className="text-xs text-muted-foreground">
-                                    ${deal.total_contract_value.toLocaleString()}
+                                    {formatCurrency(deal.total_contract_value, deal.currency_type || DEFAULT_DEAL_CURRENCY)}
                                   </p>}
                               </div>
                               <Badge className={`ml-2 text-xs ${getStageColor(deal.stage)}`}>
@@ -0,0 +1,81 @@
+import { format } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Bar, BarChart, CartesianGrid, Legend, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import { DealCohort } from "@/types/dealAnalytics";
+
+interface DealCohortsCardProps {
+  cohorts: DealCohort[];
+  formatMoney: (amount: number) => string;
+}
+
+const formatMonth = (month: string) => format(new Date(`${month}-01T00:00:00`), "MMM yyyy");
+
+/**
+ * Deals grouped by the month they were created: how many are still open, won or lost today
+ */
+export const DealCohortsCard = ({ cohorts, formatMoney }: DealCohortsCardProps) => {
+  const chartData = cohorts.map(cohort => ({
+    month: format(new Date(`${cohort.month}-01T00:00:00`), "MMM yy"),
+    won: cohort.won,
+    lost: cohort.lost,
+    open: cohort.open,
+  }));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">Cohorts by Creation Month</CardTitle>
+        <p className="text-xs text-muted-foreground">Where the deals created each month stand today</p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {cohorts.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">No deals match the filters</p>
+        ) : (
+          <>
+            <div className="h-64">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={chartData}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="month" tick={{ fontSize: 11 }} />
+                  <YAxis tick={{ fontSize: 11 }} allowDecimals={false} />
+                  <Tooltip />
+                  <Legend />
+                  <Bar dataKey="won" name="Won" stackId="cohort" fill="#22c55e" />
+                  <Bar dataKey="lost" name="Lost" stackId="cohort" fill="#ef4444" />
+                  <Bar dataKey="open" name="Open" stackId="cohort" fill="#94a3b8" radius={[4, 4, 0, 0]} />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Month</TableHead>
+                  <TableHead className="text-right">Created</TableHead>
+                  <TableHead className="text-right">Open</TableHead>
+                  <TableHead className="text-right">Won / Lost</TableHead>
+                  <TableHead className="text-right">Win Rate</TableHead>
+                  <TableHead className="text-right">Won Value</TableHead>
+                  <TableHead className="text-right">Median Days to Win</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {[...cohorts].reverse().map(cohort => (
+                  <TableRow key={cohort.month}>
+                    <TableCell className="font-medium">{formatMonth(cohort.month)}</TableCell>
+                    <TableCell className="text-right">{cohort.created}</TableCell>
+                    <TableCell className="text-right">{cohort.open}</TableCell>
+                    <TableCell className="text-right">{cohort.won} / {cohort.lost}</TableCell>
+                    <TableCell className="text-right">{cohort.winRate === null ? "-" : `${cohort.winRate}%`}</TableCell>
+                    <TableCell className="text-right">{formatMoney(cohort.wonAmount)}</TableCell>
+                    <TableCell className="text-right">{cohort.medianDaysToWin === null ? "-" : `${cohort.medianDaysToWin}d`}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
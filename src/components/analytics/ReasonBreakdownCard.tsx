@@ -0,0 +1,76 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Bar, BarChart, CartesianGrid, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import { DEAL_OUTCOME_LABELS, DealOutcome, ReasonCount } from "@/types/dealAnalytics";
+
+interface ReasonBreakdownCardProps {
+  reasons: Record<DealOutcome, ReasonCount[]>;
+  formatMoney: (amount: number) => string;
+}
+
+const OUTCOME_COLORS: Record<DealOutcome, string> = {
+  won: "#22c55e",
+  lost: "#ef4444",
+  dropped: "#94a3b8",
+};
+
+/**
+ * Why deals were won, lost or dropped, from the reason entered when the deal was closed
+ */
+export const ReasonBreakdownCard = ({ reasons, formatMoney }: ReasonBreakdownCardProps) => {
+  const [outcome, setOutcome] = useState<DealOutcome>("lost");
+  const rows = reasons[outcome];
+  const total = rows.reduce((sum, row) => sum + row.count, 0);
+
+  return (
+    <Card>
+      <CardHeader className="space-y-3">
+        <div>
+          <CardTitle className="text-base">Win/Loss Reasons</CardTitle>
+          <p className="text-xs text-muted-foreground">Closed deals by the reason given</p>
+        </div>
+        <Tabs value={outcome} onValueChange={value => setOutcome(value as DealOutcome)}>
+          <TabsList>
+            {(Object.keys(DEAL_OUTCOME_LABELS) as DealOutcome[]).map(key => (
+              <TabsTrigger key={key} value={key}>
+                {DEAL_OUTCOME_LABELS[key]} ({reasons[key].reduce((sum, row) => sum + row.count, 0)})
+              </TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {rows.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">
+            No {DEAL_OUTCOME_LABELS[outcome].toLowerCase()} deals match the filters
+          </p>
+        ) : (
+          <>
+            <div style={{ height: Math.max(160, rows.length * 36) }}>
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={rows} layout="vertical" margin={{ left: 8 }}>
+                  <CartesianGrid strokeDasharray="3 3" horizontal={false} />
+                  <XAxis type="number" tick={{ fontSize: 11 }} allowDecimals={false} />
+                  <YAxis type="category" dataKey="reason" tick={{ fontSize: 11 }} width={160} />
+                  <Tooltip formatter={(value: number) => [`${value} deals`, "Deals"]} />
+                  <Bar dataKey="count" name="Deals" fill={OUTCOME_COLORS[outcome]} radius={[0, 4, 4, 0]} />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+            <ul className="text-sm space-y-1">
+              {rows.map(row => (
+                <li key={row.reason} className="flex justify-between gap-4">
+                  <span className="truncate">{row.reason}</span>
+                  <span className="text-muted-foreground whitespace-nowrap">
+                    {Math.round((100 * row.count) / total)}% · {formatMoney(row.amount)}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
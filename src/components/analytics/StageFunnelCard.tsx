@@ -0,0 +1,103 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { FunnelStep, StageVelocity } from "@/types/dealAnalytics";
+
+interface StageFunnelCardProps {
+  funnel: FunnelStep[];
+  velocity: StageVelocity[];
+}
+
+/**
+ * Stage-to-stage conversion as a funnel next to the median days deals spend in each open stage
+ */
+export const StageFunnelCard = ({ funnel, velocity }: StageFunnelCardProps) => {
+  const hasDeals = funnel.length > 0 && funnel[0].reached > 0;
+
+  return (
+    <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Stage Funnel</CardTitle>
+          <p className="text-xs text-muted-foreground">Deals that reached each stage, and the share that moved on from the stage before</p>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {!hasDeals ? (
+            <p className="text-sm text-muted-foreground text-center py-8">No deals match the filters</p>
+          ) : (
+            funnel.map((step, i) => (
+              <div key={step.stage} className="space-y-1">
+                <div className="flex items-center justify-between text-sm">
+                  <span className="font-medium">{step.stage}</span>
+                  <span className="text-muted-foreground">
+                    {step.reached.toLocaleString("en-US")} deals
+                    {step.conversionRate !== null && (
+                      <span className="ml-2">· {step.conversionRate}% from {funnel[i - 1].stage}</span>
+                    )}
+                  </span>
+                </div>
+                <div className="h-6 w-full rounded bg-muted overflow-hidden">
+                  <div
+                    className="h-full rounded flex items-center justify-end pr-2 text-xs text-white"
+                    style={{ width: `${Math.max(step.overallRate, 2)}%`, backgroundColor: step.color }}
+                  >
+                    {step.overallRate >= 10 && `${step.overallRate}%`}
+                  </div>
+                </div>
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Time in Stage</CardTitle>
+          <p className="text-xs text-muted-foreground">Median days deals spent in a stage before moving on or closing</p>
+        </CardHeader>
+        <CardContent className="p-0">
+          {velocity.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">No open stages configured</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Stage</TableHead>
+                  <TableHead className="text-right">Median Days</TableHead>
+                  <TableHead className="text-right">Moved On</TableHead>
+                  <TableHead className="text-right">In Stage Now</TableHead>
+                  <TableHead className="text-right">SLA</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {velocity.map(row => (
+                  <TableRow key={row.stage}>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <div className="w-3 h-3 rounded-full" style={{ backgroundColor: row.color }} />
+                        <span className="font-medium">{row.stage}</span>
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right">{row.medianDays === null ? "-" : `${row.medianDays}d`}</TableCell>
+                    <TableCell className="text-right">{row.completed}</TableCell>
+                    <TableCell className="text-right">{row.current}</TableCell>
+                    <TableCell className="text-right">
+                      {row.slaDays === null ? (
+                        <span className="text-muted-foreground">-</span>
+                      ) : (
+                        <div className="flex items-center justify-end gap-2">
+                          <span>{row.slaDays}d</span>
+                          {row.overSla > 0 && <Badge variant="destructive">{row.overSla} over</Badge>}
+                        </div>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
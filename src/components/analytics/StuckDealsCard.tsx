@@ -0,0 +1,80 @@
+import { useNavigate } from "react-router-dom";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { StuckDeal } from "@/types/dealAnalytics";
+
+interface StuckDealsCardProps {
+  deals: StuckDeal[];
+  hasSla: boolean;
+  nameOf: (userId: string | null) => string;
+  formatMoney: (amount: number) => string;
+}
+
+// Rows shown before the list is cut off
+const MAX_ROWS = 25;
+
+/**
+ * Open deals that have stayed in their stage for longer than the stage's SLA
+ */
+export const StuckDealsCard = ({ deals, hasSla, nameOf, formatMoney }: StuckDealsCardProps) => {
+  const navigate = useNavigate();
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <CardTitle className="text-base">Stuck Deals</CardTitle>
+          {deals.length > 0 && <Badge variant="destructive" className="rounded-full">{deals.length}</Badge>}
+        </div>
+        <p className="text-xs text-muted-foreground">Open deals in a stage for longer than its SLA, most overdue first</p>
+      </CardHeader>
+      <CardContent className="p-0">
+        {!hasSla ? (
+          <p className="text-sm text-muted-foreground text-center py-8">
+            No stage has an SLA yet. Set one per stage under Settings → Pipeline.
+          </p>
+        ) : deals.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">No deals are over their stage SLA</p>
+        ) : (
+          <>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Deal</TableHead>
+                  <TableHead>Owner</TableHead>
+                  <TableHead>Stage</TableHead>
+                  <TableHead className="text-right">Days in Stage</TableHead>
+                  <TableHead className="text-right">Value</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {deals.slice(0, MAX_ROWS).map(deal => (
+                  <TableRow
+                    key={deal.dealId}
+                    className="cursor-pointer hover:bg-muted/50"
+                    onClick={() => navigate(`/deals?viewId=${deal.dealId}`)}
+                  >
+                    <TableCell className="font-medium max-w-[240px] truncate">{deal.name}</TableCell>
+                    <TableCell>{nameOf(deal.ownerId)}</TableCell>
+                    <TableCell>{deal.stage}</TableCell>
+                    <TableCell className="text-right">
+                      <span className="text-red-600 font-medium">{deal.daysInStage}d</span>
+                      <div className="text-xs text-muted-foreground">SLA {deal.slaDays}d</div>
+                    </TableCell>
+                    <TableCell className="text-right">{formatMoney(deal.amount)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            {deals.length > MAX_ROWS && (
+              <p className="text-xs text-muted-foreground text-center py-3">
+                Showing the {MAX_ROWS} most overdue of {deals.length} deals
+              </p>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
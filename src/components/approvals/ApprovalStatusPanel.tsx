@@ -0,0 +1,101 @@
+import { useMemo } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { useEntityApprovals } from '@/hooks/useApprovals';
+import { useUserDisplayNames } from '@/hooks/useUserDisplayNames';
+import { ApprovalEntityType, ApprovalRequest, formatPendingChanges, getApprovalStatusColor } from '@/types/approval';
+import { formatDateTimeStandard } from '@/utils/formatUtils';
+import { CheckCircle2, XCircle, Clock, ShieldCheck } from 'lucide-react';
+
+interface ApprovalStatusPanelProps {
+  entityType: ApprovalEntityType;
+  entityId?: string | null;
+  compact?: boolean;
+}
+
+export const ApprovalStepHistory = ({ request }: { request: ApprovalRequest }) => {
+  const approverIds = useMemo(
+    () => (request.actions || []).map(a => a.approver_id),
+    [request.actions]
+  );
+  const { displayNames } = useUserDisplayNames(approverIds);
+  const steps = request.workflow?.approval_steps || [];
+
+  return (
+    <ol className="space-y-2">
+      {steps.map(step => {
+        const action = (request.actions || []).find(a => a.step_number === step.step);
+        const isCurrent = request.status === 'pending' && (request.current_step || 1) === step.step;
+        return (
+          <li key={step.step} className="flex items-start gap-2 text-sm">
+            {action?.action === 'approved' ? (
+              <CheckCircle2 className="h-4 w-4 text-emerald-600 mt-0.5 flex-shrink-0" />
+            ) : action?.action === 'rejected' ? (
+              <XCircle className="h-4 w-4 text-destructive mt-0.5 flex-shrink-0" />
+            ) : (
+              <Clock className={`h-4 w-4 mt-0.5 flex-shrink-0 ${isCurrent ? 'text-amber-600' : 'text-muted-foreground'}`} />
+            )}
+            <div className="min-w-0">
+              <p>
+                <span className="font-medium">Step {step.step}</span>
+                <span className="text-muted-foreground capitalize"> · {step.role}</span>
+                {isCurrent && <span className="text-amber-600"> · awaiting decision</span>}
+              </p>
+              {action && (
+                <p className="text-xs text-muted-foreground">
+                  {action.action === 'approved' ? 'Approved' : 'Rejected'} by {displayNames[action.approver_id] || 'Unknown User'}
+                  {action.acted_at && ` on ${formatDateTimeStandard(action.acted_at)}`}
+                </p>
+              )}
+              {action?.comments && (
+                <p className="text-xs italic mt-0.5">"{action.comments}"</p>
+              )}
+            </div>
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
+
+export const ApprovalStatusPanel = ({ entityType, entityId, compact = false }: ApprovalStatusPanelProps) => {
+  const { requests, loading } = useEntityApprovals(entityType, entityId);
+
+  if (loading || requests.length === 0) return null;
+
+  // Pending requests first, then the most recent decision
+  const visible = compact
+    ? [requests.find(r => r.status === 'pending') || requests[0]]
+    : requests.slice(0, 5);
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base flex items-center gap-2">
+          <ShieldCheck className="h-4 w-4" />
+          Approvals
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {visible.map(request => (
+          <div key={request.id} className="space-y-2">
+            <div className="flex items-center justify-between gap-2">
+              <div className="min-w-0">
+                <p className="text-sm font-medium truncate">{request.workflow?.name || 'Approval workflow'}</p>
+                {formatPendingChanges(request.pending_changes) && (
+                  <p className="text-xs text-muted-foreground capitalize">
+                    {formatPendingChanges(request.pending_changes)}
+                  </p>
+                )}
+              </div>
+              <Badge variant="outline" className={`capitalize ${getApprovalStatusColor(request.status)}`}>
+                {request.status}
+              </Badge>
+            </div>
+            <ApprovalStepHistory request={request} />
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,121 @@
+import { useMemo } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
+import { useConsentHistory, useEmailConsentActions } from '@/hooks/useEmailConsent';
+import { useUserDisplayNames } from '@/hooks/useUserDisplayNames';
+import {
+  CONSENT_SOURCE_LABELS,
+  CONSENT_TOPIC_LABELS,
+  CONSENT_TOPICS,
+  ConsentTopic,
+  EmailConsentEvent,
+} from '@/types/emailConsent';
+import { BellOff, BellRing, Loader2, ShieldCheck } from 'lucide-react';
+import { format } from 'date-fns';
+
+interface ContactConsentHistoryProps {
+  contactId: string;
+  email?: string | null;
+}
+
+// Replays the history the same way the database keeps email_suppressions:
+// opting back in to 'all' clears every topic
+const currentOptOuts = (events: EmailConsentEvent[]) => {
+  const topics = new Set<ConsentTopic>();
+  [...events].reverse().forEach(event => {
+    if (event.channel !== 'email') return;
+    if (event.status === 'unsubscribed') topics.add(event.topic);
+    else if (event.topic === 'all') topics.clear();
+    else topics.delete(event.topic);
+  });
+  return topics;
+};
+
+export const ContactConsentHistory = ({ contactId, email }: ContactConsentHistoryProps) => {
+  const { events, loading } = useConsentHistory({ contactId, email });
+  const { changeConsent, isChanging } = useEmailConsentActions();
+  const { displayNames } = useUserDisplayNames(events.map(e => e.created_by || ''));
+  const optOuts = useMemo(() => currentOptOuts(events), [events]);
+
+  const change = (topic: ConsentTopic, status: 'subscribed' | 'unsubscribed') => {
+    if (!email) return;
+    changeConsent({ email, topic, status, contactId });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <h4 className="text-sm font-medium">Email Consent</h4>
+          {optOuts.size === 0 ? (
+            <Badge variant="secondary" className="gap-1">
+              <ShieldCheck className="h-3 w-3" />
+              Subscribed
+            </Badge>
+          ) : (
+            [...optOuts].map(topic => (
+              <Badge key={topic} variant="destructive" className="gap-1">
+                <BellOff className="h-3 w-3" />
+                Unsubscribed: {CONSENT_TOPIC_LABELS[topic]}
+              </Badge>
+            ))
+          )}
+        </div>
+        {email && (
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" size="sm" disabled={isChanging}>
+                {isChanging && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+                Change
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              {CONSENT_TOPICS.filter(topic => !optOuts.has(topic) && !optOuts.has('all')).map(topic => (
+                <DropdownMenuItem key={`off-${topic}`} onClick={() => change(topic, 'unsubscribed')}>
+                  <BellOff className="h-4 w-4 mr-2" />
+                  Unsubscribe from {CONSENT_TOPIC_LABELS[topic].toLowerCase()}
+                </DropdownMenuItem>
+              ))}
+              {[...optOuts].map(topic => (
+                <DropdownMenuItem key={`on-${topic}`} onClick={() => change(topic, 'subscribed')}>
+                  <BellRing className="h-4 w-4 mr-2" />
+                  Subscribe again to {CONSENT_TOPIC_LABELS[topic].toLowerCase()}
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        )}
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-4">
+          <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+        </div>
+      ) : events.length === 0 ? (
+        <p className="text-xs text-muted-foreground">No consent changes recorded</p>
+      ) : (
+        <div className="max-h-[160px] overflow-y-auto space-y-1">
+          {events.map(event => (
+            <div key={event.id} className="flex items-center justify-between gap-2 text-xs p-2 rounded bg-muted/50">
+              <span>
+                <span className="font-medium">
+                  {event.status === 'unsubscribed' ? 'Unsubscribed from' : 'Subscribed to'}{' '}
+                  {(CONSENT_TOPIC_LABELS[event.topic] || event.topic).toLowerCase()}
+                </span>
+                <span className="text-muted-foreground">
+                  {' · '}{CONSENT_SOURCE_LABELS[event.source] || event.source}
+                  {event.created_by && displayNames[event.created_by] && ` (${displayNames[event.created_by]})`}
+                  {event.reason && ` · ${event.reason}`}
+                </span>
+              </span>
+              <span className="text-muted-foreground whitespace-nowrap">
+                {format(new Date(event.created_at), 'dd/MM/yyyy HH:mm')}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
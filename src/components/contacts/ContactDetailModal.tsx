@@ -10,6 +10,7 @@ import { ContactActivityTimeline } from './ContactActivityTimeline';
 import { ContactActivityLogModal } from './ContactActivityLogModal';
 import { ContactTagsManager } from './ContactTagsManager';
 import { ContactEmailTracking } from './ContactEmailTracking';
+import { ContactConsentHistory } from './ContactConsentHistory';
 import { EntityEmailHistory } from '@/components/shared/EntityEmailHistory';
 import { RecordChangeHistory } from '@/components/shared/RecordChangeHistory';
 import { RelatedTasksSection } from '@/components/shared/RelatedTasksSection';
@@ -23,6 +24,8 @@ import { User, Building2, Mail, Phone, Globe, Linkedin, MapPin, Plus, Clock, Tag
 import { format } from 'date-fns';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { ScrollArea } from '@/components/ui/scroll-area';
+import { MergeHistoryPanel } from '@/components/shared/MergeHistoryPanel';
+import { RecordScorePanel } from '@/components/shared/RecordScorePanel';
 interface Contact {
   id: string;
   contact_name: string;
@@ -317,6 +320,10 @@ export const ContactDetailModal = ({
                     Updated: {format(new Date(contact.modified_time), 'dd/MM/yyyy')}
                   </span>}
               </div>
+
+              <RecordScorePanel entityType="contact" entityId={contact.id} />
+
+              <MergeHistoryPanel entityType="contacts" entityId={contact.id} />
             </TabsContent>
 
             <TabsContent value="linked" className="mt-4">
@@ -417,6 +424,8 @@ export const ContactDetailModal = ({
                   </Button>
                 </div>
 
+                <ContactConsentHistory contactId={contact.id} email={contact.email} />
+
                 {/* Email History */}
                 <div>
                   <h4 className="text-sm font-medium mb-2">Email History</h4>
@@ -1,7 +1,7 @@
 import { useState, useEffect, useCallback } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
-import { useQueryClient } from "@tanstack/react-query";
+import { useConversions } from "@/hooks/useConversions";
 import {
   Dialog,
   DialogContent,
@@ -53,9 +53,8 @@ export const ConvertContactToLeadModal = ({
   onMergeLead,
 }: ConvertContactToLeadModalProps) => {
   const { toast } = useToast();
-  const queryClient = useQueryClient();
+  const { convertContactToLead, isConverting } = useConversions();
   const [isChecking, setIsChecking] = useState(false);
-  const [isConverting, setIsConverting] = useState(false);
   const [alreadyConverted, setAlreadyConverted] = useState<ExistingLead | null>(null);
   const [duplicateLeads, setDuplicateLeads] = useState<ExistingLead[]>([]);
   const [confirmCreateAnyway, setConfirmCreateAnyway] = useState(false);
@@ -142,65 +141,34 @@ export const ConvertContactToLeadModal = ({
   const handleConvert = async () => {
     if (!contact) return;
 
-    setIsConverting(true);
     try {
-      const { data: userData, error: userError } = await supabase.auth.getUser();
-      if (userError || !userData.user) throw new Error("User not authenticated");
-
-      const leadData: Record<string, unknown> = {
-        lead_name: contact.contact_name,
-        converted_from_contact_id: contact.id,
-        created_by: userData.user.id,
-        contact_owner: userData.user.id,
-        created_time: new Date().toISOString(),
-        modified_time: new Date().toISOString(),
-      };
-
-      // Map contact fields to lead fields
-      if (contact.company_name) leadData.company_name = contact.company_name;
-      if (contact.position) leadData.position = contact.position;
-      if (contact.email) leadData.email = contact.email;
-      if (contact.phone_no) leadData.phone_no = contact.phone_no;
-      if (contact.linkedin) leadData.linkedin = contact.linkedin;
-      if (contact.contact_source) leadData.contact_source = contact.contact_source;
-      if (contact.description) leadData.description = contact.description;
-      if (contact.contact_owner) leadData.contact_owner = contact.contact_owner;
-
-      const { error } = await supabase.from("leads").insert([leadData as any]);
-
-      if (error) {
-        // Handle unique constraint violation
-        if (error.code === "23505" && error.message.includes("converted_from_contact")) {
-          toast({
-            title: "Already Converted",
-            description: "This contact has already been converted to a lead.",
-            variant: "destructive",
-          });
-          return;
-        }
-        throw error;
-      }
+      // Fields are copied by the admin-configured mappings; open tasks, scheduled meetings
+      // and email history are linked to the new lead in the same transaction
+      await convertContactToLead(contact.id);
 
       toast({
         title: "Success",
         description: `Contact "${contact.contact_name}" has been converted to a lead.`,
       });
 
-      // Invalidate queries
-      queryClient.invalidateQueries({ queryKey: ["leads"] });
-      queryClient.invalidateQueries({ queryKey: ["contacts"] });
-
       onSuccess();
       onOpenChange(false);
     } catch (error) {
       console.error("Error converting contact to lead:", error);
+      const { code, message } = (error || {}) as { code?: string; message?: string };
+      if (code === "23505") {
+        toast({
+          title: "Already Converted",
+          description: "This contact has already been converted to a lead.",
+          variant: "destructive",
+        });
+        return;
+      }
       toast({
         title: "Error",
-        description: error instanceof Error ? error.message : "Failed to convert contact to lead.",
+        description: message || "Failed to convert contact to lead.",
         variant: "destructive",
       });
-    } finally {
-      setIsConverting(false);
     }
   };
 
@@ -367,7 +335,7 @@ export const ConvertContactToLeadModal = ({
               <div className="flex items-center gap-2 p-3 bg-green-50 dark:bg-green-950/20 border border-green-200 dark:border-green-800 rounded-lg">
                 <CheckCircle className="h-4 w-4 text-green-600" />
                 <span className="text-sm text-green-700 dark:text-green-400">
-                  Ready to convert. A new lead will be created with the contact details above.
+                  Ready to convert. A new lead will be created from the contact, and its open tasks, meetings and emails will be linked to it.
                 </span>
               </div>
             )}
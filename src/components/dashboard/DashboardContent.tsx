@@ -2,11 +2,12 @@
 import { Deal, DealStage } from "@/types/deal";
 import { KanbanBoard } from "@/components/KanbanBoard";
 import { ListView } from "@/components/ListView";
+import { MoveDealStage } from "@/hooks/useStageGate";
 
 interface DashboardContentProps {
   activeView: 'kanban' | 'list';
-  deals: Deal[];
   onUpdateDeal: (dealId: string, updates: Partial<Deal>) => Promise<void>;
+  onMoveDealStage: MoveDealStage;
   onDealClick: (deal: Deal) => void;
   onCreateDeal: (stage: DealStage) => void;
   onDeleteDeals: (dealIds: string[]) => Promise<void>;
@@ -16,8 +17,8 @@ interface DashboardContentProps {
 
 export const DashboardContent = ({
   activeView,
-  deals,
   onUpdateDeal,
+  onMoveDealStage,
   onDealClick,
   onCreateDeal,
   onDeleteDeals,
@@ -29,8 +30,7 @@ export const DashboardContent = ({
       {activeView === 'kanban' ? (
         <div className="w-full">
           <KanbanBoard
-            deals={deals}
-            onUpdateDeal={onUpdateDeal}
+            onMoveDealStage={onMoveDealStage}
             onDealClick={onDealClick}
             onCreateDeal={onCreateDeal}
             onDeleteDeals={onDeleteDeals}
@@ -41,9 +41,9 @@ export const DashboardContent = ({
       ) : (
         <div className="w-full">
           <ListView
-            deals={deals}
             onDealClick={onDealClick}
             onUpdateDeal={onUpdateDeal}
+            onMoveDealStage={onMoveDealStage}
             onDeleteDeals={onDeleteDeals}
             onImportDeals={onImportDeals}
           />
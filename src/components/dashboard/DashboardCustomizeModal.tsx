@@ -3,27 +3,10 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "
 import { Button } from "@/components/ui/button";
 import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
-import { 
-  GripVertical, FileText, Users, Briefcase, Zap, Calendar, Activity, Bell, 
-  Mail, Building2, ListTodo, CalendarClock, ClipboardList
-} from "lucide-react";
+import { GripVertical } from "lucide-react";
 import { DragDropContext, Droppable, Draggable, DropResult } from "@hello-pangea/dnd";
-
-export type WidgetKey = 
-  | "leads" | "contacts" | "deals" | "quickActions" 
-  | "upcomingMeetings" | "recentActivities" | "taskReminders" | "emailStats"
-  | "accountsSummary" | "weeklySummary" | "followUpsDue" | "todaysAgenda";
-
-export interface WidgetLayout {
-  x: number;
-  y: number;
-  w: number;
-  h: number;
-}
-
-export interface WidgetLayoutConfig {
-  [key: string]: WidgetLayout;
-}
+import { WidgetKey, WidgetLayout } from "./widgets/types";
+import { BUILT_IN_WIDGETS, getWidgetDefinition } from "./widgets/registry";
 
 export interface DashboardWidget {
   key: WidgetKey;
@@ -33,29 +16,13 @@ export interface DashboardWidget {
   defaultLayout: WidgetLayout;
 }
 
-const DEFAULT_WIDGETS: DashboardWidget[] = [
-  // Row 1: Core stat widgets (4x3 each = 12 total)
-  { key: "leads", label: "My Leads", icon: <FileText className="w-4 h-4" />, visible: true, defaultLayout: { x: 0, y: 0, w: 3, h: 2 } },
-  { key: "contacts", label: "My Contacts", icon: <Users className="w-4 h-4" />, visible: true, defaultLayout: { x: 3, y: 0, w: 3, h: 2 } },
-  { key: "deals", label: "My Deals", icon: <Briefcase className="w-4 h-4" />, visible: true, defaultLayout: { x: 6, y: 0, w: 3, h: 2 } },
-  { key: "accountsSummary", label: "Accounts Summary", icon: <Building2 className="w-4 h-4" />, visible: true, defaultLayout: { x: 9, y: 0, w: 3, h: 2 } },
-  
-  // Row 2: Quick Actions
-  { key: "quickActions", label: "Quick Actions", icon: <Zap className="w-4 h-4" />, visible: true, defaultLayout: { x: 0, y: 2, w: 6, h: 2 } },
-  
-  // Row 3: Today's Agenda + Upcoming Meetings + Task Reminders
-  { key: "todaysAgenda", label: "Today's Agenda", icon: <CalendarClock className="w-4 h-4" />, visible: true, defaultLayout: { x: 0, y: 4, w: 4, h: 3 } },
-  { key: "upcomingMeetings", label: "Upcoming Meetings", icon: <Calendar className="w-4 h-4" />, visible: true, defaultLayout: { x: 4, y: 4, w: 4, h: 3 } },
-  { key: "taskReminders", label: "Task Reminders", icon: <Bell className="w-4 h-4" />, visible: true, defaultLayout: { x: 8, y: 4, w: 4, h: 3 } },
-  
-  // Row 4: Recent Activities + Email Stats
-  { key: "recentActivities", label: "Recent Activities", icon: <Activity className="w-4 h-4" />, visible: true, defaultLayout: { x: 0, y: 7, w: 6, h: 3 } },
-  { key: "emailStats", label: "Email Statistics", icon: <Mail className="w-4 h-4" />, visible: true, defaultLayout: { x: 6, y: 7, w: 6, h: 3 } },
-  
-  // Row 5: Weekly Summary + Follow-Ups Due
-  { key: "weeklySummary", label: "Weekly Summary", icon: <ListTodo className="w-4 h-4" />, visible: true, defaultLayout: { x: 0, y: 10, w: 6, h: 2 } },
-  { key: "followUpsDue", label: "Follow-Ups Due", icon: <ClipboardList className="w-4 h-4" />, visible: true, defaultLayout: { x: 6, y: 10, w: 6, h: 2 } },
-];
+const DEFAULT_WIDGETS: DashboardWidget[] = BUILT_IN_WIDGETS.map((w) => ({
+  key: w.type as WidgetKey,
+  label: w.label,
+  icon: w.icon,
+  visible: w.defaultVisible,
+  defaultLayout: w.defaultLayout,
+}));
 
 interface DashboardCustomizeModalProps {
   open: boolean;
@@ -88,6 +55,18 @@ export const DashboardCustomizeModal = ({
           ...defaultWidget,
           visible: visibleWidgets.includes(key),
         });
+        return;
+      }
+      // Custom widget instances are kept so saving the order does not drop them
+      const definition = getWidgetDefinition(key);
+      if (definition) {
+        orderedWidgets.push({
+          key,
+          label: definition.label,
+          icon: definition.icon,
+          visible: visibleWidgets.includes(key),
+          defaultLayout: definition.defaultLayout,
+        });
       }
     });
     
@@ -1,7 +1,11 @@
 
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { BarChart3, Users, Euro } from "lucide-react";
+import { BarChart3, Users, Banknote } from "lucide-react";
 import { Deal } from "@/types/deal";
+import { useCurrencyConverter } from "@/hooks/useCurrencyConverter";
+import { usePipelineStages } from "@/hooks/usePipelineStages";
+import { CurrencyTotals, getDealConversionDate, getDealCurrency } from "@/utils/currencyConversion";
+import { formatCurrency } from "@/utils/formatUtils";
 
 interface DashboardStatsProps {
   deals: Deal[];
@@ -9,8 +13,11 @@ interface DashboardStatsProps {
 
 export const DashboardStats = ({ deals }: DashboardStatsProps) => {
   const totalDeals = deals.length;
-  const totalValue = deals.reduce((sum, deal) => sum + (deal.total_contract_value || 0), 0);
-  const wonDeals = deals.filter(deal => deal.stage === 'Won').length;
+  const { converter, reportingCurrency } = useCurrencyConverter();
+  const { isWonStage } = usePipelineStages();
+  const valueTotals = converter ? new CurrencyTotals(converter) : null;
+  deals.forEach(deal => valueTotals?.add(deal.total_contract_value || 0, getDealCurrency(deal), getDealConversionDate(deal, isWonStage)));
+  const wonDeals = deals.filter(deal => isWonStage(deal.stage)).length;
 
   return (
     <div className="w-full px-6 py-6">
@@ -28,11 +35,11 @@ export const DashboardStats = ({ deals }: DashboardStatsProps) => {
         <Card className="animate-fade-in hover-scale">
           <CardHeader className="flex flex-row items-center justify-between pb-2">
             <CardTitle className="text-sm font-medium">Total Value</CardTitle>
-            <Euro className="w-4 h-4 text-muted-foreground" />
+            <Banknote className="w-4 h-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">
-              €{totalValue.toLocaleString()}
+              {valueTotals ? formatCurrency(Math.round(valueTotals.converted), reportingCurrency) : '…'}
             </div>
           </CardContent>
         </Card>
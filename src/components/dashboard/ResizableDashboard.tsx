@@ -1,17 +1,13 @@
 import React, { useMemo, useCallback } from "react";
 import { Button } from "@/components/ui/button";
-import { X, GripVertical } from "lucide-react";
+import { X, GripVertical, Settings2 } from "lucide-react";
 import { GridLayout, verticalCompactor, type Layout } from "react-grid-layout";
 
 import "react-grid-layout/css/styles.css";
 import "react-resizable/css/styles.css";
 
-import {
-  WidgetKey,
-  DEFAULT_WIDGETS,
-  WidgetLayoutConfig,
-  WidgetLayout,
-} from "./DashboardCustomizeModal";
+import { WidgetKey, WidgetLayoutConfig } from "./widgets/types";
+import { getWidgetDefinition, isConfigurableWidgetKey } from "./widgets/registry";
 
 type LayoutItem = Layout[number];
 
@@ -22,6 +18,7 @@ interface ResizableDashboardProps {
   pendingWidgetChanges?: Set<WidgetKey>;
   onLayoutChange: (layouts: WidgetLayoutConfig) => void;
   onWidgetRemove: (key: WidgetKey) => void;
+  onWidgetConfigure?: (key: WidgetKey) => void;
   renderWidget: (key: WidgetKey) => React.ReactNode;
   containerWidth: number;
 }
@@ -37,6 +34,7 @@ export const ResizableDashboard = ({
   pendingWidgetChanges,
   onLayoutChange,
   onWidgetRemove,
+  onWidgetConfigure,
   renderWidget,
   containerWidth,
 }: ResizableDashboardProps) => {
@@ -55,12 +53,9 @@ export const ResizableDashboard = ({
   const effectiveWidth = Math.max(320, containerWidth);
 
   const layout: LayoutItem[] = useMemo(() => {
-    const defaults = new Map<WidgetKey, WidgetLayout>();
-    DEFAULT_WIDGETS.forEach((w) => defaults.set(w.key, w.defaultLayout));
-
     return visibleWidgets.map((key): LayoutItem => {
       const saved = widgetLayouts[key];
-      const d = defaults.get(key) ?? { x: 0, y: 0, w: 3, h: 2 };
+      const d = getWidgetDefinition(key)?.defaultLayout ?? { x: 0, y: 0, w: 3, h: 2 };
       const w = Math.max(2, Math.min(COLS, (saved?.w && saved.w > 0) ? saved.w : d.w));
       const h = Math.max(2, (saved?.h && saved.h > 0) ? saved.h : d.h);
       const rawX = (saved?.x !== undefined && saved.x >= 0) ? saved.x : d.x;
@@ -80,7 +75,8 @@ export const ResizableDashboard = ({
           const w = Math.max(2, Math.min(COLS, l.w));
           const maxX = Math.max(0, COLS - w);
           const x = Math.max(0, Math.min(maxX, l.x));
-          next[key] = { x, y: l.y, w, h: l.h };
+          // Spread first so per-widget config survives moves and resizes
+          next[key] = { ...widgetLayouts[key], x, y: l.y, w, h: l.h };
         }
       });
       onLayoutChange(next);
@@ -120,6 +116,7 @@ export const ResizableDashboard = ({
             <div key={key} className={itemClassName}>
               {isResizeMode && isPendingRemoval && (<div className="dash-pending-badge" aria-hidden="true">Pending removal</div>)}
               {isResizeMode && (<Button variant="destructive" size="icon" className="dash-remove pointer-events-auto absolute -top-2 -right-2 z-30 h-6 w-6 rounded-full shadow-lg border-2 border-background" onClick={(e) => { e.stopPropagation(); onWidgetRemove(key); }} aria-label={`Remove ${key} widget`}><X className="h-3 w-3" /></Button>)}
+              {isResizeMode && onWidgetConfigure && isConfigurableWidgetKey(key) && (<Button variant="secondary" size="icon" className="pointer-events-auto absolute -top-2 right-5 z-30 h-6 w-6 rounded-full shadow-lg border-2 border-background" onClick={(e) => { e.stopPropagation(); onWidgetConfigure(key); }} aria-label="Configure widget"><Settings2 className="h-3 w-3" /></Button>)}
               {isResizeMode && (<div className="dash-drag-handle" role="button" aria-label="Drag widget" tabIndex={0}><GripVertical className="h-4 w-4 text-muted-foreground" /></div>)}
               <div className={isResizeMode ? "dash-content dash-content--locked" : "dash-content"}>{renderWidget(key)}</div>
             </div>
@@ -0,0 +1,53 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { WidgetConfig, WidgetDefinition } from "./widgets/types";
+
+interface WidgetSettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  definition: WidgetDefinition | null;
+  config: WidgetConfig | null;
+  isNew?: boolean;
+  onSave: (config: WidgetConfig) => void;
+}
+
+/**
+ * Edits one configurable widget instance; the config is kept with the widget's layout
+ */
+export const WidgetSettingsDialog = ({
+  open,
+  onOpenChange,
+  definition,
+  config,
+  isNew = false,
+  onSave,
+}: WidgetSettingsDialogProps) => {
+  const [draft, setDraft] = useState<WidgetConfig | null>(null);
+
+  useEffect(() => {
+    if (open) setDraft(config ?? definition?.defaultConfig ?? null);
+  }, [open, config, definition]);
+
+  if (!definition?.settings || !draft) return null;
+  const Settings = definition.settings;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{isNew ? `Add ${definition.label}` : `${definition.label} Settings`}</DialogTitle>
+        </DialogHeader>
+        <Settings config={draft} onChange={setDraft} />
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={() => onSave(draft)}>
+            {isNew ? "Add Widget" : "Apply"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,335 @@
+import { useMemo, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tooltip as HoverTooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { AlertCircle, Camera, Loader2, ShieldCheck } from "lucide-react";
+import { Bar, CartesianGrid, ComposedChart, Legend, Line, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import { useAuth } from "@/hooks/useAuth";
+import { useUserRole } from "@/hooks/useUserRole";
+import { useProfiles, createNameMap } from "@/hooks/useProfiles";
+import { useForecast, useForecastActions } from "@/hooks/useForecast";
+import { useRepAttainment } from "@/hooks/useTeamPerformance";
+import { groupForecastByPeriod, summarizeForecast } from "@/utils/forecast";
+import { formatDate } from "@/utils/formatUtils";
+import {
+  FORECAST_CATEGORIES,
+  FORECAST_CATEGORY_COLORS,
+  FORECAST_CATEGORY_LABELS,
+  ForecastBucket,
+  ForecastCategory,
+  ForecastDeal,
+  ForecastGrouping,
+} from "@/types/forecast";
+import { ForecastMovement } from "./ForecastMovement";
+import { ForecastOverrideDialog } from "./ForecastOverrideDialog";
+
+const ALL = "all";
+const UNSET = "unset";
+const STACKED_BUCKETS: ForecastBucket[] = ["closed", "commit", "best_case", "pipeline"];
+
+const percentOf = (value: number, target: number | null) =>
+  target ? `${Math.round((value / target) * 100)}% of target` : "No target set";
+
+/**
+ * Weighted and unweighted forecast for a year by month or quarter, split into the reps' forecast
+ * categories with manager overrides applied, compared against the yearly revenue target, plus
+ * the week-over-week movement from the stored snapshots
+ */
+const ForecastDashboard = () => {
+  const currentYear = new Date().getFullYear();
+  const [year, setYear] = useState(currentYear);
+  const [grouping, setGrouping] = useState<ForecastGrouping>("quarter");
+  const [repFilter, setRepFilter] = useState(ALL);
+  const [categoryFilter, setCategoryFilter] = useState(ALL);
+  const [overrideDeal, setOverrideDeal] = useState<ForecastDeal | null>(null);
+
+  const { user } = useAuth();
+  const { isAdmin, isManager } = useUserRole();
+  const { data: profiles = [] } = useProfiles();
+  const nameMap = useMemo(() => createNameMap(profiles), [profiles]);
+  const nameOf = (repId: string | null) => (repId && nameMap[repId]) || "Unknown User";
+
+  const forecast = useForecast(year);
+  const { attainment } = useRepAttainment(year, repFilter !== ALL);
+  const { setCategory, captureSnapshot, isCapturing } = useForecastActions();
+  const { reportingCurrency } = forecast;
+  const canOverride = isAdmin || isManager;
+
+  const formatMoney = (amount: number) =>
+    new Intl.NumberFormat("en-US", {
+      style: "currency",
+      currency: reportingCurrency,
+      notation: Math.abs(amount) >= 1000000 ? "compact" : "standard",
+      maximumFractionDigits: Math.abs(amount) >= 1000000 ? 1 : 0,
+    }).format(amount);
+
+  const repIds = useMemo(
+    () => Array.from(new Set(forecast.deals.map(deal => deal.ownerId).filter((id): id is string => !!id)))
+      .sort((a, b) => (nameMap[a] || "").localeCompare(nameMap[b] || "")),
+    [forecast.deals, nameMap]
+  );
+
+  const repDeals = useMemo(
+    () => repFilter === ALL ? forecast.deals : forecast.deals.filter(deal => deal.ownerId === repFilter),
+    [forecast.deals, repFilter]
+  );
+  const rollup = useMemo(() => summarizeForecast(repDeals), [repDeals]);
+  // A single rep is measured against their own target
+  const target = repFilter === ALL ? forecast.target : attainment[repFilter]?.target ?? null;
+  const periods = useMemo(
+    () => groupForecastByPeriod(repDeals, year, grouping, target),
+    [repDeals, year, grouping, target]
+  );
+
+  const tableDeals = useMemo(
+    () => repDeals
+      .filter(deal => categoryFilter === ALL || deal.category === categoryFilter)
+      .sort((a, b) => (a.closeDate || "9999").localeCompare(b.closeDate || "9999") || b.amount - a.amount),
+    [repDeals, categoryFilter]
+  );
+  const undated = repDeals.filter(deal => !deal.closeDate).length;
+
+  const cards = [
+    { title: "Target", value: target, note: repFilter === ALL ? `Company target ${year}` : `Rep target ${year}` },
+    { title: "Closed Won", value: rollup.closed, note: percentOf(rollup.closed, target) },
+    { title: "Commit", value: rollup.commit, note: percentOf(rollup.commit, target) },
+    { title: "Best Case", value: rollup.bestCase, note: percentOf(rollup.bestCase, target) },
+    { title: "Pipeline", value: rollup.pipeline, note: "Unweighted, closed and open" },
+    { title: "Weighted", value: rollup.weighted, note: percentOf(rollup.weighted, target) },
+  ];
+
+  return (
+    <div className="p-6 space-y-6">
+      {/* Controls */}
+      <div className="flex flex-wrap items-end gap-4">
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Year</Label>
+          <Select value={String(year)} onValueChange={value => setYear(Number(value))}>
+            <SelectTrigger className="w-28">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {[currentYear - 1, currentYear, currentYear + 1, currentYear + 2].map(y => (
+                <SelectItem key={y} value={String(y)}>{y}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Group by</Label>
+          <Select value={grouping} onValueChange={value => setGrouping(value as ForecastGrouping)}>
+            <SelectTrigger className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="month">Month</SelectItem>
+              <SelectItem value="quarter">Quarter</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Rep</Label>
+          <Select value={repFilter} onValueChange={setRepFilter}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All reps</SelectItem>
+              {repIds.map(repId => (
+                <SelectItem key={repId} value={repId}>{nameOf(repId)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {canOverride && (
+          <Button variant="outline" size="sm" className="ml-auto" onClick={() => captureSnapshot()} disabled={isCapturing}>
+            {isCapturing ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Camera className="w-4 h-4 mr-2" />}
+            Save Snapshot
+          </Button>
+        )}
+      </div>
+
+      {/* Rollups against the target */}
+      <div className="grid grid-cols-2 md:grid-cols-3 xl:grid-cols-6 gap-4">
+        {cards.map(card => (
+          <Card key={card.title}>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm font-medium">{card.title}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {forecast.loading ? <Skeleton className="h-8 w-24" /> : (
+                <div className="text-2xl font-bold">{card.value === null ? "-" : formatMoney(card.value)}</div>
+              )}
+              <p className="text-xs text-muted-foreground">{card.note}</p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {forecast.hasUnconverted && (
+        <p className="flex items-center gap-1 text-xs text-amber-600">
+          <AlertCircle className="w-3 h-3" />
+          Some deal values have no exchange rate to {reportingCurrency} and are left out of the totals
+        </p>
+      )}
+
+      {/* Forecast by period */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Forecast by {grouping === "month" ? "Month" : "Quarter"}</CardTitle>
+          <p className="text-xs text-muted-foreground">
+            By expected close, or signing date for won deals
+            {undated > 0 && ` · ${undated} open deal${undated === 1 ? "" : "s"} without a close date not shown`}
+          </p>
+        </CardHeader>
+        <CardContent className="h-80">
+          {forecast.loading ? <Skeleton className="h-full w-full" /> : (
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart data={periods}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="label" tick={{ fontSize: 11 }} />
+                <YAxis tick={{ fontSize: 11 }} tickFormatter={value => formatMoney(Number(value))} width={70} />
+                <Tooltip formatter={(value: number) => formatMoney(value)} />
+                <Legend />
+                {STACKED_BUCKETS.map(bucket => (
+                  <Bar key={bucket} dataKey={bucket} name={FORECAST_CATEGORY_LABELS[bucket]} stackId="forecast" fill={FORECAST_CATEGORY_COLORS[bucket]} />
+                ))}
+                <Line type="monotone" dataKey="weighted" name="Weighted" stroke="#f59e0b" strokeWidth={2} />
+                {target !== null && (
+                  <Line type="stepAfter" dataKey="target" name="Target" stroke="#ef4444" strokeDasharray="4 4" dot={false} />
+                )}
+              </ComposedChart>
+            </ResponsiveContainer>
+          )}
+        </CardContent>
+      </Card>
+
+      <ForecastMovement year={year} target={forecast.target} formatMoney={formatMoney} />
+
+      {/* Deals behind the forecast */}
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle className="text-base">Forecast Deals</CardTitle>
+          <Select value={categoryFilter} onValueChange={setCategoryFilter}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All categories</SelectItem>
+              {(["closed", ...FORECAST_CATEGORIES] as ForecastBucket[]).map(bucket => (
+                <SelectItem key={bucket} value={bucket}>{FORECAST_CATEGORY_LABELS[bucket]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </CardHeader>
+        <CardContent className="p-0 max-h-[32rem] overflow-auto">
+          {forecast.loading ? (
+            <div className="p-6 space-y-2">
+              {[...Array(4)].map((_, i) => <Skeleton key={i} className="h-8 w-full" />)}
+            </div>
+          ) : tableDeals.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">No deals in this forecast</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Deal</TableHead>
+                  <TableHead>Owner</TableHead>
+                  <TableHead>Stage</TableHead>
+                  <TableHead>Close</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                  <TableHead className="text-right">Probability</TableHead>
+                  <TableHead className="text-right">Weighted</TableHead>
+                  <TableHead>Rep Category</TableHead>
+                  <TableHead>Forecast</TableHead>
+                  {canOverride && <TableHead />}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {tableDeals.map(deal => {
+                  const closed = deal.category === "closed";
+                  const canEditCategory = !closed && (isAdmin || deal.ownerId === user?.id);
+                  return (
+                    <TableRow key={deal.id}>
+                      <TableCell className="font-medium max-w-[220px] truncate">{deal.name}</TableCell>
+                      <TableCell>{nameOf(deal.ownerId)}</TableCell>
+                      <TableCell>{deal.stage}</TableCell>
+                      <TableCell>{deal.closeDate ? formatDate(deal.closeDate) : "-"}</TableCell>
+                      <TableCell className="text-right">
+                        {deal.converted ? formatMoney(deal.amount) : <span className="text-amber-600">No rate</span>}
+                      </TableCell>
+                      <TableCell className="text-right">{deal.probability}%</TableCell>
+                      <TableCell className="text-right">{formatMoney(deal.weighted)}</TableCell>
+                      <TableCell>
+                        {closed ? "-" : canEditCategory ? (
+                          <Select
+                            value={deal.repCategory || UNSET}
+                            onValueChange={value => setCategory({
+                              dealId: deal.id,
+                              category: value === UNSET ? null : (value as ForecastCategory),
+                            })}
+                          >
+                            <SelectTrigger className="h-8 w-32">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value={UNSET}>Not set</SelectItem>
+                              {FORECAST_CATEGORIES.map(category => (
+                                <SelectItem key={category} value={category}>{FORECAST_CATEGORY_LABELS[category]}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        ) : (
+                          deal.repCategory ? FORECAST_CATEGORY_LABELS[deal.repCategory] : "Not set"
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex items-center gap-1">
+                          <Badge
+                            variant="outline"
+                            style={{ borderColor: FORECAST_CATEGORY_COLORS[deal.category], color: FORECAST_CATEGORY_COLORS[deal.category] }}
+                          >
+                            {FORECAST_CATEGORY_LABELS[deal.category]}
+                          </Badge>
+                          {deal.override && (
+                            <HoverTooltip>
+                              <TooltipTrigger asChild>
+                                <ShieldCheck className="w-4 h-4 text-primary" aria-label="Manager override" />
+                              </TooltipTrigger>
+                              <TooltipContent>
+                                <p>Overridden by {nameOf(deal.override.set_by)}</p>
+                                {deal.override.note && <p className="text-xs">{deal.override.note}</p>}
+                              </TooltipContent>
+                            </HoverTooltip>
+                          )}
+                        </div>
+                      </TableCell>
+                      {canOverride && (
+                        <TableCell className="text-right">
+                          {!closed && (
+                            <Button variant="ghost" size="sm" onClick={() => setOverrideDeal(deal)}>
+                              {deal.override ? "Edit Override" : "Override"}
+                            </Button>
+                          )}
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <ForecastOverrideDialog deal={overrideDeal} onOpenChange={open => !open && setOverrideDeal(null)} />
+    </div>
+  );
+};
+
+export default ForecastDashboard;
@@ -0,0 +1,227 @@
+import { useEffect, useMemo, useState } from "react";
+import { format } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Cell,
+  Legend,
+  Line,
+  LineChart,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { useForecastSnapshotDeals, useForecastSnapshots } from "@/hooks/useForecast";
+import { buildForecastWaterfall, getMeasureValue } from "@/utils/forecast";
+import { FORECAST_MEASURE_LABELS, ForecastMeasure, WATERFALL_STEP_LABELS } from "@/types/forecast";
+
+interface ForecastMovementProps {
+  year: number;
+  target: number | null;
+  formatMoney: (amount: number) => string;
+}
+
+// Snapshots shown in the trend chart
+const TREND_WEEKS = 12;
+
+const formatWeek = (date: string) => format(new Date(`${date}T00:00:00`), "MMM d");
+
+/**
+ * How the forecast for the year moved between two weekly snapshots (waterfall), and the
+ * weekly trend of the rollups against the yearly target
+ */
+export const ForecastMovement = ({ year, target, formatMoney }: ForecastMovementProps) => {
+  const { snapshots, loading: snapshotsLoading } = useForecastSnapshots();
+  const [fromId, setFromId] = useState("");
+  const [toId, setToId] = useState("");
+  const [measure, setMeasure] = useState<ForecastMeasure>("commit");
+
+  // Default to last week against this week
+  useEffect(() => {
+    if (snapshots.length === 0) return;
+    if (!toId || !snapshots.some(s => s.id === toId)) setToId(snapshots[0].id);
+    if (!fromId || !snapshots.some(s => s.id === fromId)) setFromId(snapshots[Math.min(1, snapshots.length - 1)].id);
+  }, [snapshots, fromId, toId]);
+
+  const trendSnapshots = useMemo(() => snapshots.slice(0, TREND_WEEKS).reverse(), [snapshots]);
+  const snapshotIds = useMemo(
+    () => Array.from(new Set([...trendSnapshots.map(s => s.id), fromId, toId].filter(Boolean))),
+    [trendSnapshots, fromId, toId]
+  );
+  const { bySnapshot, loading: dealsLoading } = useForecastSnapshotDeals(snapshotIds);
+
+  const yearWindow = useMemo(() => ({ from: `${year}-01-01`, to: `${year + 1}-01-01` }), [year]);
+
+  const steps = useMemo(() => {
+    if (!fromId || !toId) return [];
+    return buildForecastWaterfall(bySnapshot.get(fromId) || [], bySnapshot.get(toId) || [], measure, yearWindow);
+  }, [bySnapshot, fromId, toId, measure, yearWindow]);
+
+  // Floating bars: an invisible base carries each movement from the running total
+  const waterfallData = useMemo(() => {
+    let running = 0;
+    return steps.map(step => {
+      const label = WATERFALL_STEP_LABELS[step.kind];
+      if (step.kind === "start" || step.kind === "end") {
+        running = step.value;
+        return { name: label, base: 0, value: step.value, change: step.value, color: "#64748b" };
+      }
+      const base = step.value >= 0 ? running : running + step.value;
+      running += step.value;
+      return { name: label, base, value: Math.abs(step.value), change: step.value, color: step.value >= 0 ? "#22c55e" : "#ef4444" };
+    });
+  }, [steps]);
+
+  const trendData = useMemo(
+    () => trendSnapshots.map(snapshot => {
+      const deals = (bySnapshot.get(snapshot.id) || []).filter(
+        deal => deal.close_date && deal.close_date >= yearWindow.from && deal.close_date < yearWindow.to
+      );
+      const sum = (m: ForecastMeasure) =>
+        Math.round(deals.reduce((total, deal) => total + getMeasureValue(deal.category, deal.amount, deal.probability, m), 0));
+      return {
+        week: formatWeek(snapshot.snapshot_date),
+        commit: sum("commit"),
+        bestCase: sum("best_case"),
+        weighted: sum("weighted"),
+      };
+    }),
+    [trendSnapshots, bySnapshot, yearWindow]
+  );
+
+  const movers = steps.filter(step => step.kind !== "start" && step.kind !== "end" && step.deals.length > 0);
+
+  if (snapshotsLoading) {
+    return <Skeleton className="h-72 w-full" />;
+  }
+
+  if (snapshots.length === 0) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Forecast Movement</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <p className="text-sm text-muted-foreground text-center py-8">
+            No forecast snapshots yet. Snapshots are saved weekly, or with "Save Snapshot" above.
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+      <Card>
+        <CardHeader className="space-y-3">
+          <CardTitle className="text-base">Forecast Movement</CardTitle>
+          <div className="flex flex-wrap items-end gap-3">
+            <div className="space-y-1">
+              <Label className="text-xs text-muted-foreground">From week</Label>
+              <Select value={fromId} onValueChange={setFromId}>
+                <SelectTrigger className="w-32"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {snapshots.map(s => <SelectItem key={s.id} value={s.id}>{formatWeek(s.snapshot_date)}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs text-muted-foreground">To week</Label>
+              <Select value={toId} onValueChange={setToId}>
+                <SelectTrigger className="w-32"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {snapshots.map(s => <SelectItem key={s.id} value={s.id}>{formatWeek(s.snapshot_date)}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs text-muted-foreground">Measure</Label>
+              <Select value={measure} onValueChange={value => setMeasure(value as ForecastMeasure)}>
+                <SelectTrigger className="w-56"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {Object.entries(FORECAST_MEASURE_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {dealsLoading ? (
+            <Skeleton className="h-64 w-full" />
+          ) : (
+            <div className="h-64">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={waterfallData}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="name" tick={{ fontSize: 11 }} interval={0} />
+                  <YAxis tick={{ fontSize: 11 }} tickFormatter={value => formatMoney(Number(value))} width={70} />
+                  <Tooltip
+                    formatter={(_value: number, _name: string, item: { payload?: { change: number } }) => formatMoney(item.payload?.change ?? 0)}
+                  />
+                  <Bar dataKey="base" stackId="waterfall" fill="transparent" legendType="none" tooltipType="none" />
+                  <Bar dataKey="value" stackId="waterfall" name="Change">
+                    {waterfallData.map(entry => <Cell key={entry.name} fill={entry.color} />)}
+                  </Bar>
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          )}
+          {movers.length > 0 && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3 text-sm">
+              {movers.map(step => (
+                <div key={step.kind}>
+                  <p className="font-medium">{WATERFALL_STEP_LABELS[step.kind]} ({formatMoney(step.value)})</p>
+                  <ul className="text-xs text-muted-foreground">
+                    {step.deals.slice(0, 3).map(deal => (
+                      <li key={deal.dealId} className="flex justify-between gap-2">
+                        <span className="truncate">{deal.name}</span>
+                        <span>{formatMoney(deal.change)}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Weekly Forecast vs Target</CardTitle>
+          <p className="text-xs text-muted-foreground">Deals closing in {year}, as saved in the last {trendSnapshots.length} weekly snapshots</p>
+        </CardHeader>
+        <CardContent className="h-72">
+          {dealsLoading ? (
+            <Skeleton className="h-full w-full" />
+          ) : (
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={trendData}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="week" tick={{ fontSize: 11 }} />
+                <YAxis tick={{ fontSize: 11 }} tickFormatter={value => formatMoney(Number(value))} width={70} />
+                <Tooltip formatter={(value: number) => formatMoney(value)} />
+                <Legend />
+                {target !== null && (
+                  <ReferenceLine y={target} stroke="#ef4444" strokeDasharray="4 4" label={{ value: "Target", fontSize: 11, position: "insideTopRight" }} />
+                )}
+                <Line type="monotone" dataKey="commit" name="Commit" stroke="#3b82f6" strokeWidth={2} />
+                <Line type="monotone" dataKey="bestCase" name="Best case" stroke="#8b5cf6" strokeWidth={2} />
+                <Line type="monotone" dataKey="weighted" name="Weighted" stroke="#f59e0b" strokeWidth={2} />
+              </LineChart>
+            </ResponsiveContainer>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
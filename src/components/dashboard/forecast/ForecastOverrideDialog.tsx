@@ -0,0 +1,126 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Loader2 } from "lucide-react";
+import { useForecastActions } from "@/hooks/useForecast";
+import { FORECAST_CATEGORIES, FORECAST_CATEGORY_LABELS, ForecastCategory, ForecastDeal } from "@/types/forecast";
+import { getCurrencySymbol } from "@/utils/formatUtils";
+
+interface ForecastOverrideDialogProps {
+  deal: ForecastDeal | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const KEEP = "keep";
+
+/**
+ * Manager override of a deal's forecast category and amount. The rep's own category stays on the
+ * deal; the amount is entered in the deal currency.
+ */
+export const ForecastOverrideDialog = ({ deal, onOpenChange }: ForecastOverrideDialogProps) => {
+  const { saveOverride, clearOverride, isSavingOverride } = useForecastActions();
+  const [category, setCategory] = useState<string>(KEEP);
+  const [amount, setAmount] = useState("");
+  const [note, setNote] = useState("");
+
+  useEffect(() => {
+    if (!deal) return;
+    setCategory(deal.override?.category || KEEP);
+    setAmount(deal.override?.amount !== null && deal.override?.amount !== undefined ? String(Number(deal.override.amount)) : "");
+    setNote(deal.override?.note || "");
+  }, [deal]);
+
+  if (!deal) return null;
+
+  const handleSave = async () => {
+    await saveOverride({
+      deal_id: deal.id,
+      category: category === KEEP ? null : (category as ForecastCategory),
+      amount: amount === "" ? null : Number(amount),
+      note: note.trim() || null,
+    });
+    onOpenChange(false);
+  };
+
+  const handleClear = async () => {
+    await clearOverride(deal.id);
+    onOpenChange(false);
+  };
+
+  const nothingOverridden = category === KEEP && amount === "";
+
+  return (
+    <Dialog open={!!deal} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Forecast Override</DialogTitle>
+          <DialogDescription>
+            {deal.name} is forecast as {FORECAST_CATEGORY_LABELS[deal.repCategory || "pipeline"]} by its owner.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Category</Label>
+            <Select value={category} onValueChange={setCategory}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={KEEP}>Keep rep's category</SelectItem>
+                {FORECAST_CATEGORIES.map(value => (
+                  <SelectItem key={value} value={value}>{FORECAST_CATEGORY_LABELS[value]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="forecast-override-amount">Amount ({deal.currency})</Label>
+            <div className="flex items-center gap-1">
+              <span className="text-sm text-muted-foreground">{getCurrencySymbol(deal.currency)}</span>
+              <Input
+                id="forecast-override-amount"
+                inputMode="numeric"
+                value={amount}
+                onChange={e => {
+                  const raw = e.target.value.replace(/,/g, "");
+                  if (raw === "" || /^\d+(\.\d{0,2})?$/.test(raw)) setAmount(raw);
+                }}
+                placeholder="Keep deal value"
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="forecast-override-note">Note</Label>
+            <Textarea
+              id="forecast-override-note"
+              value={note}
+              onChange={e => setNote(e.target.value)}
+              placeholder="Why the forecast differs from the rep's call"
+              rows={3}
+            />
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2">
+          {deal.override && (
+            <Button variant="ghost" className="sm:mr-auto" onClick={handleClear} disabled={isSavingOverride}>
+              Remove Override
+            </Button>
+          )}
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSavingOverride || nothingOverridden}>
+            {isSavingOverride && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save Override
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,240 @@
+import { useQuery } from "@tanstack/react-query";
+import { useNavigate } from "react-router-dom";
+import { format } from "date-fns";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Loader2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { formatCurrency } from "@/utils/formatUtils";
+import { getDealCurrency } from "@/utils/currencyConversion";
+import { TeamPerformancePeriod, TeamStageMetric } from "@/types/teamPerformance";
+import { formatPeriod } from "./teamPeriods";
+
+// Records per tab; the linked pages hold the full lists
+const RECORD_LIMIT = 100;
+
+interface RepDetailDialogProps {
+  repId: string | null;
+  repName: string;
+  period: TeamPerformancePeriod;
+  stageMetrics: TeamStageMetric[];
+  onOpenChange: (open: boolean) => void;
+}
+
+const fetchRepRecords = async (repId: string, period: TeamPerformancePeriod) => {
+  const [deals, meetings, tasks, emails] = await Promise.all([
+    supabase
+      .from('deals')
+      .select('id, deal_name, project_name, stage, total_contract_value, currency_type, expected_closing_date, modified_at')
+      .eq('created_by', repId)
+      .order('modified_at', { ascending: false })
+      .limit(RECORD_LIMIT),
+    supabase
+      .from('meetings')
+      .select('id, subject, start_time, status, outcome')
+      .eq('created_by', repId)
+      .gte('start_time', period.from)
+      .lt('start_time', period.to)
+      .order('start_time', { ascending: false })
+      .limit(RECORD_LIMIT),
+    supabase
+      .from('tasks')
+      .select('id, title, completed_at, priority')
+      .or(`assigned_to.eq.${repId},and(assigned_to.is.null,created_by.eq.${repId})`)
+      .gte('completed_at', period.from)
+      .lt('completed_at', period.to)
+      .order('completed_at', { ascending: false })
+      .limit(RECORD_LIMIT),
+    supabase
+      .from('email_history')
+      .select('id, subject, recipient_email, sent_at, status, open_count, reply_count')
+      .eq('sent_by', repId)
+      .gte('sent_at', period.from)
+      .lt('sent_at', period.to)
+      .order('sent_at', { ascending: false })
+      .limit(RECORD_LIMIT),
+  ]);
+  for (const result of [deals, meetings, tasks, emails]) {
+    if (result.error) throw result.error;
+  }
+  return {
+    deals: deals.data || [],
+    meetings: meetings.data || [],
+    tasks: tasks.data || [],
+    emails: emails.data || [],
+  };
+};
+
+const formatDate = (value: string | null) => (value ? format(new Date(value), "dd MMM yyyy") : "-");
+
+/**
+ * One rep's records behind the team figures, with links into the deals, meetings and tasks pages
+ */
+export const RepDetailDialog = ({ repId, repName, period, stageMetrics, onOpenChange }: RepDetailDialogProps) => {
+  const navigate = useNavigate();
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['team-rep-records', repId, period.from, period.to],
+    queryFn: () => fetchRepRecords(repId!, period),
+    enabled: !!repId,
+    staleTime: 60 * 1000,
+  });
+
+  const repStages = stageMetrics.filter(m => m.rep_id === repId);
+  const rowClass = "cursor-pointer hover:bg-muted/50";
+
+  return (
+    <Dialog open={!!repId} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>{repName}</DialogTitle>
+          <DialogDescription>{formatPeriod(period)}</DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !data ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <Tabs defaultValue="deals">
+            <TabsList>
+              <TabsTrigger value="deals">Deals ({data.deals.length})</TabsTrigger>
+              <TabsTrigger value="stages">Stages</TabsTrigger>
+              <TabsTrigger value="meetings">Meetings ({data.meetings.length})</TabsTrigger>
+              <TabsTrigger value="tasks">Tasks ({data.tasks.length})</TabsTrigger>
+              <TabsTrigger value="emails">Emails ({data.emails.length})</TabsTrigger>
+            </TabsList>
+
+            <ScrollArea className="h-[50vh] mt-3">
+              <TabsContent value="deals" className="mt-0">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Deal</TableHead>
+                      <TableHead>Stage</TableHead>
+                      <TableHead className="text-right">Value</TableHead>
+                      <TableHead>Expected Close</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {data.deals.map(deal => (
+                      <TableRow key={deal.id} className={rowClass} onClick={() => navigate(`/deals?viewId=${deal.id}`)}>
+                        <TableCell className="font-medium">{deal.deal_name || deal.project_name || "Untitled deal"}</TableCell>
+                        <TableCell><Badge variant="outline">{deal.stage}</Badge></TableCell>
+                        <TableCell className="text-right">
+                          {deal.total_contract_value ? formatCurrency(Number(deal.total_contract_value), getDealCurrency(deal)) : "-"}
+                        </TableCell>
+                        <TableCell>{formatDate(deal.expected_closing_date)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </TabsContent>
+
+              <TabsContent value="stages" className="mt-0">
+                {repStages.length === 0 ? (
+                  <p className="text-sm text-muted-foreground py-6 text-center">No stage changes in this period</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Stage</TableHead>
+                        <TableHead className="text-right">Entered</TableHead>
+                        <TableHead className="text-right">Moved On</TableHead>
+                        <TableHead className="text-right">Conversion</TableHead>
+                        <TableHead className="text-right">Avg. Days in Stage</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {repStages.map(metric => (
+                        <TableRow key={metric.stage}>
+                          <TableCell>{metric.stage}</TableCell>
+                          <TableCell className="text-right">{metric.entered}</TableCell>
+                          <TableCell className="text-right">{metric.advanced}</TableCell>
+                          <TableCell className="text-right font-medium">{metric.conversion_rate.toFixed(1)}%</TableCell>
+                          <TableCell className="text-right">{metric.avg_days_in_stage ?? "-"}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </TabsContent>
+
+              <TabsContent value="meetings" className="mt-0">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Subject</TableHead>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Outcome</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {data.meetings.map(meeting => (
+                      <TableRow key={meeting.id} className={rowClass} onClick={() => navigate(`/meetings?viewId=${meeting.id}`)}>
+                        <TableCell className="font-medium">{meeting.subject}</TableCell>
+                        <TableCell>{formatDate(meeting.start_time)}</TableCell>
+                        <TableCell className="capitalize">{meeting.status}</TableCell>
+                        <TableCell className="capitalize">{meeting.outcome?.replace(/_/g, " ") || "-"}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </TabsContent>
+
+              <TabsContent value="tasks" className="mt-0">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Task</TableHead>
+                      <TableHead>Priority</TableHead>
+                      <TableHead>Completed</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {data.tasks.map(task => (
+                      <TableRow key={task.id} className={rowClass} onClick={() => navigate(`/tasks?viewId=${task.id}`)}>
+                        <TableCell className="font-medium">{task.title}</TableCell>
+                        <TableCell className="capitalize">{task.priority}</TableCell>
+                        <TableCell>{formatDate(task.completed_at)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </TabsContent>
+
+              <TabsContent value="emails" className="mt-0">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Subject</TableHead>
+                      <TableHead>Recipient</TableHead>
+                      <TableHead>Sent</TableHead>
+                      <TableHead className="text-right">Opens</TableHead>
+                      <TableHead className="text-right">Replies</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {data.emails.map(email => (
+                      <TableRow key={email.id}>
+                        <TableCell className="font-medium">{email.subject}</TableCell>
+                        <TableCell>{email.recipient_email}</TableCell>
+                        <TableCell>{formatDate(email.sent_at)}</TableCell>
+                        <TableCell className="text-right">{email.open_count ?? 0}</TableCell>
+                        <TableCell className="text-right">{email.reply_count ?? 0}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </TabsContent>
+            </ScrollArea>
+          </Tabs>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
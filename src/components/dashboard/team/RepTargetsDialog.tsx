@@ -0,0 +1,114 @@
+import { useEffect, useMemo, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Loader2 } from "lucide-react";
+import { useProfiles, createNameMap } from "@/hooks/useProfiles";
+import { useRepAttainment, useRepTargetActions } from "@/hooks/useTeamPerformance";
+import { formatCurrency, getCurrencySymbol } from "@/utils/formatUtils";
+
+interface RepTargetsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  year: number;
+  reportingCurrency: string;
+}
+
+/**
+ * Yearly revenue target per rep. New values are entered in the reporting currency;
+ * targets saved in another currency keep it until they are changed.
+ */
+export const RepTargetsDialog = ({ open, onOpenChange, year, reportingCurrency }: RepTargetsDialogProps) => {
+  const { data: profiles = [] } = useProfiles();
+  const { targets, loading } = useRepAttainment(year, open);
+  const { saveTargets, isSaving } = useRepTargetActions();
+  const [values, setValues] = useState<Record<string, string>>({});
+
+  const nameMap = useMemo(() => createNameMap(profiles), [profiles]);
+  const reps = useMemo(
+    () => [...profiles].sort((a, b) => (nameMap[a.id] || "").localeCompare(nameMap[b.id] || "")),
+    [profiles, nameMap]
+  );
+  const targetsByRep = useMemo(() => new Map(targets.map(t => [t.user_id, t])), [targets]);
+
+  useEffect(() => {
+    if (!open) return;
+    setValues(Object.fromEntries(targets.map(t => [t.user_id, String(Number(t.target))])));
+  }, [open, targets]);
+
+  const handleSave = async () => {
+    const changed = Object.entries(values)
+      .filter(([userId, value]) => value !== "" && Number(value) !== Number(targetsByRep.get(userId)?.target ?? NaN))
+      .map(([userId, value]) => ({
+        user_id: userId,
+        year,
+        target: Number(value),
+        currency: reportingCurrency,
+      }));
+    if (changed.length > 0) await saveTargets(changed);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Rep Targets {year}</DialogTitle>
+          <DialogDescription>
+            Won revenue signed in {year} is measured against each rep's target.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <ScrollArea className="max-h-[50vh] pr-3">
+            <div className="space-y-2">
+              {reps.map(rep => {
+                const existing = targetsByRep.get(rep.id);
+                const storedInOther = existing && existing.currency !== reportingCurrency;
+                return (
+                  <div key={rep.id} className="flex items-center gap-3">
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm truncate">{nameMap[rep.id]}</p>
+                      {storedInOther && values[rep.id] === String(Number(existing.target)) && (
+                        <p className="text-xs text-muted-foreground">
+                          Entered as {formatCurrency(Number(existing.target), existing.currency)} {existing.currency}
+                        </p>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-1 w-40">
+                      <span className="text-sm text-muted-foreground">{getCurrencySymbol(reportingCurrency)}</span>
+                      <Input
+                        inputMode="numeric"
+                        value={values[rep.id] ?? ""}
+                        onChange={e => {
+                          const raw = e.target.value.replace(/,/g, "");
+                          if (raw === "" || /^\d+$/.test(raw)) setValues(prev => ({ ...prev, [rep.id]: raw }));
+                        }}
+                        placeholder="0"
+                      />
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </ScrollArea>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving || loading}>
+            {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save Targets
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,422 @@
+import { useMemo, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Skeleton } from "@/components/ui/skeleton";
+import { AlertCircle, ArrowDownRight, ArrowUpRight, Banknote, Briefcase, Target, Trophy, Users } from "lucide-react";
+import { Bar, BarChart, CartesianGrid, Legend, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import { useProfiles, createNameMap } from "@/hooks/useProfiles";
+import { useRepAttainment, useTeamPerformance, useTeamStageMetrics } from "@/hooks/useTeamPerformance";
+import { RepPerformance, TEAM_PERIOD_PRESET_LABELS, TeamPeriodPreset } from "@/types/teamPerformance";
+import { formatPeriod, getPeriodYear, getPresetPeriod, getPreviousPeriod, toCustomPeriod } from "./teamPeriods";
+import { RepDetailDialog } from "./RepDetailDialog";
+import { RepTargetsDialog } from "./RepTargetsDialog";
+
+const activityCount = (rep: RepPerformance) => rep.meetings_held + rep.tasks_completed + rep.emails_sent;
+
+// Closed-deal win rate across several reps; null when nothing was closed
+const teamWinRate = (reps: RepPerformance[]) => {
+  const won = reps.reduce((sum, r) => sum + r.deals_won, 0);
+  const lost = reps.reduce((sum, r) => sum + r.deals_lost, 0);
+  return won + lost > 0 ? Math.round((1000 * won) / (won + lost)) / 10 : null;
+};
+
+const Delta = ({ current, previous, suffix = "" }: { current: number | null; previous: number | null | undefined; suffix?: string }) => {
+  if (current === null || previous === null || previous === undefined) return null;
+  const diff = Math.round((current - previous) * 10) / 10;
+  if (diff === 0) return <span className="text-xs text-muted-foreground">±0{suffix}</span>;
+  const Icon = diff > 0 ? ArrowUpRight : ArrowDownRight;
+  return (
+    <span className={`inline-flex items-center text-xs ${diff > 0 ? "text-green-600" : "text-red-600"}`}>
+      <Icon className="w-3 h-3" />
+      {Math.abs(diff).toLocaleString("en-US")}{suffix}
+    </span>
+  );
+};
+
+/**
+ * Manager view comparing reps: pipeline, won revenue, win rate, stage conversion, activity
+ * volume and attainment against the rep's yearly target, optionally against the previous period
+ */
+const TeamDashboard = () => {
+  const [preset, setPreset] = useState<TeamPeriodPreset>("this_quarter");
+  const [customFrom, setCustomFrom] = useState("");
+  const [customTo, setCustomTo] = useState("");
+  const [compare, setCompare] = useState(true);
+  const [selectedRep, setSelectedRep] = useState<string | null>(null);
+  const [targetsOpen, setTargetsOpen] = useState(false);
+
+  const period = useMemo(() => {
+    if (preset !== "custom") return getPresetPeriod(preset);
+    if (customFrom && customTo && customFrom <= customTo) return toCustomPeriod(customFrom, customTo);
+    return getPresetPeriod("this_month");
+  }, [preset, customFrom, customTo]);
+  const previousPeriod = useMemo(() => getPreviousPeriod(period, preset), [period, preset]);
+  const year = getPeriodYear(period);
+
+  const { data: profiles = [] } = useProfiles();
+  const nameMap = useMemo(() => createNameMap(profiles), [profiles]);
+
+  const current = useTeamPerformance(period);
+  const previous = useTeamPerformance(previousPeriod, compare);
+  const { metrics: stageMetrics, loading: stagesLoading } = useTeamStageMetrics(period);
+  const { attainment } = useRepAttainment(year);
+  const { reportingCurrency } = current;
+
+  const formatMoney = (amount: number) =>
+    new Intl.NumberFormat("en-US", {
+      style: "currency",
+      currency: reportingCurrency,
+      notation: amount >= 1000000 ? "compact" : "standard",
+      maximumFractionDigits: amount >= 1000000 ? 1 : 0,
+    }).format(amount);
+
+  const previousByRep = useMemo(
+    () => new Map(previous.reps.map(rep => [rep.rep_id, rep])),
+    [previous.reps]
+  );
+
+  // Reps with activity in either period or a target this year, busiest first
+  const reps = useMemo(() => {
+    const byRep = new Map(current.reps.map(rep => [rep.rep_id, rep]));
+    Object.keys(attainment).forEach(repId => {
+      if (!byRep.has(repId) && attainment[repId].target) {
+        byRep.set(repId, {
+          rep_id: repId, deals_created: 0, deals_won: 0, deals_lost: 0, win_rate: null,
+          meetings_held: 0, tasks_completed: 0, emails_sent: 0, pipelineValue: 0, openDeals: 0, wonRevenue: 0,
+        });
+      }
+    });
+    return Array.from(byRep.values()).sort(
+      (a, b) => b.wonRevenue - a.wonRevenue || b.pipelineValue - a.pipelineValue || activityCount(b) - activityCount(a)
+    );
+  }, [current.reps, attainment]);
+
+  const openStages = useMemo(() => {
+    const stages = new Map<string, number>();
+    stageMetrics.forEach(m => stages.set(m.stage, m.stage_order));
+    return Array.from(stages).sort((a, b) => a[1] - b[1]).map(([stage]) => stage);
+  }, [stageMetrics]);
+  const stageCell = (repId: string, stage: string) => stageMetrics.find(m => m.rep_id === repId && m.stage === stage);
+
+  const totals = {
+    pipeline: reps.reduce((sum, r) => sum + r.pipelineValue, 0),
+    won: reps.reduce((sum, r) => sum + r.wonRevenue, 0),
+    winRate: teamWinRate(reps),
+    activities: reps.reduce((sum, r) => sum + activityCount(r), 0),
+  };
+  const previousTotals = compare
+    ? {
+      won: previous.reps.reduce((sum, r) => sum + r.wonRevenue, 0),
+      winRate: teamWinRate(previous.reps),
+      activities: previous.reps.reduce((sum, r) => sum + activityCount(r), 0),
+    }
+    : null;
+
+  const chartData = reps.slice(0, 10).map(rep => ({
+    name: nameMap[rep.rep_id] || "Unknown User",
+    current: Math.round(rep.wonRevenue),
+    previous: Math.round(previousByRep.get(rep.rep_id)?.wonRevenue || 0),
+  }));
+
+  const nameOf = (repId: string) => nameMap[repId] || "Unknown User";
+
+  if (current.error) {
+    return (
+      <div className="p-6">
+        <Card className="py-12">
+          <CardContent className="flex flex-col items-center gap-2 text-center">
+            <AlertCircle className="w-8 h-8 text-destructive" />
+            <p className="text-sm text-muted-foreground">Team performance could not be loaded</p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      {/* Period controls */}
+      <div className="flex flex-wrap items-end gap-4">
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Period</Label>
+          <Select value={preset} onValueChange={value => setPreset(value as TeamPeriodPreset)}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(TEAM_PERIOD_PRESET_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {preset === "custom" && (
+          <>
+            <div className="space-y-1">
+              <Label htmlFor="team-from" className="text-xs text-muted-foreground">From</Label>
+              <Input id="team-from" type="date" className="w-40" value={customFrom} onChange={e => setCustomFrom(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="team-to" className="text-xs text-muted-foreground">To</Label>
+              <Input id="team-to" type="date" className="w-40" value={customTo} onChange={e => setCustomTo(e.target.value)} />
+            </div>
+          </>
+        )}
+        <div className="flex items-center gap-2 pb-2">
+          <Switch id="team-compare" checked={compare} onCheckedChange={setCompare} />
+          <Label htmlFor="team-compare" className="text-sm">Compare with previous period</Label>
+        </div>
+        <div className="ml-auto flex items-center gap-3">
+          <p className="text-xs text-muted-foreground text-right">
+            {formatPeriod(period)}
+            {compare && <><br />vs {formatPeriod(previousPeriod)}</>}
+          </p>
+          <Button variant="outline" size="sm" onClick={() => setTargetsOpen(true)}>
+            <Target className="w-4 h-4 mr-2" />
+            Rep Targets
+          </Button>
+        </div>
+      </div>
+
+      {/* Team totals */}
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between pb-2">
+            <CardTitle className="text-sm font-medium">Open Pipeline</CardTitle>
+            <Briefcase className="w-4 h-4 text-primary" />
+          </CardHeader>
+          <CardContent>
+            {current.loading ? <Skeleton className="h-8 w-32" /> : <div className="text-2xl font-bold">{formatMoney(totals.pipeline)}</div>}
+            <p className="text-xs text-muted-foreground">All open deals today</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between pb-2">
+            <CardTitle className="text-sm font-medium">Won Revenue</CardTitle>
+            <Banknote className="w-4 h-4 text-primary" />
+          </CardHeader>
+          <CardContent>
+            {current.loading ? <Skeleton className="h-8 w-32" /> : <div className="text-2xl font-bold">{formatMoney(totals.won)}</div>}
+            {previousTotals && (
+              <p className="text-xs text-muted-foreground">
+                {formatMoney(previousTotals.won)} previous period
+              </p>
+            )}
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between pb-2">
+            <CardTitle className="text-sm font-medium">Win Rate</CardTitle>
+            <Trophy className="w-4 h-4 text-primary" />
+          </CardHeader>
+          <CardContent>
+            {current.loading ? <Skeleton className="h-8 w-20" /> : (
+              <div className="flex items-baseline gap-2">
+                <div className="text-2xl font-bold">{totals.winRate === null ? "-" : `${totals.winRate}%`}</div>
+                <Delta current={totals.winRate} previous={previousTotals?.winRate} suffix=" pts" />
+              </div>
+            )}
+            <p className="text-xs text-muted-foreground">Won of deals closed in the period</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between pb-2">
+            <CardTitle className="text-sm font-medium">Activities</CardTitle>
+            <Users className="w-4 h-4 text-primary" />
+          </CardHeader>
+          <CardContent>
+            {current.loading ? <Skeleton className="h-8 w-20" /> : (
+              <div className="flex items-baseline gap-2">
+                <div className="text-2xl font-bold">{totals.activities.toLocaleString("en-US")}</div>
+                <Delta current={totals.activities} previous={previousTotals?.activities} />
+              </div>
+            )}
+            <p className="text-xs text-muted-foreground">Meetings, completed tasks and emails</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {current.hasUnconverted && (
+        <p className="flex items-center gap-1 text-xs text-amber-600">
+          <AlertCircle className="w-3 h-3" />
+          Some deal values have no exchange rate to {reportingCurrency} and are left out of the totals
+        </p>
+      )}
+
+      {/* Rep comparison */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Rep Comparison</CardTitle>
+        </CardHeader>
+        <CardContent className="p-0">
+          {current.loading ? (
+            <div className="p-6 space-y-2">
+              {[...Array(4)].map((_, i) => <Skeleton key={i} className="h-8 w-full" />)}
+            </div>
+          ) : reps.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">No rep activity in this period</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Rep</TableHead>
+                  <TableHead className="text-right">Open Pipeline</TableHead>
+                  <TableHead className="text-right">Won Revenue</TableHead>
+                  <TableHead className="text-right">Won / Lost</TableHead>
+                  <TableHead className="text-right">Win Rate</TableHead>
+                  <TableHead className="text-right">Meetings</TableHead>
+                  <TableHead className="text-right">Tasks</TableHead>
+                  <TableHead className="text-right">Emails</TableHead>
+                  <TableHead className="text-right">Attainment {year}</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {reps.map(rep => {
+                  const before = compare ? previousByRep.get(rep.rep_id) ?? null : undefined;
+                  const repAttainment = attainment[rep.rep_id];
+                  return (
+                    <TableRow key={rep.rep_id} className="cursor-pointer hover:bg-muted/50" onClick={() => setSelectedRep(rep.rep_id)}>
+                      <TableCell className="font-medium">{nameOf(rep.rep_id)}</TableCell>
+                      <TableCell className="text-right">
+                        {formatMoney(rep.pipelineValue)}
+                        <div className="text-xs text-muted-foreground">{rep.openDeals} open</div>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {formatMoney(rep.wonRevenue)}
+                        {before !== undefined && (
+                          <div className="text-xs text-muted-foreground">{formatMoney(before?.wonRevenue || 0)} before</div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">{rep.deals_won} / {rep.deals_lost}</TableCell>
+                      <TableCell className="text-right">
+                        {rep.win_rate === null ? "-" : `${rep.win_rate}%`}
+                        {before !== undefined && (
+                          <div><Delta current={rep.win_rate} previous={before?.win_rate ?? null} suffix=" pts" /></div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {rep.meetings_held}
+                        {before !== undefined && <div><Delta current={rep.meetings_held} previous={before?.meetings_held ?? 0} /></div>}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {rep.tasks_completed}
+                        {before !== undefined && <div><Delta current={rep.tasks_completed} previous={before?.tasks_completed ?? 0} /></div>}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {rep.emails_sent}
+                        {before !== undefined && <div><Delta current={rep.emails_sent} previous={before?.emails_sent ?? 0} /></div>}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {repAttainment?.attainment === null || repAttainment?.attainment === undefined ? (
+                          <span className="text-muted-foreground">No target</span>
+                        ) : (
+                          <>
+                            <span className="font-medium">{repAttainment.attainment}%</span>
+                            <div className="text-xs text-muted-foreground">of {formatMoney(repAttainment.target || 0)}</div>
+                          </>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+        {/* Stage conversion and time in stage */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Stage Conversion</CardTitle>
+            <p className="text-xs text-muted-foreground">Share of deals entering a stage that moved on, and average days spent in it</p>
+          </CardHeader>
+          <CardContent className="p-0 overflow-x-auto">
+            {stagesLoading ? (
+              <div className="p-6"><Skeleton className="h-32 w-full" /></div>
+            ) : openStages.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-8">No stage changes in this period</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Rep</TableHead>
+                    {openStages.map(stage => <TableHead key={stage} className="text-right">{stage}</TableHead>)}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {Array.from(new Set(stageMetrics.map(m => m.rep_id))).map(repId => (
+                    <TableRow key={repId} className="cursor-pointer hover:bg-muted/50" onClick={() => setSelectedRep(repId)}>
+                      <TableCell className="font-medium">{nameOf(repId)}</TableCell>
+                      {openStages.map(stage => {
+                        const cell = stageCell(repId, stage);
+                        return (
+                          <TableCell key={stage} className="text-right">
+                            {cell ? (
+                              <>
+                                {cell.conversion_rate.toFixed(0)}%
+                                <div className="text-xs text-muted-foreground">
+                                  {cell.avg_days_in_stage === null ? `${cell.entered} in` : `${cell.avg_days_in_stage}d`}
+                                </div>
+                              </>
+                            ) : "-"}
+                          </TableCell>
+                        );
+                      })}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Won revenue by rep */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Won Revenue by Rep</CardTitle>
+          </CardHeader>
+          <CardContent className="h-72">
+            {chartData.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-8">No won deals in this period</p>
+            ) : (
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={chartData}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="name" tick={{ fontSize: 11 }} />
+                  <YAxis tick={{ fontSize: 11 }} tickFormatter={value => formatMoney(Number(value))} width={70} />
+                  <Tooltip formatter={(value: number) => formatMoney(value)} />
+                  <Legend />
+                  <Bar dataKey="current" name="This period" fill="#3b82f6" radius={[4, 4, 0, 0]} />
+                  {compare && <Bar dataKey="previous" name="Previous period" fill="#94a3b8" radius={[4, 4, 0, 0]} />}
+                </BarChart>
+              </ResponsiveContainer>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <RepDetailDialog
+        repId={selectedRep}
+        repName={selectedRep ? nameOf(selectedRep) : ""}
+        period={period}
+        stageMetrics={stageMetrics}
+        onOpenChange={open => !open && setSelectedRep(null)}
+      />
+      <RepTargetsDialog
+        open={targetsOpen}
+        onOpenChange={setTargetsOpen}
+        year={year}
+        reportingCurrency={reportingCurrency}
+      />
+    </div>
+  );
+};
+
+export default TeamDashboard;
@@ -0,0 +1,64 @@
+import {
+  addDays,
+  differenceInCalendarDays,
+  format,
+  startOfMonth,
+  startOfQuarter,
+  startOfYear,
+  subDays,
+  subMonths,
+  subQuarters,
+  subYears,
+} from "date-fns";
+import { TeamPerformancePeriod, TeamPeriodPreset } from "@/types/teamPerformance";
+
+const toKey = (date: Date) => format(date, "yyyy-MM-dd");
+const fromKey = (key: string) => new Date(`${key}T00:00:00`);
+
+export const getPresetPeriod = (preset: Exclude<TeamPeriodPreset, "custom">, today = new Date()): TeamPerformancePeriod => {
+  const tomorrow = addDays(today, 1);
+  switch (preset) {
+    case "this_month":
+      return { from: toKey(startOfMonth(today)), to: toKey(tomorrow) };
+    case "last_month":
+      return { from: toKey(startOfMonth(subMonths(today, 1))), to: toKey(startOfMonth(today)) };
+    case "this_quarter":
+      return { from: toKey(startOfQuarter(today)), to: toKey(tomorrow) };
+    case "last_quarter":
+      return { from: toKey(startOfQuarter(subQuarters(today, 1))), to: toKey(startOfQuarter(today)) };
+    case "this_year":
+      return { from: toKey(startOfYear(today)), to: toKey(tomorrow) };
+  }
+};
+
+/**
+ * The period just before, shifted by the preset's unit so "this month" compares with the same
+ * days of last month; custom ranges compare with the same number of days immediately before.
+ */
+export const getPreviousPeriod = (period: TeamPerformancePeriod, preset: TeamPeriodPreset): TeamPerformancePeriod => {
+  const from = fromKey(period.from);
+  const to = fromKey(period.to);
+  if (preset === "this_month" || preset === "last_month") {
+    return { from: toKey(subMonths(from, 1)), to: toKey(subMonths(to, 1)) };
+  }
+  if (preset === "this_quarter" || preset === "last_quarter") {
+    return { from: toKey(subQuarters(from, 1)), to: toKey(subQuarters(to, 1)) };
+  }
+  if (preset === "this_year") {
+    return { from: toKey(subYears(from, 1)), to: toKey(subYears(to, 1)) };
+  }
+  const days = differenceInCalendarDays(to, from);
+  return { from: toKey(subDays(from, days)), to: period.from };
+};
+
+// Custom ranges are picked with an inclusive end date
+export const toCustomPeriod = (from: string, toInclusive: string): TeamPerformancePeriod => ({
+  from,
+  to: toKey(addDays(fromKey(toInclusive), 1)),
+});
+
+export const formatPeriod = (period: TeamPerformancePeriod) =>
+  `${format(fromKey(period.from), "d MMM yyyy")} – ${format(subDays(fromKey(period.to), 1), "d MMM yyyy")}`;
+
+// Attainment is measured for the year the period ends in
+export const getPeriodYear = (period: TeamPerformancePeriod) => subDays(fromKey(period.to), 1).getFullYear();
@@ -0,0 +1,85 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { useNavigate } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { Plus } from "lucide-react";
+import { WidgetLoadingSkeleton } from "./WidgetLoadingSkeleton";
+import { DashboardWidgetProps, WIDGET_QUERY_OPTIONS } from "./types";
+
+/**
+ * Account counts by status for accounts the current user created
+ */
+export const AccountsSummaryWidget = ({ isResizeMode, actions }: DashboardWidgetProps) => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+
+  // Accounts data - enhanced with status counts
+  const { data: accountsData, isLoading: accountsLoading } = useQuery({
+    queryKey: ['user-accounts-enhanced', user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase.from('accounts').select('id, company_name, status, created_at').eq('created_by', user?.id);
+      if (error) throw error;
+      const accounts = data || [];
+      const byStatus = {
+        new: accounts.filter(a => a.status?.toLowerCase() === 'new').length,
+        working: accounts.filter(a => a.status?.toLowerCase() === 'working').length,
+        hot: accounts.filter(a => a.status?.toLowerCase() === 'hot').length,
+        nurture: accounts.filter(a => a.status?.toLowerCase() === 'nurture').length,
+      };
+      return { total: accounts.length, byStatus };
+    },
+    enabled: !!user?.id,
+    ...WIDGET_QUERY_OPTIONS,
+  });
+
+  if (accountsLoading) return <WidgetLoadingSkeleton showHeader rows={4} />;
+  return (
+    <Card className="h-full hover:shadow-lg transition-shadow animate-fade-in overflow-hidden flex flex-col" aria-label="My Accounts widget">
+      <CardHeader className="flex flex-row items-center justify-between py-2 px-3 flex-shrink-0">
+        <CardTitle 
+          className="text-sm font-medium truncate cursor-pointer hover:text-primary transition-colors"
+          onClick={() => !isResizeMode && navigate('/accounts')}
+        >
+          My Accounts
+        </CardTitle>
+        <Button variant="outline" size="sm" className="h-6 text-xs gap-1 flex-shrink-0" onClick={() => !isResizeMode && actions.createAccount()}>
+          <Plus className="w-3 h-3" /> Add Account
+        </Button>
+      </CardHeader>
+      <CardContent className="px-3 pb-3 pt-0 flex-1 min-h-0 flex flex-col">
+        <div className="grid grid-cols-2 gap-1.5 flex-1 min-h-0">
+          <div 
+            className="text-center p-1.5 bg-blue-50 dark:bg-blue-950/20 rounded cursor-pointer hover:bg-blue-100 dark:hover:bg-blue-950/40 transition-colors flex flex-col items-center justify-center min-h-0"
+            onClick={(e) => { e.stopPropagation(); navigate('/accounts?status=New&owner=me'); }}
+          >
+            <p className="text-base font-bold text-blue-600 leading-tight">{accountsData?.byStatus?.new || 0}</p>
+            <p className="text-[9px] text-muted-foreground leading-tight">New</p>
+          </div>
+          <div 
+            className="text-center p-1.5 bg-yellow-50 dark:bg-yellow-950/20 rounded cursor-pointer hover:bg-yellow-100 dark:hover:bg-yellow-950/40 transition-colors flex flex-col items-center justify-center min-h-0"
+            onClick={(e) => { e.stopPropagation(); navigate('/accounts?status=Working&owner=me'); }}
+          >
+            <p className="text-base font-bold text-yellow-600 leading-tight">{accountsData?.byStatus?.working || 0}</p>
+            <p className="text-[9px] text-muted-foreground leading-tight">Working</p>
+          </div>
+          <div 
+            className="text-center p-1.5 bg-red-50 dark:bg-red-950/20 rounded cursor-pointer hover:bg-red-100 dark:hover:bg-red-950/40 transition-colors flex flex-col items-center justify-center min-h-0"
+            onClick={(e) => { e.stopPropagation(); navigate('/accounts?status=Hot&owner=me'); }}
+          >
+            <p className="text-base font-bold text-red-600 leading-tight">{accountsData?.byStatus?.hot || 0}</p>
+            <p className="text-[9px] text-muted-foreground leading-tight">Hot</p>
+          </div>
+          <div 
+            className="text-center p-1.5 bg-green-50 dark:bg-green-950/20 rounded cursor-pointer hover:bg-green-100 dark:hover:bg-green-950/40 transition-colors flex flex-col items-center justify-center min-h-0"
+            onClick={(e) => { e.stopPropagation(); navigate('/accounts?status=Nurture&owner=me'); }}
+          >
+            <p className="text-base font-bold text-green-600 leading-tight">{accountsData?.byStatus?.nurture || 0}</p>
+            <p className="text-[9px] text-muted-foreground leading-tight">Nurture</p>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,85 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { useNavigate } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { Plus } from "lucide-react";
+import { WidgetLoadingSkeleton } from "./WidgetLoadingSkeleton";
+import { DashboardWidgetProps, WIDGET_QUERY_OPTIONS } from "./types";
+
+/**
+ * Contact counts by source for contacts the current user created
+ */
+export const ContactsWidget = ({ isResizeMode, actions }: DashboardWidgetProps) => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+
+  // Contacts data - enhanced with contact_source
+  const { data: contactsData, isLoading: contactsLoading } = useQuery({
+    queryKey: ['user-contacts-enhanced', user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase.from('contacts').select('id, contact_name, email, phone_no, segment, contact_source, created_time').eq('created_by', user?.id);
+      if (error) throw error;
+      const contacts = data || [];
+      const bySource = {
+        website: contacts.filter(c => c.contact_source?.toLowerCase() === 'website').length,
+        referral: contacts.filter(c => c.contact_source?.toLowerCase() === 'referral').length,
+        linkedin: contacts.filter(c => c.contact_source?.toLowerCase() === 'linkedin').length,
+        other: contacts.filter(c => !['website', 'referral', 'linkedin'].includes(c.contact_source?.toLowerCase() || '')).length,
+      };
+      return { total: contacts.length, bySource };
+    },
+    enabled: !!user?.id,
+    ...WIDGET_QUERY_OPTIONS,
+  });
+
+  if (contactsLoading) return <WidgetLoadingSkeleton showHeader rows={4} />;
+  return (
+    <Card className="h-full hover:shadow-lg transition-shadow animate-fade-in overflow-hidden flex flex-col" aria-label="My Contacts widget">
+      <CardHeader className="flex flex-row items-center justify-between py-2 px-3 flex-shrink-0">
+        <CardTitle 
+          className="text-sm font-medium truncate cursor-pointer hover:text-primary transition-colors"
+          onClick={() => !isResizeMode && navigate('/contacts')}
+        >
+          My Contacts
+        </CardTitle>
+        <Button variant="outline" size="sm" className="h-6 text-xs gap-1 flex-shrink-0" onClick={() => !isResizeMode && actions.createContact()}>
+          <Plus className="w-3 h-3" /> Add Contact
+        </Button>
+      </CardHeader>
+      <CardContent className="px-3 pb-3 pt-0 flex-1 min-h-0 flex flex-col">
+        <div className="grid grid-cols-2 gap-1.5 flex-1 min-h-0">
+          <div 
+            className="text-center p-1.5 bg-blue-50 dark:bg-blue-950/20 rounded cursor-pointer hover:bg-blue-100 dark:hover:bg-blue-950/40 transition-colors flex flex-col items-center justify-center min-h-0"
+            onClick={(e) => { e.stopPropagation(); navigate('/contacts?source=Website&owner=me'); }}
+          >
+            <p className="text-base font-bold text-blue-600 leading-tight">{contactsData?.bySource?.website || 0}</p>
+            <p className="text-[9px] text-muted-foreground leading-tight">Website</p>
+          </div>
+          <div 
+            className="text-center p-1.5 bg-purple-50 dark:bg-purple-950/20 rounded cursor-pointer hover:bg-purple-100 dark:hover:bg-purple-950/40 transition-colors flex flex-col items-center justify-center min-h-0"
+            onClick={(e) => { e.stopPropagation(); navigate('/contacts?source=Referral&owner=me'); }}
+          >
+            <p className="text-base font-bold text-purple-600 leading-tight">{contactsData?.bySource?.referral || 0}</p>
+            <p className="text-[9px] text-muted-foreground leading-tight">Referral</p>
+          </div>
+          <div 
+            className="text-center p-1.5 bg-cyan-50 dark:bg-cyan-950/20 rounded cursor-pointer hover:bg-cyan-100 dark:hover:bg-cyan-950/40 transition-colors flex flex-col items-center justify-center min-h-0"
+            onClick={(e) => { e.stopPropagation(); navigate('/contacts?source=LinkedIn&owner=me'); }}
+          >
+            <p className="text-base font-bold text-cyan-600 leading-tight">{contactsData?.bySource?.linkedin || 0}</p>
+            <p className="text-[9px] text-muted-foreground leading-tight">LinkedIn</p>
+          </div>
+          <div 
+            className="text-center p-1.5 bg-gray-50 dark:bg-gray-950/20 rounded cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-950/40 transition-colors flex flex-col items-center justify-center min-h-0"
+            onClick={(e) => { e.stopPropagation(); navigate('/contacts?source=Other&owner=me'); }}
+          >
+            <p className="text-base font-bold text-gray-600 leading-tight">{contactsData?.bySource?.other || 0}</p>
+            <p className="text-[9px] text-muted-foreground leading-tight">Other</p>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,136 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useSavedFilters } from "@/hooks/useSavedFilters";
+import {
+  CUSTOM_CHART_ENTITIES,
+  CUSTOM_CHART_TYPE_LABELS,
+  CustomChartConfig,
+  CustomChartEntity,
+  CustomChartMetric,
+  CustomChartType,
+  getGroupFields,
+} from "@/types/customChart";
+import { WidgetSettingsProps } from "./types";
+
+const NO_FILTER = "none";
+
+export const CustomChartSettings = ({ config, onChange }: WidgetSettingsProps<CustomChartConfig>) => {
+  const { savedFilters } = useSavedFilters(config.entity);
+  const meta = CUSTOM_CHART_ENTITIES[config.entity];
+  const groupFields = getGroupFields(config.entity);
+
+  const update = (changes: Partial<CustomChartConfig>) => onChange({ ...config, ...changes });
+
+  // Group-by, metric field and saved filter all belong to the previous entity
+  const handleEntityChange = (entity: CustomChartEntity) => {
+    update({
+      entity,
+      groupBy: CUSTOM_CHART_ENTITIES[entity].groupFields[0].field,
+      metric: 'count',
+      metricField: null,
+      savedFilterId: null,
+    });
+  };
+
+  const handleMetricChange = (metric: CustomChartMetric) => {
+    update({ metric, metricField: metric === 'sum' ? meta.numericFields[0]?.field ?? null : null });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="chart-title">Title</Label>
+        <Input
+          id="chart-title"
+          value={config.title}
+          onChange={(e) => update({ title: e.target.value })}
+          placeholder="Deals by stage"
+        />
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-2">
+          <Label>Records</Label>
+          <Select value={config.entity} onValueChange={(value) => handleEntityChange(value as CustomChartEntity)}>
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {Object.entries(CUSTOM_CHART_ENTITIES).map(([entity, entityMeta]) => (
+                <SelectItem key={entity} value={entity}>{entityMeta.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>Chart type</Label>
+          <Select value={config.chartType} onValueChange={(value) => update({ chartType: value as CustomChartType })}>
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {Object.entries(CUSTOM_CHART_TYPE_LABELS).map(([type, label]) => (
+                <SelectItem key={type} value={type}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-2">
+          <Label>Metric</Label>
+          <Select value={config.metric} onValueChange={(value) => handleMetricChange(value as CustomChartMetric)}>
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="count">Count of records</SelectItem>
+              <SelectItem value="sum" disabled={meta.numericFields.length === 0}>Sum of a field</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        {config.metric === 'sum' && (
+          <div className="space-y-2">
+            <Label>Field</Label>
+            <Select value={config.metricField ?? undefined} onValueChange={(value) => update({ metricField: value })}>
+              <SelectTrigger><SelectValue placeholder="Select field" /></SelectTrigger>
+              <SelectContent>
+                {meta.numericFields.map(field => (
+                  <SelectItem key={field.field} value={field.field}>{field.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-2">
+          <Label>Group by</Label>
+          <Select value={config.groupBy} onValueChange={(value) => update({ groupBy: value })}>
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {groupFields.map(field => (
+                <SelectItem key={field.field} value={field.field}>{field.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>Saved filter</Label>
+          <Select
+            value={config.savedFilterId ?? NO_FILTER}
+            onValueChange={(value) => update({ savedFilterId: value === NO_FILTER ? null : value })}
+          >
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_FILTER}>All {meta.label.toLowerCase()}</SelectItem>
+              {savedFilters.map(filter => (
+                <SelectItem key={filter.id} value={filter.id}>{filter.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+      {config.metric === 'sum' && config.entity === 'deals' && (
+        <p className="text-xs text-muted-foreground">Values are summed as stored, without currency conversion.</p>
+      )}
+    </div>
+  );
+};
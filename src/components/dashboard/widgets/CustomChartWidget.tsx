@@ -0,0 +1,241 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { format } from "date-fns";
+import { BarChart3 } from "lucide-react";
+import {
+  Bar, BarChart, CartesianGrid, Cell, Line, LineChart, Pie, PieChart, ResponsiveContainer, Tooltip, XAxis, YAxis,
+} from "recharts";
+import {
+  CREATED_MONTH_GROUP,
+  CUSTOM_CHART_ENTITIES,
+  CustomChartConfig,
+  CustomChartEntityMeta,
+  getGroupFields,
+  OWNER_GROUP,
+} from "@/types/customChart";
+import { WidgetLoadingSkeleton } from "./WidgetLoadingSkeleton";
+import { DashboardWidgetProps, WIDGET_QUERY_OPTIONS } from "./types";
+
+const COLORS = ['#8b5cf6', '#3b82f6', '#22c55e', '#eab308', '#ef4444', '#ec4899', '#06b6d4', '#f97316'];
+// PostgREST returns at most 1000 rows per request
+const PAGE_SIZE = 1000;
+const MAX_ROWS = 10000;
+// Categorical charts keep the largest groups and fold the rest into "Other"
+const MAX_GROUPS = 12;
+
+interface ChartPoint {
+  name: string;
+  value: number;
+}
+
+type ChartRow = Record<string, unknown>;
+
+// Narrowing calls used on the dynamically-built query
+interface FilterableQuery {
+  in: (column: string, values: unknown[]) => FilterableQuery;
+  eq: (column: string, value: unknown) => FilterableQuery;
+  gte: (column: string, value: unknown) => FilterableQuery;
+  lte: (column: string, value: unknown) => FilterableQuery;
+  ilike: (column: string, pattern: string) => FilterableQuery;
+  range: (from: number, to: number) => PromiseLike<{ data: ChartRow[] | null; error: Error | null }>;
+}
+
+/**
+ * Applies a saved filter (as written by the entity's filter UI) to the chart query.
+ * Unknown keys are ignored so filters saved by newer UIs never break the chart.
+ */
+const applySavedFilter = (query: FilterableQuery, meta: CustomChartEntityMeta, filters: Record<string, unknown> | null) => {
+  if (!filters) return query;
+  let next = query;
+  Object.entries(filters).forEach(([key, value]) => {
+    if (key === 'searchTerm' && typeof value === 'string' && value.trim()) {
+      next = next.ilike(meta.searchColumn, `%${value.trim()}%`);
+      return;
+    }
+    // DealsAdvancedFilter stores the probability slider as a [min, max] pair
+    if (key === 'probabilityRange' && Array.isArray(value) && value.length === 2) {
+      const [min, max] = value as number[];
+      if (min > 0) next = next.gte('probability', min);
+      if (max < 100) next = next.lte('probability', max);
+      return;
+    }
+    const column = meta.filterColumns[key] ?? (meta.groupFields.some(f => f.field === key) ? key : null);
+    if (!column) return;
+    if (Array.isArray(value)) {
+      if (value.length > 0) next = next.in(column, value);
+    } else if (typeof value === 'string' && value && value !== 'all') {
+      next = next.eq(column, value);
+    }
+  });
+  return next;
+};
+
+const fetchChartRows = async (config: CustomChartConfig, groupColumn: string) => {
+  const meta = CUSTOM_CHART_ENTITIES[config.entity];
+  const columns = Array.from(new Set(
+    ['id', groupColumn, config.metric === 'sum' ? config.metricField : null].filter(Boolean)
+  )).join(', ');
+
+  let savedFilter: Record<string, unknown> | null = null;
+  if (config.savedFilterId) {
+    const { data, error } = await supabase
+      .from('saved_filters')
+      .select('filters')
+      .eq('id', config.savedFilterId)
+      .maybeSingle();
+    if (error) throw error;
+    savedFilter = (data?.filters as Record<string, unknown>) ?? null;
+  }
+
+  const rows: ChartRow[] = [];
+  for (let from = 0; from < MAX_ROWS; from += PAGE_SIZE) {
+    const base = supabase.from(config.entity).select(columns) as unknown as FilterableQuery;
+    const { data, error } = await applySavedFilter(base, meta, savedFilter).range(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+  return rows;
+};
+
+const buildPoints = (
+  rows: ChartRow[],
+  config: CustomChartConfig,
+  groupColumn: string,
+  ownerNames: Map<string, string>,
+): ChartPoint[] => {
+  const totals = new Map<string, number>();
+  rows.forEach(row => {
+    const raw = row[groupColumn];
+    let group: string;
+    if (config.groupBy === CREATED_MONTH_GROUP) {
+      group = raw ? format(new Date(String(raw)), 'yyyy-MM') : 'None';
+    } else if (config.groupBy === OWNER_GROUP) {
+      group = raw ? ownerNames.get(String(raw)) || 'Unknown User' : 'Unassigned';
+    } else {
+      group = raw === null || raw === undefined || raw === '' ? 'None' : String(raw);
+    }
+    const amount = config.metric === 'sum' && config.metricField ? Number(row[config.metricField]) || 0 : 1;
+    totals.set(group, (totals.get(group) || 0) + amount);
+  });
+
+  const points = Array.from(totals, ([name, value]) => ({ name, value: Math.round(value * 100) / 100 }));
+
+  if (config.groupBy === CREATED_MONTH_GROUP) {
+    return points
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map(p => ({ ...p, name: p.name === 'None' ? p.name : format(new Date(`${p.name}-01T00:00:00`), 'MMM yyyy') }));
+  }
+
+  points.sort((a, b) => b.value - a.value);
+  if (points.length <= MAX_GROUPS) return points;
+  const other = points.slice(MAX_GROUPS - 1).reduce((sum, p) => sum + p.value, 0);
+  return [...points.slice(0, MAX_GROUPS - 1), { name: 'Other', value: Math.round(other * 100) / 100 }];
+};
+
+const formatValue = (value: number) =>
+  new Intl.NumberFormat('en-US', { notation: value >= 10000 ? 'compact' : 'standard', maximumFractionDigits: 1 }).format(value);
+
+/**
+ * User-built chart: count or sum of one entity grouped by a field, optionally narrowed by a saved filter
+ */
+export const CustomChartWidget = ({ widgetKey, config }: DashboardWidgetProps<CustomChartConfig>) => {
+  const meta = config ? CUSTOM_CHART_ENTITIES[config.entity] : null;
+  const groupColumn = !config || !meta
+    ? ''
+    : config.groupBy === CREATED_MONTH_GROUP
+      ? meta.createdColumn
+      : config.groupBy === OWNER_GROUP
+        ? meta.ownerColumn
+        : config.groupBy;
+
+  const { data: userProfiles } = useQuery({
+    queryKey: ['all-user-profiles'],
+    queryFn: async () => {
+      const { data, error } = await supabase.from('profiles').select('id, full_name');
+      if (error) throw error;
+      return data || [];
+    },
+    staleTime: 5 * 60 * 1000,
+    enabled: config?.groupBy === OWNER_GROUP,
+  });
+
+  const { data: rows, isLoading, error } = useQuery({
+    queryKey: ['dashboard-custom-chart', widgetKey, config],
+    queryFn: () => fetchChartRows(config!, groupColumn),
+    enabled: !!meta,
+    ...WIDGET_QUERY_OPTIONS,
+  });
+
+  if (!config || !meta) {
+    return (
+      <Card className="h-full flex items-center justify-center">
+        <p className="text-xs text-muted-foreground p-3 text-center">Open Customize and use the settings button to configure this chart</p>
+      </Card>
+    );
+  }
+
+  if (isLoading) return <WidgetLoadingSkeleton showHeader rows={3} />;
+
+  const ownerNames = new Map((userProfiles || []).map(p => [p.id, p.full_name || 'Unknown User']));
+  const points = buildPoints(rows || [], config, groupColumn, ownerNames);
+  const metricLabel = config.metric === 'sum'
+    ? `Sum of ${meta.numericFields.find(f => f.field === config.metricField)?.label || config.metricField}`
+    : `${meta.label} count`;
+  const groupLabel = getGroupFields(config.entity).find(f => f.field === config.groupBy)?.label || config.groupBy;
+
+  return (
+    <Card className="h-full animate-fade-in overflow-hidden flex flex-col" aria-label={`${config.title} widget`}>
+      <CardHeader className="flex flex-row items-center justify-between py-2 px-3 flex-shrink-0">
+        <CardTitle className="flex items-center gap-1.5 text-sm font-medium truncate">
+          <BarChart3 className="w-4 h-4 text-primary flex-shrink-0" />
+          {config.title}
+        </CardTitle>
+        <span className="text-[9px] text-muted-foreground truncate">{metricLabel} by {groupLabel.toLowerCase()}</span>
+      </CardHeader>
+      <CardContent className="px-3 pb-3 pt-0 flex-1 min-h-0 flex flex-col">
+        {error ? (
+          <div className="flex-1 min-h-0 flex items-center justify-center text-destructive text-[10px]">
+            Failed to load chart data
+          </div>
+        ) : points.length === 0 ? (
+          <div className="flex-1 min-h-0 flex items-center justify-center text-muted-foreground text-[10px]">
+            No matching {meta.label.toLowerCase()}
+          </div>
+        ) : (
+          <div className="flex-1 min-h-0">
+            <ResponsiveContainer width="100%" height="100%">
+              {config.chartType === 'pie' ? (
+                <PieChart>
+                  <Pie data={points} dataKey="value" nameKey="name" outerRadius="80%" label={({ name }) => name}>
+                    {points.map((point, index) => (
+                      <Cell key={point.name} fill={COLORS[index % COLORS.length]} />
+                    ))}
+                  </Pie>
+                  <Tooltip formatter={(value: number) => formatValue(value)} />
+                </PieChart>
+              ) : config.chartType === 'line' ? (
+                <LineChart data={points}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="name" tick={{ fontSize: 10 }} />
+                  <YAxis tick={{ fontSize: 10 }} tickFormatter={formatValue} width={40} />
+                  <Tooltip formatter={(value: number) => formatValue(value)} />
+                  <Line type="monotone" dataKey="value" name={metricLabel} stroke={COLORS[1]} strokeWidth={2} />
+                </LineChart>
+              ) : (
+                <BarChart data={points}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="name" tick={{ fontSize: 10 }} />
+                  <YAxis tick={{ fontSize: 10 }} tickFormatter={formatValue} width={40} />
+                  <Tooltip formatter={(value: number) => formatValue(value)} />
+                  <Bar dataKey="value" name={metricLabel} fill={COLORS[0]} radius={[4, 4, 0, 0]} />
+                </BarChart>
+              )}
+            </ResponsiveContainer>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,116 @@
+import { useMemo } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { useNavigate } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useCurrencyConverter } from "@/hooks/useCurrencyConverter";
+import { usePipelineStages } from "@/hooks/usePipelineStages";
+import { CurrencyTotals, getDealConversionDate, getDealCurrency } from "@/utils/currencyConversion";
+import { WidgetLoadingSkeleton } from "./WidgetLoadingSkeleton";
+import { DashboardWidgetProps, WIDGET_QUERY_OPTIONS } from "./types";
+
+/**
+ * Deal counts by stage for deals the current user created or owns
+ */
+export const DealsWidget = ({ isResizeMode }: DashboardWidgetProps) => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const { converter, reportingCurrency } = useCurrencyConverter();
+  const { openStageNames, wonStageNames, lostStageNames, isWonStage, isLostStage } = usePipelineStages();
+
+  const { data: userDeals, isLoading: dealsLoading } = useQuery({
+    queryKey: ['user-deals-enhanced', user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase.from('deals').select('id, stage, total_contract_value, currency_type, deal_name, created_by, lead_owner, expected_closing_date, signed_contract_date, created_at');
+      if (error) throw error;
+      return (data || []).filter(d => d.created_by === user?.id || d.lead_owner === user?.id);
+    },
+    enabled: !!user?.id,
+    ...WIDGET_QUERY_OPTIONS,
+  });
+
+  // Open, won and lost follow the pipeline configuration; RFQ and Offered are the named stages
+  const dealsData = useMemo(() => {
+    if (!userDeals) return null;
+    const activeDeals = userDeals.filter(d => openStageNames.includes(d.stage));
+    const wonDeals = userDeals.filter(d => isWonStage(d.stage));
+    const lostDeals = userDeals.filter(d => isLostStage(d.stage));
+    // Values are summed in the company reporting currency
+    const pipelineTotals = converter ? new CurrencyTotals(converter) : null;
+    activeDeals.forEach(d => pipelineTotals?.add(d.total_contract_value || 0, getDealCurrency(d), getDealConversionDate(d, isWonStage)));
+    const wonTotals = converter ? new CurrencyTotals(converter) : null;
+    wonDeals.forEach(d => wonTotals?.add(d.total_contract_value || 0, getDealCurrency(d), getDealConversionDate(d, isWonStage)));
+
+    return {
+      total: userDeals.length,
+      active: activeDeals.length,
+      won: wonDeals.length,
+      lost: lostDeals.length,
+      totalPipeline: pipelineTotals?.converted ?? 0,
+      wonValue: wonTotals?.converted ?? 0,
+      reportingCurrency,
+      byStage: {
+        rfq: userDeals.filter(d => d.stage === 'RFQ').length,
+        offered: userDeals.filter(d => d.stage === 'Offered').length,
+        won: wonDeals.length,
+        lost: lostDeals.length,
+      }
+    };
+  }, [userDeals, converter, reportingCurrency, openStageNames, isWonStage, isLostStage]);
+
+  // The Won and Lost tiles open the list on the pipeline's first won / lost stage
+  const openStage = (stage: string | undefined) => {
+    navigate(stage ? `/deals?stage=${encodeURIComponent(stage)}&owner=me` : '/deals?owner=me');
+  };
+
+  if (dealsLoading) return <WidgetLoadingSkeleton showHeader rows={4} />;
+  return (
+    <Card className="h-full hover:shadow-lg transition-shadow animate-fade-in overflow-hidden flex flex-col" aria-label="My Deals widget">
+      <CardHeader className="flex flex-row items-center justify-between py-2 px-3 flex-shrink-0">
+        <CardTitle 
+          className="text-sm font-medium truncate cursor-pointer hover:text-primary transition-colors"
+          onClick={() => !isResizeMode && navigate('/deals')}
+        >
+          My Deals
+        </CardTitle>
+        <Button variant="outline" size="sm" className="h-6 text-xs gap-1 flex-shrink-0" onClick={() => !isResizeMode && navigate('/deals')}>
+          View All
+        </Button>
+      </CardHeader>
+      <CardContent className="px-3 pb-3 pt-0 flex-1 min-h-0 flex flex-col">
+        <div className="grid grid-cols-2 gap-1.5 flex-1 min-h-0">
+          <div 
+            className="text-center p-1.5 bg-blue-50 dark:bg-blue-950/20 rounded cursor-pointer hover:bg-blue-100 dark:hover:bg-blue-950/40 transition-colors flex flex-col items-center justify-center min-h-0"
+            onClick={(e) => { e.stopPropagation(); navigate('/deals?stage=RFQ&owner=me'); }}
+          >
+            <p className="text-base font-bold text-blue-600 leading-tight">{dealsData?.byStage?.rfq || 0}</p>
+            <p className="text-[9px] text-muted-foreground leading-tight">RFQ</p>
+          </div>
+          <div 
+            className="text-center p-1.5 bg-yellow-50 dark:bg-yellow-950/20 rounded cursor-pointer hover:bg-yellow-100 dark:hover:bg-yellow-950/40 transition-colors flex flex-col items-center justify-center min-h-0"
+            onClick={(e) => { e.stopPropagation(); navigate('/deals?stage=Offered&owner=me'); }}
+          >
+            <p className="text-base font-bold text-yellow-600 leading-tight">{dealsData?.byStage?.offered || 0}</p>
+            <p className="text-[9px] text-muted-foreground leading-tight">Offered</p>
+          </div>
+          <div 
+            className="text-center p-1.5 bg-green-50 dark:bg-green-950/20 rounded cursor-pointer hover:bg-green-100 dark:hover:bg-green-950/40 transition-colors flex flex-col items-center justify-center min-h-0"
+            onClick={(e) => { e.stopPropagation(); openStage(wonStageNames[0]); }}
+          >
+            <p className="text-base font-bold text-green-600 leading-tight">{dealsData?.byStage?.won || 0}</p>
+            <p className="text-[9px] text-muted-foreground leading-tight">Won</p>
+          </div>
+          <div 
+            className="text-center p-1.5 bg-red-50 dark:bg-red-950/20 rounded cursor-pointer hover:bg-red-100 dark:hover:bg-red-950/40 transition-colors flex flex-col items-center justify-center min-h-0"
+            onClick={(e) => { e.stopPropagation(); openStage(lostStageNames[0]); }}
+          >
+            <p className="text-base font-bold text-red-600 leading-tight">{dealsData?.byStage?.lost || 0}</p>
+            <p className="text-[9px] text-muted-foreground leading-tight">Lost</p>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
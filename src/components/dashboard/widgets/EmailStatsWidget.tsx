@@ -0,0 +1,65 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { useNavigate } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { Mail } from "lucide-react";
+import { DashboardWidgetProps, WIDGET_QUERY_OPTIONS } from "./types";
+
+/**
+ * Sent and opened counts for emails the current user sent
+ */
+export const EmailStatsWidget = ({ isResizeMode }: DashboardWidgetProps) => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+
+  // Email stats - enhanced
+  const { data: emailStats } = useQuery({
+    queryKey: ['user-email-stats-enhanced', user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('email_history')
+        .select('id, status, open_count, click_count, subject, sent_at')
+        .eq('sent_by', user?.id)
+        .order('sent_at', { ascending: false });
+      if (error) throw error;
+      const emails = data || [];
+      const sent = emails.length;
+      const opened = emails.filter(e => (e.open_count || 0) > 0).length;
+      const openRate = sent > 0 ? Math.round((opened / sent) * 100) : 0;
+      const recentEmail = emails[0];
+      return { sent, opened, openRate, recentSubject: recentEmail?.subject || null };
+    },
+    enabled: !!user?.id,
+    ...WIDGET_QUERY_OPTIONS,
+  });
+
+  return (
+    <Card className="h-full animate-fade-in overflow-hidden flex flex-col">
+      <CardHeader className="flex flex-row items-center justify-between py-2 px-3 flex-shrink-0">
+        <CardTitle 
+          className="text-sm font-medium truncate cursor-pointer hover:text-primary transition-colors"
+          onClick={() => !isResizeMode && navigate('/settings?tab=email-history')}
+        >
+          Email Statistics
+        </CardTitle>
+        <Mail className="w-4 h-4 text-blue-600 flex-shrink-0" />
+      </CardHeader>
+      <CardContent className="px-3 pb-3 pt-0 flex-1 min-h-0 flex flex-col justify-center gap-2">
+        <div className="grid grid-cols-3 gap-1.5 text-center">
+          <div className="flex flex-col items-center justify-center">
+            <p className="text-base font-bold leading-tight">{emailStats?.sent || 0}</p>
+            <p className="text-[9px] text-muted-foreground leading-tight">Sent</p>
+          </div>
+          <div className="flex flex-col items-center justify-center">
+            <p className="text-base font-bold text-green-600 leading-tight">{emailStats?.opened || 0}</p>
+            <p className="text-[9px] text-muted-foreground leading-tight">Opened</p>
+          </div>
+        </div>
+        <div className="flex justify-center text-[9px] text-muted-foreground border-t pt-1.5">
+          <span>Open Rate: <span className="font-medium text-foreground">{emailStats?.openRate || 0}%</span></span>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
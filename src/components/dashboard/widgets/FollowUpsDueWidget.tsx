@@ -0,0 +1,129 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { useNavigate } from "react-router-dom";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { Check, ClipboardList } from "lucide-react";
+import { toast } from "sonner";
+import { format, isBefore } from "date-fns";
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { DashboardWidgetProps, WIDGET_QUERY_OPTIONS } from "./types";
+
+/**
+ * Pending meeting follow-ups assigned to the current user
+ */
+export const FollowUpsDueWidget = ({ isResizeMode, actions }: DashboardWidgetProps) => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+
+  // Follow-ups due
+  const { data: followUpsDue } = useQuery({
+    queryKey: ['user-follow-ups-due', user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('meeting_follow_ups')
+        .select('id, title, status, due_date, meeting_id')
+        .eq('assigned_to', user?.id)
+        .eq('status', 'pending')
+        .order('due_date', { ascending: true })
+        .limit(5);
+      if (error) throw error;
+      const followUps = data || [];
+      const today = format(new Date(), 'yyyy-MM-dd');
+      const overdue = followUps.filter(f => f.due_date && f.due_date < today).length;
+      return { followUps, total: followUps.length, overdue };
+    },
+    enabled: !!user?.id,
+    ...WIDGET_QUERY_OPTIONS,
+  });
+
+  const handleCompleteFollowUp = async (followUpId: string, e: React.MouseEvent) => {
+    e.stopPropagation();
+    try {
+      await supabase.from('meeting_follow_ups').update({ status: 'completed' }).eq('id', followUpId);
+      queryClient.invalidateQueries({ queryKey: ['user-follow-ups-due', user?.id] });
+      toast.success("Follow-up completed");
+    } catch (error) {
+      toast.error("Failed to complete follow-up");
+    }
+  };
+  return (
+    <Card className="h-full animate-fade-in overflow-hidden flex flex-col">
+      <CardHeader className="flex flex-row items-center justify-between py-2 px-3 flex-shrink-0">
+        <CardTitle className="text-sm font-medium truncate">Follow-Ups Due</CardTitle>
+        <div className="flex items-center gap-1.5 flex-shrink-0">
+          {(followUpsDue?.overdue || 0) > 0 && (
+            <span className="text-[9px] px-1.5 py-0.5 rounded bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300">
+              {followUpsDue?.overdue} overdue
+            </span>
+          )}
+          <TooltipProvider>
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Button variant="ghost" size="sm" className="h-5 w-5 p-0" onClick={() => !isResizeMode && navigate('/meetings')}>
+                  <ClipboardList className="w-4 h-4 text-amber-600" />
+                </Button>
+              </TooltipTrigger>
+              <TooltipContent>View all meetings</TooltipContent>
+            </Tooltip>
+          </TooltipProvider>
+        </div>
+      </CardHeader>
+      <CardContent className="px-3 pb-3 pt-0 flex-1 min-h-0 flex flex-col">
+        {followUpsDue?.followUps && followUpsDue.followUps.length > 0 ? (
+          <ScrollArea className="flex-1 min-h-0">
+            <div className="space-y-1.5 pr-2">
+              {followUpsDue.followUps.map((followUp) => {
+                const isOverdue = followUp.due_date && isBefore(new Date(followUp.due_date), new Date());
+                return (
+                  <div 
+                    key={followUp.id} 
+                    className={`p-1.5 rounded text-[10px] flex items-start gap-1.5 group cursor-pointer transition-colors ${isOverdue ? 'bg-red-50 dark:bg-red-900/20 hover:bg-red-100 dark:hover:bg-red-900/30' : 'bg-muted/50 hover:bg-muted'}`}
+                    onClick={async () => {
+                      if (isResizeMode) return;
+                      // Fetch meeting details and open modal
+                      const { data: meeting } = await supabase.from('meetings').select('*').eq('id', followUp.meeting_id).single();
+                      if (meeting) {
+                        actions.openMeeting(meeting);
+                      }
+                    }}
+                  >
+                    <TooltipProvider>
+                      <Tooltip>
+                        <TooltipTrigger asChild>
+                          <button 
+                            className={`w-3.5 h-3.5 rounded border flex items-center justify-center flex-shrink-0 mt-0.5 transition-colors ${isOverdue ? 'border-red-300 dark:border-red-600 hover:bg-green-500 hover:border-green-500' : 'border-muted-foreground/30 hover:bg-green-500 hover:border-green-500'}`}
+                            onClick={(e) => handleCompleteFollowUp(followUp.id, e)}
+                          >
+                            <Check className="w-2 h-2 opacity-0 group-hover:opacity-100 text-white" />
+                          </button>
+                        </TooltipTrigger>
+                        <TooltipContent>Mark complete</TooltipContent>
+                      </Tooltip>
+                    </TooltipProvider>
+                    <div className="flex-1 min-w-0">
+                      <p className="font-medium truncate">{followUp.title}</p>
+                      <div className="flex items-center gap-1 text-[9px] text-muted-foreground">
+                        <span className={isOverdue ? 'text-red-600 font-medium' : ''}>
+                          {isOverdue ? '⚠️ Overdue: ' : 'Due: '}
+                          {followUp.due_date ? format(new Date(followUp.due_date), 'MMM d') : 'No date'}
+                        </span>
+                      </div>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </ScrollArea>
+        ) : (
+          <div className="flex-1 min-h-0 flex items-center justify-center text-muted-foreground text-[10px]">
+            No pending follow-ups
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
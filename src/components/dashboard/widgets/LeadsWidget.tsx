@@ -0,0 +1,87 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { useNavigate } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { Plus } from "lucide-react";
+import { WidgetLoadingSkeleton } from "./WidgetLoadingSkeleton";
+import { DashboardWidgetProps, WIDGET_QUERY_OPTIONS } from "./types";
+
+/**
+ * Lead counts by status for leads the current user created
+ */
+export const LeadsWidget = ({ isResizeMode, actions }: DashboardWidgetProps) => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+
+  // Leads data - enhanced
+  const { data: leadsData, isLoading: leadsLoading } = useQuery({
+    queryKey: ['user-leads-enhanced', user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase.from('leads').select('id, lead_status, lead_name, created_time').eq('created_by', user?.id);
+      if (error) throw error;
+      const leads = data || [];
+      const recentLead = leads.sort((a, b) => new Date(b.created_time || 0).getTime() - new Date(a.created_time || 0).getTime())[0];
+      return {
+        total: leads.length,
+        new: leads.filter(l => l.lead_status === 'New').length,
+        attempted: leads.filter(l => l.lead_status === 'Attempted').length,
+        followUp: leads.filter(l => l.lead_status === 'Follow-up').length,
+        qualified: leads.filter(l => l.lead_status === 'Qualified').length,
+        recentLead: recentLead?.lead_name || null
+      };
+    },
+    enabled: !!user?.id,
+    ...WIDGET_QUERY_OPTIONS,
+  });
+
+  if (leadsLoading) return <WidgetLoadingSkeleton showHeader rows={4} />;
+  return (
+    <Card className="h-full hover:shadow-lg transition-shadow animate-fade-in overflow-hidden flex flex-col" aria-label="My Leads widget">
+      <CardHeader className="flex flex-row items-center justify-between py-2 px-3 flex-shrink-0">
+        <CardTitle 
+          className="text-sm font-medium truncate cursor-pointer hover:text-primary transition-colors"
+          onClick={() => !isResizeMode && navigate('/leads')}
+        >
+          My Leads
+        </CardTitle>
+        <Button variant="outline" size="sm" className="h-6 text-xs gap-1 flex-shrink-0" onClick={() => !isResizeMode && actions.createLead()}>
+          <Plus className="w-3 h-3" /> Add Lead
+        </Button>
+      </CardHeader>
+      <CardContent className="px-3 pb-3 pt-0 flex-1 min-h-0 flex flex-col">
+        <div className="grid grid-cols-2 gap-1.5 flex-1 min-h-0">
+          <div 
+            className="text-center p-1.5 bg-blue-50 dark:bg-blue-950/20 rounded cursor-pointer hover:bg-blue-100 dark:hover:bg-blue-950/40 transition-colors flex flex-col items-center justify-center min-h-0"
+            onClick={(e) => { e.stopPropagation(); navigate('/leads?status=New&owner=me'); }}
+          >
+            <p className="text-base font-bold text-blue-600 leading-tight">{leadsData?.new || 0}</p>
+            <p className="text-[9px] text-muted-foreground leading-tight">New</p>
+          </div>
+          <div 
+            className="text-center p-1.5 bg-yellow-50 dark:bg-yellow-950/20 rounded cursor-pointer hover:bg-yellow-100 dark:hover:bg-yellow-950/40 transition-colors flex flex-col items-center justify-center min-h-0"
+            onClick={(e) => { e.stopPropagation(); navigate('/leads?status=Attempted&owner=me'); }}
+          >
+            <p className="text-base font-bold text-yellow-600 leading-tight">{leadsData?.attempted || 0}</p>
+            <p className="text-[9px] text-muted-foreground leading-tight">Attempted</p>
+          </div>
+          <div 
+            className="text-center p-1.5 bg-orange-50 dark:bg-orange-950/20 rounded cursor-pointer hover:bg-orange-100 dark:hover:bg-orange-950/40 transition-colors flex flex-col items-center justify-center min-h-0"
+            onClick={(e) => { e.stopPropagation(); navigate('/leads?status=Follow-up&owner=me'); }}
+          >
+            <p className="text-base font-bold text-orange-600 leading-tight">{leadsData?.followUp || 0}</p>
+            <p className="text-[9px] text-muted-foreground leading-tight">Follow-Up</p>
+          </div>
+          <div 
+            className="text-center p-1.5 bg-green-50 dark:bg-green-950/20 rounded cursor-pointer hover:bg-green-100 dark:hover:bg-green-950/40 transition-colors flex flex-col items-center justify-center min-h-0"
+            onClick={(e) => { e.stopPropagation(); navigate('/leads?status=Qualified&owner=me'); }}
+          >
+            <p className="text-base font-bold text-green-600 leading-tight">{leadsData?.qualified || 0}</p>
+            <p className="text-[9px] text-muted-foreground leading-tight">Qualified</p>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
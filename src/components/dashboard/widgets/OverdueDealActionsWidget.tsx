@@ -0,0 +1,111 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { useNavigate } from "react-router-dom";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { AlertCircle, Check } from "lucide-react";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { DEAL_ACTION_ITEMS_QUERY_KEY } from "@/hooks/useDealActionItems";
+import { DashboardWidgetProps, WIDGET_QUERY_OPTIONS } from "./types";
+
+/**
+ * Deal action items assigned to the current user that are past due
+ */
+export const OverdueDealActionsWidget = ({ isResizeMode }: DashboardWidgetProps) => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+
+  const { data: overdueDealActions } = useQuery({
+    queryKey: [...DEAL_ACTION_ITEMS_QUERY_KEY, 'overdue', user?.id],
+    queryFn: async () => {
+      const today = format(new Date(), 'yyyy-MM-dd');
+      const { data, error } = await supabase
+        .from('deal_action_items')
+        .select('id, next_action, due_date, status, deal_id, deals(deal_name, project_name)')
+        .eq('assigned_to', user?.id)
+        .in('status', ['Open', 'Ongoing'])
+        .lt('due_date', today)
+        .order('due_date', { ascending: true })
+        .limit(20);
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: !!user?.id,
+    ...WIDGET_QUERY_OPTIONS,
+  });
+
+  const handleCloseDealAction = async (actionId: string, e: React.MouseEvent) => {
+    e.stopPropagation();
+    const { error } = await supabase.from('deal_action_items').update({ status: 'Closed' }).eq('id', actionId);
+    if (error) {
+      toast.error("Failed to close action item");
+      return;
+    }
+    queryClient.invalidateQueries({ queryKey: DEAL_ACTION_ITEMS_QUERY_KEY });
+    toast.success("Action item closed");
+  };
+  return (
+    <Card className="h-full animate-fade-in overflow-hidden flex flex-col" aria-label="Overdue Deal Actions widget">
+      <CardHeader className="flex flex-row items-center justify-between py-2 px-3 flex-shrink-0">
+        <CardTitle
+          className="text-sm font-medium truncate cursor-pointer hover:text-primary transition-colors"
+          onClick={() => !isResizeMode && navigate('/deals')}
+        >
+          Overdue Deal Actions
+        </CardTitle>
+        {(overdueDealActions?.length || 0) > 0 && (
+          <span className="text-[9px] px-1.5 py-0.5 rounded bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300 flex-shrink-0">
+            {overdueDealActions?.length} overdue
+          </span>
+        )}
+      </CardHeader>
+      <CardContent className="px-3 pb-3 pt-0 flex-1 min-h-0 flex flex-col">
+        {overdueDealActions && overdueDealActions.length > 0 ? (
+          <ScrollArea className="flex-1 min-h-0">
+            <div className="space-y-1.5 pr-2">
+              {overdueDealActions.map((action) => (
+                <div
+                  key={action.id}
+                  className="p-1.5 rounded text-[10px] flex items-start gap-1.5 group cursor-pointer transition-colors bg-red-50 dark:bg-red-900/20 hover:bg-red-100 dark:hover:bg-red-900/30"
+                  onClick={() => !isResizeMode && navigate(`/deals?viewId=${action.deal_id}`)}
+                >
+                  <TooltipProvider>
+                    <Tooltip>
+                      <TooltipTrigger asChild>
+                        <button
+                          className="w-3.5 h-3.5 rounded border flex items-center justify-center flex-shrink-0 mt-0.5 transition-colors border-red-300 dark:border-red-600 hover:bg-green-500 hover:border-green-500"
+                          onClick={(e) => handleCloseDealAction(action.id, e)}
+                        >
+                          <Check className="w-2 h-2 opacity-0 group-hover:opacity-100 text-white" />
+                        </button>
+                      </TooltipTrigger>
+                      <TooltipContent>Mark closed</TooltipContent>
+                    </Tooltip>
+                  </TooltipProvider>
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium truncate">{action.next_action}</p>
+                    <div className="flex items-center gap-1 text-[9px] text-muted-foreground">
+                      <span className="truncate">{action.deals?.project_name || action.deals?.deal_name || 'Deal'}</span>
+                      <span className="text-red-600 font-medium flex-shrink-0">
+                        · Due {action.due_date ? format(new Date(action.due_date), 'MMM d') : ''}
+                      </span>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        ) : (
+          <div className="flex-1 min-h-0 flex flex-col items-center justify-center gap-1 text-muted-foreground text-[10px]">
+            <AlertCircle className="w-4 h-4 opacity-50" />
+            No overdue deal actions
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
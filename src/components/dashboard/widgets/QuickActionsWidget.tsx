@@ -0,0 +1,36 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Plus } from "lucide-react";
+import { DashboardWidgetProps } from "./types";
+
+/**
+ * Shortcuts to the create dialogs
+ */
+export const QuickActionsWidget = ({ isResizeMode, actions }: DashboardWidgetProps) => {
+  return (
+    <Card className="h-full animate-fade-in overflow-hidden flex flex-col" aria-label="Quick Actions widget">
+      <CardHeader className="py-2 px-3 flex-shrink-0">
+        <CardTitle className="text-sm font-medium truncate">Quick Actions</CardTitle>
+      </CardHeader>
+      <CardContent className="px-3 pb-3 pt-0 flex-1 min-h-0 flex flex-col">
+        <div className="grid grid-cols-2 gap-1.5 flex-1 min-h-0">
+          <Button variant="outline" size="sm" className="justify-start gap-1.5 h-auto min-h-[28px] text-xs py-1" onClick={() => !isResizeMode && actions.createLead()}>
+            <Plus className="w-3 h-3 flex-shrink-0" /> Lead
+          </Button>
+          <Button variant="outline" size="sm" className="justify-start gap-1.5 h-auto min-h-[28px] text-xs py-1" onClick={() => !isResizeMode && actions.createContact()}>
+            <Plus className="w-3 h-3 flex-shrink-0" /> Contact
+          </Button>
+          <Button variant="outline" size="sm" className="justify-start gap-1.5 h-auto min-h-[28px] text-xs py-1" onClick={() => !isResizeMode && actions.createAccount()}>
+            <Plus className="w-3 h-3 flex-shrink-0" /> Account
+          </Button>
+          <Button variant="outline" size="sm" className="justify-start gap-1.5 h-auto min-h-[28px] text-xs py-1" onClick={() => !isResizeMode && actions.createMeeting()}>
+            <Plus className="w-3 h-3 flex-shrink-0" /> Meeting
+          </Button>
+          <Button variant="outline" size="sm" className="justify-start gap-1.5 h-auto min-h-[28px] text-xs py-1 col-span-2" onClick={() => !isResizeMode && actions.openTask(null)}>
+            <Plus className="w-3 h-3 flex-shrink-0" /> Task
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
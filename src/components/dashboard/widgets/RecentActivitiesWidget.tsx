@@ -0,0 +1,296 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { useNavigate } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { Activity, Briefcase, Building2, Calendar, ListTodo, Plus, User, Users, X } from "lucide-react";
+import { Switch } from "@/components/ui/switch";
+import { useUserRole } from "@/hooks/useUserRole";
+import { useState } from "react";
+import { format } from "date-fns";
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { EmptyState } from "@/components/shared/EmptyState";
+import { DashboardWidgetProps } from "./types";
+
+interface AuditLogDetails {
+  field_changes?: Record<string, { old?: unknown; new?: unknown }>;
+  record_data?: Record<string, string>;
+  deleted_data?: Record<string, string>;
+}
+
+/**
+ * Latest audited creates, updates and deletes; admins can switch to the whole team
+ */
+export const RecentActivitiesWidget = ({ isResizeMode }: DashboardWidgetProps) => {
+  const { user } = useAuth();
+  const { isAdmin } = useUserRole();
+  const navigate = useNavigate();
+
+  // Recent activities toggle state (for admin only)
+  const [showAllActivities, setShowAllActivities] = useState(false);
+  
+  // Recent activities display count (for "Show More" functionality)
+  const [activitiesDisplayCount, setActivitiesDisplayCount] = useState(5);
+
+  // Recent activities
+  const { data: userProfiles } = useQuery({
+    queryKey: ['all-user-profiles'],
+    queryFn: async () => {
+      const { data, error } = await supabase.from('profiles').select('id, full_name');
+      if (error) throw error;
+      return data || [];
+    },
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const getDisplayName = (value: unknown): string => {
+    if (!value || value === 'empty' || value === null) return 'empty';
+    if (typeof value !== 'string') return String(value);
+    const uuidPattern = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+    if (uuidPattern.test(value)) {
+      const profile = userProfiles?.find(p => p.id === value);
+      return profile?.full_name || 'Unknown User';
+    }
+    return value;
+  };
+
+  const { data: recentActivities } = useQuery({
+    queryKey: ['user-recent-activities', user?.id, userProfiles, showAllActivities],
+    queryFn: async () => {
+      let query = supabase
+        .from('security_audit_log')
+        .select('id, action, resource_type, resource_id, created_at, details, user_id')
+        .in('action', ['CREATE', 'UPDATE', 'DELETE'])
+        .in('resource_type', ['contacts', 'leads', 'deals', 'accounts', 'meetings', 'tasks'])
+        .order('created_at', { ascending: false })
+        .limit(10);
+      
+      // Only filter by user_id if not showing all activities
+      if (!showAllActivities) {
+        query = query.eq('user_id', user?.id);
+      }
+      
+      const { data, error } = await query;
+      if (error) throw error;
+
+      return (data || []).map(log => {
+        let detailedSubject = `${log.action} ${log.resource_type}`;
+        const details = log.details as AuditLogDetails | null;
+        
+        if (log.action === 'UPDATE' && details?.field_changes) {
+          const changedFields = Object.keys(details.field_changes);
+          if (changedFields.length > 0) {
+            const fieldSummary = changedFields.slice(0, 2).map(field => {
+              const change = details.field_changes[field];
+              const oldVal = getDisplayName(change?.old ?? 'empty');
+              const newVal = getDisplayName(change?.new ?? 'empty');
+              return `${field}: "${oldVal}" → "${newVal}"`;
+            }).join(', ');
+            detailedSubject = `Updated ${log.resource_type} - ${fieldSummary}${changedFields.length > 2 ? ` (+${changedFields.length - 2} more)` : ''}`;
+          }
+        } else if (log.action === 'CREATE' && details?.record_data) {
+          const recordName = details.record_data.lead_name || details.record_data.contact_name || 
+                            details.record_data.deal_name || details.record_data.company_name || 
+                            details.record_data.title || details.record_data.subject || '';
+          if (recordName) detailedSubject = `Created ${log.resource_type} - "${recordName}"`;
+        } else if (log.action === 'DELETE' && details?.deleted_data) {
+          const recordName = details.deleted_data.lead_name || details.deleted_data.contact_name || 
+                            details.deleted_data.deal_name || details.deleted_data.company_name || 
+                            details.deleted_data.title || details.deleted_data.subject || '';
+          if (recordName) detailedSubject = `Deleted ${log.resource_type} - "${recordName}"`;
+        }
+        
+        return {
+          id: log.id,
+          subject: detailedSubject,
+          activity_type: log.action,
+          activity_date: log.created_at,
+          resource_type: log.resource_type,
+          user_id: log.user_id,
+        };
+      });
+    },
+    enabled: !!user?.id && !!userProfiles
+  });
+
+  const getActivityIcon = (action: string, resourceType: string) => {
+    const iconClass = "w-3 h-3";
+    if (action === 'CREATE') return <Plus className={`${iconClass} text-green-600`} />;
+    if (action === 'DELETE') return <X className={`${iconClass} text-red-600`} />;
+    // UPDATE
+    switch (resourceType) {
+      case 'leads': return <Users className={`${iconClass} text-blue-600`} />;
+      case 'contacts': return <Users className={`${iconClass} text-green-600`} />;
+      case 'deals': return <Briefcase className={`${iconClass} text-purple-600`} />;
+      case 'accounts': return <Building2 className={`${iconClass} text-indigo-600`} />;
+      case 'meetings': return <Calendar className={`${iconClass} text-teal-600`} />;
+      case 'tasks': return <ListTodo className={`${iconClass} text-orange-600`} />;
+      default: return <Activity className={`${iconClass} text-primary`} />;
+    }
+  };
+  const getActivityBadge = (action: string) => {
+    if (action === 'CREATE') return { text: 'Created', class: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300' };
+    if (action === 'DELETE') return { text: 'Deleted', class: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300' };
+    return { text: 'Updated', class: 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300' };
+  };
+  const getIconBgColor = (action: string, resourceType: string) => {
+    if (action === 'CREATE') return 'bg-green-100 dark:bg-green-900/30';
+    if (action === 'DELETE') return 'bg-red-100 dark:bg-red-900/30';
+    switch (resourceType) {
+      case 'leads': return 'bg-blue-100 dark:bg-blue-900/30';
+      case 'contacts': return 'bg-emerald-100 dark:bg-emerald-900/30';
+      case 'deals': return 'bg-purple-100 dark:bg-purple-900/30';
+      case 'accounts': return 'bg-indigo-100 dark:bg-indigo-900/30';
+      case 'meetings': return 'bg-teal-100 dark:bg-teal-900/30';
+      case 'tasks': return 'bg-orange-100 dark:bg-orange-900/30';
+      default: return 'bg-muted';
+    }
+  };
+  const formatRelativeTime = (dateStr: string) => {
+    const date = new Date(dateStr);
+    const now = new Date();
+    const diffMs = now.getTime() - date.getTime();
+    const diffMins = Math.floor(diffMs / 60000);
+    const diffHrs = Math.floor(diffMs / 3600000);
+    const diffDays = Math.floor(diffMs / 86400000);
+    
+    if (diffMins < 1) return 'Just now';
+    if (diffMins < 60) return `${diffMins}m ago`;
+    if (diffHrs < 24) return `${diffHrs}h ago`;
+    if (diffDays < 7) return `${diffDays}d ago`;
+    return format(date, 'MMM d');
+  };
+  const getActivityUserName = (activityUserId: string) => {
+    const profile = userProfiles?.find(p => p.id === activityUserId);
+    return profile?.full_name || 'Unknown User';
+  };
+  const navigateToEntity = (resourceType: string) => {
+    if (isResizeMode) return;
+    switch (resourceType) {
+      case 'leads': navigate('/leads'); break;
+      case 'contacts': navigate('/contacts'); break;
+      case 'deals': navigate('/deals'); break;
+      case 'accounts': navigate('/accounts'); break;
+      case 'meetings': navigate('/meetings'); break;
+      case 'tasks': navigate('/tasks'); break;
+    }
+  };
+  return (
+    <Card className="h-full animate-fade-in overflow-hidden flex flex-col">
+      <CardHeader className="flex flex-row items-center justify-between py-2 px-3 flex-shrink-0">
+        <CardTitle 
+          className="flex items-center gap-1.5 text-sm font-medium truncate cursor-pointer hover:text-primary transition-colors"
+          onClick={() => !isResizeMode && navigate('/settings?tab=audit')}
+        >
+          <Activity className="w-4 h-4 text-primary flex-shrink-0" />
+          Recent Activities
+        </CardTitle>
+        <div className="flex items-center gap-2 flex-shrink-0">
+          {isAdmin && (
+            <div className="flex items-center gap-1.5">
+              <span className="text-[9px] text-muted-foreground whitespace-nowrap">
+                {showAllActivities ? 'All' : 'My'}
+              </span>
+              <Switch
+                checked={showAllActivities}
+                onCheckedChange={setShowAllActivities}
+                className="scale-75 data-[state=checked]:bg-primary"
+              />
+            </div>
+          )}
+          <Button variant="ghost" size="sm" className="h-6 text-xs flex-shrink-0" onClick={() => !isResizeMode && navigate('/settings?tab=audit')}>
+            View All
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="px-3 pb-3 pt-0 flex-1 min-h-0 flex flex-col">
+        {recentActivities && recentActivities.length > 0 ? (
+          <>
+            <ScrollArea className="flex-1 min-h-0">
+              <div className="space-y-2 pr-2">
+                {recentActivities.slice(0, activitiesDisplayCount).map((activity) => {
+                  const badge = getActivityBadge(activity.activity_type);
+                  const isOwnActivity = activity.user_id === user?.id;
+                  return (
+                    <div 
+                      key={activity.id} 
+                      className="flex gap-3 p-2.5 rounded-lg bg-muted/40 hover:bg-muted hover:shadow-sm cursor-pointer transition-all"
+                      onClick={() => navigateToEntity(activity.resource_type)}
+                      aria-label={`${activity.activity_type} ${activity.resource_type}`}
+                    >
+                      {/* Left: Icon */}
+                      <div className={`w-8 h-8 rounded-full flex items-center justify-center flex-shrink-0 ${getIconBgColor(activity.activity_type, activity.resource_type)}`}>
+                        {getActivityIcon(activity.activity_type, activity.resource_type)}
+                      </div>
+                      
+                      {/* Right: Content */}
+                      <div className="flex-1 min-w-0">
+                        {/* Top row: Badge + Resource + Timestamp */}
+                        <div className="flex items-center justify-between gap-2 mb-0.5">
+                          <div className="flex items-center gap-1.5 min-w-0 flex-1">
+                            <span className="text-[10px] text-muted-foreground capitalize font-medium truncate">
+                              {activity.resource_type}
+                            </span>
+                          </div>
+                          <span className={`text-[10px] px-1.5 py-0.5 rounded font-medium flex-shrink-0 ${badge.class}`}>
+                            {badge.text}
+                          </span>
+                          <TooltipProvider delayDuration={100}>
+                            <Tooltip>
+                              <TooltipTrigger asChild>
+                                <span className="text-[10px] text-muted-foreground whitespace-nowrap flex-shrink-0">
+                                  {formatRelativeTime(activity.activity_date)}
+                                </span>
+                              </TooltipTrigger>
+                              <TooltipContent side="left" className="text-xs">
+                                {format(new Date(activity.activity_date), 'MMM d, yyyy HH:mm')}
+                              </TooltipContent>
+                            </Tooltip>
+                          </TooltipProvider>
+                        </div>
+                        
+                        {/* User name (All Activities mode only, for non-self activities) */}
+                        {showAllActivities && !isOwnActivity && (
+                          <p className="text-[10px] text-muted-foreground mb-0.5 flex items-center gap-1">
+                            <User className="w-2.5 h-2.5" />
+                            {getActivityUserName(activity.user_id)}
+                          </p>
+                        )}
+                        
+                        {/* Description */}
+                        <p className="text-[11px] font-medium line-clamp-2 leading-snug">
+                          {activity.subject}
+                        </p>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </ScrollArea>
+            {recentActivities.length > activitiesDisplayCount && (
+              <Button 
+                variant="ghost" 
+                size="sm" 
+                className="mt-2 h-6 text-xs w-full"
+                onClick={() => setActivitiesDisplayCount(prev => Math.min(prev + 5, recentActivities.length))}
+              >
+                Show More ({recentActivities.length - activitiesDisplayCount} remaining)
+              </Button>
+            )}
+          </>
+        ) : (
+          <div className="flex-1 min-h-0 flex items-center justify-center">
+            <EmptyState
+              title={showAllActivities ? "No team activities" : "No recent activities"}
+              description={showAllActivities ? "Team activities will appear here" : "Activities will appear as you work"}
+              illustration="activities"
+              variant="compact"
+            />
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,93 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { useNavigate } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { Plus } from "lucide-react";
+import { format } from "date-fns";
+import { WidgetLoadingSkeleton } from "./WidgetLoadingSkeleton";
+import { DashboardWidgetProps, WIDGET_QUERY_OPTIONS } from "./types";
+
+/**
+ * Task counts by status for tasks assigned to or created by the current user
+ */
+export const TaskRemindersWidget = ({ isResizeMode, actions }: DashboardWidgetProps) => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+
+  // Task reminders with status counts
+  const { data: taskReminders, isLoading: tasksLoading } = useQuery({
+    queryKey: ['user-task-reminders-enhanced', user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('tasks')
+        .select('id, title, due_date, priority, status')
+        .or(`assigned_to.eq.${user?.id},created_by.eq.${user?.id}`);
+      if (error) throw error;
+      const tasks = data || [];
+      const byStatus = {
+        open: tasks.filter(t => t.status === 'open').length,
+        inProgress: tasks.filter(t => t.status === 'in_progress').length,
+        completed: tasks.filter(t => t.status === 'completed').length,
+        cancelled: tasks.filter(t => t.status === 'cancelled').length,
+      };
+      const today = format(new Date(), 'yyyy-MM-dd');
+      const overdue = tasks.filter(t => t.due_date && t.due_date < today && ['open', 'in_progress'].includes(t.status)).length;
+      const dueToday = tasks.filter(t => t.due_date === today).length;
+      const highPriority = tasks.filter(t => t.priority === 'high' && ['open', 'in_progress'].includes(t.status)).length;
+      return { tasks: tasks.slice(0, 5), overdue, dueToday, highPriority, total: tasks.length, byStatus };
+    },
+    enabled: !!user?.id,
+    ...WIDGET_QUERY_OPTIONS,
+  });
+
+  if (tasksLoading) return <WidgetLoadingSkeleton showHeader rows={4} />;
+  return (
+    <Card className="h-full hover:shadow-lg transition-shadow animate-fade-in overflow-hidden flex flex-col" aria-label="My Tasks widget">
+      <CardHeader className="flex flex-row items-center justify-between py-2 px-3 flex-shrink-0">
+        <CardTitle 
+          className="text-sm font-medium truncate cursor-pointer hover:text-primary transition-colors"
+          onClick={() => !isResizeMode && navigate('/tasks')}
+        >
+          My Tasks
+        </CardTitle>
+        <Button variant="outline" size="sm" className="h-6 text-xs gap-1 flex-shrink-0" onClick={() => !isResizeMode && actions.openTask(null)}>
+          <Plus className="w-3 h-3" /> Add Task
+        </Button>
+      </CardHeader>
+      <CardContent className="px-3 pb-3 pt-0 flex-1 min-h-0 flex flex-col">
+        <div className="grid grid-cols-2 gap-1.5 flex-1 min-h-0">
+          <div 
+            className="text-center p-1.5 bg-blue-50 dark:bg-blue-950/20 rounded cursor-pointer hover:bg-blue-100 dark:hover:bg-blue-950/40 transition-colors flex flex-col items-center justify-center min-h-0"
+            onClick={(e) => { e.stopPropagation(); navigate('/tasks?status=open&owner=me'); }}
+          >
+            <p className="text-base font-bold text-blue-600 leading-tight">{taskReminders?.byStatus?.open || 0}</p>
+            <p className="text-[9px] text-muted-foreground leading-tight">Open</p>
+          </div>
+          <div 
+            className="text-center p-1.5 bg-yellow-50 dark:bg-yellow-950/20 rounded cursor-pointer hover:bg-yellow-100 dark:hover:bg-yellow-950/40 transition-colors flex flex-col items-center justify-center min-h-0"
+            onClick={(e) => { e.stopPropagation(); navigate('/tasks?status=in_progress&owner=me'); }}
+          >
+            <p className="text-base font-bold text-yellow-600 leading-tight">{taskReminders?.byStatus?.inProgress || 0}</p>
+            <p className="text-[9px] text-muted-foreground leading-tight">In Progress</p>
+          </div>
+          <div 
+            className="text-center p-1.5 bg-green-50 dark:bg-green-950/20 rounded cursor-pointer hover:bg-green-100 dark:hover:bg-green-950/40 transition-colors flex flex-col items-center justify-center min-h-0"
+            onClick={(e) => { e.stopPropagation(); navigate('/tasks?status=completed&owner=me'); }}
+          >
+            <p className="text-base font-bold text-green-600 leading-tight">{taskReminders?.byStatus?.completed || 0}</p>
+            <p className="text-[9px] text-muted-foreground leading-tight">Completed</p>
+          </div>
+          <div 
+            className="text-center p-1.5 bg-red-50 dark:bg-red-950/20 rounded cursor-pointer hover:bg-red-100 dark:hover:bg-red-950/40 transition-colors flex flex-col items-center justify-center min-h-0"
+            onClick={(e) => { e.stopPropagation(); navigate('/tasks?status=cancelled&owner=me'); }}
+          >
+            <p className="text-base font-bold text-red-600 leading-tight">{taskReminders?.byStatus?.cancelled || 0}</p>
+            <p className="text-[9px] text-muted-foreground leading-tight">Cancelled</p>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,227 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { useNavigate } from "react-router-dom";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { Calendar, CalendarClock, Check, ListTodo, Plus } from "lucide-react";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { EmptyState } from "@/components/shared/EmptyState";
+import { Task } from "@/types/task";
+import { DashboardWidgetProps } from "./types";
+
+/**
+ * Overdue tasks, today's meetings and tasks due today, with quick completion
+ */
+export const TodaysAgendaWidget = ({ isResizeMode, actions }: DashboardWidgetProps) => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+
+  // Today's meetings for agenda
+  const { data: todaysMeetings } = useQuery({
+    queryKey: ['user-todays-meetings', user?.id],
+    queryFn: async () => {
+      const todayStart = new Date();
+      todayStart.setHours(0, 0, 0, 0);
+      const todayEnd = new Date();
+      todayEnd.setHours(23, 59, 59, 999);
+      const { data, error } = await supabase
+        .from('meetings')
+        .select('id, subject, start_time, end_time, status')
+        .eq('created_by', user?.id)
+        .gte('start_time', todayStart.toISOString())
+        .lte('start_time', todayEnd.toISOString())
+        .order('start_time', { ascending: true });
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: !!user?.id
+  });
+
+  // Today's tasks for agenda
+  const { data: todaysTasks } = useQuery({
+    queryKey: ['user-todays-tasks', user?.id],
+    queryFn: async () => {
+      const today = format(new Date(), 'yyyy-MM-dd');
+      const { data, error } = await supabase
+        .from('tasks')
+        .select('id, title, due_date, priority, status')
+        .or(`assigned_to.eq.${user?.id},created_by.eq.${user?.id}`)
+        .in('status', ['open', 'in_progress'])
+        .eq('due_date', today)
+        .order('priority', { ascending: true });
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: !!user?.id
+  });
+
+  // Overdue tasks for agenda
+  const { data: overdueTasks } = useQuery({
+    queryKey: ['user-overdue-tasks', user?.id],
+    queryFn: async () => {
+      const today = format(new Date(), 'yyyy-MM-dd');
+      const { data, error } = await supabase
+        .from('tasks')
+        .select('id, title, due_date, priority, status')
+        .or(`assigned_to.eq.${user?.id},created_by.eq.${user?.id}`)
+        .in('status', ['open', 'in_progress'])
+        .lt('due_date', today)
+        .order('due_date', { ascending: true })
+        .limit(5);
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: !!user?.id
+  });
+
+  const totalAgendaItems = (todaysMeetings?.length || 0) + (todaysTasks?.length || 0) + (overdueTasks?.length || 0);
+  const handleQuickCompleteTask = async (taskId: string, e: React.MouseEvent) => {
+    e.stopPropagation();
+    try {
+      await supabase.from('tasks').update({ status: 'completed', completed_at: new Date().toISOString() }).eq('id', taskId);
+      queryClient.invalidateQueries({ queryKey: ['user-todays-tasks', user?.id] });
+      queryClient.invalidateQueries({ queryKey: ['user-overdue-tasks', user?.id] });
+      queryClient.invalidateQueries({ queryKey: ['user-task-reminders-enhanced', user?.id] });
+      toast.success("Task completed");
+    } catch (error) {
+      toast.error("Failed to complete task");
+    }
+  };
+  return (
+    <Card className="h-full animate-fade-in overflow-hidden flex flex-col">
+      <CardHeader className="flex flex-row items-center justify-between py-2 px-3 flex-shrink-0">
+        <CardTitle className="flex items-center gap-1.5 text-sm font-medium truncate">
+          <CalendarClock className="w-4 h-4 text-primary flex-shrink-0" />
+          Today's Agenda
+        </CardTitle>
+        <div className="flex items-center gap-2 flex-shrink-0">
+          <span className="text-[9px] text-muted-foreground">{format(new Date(), 'EEE, MMM d')}</span>
+          <TooltipProvider>
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Button variant="ghost" size="sm" className="h-5 w-5 p-0" onClick={() => !isResizeMode && navigate('/tasks')}>
+                  <ListTodo className="w-3 h-3" />
+                </Button>
+              </TooltipTrigger>
+              <TooltipContent>View all tasks</TooltipContent>
+            </Tooltip>
+          </TooltipProvider>
+        </div>
+      </CardHeader>
+      <CardContent className="px-3 pb-3 pt-0 flex-1 min-h-0 flex flex-col">
+        {totalAgendaItems > 0 ? (
+          <ScrollArea className="flex-1 min-h-0">
+            <div className="space-y-1.5 pr-2">
+              {(overdueTasks?.length || 0) > 0 && (
+                <div>
+                  <p 
+                    className="text-[9px] font-medium text-red-600 mb-0.5 cursor-pointer hover:underline"
+                    onClick={() => !isResizeMode && navigate('/tasks?filter=overdue')}
+                  >
+                    ⚠️ Overdue ({overdueTasks?.length})
+                  </p>
+                  {overdueTasks?.slice(0, 3).map((task) => (
+                    <div 
+                      key={task.id} 
+                      className="text-[9px] p-1.5 rounded bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300 mb-1 flex items-center gap-1 group cursor-pointer hover:bg-red-100 dark:hover:bg-red-900/30 transition-colors"
+                      onClick={() => !isResizeMode && actions.openTask(task as Task)}
+                    >
+                      <TooltipProvider>
+                        <Tooltip>
+                          <TooltipTrigger asChild>
+                            <button 
+                              className="w-3.5 h-3.5 rounded border border-red-300 dark:border-red-600 hover:bg-green-500 hover:border-green-500 flex items-center justify-center flex-shrink-0 transition-colors"
+                              onClick={(e) => handleQuickCompleteTask(task.id, e)}
+                            >
+                              <Check className="w-2 h-2 opacity-0 group-hover:opacity-100 text-white" />
+                            </button>
+                          </TooltipTrigger>
+                          <TooltipContent>Mark complete</TooltipContent>
+                        </Tooltip>
+                      </TooltipProvider>
+                      <span className="truncate flex-1">{task.title}</span>
+                      <span className="text-[8px] text-red-500 flex-shrink-0">{format(new Date(task.due_date), 'MMM d')}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+              {(todaysMeetings?.length || 0) > 0 && (
+                <div>
+                  <p 
+                    className="text-[9px] font-medium text-muted-foreground mb-0.5 cursor-pointer hover:underline"
+                    onClick={() => !isResizeMode && navigate('/meetings')}
+                  >
+                    <Calendar className="w-2.5 h-2.5 inline mr-0.5" />
+                    Meetings ({todaysMeetings?.length})
+                  </p>
+                  {todaysMeetings?.slice(0, 3).map((meeting) => (
+                    <div 
+                      key={meeting.id} 
+                      className="text-[9px] p-1.5 rounded bg-blue-50 dark:bg-blue-900/20 flex items-center gap-1 mb-1 cursor-pointer hover:bg-blue-100 dark:hover:bg-blue-900/30 transition-colors"
+                      onClick={() => !isResizeMode && actions.openMeeting(meeting)}
+                    >
+                      <Calendar className="w-2.5 h-2.5 text-blue-600 flex-shrink-0" />
+                      <span className="truncate flex-1 min-w-0 text-blue-700 dark:text-blue-300">{meeting.subject}</span>
+                      <span className="text-blue-600 font-medium flex-shrink-0">{format(new Date(meeting.start_time), 'HH:mm')}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+              {(todaysTasks?.length || 0) > 0 && (
+                <div>
+                  <p 
+                    className="text-[9px] font-medium text-muted-foreground mb-0.5 cursor-pointer hover:underline"
+                    onClick={() => !isResizeMode && navigate('/tasks?dueDate=today')}
+                  >
+                    <ListTodo className="w-2.5 h-2.5 inline mr-0.5" />
+                    Tasks Due ({todaysTasks?.length})
+                  </p>
+                  {todaysTasks?.slice(0, 3).map((task) => (
+                    <div 
+                      key={task.id} 
+                      className="text-[9px] p-1.5 rounded bg-orange-50 dark:bg-orange-900/20 flex items-center gap-1 mb-1 group cursor-pointer hover:bg-orange-100 dark:hover:bg-orange-900/30 transition-colors"
+                      onClick={() => !isResizeMode && actions.openTask(task as Task)}
+                    >
+                      <TooltipProvider>
+                        <Tooltip>
+                          <TooltipTrigger asChild>
+                            <button 
+                              className="w-3.5 h-3.5 rounded border border-orange-300 dark:border-orange-600 hover:bg-green-500 hover:border-green-500 flex items-center justify-center flex-shrink-0 transition-colors"
+                              onClick={(e) => handleQuickCompleteTask(task.id, e)}
+                            >
+                              <Check className="w-2 h-2 opacity-0 group-hover:opacity-100 text-white" />
+                            </button>
+                          </TooltipTrigger>
+                          <TooltipContent>Mark complete</TooltipContent>
+                        </Tooltip>
+                      </TooltipProvider>
+                      <span className="truncate flex-1 text-orange-700 dark:text-orange-300">{task.title}</span>
+                      {task.priority === 'high' && <span className="text-[8px] px-1 py-0.5 rounded bg-red-200 dark:bg-red-800 text-red-700 dark:text-red-200 flex-shrink-0">High</span>}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </ScrollArea>
+        ) : (
+          <div className="flex-1 min-h-0 flex flex-col items-center justify-center gap-2">
+            <EmptyState
+              title="Clear day ahead"
+              description="No meetings or tasks scheduled for today"
+              illustration="calendar"
+              variant="compact"
+            />
+            <Button variant="outline" size="sm" className="text-[10px] h-6" onClick={() => !isResizeMode && actions.openTask(null)}>
+              <Plus className="w-3 h-3 mr-1" /> Add Task
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
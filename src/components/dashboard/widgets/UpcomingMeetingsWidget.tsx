@@ -0,0 +1,104 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { useNavigate } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { Plus } from "lucide-react";
+import { isToday } from "date-fns";
+import { getMeetingStatus } from "@/utils/meetingStatus";
+import { WidgetLoadingSkeleton } from "./WidgetLoadingSkeleton";
+import { DashboardWidgetProps, WIDGET_QUERY_OPTIONS } from "./types";
+
+/**
+ * Meeting counts by status for meetings the current user organised
+ */
+export const UpcomingMeetingsWidget = ({ isResizeMode, actions }: DashboardWidgetProps) => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+
+  // Upcoming meetings - enhanced with status counts using getMeetingStatus for consistency
+  const { data: upcomingMeetings, isLoading: meetingsLoading } = useQuery({
+    queryKey: ['user-upcoming-meetings-enhanced', user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('meetings')
+        .select('id, subject, start_time, end_time, status, attendees')
+        .eq('created_by', user?.id);
+      if (error) throw error;
+      const meetings = data || [];
+      const now = new Date();
+      
+      // Use getMeetingStatus for consistent status calculation (same as Meetings page)
+      const byStatus = {
+        scheduled: meetings.filter(m => getMeetingStatus(m, now) === 'scheduled').length,
+        ongoing: meetings.filter(m => getMeetingStatus(m, now) === 'ongoing').length,
+        completed: meetings.filter(m => getMeetingStatus(m, now) === 'completed').length,
+        cancelled: meetings.filter(m => getMeetingStatus(m, now) === 'cancelled').length,
+      };
+      
+      // For upcoming meetings list, only show those that are scheduled or ongoing
+      const upcoming = meetings
+        .filter(m => ['scheduled', 'ongoing'].includes(getMeetingStatus(m, now)))
+        .sort((a, b) => new Date(a.start_time).getTime() - new Date(b.start_time).getTime())
+        .slice(0, 5)
+        .map(m => ({
+          ...m,
+          isToday: isToday(new Date(m.start_time)),
+          attendeeCount: Array.isArray(m.attendees) ? m.attendees.length : 0
+        }));
+      return { meetings: upcoming, total: meetings.length, byStatus };
+    },
+    enabled: !!user?.id,
+    ...WIDGET_QUERY_OPTIONS,
+  });
+
+  if (meetingsLoading) return <WidgetLoadingSkeleton showHeader rows={4} />;
+  return (
+    <Card className="h-full hover:shadow-lg transition-shadow animate-fade-in overflow-hidden flex flex-col" aria-label="My Meetings widget">
+      <CardHeader className="flex flex-row items-center justify-between py-2 px-3 flex-shrink-0">
+        <CardTitle 
+          className="text-sm font-medium truncate cursor-pointer hover:text-primary transition-colors"
+          onClick={() => !isResizeMode && navigate('/meetings')}
+        >
+          My Meetings
+        </CardTitle>
+        <Button variant="outline" size="sm" className="h-6 text-xs gap-1 flex-shrink-0" onClick={() => !isResizeMode && actions.createMeeting()}>
+          <Plus className="w-3 h-3" /> Add Meeting
+        </Button>
+      </CardHeader>
+      <CardContent className="px-3 pb-3 pt-0 flex-1 min-h-0 flex flex-col">
+        <div className="grid grid-cols-2 gap-1.5 flex-1 min-h-0">
+          <div 
+            className="text-center p-1.5 bg-blue-50 dark:bg-blue-950/20 rounded cursor-pointer hover:bg-blue-100 dark:hover:bg-blue-950/40 transition-colors flex flex-col items-center justify-center min-h-0"
+            onClick={(e) => { e.stopPropagation(); navigate('/meetings?status=scheduled&owner=me'); }}
+          >
+            <p className="text-base font-bold text-blue-600 leading-tight">{upcomingMeetings?.byStatus?.scheduled || 0}</p>
+            <p className="text-[9px] text-muted-foreground leading-tight">Scheduled</p>
+          </div>
+          <div 
+            className="text-center p-1.5 bg-yellow-50 dark:bg-yellow-950/20 rounded cursor-pointer hover:bg-yellow-100 dark:hover:bg-yellow-950/40 transition-colors flex flex-col items-center justify-center min-h-0"
+            onClick={(e) => { e.stopPropagation(); navigate('/meetings?status=ongoing&owner=me'); }}
+          >
+            <p className="text-base font-bold text-yellow-600 leading-tight">{upcomingMeetings?.byStatus?.ongoing || 0}</p>
+            <p className="text-[9px] text-muted-foreground leading-tight">Ongoing</p>
+          </div>
+          <div 
+            className="text-center p-1.5 bg-green-50 dark:bg-green-950/20 rounded cursor-pointer hover:bg-green-100 dark:hover:bg-green-950/40 transition-colors flex flex-col items-center justify-center min-h-0"
+            onClick={(e) => { e.stopPropagation(); navigate('/meetings?status=completed&owner=me'); }}
+          >
+            <p className="text-base font-bold text-green-600 leading-tight">{upcomingMeetings?.byStatus?.completed || 0}</p>
+            <p className="text-[9px] text-muted-foreground leading-tight">Completed</p>
+          </div>
+          <div 
+            className="text-center p-1.5 bg-red-50 dark:bg-red-950/20 rounded cursor-pointer hover:bg-red-100 dark:hover:bg-red-950/40 transition-colors flex flex-col items-center justify-center min-h-0"
+            onClick={(e) => { e.stopPropagation(); navigate('/meetings?status=cancelled&owner=me'); }}
+          >
+            <p className="text-base font-bold text-red-600 leading-tight">{upcomingMeetings?.byStatus?.cancelled || 0}</p>
+            <p className="text-[9px] text-muted-foreground leading-tight">Cancelled</p>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
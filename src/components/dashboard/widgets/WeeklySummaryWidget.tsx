@@ -0,0 +1,246 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { useNavigate } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { Plus, TrendingDown, TrendingUp, Minus } from "lucide-react";
+import { useState } from "react";
+import { format, startOfWeek, endOfWeek } from "date-fns";
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
+import { DashboardWidgetProps } from "./types";
+
+// Static color mappings to avoid dynamic Tailwind class issues
+const COLOR_CLASSES = {
+  blue: { bg: 'bg-blue-50 dark:bg-blue-950/20', hover: 'hover:bg-blue-100 dark:hover:bg-blue-950/40', text: 'text-blue-600' },
+  green: { bg: 'bg-green-50 dark:bg-green-950/20', hover: 'hover:bg-green-100 dark:hover:bg-green-950/40', text: 'text-green-600' },
+  cyan: { bg: 'bg-cyan-50 dark:bg-cyan-950/20', hover: 'hover:bg-cyan-100 dark:hover:bg-cyan-950/40', text: 'text-cyan-600' },
+  purple: { bg: 'bg-purple-50 dark:bg-purple-950/20', hover: 'hover:bg-purple-100 dark:hover:bg-purple-950/40', text: 'text-purple-600' },
+  indigo: { bg: 'bg-indigo-50 dark:bg-indigo-950/20', hover: 'hover:bg-indigo-100 dark:hover:bg-indigo-950/40', text: 'text-indigo-600' },
+  emerald: { bg: 'bg-emerald-50 dark:bg-emerald-950/20', hover: 'hover:bg-emerald-100 dark:hover:bg-emerald-950/40', text: 'text-emerald-600' },
+  yellow: { bg: 'bg-yellow-50 dark:bg-yellow-950/20', hover: 'hover:bg-yellow-100 dark:hover:bg-yellow-950/40', text: 'text-yellow-600' },
+  red: { bg: 'bg-red-50 dark:bg-red-950/20', hover: 'hover:bg-red-100 dark:hover:bg-red-950/40', text: 'text-red-600' },
+  gray: { bg: 'bg-gray-50 dark:bg-gray-950/20', hover: 'hover:bg-gray-100 dark:hover:bg-gray-950/40', text: 'text-gray-600' },
+} as const;
+
+/**
+ * Records created and meetings/tasks completed this week (with last-week trend) or all time
+ */
+export const WeeklySummaryWidget = ({ isResizeMode, actions }: DashboardWidgetProps) => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+
+  // Weekly summary view mode state
+  const [weeklySummaryView, setWeeklySummaryView] = useState<'thisWeek' | 'allTime'>('thisWeek');
+
+  // Weekly summary with comparison data
+  const { data: weeklySummary } = useQuery({
+    queryKey: ['user-weekly-summary-enhanced', user?.id],
+    queryFn: async () => {
+      const now = new Date();
+      const weekStart = startOfWeek(now, { weekStartsOn: 1 });
+      const weekEnd = endOfWeek(now, { weekStartsOn: 1 });
+      const startStr = weekStart.toISOString();
+      const endStr = weekEnd.toISOString();
+      
+      // Last week dates
+      const lastWeekStart = new Date(weekStart);
+      lastWeekStart.setDate(lastWeekStart.getDate() - 7);
+      const lastWeekEnd = new Date(weekEnd);
+      lastWeekEnd.setDate(lastWeekEnd.getDate() - 7);
+      const lastStartStr = lastWeekStart.toISOString();
+      const lastEndStr = lastWeekEnd.toISOString();
+      
+      // Fetch this week, last week, and all time in parallel
+      const [
+        // This week
+        leadsThisWeek, contactsThisWeek, accountsThisWeek, dealsThisWeek, meetingsThisWeek, tasksThisWeek,
+        // Last week
+        leadsLastWeek, contactsLastWeek, accountsLastWeek, dealsLastWeek, meetingsLastWeek, tasksLastWeek,
+        // All time
+        leadsAllTime, contactsAllTime, accountsAllTime, dealsAllTime, meetingsAllTime, tasksAllTime
+      ] = await Promise.all([
+        // This week
+        supabase.from('leads').select('id', { count: 'exact', head: true }).eq('created_by', user?.id).gte('created_time', startStr).lte('created_time', endStr),
+        supabase.from('contacts').select('id', { count: 'exact', head: true }).eq('created_by', user?.id).gte('created_time', startStr).lte('created_time', endStr),
+        supabase.from('accounts').select('id', { count: 'exact', head: true }).eq('created_by', user?.id).gte('created_at', startStr).lte('created_at', endStr),
+        supabase.from('deals').select('id', { count: 'exact', head: true }).eq('created_by', user?.id).gte('created_at', startStr).lte('created_at', endStr),
+        supabase.from('meetings').select('id', { count: 'exact', head: true }).eq('created_by', user?.id).eq('status', 'completed').gte('start_time', startStr).lte('start_time', endStr),
+        supabase.from('tasks').select('id', { count: 'exact', head: true }).or(`assigned_to.eq.${user?.id},created_by.eq.${user?.id}`).eq('status', 'completed').gte('completed_at', startStr).lte('completed_at', endStr),
+        // Last week
+        supabase.from('leads').select('id', { count: 'exact', head: true }).eq('created_by', user?.id).gte('created_time', lastStartStr).lte('created_time', lastEndStr),
+        supabase.from('contacts').select('id', { count: 'exact', head: true }).eq('created_by', user?.id).gte('created_time', lastStartStr).lte('created_time', lastEndStr),
+        supabase.from('accounts').select('id', { count: 'exact', head: true }).eq('created_by', user?.id).gte('created_at', lastStartStr).lte('created_at', lastEndStr),
+        supabase.from('deals').select('id', { count: 'exact', head: true }).eq('created_by', user?.id).gte('created_at', lastStartStr).lte('created_at', lastEndStr),
+        supabase.from('meetings').select('id', { count: 'exact', head: true }).eq('created_by', user?.id).eq('status', 'completed').gte('start_time', lastStartStr).lte('start_time', lastEndStr),
+        supabase.from('tasks').select('id', { count: 'exact', head: true }).or(`assigned_to.eq.${user?.id},created_by.eq.${user?.id}`).eq('status', 'completed').gte('completed_at', lastStartStr).lte('completed_at', lastEndStr),
+        // All time
+        supabase.from('leads').select('id', { count: 'exact', head: true }).eq('created_by', user?.id),
+        supabase.from('contacts').select('id', { count: 'exact', head: true }).eq('created_by', user?.id),
+        supabase.from('accounts').select('id', { count: 'exact', head: true }).eq('created_by', user?.id),
+        supabase.from('deals').select('id', { count: 'exact', head: true }).eq('created_by', user?.id),
+        supabase.from('meetings').select('id', { count: 'exact', head: true }).eq('created_by', user?.id).eq('status', 'completed'),
+        supabase.from('tasks').select('id', { count: 'exact', head: true }).or(`assigned_to.eq.${user?.id},created_by.eq.${user?.id}`).eq('status', 'completed'),
+      ]);
+      
+      return {
+        thisWeek: {
+          leads: leadsThisWeek.count || 0,
+          contacts: contactsThisWeek.count || 0,
+          accounts: accountsThisWeek.count || 0,
+          deals: dealsThisWeek.count || 0,
+          meetings: meetingsThisWeek.count || 0,
+          tasks: tasksThisWeek.count || 0,
+        },
+        lastWeek: {
+          leads: leadsLastWeek.count || 0,
+          contacts: contactsLastWeek.count || 0,
+          accounts: accountsLastWeek.count || 0,
+          deals: dealsLastWeek.count || 0,
+          meetings: meetingsLastWeek.count || 0,
+          tasks: tasksLastWeek.count || 0,
+        },
+        allTime: {
+          leads: leadsAllTime.count || 0,
+          contacts: contactsAllTime.count || 0,
+          accounts: accountsAllTime.count || 0,
+          deals: dealsAllTime.count || 0,
+          meetings: meetingsAllTime.count || 0,
+          tasks: tasksAllTime.count || 0,
+        },
+        // Store as ISO strings to survive cache persistence
+        weekStartStr: weekStart.toISOString(),
+        weekEndStr: weekEnd.toISOString(),
+      };
+    },
+    enabled: !!user?.id
+  });
+
+  // Parse dates from ISO strings (cache-safe) or use fresh dates as fallback
+  const summaryWeekStart = weeklySummary?.weekStartStr ? new Date(weeklySummary.weekStartStr) : startOfWeek(new Date(), { weekStartsOn: 1 });
+  const summaryWeekEnd = weeklySummary?.weekEndStr ? new Date(weeklySummary.weekEndStr) : endOfWeek(new Date(), { weekStartsOn: 1 });
+  const currentData = weeklySummaryView === 'thisWeek' ? weeklySummary?.thisWeek : weeklySummary?.allTime;
+  const lastWeekData = weeklySummary?.lastWeek;
+  const allZeros = weeklySummaryView === 'thisWeek' && 
+    (currentData?.leads || 0) === 0 && 
+    (currentData?.contacts || 0) === 0 && 
+    (currentData?.accounts || 0) === 0 && 
+    (currentData?.deals || 0) === 0 && 
+    (currentData?.meetings || 0) === 0 && 
+    (currentData?.tasks || 0) === 0;
+
+  const getTrendIndicator = (current: number, previous: number) => {
+    if (weeklySummaryView !== 'thisWeek') return null;
+    const diff = current - previous;
+    if (diff > 0) return { icon: TrendingUp, color: 'text-green-500', diff: `+${diff}` };
+    if (diff < 0) return { icon: TrendingDown, color: 'text-red-500', diff: `${diff}` };
+    return { icon: Minus, color: 'text-muted-foreground', diff: '0' };
+  };
+
+  // Build navigation URLs with date filters for "this week" view
+  const buildNavUrl = (basePath: string) => {
+    if (weeklySummaryView === 'thisWeek') {
+      const fromStr = summaryWeekStart.toISOString();
+      const toStr = summaryWeekEnd.toISOString();
+      return `${basePath}?from=${encodeURIComponent(fromStr)}&to=${encodeURIComponent(toStr)}&status=all`;
+    }
+    return `${basePath}?status=all`;
+  };
+
+  const summaryItems = [
+    { key: 'leads', label: 'Leads', color: 'blue', value: currentData?.leads || 0, lastWeek: lastWeekData?.leads || 0, nav: buildNavUrl('/leads'), tooltip: weeklySummaryView === 'thisWeek' ? 'New leads created this week' : 'Total leads (all time)', action: () => actions.createLead() },
+    { key: 'contacts', label: 'Contacts', color: 'green', value: currentData?.contacts || 0, lastWeek: lastWeekData?.contacts || 0, nav: buildNavUrl('/contacts'), tooltip: weeklySummaryView === 'thisWeek' ? 'New contacts added this week' : 'Total contacts (all time)', action: () => actions.createContact() },
+    { key: 'accounts', label: 'Accounts', color: 'cyan', value: currentData?.accounts || 0, lastWeek: lastWeekData?.accounts || 0, nav: buildNavUrl('/accounts'), tooltip: weeklySummaryView === 'thisWeek' ? 'New accounts created this week' : 'Total accounts (all time)', action: () => actions.createAccount() },
+    { key: 'deals', label: 'Deals', color: 'purple', value: currentData?.deals || 0, lastWeek: lastWeekData?.deals || 0, nav: buildNavUrl('/deals'), tooltip: weeklySummaryView === 'thisWeek' ? 'New deals created this week' : 'Total deals (all time)', action: () => navigate('/deals') },
+    { key: 'meetings', label: 'Meetings', color: 'indigo', value: currentData?.meetings || 0, lastWeek: lastWeekData?.meetings || 0, nav: buildNavUrl('/meetings'), tooltip: weeklySummaryView === 'thisWeek' ? 'Meetings completed this week' : 'Meetings completed (all time)', action: () => actions.createMeeting() },
+    { key: 'tasks', label: 'Tasks', color: 'emerald', value: currentData?.tasks || 0, lastWeek: lastWeekData?.tasks || 0, nav: buildNavUrl('/tasks'), tooltip: weeklySummaryView === 'thisWeek' ? 'Tasks completed this week' : 'Tasks completed (all time)', action: () => actions.openTask(null) },
+  ];
+
+  return (
+    <Card className="h-full animate-fade-in overflow-hidden flex flex-col">
+      <CardHeader className="flex flex-row items-center justify-between py-2 px-3 flex-shrink-0">
+        <CardTitle className="flex items-center gap-1.5 text-sm font-medium truncate">
+          {weeklySummaryView === 'thisWeek' ? 'Activity This Week' : 'Activity All Time'}
+        </CardTitle>
+        <div className="flex items-center gap-1.5 flex-shrink-0">
+          {weeklySummaryView === 'thisWeek' && (
+            <span className="text-[8px] text-muted-foreground">{format(summaryWeekStart, 'MMM d')} - {format(summaryWeekEnd, 'MMM d')}</span>
+          )}
+          <div className="flex rounded-md overflow-hidden border border-border text-[8px]">
+            <button
+              className={`px-1.5 py-0.5 transition-colors ${weeklySummaryView === 'thisWeek' ? 'bg-primary text-primary-foreground' : 'hover:bg-muted'}`}
+              onClick={() => setWeeklySummaryView('thisWeek')}
+            >
+              Week
+            </button>
+            <button
+              className={`px-1.5 py-0.5 transition-colors ${weeklySummaryView === 'allTime' ? 'bg-primary text-primary-foreground' : 'hover:bg-muted'}`}
+              onClick={() => setWeeklySummaryView('allTime')}
+            >
+              All
+            </button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="px-3 pb-3 pt-0 flex-1 min-h-0 flex flex-col justify-center">
+        {allZeros ? (
+          <div className="flex flex-col items-center justify-center gap-2">
+            <p className="text-[10px] text-muted-foreground text-center">No activity yet this week</p>
+            <div className="flex flex-wrap justify-center gap-1">
+              <Button variant="outline" size="sm" className="h-5 text-[9px] px-2 gap-0.5" onClick={() => !isResizeMode && actions.createLead()}>
+                <Plus className="w-2.5 h-2.5" /> Lead
+              </Button>
+              <Button variant="outline" size="sm" className="h-5 text-[9px] px-2 gap-0.5" onClick={() => !isResizeMode && actions.createContact()}>
+                <Plus className="w-2.5 h-2.5" /> Contact
+              </Button>
+              <Button variant="outline" size="sm" className="h-5 text-[9px] px-2 gap-0.5" onClick={() => !isResizeMode && actions.createAccount()}>
+                <Plus className="w-2.5 h-2.5" /> Account
+              </Button>
+              <Button variant="outline" size="sm" className="h-5 text-[9px] px-2 gap-0.5" onClick={() => !isResizeMode && actions.createMeeting()}>
+                <Plus className="w-2.5 h-2.5" /> Meeting
+              </Button>
+              <Button variant="outline" size="sm" className="h-5 text-[9px] px-2 gap-0.5" onClick={() => !isResizeMode && actions.openTask(null)}>
+                <Plus className="w-2.5 h-2.5" /> Task
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="grid grid-cols-6 gap-1 text-center">
+            {summaryItems.map((item) => {
+              const trend = getTrendIndicator(item.value, item.lastWeek);
+              const TrendIcon = trend?.icon;
+              const colorClasses = COLOR_CLASSES[item.color as keyof typeof COLOR_CLASSES] || COLOR_CLASSES.blue;
+              return (
+                <TooltipProvider key={item.key} delayDuration={100}>
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <div 
+                        className={`p-1.5 rounded ${colorClasses.bg} flex flex-col items-center justify-center cursor-pointer ${colorClasses.hover} transition-colors relative`}
+                        onClick={() => !isResizeMode && navigate(item.nav)}
+                        aria-label={`${item.label}: ${item.value}`}
+                      >
+                        <p className={`text-sm font-bold ${colorClasses.text} leading-tight`}>{item.value}</p>
+                        <p className="text-[10px] text-muted-foreground leading-tight">{item.label}</p>
+                        {TrendIcon && weeklySummaryView === 'thisWeek' && (
+                          <div className={`absolute -top-0.5 -right-0.5 flex items-center ${trend.color}`}>
+                            <TrendIcon className="w-2.5 h-2.5" />
+                          </div>
+                        )}
+                      </div>
+                    </TooltipTrigger>
+                    <TooltipContent side="top" sideOffset={8} className="z-[100]">
+                      <p className="whitespace-nowrap">{item.tooltip}</p>
+                      {weeklySummaryView === 'thisWeek' && (
+                        <p className="text-[10px] text-muted-foreground">vs last week: {trend?.diff}</p>
+                      )}
+                    </TooltipContent>
+                  </Tooltip>
+                </TooltipProvider>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,77 @@
+import {
+  FileText, Users, Briefcase, Zap, Calendar, Activity, Bell,
+  Mail, Building2, ListTodo, CalendarClock, ClipboardList, AlertCircle, BarChart3
+} from "lucide-react";
+import { CustomChartConfig, DEFAULT_CUSTOM_CHART_CONFIG } from "@/types/customChart";
+import { WidgetDefinition, WidgetKey } from "./types";
+import { LeadsWidget } from "./LeadsWidget";
+import { ContactsWidget } from "./ContactsWidget";
+import { DealsWidget } from "./DealsWidget";
+import { AccountsSummaryWidget } from "./AccountsSummaryWidget";
+import { QuickActionsWidget } from "./QuickActionsWidget";
+import { TodaysAgendaWidget } from "./TodaysAgendaWidget";
+import { UpcomingMeetingsWidget } from "./UpcomingMeetingsWidget";
+import { TaskRemindersWidget } from "./TaskRemindersWidget";
+import { RecentActivitiesWidget } from "./RecentActivitiesWidget";
+import { EmailStatsWidget } from "./EmailStatsWidget";
+import { WeeklySummaryWidget } from "./WeeklySummaryWidget";
+import { FollowUpsDueWidget } from "./FollowUpsDueWidget";
+import { OverdueDealActionsWidget } from "./OverdueDealActionsWidget";
+import { CustomChartWidget } from "./CustomChartWidget";
+import { CustomChartSettings } from "./CustomChartSettings";
+
+// Erases the config type so definitions with different configs share one list
+const defineWidget = <C,>(definition: WidgetDefinition<C>) => definition as unknown as WidgetDefinition;
+
+// Fixed widgets, one instance each; the array order is the default widget order
+export const BUILT_IN_WIDGETS: WidgetDefinition[] = [
+  // Row 1: Core stat widgets (4x3 each = 12 total)
+  defineWidget({ type: "leads", label: "My Leads", icon: <FileText className="w-4 h-4" />, defaultVisible: true, defaultLayout: { x: 0, y: 0, w: 3, h: 2 }, component: LeadsWidget }),
+  defineWidget({ type: "contacts", label: "My Contacts", icon: <Users className="w-4 h-4" />, defaultVisible: true, defaultLayout: { x: 3, y: 0, w: 3, h: 2 }, component: ContactsWidget }),
+  defineWidget({ type: "deals", label: "My Deals", icon: <Briefcase className="w-4 h-4" />, defaultVisible: true, defaultLayout: { x: 6, y: 0, w: 3, h: 2 }, component: DealsWidget }),
+  defineWidget({ type: "accountsSummary", label: "Accounts Summary", icon: <Building2 className="w-4 h-4" />, defaultVisible: true, defaultLayout: { x: 9, y: 0, w: 3, h: 2 }, component: AccountsSummaryWidget }),
+
+  // Row 2: Quick Actions
+  defineWidget({ type: "quickActions", label: "Quick Actions", icon: <Zap className="w-4 h-4" />, defaultVisible: true, defaultLayout: { x: 0, y: 2, w: 6, h: 2 }, component: QuickActionsWidget }),
+
+  // Row 3: Today's Agenda + Upcoming Meetings + Task Reminders
+  defineWidget({ type: "todaysAgenda", label: "Today's Agenda", icon: <CalendarClock className="w-4 h-4" />, defaultVisible: true, defaultLayout: { x: 0, y: 4, w: 4, h: 3 }, component: TodaysAgendaWidget }),
+  defineWidget({ type: "upcomingMeetings", label: "Upcoming Meetings", icon: <Calendar className="w-4 h-4" />, defaultVisible: true, defaultLayout: { x: 4, y: 4, w: 4, h: 3 }, component: UpcomingMeetingsWidget }),
+  defineWidget({ type: "taskReminders", label: "Task Reminders", icon: <Bell className="w-4 h-4" />, defaultVisible: true, defaultLayout: { x: 8, y: 4, w: 4, h: 3 }, component: TaskRemindersWidget }),
+
+  // Row 4: Recent Activities + Email Stats
+  defineWidget({ type: "recentActivities", label: "Recent Activities", icon: <Activity className="w-4 h-4" />, defaultVisible: true, defaultLayout: { x: 0, y: 7, w: 6, h: 3 }, component: RecentActivitiesWidget }),
+  defineWidget({ type: "emailStats", label: "Email Statistics", icon: <Mail className="w-4 h-4" />, defaultVisible: true, defaultLayout: { x: 6, y: 7, w: 6, h: 3 }, component: EmailStatsWidget }),
+
+  // Row 5: Weekly Summary + Follow-Ups Due
+  defineWidget({ type: "weeklySummary", label: "Weekly Summary", icon: <ListTodo className="w-4 h-4" />, defaultVisible: true, defaultLayout: { x: 0, y: 10, w: 6, h: 2 }, component: WeeklySummaryWidget }),
+  defineWidget({ type: "followUpsDue", label: "Follow-Ups Due", icon: <ClipboardList className="w-4 h-4" />, defaultVisible: true, defaultLayout: { x: 6, y: 10, w: 6, h: 2 }, component: FollowUpsDueWidget }),
+
+  // Row 6: Deal action items assigned to me that are past due
+  defineWidget({ type: "overdueDealActions", label: "Overdue Deal Actions", icon: <AlertCircle className="w-4 h-4" />, defaultVisible: true, defaultLayout: { x: 0, y: 12, w: 6, h: 2 }, component: OverdueDealActionsWidget }),
+];
+
+// Widgets the user adds as many times as they like, each with its own settings
+export const CONFIGURABLE_WIDGETS: WidgetDefinition[] = [
+  defineWidget<CustomChartConfig>({
+    type: "custom",
+    label: "Custom Chart",
+    icon: <BarChart3 className="w-4 h-4" />,
+    defaultVisible: false,
+    defaultLayout: { x: 0, y: 0, w: 4, h: 3 },
+    component: CustomChartWidget,
+    settings: CustomChartSettings,
+    defaultConfig: DEFAULT_CUSTOM_CHART_CONFIG,
+  }),
+];
+
+export const getWidgetDefinition = (key: WidgetKey): WidgetDefinition | undefined => {
+  const separator = key.indexOf(":");
+  if (separator === -1) return BUILT_IN_WIDGETS.find((w) => w.type === key);
+  const type = key.slice(0, separator);
+  return CONFIGURABLE_WIDGETS.find((w) => w.type === type);
+};
+
+export const isConfigurableWidgetKey = (key: WidgetKey) => !!getWidgetDefinition(key)?.settings;
+
+export const createWidgetKey = (type: string) => `${type}:${crypto.randomUUID()}` as WidgetKey;
@@ -0,0 +1,64 @@
+import { ComponentType, ReactNode } from "react";
+import { Task } from "@/types/task";
+
+export type BuiltInWidgetKey =
+  | "leads" | "contacts" | "deals" | "quickActions"
+  | "upcomingMeetings" | "recentActivities" | "taskReminders" | "emailStats"
+  | "accountsSummary" | "weeklySummary" | "followUpsDue" | "todaysAgenda"
+  | "overdueDealActions";
+
+// Configurable widgets can be added more than once, so each instance gets its own key
+export type WidgetKey = BuiltInWidgetKey | `custom:${string}`;
+
+export type WidgetConfig = Record<string, unknown>;
+
+export interface WidgetLayout {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+  // Per-instance settings of configurable widgets, persisted with the layout
+  config?: WidgetConfig;
+}
+
+export interface WidgetLayoutConfig {
+  [key: string]: WidgetLayout;
+}
+
+// Dashboard-level modals that widgets can open
+export interface DashboardWidgetActions {
+  createLead: () => void;
+  createContact: () => void;
+  createAccount: () => void;
+  createMeeting: () => void;
+  openTask: (task: Task | null) => void;
+  openMeeting: (meeting: unknown) => void;
+}
+
+export interface DashboardWidgetProps<C = WidgetConfig> {
+  widgetKey: WidgetKey;
+  isResizeMode: boolean;
+  actions: DashboardWidgetActions;
+  config?: C;
+}
+
+export interface WidgetSettingsProps<C = WidgetConfig> {
+  config: C;
+  onChange: (config: C) => void;
+}
+
+export interface WidgetDefinition<C = WidgetConfig> {
+  type: string;
+  label: string;
+  icon: ReactNode;
+  defaultVisible: boolean;
+  defaultLayout: WidgetLayout;
+  component: ComponentType<DashboardWidgetProps<C>>;
+  // Only configurable widgets have settings; they are keyed "<type>:<id>"
+  settings?: ComponentType<WidgetSettingsProps<C>>;
+  defaultConfig?: C;
+}
+
+export const WIDGET_QUERY_OPTIONS = {
+  staleTime: 30000, // 30 seconds
+};
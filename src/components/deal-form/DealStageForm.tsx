@@ -6,6 +6,7 @@ import { QualifiedStageForm } from "./QualifiedStageForm";
 import { RFQStageForm } from "./RFQStageForm";
 import { OfferedStageForm } from "./OfferedStageForm";
 import { FinalStageForm } from "./FinalStageForm";
+import { usePipelineStages } from "@/hooks/usePipelineStages";
 
 interface DealStageFormProps {
   formData: Partial<Deal>;
@@ -24,13 +25,10 @@ export const DealStageForm = ({
   stage, 
   showPreviousStages 
 }: DealStageFormProps) => {
-  const getStageIndex = (stage: DealStage): number => {
-    const stages = ['Lead', 'Discussions', 'Qualified', 'RFQ', 'Offered', 'Won', 'Lost', 'Dropped'];
-    return stages.indexOf(stage);
-  };
+  const { stages, openStageNames, isClosedStage } = usePipelineStages();
 
-  const currentStageIndex = getStageIndex(stage);
-  const isFinalStage = ['Won', 'Lost', 'Dropped'].includes(stage);
+  const currentStageIndex = openStageNames.indexOf(stage);
+  const isFinalStage = isClosedStage(stage);
 
   const renderStageComponent = (stageToRender: DealStage) => {
     switch (stageToRender) {
@@ -75,35 +73,34 @@ export const DealStageForm = ({
             fieldErrors={fieldErrors}
           />
         );
-      case 'Won':
-      case 'Lost':
-      case 'Dropped':
-        return (
+      default:
+        return isClosedStage(stageToRender) ? (
           <FinalStageForm
             formData={formData}
             onFieldChange={onFieldChange}
             fieldErrors={fieldErrors}
             stage={stageToRender}
+            pipeline={stages}
           />
-        );
-      default:
-        return null;
+        ) : null;
     }
   };
 
-  if (showPreviousStages) {
+  // Custom stages have no section of their own, so they show everything collected so far
+  const hasOwnSection = isFinalStage || renderStageComponent(stage) !== null;
+
+  if (showPreviousStages || !hasOwnSection) {
     // Show all stages up to current stage
     const stagesToShow: DealStage[] = [];
-    const allStages: DealStage[] = ['Lead', 'Discussions', 'Qualified', 'RFQ', 'Offered'];
     
     if (isFinalStage) {
       // For final stages, show all previous stages plus the final stage
-      stagesToShow.push(...allStages);
+      stagesToShow.push(...openStageNames);
       stagesToShow.push(stage);
     } else {
       // For regular stages, show all stages up to current
-      for (let i = 0; i <= currentStageIndex && i < allStages.length; i++) {
-        stagesToShow.push(allStages[i]);
+      for (let i = 0; i <= currentStageIndex; i++) {
+        stagesToShow.push(openStageNames[i]);
       }
     }
 
@@ -1,6 +1,6 @@
 
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { Deal, DealStage } from "@/types/deal";
+import { Deal, DealStage, PipelineStage, DEFAULT_PIPELINE_STAGES, getFinalStageFields, isWonStage } from "@/types/deal";
 import { FormFieldRenderer } from "./FormFieldRenderer";
 import { useEffect } from "react";
 
@@ -9,12 +9,15 @@ interface FinalStageFormProps {
   onFieldChange: (field: string, value: any) => void;
   fieldErrors: Record<string, string>;
   stage: DealStage;
+  pipeline?: PipelineStage[];
 }
 
-export const FinalStageForm = ({ formData, onFieldChange, fieldErrors, stage }: FinalStageFormProps) => {
-  // Auto-calculate total_revenue when quarterly revenues change (Won stage only)
+export const FinalStageForm = ({ formData, onFieldChange, fieldErrors, stage, pipeline = DEFAULT_PIPELINE_STAGES }: FinalStageFormProps) => {
+  const isWon = isWonStage(stage, pipeline);
+
+  // Auto-calculate total_revenue when quarterly revenues change (won stages only)
   useEffect(() => {
-    if (stage === 'Won') {
+    if (isWon) {
       const q1 = Number(formData.quarterly_revenue_q1) || 0;
       const q2 = Number(formData.quarterly_revenue_q2) || 0;
       const q3 = Number(formData.quarterly_revenue_q3) || 0;
@@ -27,22 +30,9 @@ export const FinalStageForm = ({ formData, onFieldChange, fieldErrors, stage }:
         onFieldChange('total_revenue', totalRevenue);
       }
     }
-  }, [formData.quarterly_revenue_q1, formData.quarterly_revenue_q2, formData.quarterly_revenue_q3, formData.quarterly_revenue_q4, formData.total_revenue, onFieldChange, stage]);
-
-  const getFieldsForStage = (stage: DealStage) => {
-    switch (stage) {
-      case 'Won':
-        return ['won_reason', 'quarterly_revenue_q1', 'quarterly_revenue_q2', 'quarterly_revenue_q3', 'quarterly_revenue_q4', 'total_revenue', 'signed_contract_date', 'implementation_start_date', 'handoff_status'];
-      case 'Lost':
-        return ['lost_reason', 'need_improvement'];
-      case 'Dropped':
-        return ['drop_reason'];
-      default:
-        return [];
-    }
-  };
+  }, [formData.quarterly_revenue_q1, formData.quarterly_revenue_q2, formData.quarterly_revenue_q3, formData.quarterly_revenue_q4, formData.total_revenue, onFieldChange, isWon]);
 
-  const fields = getFieldsForStage(stage);
+  const fields = getFinalStageFields(stage, pipeline);
 
   const fullWidthFields = ['won_reason', 'lost_reason', 'need_improvement', 'drop_reason'];
 
@@ -3,12 +3,16 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Calendar } from "@/components/ui/calendar";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { CalendarIcon } from "lucide-react";
 import { format } from "date-fns";
 import { cn } from "@/lib/utils";
-import { Deal } from "@/types/deal";
+import { Deal, DEAL_FIELD_LABELS } from "@/types/deal";
+import { CustomField } from "@/types/customField";
+import { FORECAST_CATEGORIES, FORECAST_CATEGORY_LABELS } from "@/types/forecast";
 import { LeadSearchableDropdown } from "@/components/LeadSearchableDropdown";
 import { supabase } from "@/integrations/supabase/client";
 import { useQuery } from "@tanstack/react-query";
@@ -19,59 +23,15 @@ interface FormFieldRendererProps {
   onChange: (field: string, value: any) => void;
   onLeadSelect?: (lead: any) => void;
   error?: string;
+  // Admin-defined field; rendered from its definition instead of the built-in field map
+  customField?: CustomField;
 }
 
-export const FormFieldRenderer = ({ field, value, onChange, onLeadSelect, error }: FormFieldRendererProps) => {
+export const FormFieldRenderer = ({ field, value, onChange, onLeadSelect, error, customField }: FormFieldRendererProps) => {
 
   const getFieldLabel = (field: string) => {
-    const labels: Record<string, string> = {
-      project_name: 'Project Name',
-      customer_name: 'Customer Name',
-      lead_name: 'Lead Name',
-      lead_owner: 'Lead Owner',
-      account_id: 'Account',
-      contact_id: 'Contact',
-      region: 'Region',
-      priority: 'Priority',
-      probability: 'Probability (%)',
-      internal_comment: 'Internal Comment',
-      expected_closing_date: 'Expected Closing Date',
-      customer_need: 'Customer Need',
-      customer_challenges: 'Customer Challenges',
-      relationship_strength: 'Relationship Strength',
-      budget: 'Budget',
-      is_recurring: 'Is Recurring?',
-      project_type: 'Project Type',
-      duration: 'Duration (months)',
-      revenue: 'Revenue',
-      start_date: 'Start Date',
-      end_date: 'End Date',
-      total_contract_value: 'Total Contract Value',
-      currency_type: 'Currency Type',
-      project_duration: 'Project Duration (months)',
-      rfq_received_date: 'RFQ Received Date',
-      proposal_due_date: 'Proposal Due Date',
-      rfq_status: 'RFQ Status',
-      quarterly_revenue_q1: 'Q1 Revenue',
-      quarterly_revenue_q2: 'Q2 Revenue',
-      quarterly_revenue_q3: 'Q3 Revenue',
-      quarterly_revenue_q4: 'Q4 Revenue',
-      total_revenue: 'Total Revenue',
-      action_items: 'Action Items',
-      current_status: 'Current Status',
-      closing: 'Closing',
-      won_reason: 'Won Reason',
-      lost_reason: 'Lost Reason',
-      need_improvement: 'Need Improvement',
-      drop_reason: 'Drop Reason',
-      fax: 'Fax',
-      business_value: 'Business Value',
-      decision_maker_level: 'Decision Maker Level',
-      signed_contract_date: 'Signed Contract Date',
-      implementation_start_date: 'Implementation Start Date',
-      handoff_status: 'Handoff Status',
-    };
-    return labels[field] || field;
+    if (customField) return customField.field_label;
+    return DEAL_FIELD_LABELS[field] || field;
   };
 
   const getStringValue = (val: any): string => {
@@ -209,7 +169,87 @@ export const FormFieldRenderer = ({ field, value, onChange, onLeadSelect, error
     enabled: field === 'lead_owner',
   });
 
+  const renderCustomField = (definition: CustomField) => {
+    switch (definition.field_type) {
+      case 'number':
+        return (
+          <Input
+            type="number"
+            value={getStringValue(value)}
+            onChange={(e) => onChange(field, e.target.value === '' ? null : parseFloat(e.target.value))}
+          />
+        );
+
+      case 'date':
+        return renderDatePicker(field, value);
+
+      case 'textarea':
+        return (
+          <Textarea
+            value={getStringValue(value)}
+            onChange={(e) => onChange(field, e.target.value)}
+            rows={2}
+            className="min-h-[60px] resize-y"
+            placeholder={`Enter ${definition.field_label.toLowerCase()}...`}
+          />
+        );
+
+      case 'boolean':
+        return (
+          <div className="flex items-center h-10">
+            <Switch checked={value === true} onCheckedChange={(checked) => onChange(field, checked)} />
+          </div>
+        );
+
+      case 'select':
+        return (
+          <Select value={value?.toString() || ''} onValueChange={(val) => onChange(field, val)}>
+            <SelectTrigger>
+              <SelectValue placeholder={`Select ${definition.field_label.toLowerCase()}...`} />
+            </SelectTrigger>
+            <SelectContent>
+              {definition.field_options.map(option => (
+                <SelectItem key={option} value={option}>
+                  {option}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        );
+
+      case 'multiselect': {
+        const selected: string[] = Array.isArray(value) ? value : [];
+        return (
+          <div className="grid grid-cols-2 gap-2 rounded-md border p-2">
+            {definition.field_options.map(option => (
+              <label key={option} className="flex items-center gap-2 text-sm cursor-pointer">
+                <Checkbox
+                  checked={selected.includes(option)}
+                  onCheckedChange={(checked) =>
+                    onChange(field, checked ? [...selected, option] : selected.filter(o => o !== option))
+                  }
+                />
+                {option}
+              </label>
+            ))}
+          </div>
+        );
+      }
+
+      default:
+        return (
+          <Input
+            value={getStringValue(value)}
+            onChange={(e) => onChange(field, e.target.value)}
+            placeholder={`Enter ${definition.field_label.toLowerCase()}...`}
+          />
+        );
+    }
+  };
+
   const renderField = () => {
+    if (customField) return renderCustomField(customField);
+
     switch (field) {
       case 'account_id':
         return (
@@ -488,6 +528,25 @@ export const FormFieldRenderer = ({ field, value, onChange, onLeadSelect, error
           </Select>
         );
 
+      case 'forecast_category':
+        return (
+          <Select
+            value={value?.toString() || ''}
+            onValueChange={(val) => onChange(field, val)}
+          >
+            <SelectTrigger>
+              <SelectValue placeholder="Select forecast category" />
+            </SelectTrigger>
+            <SelectContent>
+              {FORECAST_CATEGORIES.map(category => (
+                <SelectItem key={category} value={category}>
+                  {FORECAST_CATEGORY_LABELS[category]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        );
+
       case 'handoff_status':
         return (
           <Select
@@ -623,7 +682,10 @@ export const FormFieldRenderer = ({ field, value, onChange, onLeadSelect, error
 
   return (
     <div className="space-y-1.5">
-      <Label className="text-sm font-medium">{getFieldLabel(field)}</Label>
+      <Label className="text-sm font-medium">
+        {getFieldLabel(field)}
+        {customField?.is_required && <span className="text-destructive ml-0.5">*</span>}
+      </Label>
       {renderField()}
       {error && (
         <p className="text-xs text-destructive mt-1">{error}</p>
@@ -0,0 +1,223 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ClipboardList, Plus, Trash2, AlertCircle, AlertTriangle, Pencil, Check, X } from 'lucide-react';
+import { useDealActionItems, DealActionItemInput } from '@/hooks/useDealActionItems';
+import { useProfiles, getDisplayName } from '@/hooks/useProfiles';
+import { DEAL_ACTION_ITEM_STATUSES, DealActionItem, DealActionItemStatus, isDealActionItemOpen } from '@/types/deal';
+
+interface DealActionItemsPanelProps {
+  dealId: string;
+  // Closed deals don't need a next action, so the "no next action" warning is hidden
+  isDealClosed?: boolean;
+}
+
+const UNASSIGNED = 'unassigned';
+
+const emptyDraft = (): DealActionItemInput => ({
+  next_action: '',
+  assigned_to: null,
+  due_date: null,
+  status: 'Open',
+});
+
+const statusColors: Record<DealActionItemStatus, string> = {
+  Open: 'text-blue-600',
+  Ongoing: 'text-yellow-600',
+  Closed: 'text-green-600',
+};
+
+const isOverdue = (item: DealActionItem) => {
+  if (!item.due_date || !isDealActionItemOpen(item)) return false;
+  return item.due_date < format(new Date(), 'yyyy-MM-dd');
+};
+
+export const DealActionItemsPanel = ({ dealId, isDealClosed = false }: DealActionItemsPanelProps) => {
+  const { actionItems, isLoading, createActionItem, updateActionItem, deleteActionItem } = useDealActionItems(dealId);
+  const { data: profiles = [] } = useProfiles();
+  const [draft, setDraft] = useState<DealActionItemInput>(emptyDraft());
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editDraft, setEditDraft] = useState<DealActionItemInput>(emptyDraft());
+  const [saving, setSaving] = useState(false);
+
+  const openItems = actionItems.filter(isDealActionItemOpen);
+
+  const handleAdd = async () => {
+    if (!draft.next_action.trim()) return;
+    setSaving(true);
+    const ok = await createActionItem({ ...draft, next_action: draft.next_action.trim() });
+    setSaving(false);
+    if (ok) setDraft(emptyDraft());
+  };
+
+  const startEdit = (item: DealActionItem) => {
+    setEditingId(item.id);
+    setEditDraft({
+      next_action: item.next_action,
+      assigned_to: item.assigned_to,
+      due_date: item.due_date,
+      status: item.status,
+    });
+  };
+
+  const handleSaveEdit = async () => {
+    if (!editingId || !editDraft.next_action.trim()) return;
+    const ok = await updateActionItem(editingId, { ...editDraft, next_action: editDraft.next_action.trim() });
+    if (ok) setEditingId(null);
+  };
+
+  // Inputs live inside DealForm's <form>, so Enter must not submit the deal
+  const onEnter = (action: () => void) => (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      action();
+    }
+  };
+
+  const renderFields = (
+    value: DealActionItemInput,
+    onChange: (value: DealActionItemInput) => void,
+    onSubmit: () => void,
+    idPrefix: string
+  ) => (
+    <>
+      <Input
+        value={value.next_action}
+        onChange={(e) => onChange({ ...value, next_action: e.target.value })}
+        onKeyDown={onEnter(onSubmit)}
+        placeholder="Next action..."
+        className="flex-1 h-8 text-sm"
+        aria-label="Next action"
+      />
+      <Select
+        value={value.assigned_to || UNASSIGNED}
+        onValueChange={(v) => onChange({ ...value, assigned_to: v === UNASSIGNED ? null : v })}
+      >
+        <SelectTrigger className="w-36 h-8 text-sm" aria-label="Assigned to">
+          <SelectValue placeholder="Assignee" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+          {profiles.map(profile => (
+            <SelectItem key={profile.id} value={profile.id}>
+              {getDisplayName(profiles, profile.id)}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Input
+        id={`${idPrefix}-due`}
+        type="date"
+        value={value.due_date || ''}
+        onChange={(e) => onChange({ ...value, due_date: e.target.value || null })}
+        onKeyDown={onEnter(onSubmit)}
+        className="w-36 h-8 text-sm"
+        aria-label="Due date"
+      />
+    </>
+  );
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base flex items-center gap-2">
+          <ClipboardList className="h-4 w-4" />
+          Action Items ({openItems.length} open)
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {!isLoading && !isDealClosed && openItems.length === 0 && (
+          <div className="flex items-center gap-2 p-2 rounded-md bg-amber-50 dark:bg-amber-900/20 text-amber-800 dark:text-amber-300 text-xs">
+            <AlertTriangle className="h-3.5 w-3.5 flex-shrink-0" />
+            This deal has no open next action. Add one so it doesn't go stale.
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="animate-pulse text-sm text-muted-foreground py-2">Loading action items...</div>
+        ) : (
+          <div className="space-y-1">
+            {actionItems.map(item => {
+              if (editingId === item.id) {
+                return (
+                  <div key={item.id} className="flex items-center gap-2 p-2 rounded-md bg-muted/50">
+                    {renderFields(editDraft, setEditDraft, handleSaveEdit, `edit-${item.id}`)}
+                    <Select
+                      value={editDraft.status}
+                      onValueChange={(v) => setEditDraft({ ...editDraft, status: v as DealActionItemStatus })}
+                    >
+                      <SelectTrigger className="w-28 h-8 text-sm" aria-label="Status">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {DEAL_ACTION_ITEM_STATUSES.map(status => (
+                          <SelectItem key={status} value={status}>{status}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button type="button" variant="ghost" size="icon" className="h-8 w-8" onClick={handleSaveEdit} aria-label="Save action item">
+                      <Check className="h-4 w-4" />
+                    </Button>
+                    <Button type="button" variant="ghost" size="icon" className="h-8 w-8" onClick={() => setEditingId(null)} aria-label="Cancel editing">
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                );
+              }
+
+              const overdue = isOverdue(item);
+              const closed = !isDealActionItemOpen(item);
+              return (
+                <div
+                  key={item.id}
+                  className={`flex items-center gap-3 p-2 rounded-md group hover:bg-muted/50 ${overdue ? 'bg-red-50 dark:bg-red-900/10' : ''} ${closed ? 'opacity-60' : ''}`}
+                >
+                  <Checkbox
+                    checked={closed}
+                    onCheckedChange={(checked) => updateActionItem(item.id, { status: checked ? 'Closed' : 'Open' })}
+                    aria-label={closed ? 'Reopen action item' : 'Close action item'}
+                  />
+                  <div className="flex-1 min-w-0">
+                    <p className={`text-sm truncate ${closed ? 'line-through text-muted-foreground' : 'font-medium'}`}>
+                      {item.next_action}
+                    </p>
+                    <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                      <span className={statusColors[item.status]}>{item.status}</span>
+                      <span>{item.assigned_to ? getDisplayName(profiles, item.assigned_to) : 'Unassigned'}</span>
+                      {item.due_date && (
+                        <span className={`flex items-center gap-1 ${overdue ? 'text-red-600 font-medium' : ''}`}>
+                          {overdue && <AlertCircle className="h-3 w-3" />}
+                          {format(new Date(item.due_date), 'MMM d, yyyy')}
+                        </span>
+                      )}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                    <Button type="button" variant="ghost" size="icon" className="h-7 w-7" onClick={() => startEdit(item)} aria-label="Edit action item">
+                      <Pencil className="h-3.5 w-3.5" />
+                    </Button>
+                    <Button type="button" variant="ghost" size="icon" className="h-7 w-7 text-destructive" onClick={() => deleteActionItem(item.id)} aria-label="Delete action item">
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <div className="flex items-center gap-2 pt-2 border-t">
+          {renderFields(draft, setDraft, handleAdd, 'new-action')}
+          <Button type="button" size="sm" className="h-8 gap-1" onClick={handleAdd} disabled={saving || !draft.next_action.trim()}>
+            <Plus className="h-3 w-3" />
+            Add
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
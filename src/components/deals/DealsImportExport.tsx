@@ -3,6 +3,7 @@ import React from 'react';
 import { Button } from "@/components/ui/button";
 import { Upload, Download } from "lucide-react";
 import { useDealsImportExport } from "@/hooks/useDealsImportExport";
+import { SPREADSHEET_ACCEPT } from "@/utils/spreadsheetFile";
 import { Deal } from "@/types/deal";
 
 interface DealsImportExportProps {
@@ -35,7 +36,7 @@ const DealsImportExport = ({ deals, onImportComplete }: DealsImportExportProps)
       <div>
         <input
           type="file"
-          accept=".csv"
+          accept={SPREADSHEET_ACCEPT}
           onChange={importDeals}
           style={{ display: 'none' }}
           id="deals-import"
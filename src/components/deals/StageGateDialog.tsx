@@ -0,0 +1,115 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Loader2, ShieldCheck } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { usePipelineStages } from "@/hooks/usePipelineStages";
+import { describeStageMoveError, StageGate } from "@/hooks/useStageGate";
+import { Deal } from "@/types/deal";
+import { FormFieldRenderer } from "@/components/deal-form/FormFieldRenderer";
+
+interface StageGateDialogProps {
+  gate: StageGate | null;
+  remaining: number;
+  isSubmitting: boolean;
+  onSubmit: (values: Partial<Deal>) => Promise<{ heldForApproval?: boolean } | void>;
+  onSkip: () => void;
+  onCancel: () => void;
+}
+
+const isFilled = (value: unknown) => value !== null && value !== undefined && String(value).trim() !== "";
+
+/**
+ * "Complete stage" form: only the entry criteria the deal is missing for its new stage.
+ * Saving writes those fields and the stage change together.
+ */
+export const StageGateDialog = ({ gate, remaining, isSubmitting, onSubmit, onSkip, onCancel }: StageGateDialogProps) => {
+  const { toast } = useToast();
+  const { getStage } = usePipelineStages();
+  const [values, setValues] = useState<Partial<Deal>>({});
+
+  // Fresh form for every queued deal
+  useEffect(() => {
+    setValues({});
+  }, [gate]);
+
+  if (!gate) return null;
+
+  const { deal, stage, missingFields } = gate;
+  const requiresApproval = !!getStage(stage)?.requires_approval;
+  const complete = missingFields.every(field => isFilled(values[field as keyof Deal]));
+
+  const handleChange = (field: string, value: unknown) => {
+    setValues(prev => ({ ...prev, [field]: value }));
+  };
+
+  const handleSubmit = async () => {
+    try {
+      const result = await onSubmit(values);
+      if (!result || !result.heldForApproval) {
+        toast({
+          title: "Deal Moved",
+          description: `Successfully moved to ${stage} stage`,
+        });
+      }
+    } catch (error: unknown) {
+      console.error("Error completing stage:", error);
+      toast({
+        title: "Error",
+        description: describeStageMoveError(error),
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            Complete {stage} stage
+            {remaining > 1 && <Badge variant="secondary">{remaining - 1} more</Badge>}
+          </DialogTitle>
+          <DialogDescription>
+            {deal.project_name || deal.deal_name} needs these fields before it can move to {stage}.
+          </DialogDescription>
+        </DialogHeader>
+
+        {requiresApproval && (
+          <div className="flex items-center gap-2 rounded-md border bg-muted/40 px-3 py-2 text-sm text-muted-foreground">
+            <ShieldCheck className="h-4 w-4 flex-shrink-0" />
+            Moving to {stage} requires approval. The fields save now; the stage changes once approved.
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 max-h-[60vh] overflow-y-auto pr-1">
+          {missingFields.map(field => (
+            <div key={field}>
+              <FormFieldRenderer
+                field={field}
+                value={values[field as keyof Deal]}
+                onChange={handleChange}
+              />
+            </div>
+          ))}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel} disabled={isSubmitting}>
+            Cancel
+          </Button>
+          {remaining > 1 && (
+            <Button variant="ghost" onClick={onSkip} disabled={isSubmitting}>
+              Skip deal
+            </Button>
+          )}
+          <Button onClick={handleSubmit} disabled={!complete || isSubmitting}>
+            {isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Move to {stage}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,132 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, ListOrdered } from "lucide-react";
+import { useEmailSequenceActions, useEmailSequences } from "@/hooks/useEmailSequences";
+import { formatBusinessHours, getStepSendDays } from "@/types/emailSequence";
+import { TIMEZONE_OPTIONS } from "@/utils/timezones";
+
+interface EnrollInSequenceModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  leadIds?: string[];
+  contactIds?: string[];
+  onEnrolled?: () => void;
+}
+
+const SEQUENCE_DEFAULT = "sequence-default";
+
+export const EnrollInSequenceModal = ({
+  open,
+  onOpenChange,
+  leadIds = [],
+  contactIds = [],
+  onEnrolled,
+}: EnrollInSequenceModalProps) => {
+  const { sequences, loading } = useEmailSequences();
+  const { enroll, isEnrolling } = useEmailSequenceActions();
+  const [sequenceId, setSequenceId] = useState("");
+  const [timezone, setTimezone] = useState(SEQUENCE_DEFAULT);
+
+  const activeSequences = sequences.filter(s => s.is_active && s.steps.length > 0);
+  const selected = activeSequences.find(s => s.id === sequenceId);
+  const count = leadIds.length + contactIds.length;
+
+  useEffect(() => {
+    if (open) {
+      setSequenceId("");
+      setTimezone(SEQUENCE_DEFAULT);
+    }
+  }, [open]);
+
+  const handleEnroll = async () => {
+    if (!sequenceId) return;
+    try {
+      await enroll({
+        sequenceId,
+        leadIds,
+        contactIds,
+        timezone: timezone === SEQUENCE_DEFAULT ? undefined : timezone,
+      });
+      onOpenChange(false);
+      onEnrolled?.();
+    } catch {
+      // Reported by the mutation
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ListOrdered className="h-5 w-5" />
+            Add to Sequence
+          </DialogTitle>
+          <DialogDescription>
+            Enroll {count} selected {count === 1 ? "record" : "records"}. Records without an email address or
+            already in the sequence are skipped.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <Label>Sequence</Label>
+            <Select value={sequenceId} onValueChange={setSequenceId} disabled={loading}>
+              <SelectTrigger>
+                <SelectValue placeholder={loading ? "Loading sequences..." : "Choose a sequence"} />
+              </SelectTrigger>
+              <SelectContent>
+                {activeSequences.map(sequence => (
+                  <SelectItem key={sequence.id} value={sequence.id}>
+                    {sequence.name} ({sequence.steps.length} steps)
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {!loading && activeSequences.length === 0 && (
+              <p className="text-xs text-muted-foreground">
+                No active sequences. Create one under Settings → Email Center → Sequences.
+              </p>
+            )}
+            {selected && (
+              <p className="text-xs text-muted-foreground">
+                Sends on day {getStepSendDays(selected.steps).join(", ")}, {formatBusinessHours(selected)}
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Recipient Timezone</Label>
+            <Select value={timezone} onValueChange={setTimezone}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={SEQUENCE_DEFAULT}>
+                  Sequence default{selected ? ` (${selected.default_timezone})` : ""}
+                </SelectItem>
+                {TIMEZONE_OPTIONS.map(tz => (
+                  <SelectItem key={tz.value} value={tz.value}>{tz.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              Individual recipients can be adjusted later from the sequence's enrollment list.
+            </p>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleEnroll} disabled={!sequenceId || count === 0 || isEnrolling}>
+            {isEnrolling && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Enroll
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -19,6 +19,7 @@ import {
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { EMAIL_VARIABLES } from '@/utils/emailConstants';
+import { buildTemplateContext, renderEmailTemplate } from '@/utils/templateEngine';
 import { supabase } from '@/integrations/supabase/client';
 
 interface EmailTemplate {
@@ -122,16 +123,13 @@ export const OutlookComposeEmail = ({
 
     const template = templates.find(t => t.id === templateId);
     if (template) {
-      // Replace variables
-      const replaceVars = (text: string) => {
-        return text
-          .replace(/\{\{contact_name\}\}/g, toName || '')
-          .replace(/\{\{name\}\}/g, toName || '')
-          .replace(/\{\{email\}\}/g, toEmail || '');
-      };
-      
-      setSubject(replaceVars(template.subject));
-      setBody(replaceVars(template.body));
+      // Only the recipient is known here; record fields fall back to their defaults
+      const rendered = renderEmailTemplate(
+        template,
+        buildTemplateContext({ recipient: { name: toName, email: toEmail } })
+      );
+      setSubject(rendered.subject);
+      setBody(rendered.body);
     }
   };
 
@@ -0,0 +1,49 @@
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { AlertTriangle } from "lucide-react";
+import type { TemplateIssue } from "@/utils/templateEngine";
+
+interface TemplateIssuesAlertProps {
+  issues?: TemplateIssue[];
+  unknownVariables?: string[];
+  // Fields the chosen record has no value for and the template gives no fallback
+  missing?: string[];
+  className?: string;
+}
+
+const formatTags = (paths: string[]) => paths.map((path) => `{{${path}}}`).join(", ");
+
+export const TemplateIssuesAlert = ({
+  issues = [],
+  unknownVariables = [],
+  missing = [],
+  className,
+}: TemplateIssuesAlertProps) => {
+  // Unknown variables are always empty; only report them once
+  const missingKnown = missing.filter((path) => !unknownVariables.includes(path));
+  if (issues.length === 0 && unknownVariables.length === 0 && missingKnown.length === 0) return null;
+
+  return (
+    <Alert variant={issues.length > 0 ? "destructive" : "default"} className={className}>
+      <AlertTriangle className="h-4 w-4" />
+      <AlertDescription>
+        <ul className="space-y-1 text-sm">
+          {issues.map((issue, index) => (
+            <li key={index}>{issue.message}</li>
+          ))}
+          {unknownVariables.length > 0 && (
+            <li>
+              Unknown {unknownVariables.length === 1 ? "variable" : "variables"}: {formatTags(unknownVariables)}.
+              These are left blank when the email is sent.
+            </li>
+          )}
+          {missingKnown.length > 0 && (
+            <li>
+              No value for {formatTags(missingKnown)}. Add a fallback such as {'{{first_name|"there"}}'} or fill in the
+              record.
+            </li>
+          )}
+        </ul>
+      </AlertDescription>
+    </Alert>
+  );
+};
@@ -16,6 +16,9 @@ import { ScrollArea } from '@/components/ui/scroll-area';
 import { EntityEmailHistory } from '@/components/shared/EntityEmailHistory';
 import { RecordChangeHistory } from '@/components/shared/RecordChangeHistory';
 import { RelatedTasksSection } from '@/components/shared/RelatedTasksSection';
+import { ApprovalStatusPanel } from '@/components/approvals/ApprovalStatusPanel';
+import { MergeHistoryPanel } from '@/components/shared/MergeHistoryPanel';
+import { RecordScorePanel } from '@/components/shared/RecordScorePanel';
 import { SendEmailModal } from '@/components/SendEmailModal';
 import { LeadActivityTimeline } from './LeadActivityTimeline';
 import { LeadActivityLogModal } from './LeadActivityLogModal';
@@ -424,6 +427,12 @@ export const LeadDetailModal = ({
                 </Card>
               </div>
 
+              <RecordScorePanel entityType="lead" entityId={lead.id} />
+
+              <ApprovalStatusPanel entityType="leads" entityId={lead.id} />
+
+              <MergeHistoryPanel entityType="leads" entityId={lead.id} />
+
               {lead.description && (
                 <Card>
                   <CardHeader className="pb-3">
@@ -16,6 +16,9 @@ const types = [
   { value: "task_deleted", label: "Task Deleted" },
   { value: "lead_update", label: "Lead Update" },
   { value: "deal_update", label: "Deal Update" },
+  { value: "approval_request", label: "Approval Request" },
+  { value: "approval_approved", label: "Approval Granted" },
+  { value: "approval_rejected", label: "Approval Rejected" },
 ];
 
 export const NotificationTypeFilter = ({ value, onValueChange }: NotificationTypeFilterProps) => {
@@ -9,6 +9,8 @@ import { Loader2, User, Shield, Bell } from 'lucide-react';
 import ProfileSection from './account/ProfileSection';
 import SecuritySection from './account/SecuritySection';
 import NotificationsSection from './account/NotificationsSection';
+import EmailSignatureSection from './account/EmailSignatureSection';
+import CalendarFeedSection from './account/CalendarFeedSection';
 
 interface ProfileData {
   full_name: string;
@@ -245,6 +247,8 @@ const AccountSettingsPage = () => {
               </Button>
             </div>
           )}
+          <EmailSignatureSection userId={user?.id || ''} />
+          <CalendarFeedSection userId={user?.id || ''} />
         </TabsContent>
 
         <TabsContent value="security" className="mt-6">
@@ -1,9 +1,9 @@
 import { useState, lazy, Suspense, useEffect } from 'react';
-import { Users, Lock, Database, Activity, History, Zap, Clock } from 'lucide-react';
+import { Users, Lock, Database, Activity, History, Zap, Clock, GitBranch } from 'lucide-react';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Card, CardContent } from '@/components/ui/card';
 import { useUserRole } from '@/hooks/useUserRole';
-import { Loader2, ShieldAlert, BarChart3, FileText, Megaphone } from 'lucide-react';
+import { Loader2, ShieldAlert, BarChart3, FileText, Megaphone, Coins, TrendingUp } from 'lucide-react';
 import SettingsCard from './shared/SettingsCard';
 import SettingsLoadingSkeleton from './shared/SettingsLoadingSkeleton';
 
@@ -17,10 +17,19 @@ const ScheduledReportsSettings = lazy(() => import('@/components/settings/Schedu
 const AnnouncementSettings = lazy(() => import('@/components/settings/AnnouncementSettings'));
 const EdgeFunctionMonitor = lazy(() => import('@/components/settings/EdgeFunctionMonitor'));
 const CronJobMonitoring = lazy(() => import('@/components/settings/CronJobMonitoring'));
+const ApprovalWorkflowSettings = lazy(() => import('@/components/settings/ApprovalWorkflowSettings'));
+const PipelineSettings = lazy(() => import('@/components/settings/PipelineSettings'));
+const CustomFieldsSettings = lazy(() => import('@/components/settings/CustomFieldsSettings'));
+const TaskTemplatesSettings = lazy(() => import('@/components/settings/TaskTemplatesSettings'));
+const CurrencySettings = lazy(() => import('@/components/settings/CurrencySettings'));
+const ConversionMappingSettings = lazy(() => import('@/components/settings/ConversionMappingSettings'));
+const LeadConversionReport = lazy(() => import('@/components/settings/LeadConversionReport'));
+const ScoringRulesSettings = lazy(() => import('@/components/settings/ScoringRulesSettings'));
 
 const adminTabs = [
   { id: 'users', label: 'Users', icon: Users },
   { id: 'access', label: 'Access', icon: Lock },
+  { id: 'workflows', label: 'Workflows', icon: GitBranch },
   { id: 'logs', label: 'Logs', icon: History },
   { id: 'system', label: 'System', icon: Activity },
   { id: 'reports', label: 'Reports', icon: BarChart3 }
@@ -38,12 +47,20 @@ const AdminSettingsPage = ({ defaultSection }: AdminSettingsPageProps) => {
     const sectionToTab: Record<string, string> = {
       'users': 'users',
       'page-access': 'access',
+      'approval-workflows': 'workflows',
+      'pipeline': 'workflows',
+      'custom-fields': 'workflows',
+      'task-templates': 'workflows',
+      'conversion-mapping': 'workflows',
+      'lead-scoring': 'workflows',
       'audit-logs': 'logs',
       'backup': 'system',
       'system-status': 'system',
       'edge-functions': 'system',
       'cron-jobs': 'system',
       'scheduled-reports': 'reports',
+      'currency': 'reports',
+      'lead-conversion': 'reports',
       'announcements': 'reports'
     };
     return sectionToTab[section] || 'users';
@@ -88,7 +105,7 @@ const AdminSettingsPage = ({ defaultSection }: AdminSettingsPageProps) => {
     <div className="space-y-6 w-full">
       <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
         <div className="sticky top-0 z-10 bg-background pb-2 border-b border-border">
-          <TabsList className="grid w-full grid-cols-5 max-w-2xl">
+          <TabsList className="grid w-full grid-cols-6 max-w-3xl">
             {adminTabs.map(tab => {
               const Icon = tab.icon;
               return (
@@ -117,6 +134,27 @@ const AdminSettingsPage = ({ defaultSection }: AdminSettingsPageProps) => {
           </SettingsCard>
         </TabsContent>
 
+        <TabsContent value="workflows" className="mt-6 space-y-6">
+          <Suspense fallback={<SettingsLoadingSkeleton />}>
+            <PipelineSettings />
+          </Suspense>
+          <Suspense fallback={<SettingsLoadingSkeleton />}>
+            <CustomFieldsSettings />
+          </Suspense>
+          <Suspense fallback={<SettingsLoadingSkeleton />}>
+            <TaskTemplatesSettings />
+          </Suspense>
+          <Suspense fallback={<SettingsLoadingSkeleton />}>
+            <ConversionMappingSettings />
+          </Suspense>
+          <Suspense fallback={<SettingsLoadingSkeleton />}>
+            <ScoringRulesSettings />
+          </Suspense>
+          <Suspense fallback={<SettingsLoadingSkeleton />}>
+            <ApprovalWorkflowSettings />
+          </Suspense>
+        </TabsContent>
+
         <TabsContent value="logs" className="mt-6 space-y-6">
           <Suspense fallback={<SettingsLoadingSkeleton />}>
             <AuditLogsSettings />
@@ -151,6 +189,18 @@ const AdminSettingsPage = ({ defaultSection }: AdminSettingsPageProps) => {
         </TabsContent>
 
         <TabsContent value="reports" className="mt-6 space-y-6">
+          <SettingsCard icon={Coins} title="Exchange Rates" description="Reporting currency and dated exchange rates used for revenue totals">
+            <Suspense fallback={<SettingsLoadingSkeleton />}>
+              <CurrencySettings />
+            </Suspense>
+          </SettingsCard>
+
+          <SettingsCard icon={TrendingUp} title="Lead Conversion" description="Lead-to-deal conversion rates per lead owner">
+            <Suspense fallback={<SettingsLoadingSkeleton />}>
+              <LeadConversionReport />
+            </Suspense>
+          </SettingsCard>
+
           <SettingsCard icon={FileText} title="Scheduled Reports" description="Configure automated email reports">
             <Suspense fallback={<SettingsLoadingSkeleton />}>
               <ScheduledReportsSettings />
@@ -20,6 +20,10 @@ import {
   ArrowRight
 } from 'lucide-react';
 import { format } from 'date-fns';
+import { DEFAULT_GUARDED_CHANGES, ApprovalEntityType } from '@/types/approval';
+import { usePipelineStages } from '@/hooks/usePipelineStages';
+import { LEAD_STATUSES } from '@/utils/leadStatusUtils';
+import { ACCOUNT_STATUSES } from '@/utils/accountStatusUtils';
 
 interface ApprovalWorkflow {
   id: string;
@@ -56,6 +60,24 @@ const conditionFields = {
   ],
 };
 
+// Status-like field per entity whose change is held back until approved.
+// Deal stages come from the pipeline, so they are filled in by the component.
+const guardFields: Record<ApprovalEntityType, { value: string; label: string; options?: readonly string[] }> = {
+  deals: { value: 'stage', label: 'Stage' },
+  leads: { value: 'lead_status', label: 'Lead Status', options: LEAD_STATUSES },
+  accounts: { value: 'status', label: 'Status', options: ACCOUNT_STATUSES },
+};
+
+// Sentinel for "hold any change to the trigger condition field"
+const CONDITION_FIELD_GUARD = '__condition__';
+
+// wonStage replaces the default deal stage when the pipeline's won stage is named differently
+const getDefaultGuard = (entityType: string, wonStage?: string) => {
+  const guard = DEFAULT_GUARDED_CHANGES[entityType as ApprovalEntityType] || DEFAULT_GUARDED_CHANGES.deals;
+  const value = guard.field === 'stage' && wonStage ? wonStage : guard.value;
+  return { guarded_field: guard.field, guarded_value: value };
+};
+
 const operators = [
   { value: '>=', label: 'Greater than or equal' },
   { value: '>', label: 'Greater than' },
@@ -66,6 +88,7 @@ const operators = [
 
 const ApprovalWorkflowSettings = () => {
   const { user } = useAuth();
+  const { stageNames, wonStageNames } = usePipelineStages();
   const [workflows, setWorkflows] = useState<ApprovalWorkflow[]>([]);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
@@ -77,6 +100,7 @@ const ApprovalWorkflowSettings = () => {
     condition_field: 'total_revenue',
     condition_operator: '>=',
     condition_value: '100000',
+    ...getDefaultGuard('deals'),
     approval_steps: [{ step: 1, role: 'manager' }],
     is_enabled: true,
   });
@@ -120,6 +144,11 @@ const ApprovalWorkflowSettings = () => {
         condition_field: condition?.field || 'total_revenue',
         condition_operator: condition?.operator || '>=',
         condition_value: condition?.value?.toString() || '100000',
+        ...(condition?.guarded_field
+          ? { guarded_field: condition.guarded_field, guarded_value: condition.guarded_value || '' }
+          : condition
+            ? { guarded_field: CONDITION_FIELD_GUARD, guarded_value: '' }
+            : getDefaultGuard(workflow.entity_type, wonStageNames[0])),
         approval_steps: workflow.approval_steps || [{ step: 1, role: 'manager' }],
         is_enabled: workflow.is_enabled,
       });
@@ -131,6 +160,7 @@ const ApprovalWorkflowSettings = () => {
         condition_field: 'total_revenue',
         condition_operator: '>=',
         condition_value: '100000',
+        ...getDefaultGuard('deals', wonStageNames[0]),
         approval_steps: [{ step: 1, role: 'manager' }],
         is_enabled: true,
       });
@@ -138,6 +168,15 @@ const ApprovalWorkflowSettings = () => {
     setShowModal(true);
   };
 
+  const handleEntityTypeChange = (entityType: string) => {
+    setFormData({
+      ...formData,
+      entity_type: entityType,
+      condition_field: conditionFields[entityType as keyof typeof conditionFields]?.[0]?.value || '',
+      ...getDefaultGuard(entityType, wonStageNames[0]),
+    });
+  };
+
   const handleAddStep = () => {
     setFormData({
       ...formData,
@@ -168,6 +207,12 @@ const ApprovalWorkflowSettings = () => {
       return;
     }
 
+    const guardsConditionField = formData.guarded_field === CONDITION_FIELD_GUARD;
+    if (!guardsConditionField && !formData.guarded_value) {
+      toast.error('Select the value that requires approval');
+      return;
+    }
+
     setSaving(true);
     try {
       const payload = {
@@ -179,6 +224,9 @@ const ApprovalWorkflowSettings = () => {
           value: isNaN(Number(formData.condition_value)) 
             ? formData.condition_value 
             : Number(formData.condition_value),
+          ...(guardsConditionField
+            ? {}
+            : { guarded_field: formData.guarded_field, guarded_value: formData.guarded_value }),
         },
         approval_steps: formData.approval_steps,
         is_enabled: formData.is_enabled,
@@ -253,6 +301,15 @@ const ApprovalWorkflowSettings = () => {
     return `${condition.field} ${op} ${condition.value}`;
   };
 
+  const getGuardLabel = (workflow: ApprovalWorkflow) => {
+    const condition = workflow.trigger_conditions;
+    if (!condition) return null;
+    if (!condition.guarded_field) return `any change to ${condition.field}`;
+    return condition.guarded_value
+      ? `${condition.guarded_field} → ${condition.guarded_value}`
+      : `any change to ${condition.guarded_field}`;
+  };
+
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between">
@@ -302,6 +359,7 @@ const ApprovalWorkflowSettings = () => {
                       </div>
                       <p className="text-sm text-muted-foreground mb-2">
                         Trigger: {getConditionLabel(workflow)}
+                        {getGuardLabel(workflow) && ` · Holds: ${getGuardLabel(workflow)}`}
                       </p>
                       <div className="flex items-center gap-2 text-sm">
                         <span className="text-muted-foreground">Steps:</span>
@@ -361,7 +419,7 @@ const ApprovalWorkflowSettings = () => {
               <Label>Entity Type</Label>
               <Select 
                 value={formData.entity_type} 
-                onValueChange={(v) => setFormData({ ...formData, entity_type: v })}
+                onValueChange={handleEntityTypeChange}
               >
                 <SelectTrigger>
                   <SelectValue />
@@ -419,6 +477,53 @@ const ApprovalWorkflowSettings = () => {
               </div>
             </div>
 
+            <div className="space-y-2">
+              <Label>Requires Approval To Change</Label>
+              <div className="grid grid-cols-2 gap-2">
+                <Select
+                  value={formData.guarded_field}
+                  onValueChange={(v) => setFormData({
+                    ...formData,
+                    guarded_field: v,
+                    guarded_value: v === CONDITION_FIELD_GUARD ? '' : formData.guarded_value,
+                  })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {guardFields[formData.entity_type as ApprovalEntityType] && (
+                      <SelectItem value={guardFields[formData.entity_type as ApprovalEntityType].value}>
+                        {guardFields[formData.entity_type as ApprovalEntityType].label}
+                      </SelectItem>
+                    )}
+                    <SelectItem value={CONDITION_FIELD_GUARD}>Trigger field (any change)</SelectItem>
+                  </SelectContent>
+                </Select>
+
+                {formData.guarded_field !== CONDITION_FIELD_GUARD && (
+                  <Select
+                    value={formData.guarded_value}
+                    onValueChange={(v) => setFormData({ ...formData, guarded_value: v })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select value" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(formData.entity_type === 'deals' ? stageNames : guardFields[formData.entity_type as ApprovalEntityType]?.options)?.map((option) => (
+                        <SelectItem key={option} value={option}>
+                          {option}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Matching records keep their current value until every approval step is complete.
+              </p>
+            </div>
+
             <div className="space-y-2">
               <div className="flex items-center justify-between">
                 <Label>Approval Steps</Label>
@@ -0,0 +1,225 @@
+import { useState } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useUserDisplayNames } from '@/hooks/useUserDisplayNames';
+import { useBulkEmailJobActions, useBulkEmailJobRecipients, useBulkEmailJobs } from '@/hooks/useBulkEmailJobs';
+import {
+  ACTIVE_BULK_JOB_STATUSES,
+  BULK_JOB_STATUS_LABELS,
+  BULK_RECIPIENT_STATUS_LABELS,
+  BulkEmailJob,
+  BulkEmailJobStatus,
+  BulkEmailRecipientStatus,
+} from '@/types/bulkEmail';
+import { Clock, Mails, Pause, Play, RefreshCw, Square, Trash2, Users } from 'lucide-react';
+import { format } from 'date-fns';
+
+type BadgeVariant = 'default' | 'secondary' | 'destructive' | 'outline';
+
+const jobStatusVariant = (status: BulkEmailJobStatus): BadgeVariant => {
+  switch (status) {
+    case 'running':
+      return 'default';
+    case 'completed':
+      return 'secondary';
+    case 'failed':
+      return 'destructive';
+    default:
+      return 'outline';
+  }
+};
+
+const recipientStatusVariant = (status: BulkEmailRecipientStatus): BadgeVariant => {
+  switch (status) {
+    case 'sent':
+      return 'secondary';
+    case 'sending':
+      return 'default';
+    case 'failed':
+      return 'destructive';
+    default:
+      return 'outline';
+  }
+};
+
+const BulkEmailRecipientsDialog = ({ job, onClose }: { job: BulkEmailJob | null; onClose: () => void }) => {
+  const { recipients, loading } = useBulkEmailJobRecipients(job);
+
+  return (
+    <Dialog open={!!job} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-4xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Recipients: {job?.subject}</DialogTitle>
+          <DialogDescription>
+            Transient failures are retried automatically up to three times before a recipient is marked failed.
+          </DialogDescription>
+        </DialogHeader>
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <RefreshCw className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Recipient</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Attempts</TableHead>
+                <TableHead>Sent / next retry</TableHead>
+                <TableHead>Error</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {recipients.map((recipient) => (
+                <TableRow key={recipient.id}>
+                  <TableCell>
+                    <div className="font-medium">{recipient.recipient_name || recipient.recipient_email}</div>
+                    <div className="text-xs text-muted-foreground">{recipient.recipient_email}</div>
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={recipientStatusVariant(recipient.status)}>
+                      {BULK_RECIPIENT_STATUS_LABELS[recipient.status] || recipient.status}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-sm">{recipient.attempts}</TableCell>
+                  <TableCell className="text-sm">
+                    {recipient.sent_at
+                      ? format(new Date(recipient.sent_at), 'MMM d, HH:mm')
+                      : recipient.status === 'pending' && recipient.next_attempt_at
+                        ? `Retry ${format(new Date(recipient.next_attempt_at), 'MMM d, HH:mm')}`
+                        : '—'}
+                  </TableCell>
+                  <TableCell className="text-xs text-muted-foreground max-w-xs truncate" title={recipient.last_error || undefined}>
+                    {recipient.last_error || '—'}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+const BulkEmailJobsSettings = () => {
+  const { jobs, loading } = useBulkEmailJobs();
+  const { setJobStatus, deleteJob, isUpdating } = useBulkEmailJobActions();
+  const { displayNames } = useUserDisplayNames(jobs.map(j => j.created_by || ''));
+  const [recipientsFor, setRecipientsFor] = useState<BulkEmailJob | null>(null);
+
+  const handleCancel = (job: BulkEmailJob) => {
+    if (!confirm(`Cancel "${job.subject}"? Recipients not yet emailed will be skipped.`)) return;
+    setJobStatus(job.id, 'cancel');
+  };
+
+  const handleDelete = (job: BulkEmailJob) => {
+    if (!confirm(`Delete "${job.subject}" and its recipient log? Sent emails stay in the email history.`)) return;
+    deleteJob(job.id);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="text-lg font-semibold">Bulk Email Jobs</h3>
+        <p className="text-sm text-muted-foreground">
+          Bulk sends run on the server at the chosen rate and continue after the browser is closed
+        </p>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-8">
+          <RefreshCw className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : jobs.length === 0 ? (
+        <Card>
+          <CardContent className="py-8">
+            <div className="text-center text-muted-foreground">
+              <Mails className="h-12 w-12 mx-auto mb-4 opacity-50" />
+              <p>No bulk email jobs yet</p>
+              <p className="text-sm">Select leads or contacts and choose "Send Email" to start one</p>
+            </div>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-3">
+          {jobs.map((job) => {
+            const done = job.sent_count + job.failed_count;
+            const isOpen = ACTIVE_BULK_JOB_STATUSES.includes(job.status);
+            return (
+              <Card key={job.id}>
+                <CardContent className="py-4">
+                  <div className="flex items-start justify-between gap-4">
+                    <div className="flex-1 min-w-0 space-y-2">
+                      <div className="flex items-center gap-2">
+                        <h4 className="font-medium truncate">{job.subject}</h4>
+                        <Badge variant={jobStatusVariant(job.status)}>
+                          {BULK_JOB_STATUS_LABELS[job.status] || job.status}
+                        </Badge>
+                      </div>
+                      <div className="flex flex-wrap items-center gap-4 text-sm text-muted-foreground">
+                        <span>From {job.sender_email}</span>
+                        <span className="flex items-center gap-1">
+                          <Clock className="h-3 w-3" />
+                          {job.status === 'scheduled'
+                            ? `Starts ${format(new Date(job.scheduled_at), 'MMM d, HH:mm')}`
+                            : `Started ${format(new Date(job.started_at || job.scheduled_at), 'MMM d, HH:mm')}`}
+                        </span>
+                        <span>{job.rate_per_minute}/min</span>
+                        {job.created_by && <span>by {displayNames[job.created_by] || '…'}</span>}
+                      </div>
+                      <div className="flex items-center gap-3">
+                        <Progress value={job.total_count ? (done / job.total_count) * 100 : 0} className="h-2 flex-1" />
+                        <span className="text-sm text-muted-foreground whitespace-nowrap">
+                          {job.sent_count} sent{job.failed_count > 0 && `, ${job.failed_count} failed`} / {job.total_count}
+                        </span>
+                      </div>
+                      {job.last_error && job.failed_count > 0 && (
+                        <p className="text-xs text-destructive truncate" title={job.last_error}>
+                          Last error: {job.last_error}
+                        </p>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-2">
+                      {(job.status === 'scheduled' || job.status === 'running') && (
+                        <Button variant="ghost" size="icon" title="Pause" disabled={isUpdating} onClick={() => setJobStatus(job.id, 'pause')}>
+                          <Pause className="h-4 w-4" />
+                        </Button>
+                      )}
+                      {job.status === 'paused' && (
+                        <Button variant="ghost" size="icon" title="Resume" disabled={isUpdating} onClick={() => setJobStatus(job.id, 'resume')}>
+                          <Play className="h-4 w-4" />
+                        </Button>
+                      )}
+                      {isOpen && (
+                        <Button variant="ghost" size="icon" title="Cancel" disabled={isUpdating} onClick={() => handleCancel(job)}>
+                          <Square className="h-4 w-4" />
+                        </Button>
+                      )}
+                      <Button variant="ghost" size="icon" title="Recipients" onClick={() => setRecipientsFor(job)}>
+                        <Users className="h-4 w-4" />
+                      </Button>
+                      {!isOpen && (
+                        <Button variant="ghost" size="icon" title="Delete" onClick={() => handleDelete(job)}>
+                          <Trash2 className="h-4 w-4 text-destructive" />
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+
+      <BulkEmailRecipientsDialog job={recipientsFor} onClose={() => setRecipientsFor(null)} />
+    </div>
+  );
+};
+
+export default BulkEmailJobsSettings;
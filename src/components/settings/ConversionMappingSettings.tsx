@@ -0,0 +1,216 @@
+import { useState, useMemo } from 'react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { CONVERSION_MAPPINGS_QUERY_KEY, useConversionMappings } from '@/hooks/useConversions';
+import { useCustomFields } from '@/hooks/useCustomFields';
+import { getCustomFieldColumnKey } from '@/types/customField';
+import {
+  CONVERSION_ENTITIES,
+  CONVERSION_SOURCE_FIELDS,
+  CONVERSION_TARGET_FIELDS,
+  CONVERSION_TYPE_LABELS,
+  ConversionFieldMapping,
+  ConversionFieldOption,
+  ConversionType,
+} from '@/types/conversion';
+import { toast } from 'sonner';
+import { ArrowRight, Loader2, Plus, Shuffle, Trash2 } from 'lucide-react';
+
+const CONVERSION_TYPES = Object.keys(CONVERSION_TYPE_LABELS) as ConversionType[];
+
+const ConversionMappingSettings = () => {
+  const queryClient = useQueryClient();
+  const [conversionType, setConversionType] = useState<ConversionType>('lead_to_deal');
+  const [newMapping, setNewMapping] = useState({ source: '', target: '' });
+  const [saving, setSaving] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const { mappings, loading } = useConversionMappings(conversionType);
+  const { allFields: sourceCustomFields } = useCustomFields(CONVERSION_ENTITIES[conversionType].source);
+  const { allFields: targetCustomFields } = useCustomFields(CONVERSION_ENTITIES[conversionType].target);
+
+  // Standard columns followed by the custom fields of each side
+  const sourceOptions = useMemo<ConversionFieldOption[]>(() => [
+    ...CONVERSION_SOURCE_FIELDS[conversionType],
+    ...sourceCustomFields.map(f => ({ value: getCustomFieldColumnKey(f.field_name), label: `${f.field_label} (custom)` })),
+  ], [conversionType, sourceCustomFields]);
+
+  const targetOptions = useMemo<ConversionFieldOption[]>(() => [
+    ...CONVERSION_TARGET_FIELDS[conversionType],
+    ...targetCustomFields.map(f => ({ value: getCustomFieldColumnKey(f.field_name), label: `${f.field_label} (custom)` })),
+  ], [conversionType, targetCustomFields]);
+
+  const labelFor = (options: ConversionFieldOption[], value: string) =>
+    options.find(o => o.value === value)?.label || value;
+
+  // Each target field can only be filled by one mapping
+  const usedTargets = new Set(mappings.map(m => m.target_field));
+  const availableTargets = targetOptions.filter(o => !usedTargets.has(o.value));
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: CONVERSION_MAPPINGS_QUERY_KEY });
+
+  const addMapping = async () => {
+    if (!newMapping.source || !newMapping.target) {
+      toast.error('Choose a source and a target field');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      const { error } = await supabase.from('conversion_field_mappings').insert({
+        conversion_type: conversionType,
+        source_field: newMapping.source,
+        target_field: newMapping.target,
+        sort_order: mappings.length + 1,
+        created_by: user?.id,
+      });
+      if (error) throw error;
+
+      await refresh();
+      setNewMapping({ source: '', target: '' });
+      toast.success('Mapping added');
+    } catch (error) {
+      console.error('Error adding conversion mapping:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to add mapping');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleMapping = async (mapping: ConversionFieldMapping, isActive: boolean) => {
+    setBusyId(mapping.id);
+    try {
+      const { error } = await supabase
+        .from('conversion_field_mappings')
+        .update({ is_active: isActive })
+        .eq('id', mapping.id);
+      if (error) throw error;
+      await refresh();
+    } catch (error) {
+      console.error('Error updating conversion mapping:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to update mapping');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const deleteMapping = async (mapping: ConversionFieldMapping) => {
+    setBusyId(mapping.id);
+    try {
+      const { error } = await supabase.from('conversion_field_mappings').delete().eq('id', mapping.id);
+      if (error) throw error;
+      await refresh();
+      toast.success('Mapping removed');
+    } catch (error) {
+      console.error('Error deleting conversion mapping:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to remove mapping');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Shuffle className="h-5 w-5" />
+          Conversion Field Mapping
+        </CardTitle>
+        <CardDescription>
+          Which fields are copied when a lead becomes a deal or a contact becomes a lead. Values typed into the deal form take precedence.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Tabs
+          value={conversionType}
+          onValueChange={(v) => {
+            setConversionType(v as ConversionType);
+            setNewMapping({ source: '', target: '' });
+          }}
+        >
+          <TabsList>
+            {CONVERSION_TYPES.map(type => (
+              <TabsTrigger key={type} value={type}>{CONVERSION_TYPE_LABELS[type]}</TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : mappings.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">
+            No fields are copied for this conversion yet
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {mappings.map(mapping => (
+              <div key={mapping.id} className="flex items-center justify-between p-3 border rounded-lg hover:bg-muted/50">
+                <div className={`flex items-center gap-3 text-sm ${mapping.is_active ? '' : 'opacity-50'}`}>
+                  <span className="font-medium">{labelFor(sourceOptions, mapping.source_field)}</span>
+                  <ArrowRight className="h-4 w-4 text-muted-foreground" />
+                  <span className="font-medium">{labelFor(targetOptions, mapping.target_field)}</span>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Switch
+                    checked={mapping.is_active}
+                    onCheckedChange={(checked) => toggleMapping(mapping, checked)}
+                    disabled={busyId === mapping.id}
+                    aria-label="Active"
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    onClick={() => deleteMapping(mapping)}
+                    disabled={busyId === mapping.id}
+                    aria-label="Remove mapping"
+                  >
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-center gap-2 pt-2">
+          <Select value={newMapping.source} onValueChange={source => setNewMapping(prev => ({ ...prev, source }))}>
+            <SelectTrigger className="w-56">
+              <SelectValue placeholder="Source field" />
+            </SelectTrigger>
+            <SelectContent>
+              {sourceOptions.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <ArrowRight className="h-4 w-4 text-muted-foreground" />
+          <Select value={newMapping.target} onValueChange={target => setNewMapping(prev => ({ ...prev, target }))}>
+            <SelectTrigger className="w-56">
+              <SelectValue placeholder="Target field" />
+            </SelectTrigger>
+            <SelectContent>
+              {availableTargets.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button onClick={addMapping} disabled={saving || availableTargets.length === 0}>
+            {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Plus className="h-4 w-4 mr-2" />}
+            Add Mapping
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ConversionMappingSettings;
@@ -15,7 +15,8 @@ import {
   Timer,
   Copy,
   ChevronDown,
-  ChevronUp
+  ChevronUp,
+  FileText
 } from 'lucide-react';
 import { format, formatDistanceToNow, differenceInHours } from 'date-fns';
 import { toast } from 'sonner';
@@ -28,6 +29,17 @@ interface KeepAliveStatus {
   hoursAgo: number | null;
 }
 
+interface ReportRun {
+  id: string;
+  status: string;
+  trigger_source: string;
+  sent_count: number | null;
+  recipients_count: number | null;
+  error_message: string | null;
+  started_at: string;
+  schedule: { name: string } | null;
+}
+
 interface CronJobMonitoringProps {
   embedded?: boolean;
 }
@@ -47,6 +59,7 @@ const CronJobMonitoring = ({ embedded = false }: CronJobMonitoringProps) => {
   const [loading, setLoading] = useState(true);
   const [testing, setTesting] = useState(false);
   const [howItWorksOpen, setHowItWorksOpen] = useState(false);
+  const [reportRuns, setReportRuns] = useState<ReportRun[]>([]);
   const intervalRef = useRef<NodeJS.Timeout | null>(null);
 
   const keepAliveEndpoint = `https://${SUPABASE_PROJECT_ID}.supabase.co/functions/v1/keep-alive`;
@@ -103,12 +116,28 @@ const CronJobMonitoring = ({ embedded = false }: CronJobMonitoringProps) => {
     }
   }, []);
 
+  const fetchReportRuns = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('report_runs')
+      .select('id, status, trigger_source, sent_count, recipients_count, error_message, started_at, schedule:report_schedules(name)')
+      .order('started_at', { ascending: false })
+      .limit(20);
+
+    if (error) {
+      console.error('Error fetching report runs:', error);
+      return;
+    }
+    setReportRuns((data || []) as ReportRun[]);
+  }, []);
+
   useEffect(() => {
     fetchKeepAliveStatus();
+    fetchReportRuns();
     
     // Set up auto-refresh
     intervalRef.current = setInterval(() => {
       fetchKeepAliveStatus(false); // Don't show loading state for auto-refresh
+      fetchReportRuns();
     }, AUTO_REFRESH_INTERVAL);
     
     return () => {
@@ -116,7 +145,14 @@ const CronJobMonitoring = ({ embedded = false }: CronJobMonitoringProps) => {
         clearInterval(intervalRef.current);
       }
     };
-  }, [fetchKeepAliveStatus]);
+  }, [fetchKeepAliveStatus, fetchReportRuns]);
+
+  const failedReportRuns = reportRuns.filter(run => run.status === 'failed' || run.status === 'partial');
+
+  const handleRefresh = () => {
+    fetchKeepAliveStatus();
+    fetchReportRuns();
+  };
 
   const handleTestKeepAlive = async () => {
     setTesting(true);
@@ -188,7 +224,7 @@ const CronJobMonitoring = ({ embedded = false }: CronJobMonitoringProps) => {
               Monitor scheduled jobs and database connectivity
             </p>
           </div>
-          <Button variant="outline" size="sm" onClick={() => fetchKeepAliveStatus()} disabled={loading}>
+          <Button variant="outline" size="sm" onClick={handleRefresh} disabled={loading}>
             <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
             Refresh
           </Button>
@@ -223,7 +259,7 @@ const CronJobMonitoring = ({ embedded = false }: CronJobMonitoringProps) => {
               )}
               Test Now
             </Button>
-            <Button variant="outline" size="sm" onClick={() => fetchKeepAliveStatus()} disabled={loading}>
+            <Button variant="outline" size="sm" onClick={handleRefresh} disabled={loading}>
               <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
             </Button>
           </div>
@@ -368,6 +404,55 @@ const CronJobMonitoring = ({ embedded = false }: CronJobMonitoringProps) => {
         </Card>
       </div>
 
+      {/* Scheduled report deliveries (run-scheduled-reports) */}
+      <Card className={`border-l-4 ${failedReportRuns.length > 0 ? 'border-l-destructive' : reportRuns.length > 0 ? 'border-l-green-500' : 'border-l-muted-foreground'}`}>
+        <CardHeader className="pb-2 pt-3 px-4">
+          <CardTitle className="flex items-center gap-2 text-sm font-medium">
+            <FileText className="h-4 w-4" />
+            Scheduled Reports
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-2 px-4 pb-3 text-xs">
+          {reportRuns.length === 0 ? (
+            <p className="text-muted-foreground">No report runs yet</p>
+          ) : (
+            <>
+              <div className="flex items-center justify-between text-muted-foreground">
+                <span className="flex items-center gap-1">
+                  <Clock className="h-3 w-3" />
+                  Last Run
+                </span>
+                <span className="font-medium text-foreground">
+                  {reportRuns[0].schedule?.name || 'Deleted schedule'} • {formatDistanceToNow(new Date(reportRuns[0].started_at), { addSuffix: true })}
+                </span>
+              </div>
+              {failedReportRuns.slice(0, 5).map(run => (
+                <div key={run.id} className="flex items-start gap-2">
+                  <XCircle className="h-3 w-3 text-destructive mt-0.5 flex-shrink-0" />
+                  <div className="min-w-0">
+                    <p className="font-medium">
+                      {run.schedule?.name || 'Deleted schedule'}
+                      <span className="text-muted-foreground font-normal">
+                        {' '}• {format(new Date(run.started_at), 'MMM d, HH:mm')} • {run.sent_count || 0}/{run.recipients_count || 0} sent
+                      </span>
+                    </p>
+                    {run.error_message && (
+                      <p className="text-muted-foreground truncate" title={run.error_message}>{run.error_message}</p>
+                    )}
+                  </div>
+                </div>
+              ))}
+              {failedReportRuns.length === 0 && (
+                <p className="flex items-center gap-1 text-green-600">
+                  <CheckCircle className="h-3 w-3" />
+                  All recent report deliveries succeeded
+                </p>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+
       {/* Warning Alerts */}
       {keepAlive.status === 'warning' && (
         <Alert className="border-yellow-500/50 bg-yellow-500/5">
@@ -0,0 +1,276 @@
+import { useState, useEffect, useMemo } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { toast } from 'sonner';
+import { format } from 'date-fns';
+import { Plus, Trash2, Loader2, Save, AlertCircle } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { useCurrencyConverter, invalidateCurrencyQueries } from '@/hooks/useCurrencyConverter';
+import { SUPPORTED_CURRENCIES } from '@/utils/formatUtils';
+import { DEFAULT_DEAL_CURRENCY } from '@/utils/currencyConversion';
+
+// Currencies deals can be entered in (deals.currency_type)
+const DEAL_CURRENCIES = ['EUR', 'USD', 'INR'];
+
+const today = () => format(new Date(), 'yyyy-MM-dd');
+
+const CurrencySettings = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const { reportingCurrency, settingsId, rates, converter, isLoading } = useCurrencyConverter();
+
+  const [selectedCurrency, setSelectedCurrency] = useState(reportingCurrency);
+  const [savingCurrency, setSavingCurrency] = useState(false);
+  const [newRate, setNewRate] = useState({ from: 'USD', to: reportingCurrency, rate: '', date: today() });
+  const [addingRate, setAddingRate] = useState(false);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    setSelectedCurrency(reportingCurrency);
+    setNewRate(prev => ({ ...prev, to: reportingCurrency }));
+  }, [reportingCurrency]);
+
+  // Deal currencies that can't reach the reporting currency with today's rates
+  const missingPairs = useMemo(() => {
+    if (!converter) return [];
+    const date = today();
+    return [...new Set([...DEAL_CURRENCIES, DEFAULT_DEAL_CURRENCY])]
+      .filter(code => converter.getRate(code, reportingCurrency, date) === null);
+  }, [converter, reportingCurrency]);
+
+  const handleSaveCurrency = async () => {
+    setSavingCurrency(true);
+    try {
+      const { error } = settingsId
+        ? await supabase
+            .from('currency_settings')
+            .update({ reporting_currency: selectedCurrency, updated_by: user?.id })
+            .eq('id', settingsId)
+        : await supabase
+            .from('currency_settings')
+            .insert({ reporting_currency: selectedCurrency, updated_by: user?.id });
+      if (error) throw error;
+
+      await invalidateCurrencyQueries(queryClient);
+      toast.success(`Reporting currency set to ${selectedCurrency}`);
+    } catch (error) {
+      console.error('Error saving reporting currency:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save reporting currency');
+    } finally {
+      setSavingCurrency(false);
+    }
+  };
+
+  const handleAddRate = async () => {
+    const rate = Number(newRate.rate);
+    if (newRate.from === newRate.to) {
+      toast.error('Choose two different currencies');
+      return;
+    }
+    if (!rate || rate <= 0) {
+      toast.error('Enter a rate greater than zero');
+      return;
+    }
+    if (!newRate.date) {
+      toast.error('Enter the date the rate takes effect');
+      return;
+    }
+
+    setAddingRate(true);
+    try {
+      // Re-entering a pair for the same date corrects that entry
+      const { error } = await supabase
+        .from('exchange_rates')
+        .upsert({
+          from_currency: newRate.from,
+          to_currency: newRate.to,
+          rate,
+          effective_date: newRate.date,
+          created_by: user?.id,
+        }, { onConflict: 'from_currency,to_currency,effective_date' });
+      if (error) throw error;
+
+      await invalidateCurrencyQueries(queryClient);
+      setNewRate(prev => ({ ...prev, rate: '' }));
+      toast.success(`Rate for ${newRate.from} → ${newRate.to} saved`);
+    } catch (error) {
+      console.error('Error saving exchange rate:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save exchange rate');
+    } finally {
+      setAddingRate(false);
+    }
+  };
+
+  const handleDeleteRate = async (id: string) => {
+    setDeletingId(id);
+    try {
+      const { error } = await supabase.from('exchange_rates').delete().eq('id', id);
+      if (error) throw error;
+
+      await invalidateCurrencyQueries(queryClient);
+      toast.success('Exchange rate deleted');
+    } catch (error) {
+      console.error('Error deleting exchange rate:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to delete exchange rate');
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-end gap-3">
+        <div className="space-y-1.5">
+          <Label>Reporting currency</Label>
+          <Select value={selectedCurrency} onValueChange={setSelectedCurrency}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SUPPORTED_CURRENCIES.map(code => (
+                <SelectItem key={code} value={code}>{code}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <Button
+          onClick={handleSaveCurrency}
+          disabled={savingCurrency || selectedCurrency === reportingCurrency}
+        >
+          {savingCurrency ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+          Save
+        </Button>
+        <p className="text-sm text-muted-foreground basis-full">
+          Dashboards, revenue targets, forecasts and exports are totalled in this currency. Deals keep the currency they were entered in.
+        </p>
+      </div>
+
+      {missingPairs.length > 0 && (
+        <div className="flex items-start gap-2 rounded-md border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800 dark:border-amber-800 dark:bg-amber-950/30 dark:text-amber-300">
+          <AlertCircle className="h-4 w-4 mt-0.5 shrink-0" />
+          <span>
+            No rate to {reportingCurrency} for {missingPairs.join(', ')}. Deals in {missingPairs.length === 1 ? 'this currency' : 'these currencies'} are left out of revenue totals until a rate is added.
+          </span>
+        </div>
+      )}
+
+      <div className="space-y-3">
+        <div>
+          <h4 className="text-sm font-medium">Exchange rates</h4>
+          <p className="text-sm text-muted-foreground">
+            1 unit of the first currency in the second. A deal is converted with the latest rate on or before its signed date (won deals) or expected closing date; older deals use the earliest rate. Reverse pairs are derived automatically.
+          </p>
+        </div>
+
+        <div className="flex flex-wrap items-end gap-2">
+          <div className="space-y-1.5">
+            <Label className="text-xs">From</Label>
+            <Select value={newRate.from} onValueChange={from => setNewRate(prev => ({ ...prev, from }))}>
+              <SelectTrigger className="w-28">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SUPPORTED_CURRENCIES.map(code => (
+                  <SelectItem key={code} value={code}>{code}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1.5">
+            <Label className="text-xs">To</Label>
+            <Select value={newRate.to} onValueChange={to => setNewRate(prev => ({ ...prev, to }))}>
+              <SelectTrigger className="w-28">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SUPPORTED_CURRENCIES.map(code => (
+                  <SelectItem key={code} value={code}>{code}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1.5">
+            <Label className="text-xs">Rate</Label>
+            <Input
+              type="number"
+              min="0"
+              step="any"
+              className="w-32"
+              placeholder="0.92"
+              value={newRate.rate}
+              onChange={e => setNewRate(prev => ({ ...prev, rate: e.target.value }))}
+            />
+          </div>
+          <div className="space-y-1.5">
+            <Label className="text-xs">Effective from</Label>
+            <Input
+              type="date"
+              className="w-40"
+              value={newRate.date}
+              onChange={e => setNewRate(prev => ({ ...prev, date: e.target.value }))}
+            />
+          </div>
+          <Button onClick={handleAddRate} disabled={addingRate}>
+            {addingRate ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Plus className="h-4 w-4 mr-2" />}
+            Add Rate
+          </Button>
+        </div>
+
+        {rates.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-4 text-center">No exchange rates yet</p>
+        ) : (
+          <div className="border rounded-md">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Pair</TableHead>
+                  <TableHead className="text-right">Rate</TableHead>
+                  <TableHead>Effective from</TableHead>
+                  <TableHead className="w-12" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rates.map(rate => (
+                  <TableRow key={rate.id}>
+                    <TableCell>
+                      <Badge variant="outline">{rate.from_currency} → {rate.to_currency}</Badge>
+                    </TableCell>
+                    <TableCell className="text-right font-mono">{rate.rate}</TableCell>
+                    <TableCell>{format(new Date(rate.effective_date), 'dd MMM yyyy')}</TableCell>
+                    <TableCell>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => handleDeleteRate(rate.id)}
+                        disabled={deletingId === rate.id}
+                      >
+                        <Trash2 className="h-4 w-4 text-destructive" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CurrencySettings;
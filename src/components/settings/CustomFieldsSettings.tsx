@@ -0,0 +1,431 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { CUSTOM_FIELDS_QUERY_KEY, fetchCustomFields } from '@/hooks/useCustomFields';
+import {
+  CUSTOM_FIELD_ENTITY_LABELS,
+  CUSTOM_FIELD_TYPE_LABELS,
+  CustomField,
+  CustomFieldEntityType,
+  CustomFieldType,
+  toCustomFieldName,
+} from '@/types/customField';
+import { toast } from 'sonner';
+import { useUserRole } from '@/hooks/useUserRole';
+import { Loader2, Plus, Trash2, GripVertical, ListPlus, AlertCircle } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { DeleteConfirmDialog } from '@/components/shared/DeleteConfirmDialog';
+import { DragDropContext, Droppable, Draggable, DropResult } from '@hello-pangea/dnd';
+
+const ENTITY_TYPES = Object.keys(CUSTOM_FIELD_ENTITY_LABELS) as CustomFieldEntityType[];
+const FIELD_TYPES = Object.keys(CUSTOM_FIELD_TYPE_LABELS) as CustomFieldType[];
+
+const hasOptions = (type?: CustomFieldType) => type === 'select' || type === 'multiselect';
+
+interface EditingField extends Partial<CustomField> {
+  optionsText?: string;
+}
+
+const CustomFieldsSettings = () => {
+  const { userRole } = useUserRole();
+  const queryClient = useQueryClient();
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [fields, setFields] = useState<CustomField[]>([]);
+  const [entityType, setEntityType] = useState<CustomFieldEntityType>('account');
+  const [showFieldModal, setShowFieldModal] = useState(false);
+  const [editingField, setEditingField] = useState<EditingField | null>(null);
+  const [fieldToDelete, setFieldToDelete] = useState<CustomField | null>(null);
+  const [validationError, setValidationError] = useState<string | null>(null);
+
+  const isAdmin = userRole === 'admin';
+  const entityFields = fields.filter(f => f.entity_type === entityType);
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  const fetchData = async () => {
+    setFields(await fetchCustomFields());
+    setLoading(false);
+  };
+
+  const refresh = () => {
+    fetchData();
+    queryClient.invalidateQueries({ queryKey: CUSTOM_FIELDS_QUERY_KEY });
+  };
+
+  const validateField = (field: EditingField): string | null => {
+    if (!field.field_label?.trim()) {
+      return 'Label is required';
+    }
+    const name = field.id ? field.field_name : toCustomFieldName(field.field_label);
+    if (!name || !/^[a-z]/.test(name)) {
+      return 'Label must start with a letter';
+    }
+    if (entityFields.some(f => f.id !== field.id && f.field_name === name)) {
+      return 'A field with this name already exists';
+    }
+    if (hasOptions(field.field_type) && !field.optionsText?.trim()) {
+      return 'Add at least one option';
+    }
+    return null;
+  };
+
+  const saveField = async () => {
+    if (!editingField) return;
+    const error = validateField(editingField);
+    if (error) {
+      setValidationError(error);
+      return;
+    }
+
+    setSaving(true);
+    setValidationError(null);
+
+    const fieldOptions = hasOptions(editingField.field_type)
+      ? Array.from(new Set((editingField.optionsText || '').split('\n').map(o => o.trim()).filter(Boolean)))
+      : [];
+
+    try {
+      if (editingField.id) {
+        // field_name and field_type stay fixed so stored values keep their meaning
+        const { error } = await supabase
+          .from('crm_custom_fields')
+          .update({
+            field_label: editingField.field_label?.trim(),
+            field_options: fieldOptions,
+            is_required: editingField.is_required ?? false,
+            is_visible: editingField.is_visible ?? true,
+          })
+          .eq('id', editingField.id);
+        if (error) throw error;
+      } else {
+        const { data: { user } } = await supabase.auth.getUser();
+        const { error } = await supabase
+          .from('crm_custom_fields')
+          .insert({
+            entity_type: entityType,
+            field_name: toCustomFieldName(editingField.field_label || ''),
+            field_label: editingField.field_label?.trim() || '',
+            field_type: editingField.field_type || 'text',
+            field_options: fieldOptions,
+            is_required: editingField.is_required ?? false,
+            is_visible: editingField.is_visible ?? true,
+            display_order: entityFields.length,
+            created_by: user?.id,
+          });
+        if (error) throw error;
+      }
+
+      toast.success('Field saved successfully');
+      setShowFieldModal(false);
+      setEditingField(null);
+      refresh();
+    } catch (error) {
+      console.error('Error saving custom field:', error);
+      toast.error('Failed to save field');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const confirmDeleteField = async () => {
+    if (!fieldToDelete) return;
+    try {
+      const { error } = await supabase
+        .from('crm_custom_fields')
+        .delete()
+        .eq('id', fieldToDelete.id);
+      if (error) throw error;
+      toast.success('Field deleted');
+      setFieldToDelete(null);
+      refresh();
+    } catch (error) {
+      console.error('Error deleting custom field:', error);
+      toast.error('Failed to delete field');
+    }
+  };
+
+  const handleDragEnd = async (result: DropResult) => {
+    if (!result.destination) return;
+
+    const items = Array.from(entityFields);
+    const [reorderedItem] = items.splice(result.source.index, 1);
+    items.splice(result.destination.index, 0, reorderedItem);
+
+    // Update local state immediately
+    const reordered = items.map((field, index) => ({ ...field, display_order: index }));
+    setFields(prev => [...prev.filter(f => f.entity_type !== entityType), ...reordered]);
+
+    // Persist to database
+    try {
+      for (const field of reordered) {
+        await supabase
+          .from('crm_custom_fields')
+          .update({ display_order: field.display_order })
+          .eq('id', field.id);
+      }
+      toast.success('Field order updated');
+      queryClient.invalidateQueries({ queryKey: CUSTOM_FIELDS_QUERY_KEY });
+    } catch (error) {
+      console.error('Error updating field order:', error);
+      toast.error('Failed to update field order');
+      fetchData(); // Rollback on error
+    }
+  };
+
+  const openFieldModal = (field?: CustomField) => {
+    setEditingField(
+      field
+        ? { ...field, optionsText: field.field_options.join('\n') }
+        : { field_label: '', field_type: 'text', is_required: false, is_visible: true, optionsText: '' }
+    );
+    setValidationError(null);
+    setShowFieldModal(true);
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!isAdmin) {
+    return (
+      <Card>
+        <CardContent className="py-8 text-center">
+          <p className="text-muted-foreground">
+            Only administrators can manage custom fields.
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <ListPlus className="h-5 w-5" />
+                Custom Fields
+              </CardTitle>
+              <CardDescription>
+                Add your own fields to accounts, contacts, leads and deals
+              </CardDescription>
+            </div>
+            <Button onClick={() => openFieldModal()}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Field
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Tabs value={entityType} onValueChange={(v) => setEntityType(v as CustomFieldEntityType)}>
+            <TabsList>
+              {ENTITY_TYPES.map(type => (
+                <TabsTrigger key={type} value={type}>
+                  {CUSTOM_FIELD_ENTITY_LABELS[type]}
+                  <Badge variant="secondary" className="ml-2 h-5 px-1.5 text-xs">
+                    {fields.filter(f => f.entity_type === type).length}
+                  </Badge>
+                </TabsTrigger>
+              ))}
+            </TabsList>
+          </Tabs>
+
+          {entityFields.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">
+              No custom fields for {CUSTOM_FIELD_ENTITY_LABELS[entityType].toLowerCase()} yet
+            </p>
+          ) : (
+            <DragDropContext onDragEnd={handleDragEnd}>
+              <Droppable droppableId="custom-fields">
+                {(provided) => (
+                  <div
+                    className="space-y-2"
+                    {...provided.droppableProps}
+                    ref={provided.innerRef}
+                  >
+                    {entityFields.map((field, index) => (
+                      <Draggable key={field.id} draggableId={field.id} index={index}>
+                        {(provided, snapshot) => (
+                          <div
+                            ref={provided.innerRef}
+                            {...provided.draggableProps}
+                            className={`flex items-center justify-between p-3 border rounded-lg transition-colors ${
+                              snapshot.isDragging ? 'bg-muted shadow-md' : 'hover:bg-muted/50'
+                            }`}
+                          >
+                            <div className="flex items-center gap-3">
+                              <div
+                                {...provided.dragHandleProps}
+                                className="cursor-grab active:cursor-grabbing"
+                              >
+                                <GripVertical className="h-4 w-4 text-muted-foreground" />
+                              </div>
+                              <span className="font-medium">{field.field_label}</span>
+                              <span className="text-xs text-muted-foreground font-mono">{field.field_name}</span>
+                              <Badge variant="outline">{CUSTOM_FIELD_TYPE_LABELS[field.field_type] || field.field_type}</Badge>
+                              {field.is_required && <Badge>Required</Badge>}
+                              {!field.is_visible && <Badge variant="secondary">Hidden</Badge>}
+                            </div>
+                            <div className="flex items-center gap-2">
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => openFieldModal(field)}
+                                aria-label={`Edit ${field.field_label}`}
+                              >
+                                Edit
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                className="text-destructive"
+                                onClick={() => setFieldToDelete(field)}
+                                aria-label={`Delete ${field.field_label}`}
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </div>
+                          </div>
+                        )}
+                      </Draggable>
+                    ))}
+                    {provided.placeholder}
+                  </div>
+                )}
+              </Droppable>
+            </DragDropContext>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Field Edit Modal */}
+      <Dialog open={showFieldModal} onOpenChange={setShowFieldModal}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {editingField?.id ? 'Edit Field' : `Add ${CUSTOM_FIELD_ENTITY_LABELS[entityType].slice(0, -1)} Field`}
+            </DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="field-label">Label</Label>
+              <Input
+                id="field-label"
+                value={editingField?.field_label || ''}
+                onChange={(e) => {
+                  setEditingField(f => ({ ...f, field_label: e.target.value }));
+                  setValidationError(null);
+                }}
+                placeholder="e.g. Contract Tier"
+                aria-invalid={!!validationError}
+                aria-describedby={validationError ? "field-label-error" : undefined}
+              />
+              <p className="text-xs text-muted-foreground">
+                Key: <span className="font-mono">
+                  {editingField?.id ? editingField.field_name : toCustomFieldName(editingField?.field_label || '') || '-'}
+                </span>
+                {' '}(used in CSV files and can't be changed later)
+              </p>
+              {validationError && (
+                <p id="field-label-error" className="text-sm text-destructive flex items-center gap-1">
+                  <AlertCircle className="h-3.5 w-3.5" />
+                  {validationError}
+                </p>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="field-type">Type</Label>
+              <Select
+                value={editingField?.field_type || 'text'}
+                onValueChange={(v) => setEditingField(f => ({ ...f, field_type: v as CustomFieldType }))}
+                disabled={!!editingField?.id}
+              >
+                <SelectTrigger id="field-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {FIELD_TYPES.map(type => (
+                    <SelectItem key={type} value={type}>{CUSTOM_FIELD_TYPE_LABELS[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {hasOptions(editingField?.field_type) && (
+              <div className="space-y-2">
+                <Label htmlFor="field-options">Options (one per line)</Label>
+                <Textarea
+                  id="field-options"
+                  value={editingField?.optionsText || ''}
+                  onChange={(e) => {
+                    setEditingField(f => ({ ...f, optionsText: e.target.value }));
+                    setValidationError(null);
+                  }}
+                  rows={5}
+                />
+              </div>
+            )}
+            <div className="flex items-center justify-between">
+              <Label htmlFor="field-required">Required</Label>
+              <Switch
+                id="field-required"
+                checked={editingField?.is_required ?? false}
+                onCheckedChange={(checked) => setEditingField(f => ({ ...f, is_required: checked }))}
+              />
+            </div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="field-visible">Show on forms</Label>
+              <Switch
+                id="field-visible"
+                checked={editingField?.is_visible ?? true}
+                onCheckedChange={(checked) => setEditingField(f => ({ ...f, is_visible: checked }))}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowFieldModal(false)}>
+              Cancel
+            </Button>
+            <Button onClick={saveField} disabled={saving}>
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <DeleteConfirmDialog
+        open={!!fieldToDelete}
+        onOpenChange={(open) => !open && setFieldToDelete(null)}
+        onConfirm={confirmDeleteField}
+        title="Delete Custom Field"
+        description={`Are you sure you want to delete the "${fieldToDelete?.field_label}" field? Its values will be removed from every record.`}
+      />
+    </div>
+  );
+};
+
+export default CustomFieldsSettings;
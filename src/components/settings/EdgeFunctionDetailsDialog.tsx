@@ -50,10 +50,10 @@ const SAFE_TEST_FUNCTIONS: Record<string, { body?: object; description: string }
 const UNSAFE_FUNCTIONS = [
   'send-email', 'create-backup', 'restore-backup', 
   'create-teams-meeting', 'update-teams-meeting', 'cancel-teams-meeting',
-  'send-task-reminders', 'send-task-notification',
-  'track-email-open', 'track-email-click', 'mark-email-bounced',
-  'process-bounce-checks', 'process-email-replies',
-  'sync-email-bounces', 'backfill-message-ids', 'sync-profile-names'
+  'send-task-reminders', 'send-task-notification', 'run-scheduled-reports',
+  'track-email-open', 'track-email-click', 'unsubscribe', 'mark-email-bounced',
+  'process-bounce-checks', 'process-email-replies', 'process-email-sequences',
+  'process-bulk-email-jobs', 'recalculate-scores', 'sync-email-bounces', 'backfill-message-ids', 'sync-profile-names'
 ];
 
 // Where each function is triggered in the UI
@@ -68,11 +68,16 @@ const FUNCTION_USAGE: Record<string, string> = {
   'process-email-replies': 'Scheduled cron job for reply detection',
   'track-email-open': 'Tracking pixel in sent emails',
   'track-email-click': 'Link click tracking in sent emails',
+  'unsubscribe': 'Unsubscribe link and List-Unsubscribe header in sent emails',
   'mark-email-bounced': 'Called by bounce checker',
   'sync-email-bounces': 'Legacy - Not actively used',
   'backfill-message-ids': 'One-time migration - Not actively used',
   'send-task-reminders': 'Daily cron job for task reminders',
   'send-task-notification': 'Triggered on task assignment',
+  'run-scheduled-reports': 'Scheduled cron job; Settings → Reports (Send now button)',
+  'process-email-sequences': 'Scheduled cron job (every few minutes) for Email Center → Sequences',
+  'process-bulk-email-jobs': 'Scheduled cron job (every minute); Leads/Contacts → Send Email; Email Center → Bulk Jobs',
+  'recalculate-scores': 'Scheduled cron job (nightly) for lead and contact scores',
   'create-teams-meeting': 'Meetings → Create Meeting with Teams',
   'update-teams-meeting': 'Meetings → Edit Meeting',
   'cancel-teams-meeting': 'Meetings → Cancel Meeting',
@@ -20,7 +20,8 @@ import {
   Users,
   Play,
   Zap,
-  AlertTriangle
+  AlertTriangle,
+  Gauge
 } from 'lucide-react';
 import { format, formatDistanceToNow } from 'date-fns';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
@@ -69,6 +70,10 @@ const EdgeFunctionMonitor = ({ embedded = false }: EdgeFunctionMonitorProps) =>
         tasksResult,
         meetingsResult,
         profilesResult,
+        reportRunsResult,
+        sequenceEmailsResult,
+        bulkJobsResult,
+        scoreRunsResult,
       ] = await Promise.all([
         supabase.from('keep_alive').select('*').order('created_at', { ascending: false }).limit(1),
         supabase.from('email_history').select('id, sent_at', { count: 'exact', head: false }).order('sent_at', { ascending: false }).limit(1),
@@ -79,6 +84,10 @@ const EdgeFunctionMonitor = ({ embedded = false }: EdgeFunctionMonitorProps) =>
         supabase.from('tasks').select('id, created_at').order('created_at', { ascending: false }).limit(1),
         supabase.from('meetings').select('id, created_at').order('created_at', { ascending: false }).limit(1),
         supabase.from('profiles').select('id', { count: 'exact', head: true }),
+        supabase.from('report_runs').select('id, status, started_at').order('started_at', { ascending: false }).limit(1),
+        supabase.from('email_history').select('id, sent_at').not('sequence_step_id', 'is', null).order('sent_at', { ascending: false }).limit(1),
+        supabase.from('bulk_email_jobs').select('id, status, started_at, total_count, sent_count, failed_count').order('created_at', { ascending: false }).limit(50),
+        supabase.from('record_score_history').select('id, calculated_at').eq('reason', 'scheduled').order('calculated_at', { ascending: false }).limit(1),
       ]);
 
       const getStatus = (data: any, field: string = 'created_at'): { status: 'active' | 'unknown' | 'never_used', lastActivity?: string } => {
@@ -119,6 +128,15 @@ const EdgeFunctionMonitor = ({ embedded = false }: EdgeFunctionMonitorProps) =>
       const replyStatus = getStatus(repliesResult, 'received_at');
       const backupStatus = getStatus(backupsResult);
       const securityStatus = getStatus(securityLogsResult);
+      const reportRunStatus = getStatus(reportRunsResult, 'started_at');
+      const sequenceStatus = getStatus(sequenceEmailsResult, 'sent_at');
+      const scoreRunStatus = getStatus(scoreRunsResult, 'calculated_at');
+      const bulkJobs = bulkJobsResult?.data || [];
+      const runningBulkJobs = bulkJobs.filter(job => job.status === 'running');
+      const lastStartedBulkJob = bulkJobs.find(job => job.started_at);
+      const bulkJobsStatus: EdgeFunctionStatus['status'] = bulkJobs[0]?.status === 'failed'
+        ? 'error'
+        : lastStartedBulkJob ? getStatus({ data: [lastStartedBulkJob] }, 'started_at').status : 'never_used';
 
       const functionsList: EdgeFunctionStatus[] = [
         // System Functions
@@ -151,6 +169,26 @@ const EdgeFunctionMonitor = ({ embedded = false }: EdgeFunctionMonitorProps) =>
           icon: <Database className="h-4 w-4" />,
           isRequired: true
         },
+        {
+          name: 'run-scheduled-reports',
+          displayName: 'Scheduled Reports',
+          category: 'system',
+          status: reportRunsResult?.data?.[0]?.status === 'failed' ? 'error' : reportRunStatus.status,
+          lastActivity: reportRunStatus.lastActivity,
+          description: 'Builds and emails reports configured in Scheduled Reports',
+          icon: <Calendar className="h-4 w-4" />,
+          isRequired: true
+        },
+        {
+          name: 'recalculate-scores',
+          displayName: 'Score Recalculation',
+          category: 'system',
+          status: scoreRunStatus.status,
+          lastActivity: scoreRunStatus.lastActivity,
+          description: 'Re-scores leads and contacts nightly so older activity counts for less',
+          icon: <Gauge className="h-4 w-4" />,
+          isRequired: false
+        },
         {
           name: 'security-monitor',
           displayName: 'Security Monitor',
@@ -203,6 +241,29 @@ const EdgeFunctionMonitor = ({ embedded = false }: EdgeFunctionMonitorProps) =>
           icon: <Mail className="h-4 w-4" />,
           isRequired: true
         },
+        {
+          name: 'process-email-sequences',
+          displayName: 'Email Sequences',
+          category: 'email',
+          status: sequenceStatus.status,
+          lastActivity: sequenceStatus.lastActivity,
+          description: 'Sends due sequence steps within business hours',
+          icon: <Mail className="h-4 w-4" />,
+          isRequired: false
+        },
+        {
+          name: 'process-bulk-email-jobs',
+          displayName: 'Bulk Email Jobs',
+          category: 'email',
+          status: bulkJobsStatus,
+          lastActivity: lastStartedBulkJob?.started_at || undefined,
+          activityCount: runningBulkJobs.length,
+          description: runningBulkJobs.length > 0
+            ? `Sending ${runningBulkJobs.length} job(s): ${runningBulkJobs.reduce((n, job) => n + job.sent_count + job.failed_count, 0)} of ${runningBulkJobs.reduce((n, job) => n + job.total_count, 0)} emails processed`
+            : 'Sends scheduled bulk emails at each job\'s rate with retries',
+          icon: <Mail className="h-4 w-4" />,
+          isRequired: false
+        },
         {
           name: 'track-email-open',
           displayName: 'Open Tracker',
@@ -221,6 +282,15 @@ const EdgeFunctionMonitor = ({ embedded = false }: EdgeFunctionMonitorProps) =>
           icon: <Mail className="h-4 w-4" />,
           isRequired: true
         },
+        {
+          name: 'unsubscribe',
+          displayName: 'Unsubscribe',
+          category: 'email',
+          status: emailStatus.status,
+          description: 'Unsubscribe page and one-click opt-out for sent emails',
+          icon: <Mail className="h-4 w-4" />,
+          isRequired: true
+        },
         {
           name: 'mark-email-bounced',
           displayName: 'Mark Bounced',
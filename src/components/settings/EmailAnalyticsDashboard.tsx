@@ -21,7 +21,9 @@ import {
 } from 'recharts';
 import { Mail, Eye, TrendingUp, Download, XCircle, Reply, Loader2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { cn } from '@/lib/utils';
+import { useEmailSequences, useSequenceStepStats } from '@/hooks/useEmailSequences';
 
 interface DailyStats {
   date: string;
@@ -36,6 +38,73 @@ interface StatusDistribution {
   value: number;
 }
 
+const percentOf = (value: number, total: number) => (total > 0 ? `${Math.round((value / total) * 100)}%` : '—');
+
+// Per-step engagement for one sequence, from get_sequence_step_stats
+const SequencePerformanceCard = () => {
+  const { sequences, loading: sequencesLoading } = useEmailSequences();
+  const [sequenceId, setSequenceId] = useState<string | null>(null);
+  const activeId = sequenceId || sequences[0]?.id || null;
+  const { stats, loading } = useSequenceStepStats(activeId);
+
+  if (!sequencesLoading && sequences.length === 0) return null;
+
+  return (
+    <Card className="lg:col-span-3">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="text-base">Sequence Performance</CardTitle>
+        <Select value={activeId || ''} onValueChange={setSequenceId}>
+          <SelectTrigger className="w-56">
+            <SelectValue placeholder="Choose a sequence" />
+          </SelectTrigger>
+          <SelectContent>
+            {sequences.map(sequence => (
+              <SelectItem key={sequence.id} value={sequence.id}>{sequence.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent>
+        {loading || sequencesLoading ? (
+          <Skeleton className="h-32 w-full" />
+        ) : stats.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">This sequence has no steps yet</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Step</TableHead>
+                <TableHead>Template</TableHead>
+                <TableHead className="text-right">Sent</TableHead>
+                <TableHead className="text-right">Opened</TableHead>
+                <TableHead className="text-right">Clicked</TableHead>
+                <TableHead className="text-right">Replied</TableHead>
+                <TableHead className="text-right">Bounced</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {stats.map(step => (
+                <TableRow key={step.step_id}>
+                  <TableCell className="font-medium">
+                    {step.step_order}
+                    <span className="text-xs text-muted-foreground ml-1">(+{step.day_offset}d)</span>
+                  </TableCell>
+                  <TableCell>{step.template_name || '—'}</TableCell>
+                  <TableCell className="text-right">{step.sent}</TableCell>
+                  <TableCell className="text-right">{step.opened} <span className="text-xs text-muted-foreground">{percentOf(step.opened, step.sent)}</span></TableCell>
+                  <TableCell className="text-right">{step.clicked} <span className="text-xs text-muted-foreground">{percentOf(step.clicked, step.sent)}</span></TableCell>
+                  <TableCell className="text-right">{step.replied} <span className="text-xs text-muted-foreground">{percentOf(step.replied, step.sent)}</span></TableCell>
+                  <TableCell className="text-right">{step.bounced} <span className="text-xs text-muted-foreground">{percentOf(step.bounced, step.sent)}</span></TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
 export const EmailAnalyticsDashboard = () => {
   const [loading, setLoading] = useState(true);
   const [exporting, setExporting] = useState(false);
@@ -517,6 +586,8 @@ export const EmailAnalyticsDashboard = () => {
             </div>
           </CardContent>
         </Card>
+
+        <SequencePerformanceCard />
       </div>
     </div>
   );
@@ -1,10 +1,13 @@
 import { useState, useEffect, lazy, Suspense } from 'react';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { FileText, History, BarChart3 } from 'lucide-react';
+import { FileText, History, BarChart3, ListOrdered, Mails, MailX } from 'lucide-react';
 import SettingsLoadingSkeleton from './shared/SettingsLoadingSkeleton';
 
 // Lazy load heavy components
 const EmailTemplatesSettings = lazy(() => import('@/components/settings/EmailTemplatesSettings'));
+const EmailSequencesSettings = lazy(() => import('@/components/settings/EmailSequencesSettings'));
+const BulkEmailJobsSettings = lazy(() => import('@/components/settings/BulkEmailJobsSettings'));
+const EmailSuppressionsSettings = lazy(() => import('@/components/settings/EmailSuppressionsSettings'));
 const EmailHistorySettings = lazy(() => import('@/components/settings/EmailHistorySettings'));
 const EmailAnalyticsDashboard = lazy(() => import('@/components/settings/EmailAnalyticsDashboard').then(m => ({ default: m.EmailAnalyticsDashboard })));
 
@@ -12,7 +15,7 @@ interface EmailCenterPageProps {
   defaultTab?: string | null;
 }
 
-const validTabs = ['templates', 'history', 'analytics'];
+const validTabs = ['templates', 'sequences', 'bulk', 'suppressions', 'history', 'analytics'];
 
 const EmailCenterPage = ({ defaultTab }: EmailCenterPageProps) => {
   const [activeTab, setActiveTab] = useState(() => {
@@ -32,11 +35,23 @@ const EmailCenterPage = ({ defaultTab }: EmailCenterPageProps) => {
     <div className="space-y-6 w-full">
       <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
         <div className="sticky top-0 z-10 bg-background pb-2 border-b border-border">
-          <TabsList className="grid w-full grid-cols-3 max-w-md">
+          <TabsList className="grid w-full grid-cols-6 max-w-3xl">
           <TabsTrigger value="templates" className="flex items-center gap-2">
             <FileText className="h-4 w-4" />
             <span className="sr-only sm:not-sr-only">Templates</span>
           </TabsTrigger>
+          <TabsTrigger value="sequences" className="flex items-center gap-2">
+            <ListOrdered className="h-4 w-4" />
+            <span className="sr-only sm:not-sr-only">Sequences</span>
+          </TabsTrigger>
+          <TabsTrigger value="bulk" className="flex items-center gap-2">
+            <Mails className="h-4 w-4" />
+            <span className="sr-only sm:not-sr-only">Bulk Jobs</span>
+          </TabsTrigger>
+          <TabsTrigger value="suppressions" className="flex items-center gap-2">
+            <MailX className="h-4 w-4" />
+            <span className="sr-only sm:not-sr-only">Unsubscribes</span>
+          </TabsTrigger>
           <TabsTrigger value="history" className="flex items-center gap-2">
             <History className="h-4 w-4" />
             <span className="sr-only sm:not-sr-only">History</span>
@@ -54,6 +69,24 @@ const EmailCenterPage = ({ defaultTab }: EmailCenterPageProps) => {
           </Suspense>
         </TabsContent>
 
+        <TabsContent value="sequences" className="mt-6">
+          <Suspense fallback={<SettingsLoadingSkeleton />}>
+            <EmailSequencesSettings />
+          </Suspense>
+        </TabsContent>
+
+        <TabsContent value="bulk" className="mt-6">
+          <Suspense fallback={<SettingsLoadingSkeleton />}>
+            <BulkEmailJobsSettings />
+          </Suspense>
+        </TabsContent>
+
+        <TabsContent value="suppressions" className="mt-6">
+          <Suspense fallback={<SettingsLoadingSkeleton />}>
+            <EmailSuppressionsSettings />
+          </Suspense>
+        </TabsContent>
+
         <TabsContent value="history" className="mt-6">
           <Suspense fallback={<SettingsLoadingSkeleton />}>
             <EmailHistorySettings />
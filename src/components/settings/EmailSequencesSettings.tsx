@@ -0,0 +1,551 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { useUserDisplayNames } from '@/hooks/useUserDisplayNames';
+import {
+  SequenceInput,
+  useEmailSequenceActions,
+  useEmailSequences,
+  useSequenceEnrollments,
+} from '@/hooks/useEmailSequences';
+import {
+  BUSINESS_DAY_OPTIONS,
+  ENROLLMENT_STATUS_LABELS,
+  EmailSequence,
+  EnrollmentStatus,
+  formatBusinessHours,
+  getStepSendDays,
+} from '@/types/emailSequence';
+import { TIMEZONE_OPTIONS } from '@/utils/timezones';
+import {
+  ArrowDown,
+  ArrowUp,
+  Clock,
+  ListOrdered,
+  Pencil,
+  Plus,
+  RefreshCw,
+  Square,
+  Trash2,
+  Users,
+} from 'lucide-react';
+import { format } from 'date-fns';
+
+const emptySequence = (): SequenceInput => ({
+  name: '',
+  description: '',
+  is_active: true,
+  business_hours_start: '09:00',
+  business_hours_end: '17:00',
+  business_days: [1, 2, 3, 4, 5],
+  default_timezone: 'UTC',
+  steps: [],
+});
+
+const statusVariant = (status: EnrollmentStatus): 'default' | 'secondary' | 'destructive' | 'outline' => {
+  switch (status) {
+    case 'active':
+      return 'default';
+    case 'replied':
+    case 'completed':
+      return 'secondary';
+    case 'bounced':
+    case 'failed':
+      return 'destructive';
+    default:
+      return 'outline';
+  }
+};
+
+const SequenceEnrollmentsDialog = ({ sequence, onClose }: { sequence: EmailSequence | null; onClose: () => void }) => {
+  const { enrollments, loading } = useSequenceEnrollments(sequence?.id);
+  const { stopEnrollment, setEnrollmentTimezone } = useEmailSequenceActions();
+  const { displayNames } = useUserDisplayNames(enrollments.map(e => e.enrolled_by || ''));
+  const stepCount = sequence?.steps.length || 0;
+
+  return (
+    <Dialog open={!!sequence} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-5xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Enrollments: {sequence?.name}</DialogTitle>
+          <DialogDescription>
+            Sends go out {sequence && formatBusinessHours(sequence)} in each recipient's timezone.
+            A reply or bounce stops the enrollment automatically.
+          </DialogDescription>
+        </DialogHeader>
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <RefreshCw className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : enrollments.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">
+            Nobody is enrolled yet. Select leads or contacts and choose "Add to sequence".
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Recipient</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Step</TableHead>
+                <TableHead>Next send</TableHead>
+                <TableHead>Timezone</TableHead>
+                <TableHead>Enrolled by</TableHead>
+                <TableHead className="w-10" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {enrollments.map((enrollment) => (
+                <TableRow key={enrollment.id}>
+                  <TableCell>
+                    <div className="font-medium">{enrollment.recipient_name || enrollment.recipient_email}</div>
+                    <div className="text-xs text-muted-foreground">{enrollment.recipient_email}</div>
+                  </TableCell>
+                  <TableCell>
+                    <Badge
+                      variant={statusVariant(enrollment.status)}
+                      title={enrollment.stop_reason || enrollment.last_error || undefined}
+                    >
+                      {ENROLLMENT_STATUS_LABELS[enrollment.status] || enrollment.status}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {enrollment.status === 'active' ? `${enrollment.current_step} of ${stepCount}` : '—'}
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {enrollment.status === 'active' && enrollment.next_send_at
+                      ? format(new Date(enrollment.next_send_at), 'MMM d, HH:mm')
+                      : enrollment.stopped_at
+                        ? `Ended ${format(new Date(enrollment.stopped_at), 'MMM d')}`
+                        : '—'}
+                  </TableCell>
+                  <TableCell>
+                    {enrollment.status === 'active' ? (
+                      <Select
+                        value={enrollment.timezone}
+                        onValueChange={(value) => setEnrollmentTimezone(enrollment.id, value)}
+                      >
+                        <SelectTrigger className="h-8 w-44 text-xs">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {!TIMEZONE_OPTIONS.some(tz => tz.value === enrollment.timezone) && (
+                            <SelectItem value={enrollment.timezone}>{enrollment.timezone}</SelectItem>
+                          )}
+                          {TIMEZONE_OPTIONS.map(tz => (
+                            <SelectItem key={tz.value} value={tz.value}>{tz.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    ) : (
+                      <span className="text-sm text-muted-foreground">{enrollment.timezone}</span>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {enrollment.enrolled_by ? displayNames[enrollment.enrolled_by] || '…' : '—'}
+                  </TableCell>
+                  <TableCell>
+                    {enrollment.status === 'active' && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title="Stop sequence for this recipient"
+                        onClick={() => stopEnrollment(enrollment.id)}
+                      >
+                        <Square className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+const EmailSequencesSettings = () => {
+  const { sequences, loading } = useEmailSequences();
+  const { saveSequence, toggleSequenceActive, deleteSequence, isSaving } = useEmailSequenceActions();
+  const [showModal, setShowModal] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formData, setFormData] = useState<SequenceInput>(emptySequence);
+  const [enrollmentsFor, setEnrollmentsFor] = useState<EmailSequence | null>(null);
+
+  const { data: templates = [] } = useQuery({
+    queryKey: ['email-templates', 'options'],
+    queryFn: async () => {
+      const { data, error } = await supabase.from('email_templates').select('id, name').order('name');
+      if (error) throw error;
+      return data || [];
+    },
+    staleTime: 60 * 1000,
+  });
+
+  const handleOpenModal = (sequence?: EmailSequence) => {
+    if (sequence) {
+      setEditingId(sequence.id);
+      setFormData({
+        name: sequence.name,
+        description: sequence.description || '',
+        is_active: sequence.is_active,
+        business_hours_start: sequence.business_hours_start.slice(0, 5),
+        business_hours_end: sequence.business_hours_end.slice(0, 5),
+        business_days: sequence.business_days,
+        default_timezone: sequence.default_timezone,
+        steps: sequence.steps.map(({ id, day_offset, template_id, reply_to_previous }) => ({
+          id, day_offset, template_id, reply_to_previous,
+        })),
+      });
+    } else {
+      setEditingId(null);
+      setFormData(emptySequence());
+    }
+    setShowModal(true);
+  };
+
+  const updateStep = (index: number, changes: Partial<SequenceInput['steps'][number]>) => {
+    setFormData(prev => ({
+      ...prev,
+      steps: prev.steps.map((step, i) => (i === index ? { ...step, ...changes } : step)),
+    }));
+  };
+
+  const moveStep = (index: number, direction: -1 | 1) => {
+    setFormData(prev => {
+      const steps = [...prev.steps];
+      [steps[index], steps[index + direction]] = [steps[index + direction], steps[index]];
+      return { ...prev, steps };
+    });
+  };
+
+  const toggleBusinessDay = (day: number) => {
+    setFormData(prev => ({
+      ...prev,
+      business_days: prev.business_days.includes(day)
+        ? prev.business_days.filter(d => d !== day)
+        : [...prev.business_days, day].sort((a, b) => a - b),
+    }));
+  };
+
+  const handleSave = async () => {
+    if (!formData.name.trim()) {
+      toast.error('Sequence name is required');
+      return;
+    }
+    if (formData.steps.length === 0 || formData.steps.some(step => !step.template_id)) {
+      toast.error('Add at least one step and choose a template for every step');
+      return;
+    }
+    if (formData.business_days.length === 0 || formData.business_hours_start >= formData.business_hours_end) {
+      toast.error('Choose at least one business day and an end time after the start time');
+      return;
+    }
+
+    try {
+      await saveSequence({
+        id: editingId || undefined,
+        input: { ...formData, name: formData.name.trim(), description: formData.description?.trim() || null },
+      });
+      setShowModal(false);
+    } catch {
+      // Reported by the mutation
+    }
+  };
+
+  const handleDelete = (sequence: EmailSequence) => {
+    if (!confirm(`Delete "${sequence.name}"? Its enrollments are removed and no further steps are sent.`)) return;
+    deleteSequence(sequence.id);
+  };
+
+  const sendDays = getStepSendDays(formData.steps);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-semibold">Email Sequences</h3>
+          <p className="text-sm text-muted-foreground">
+            Multi-step cadences sent automatically until the recipient replies or the email bounces
+          </p>
+        </div>
+        <Button onClick={() => handleOpenModal()}>
+          <Plus className="h-4 w-4 mr-2" />
+          New Sequence
+        </Button>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-8">
+          <RefreshCw className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : sequences.length === 0 ? (
+        <Card>
+          <CardContent className="py-8">
+            <div className="text-center text-muted-foreground">
+              <ListOrdered className="h-12 w-12 mx-auto mb-4 opacity-50" />
+              <p>No sequences yet</p>
+              <p className="text-sm">Create a sequence from your email templates, then enroll leads or contacts</p>
+            </div>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-3">
+          {sequences.map((sequence) => (
+            <Card key={sequence.id} className={!sequence.is_active ? 'opacity-60' : ''}>
+              <CardContent className="py-4">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="flex items-start gap-3 flex-1">
+                    <ListOrdered className="h-5 w-5 text-muted-foreground mt-0.5" />
+                    <div className="flex-1">
+                      <div className="flex items-center gap-2 mb-1">
+                        <h4 className="font-medium">{sequence.name}</h4>
+                        <Badge variant="outline">{sequence.steps.length} step(s)</Badge>
+                        {!sequence.is_active && <Badge variant="secondary">Paused</Badge>}
+                      </div>
+                      {sequence.description && (
+                        <p className="text-sm text-muted-foreground mb-1">{sequence.description}</p>
+                      )}
+                      <div className="flex items-center gap-4 text-sm text-muted-foreground">
+                        <span className="flex items-center gap-1">
+                          <Clock className="h-3 w-3" />
+                          {formatBusinessHours(sequence)}
+                        </span>
+                        {sequence.steps.length > 0 && (
+                          <span>Day {getStepSendDays(sequence.steps).join(', ')}</span>
+                        )}
+                      </div>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      checked={sequence.is_active}
+                      title={sequence.is_active ? 'Pause sending' : 'Resume sending'}
+                      onCheckedChange={(checked) => toggleSequenceActive({ id: sequence.id, isActive: checked })}
+                    />
+                    <Button variant="ghost" size="icon" title="Enrollments" onClick={() => setEnrollmentsFor(sequence)}>
+                      <Users className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" onClick={() => handleOpenModal(sequence)}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" onClick={() => handleDelete(sequence)}>
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      {/* Create/Edit Modal */}
+      <Dialog open={showModal} onOpenChange={setShowModal}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingId ? 'Edit Sequence' : 'Create Sequence'}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="sequence-name">Sequence Name *</Label>
+              <Input
+                id="sequence-name"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                placeholder="Outbound follow-up"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="sequence-description">Description</Label>
+              <Textarea
+                id="sequence-description"
+                rows={2}
+                value={formData.description || ''}
+                onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Business Days</Label>
+              <div className="flex flex-wrap gap-2">
+                {BUSINESS_DAY_OPTIONS.map((day) => (
+                  <Button
+                    key={day.value}
+                    type="button"
+                    size="sm"
+                    variant={formData.business_days.includes(day.value) ? 'default' : 'outline'}
+                    onClick={() => toggleBusinessDay(day.value)}
+                  >
+                    {day.label}
+                  </Button>
+                ))}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="hours-start">Send From</Label>
+                <Input
+                  id="hours-start"
+                  type="time"
+                  value={formData.business_hours_start}
+                  onChange={(e) => setFormData({ ...formData, business_hours_start: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="hours-end">Send Until</Label>
+                <Input
+                  id="hours-end"
+                  type="time"
+                  value={formData.business_hours_end}
+                  onChange={(e) => setFormData({ ...formData, business_hours_end: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Default Timezone</Label>
+                <Select
+                  value={formData.default_timezone}
+                  onValueChange={(v) => setFormData({ ...formData, default_timezone: v })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {TIMEZONE_OPTIONS.map((tz) => (
+                      <SelectItem key={tz.value} value={tz.value}>{tz.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Hours are the recipient's local time. The default timezone applies when enrolling without one.
+            </p>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Steps *</Label>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setFormData(prev => ({
+                    ...prev,
+                    steps: [...prev.steps, {
+                      template_id: '',
+                      day_offset: prev.steps.length === 0 ? 0 : 3,
+                      reply_to_previous: true,
+                    }],
+                  }))}
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add Step
+                </Button>
+              </div>
+              {formData.steps.length === 0 && (
+                <p className="text-sm text-muted-foreground">No steps yet.</p>
+              )}
+              {formData.steps.map((step, index) => (
+                <div key={step.id || index} className="rounded-md border p-3 space-y-3">
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm font-medium">
+                      Step {index + 1} <span className="text-muted-foreground font-normal">· day {sendDays[index]}</span>
+                    </span>
+                    <div className="flex items-center gap-1">
+                      <Button type="button" variant="ghost" size="icon" disabled={index === 0} onClick={() => moveStep(index, -1)}>
+                        <ArrowUp className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        disabled={index === formData.steps.length - 1}
+                        onClick={() => moveStep(index, 1)}
+                      >
+                        <ArrowDown className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => setFormData(prev => ({ ...prev, steps: prev.steps.filter((_, i) => i !== index) }))}
+                      >
+                        <Trash2 className="h-4 w-4 text-destructive" />
+                      </Button>
+                    </div>
+                  </div>
+                  <div className="grid grid-cols-[1fr_140px] gap-3">
+                    <Select value={step.template_id} onValueChange={(v) => updateStep(index, { template_id: v })}>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Choose a template" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {templates.map((template) => (
+                          <SelectItem key={template.id} value={template.id}>{template.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <div className="flex items-center gap-2">
+                      <Input
+                        type="number"
+                        min={0}
+                        value={step.day_offset}
+                        onChange={(e) => updateStep(index, { day_offset: Math.max(0, parseInt(e.target.value) || 0) })}
+                      />
+                      <span className="text-xs text-muted-foreground whitespace-nowrap">
+                        {index === 0 ? 'days after enrolling' : 'days later'}
+                      </span>
+                    </div>
+                  </div>
+                  {index > 0 && (
+                    <div className="flex items-center gap-2">
+                      <Switch
+                        checked={step.reply_to_previous}
+                        onCheckedChange={(checked) => updateStep(index, { reply_to_previous: checked })}
+                      />
+                      <Label className="font-normal">Send as a reply in the same thread</Label>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Switch
+                checked={formData.is_active}
+                onCheckedChange={(checked) => setFormData({ ...formData, is_active: checked })}
+              />
+              <Label>Active</Label>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowModal(false)}>Cancel</Button>
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving ? <RefreshCw className="h-4 w-4 mr-2 animate-spin" /> : null}
+              {editingId ? 'Update' : 'Create'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <SequenceEnrollmentsDialog sequence={enrollmentsFor} onClose={() => setEnrollmentsFor(null)} />
+    </div>
+  );
+};
+
+export default EmailSequencesSettings;
@@ -0,0 +1,259 @@
+import { useMemo, useRef, useState } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useUserRole } from '@/hooks/useUserRole';
+import { useEmailConsentActions, useEmailSuppressions } from '@/hooks/useEmailConsent';
+import { downloadImportErrorReport } from '@/hooks/import-export/importErrorReport';
+import { downloadSpreadsheet, readSpreadsheetFile, SPREADSHEET_ACCEPT } from '@/utils/spreadsheetFile';
+import { getExportFilename } from '@/utils/exportUtils';
+import {
+  CONSENT_SOURCE_LABELS,
+  CONSENT_TOPIC_LABELS,
+  CONSENT_TOPICS,
+  ConsentTopic,
+  EmailSuppression,
+} from '@/types/emailConsent';
+import { Download, Loader2, MailX, Plus, RefreshCw, Search, Upload, Undo2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { toast } from 'sonner';
+
+const EXPORT_HEADERS = ['Email', 'Topic', 'Source', 'Reason', 'Suppressed At'];
+
+const findColumn = (headers: string[], names: string[]) =>
+  headers.findIndex(header => names.includes(header.toLowerCase().trim()));
+
+const AddSuppressionDialog = ({ open, onOpenChange }: { open: boolean; onOpenChange: (open: boolean) => void }) => {
+  const { changeConsent, isChanging } = useEmailConsentActions();
+  const [email, setEmail] = useState('');
+  const [topic, setTopic] = useState<ConsentTopic>('all');
+  const [reason, setReason] = useState('');
+
+  const handleSave = () => {
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email.trim())) {
+      toast.error('Enter a valid email address');
+      return;
+    }
+    changeConsent(
+      { email: email.trim(), topic, status: 'unsubscribed', reason },
+      {
+        onSuccess: () => {
+          setEmail('');
+          setReason('');
+          onOpenChange(false);
+        },
+      }
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Suppress an email address</DialogTitle>
+          <DialogDescription>No more emails of the chosen kind will be sent to this address</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="suppression-email">Email</Label>
+            <Input id="suppression-email" value={email} onChange={(e) => setEmail(e.target.value)} placeholder="name@example.com" />
+          </div>
+          <div className="space-y-2">
+            <Label>Unsubscribe from</Label>
+            <Select value={topic} onValueChange={(value) => setTopic(value as ConsentTopic)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CONSENT_TOPICS.map(t => (
+                  <SelectItem key={t} value={t}>{CONSENT_TOPIC_LABELS[t]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="suppression-reason">Reason</Label>
+            <Input id="suppression-reason" value={reason} onChange={(e) => setReason(e.target.value)} placeholder="e.g. Asked by phone" />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleSave} disabled={isChanging || !email.trim()}>
+            {isChanging && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Suppress
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+const EmailSuppressionsSettings = () => {
+  const { suppressions, loading } = useEmailSuppressions();
+  const { changeConsent, importSuppressions, isChanging, isImporting } = useEmailConsentActions();
+  const { isAdmin, isManager } = useUserRole();
+  const [search, setSearch] = useState('');
+  const [showAdd, setShowAdd] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const filtered = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    return term ? suppressions.filter(s => s.email.includes(term) || s.reason?.toLowerCase().includes(term)) : suppressions;
+  }, [suppressions, search]);
+
+  const handleExport = () => {
+    downloadSpreadsheet(
+      EXPORT_HEADERS,
+      suppressions.map(s => [s.email, s.topic, CONSENT_SOURCE_LABELS[s.source] || s.source, s.reason || '', s.created_at]),
+      getExportFilename('email_suppressions', 'all')
+    );
+  };
+
+  // Columns: Email (required), Topic (all, marketing or sequences; defaults to all), Reason
+  const handleImport = async (file: File) => {
+    try {
+      const sheet = await readSpreadsheetFile(file);
+      const emailIdx = findColumn(sheet.headers, ['email', 'email address', 'e-mail']);
+      if (emailIdx === -1) {
+        toast.error('The file needs an "Email" column');
+        return;
+      }
+      const topicIdx = findColumn(sheet.headers, ['topic']);
+      const reasonIdx = findColumn(sheet.headers, ['reason', 'notes']);
+
+      const result = await importSuppressions(sheet.rows.map(row => ({
+        email: row[emailIdx] || '',
+        topic: topicIdx === -1 ? undefined : row[topicIdx],
+        reason: reasonIdx === -1 ? undefined : row[reasonIdx],
+      })));
+
+      const errors = [
+        ...sheet.errors,
+        ...result.errors.map(e => `Row ${sheet.rowNumbers[e.index - 1]}: ${e.error}`),
+      ];
+      const summary = `${result.imported} added, ${result.skipped} already suppressed`;
+      if (errors.length > 0) {
+        toast.warning(`${summary}, ${errors.length} rows skipped`, {
+          action: { label: 'Download errors', onClick: () => downloadImportErrorReport('email_suppressions', errors) },
+        });
+      } else {
+        toast.success(`Suppression list imported: ${summary}`);
+      }
+    } catch (error: unknown) {
+      toast.error(error instanceof Error ? error.message : 'Failed to import suppression list');
+    } finally {
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  const handleRemove = (suppression: EmailSuppression) => {
+    if (!confirm(`Subscribe ${suppression.email} again to ${CONSENT_TOPIC_LABELS[suppression.topic].toLowerCase()}? Only do this when the recipient asked for it.`)) return;
+    changeConsent({ email: suppression.email, topic: suppression.topic, status: 'subscribed' });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-semibold">Suppression List</h3>
+          <p className="text-sm text-muted-foreground">
+            Addresses that unsubscribed. Emails to them are blocked for the topics they opted out of.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" onClick={handleExport} disabled={suppressions.length === 0}>
+            <Download className="h-4 w-4 mr-1" />
+            Export
+          </Button>
+          {(isAdmin || isManager) && (
+            <>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept={SPREADSHEET_ACCEPT}
+                className="hidden"
+                onChange={(e) => e.target.files?.[0] && handleImport(e.target.files[0])}
+              />
+              <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()} disabled={isImporting}>
+                {isImporting ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Upload className="h-4 w-4 mr-1" />}
+                Import
+              </Button>
+            </>
+          )}
+          <Button size="sm" onClick={() => setShowAdd(true)}>
+            <Plus className="h-4 w-4 mr-1" />
+            Add
+          </Button>
+        </div>
+      </div>
+
+      <div className="relative max-w-sm">
+        <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+        <Input value={search} onChange={(e) => setSearch(e.target.value)} placeholder="Search email or reason..." className="pl-8" />
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-8">
+          <RefreshCw className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : filtered.length === 0 ? (
+        <Card>
+          <CardContent className="py-8">
+            <div className="text-center text-muted-foreground">
+              <MailX className="h-12 w-12 mx-auto mb-4 opacity-50" />
+              <p>{search ? 'No matching addresses' : 'No one has unsubscribed yet'}</p>
+            </div>
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Email</TableHead>
+                <TableHead>Unsubscribed from</TableHead>
+                <TableHead>Source</TableHead>
+                <TableHead>Reason</TableHead>
+                <TableHead>Since</TableHead>
+                <TableHead className="w-12" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {filtered.map((suppression) => (
+                <TableRow key={suppression.id}>
+                  <TableCell className="font-medium">{suppression.email}</TableCell>
+                  <TableCell>
+                    <Badge variant={suppression.topic === 'all' ? 'destructive' : 'outline'}>
+                      {CONSENT_TOPIC_LABELS[suppression.topic] || suppression.topic}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-sm">{CONSENT_SOURCE_LABELS[suppression.source] || suppression.source}</TableCell>
+                  <TableCell className="text-sm text-muted-foreground max-w-xs truncate" title={suppression.reason || undefined}>
+                    {suppression.reason || '—'}
+                  </TableCell>
+                  <TableCell className="text-sm whitespace-nowrap">
+                    {format(new Date(suppression.created_at), 'MMM d, yyyy HH:mm')}
+                  </TableCell>
+                  <TableCell>
+                    <Button variant="ghost" size="icon" title="Subscribe again" disabled={isChanging} onClick={() => handleRemove(suppression)}>
+                      <Undo2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </Card>
+      )}
+
+      <AddSuppressionDialog open={showAdd} onOpenChange={setShowAdd} />
+    </div>
+  );
+};
+
+export default EmailSuppressionsSettings;
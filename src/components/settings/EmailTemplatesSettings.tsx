@@ -16,6 +16,9 @@ import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip
 import { TablePagination } from "@/components/shared/TablePagination";
 import TemplatePreviewModal from "./email/TemplatePreviewModal";
 import { RichTextEditor } from "@/components/shared/RichTextEditor";
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { TemplateIssuesAlert } from "@/components/email/TemplateIssuesAlert";
+import { TEMPLATE_FIELDS, TemplateFieldGroup, validateTemplate } from "@/utils/templateEngine";
 
 interface EmailTemplate {
   id: string;
@@ -29,6 +32,13 @@ interface EmailTemplate {
 
 const ITEMS_PER_PAGE = 10;
 
+// Insertable fields by group; bare record names only make sense inside {{#if}}
+const VARIABLE_GROUPS = TEMPLATE_FIELDS.reduce<Partial<Record<TemplateFieldGroup, typeof TEMPLATE_FIELDS>>>((groups, field) => {
+  if (!field.path.includes(".") && field.group !== "Recipient" && field.group !== "Sender" && !field.itemFields) return groups;
+  (groups[field.group] ||= []).push(field);
+  return groups;
+}, {});
+
 const EmailTemplatesSettings = () => {
   const { user } = useAuth();
   const { toast } = useToast();
@@ -41,7 +51,7 @@ const EmailTemplatesSettings = () => {
   const [saving, setSaving] = useState(false);
   const [currentPage, setCurrentPage] = useState(1);
   const [showPreviewModal, setShowPreviewModal] = useState(false);
-  const [previewTemplate, setPreviewTemplate] = useState<EmailTemplate | null>(null);
+  const [previewTemplate, setPreviewTemplate] = useState<Pick<EmailTemplate, "name" | "subject" | "body"> | null>(null);
   const [searchQuery, setSearchQuery] = useState("");
   const [formData, setFormData] = useState({
     name: "",
@@ -102,6 +112,23 @@ const EmailTemplatesSettings = () => {
     }
   }, [filteredTemplates, totalPages, currentPage]);
 
+  const validation = useMemo(() => {
+    const subjectCheck = validateTemplate(formData.subject);
+    const bodyCheck = validateTemplate(formData.body);
+    return {
+      issues: [...subjectCheck.issues, ...bodyCheck.issues],
+      unknownVariables: [...new Set([...subjectCheck.unknownVariables, ...bodyCheck.unknownVariables])],
+    };
+  }, [formData.subject, formData.body]);
+
+  const insertVariable = (path: string) => {
+    const field = TEMPLATE_FIELDS.find(f => f.path === path);
+    const snippet = field?.itemFields
+      ? `{{#each ${path}}}<p>{{${field.itemFields[0]}}}</p>{{/each}}`
+      : `{{${path}}}`;
+    setFormData(prev => ({ ...prev, body: prev.body + snippet }));
+  };
+
   const handleOpenModal = (template?: EmailTemplate) => {
     if (template) {
       setEditingTemplate(template);
@@ -129,6 +156,15 @@ const EmailTemplatesSettings = () => {
       return;
     }
 
+    if (validation.issues.length > 0) {
+      toast({
+        title: "Template has errors",
+        description: validation.issues[0].message,
+        variant: "destructive",
+      });
+      return;
+    }
+
     setSaving(true);
     try {
       const templateData = {
@@ -225,13 +261,6 @@ const EmailTemplatesSettings = () => {
     }
   };
 
-  const availableVariables = [
-    { variable: "{{contact_name}}", description: "Contact's full name" },
-    { variable: "{{company_name}}", description: "Company name" },
-    { variable: "{{position}}", description: "Contact's position" },
-    { variable: "{{email}}", description: "Contact's email" },
-  ];
-
   if (loading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -434,26 +463,49 @@ const EmailTemplatesSettings = () => {
                 placeholder="Write your email content here. Use variables like {{contact_name}} for personalization."
               />
               {/* Variable helper in modal */}
-              <div className="flex flex-wrap gap-2 pt-2">
-                <span className="text-xs text-muted-foreground">Insert variable:</span>
-                {availableVariables.map((v) => (
-                  <Badge 
-                    key={v.variable} 
-                    variant="outline" 
-                    className="cursor-pointer hover:bg-primary hover:text-primary-foreground transition-colors text-xs"
-                    onClick={() => setFormData(prev => ({ ...prev, body: prev.body + v.variable }))}
-                  >
-                    {v.variable}
-                  </Badge>
-                ))}
+              <div className="flex flex-wrap items-center gap-2 pt-2">
+                <Select value="" onValueChange={insertVariable}>
+                  <SelectTrigger className="h-8 w-56 text-xs">
+                    <SelectValue placeholder="Insert variable..." />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(VARIABLE_GROUPS).map(([group, fields]) => (
+                      <SelectGroup key={group}>
+                        <SelectLabel>{group}</SelectLabel>
+                        {fields.map((field) => (
+                          <SelectItem key={field.path} value={field.path} className="text-xs">
+                            {field.itemFields ? `{{#each ${field.path}}}` : `{{${field.path}}}`} · {field.label}
+                          </SelectItem>
+                        ))}
+                      </SelectGroup>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <span className="text-xs text-muted-foreground">
+                  {'Fallbacks: {{first_name|"there"}} · Conditions: {{#if deal}}...{{else}}...{{/if}} · Loops: {{#each deals}}...{{/each}}'}
+                </span>
               </div>
             </div>
 
+            <TemplateIssuesAlert issues={validation.issues} unknownVariables={validation.unknownVariables} />
+
             <div className="flex justify-end gap-2 pt-4">
+              <Button
+                type="button"
+                variant="outline"
+                className="gap-2 mr-auto"
+                onClick={() => {
+                  setPreviewTemplate({ ...formData, name: formData.name || "Untitled template" });
+                  setShowPreviewModal(true);
+                }}
+              >
+                <Eye className="h-4 w-4" />
+                Preview
+              </Button>
               <Button type="button" variant="outline" onClick={() => setShowModal(false)}>
                 Cancel
               </Button>
-              <Button type="submit" disabled={saving}>
+              <Button type="submit" disabled={saving || validation.issues.length > 0}>
                 {saving ? "Saving..." : editingTemplate ? "Update" : "Create"}
               </Button>
             </div>
@@ -0,0 +1,424 @@
+import { useState, useEffect, useMemo } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { toast } from 'sonner';
+import { AlertCircle, CheckCircle2, Loader2, Save, Trash2, Upload, X } from 'lucide-react';
+import { readSpreadsheetFile } from '@/utils/spreadsheetFile';
+import { CustomField } from '@/types/customField';
+import { fetchCustomFields } from '@/hooks/useCustomFields';
+import { useImportMappingPresets } from '@/hooks/useImportMappingPresets';
+import { usePipelineStages } from '@/hooks/usePipelineStages';
+import { getCustomFieldEntityForTable } from '@/hooks/import-export/customFieldCSV';
+import {
+  ImportDefaultValues,
+  ImportFieldMappings,
+  ImportModuleId,
+  applyPresetToHeaders,
+  buildMappedImportFile,
+  findMatchingPreset,
+  getImportTargetFields,
+  previewMappedRows,
+  suggestImportMappings,
+} from '@/hooks/import-export/importMapping';
+
+interface ImportMappingDialogProps {
+  moduleId: ImportModuleId;
+  moduleName: string;
+  file: File | null;
+  onCancel: () => void;
+  onConfirm: (mappedFile: File) => void;
+}
+
+const SKIP = '__skip__';
+const NO_PRESET = '__none__';
+const PREVIEW_SIZES = [5, 10, 25];
+
+// Column-mapping step shown between picking a file and running a module import
+export const ImportMappingDialog = ({ moduleId, moduleName, file, onCancel, onConfirm }: ImportMappingDialogProps) => {
+  const { presets, loading: presetsLoading, savePreset, deletePreset } = useImportMappingPresets(file ? moduleId : null);
+  const { stages } = usePipelineStages();
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [rows, setRows] = useState<string[][]>([]);
+  const [customFields, setCustomFields] = useState<CustomField[] | null>(null);
+  const [mappings, setMappings] = useState<ImportFieldMappings>({});
+  const [defaults, setDefaults] = useState<ImportDefaultValues>({});
+  const [activePresetId, setActivePresetId] = useState<string | null>(null);
+  const [autoApplied, setAutoApplied] = useState(false);
+  const [initialised, setInitialised] = useState(false);
+  const [presetName, setPresetName] = useState('');
+  const [savingPreset, setSavingPreset] = useState(false);
+  const [previewSize, setPreviewSize] = useState(10);
+  const [newDefaultKey, setNewDefaultKey] = useState('');
+
+  useEffect(() => {
+    setHeaders([]);
+    setRows([]);
+    setMappings({});
+    setDefaults({});
+    setActivePresetId(null);
+    setAutoApplied(false);
+    setInitialised(false);
+    setPresetName('');
+    if (!file) return;
+
+    readSpreadsheetFile(file).then(parsed => {
+      if (parsed.headers.length === 0 || parsed.rows.length === 0) {
+        toast.error('The file needs a header row and at least one data row');
+        onCancel();
+        return;
+      }
+      setHeaders(parsed.headers);
+      setRows(parsed.rows);
+    }).catch(error => {
+      console.error('Error reading import file:', error);
+      toast.error('Could not read the selected file');
+      onCancel();
+    });
+
+    const entity = getCustomFieldEntityForTable(moduleId);
+    setCustomFields(null);
+    if (entity) {
+      fetchCustomFields(entity).then(setCustomFields);
+    } else {
+      setCustomFields([]);
+    }
+  }, [file, moduleId]);
+
+  const targets = useMemo(() => getImportTargetFields(moduleId, customFields || []), [moduleId, customFields]);
+
+  // Once the file, custom fields and presets are loaded: auto-apply a matching preset, else guess
+  useEffect(() => {
+    if (initialised || headers.length === 0 || customFields === null || presetsLoading) return;
+    const preset = findMatchingPreset(presets, headers);
+    if (preset) {
+      setMappings(applyPresetToHeaders(preset, headers));
+      setDefaults(preset.default_values);
+      setActivePresetId(preset.id);
+      setPresetName(preset.name);
+      setAutoApplied(true);
+    } else {
+      setMappings(suggestImportMappings(moduleId, headers, targets));
+    }
+    setInitialised(true);
+  }, [initialised, headers, customFields, presetsLoading, presets, targets, moduleId]);
+
+  const targetByKey = useMemo(() => new Map(targets.map(t => [t.key, t])), [targets]);
+
+  const mappedTargets = useMemo(() => {
+    const keys = new Set([...Object.values(mappings), ...Object.keys(defaults)]);
+    return targets.filter(t => keys.has(t.key));
+  }, [targets, mappings, defaults]);
+
+  const missingRequired = targets.filter(t =>
+    t.required && !Object.values(mappings).includes(t.key) && !defaults[t.key]?.trim()
+  );
+
+  const stageNames = useMemo(() => stages.map(s => s.stage_name), [stages]);
+  const preview = useMemo(
+    () => previewMappedRows(moduleId, headers, rows, mappings, defaults, targets, previewSize, stageNames),
+    [moduleId, headers, rows, mappings, defaults, targets, previewSize, stageNames]
+  );
+  const previewErrorCount = preview.filter(r => r.errors.length > 0).length;
+
+  const setMapping = (header: string, target: string) => {
+    setMappings(prev => {
+      const next = { ...prev };
+      if (target === SKIP) {
+        delete next[header];
+      } else {
+        // A field can only come from one column
+        Object.keys(next).forEach(h => { if (next[h] === target) delete next[h]; });
+        next[header] = target;
+      }
+      return next;
+    });
+    setAutoApplied(false);
+  };
+
+  const choosePreset = (presetId: string) => {
+    if (presetId === NO_PRESET) {
+      setActivePresetId(null);
+      setMappings(suggestImportMappings(moduleId, headers, targets));
+      setDefaults({});
+      setPresetName('');
+      setAutoApplied(false);
+      return;
+    }
+    const preset = presets.find(p => p.id === presetId);
+    if (!preset) return;
+    setActivePresetId(preset.id);
+    setMappings(applyPresetToHeaders(preset, headers));
+    setDefaults(preset.default_values);
+    setPresetName(preset.name);
+    setAutoApplied(false);
+  };
+
+  const handleSavePreset = async () => {
+    if (!presetName.trim()) {
+      toast.error('Enter a name for the preset');
+      return;
+    }
+    setSavingPreset(true);
+    try {
+      const saved = await savePreset(presetName, mappings, defaults);
+      if (saved) setActivePresetId(saved.id);
+      toast.success(`Preset "${presetName.trim()}" saved`);
+    } catch (error) {
+      toast.error('Failed to save preset');
+    } finally {
+      setSavingPreset(false);
+    }
+  };
+
+  const handleDeletePreset = async () => {
+    if (!activePresetId) return;
+    try {
+      await deletePreset(activePresetId);
+      setActivePresetId(null);
+      setAutoApplied(false);
+      toast.success('Preset deleted');
+    } catch (error) {
+      toast.error('Failed to delete preset');
+    }
+  };
+
+  const handleImport = () => {
+    if (!file) return;
+    onConfirm(buildMappedImportFile(file, headers, rows, mappings, defaults, targets));
+  };
+
+  const sampleFor = (index: number) => rows.find(row => row[index]?.trim())?.[index] || '';
+  const loading = !initialised;
+
+  return (
+    <Dialog open={!!file} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="max-w-5xl max-h-[90vh] flex flex-col overflow-hidden">
+        <DialogHeader>
+          <DialogTitle>Map Columns: {moduleName}</DialogTitle>
+          <DialogDescription>
+            {file?.name} · {rows.length.toLocaleString()} row{rows.length !== 1 ? 's' : ''}. Nothing is written until you import.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-16">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <ScrollArea className="flex-1 min-h-0 pr-3">
+            <div className="space-y-6">
+              {/* Presets */}
+              <div className="flex flex-wrap items-end gap-3">
+                <div className="space-y-1.5">
+                  <Label>Preset</Label>
+                  <div className="flex items-center gap-2">
+                    <Select value={activePresetId || NO_PRESET} onValueChange={choosePreset}>
+                      <SelectTrigger className="w-56">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NO_PRESET}>No preset (auto-detect)</SelectItem>
+                        {presets.map(preset => (
+                          <SelectItem key={preset.id} value={preset.id}>{preset.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {activePresetId && (
+                      <Button variant="ghost" size="icon" className="h-9 w-9 text-destructive" onClick={handleDeletePreset} aria-label="Delete preset">
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+                {autoApplied && (
+                  <Badge variant="secondary" className="mb-2 gap-1">
+                    <CheckCircle2 className="h-3 w-3" />
+                    Applied automatically: headers match this preset
+                  </Badge>
+                )}
+                <div className="flex items-end gap-2 ml-auto">
+                  <div className="space-y-1.5">
+                    <Label htmlFor="preset-name">Save mapping as</Label>
+                    <Input
+                      id="preset-name"
+                      value={presetName}
+                      onChange={(e) => setPresetName(e.target.value)}
+                      placeholder="e.g. Vendor X export"
+                      className="w-56"
+                    />
+                  </div>
+                  <Button variant="outline" onClick={handleSavePreset} disabled={savingPreset}>
+                    {savingPreset ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+                    Save Preset
+                  </Button>
+                </div>
+              </div>
+
+              {/* Column mapping */}
+              <div className="space-y-2">
+                <h4 className="text-sm font-medium">Columns</h4>
+                <div className="border rounded-md">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>File column</TableHead>
+                        <TableHead>Sample value</TableHead>
+                        <TableHead className="w-64">Import as</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {headers.map((header, index) => (
+                        <TableRow key={`${header}-${index}`}>
+                          <TableCell className="font-medium">{header || <span className="text-muted-foreground italic">Column {index + 1}</span>}</TableCell>
+                          <TableCell className="text-muted-foreground text-sm max-w-[240px] truncate">{sampleFor(index)}</TableCell>
+                          <TableCell>
+                            <Select value={mappings[header] || SKIP} onValueChange={(v) => setMapping(header, v)}>
+                              <SelectTrigger className="h-8" aria-label={`Import ${header} as`}>
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value={SKIP}>Don't import</SelectItem>
+                                {targets.map(target => (
+                                  <SelectItem key={target.key} value={target.key}>
+                                    {target.label}{target.required ? ' *' : ''}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+                {missingRequired.length > 0 && (
+                  <p className="text-sm text-destructive flex items-center gap-1">
+                    <AlertCircle className="h-3.5 w-3.5" />
+                    Map a column or set a default for: {missingRequired.map(t => t.label).join(', ')}
+                  </p>
+                )}
+              </div>
+
+              {/* Default values */}
+              <div className="space-y-2">
+                <h4 className="text-sm font-medium">Default values</h4>
+                <p className="text-xs text-muted-foreground">Used when a row's cell is empty or the field isn't mapped.</p>
+                {Object.entries(defaults).map(([key, value]) => (
+                  <div key={key} className="flex items-center gap-2">
+                    <span className="text-sm w-48 truncate">{targetByKey.get(key)?.label || key}</span>
+                    <Input
+                      value={value}
+                      onChange={(e) => setDefaults(prev => ({ ...prev, [key]: e.target.value }))}
+                      className="h-8 w-64"
+                      aria-label={`Default for ${targetByKey.get(key)?.label || key}`}
+                    />
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() => setDefaults(prev => {
+                        const next = { ...prev };
+                        delete next[key];
+                        return next;
+                      })}
+                      aria-label="Remove default"
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                <Select
+                  value={newDefaultKey}
+                  onValueChange={(key) => {
+                    setDefaults(prev => ({ ...prev, [key]: prev[key] ?? '' }));
+                    setNewDefaultKey('');
+                  }}
+                >
+                  <SelectTrigger className="h-8 w-64">
+                    <SelectValue placeholder="Add a default value..." />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {targets.filter(t => !(t.key in defaults)).map(target => (
+                      <SelectItem key={target.key} value={target.key}>{target.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {/* Preview */}
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <h4 className="text-sm font-medium flex items-center gap-2">
+                    Preview
+                    {previewErrorCount > 0 ? (
+                      <Badge variant="destructive">{previewErrorCount} of {preview.length} rows have errors</Badge>
+                    ) : (
+                      <Badge variant="secondary">No errors in the first {preview.length} rows</Badge>
+                    )}
+                  </h4>
+                  <Select value={String(previewSize)} onValueChange={(v) => setPreviewSize(Number(v))}>
+                    <SelectTrigger className="h-8 w-28">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {PREVIEW_SIZES.map(size => (
+                        <SelectItem key={size} value={String(size)}>First {size}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="border rounded-md overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-12">Row</TableHead>
+                        {mappedTargets.map(target => (
+                          <TableHead key={target.key} className="whitespace-nowrap">{target.label}</TableHead>
+                        ))}
+                        <TableHead>Errors</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {preview.map(row => (
+                        <TableRow key={row.rowNumber} className={row.errors.length > 0 ? 'bg-red-50 dark:bg-red-900/10' : ''}>
+                          <TableCell className="text-muted-foreground">{row.rowNumber}</TableCell>
+                          {mappedTargets.map(target => (
+                            <TableCell key={target.key} className="text-sm max-w-[200px] truncate">{row.values[target.key] || ''}</TableCell>
+                          ))}
+                          <TableCell className="text-xs text-destructive min-w-[200px]">
+                            {row.errors.join('; ')}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </div>
+            </div>
+          </ScrollArea>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>Cancel</Button>
+          <Button onClick={handleImport} disabled={loading || missingRequired.length > 0 || rows.length === 0}>
+            <Upload className="h-4 w-4 mr-2" />
+            Import {rows.length.toLocaleString()} Row{rows.length !== 1 ? 's' : ''}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -5,6 +5,7 @@ import { Badge } from '@/components/ui/badge';
 import { Switch } from '@/components/ui/switch';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
 import { useUserRole } from '@/hooks/useUserRole';
@@ -17,6 +18,7 @@ import {
   XCircle,
   ExternalLink,
   Settings,
+  RefreshCw,
   X
 } from 'lucide-react';
 import {
@@ -28,6 +30,32 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 
+interface ConfigField {
+  key: string;
+  label: string;
+  type: string;
+  options?: { value: string; label: string }[];
+}
+
+// Transports the email edge functions can use; see supabase/functions/_shared/email
+const EMAIL_PROVIDERS = [
+  { value: 'graph', label: 'Microsoft Graph' },
+  { value: 'smtp', label: 'SMTP / IMAP' },
+  { value: 'file', label: 'Local files (development)' },
+];
+
+// Calendars the sync-calendar edge function imports from; see supabase/functions/_shared/calendar
+const CALENDAR_PROVIDERS = [
+  { value: 'graph', label: 'Microsoft Graph (Outlook)' },
+  { value: 'caldav', label: 'CalDAV' },
+];
+
+const CONFLICT_POLICIES = [
+  { value: 'newest', label: 'Most recent change wins' },
+  { value: 'crm', label: 'CRM always wins' },
+  { value: 'external', label: 'External calendar always wins' },
+];
+
 interface Integration {
   id: string;
   integration_name: string;
@@ -45,6 +73,7 @@ const IntegrationSettings = () => {
   const [selectedIntegration, setSelectedIntegration] = useState<Integration | null>(null);
   const [configData, setConfigData] = useState<Record<string, string>>({});
   const [saving, setSaving] = useState(false);
+  const [syncingCalendar, setSyncingCalendar] = useState(false);
 
   const isAdmin = userRole === 'admin';
 
@@ -130,23 +159,96 @@ const IntegrationSettings = () => {
     }
   };
 
-  const getConfigFields = (integrationName: string): { key: string; label: string; type: string }[] => {
+  const handleCalendarSync = async () => {
+    setSyncingCalendar(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('sync-calendar', { body: { force: true } });
+      if (error) throw error;
+      if (!data?.success) throw new Error(data?.error || data?.errors?.[0] || 'Calendar sync failed');
+
+      if (data.skipped) {
+        toast.info(data.skipped);
+      } else {
+        toast.success(
+          `Calendar synced: ${data.imported} imported, ${data.linked} matched, ${data.updated} updated, ${data.cancelled} cancelled` +
+          (data.conflicts ? `, ${data.conflicts} conflict(s) resolved` : '')
+        );
+        if (data.errors?.length) {
+          toast.warning(`${data.errors.length} calendar(s) could not be read`, { description: data.errors[0] });
+        }
+      }
+    } catch (error) {
+      console.error('Error syncing calendars:', error);
+      toast.error(error instanceof Error ? error.message : 'Calendar sync failed');
+    } finally {
+      setSyncingCalendar(false);
+      fetchIntegrations();
+    }
+  };
+
+  const getConfigFields = (integrationName: string, config: Record<string, string>): ConfigField[] => {
     switch (integrationName.toLowerCase()) {
       case 'microsoft teams':
         return [
           { key: 'client_id', label: 'Client ID', type: 'text' },
           { key: 'tenant_id', label: 'Tenant ID', type: 'text' },
         ];
-      case 'email (smtp)':
-        return [
+      case 'email (smtp)': {
+        const fields: ConfigField[] = [
+          { key: 'provider', label: 'Provider', type: 'select', options: EMAIL_PROVIDERS },
           { key: 'sender_email', label: 'Sender Email', type: 'email' },
           { key: 'sender_name', label: 'Sender Name', type: 'text' },
         ];
-      case 'calendar sync':
-        return [
+        if (config.provider === 'smtp') {
+          fields.push(
+            { key: 'host', label: 'SMTP Host', type: 'text' },
+            { key: 'port', label: 'SMTP Port', type: 'number' },
+            {
+              key: 'secure',
+              label: 'Connection',
+              type: 'select',
+              options: [
+                { value: 'false', label: 'STARTTLS' },
+                { value: 'true', label: 'SSL/TLS' },
+              ],
+            },
+            {
+              key: 'allow_insecure_auth',
+              label: 'Login Without Encryption',
+              type: 'select',
+              options: [
+                { value: 'false', label: 'Refuse' },
+                { value: 'true', label: 'Allow (not recommended)' },
+              ],
+            },
+            { key: 'username', label: 'Username', type: 'text' },
+            { key: 'imap_host', label: 'IMAP Host', type: 'text' },
+            { key: 'imap_port', label: 'IMAP Port', type: 'number' },
+            { key: 'junk_folder', label: 'Junk Folder', type: 'text' },
+          );
+        }
+        if (config.provider === 'file') {
+          fields.push({ key: 'directory', label: 'Mail Directory', type: 'text' });
+        }
+        return fields;
+      }
+      case 'calendar sync': {
+        const fields: ConfigField[] = [
+          { key: 'provider', label: 'Provider', type: 'select', options: CALENDAR_PROVIDERS },
           { key: 'sync_frequency', label: 'Sync Frequency (minutes)', type: 'number' },
-          { key: 'calendar_id', label: 'Calendar ID', type: 'text' },
         ];
+        if (config.provider === 'caldav') {
+          fields.push(
+            { key: 'caldav_url', label: 'CalDAV Server URL', type: 'url' },
+            { key: 'caldav_username', label: 'CalDAV Username', type: 'text' },
+            { key: 'calendar_id', label: 'Calendar Path ({email} for per-user calendars)', type: 'text' },
+          );
+        } else {
+          fields.push({ key: 'calendar_id', label: 'Calendar ID (blank for default calendar)', type: 'text' });
+        }
+        fields.push({ key: 'conflict_policy', label: 'When Both Sides Changed', type: 'select', options: CONFLICT_POLICIES });
+        return fields;
+      }
       default:
         return [
           { key: 'api_key', label: 'API Key', type: 'password' },
@@ -154,7 +256,6 @@ const IntegrationSettings = () => {
     }
   };
 
-
   const getIntegrationIcon = (name: string) => {
     switch (name.toLowerCase()) {
       case 'microsoft teams':
@@ -237,6 +338,19 @@ const IntegrationSettings = () => {
                     </div>
                   </div>
                   <div className="flex items-center gap-4">
+                    {integration.integration_name.toLowerCase() === 'calendar sync' && integration.is_enabled && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={handleCalendarSync}
+                        disabled={syncingCalendar}
+                      >
+                        {syncingCalendar
+                          ? <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                          : <RefreshCw className="h-4 w-4 mr-1" />}
+                        Sync Now
+                      </Button>
+                    )}
                     <Switch
                       checked={integration.is_enabled}
                       onCheckedChange={(checked) => toggleIntegration(integration.id, checked)}
@@ -328,8 +442,23 @@ const IntegrationSettings = () => {
             <div className="p-4 bg-muted rounded-lg">
               <h4 className="font-medium mb-2">Email (SMTP)</h4>
               <p className="text-sm text-muted-foreground">
-                Configure AZURE_EMAIL_CLIENT_ID, AZURE_EMAIL_CLIENT_SECRET, and AZURE_EMAIL_TENANT_ID
-                for Microsoft Graph email integration.
+                Choose the provider under Configure. Microsoft Graph needs AZURE_EMAIL_CLIENT_ID,
+                AZURE_EMAIL_CLIENT_SECRET, and AZURE_EMAIL_TENANT_ID. SMTP / IMAP needs SMTP_PASSWORD
+                (and IMAP_USERNAME / IMAP_PASSWORD if the inbox login differs). Local files write sent
+                mail to the mail directory and read replies and bounces from its inbox and junk folders.
+                While the integration is disabled, email is sent through Microsoft Graph.
+              </p>
+            </div>
+
+            <div className="p-4 bg-muted rounded-lg">
+              <h4 className="font-medium mb-2">Calendar Sync</h4>
+              <p className="text-sm text-muted-foreground">
+                Imports meetings from each user's calendar and matches them to CRM meetings by attendee.
+                Microsoft Graph needs Calendars.Read and uses AZURE_CALENDAR_CLIENT_ID,
+                AZURE_CALENDAR_CLIENT_SECRET, and AZURE_CALENDAR_TENANT_ID (falling back to the Teams
+                credentials). CalDAV needs CALDAV_PASSWORD. Schedule the sync-calendar function every few
+                minutes; it runs at most once per sync frequency. Users subscribe to their own ICS feed under
+                Account Settings.
               </p>
             </div>
           </CardContent>
@@ -347,19 +476,38 @@ const IntegrationSettings = () => {
           </DialogHeader>
           
           <div className="space-y-4 py-4">
-            {selectedIntegration && getConfigFields(selectedIntegration.integration_name).map((field) => (
+            {selectedIntegration && getConfigFields(selectedIntegration.integration_name, configData).map((field) => (
               <div key={field.key} className="space-y-2">
                 <Label htmlFor={field.key}>{field.label}</Label>
-                <Input
-                  id={field.key}
-                  type={field.type}
-                  value={configData[field.key] || ''}
-                  onChange={(e) => setConfigData(prev => ({
-                    ...prev,
-                    [field.key]: e.target.value
-                  }))}
-                  placeholder={`Enter ${field.label.toLowerCase()}`}
-                />
+                {field.options ? (
+                  <Select
+                    value={configData[field.key] != null ? String(configData[field.key]) : ''}
+                    onValueChange={(value) => setConfigData(prev => ({
+                      ...prev,
+                      [field.key]: value
+                    }))}
+                  >
+                    <SelectTrigger id={field.key}>
+                      <SelectValue placeholder={`Select ${field.label.toLowerCase()}`} />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {field.options.map(option => (
+                        <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                ) : (
+                  <Input
+                    id={field.key}
+                    type={field.type}
+                    value={configData[field.key] || ''}
+                    onChange={(e) => setConfigData(prev => ({
+                      ...prev,
+                      [field.key]: e.target.value
+                    }))}
+                    placeholder={`Enter ${field.label.toLowerCase()}`}
+                  />
+                )}
               </div>
             ))}
             
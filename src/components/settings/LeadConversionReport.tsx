@@ -0,0 +1,91 @@
+import { useState, useMemo } from 'react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Loader2 } from 'lucide-react';
+import { useLeadConversionRates } from '@/hooks/useConversions';
+import { useUserDisplayNames } from '@/hooks/useUserDisplayNames';
+
+const PERIODS = [
+  { value: '30', label: 'Last 30 days' },
+  { value: '90', label: 'Last 90 days' },
+  { value: '365', label: 'Last 12 months' },
+  { value: 'all', label: 'All time' },
+];
+
+const LeadConversionReport = () => {
+  const [period, setPeriod] = useState('90');
+
+  // Day granularity keeps the query key stable between renders
+  const since = useMemo(() => {
+    if (period === 'all') return null;
+    const date = new Date();
+    date.setDate(date.getDate() - Number(period));
+    return date.toISOString().split('T')[0];
+  }, [period]);
+
+  const { rates, loading } = useLeadConversionRates(since);
+  const ownerIds = useMemo(() => rates.map(r => r.owner_id).filter((id): id is string => !!id), [rates]);
+  const { displayNames } = useUserDisplayNames(ownerIds);
+
+  const totals = rates.reduce(
+    (acc, r) => ({ leads: acc.leads + r.total_leads, converted: acc.converted + r.converted_leads }),
+    { leads: 0, converted: 0 }
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-3">
+        <p className="text-sm text-muted-foreground">
+          {totals.leads > 0
+            ? `${totals.converted} of ${totals.leads} leads converted (${((totals.converted / totals.leads) * 100).toFixed(1)}%)`
+            : 'No leads in this period'}
+        </p>
+        <Select value={period} onValueChange={setPeriod}>
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {PERIODS.map(p => (
+              <SelectItem key={p.value} value={p.value}>{p.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : rates.length > 0 && (
+        <div className="border rounded-md">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Owner</TableHead>
+                <TableHead className="text-right">Leads</TableHead>
+                <TableHead className="text-right">Converted</TableHead>
+                <TableHead className="text-right">Conversion Rate</TableHead>
+                <TableHead className="text-right">Won Deals</TableHead>
+                <TableHead className="text-right">Avg. Days to Convert</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rates.map(rate => (
+                <TableRow key={rate.owner_id || 'unassigned'}>
+                  <TableCell>{rate.owner_id ? displayNames[rate.owner_id] || 'Unknown User' : 'Unassigned'}</TableCell>
+                  <TableCell className="text-right">{rate.total_leads}</TableCell>
+                  <TableCell className="text-right">{rate.converted_leads}</TableCell>
+                  <TableCell className="text-right font-medium">{Number(rate.conversion_rate).toFixed(1)}%</TableCell>
+                  <TableCell className="text-right">{rate.won_deals}</TableCell>
+                  <TableCell className="text-right">{rate.avg_days_to_convert ?? '-'}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LeadConversionReport;
@@ -15,17 +15,22 @@ import {
   Calendar,
   CheckSquare,
   RefreshCw,
-  FileDown
+  FileDown,
+  FileSpreadsheet
 } from 'lucide-react';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
 import { useSimpleLeadsImportExport } from '@/hooks/useSimpleLeadsImportExport';
 import { useSimpleContactsImportExport } from '@/hooks/useSimpleContactsImportExport';
 import { useAccountsImportExport } from '@/hooks/useAccountsImportExport';
 import { useDealsImportExport } from '@/hooks/useDealsImportExport';
 import { useMeetingsImportExport } from '@/hooks/useMeetingsImportExport';
 import { useTasksImportExport } from '@/hooks/useTasksImportExport';
+import { ImportMappingDialog } from '@/components/settings/ImportMappingDialog';
+import { ImportModuleId } from '@/hooks/import-export/importMapping';
+import { SpreadsheetFormat, SPREADSHEET_ACCEPT } from '@/utils/spreadsheetFile';
 
 interface ModuleConfig {
-  id: string;
+  id: ImportModuleId;
   name: string;
   table: string;
   icon: React.ReactNode;
@@ -47,6 +52,8 @@ const ModuleImportExport = () => {
   const [loading, setLoading] = useState(true);
   const [activeImport, setActiveImport] = useState<string | null>(null);
   const [activeExport, setActiveExport] = useState<string | null>(null);
+  // File picked for import, waiting on the column-mapping step
+  const [pendingImport, setPendingImport] = useState<{ module: ModuleConfig; file: File } | null>(null);
   const fileInputRefs = useRef<Record<string, HTMLInputElement | null>>({});
 
   // Import/Export hooks
@@ -85,9 +92,16 @@ const ModuleImportExport = () => {
     fileInputRefs.current[moduleId]?.click();
   };
 
-  const handleFileChange = async (moduleId: string, file: File | null) => {
+  const handleFileChange = (module: ModuleConfig, file: File | null) => {
+    if (fileInputRefs.current[module.id]) {
+      fileInputRefs.current[module.id]!.value = '';
+    }
     if (!file) return;
+    setPendingImport({ module, file });
+  };
 
+  const runImport = async (moduleId: string, file: File) => {
+    setPendingImport(null);
     setActiveImport(moduleId);
     try {
       switch (moduleId) {
@@ -116,25 +130,21 @@ const ModuleImportExport = () => {
       toast.error(`Failed to import ${moduleId}: ${error.message}`);
     } finally {
       setActiveImport(null);
-      // Reset file input
-      if (fileInputRefs.current[moduleId]) {
-        fileInputRefs.current[moduleId]!.value = '';
-      }
     }
   };
 
-  const handleExport = async (moduleId: string) => {
+  const handleExport = async (moduleId: string, format: SpreadsheetFormat = 'csv') => {
     setActiveExport(moduleId);
     try {
       switch (moduleId) {
         case 'leads':
-          await leadsHook.handleExport();
+          await leadsHook.handleExport(format);
           break;
         case 'contacts':
-          await contactsHook.handleExport();
+          await contactsHook.handleExport(format);
           break;
         case 'accounts':
-          await accountsHook.handleExport();
+          await accountsHook.handleExport(format);
           break;
         case 'deals':
           // Fetch deals data for export
@@ -142,7 +152,7 @@ const ModuleImportExport = () => {
             .from('deals')
             .select('*');
           if (dealsData && dealsData.length > 0) {
-            await dealsHook.handleExportAll(dealsData);
+            await dealsHook.handleExportAll(dealsData, format);
           } else {
             toast.error('No deals to export');
             return;
@@ -154,7 +164,7 @@ const ModuleImportExport = () => {
             .from('meetings')
             .select('*');
           if (meetingsData && meetingsData.length > 0) {
-            await meetingsHook.handleExport(meetingsData as any);
+            await meetingsHook.handleExport(meetingsData as any, format);
           } else {
             toast.error('No meetings to export');
             return;
@@ -173,7 +183,7 @@ const ModuleImportExport = () => {
               meetings(subject)
             `);
           if (tasksData && tasksData.length > 0) {
-            await tasksHook.exportToCSV();
+            await tasksHook.exportToCSV(format);
           } else {
             toast.error('No tasks to export');
             return;
@@ -267,20 +277,33 @@ const ModuleImportExport = () => {
                       )}
                       Import
                     </Button>
-                    <Button 
-                      variant="outline" 
-                      size="sm" 
-                      className="flex-1"
-                      onClick={() => handleExport(module.id)}
-                      disabled={activeExport === module.id || counts[module.id] === 0}
-                    >
-                      {activeExport === module.id ? (
-                        <RefreshCw className="h-3 w-3 mr-1 animate-spin" />
-                      ) : (
-                        <Download className="h-3 w-3 mr-1" />
-                      )}
-                      Export
-                    </Button>
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button 
+                          variant="outline" 
+                          size="sm" 
+                          className="flex-1"
+                          disabled={activeExport === module.id || counts[module.id] === 0}
+                        >
+                          {activeExport === module.id ? (
+                            <RefreshCw className="h-3 w-3 mr-1 animate-spin" />
+                          ) : (
+                            <Download className="h-3 w-3 mr-1" />
+                          )}
+                          Export
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end">
+                        <DropdownMenuItem onClick={() => handleExport(module.id, 'csv')}>
+                          <Download className="h-4 w-4 mr-2" />
+                          CSV
+                        </DropdownMenuItem>
+                        <DropdownMenuItem onClick={() => handleExport(module.id, 'xlsx')}>
+                          <FileSpreadsheet className="h-4 w-4 mr-2" />
+                          Excel (.xlsx)
+                        </DropdownMenuItem>
+                      </DropdownMenuContent>
+                    </DropdownMenu>
                   </div>
                   <Button 
                     variant="ghost" 
@@ -296,16 +319,26 @@ const ModuleImportExport = () => {
                 {/* Hidden file input */}
                 <input
                   type="file"
-                  accept=".csv"
+                  accept={SPREADSHEET_ACCEPT}
                   className="hidden"
                   ref={(el) => { fileInputRefs.current[module.id] = el; }}
-                  onChange={(e) => handleFileChange(module.id, e.target.files?.[0] || null)}
+                  onChange={(e) => handleFileChange(module, e.target.files?.[0] || null)}
                 />
               </CardContent>
             </Card>
           ))}
         </div>
       </CardContent>
+
+      {pendingImport && (
+        <ImportMappingDialog
+          moduleId={pendingImport.module.id}
+          moduleName={pendingImport.module.name}
+          file={pendingImport.file}
+          onCancel={() => setPendingImport(null)}
+          onConfirm={(mappedFile) => runImport(pendingImport.module.id, mappedFile)}
+        />
+      )}
     </Card>
   );
 };
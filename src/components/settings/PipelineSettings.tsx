@@ -4,8 +4,13 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
 import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
+import { PIPELINE_STAGES_QUERY_KEY } from '@/hooks/usePipelineStages';
+import { DEAL_FIELD_LABELS, PipelineStage, STAGE_GATE_FIELDS } from '@/types/deal';
 import { toast } from 'sonner';
 import { useUserRole } from '@/hooks/useUserRole';
 import { 
@@ -37,17 +42,6 @@ import {
 } from '@/components/ui/alert-dialog';
 import { DragDropContext, Droppable, Draggable, DropResult } from '@hello-pangea/dnd';
 
-interface PipelineStage {
-  id: string;
-  stage_name: string;
-  stage_order: number;
-  stage_color: string;
-  stage_probability: number;
-  is_active: boolean;
-  is_won_stage: boolean;
-  is_lost_stage: boolean;
-}
-
 interface LeadStatus {
   id: string;
   status_name: string;
@@ -72,6 +66,7 @@ const colorOptions = [
 
 const PipelineSettings = () => {
   const { userRole } = useUserRole();
+  const queryClient = useQueryClient();
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [stages, setStages] = useState<PipelineStage[]>([]);
@@ -81,6 +76,7 @@ const PipelineSettings = () => {
   const [editingStage, setEditingStage] = useState<Partial<PipelineStage> | null>(null);
   const [editingStatus, setEditingStatus] = useState<Partial<LeadStatus> | null>(null);
   const [stageToDelete, setStageToDelete] = useState<PipelineStage | null>(null);
+  const [reassignStage, setReassignStage] = useState('');
   const [statusToDelete, setStatusToDelete] = useState<LeadStatus | null>(null);
   const [validationError, setValidationError] = useState<string | null>(null);
   const [showUnsavedDialog, setShowUnsavedDialog] = useState(false);
@@ -200,6 +196,9 @@ const PipelineSettings = () => {
             is_active: editingStage?.is_active ?? true,
             is_won_stage: editingStage?.is_won_stage || false,
             is_lost_stage: editingStage?.is_lost_stage || false,
+            required_fields: editingStage?.required_fields || [],
+            requires_approval: editingStage?.requires_approval || false,
+            sla_days: editingStage?.sla_days || null,
             stage_order: stages.length,
           });
         if (error) throw error;
@@ -209,6 +208,9 @@ const PipelineSettings = () => {
       setShowStageModal(false);
       setEditingStage(null);
       fetchData();
+      queryClient.invalidateQueries({ queryKey: PIPELINE_STAGES_QUERY_KEY });
+      // The stage's approval workflow is created or updated by a database trigger
+      queryClient.invalidateQueries({ queryKey: ['approval-guards'] });
     } catch (error) {
       console.error('Error saving stage:', error);
       toast.error('Failed to save stage');
@@ -260,21 +262,35 @@ const PipelineSettings = () => {
   };
 
   const confirmDeleteStage = async () => {
-    if (!stageToDelete) return;
+    if (!stageToDelete || !reassignStage) return;
+    setSaving(true);
     try {
-      const { error } = await supabase
-        .from('pipeline_stages')
-        .delete()
-        .eq('id', stageToDelete.id);
+      // Moves the stage's deals to the chosen stage before deleting it
+      const { data, error } = await supabase.rpc('delete_pipeline_stage', {
+        p_stage_id: stageToDelete.id,
+        p_reassign_to: reassignStage,
+      });
       if (error) throw error;
-      toast.success('Stage deleted');
+      toast.success(data ? `Stage deleted, ${data} deal(s) moved to ${reassignStage}` : 'Stage deleted');
       setStageToDelete(null);
       fetchData();
+      queryClient.invalidateQueries({ queryKey: PIPELINE_STAGES_QUERY_KEY });
+      queryClient.invalidateQueries({ queryKey: ['deals'] });
     } catch (error) {
-      toast.error('Failed to delete stage');
+      console.error('Error deleting stage:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to delete stage');
+    } finally {
+      setSaving(false);
     }
   };
 
+  const openDeleteStage = (stage: PipelineStage) => {
+    const fallback = stages.find(s => s.id !== stage.id && s.is_active && !s.is_won_stage && !s.is_lost_stage)
+      || stages.find(s => s.id !== stage.id);
+    setReassignStage(fallback?.stage_name || '');
+    setStageToDelete(stage);
+  };
+
   const confirmDeleteStatus = async () => {
     if (!statusToDelete) return;
     try {
@@ -320,6 +336,7 @@ const PipelineSettings = () => {
       }
       
       toast.success('Stage order updated');
+      queryClient.invalidateQueries({ queryKey: PIPELINE_STAGES_QUERY_KEY });
     } catch (error) {
       console.error('Error updating stage order:', error);
       toast.error('Failed to update stage order');
@@ -446,6 +463,11 @@ const PipelineSettings = () => {
                             {stage.is_won_stage && <Badge className="bg-green-500">Won</Badge>}
                             {stage.is_lost_stage && <Badge variant="destructive">Lost/Dropped</Badge>}
                             {!stage.is_active && <Badge variant="secondary">Inactive</Badge>}
+                            {stage.requires_approval && <Badge variant="outline">Approval</Badge>}
+                            {stage.sla_days && <Badge variant="outline">SLA {stage.sla_days}d</Badge>}
+                            {(stage.required_fields?.length || 0) > 0 && (
+                              <Badge variant="outline">{stage.required_fields?.length} required</Badge>
+                            )}
                           </div>
                           <div className="flex items-center gap-2">
                             <Button
@@ -464,7 +486,7 @@ const PipelineSettings = () => {
                               variant="ghost"
                               size="sm"
                               className="text-destructive"
-                              onClick={() => setStageToDelete(stage)}
+                              onClick={() => openDeleteStage(stage)}
                               aria-label={`Delete ${stage.stage_name}`}
                             >
                               <Trash2 className="h-4 w-4" />
@@ -656,6 +678,23 @@ const PipelineSettings = () => {
                 onChange={(e) => setEditingStage(s => ({ ...s, stage_probability: parseInt(e.target.value) || 0 }))}
               />
             </div>
+            {!editingStage?.is_won_stage && !editingStage?.is_lost_stage && (
+              <div className="space-y-2">
+                <Label htmlFor="stage-sla">SLA (days)</Label>
+                <Input
+                  id="stage-sla"
+                  type="number"
+                  min="1"
+                  placeholder="No limit"
+                  value={editingStage?.sla_days ?? ''}
+                  onChange={(e) => {
+                    const days = parseInt(e.target.value);
+                    setEditingStage(s => ({ ...s, sla_days: days > 0 ? days : null }));
+                  }}
+                />
+                <p className="text-xs text-muted-foreground">Open deals in this stage for longer are flagged as stuck in Deal Analytics</p>
+              </div>
+            )}
             <div className="flex items-center justify-between">
               <Label htmlFor="stage-active">Active</Label>
               <Switch
@@ -680,6 +719,44 @@ const PipelineSettings = () => {
                 onCheckedChange={(checked) => setEditingStage(s => ({ ...s, is_lost_stage: checked, is_won_stage: false }))}
               />
             </div>
+            <div className="flex items-center justify-between">
+              <div>
+                <Label htmlFor="stage-approval">Requires Approval</Label>
+                <p className="text-xs text-muted-foreground">A manager must approve deals entering this stage</p>
+              </div>
+              <Switch
+                id="stage-approval"
+                checked={editingStage?.requires_approval || false}
+                onCheckedChange={(checked) => setEditingStage(s => ({ ...s, requires_approval: checked }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label id="stage-required-label">Entry Criteria</Label>
+              <p className="text-xs text-muted-foreground">Fields a deal must have before it can enter this stage</p>
+              <div
+                className="grid grid-cols-2 gap-2 max-h-48 overflow-y-auto rounded-md border p-2"
+                role="group"
+                aria-labelledby="stage-required-label"
+              >
+                {STAGE_GATE_FIELDS.map(field => {
+                  const required = editingStage?.required_fields || [];
+                  return (
+                    <label key={field} className="flex items-center gap-2 text-sm cursor-pointer">
+                      <Checkbox
+                        checked={required.includes(field)}
+                        onCheckedChange={(checked) => setEditingStage(s => ({
+                          ...s,
+                          required_fields: checked
+                            ? [...required, field]
+                            : required.filter(f => f !== field),
+                        }))}
+                      />
+                      {DEAL_FIELD_LABELS[field] || field}
+                    </label>
+                  );
+                })}
+              </div>
+            </div>
           </div>
           <DialogFooter>
             <Button variant="outline" onClick={() => setShowStageModal(false)}>
@@ -788,13 +865,42 @@ const PipelineSettings = () => {
       </Dialog>
 
       {/* Delete Confirmation Dialogs */}
-      <DeleteConfirmDialog
-        open={!!stageToDelete}
-        onOpenChange={(open) => !open && setStageToDelete(null)}
-        onConfirm={confirmDeleteStage}
-        title="Delete Pipeline Stage"
-        description={`Are you sure you want to delete the "${stageToDelete?.stage_name}" stage? Deals in this stage will need to be reassigned.`}
-      />
+      <Dialog open={!!stageToDelete} onOpenChange={(open) => !open && setStageToDelete(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete Pipeline Stage</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4 py-2">
+            <p className="text-sm text-muted-foreground">
+              Are you sure you want to delete the "{stageToDelete?.stage_name}" stage? Deals in this stage will be moved to the stage selected below.
+            </p>
+            <div className="space-y-2">
+              <Label>Move deals to</Label>
+              <Select value={reassignStage} onValueChange={setReassignStage}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select stage" />
+                </SelectTrigger>
+                <SelectContent>
+                  {stages.filter(s => s.id !== stageToDelete?.id).map(s => (
+                    <SelectItem key={s.id} value={s.stage_name}>
+                      {s.stage_name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setStageToDelete(null)}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={confirmDeleteStage} disabled={saving || !reassignStage}>
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Delete
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
 
       <DeleteConfirmDialog
         open={!!statusToDelete}
@@ -10,6 +10,7 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '
 import { toast } from 'sonner';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
+import { useProfiles } from '@/hooks/useProfiles';
 import { 
   FileText, 
   Plus, 
@@ -18,7 +19,9 @@ import {
   RefreshCw,
   Calendar,
   Clock,
-  Mail
+  Mail,
+  Send,
+  XCircle
 } from 'lucide-react';
 import { format } from 'date-fns';
 
@@ -34,15 +37,27 @@ interface ReportSchedule {
   filters: any;
   is_enabled: boolean;
   last_sent_at: string | null;
+  next_run_at: string | null;
   created_at: string;
 }
 
+interface ReportRun {
+  id: string;
+  schedule_id: string | null;
+  status: string;
+  sent_count: number | null;
+  recipients_count: number | null;
+  error_message: string | null;
+  started_at: string;
+}
+
 const reportTypes = [
   { value: 'deals_summary', label: 'Deals Summary' },
   { value: 'leads_activity', label: 'Leads Activity' },
   { value: 'pipeline_status', label: 'Pipeline Status' },
   { value: 'revenue_forecast', label: 'Revenue Forecast' },
   { value: 'team_performance', label: 'Team Performance' },
+  { value: 'lead_conversion', label: 'Lead Conversion' },
 ];
 
 const frequencyOptions = [
@@ -51,6 +66,13 @@ const frequencyOptions = [
   { value: 'monthly', label: 'Monthly' },
 ];
 
+const periodOptions = [
+  { value: 'default', label: 'Since last report' },
+  { value: '7', label: 'Last 7 days' },
+  { value: '30', label: 'Last 30 days' },
+  { value: '90', label: 'Last 90 days' },
+];
+
 const daysOfWeek = [
   { value: 0, label: 'Sunday' },
   { value: 1, label: 'Monday' },
@@ -63,7 +85,10 @@ const daysOfWeek = [
 
 const ScheduledReportsSettings = () => {
   const { user } = useAuth();
+  const { data: profiles = [] } = useProfiles();
   const [schedules, setSchedules] = useState<ReportSchedule[]>([]);
+  const [lastRuns, setLastRuns] = useState<Record<string, ReportRun>>({});
+  const [sendingId, setSendingId] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [showModal, setShowModal] = useState(false);
@@ -76,6 +101,8 @@ const ScheduledReportsSettings = () => {
     day_of_month: 1,
     time_of_day: '08:00',
     recipients: '',
+    period_days: 'default',
+    owner_id: 'all',
     is_enabled: true,
   });
 
@@ -88,6 +115,19 @@ const ScheduledReportsSettings = () => {
 
       if (error) throw error;
       setSchedules(data || []);
+
+      // Latest delivery attempt per schedule
+      const { data: runs } = await supabase
+        .from('report_runs')
+        .select('id, schedule_id, status, sent_count, recipients_count, error_message, started_at')
+        .order('started_at', { ascending: false })
+        .limit(100);
+
+      const latest: Record<string, ReportRun> = {};
+      (runs || []).forEach(run => {
+        if (run.schedule_id && !latest[run.schedule_id]) latest[run.schedule_id] = run;
+      });
+      setLastRuns(latest);
     } catch (error) {
       console.error('Error fetching report schedules:', error);
       toast.error('Failed to load report schedules');
@@ -111,6 +151,8 @@ const ScheduledReportsSettings = () => {
         day_of_month: schedule.day_of_month || 1,
         time_of_day: schedule.time_of_day || '08:00',
         recipients: (schedule.recipients || []).join(', '),
+        period_days: schedule.filters?.period_days ? String(schedule.filters.period_days) : 'default',
+        owner_id: schedule.filters?.owner_id || 'all',
         is_enabled: schedule.is_enabled,
       });
     } else {
@@ -123,6 +165,8 @@ const ScheduledReportsSettings = () => {
         day_of_month: 1,
         time_of_day: '08:00',
         recipients: user?.email || '',
+        period_days: 'default',
+        owner_id: 'all',
         is_enabled: true,
       });
     }
@@ -138,6 +182,10 @@ const ScheduledReportsSettings = () => {
     setSaving(true);
     try {
       const recipientsList = formData.recipients.split(',').map(e => e.trim()).filter(Boolean);
+      const filters = {
+        ...(formData.period_days !== 'default' && { period_days: Number(formData.period_days) }),
+        ...(formData.owner_id !== 'all' && { owner_id: formData.owner_id }),
+      };
       
       const payload = {
         name: formData.name,
@@ -147,6 +195,7 @@ const ScheduledReportsSettings = () => {
         day_of_month: formData.frequency === 'monthly' ? formData.day_of_month : null,
         time_of_day: formData.time_of_day,
         recipients: recipientsList,
+        filters: Object.keys(filters).length > 0 ? filters : null,
         is_enabled: formData.is_enabled,
         created_by: user?.id,
       };
@@ -211,6 +260,29 @@ const ScheduledReportsSettings = () => {
     }
   };
 
+  const handleSendNow = async (schedule: ReportSchedule) => {
+    setSendingId(schedule.id);
+    try {
+      const { data, error } = await supabase.functions.invoke('run-scheduled-reports', {
+        body: { scheduleId: schedule.id }
+      });
+
+      if (error) throw error;
+      const result = data?.results?.[0];
+      if (result?.success) {
+        toast.success(`Report sent to ${result.sentCount} recipient(s)`);
+      } else {
+        toast.error(result?.error || 'Report could not be delivered');
+      }
+      fetchSchedules();
+    } catch (error) {
+      console.error('Error sending report:', error);
+      toast.error('Failed to send report');
+    } finally {
+      setSendingId(null);
+    }
+  };
+
   const getFrequencyLabel = (schedule: ReportSchedule) => {
     switch (schedule.frequency) {
       case 'daily':
@@ -287,6 +359,16 @@ const ScheduledReportsSettings = () => {
                             Last sent: {format(new Date(schedule.last_sent_at), 'MMM d, HH:mm')}
                           </span>
                         )}
+                        {lastRuns[schedule.id] && lastRuns[schedule.id].status !== 'success' && lastRuns[schedule.id].status !== 'running' && (
+                          <span
+                            className="flex items-center gap-1 text-destructive"
+                            title={lastRuns[schedule.id].error_message || undefined}
+                          >
+                            <XCircle className="h-3 w-3" />
+                            {lastRuns[schedule.id].status === 'partial' ? 'Partially delivered' : 'Last run failed'}
+                            {' '}{format(new Date(lastRuns[schedule.id].started_at), 'MMM d, HH:mm')}
+                          </span>
+                        )}
                       </div>
                     </div>
                   </div>
@@ -295,6 +377,19 @@ const ScheduledReportsSettings = () => {
                       checked={schedule.is_enabled}
                       onCheckedChange={() => handleToggleEnabled(schedule.id, schedule.is_enabled)}
                     />
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title="Send now"
+                      disabled={sendingId === schedule.id}
+                      onClick={() => handleSendNow(schedule)}
+                    >
+                      {sendingId === schedule.id ? (
+                        <RefreshCw className="h-4 w-4 animate-spin" />
+                      ) : (
+                        <Send className="h-4 w-4" />
+                      )}
+                    </Button>
                     <Button variant="ghost" size="icon" onClick={() => handleOpenModal(schedule)}>
                       <Pencil className="h-4 w-4" />
                     </Button>
@@ -411,7 +506,7 @@ const ScheduledReportsSettings = () => {
             </div>
 
             <div className="space-y-2">
-              <Label htmlFor="time">Time of Day</Label>
+              <Label htmlFor="time">Time of Day (UTC)</Label>
               <Input
                 id="time"
                 type="time"
@@ -420,6 +515,47 @@ const ScheduledReportsSettings = () => {
               />
             </div>
 
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Report Period</Label>
+                <Select 
+                  value={formData.period_days} 
+                  onValueChange={(v) => setFormData({ ...formData, period_days: v })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {periodOptions.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Owner</Label>
+                <Select 
+                  value={formData.owner_id} 
+                  onValueChange={(v) => setFormData({ ...formData, owner_id: v })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All owners</SelectItem>
+                    {profiles.filter(p => p.full_name).map((profile) => (
+                      <SelectItem key={profile.id} value={profile.id}>
+                        {profile.full_name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
             <div className="space-y-2">
               <Label htmlFor="recipients">Recipients (comma-separated) *</Label>
               <Input
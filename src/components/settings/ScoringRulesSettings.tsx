@@ -0,0 +1,404 @@
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { DeleteConfirmDialog } from '@/components/shared/DeleteConfirmDialog';
+import { useUserRole } from '@/hooks/useUserRole';
+import { useScoringActions, useScoringRules } from '@/hooks/useScoring';
+import {
+  SCORING_FIELD_LABELS,
+  SCORING_OPERATOR_LABELS,
+  SCORING_SIGNAL_LABELS,
+  ScoringAppliesTo,
+  ScoringCategory,
+  ScoringField,
+  ScoringOperator,
+  ScoringRule,
+  ScoringRuleInput,
+  ScoringSignal,
+} from '@/types/scoring';
+import { Gauge, Loader2, Plus, RefreshCw, Trash2 } from 'lucide-react';
+
+const APPLIES_TO_LABELS: Record<ScoringAppliesTo, string> = {
+  all: 'Leads and contacts',
+  lead: 'Leads only',
+  contact: 'Contacts only',
+};
+
+const emptyRule = (category: ScoringCategory): ScoringRuleInput => ({
+  name: '',
+  category,
+  applies_to: 'all',
+  field: category === 'fit' ? 'industry' : null,
+  operator: 'equals',
+  value: '',
+  signal: category === 'behavior' ? 'email_open' : null,
+  points: category === 'fit' ? 10 : 5,
+  max_points: category === 'behavior' ? 30 : null,
+  half_life_days: category === 'behavior' ? 30 : null,
+  is_active: true,
+});
+
+const parseOptionalNumber = (value: string): number | null => {
+  if (value.trim() === '') return null;
+  const number = parseInt(value, 10);
+  return isNaN(number) ? null : number;
+};
+
+const describeRule = (rule: ScoringRule) => {
+  if (rule.category === 'fit' && rule.field) {
+    const field = SCORING_FIELD_LABELS[rule.field] || rule.field;
+    return rule.operator === 'is_set'
+      ? `${field} ${SCORING_OPERATOR_LABELS.is_set}`
+      : `${field} ${SCORING_OPERATOR_LABELS[rule.operator]} "${rule.value}"`;
+  }
+  const parts = [`per ${(rule.signal && SCORING_SIGNAL_LABELS[rule.signal] || rule.signal || '').toLowerCase()}`];
+  if (rule.max_points) parts.push(`up to ${rule.max_points}`);
+  if (rule.half_life_days) parts.push(`halves every ${rule.half_life_days} days`);
+  return parts.join(', ');
+};
+
+// Admin-defined lead and contact scoring model (see calculate_record_score)
+const ScoringRulesSettings = () => {
+  const { isAdmin } = useUserRole();
+  const { rules, loading } = useScoringRules();
+  const { saveRule, deleteRule, recalculateAll, isSaving, isRecalculatingAll } = useScoringActions();
+  const [editing, setEditing] = useState<{ id?: string; rule: ScoringRuleInput } | null>(null);
+  const [ruleToDelete, setRuleToDelete] = useState<ScoringRule | null>(null);
+  const [validationError, setValidationError] = useState<string | null>(null);
+
+  const update = (changes: Partial<ScoringRuleInput>) => {
+    setEditing(e => e && { ...e, rule: { ...e.rule, ...changes } });
+    setValidationError(null);
+  };
+
+  const openRule = (rule: ScoringRule | ScoringCategory) => {
+    if (typeof rule === 'string') {
+      setEditing({ rule: emptyRule(rule) });
+    } else {
+      const { id, created_at: _createdAt, ...input } = rule;
+      setEditing({ id, rule: input });
+    }
+    setValidationError(null);
+  };
+
+  const handleSave = () => {
+    if (!editing) return;
+    const { rule } = editing;
+    if (!rule.name.trim()) {
+      setValidationError('Name is required');
+      return;
+    }
+    if (rule.category === 'fit' && rule.operator !== 'is_set' && !rule.value?.trim()) {
+      setValidationError('Enter the value to match');
+      return;
+    }
+    if (!rule.points) {
+      setValidationError('Points cannot be zero');
+      return;
+    }
+
+    const isFit = rule.category === 'fit';
+    saveRule(
+      {
+        id: editing.id,
+        rule: {
+          ...rule,
+          name: rule.name.trim(),
+          field: isFit ? rule.field : null,
+          operator: isFit ? rule.operator : 'equals',
+          value: isFit && rule.operator !== 'is_set' ? rule.value?.trim() || null : null,
+          signal: isFit ? null : rule.signal,
+          max_points: isFit ? null : rule.max_points,
+          half_life_days: isFit ? null : rule.half_life_days,
+        },
+      },
+      { onSuccess: () => setEditing(null) }
+    );
+  };
+
+  const toggleActive = (rule: ScoringRule, isActive: boolean) => {
+    const { id, created_at: _createdAt, ...input } = rule;
+    saveRule({ id, rule: { ...input, is_active: isActive } });
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!isAdmin) {
+    return (
+      <Card>
+        <CardContent className="py-8 text-center">
+          <p className="text-muted-foreground">
+            Only administrators can manage the scoring model.
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const renderRules = (category: ScoringCategory) => {
+    const categoryRules = rules.filter(r => r.category === category);
+    if (categoryRules.length === 0) {
+      return <p className="text-sm text-muted-foreground text-center py-4">No rules yet</p>;
+    }
+    return categoryRules.map(rule => (
+      <div
+        key={rule.id}
+        className="flex items-center justify-between p-3 border rounded-lg hover:bg-muted/50 transition-colors"
+      >
+        <div className="flex items-center gap-3 min-w-0">
+          <Badge variant={rule.points < 0 ? 'destructive' : 'secondary'} className="w-12 justify-center">
+            {rule.points > 0 ? `+${rule.points}` : rule.points}
+          </Badge>
+          <div className="min-w-0">
+            <p className="font-medium truncate">{rule.name}</p>
+            <p className="text-xs text-muted-foreground truncate">
+              {describeRule(rule)}
+              {rule.applies_to !== 'all' && ` · ${APPLIES_TO_LABELS[rule.applies_to]}`}
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <Switch
+            checked={rule.is_active}
+            onCheckedChange={(checked) => toggleActive(rule, checked)}
+            aria-label={`${rule.is_active ? 'Disable' : 'Enable'} ${rule.name}`}
+          />
+          <Button variant="ghost" size="sm" onClick={() => openRule(rule)} aria-label={`Edit ${rule.name}`}>
+            Edit
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="text-destructive"
+            onClick={() => setRuleToDelete(rule)}
+            aria-label={`Delete ${rule.name}`}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+    ));
+  };
+
+  const rule = editing?.rule;
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <Gauge className="h-5 w-5" />
+                Lead & Contact Scoring
+              </CardTitle>
+              <CardDescription>
+                Scores run from 0 to 100: fit points for who the record is, plus activity points that fade over time.
+                Scores refresh on each tracked email event and nightly.
+              </CardDescription>
+            </div>
+            <Button variant="outline" onClick={() => recalculateAll()} disabled={isRecalculatingAll}>
+              {isRecalculatingAll ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <RefreshCw className="h-4 w-4 mr-2" />}
+              Recalculate all
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <h4 className="text-sm font-medium">Fit</h4>
+              <Button variant="ghost" size="sm" onClick={() => openRule('fit')}>
+                <Plus className="h-4 w-4 mr-1" />
+                Add fit rule
+              </Button>
+            </div>
+            {renderRules('fit')}
+          </div>
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <h4 className="text-sm font-medium">Activity</h4>
+              <Button variant="ghost" size="sm" onClick={() => openRule('behavior')}>
+                <Plus className="h-4 w-4 mr-1" />
+                Add activity rule
+              </Button>
+            </div>
+            {renderRules('behavior')}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>
+              {editing?.id ? 'Edit' : 'Add'} {rule?.category === 'fit' ? 'Fit' : 'Activity'} Rule
+            </DialogTitle>
+          </DialogHeader>
+          {rule && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="rule-name">Name</Label>
+                  <Input
+                    id="rule-name"
+                    value={rule.name}
+                    onChange={(e) => update({ name: e.target.value })}
+                    placeholder={rule.category === 'fit' ? 'e.g. Target industry' : 'e.g. Opened an email'}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="rule-applies-to">Applies to</Label>
+                  <Select value={rule.applies_to} onValueChange={(v) => update({ applies_to: v as ScoringAppliesTo })}>
+                    <SelectTrigger id="rule-applies-to">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(APPLIES_TO_LABELS) as ScoringAppliesTo[]).map(key => (
+                        <SelectItem key={key} value={key}>{APPLIES_TO_LABELS[key]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              {rule.category === 'fit' ? (
+                <div className="grid grid-cols-3 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="rule-field">Field</Label>
+                    <Select value={rule.field || 'industry'} onValueChange={(v) => update({ field: v as ScoringField })}>
+                      <SelectTrigger id="rule-field">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(SCORING_FIELD_LABELS) as ScoringField[]).map(key => (
+                          <SelectItem key={key} value={key}>{SCORING_FIELD_LABELS[key]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="rule-operator">Condition</Label>
+                    <Select value={rule.operator} onValueChange={(v) => update({ operator: v as ScoringOperator })}>
+                      <SelectTrigger id="rule-operator">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(SCORING_OPERATOR_LABELS) as ScoringOperator[]).map(key => (
+                          <SelectItem key={key} value={key}>{SCORING_OPERATOR_LABELS[key]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="rule-value">Value</Label>
+                    <Input
+                      id="rule-value"
+                      value={rule.value || ''}
+                      onChange={(e) => update({ value: e.target.value })}
+                      disabled={rule.operator === 'is_set'}
+                      placeholder={rule.operator === 'equals' ? 'Steel, Automotive' : ''}
+                    />
+                  </div>
+                  <p className="col-span-3 text-xs text-muted-foreground">
+                    Matching ignores case. Separate alternatives with commas. Empty record fields fall back to the linked account.
+                  </p>
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  <Label htmlFor="rule-signal">Activity</Label>
+                  <Select value={rule.signal || 'email_open'} onValueChange={(v) => update({ signal: v as ScoringSignal })}>
+                    <SelectTrigger id="rule-signal">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(SCORING_SIGNAL_LABELS) as ScoringSignal[]).map(key => (
+                        <SelectItem key={key} value={key}>{SCORING_SIGNAL_LABELS[key]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              <div className="grid grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="rule-points">{rule.category === 'fit' ? 'Points' : 'Points each'}</Label>
+                  <Input
+                    id="rule-points"
+                    type="number"
+                    value={rule.points}
+                    onChange={(e) => update({ points: parseOptionalNumber(e.target.value) ?? 0 })}
+                  />
+                </div>
+                {rule.category === 'behavior' && (
+                  <>
+                    <div className="space-y-2">
+                      <Label htmlFor="rule-max">Cap</Label>
+                      <Input
+                        id="rule-max"
+                        type="number"
+                        min={1}
+                        value={rule.max_points ?? ''}
+                        onChange={(e) => update({ max_points: parseOptionalNumber(e.target.value) })}
+                        placeholder="No cap"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="rule-half-life">Half-life (days)</Label>
+                      <Input
+                        id="rule-half-life"
+                        type="number"
+                        min={1}
+                        value={rule.half_life_days ?? ''}
+                        onChange={(e) => update({ half_life_days: parseOptionalNumber(e.target.value) })}
+                        placeholder="No decay"
+                      />
+                    </div>
+                  </>
+                )}
+              </div>
+              {rule.category === 'behavior' && (
+                <p className="text-xs text-muted-foreground">
+                  An event counts in full today and half after the half-life. The cap limits the total of this rule.
+                </p>
+              )}
+
+              {validationError && <p className="text-sm text-destructive">{validationError}</p>}
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>Cancel</Button>
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <DeleteConfirmDialog
+        open={!!ruleToDelete}
+        onOpenChange={(open) => !open && setRuleToDelete(null)}
+        onConfirm={() => {
+          if (ruleToDelete) deleteRule(ruleToDelete.id);
+          setRuleToDelete(null);
+        }}
+        itemName={ruleToDelete?.name}
+        itemType="scoring rule"
+      />
+    </div>
+  );
+};
+
+export default ScoringRulesSettings;
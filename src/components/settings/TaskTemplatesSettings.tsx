@@ -0,0 +1,461 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { supabase } from '@/integrations/supabase/client';
+import { TaskPriority, TaskTemplate, TaskTemplateSubtask } from '@/types/task';
+import { toast } from 'sonner';
+import { useUserRole } from '@/hooks/useUserRole';
+import { Loader2, Plus, Trash2, ListChecks, AlertCircle, X } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { DeleteConfirmDialog } from '@/components/shared/DeleteConfirmDialog';
+
+interface StageOption {
+  id: string;
+  stage_name: string;
+}
+
+const PRIORITIES: TaskPriority[] = ['high', 'medium', 'low'];
+
+const emptyTemplate = (): Partial<TaskTemplate> => ({
+  name: '',
+  pipeline_stage_id: '',
+  description: '',
+  priority: 'medium',
+  due_in_days: null,
+  subtasks: [{ title: '', priority: 'medium', due_in_days: null }],
+  is_active: true,
+});
+
+const parseDays = (value: string): number | null => {
+  if (value.trim() === '') return null;
+  const days = parseInt(value, 10);
+  return isNaN(days) || days < 0 ? null : days;
+};
+
+// Sub-task templates that run when a deal enters a pipeline stage (see create_stage_template_tasks)
+const TaskTemplatesSettings = () => {
+  const { userRole } = useUserRole();
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [templates, setTemplates] = useState<TaskTemplate[]>([]);
+  const [stages, setStages] = useState<StageOption[]>([]);
+  const [editingTemplate, setEditingTemplate] = useState<Partial<TaskTemplate> | null>(null);
+  const [templateToDelete, setTemplateToDelete] = useState<TaskTemplate | null>(null);
+  const [validationError, setValidationError] = useState<string | null>(null);
+
+  const isAdmin = userRole === 'admin';
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  const fetchData = async () => {
+    try {
+      const [templatesRes, stagesRes] = await Promise.all([
+        supabase.from('task_templates').select('*').order('created_at', { ascending: true }),
+        supabase.from('pipeline_stages').select('id, stage_name').eq('is_active', true).order('stage_order', { ascending: true }),
+      ]);
+      if (templatesRes.error) throw templatesRes.error;
+      if (stagesRes.error) throw stagesRes.error;
+
+      setTemplates((templatesRes.data || []).map(row => ({
+        ...row,
+        priority: row.priority as TaskPriority,
+        subtasks: Array.isArray(row.subtasks) ? (row.subtasks as unknown as TaskTemplateSubtask[]) : [],
+      })));
+      setStages(stagesRes.data || []);
+    } catch (error) {
+      console.error('Error fetching task templates:', error);
+      toast.error('Failed to load task templates');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateSubtask = (index: number, changes: Partial<TaskTemplateSubtask>) => {
+    setEditingTemplate(t => t && ({
+      ...t,
+      subtasks: (t.subtasks || []).map((s, i) => (i === index ? { ...s, ...changes } : s)),
+    }));
+  };
+
+  const saveTemplate = async () => {
+    if (!editingTemplate) return;
+    const subtasks = (editingTemplate.subtasks || [])
+      .map(s => ({ ...s, title: s.title.trim() }))
+      .filter(s => s.title);
+
+    if (!editingTemplate.name?.trim()) {
+      setValidationError('Name is required');
+      return;
+    }
+    if (!editingTemplate.pipeline_stage_id) {
+      setValidationError('Choose the stage that starts this template');
+      return;
+    }
+    if (subtasks.length === 0) {
+      setValidationError('Add at least one sub-task');
+      return;
+    }
+
+    setSaving(true);
+    setValidationError(null);
+
+    const payload = {
+      name: editingTemplate.name.trim(),
+      pipeline_stage_id: editingTemplate.pipeline_stage_id,
+      description: editingTemplate.description?.trim() || null,
+      priority: editingTemplate.priority || 'medium',
+      due_in_days: editingTemplate.due_in_days ?? null,
+      subtasks: subtasks.map(s => ({ title: s.title, priority: s.priority || 'medium', due_in_days: s.due_in_days ?? null })),
+      is_active: editingTemplate.is_active ?? true,
+    };
+
+    try {
+      if (editingTemplate.id) {
+        const { error } = await supabase
+          .from('task_templates')
+          .update(payload)
+          .eq('id', editingTemplate.id);
+        if (error) throw error;
+      } else {
+        const { data: { user } } = await supabase.auth.getUser();
+        const { error } = await supabase
+          .from('task_templates')
+          .insert({ ...payload, created_by: user?.id });
+        if (error) throw error;
+      }
+
+      toast.success('Template saved successfully');
+      setEditingTemplate(null);
+      fetchData();
+    } catch (error) {
+      console.error('Error saving task template:', error);
+      toast.error('Failed to save template');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleActive = async (template: TaskTemplate, isActive: boolean) => {
+    setTemplates(prev => prev.map(t => (t.id === template.id ? { ...t, is_active: isActive } : t)));
+    const { error } = await supabase
+      .from('task_templates')
+      .update({ is_active: isActive })
+      .eq('id', template.id);
+    if (error) {
+      console.error('Error updating task template:', error);
+      toast.error('Failed to update template');
+      fetchData();
+    }
+  };
+
+  const confirmDeleteTemplate = async () => {
+    if (!templateToDelete) return;
+    try {
+      const { error } = await supabase
+        .from('task_templates')
+        .delete()
+        .eq('id', templateToDelete.id);
+      if (error) throw error;
+      toast.success('Template deleted');
+      setTemplateToDelete(null);
+      fetchData();
+    } catch (error) {
+      console.error('Error deleting task template:', error);
+      toast.error('Failed to delete template');
+    }
+  };
+
+  const openTemplateModal = (template?: TaskTemplate) => {
+    setEditingTemplate(template ? { ...template, subtasks: template.subtasks.map(s => ({ ...s })) } : emptyTemplate());
+    setValidationError(null);
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!isAdmin) {
+    return (
+      <Card>
+        <CardContent className="py-8 text-center">
+          <p className="text-muted-foreground">
+            Only administrators can manage task templates.
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const stageName = (stageId: string) => stages.find(s => s.id === stageId)?.stage_name || 'Inactive stage';
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <ListChecks className="h-5 w-5" />
+                Stage Task Templates
+              </CardTitle>
+              <CardDescription>
+                Create a task with sub-tasks on a deal when it enters a pipeline stage
+              </CardDescription>
+            </div>
+            <Button onClick={() => openTemplateModal()} disabled={stages.length === 0}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Template
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {templates.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">
+              No task templates yet
+            </p>
+          ) : (
+            templates.map(template => (
+              <div
+                key={template.id}
+                className="flex items-center justify-between p-3 border rounded-lg hover:bg-muted/50 transition-colors"
+              >
+                <div className="flex items-center gap-3 min-w-0">
+                  <span className="font-medium truncate">{template.name}</span>
+                  <Badge variant="outline">{stageName(template.pipeline_stage_id)}</Badge>
+                  <span className="text-xs text-muted-foreground">
+                    {template.subtasks.length} sub-task{template.subtasks.length !== 1 ? 's' : ''}
+                  </span>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Switch
+                    checked={template.is_active}
+                    onCheckedChange={(checked) => toggleActive(template, checked)}
+                    aria-label={`${template.is_active ? 'Disable' : 'Enable'} ${template.name}`}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => openTemplateModal(template)}
+                    aria-label={`Edit ${template.name}`}
+                  >
+                    Edit
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="text-destructive"
+                    onClick={() => setTemplateToDelete(template)}
+                    aria-label={`Delete ${template.name}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Template Edit Modal */}
+      <Dialog open={!!editingTemplate} onOpenChange={(open) => !open && setEditingTemplate(null)}>
+        <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingTemplate?.id ? 'Edit Template' : 'Add Template'}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="template-name">Name</Label>
+                <Input
+                  id="template-name"
+                  value={editingTemplate?.name || ''}
+                  onChange={(e) => {
+                    setEditingTemplate(t => t && ({ ...t, name: e.target.value }));
+                    setValidationError(null);
+                  }}
+                  placeholder="e.g. RFQ preparation"
+                />
+                <p className="text-xs text-muted-foreground">The task is named "{editingTemplate?.name || 'Name'}: deal name"</p>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="template-stage">When a deal enters</Label>
+                <Select
+                  value={editingTemplate?.pipeline_stage_id || ''}
+                  onValueChange={(v) => {
+                    setEditingTemplate(t => t && ({ ...t, pipeline_stage_id: v }));
+                    setValidationError(null);
+                  }}
+                >
+                  <SelectTrigger id="template-stage">
+                    <SelectValue placeholder="Select stage..." />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {stages.map(stage => (
+                      <SelectItem key={stage.id} value={stage.id}>{stage.stage_name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="template-description">Description</Label>
+              <Textarea
+                id="template-description"
+                value={editingTemplate?.description || ''}
+                onChange={(e) => setEditingTemplate(t => t && ({ ...t, description: e.target.value }))}
+                rows={2}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="template-priority">Priority</Label>
+                <Select
+                  value={editingTemplate?.priority || 'medium'}
+                  onValueChange={(v) => setEditingTemplate(t => t && ({ ...t, priority: v as TaskPriority }))}
+                >
+                  <SelectTrigger id="template-priority">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PRIORITIES.map(p => (
+                      <SelectItem key={p} value={p} className="capitalize">{p}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="template-due">Due (days after stage change)</Label>
+                <Input
+                  id="template-due"
+                  type="number"
+                  min={0}
+                  value={editingTemplate?.due_in_days ?? ''}
+                  onChange={(e) => setEditingTemplate(t => t && ({ ...t, due_in_days: parseDays(e.target.value) }))}
+                  placeholder="No due date"
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Sub-tasks</Label>
+              {(editingTemplate?.subtasks || []).map((subtask, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <Input
+                    value={subtask.title}
+                    onChange={(e) => {
+                      updateSubtask(index, { title: e.target.value });
+                      setValidationError(null);
+                    }}
+                    placeholder="Sub-task title"
+                    className="flex-1"
+                    aria-label={`Sub-task ${index + 1} title`}
+                  />
+                  <Select
+                    value={subtask.priority || 'medium'}
+                    onValueChange={(v) => updateSubtask(index, { priority: v as TaskPriority })}
+                  >
+                    <SelectTrigger className="w-28" aria-label={`Sub-task ${index + 1} priority`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {PRIORITIES.map(p => (
+                        <SelectItem key={p} value={p} className="capitalize">{p}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    type="number"
+                    min={0}
+                    value={subtask.due_in_days ?? ''}
+                    onChange={(e) => updateSubtask(index, { due_in_days: parseDays(e.target.value) })}
+                    placeholder="Days"
+                    className="w-20"
+                    aria-label={`Sub-task ${index + 1} due in days`}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 shrink-0"
+                    onClick={() => setEditingTemplate(t => t && ({
+                      ...t,
+                      subtasks: (t.subtasks || []).filter((_, i) => i !== index),
+                    }))}
+                    aria-label={`Remove sub-task ${index + 1}`}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setEditingTemplate(t => t && ({
+                  ...t,
+                  subtasks: [...(t.subtasks || []), { title: '', priority: t.priority || 'medium', due_in_days: null }],
+                }))}
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Add Sub-task
+              </Button>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <Label htmlFor="template-active">Active</Label>
+              <Switch
+                id="template-active"
+                checked={editingTemplate?.is_active ?? true}
+                onCheckedChange={(checked) => setEditingTemplate(t => t && ({ ...t, is_active: checked }))}
+              />
+            </div>
+
+            {validationError && (
+              <p className="text-sm text-destructive flex items-center gap-1">
+                <AlertCircle className="h-3.5 w-3.5" />
+                {validationError}
+              </p>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditingTemplate(null)}>
+              Cancel
+            </Button>
+            <Button onClick={saveTemplate} disabled={saving}>
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <DeleteConfirmDialog
+        open={!!templateToDelete}
+        onOpenChange={(open) => !open && setTemplateToDelete(null)}
+        onConfirm={confirmDeleteTemplate}
+        title="Delete Task Template"
+        description={`Are you sure you want to delete the "${templateToDelete?.name}" template? Tasks it already created are kept.`}
+      />
+    </div>
+  );
+};
+
+export default TaskTemplatesSettings;
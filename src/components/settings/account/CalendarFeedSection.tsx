@@ -0,0 +1,125 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { CalendarDays, Copy, Loader2, RefreshCw, Trash2 } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+
+const SUPABASE_PROJECT_ID = 'narvjcteixgjclvjvlbn';
+
+const feedUrl = (token: string) =>
+  `https://${SUPABASE_PROJECT_ID}.supabase.co/functions/v1/calendar-feed?token=${token}`;
+
+interface CalendarFeedSectionProps {
+  userId: string;
+}
+
+// Personal ICS subscription (calendar-feed edge function) with the user's meetings and open tasks
+const CalendarFeedSection = ({ userId }: CalendarFeedSectionProps) => {
+  const [token, setToken] = useState<string | null>(null);
+  const [lastAccessedAt, setLastAccessedAt] = useState<string | null>(null);
+  const [working, setWorking] = useState(false);
+
+  useEffect(() => {
+    if (!userId) return;
+    supabase
+      .from('calendar_feed_tokens')
+      .select('token, last_accessed_at')
+      .eq('user_id', userId)
+      .maybeSingle()
+      .then(({ data }) => {
+        setToken(data?.token || null);
+        setLastAccessedAt(data?.last_accessed_at || null);
+      });
+  }, [userId]);
+
+  const handleGenerate = async () => {
+    setWorking(true);
+    try {
+      const { data, error } = await supabase.rpc('rotate_calendar_feed_token');
+      if (error) throw error;
+      setToken(data);
+      setLastAccessedAt(null);
+      toast.success(token ? 'Feed link regenerated; the old link no longer works' : 'Calendar feed created');
+    } catch (error) {
+      console.error('Error generating calendar feed:', error);
+      toast.error('Failed to generate calendar feed');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleRemove = async () => {
+    setWorking(true);
+    try {
+      const { error } = await supabase.from('calendar_feed_tokens').delete().eq('user_id', userId);
+      if (error) throw error;
+      setToken(null);
+      setLastAccessedAt(null);
+      toast.success('Calendar feed removed');
+    } catch (error) {
+      console.error('Error removing calendar feed:', error);
+      toast.error('Failed to remove calendar feed');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!token) return;
+    await navigator.clipboard.writeText(feedUrl(token));
+    toast.success('Feed link copied');
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-base">
+          <CalendarDays className="h-4 w-4" />
+          Calendar Feed
+        </CardTitle>
+        <CardDescription>
+          Subscribe from Outlook, Google or Apple Calendar to see your meetings and open tasks.
+          Anyone with the link can read it.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {token ? (
+          <>
+            <div className="flex gap-2">
+              <Input readOnly value={feedUrl(token)} onFocus={(e) => e.target.select()} className="font-mono text-xs" />
+              <Button variant="outline" size="icon" onClick={handleCopy} title="Copy link">
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+            <div className="flex items-center justify-between gap-2">
+              <p className="text-xs text-muted-foreground">
+                {lastAccessedAt
+                  ? `Last read by a calendar app ${new Date(lastAccessedAt).toLocaleString()}`
+                  : 'Not read by a calendar app yet'}
+              </p>
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" onClick={handleGenerate} disabled={working}>
+                  <RefreshCw className="mr-2 h-4 w-4" />
+                  Regenerate
+                </Button>
+                <Button variant="outline" size="sm" onClick={handleRemove} disabled={working}>
+                  <Trash2 className="mr-2 h-4 w-4" />
+                  Remove
+                </Button>
+              </div>
+            </div>
+          </>
+        ) : (
+          <Button onClick={handleGenerate} disabled={working}>
+            {working && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Create Feed Link
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CalendarFeedSection;
@@ -0,0 +1,79 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Loader2, PenLine } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { RichTextEditor } from '@/components/shared/RichTextEditor';
+
+interface EmailSignatureSectionProps {
+  userId: string;
+}
+
+// Signature inserted into emails by the {{signature}} template variable
+const EmailSignatureSection = ({ userId }: EmailSignatureSectionProps) => {
+  const [signature, setSignature] = useState('');
+  const [saved, setSaved] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!userId) return;
+    supabase
+      .from('user_preferences')
+      .select('email_signature')
+      .eq('user_id', userId)
+      .maybeSingle()
+      .then(({ data }) => {
+        setSignature(data?.email_signature || '');
+        setSaved(data?.email_signature || '');
+      });
+  }, [userId]);
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('user_preferences')
+        .upsert({
+          user_id: userId,
+          email_signature: signature,
+          updated_at: new Date().toISOString()
+        }, { onConflict: 'user_id' });
+      if (error) throw error;
+      setSaved(signature);
+      toast.success('Email signature saved');
+    } catch (error) {
+      console.error('Error saving email signature:', error);
+      toast.error('Failed to save email signature');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-base">
+          <PenLine className="h-4 w-4" />
+          Email Signature
+        </CardTitle>
+        <CardDescription>
+          Added wherever a template uses {'{{signature}}'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <RichTextEditor value={signature} onChange={setSignature} placeholder="Best regards, ..." />
+        {signature !== saved && (
+          <div className="flex justify-end">
+            <Button onClick={handleSave} disabled={saving}>
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save Signature
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default EmailSignatureSection;
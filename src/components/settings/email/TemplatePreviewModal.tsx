@@ -1,7 +1,15 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { Eye, Mail } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { SearchableSelect } from '@/components/shared/SearchableSelect';
+import { TemplateIssuesAlert } from '@/components/email/TemplateIssuesAlert';
+import { supabase } from '@/integrations/supabase/client';
+import { TemplateTarget, useTemplateContext } from '@/hooks/useTemplateContext';
+import { renderEmailTemplate, SAMPLE_TEMPLATE_CONTEXT } from '@/utils/templateEngine';
+import { Eye, Loader2, Mail } from 'lucide-react';
 
 interface TemplatePreviewModalProps {
   open: boolean;
@@ -13,31 +21,85 @@ interface TemplatePreviewModalProps {
   } | null;
 }
 
-// Sample data for preview
-const sampleData: Record<string, string> = {
-  '{{contact_name}}': 'John Doe',
-  '{{company_name}}': 'Acme Corporation',
-  '{{position}}': 'Sales Manager',
-  '{{email}}': 'john.doe@acme.com',
-  '{{phone}}': '+1 (555) 123-4567',
-  '{{website}}': 'www.acme.com',
-  '{{lead_name}}': 'Jane Smith',
-  '{{account_name}}': 'Enterprise Solutions Inc.',
-};
+type PreviewSource = 'sample' | 'contact' | 'lead' | 'account';
 
-const renderWithVariables = (text: string): string => {
-  let rendered = text;
-  Object.entries(sampleData).forEach(([variable, value]) => {
-    rendered = rendered.replace(new RegExp(variable.replace(/[{}]/g, '\\$&'), 'g'), value);
-  });
-  return rendered;
+interface PreviewRecord {
+  id: string;
+  name: string;
+  email: string | null;
+  company: string | null;
+}
+
+const RECORD_LIMIT = 200;
+
+// Most recently changed records of a type, for the preview picker
+const fetchPreviewRecords = async (source: Exclude<PreviewSource, 'sample'>): Promise<PreviewRecord[]> => {
+  if (source === 'contact') {
+    const { data, error } = await supabase
+      .from('contacts')
+      .select('id, contact_name, email, company_name')
+      .order('modified_time', { ascending: false, nullsFirst: false })
+      .limit(RECORD_LIMIT);
+    if (error) throw error;
+    return (data || []).map(r => ({ id: r.id, name: r.contact_name, email: r.email, company: r.company_name }));
+  }
+  if (source === 'lead') {
+    const { data, error } = await supabase
+      .from('leads')
+      .select('id, lead_name, email, company_name')
+      .order('modified_time', { ascending: false, nullsFirst: false })
+      .limit(RECORD_LIMIT);
+    if (error) throw error;
+    return (data || []).map(r => ({ id: r.id, name: r.lead_name, email: r.email, company: r.company_name }));
+  }
+  const { data, error } = await supabase
+    .from('accounts')
+    .select('id, company_name, email')
+    .order('updated_at', { ascending: false, nullsFirst: false })
+    .limit(RECORD_LIMIT);
+  if (error) throw error;
+  return (data || []).map(r => ({ id: r.id, name: r.company_name, email: r.email, company: null }));
 };
 
 const TemplatePreviewModal = ({ open, onOpenChange, template }: TemplatePreviewModalProps) => {
+  const [source, setSource] = useState<PreviewSource>('sample');
+  const [recordId, setRecordId] = useState('');
+
+  useEffect(() => {
+    if (open) {
+      setSource('sample');
+      setRecordId('');
+    }
+  }, [open]);
+
+  const { data: records = [], isLoading: recordsLoading } = useQuery({
+    queryKey: ['template-preview-records', source],
+    queryFn: () => fetchPreviewRecords(source as Exclude<PreviewSource, 'sample'>),
+    enabled: open && source !== 'sample',
+    staleTime: 60 * 1000,
+  });
+
+  const record = records.find(r => r.id === recordId);
+  const target: TemplateTarget | null = record
+    ? {
+        contactId: source === 'contact' ? record.id : null,
+        leadId: source === 'lead' ? record.id : null,
+        accountId: source === 'account' ? record.id : null,
+        recipientName: source === 'account' ? null : record.name,
+        recipientEmail: record.email,
+      }
+    : null;
+  const { context: recordContext, loading: contextLoading } = useTemplateContext(target, open && !!target);
+
+  const context = source === 'sample' ? SAMPLE_TEMPLATE_CONTEXT : recordContext;
+  const rendered = useMemo(
+    () => (template && context ? renderEmailTemplate(template, context) : null),
+    [template, context]
+  );
+
   if (!template) return null;
 
-  const renderedSubject = renderWithVariables(template.subject);
-  const renderedBody = renderWithVariables(template.body);
+  const recipientEmail = (context?.email as string) || '';
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
@@ -48,35 +110,87 @@ const TemplatePreviewModal = ({ open, onOpenChange, template }: TemplatePreviewM
             Preview: {template.name}
           </DialogTitle>
           <DialogDescription>
-            See how your template looks with sample data
+            See how your template looks with sample data or one of your records
           </DialogDescription>
         </DialogHeader>
 
+        <div className="grid grid-cols-[160px_1fr] gap-2">
+          <Select
+            value={source}
+            onValueChange={(value) => {
+              setSource(value as PreviewSource);
+              setRecordId('');
+            }}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="sample">Sample data</SelectItem>
+              <SelectItem value="contact">Contact</SelectItem>
+              <SelectItem value="lead">Lead</SelectItem>
+              <SelectItem value="account">Account</SelectItem>
+            </SelectContent>
+          </Select>
+          {source !== 'sample' && (
+            <SearchableSelect
+              options={records.map(r => ({
+                value: r.id,
+                label: r.name,
+                description: [r.company, r.email].filter(Boolean).join(' · ') || undefined,
+              }))}
+              value={recordId}
+              onValueChange={setRecordId}
+              placeholder={recordsLoading ? 'Loading records...' : `Choose a ${source}`}
+              searchPlaceholder={`Search ${source}s...`}
+              disabled={recordsLoading}
+            />
+          )}
+        </div>
+
+        {rendered && (
+          <TemplateIssuesAlert
+            issues={rendered.issues}
+            unknownVariables={rendered.unknownVariables}
+            missing={rendered.missing}
+          />
+        )}
+
         <div className="flex-1 overflow-hidden">
-          <div className="border rounded-lg overflow-hidden bg-background">
-            {/* Email Header */}
-            <div className="border-b p-4 bg-muted/30">
-              <div className="space-y-2">
-                <div className="flex items-center gap-2">
-                  <Mail className="h-4 w-4 text-muted-foreground" />
-                  <span className="text-sm text-muted-foreground w-16">To:</span>
-                  <span className="text-sm">{sampleData['{{email}}']}</span>
-                </div>
-                <div className="flex items-center gap-2">
-                  <span className="text-sm text-muted-foreground ml-6 w-16">Subject:</span>
-                  <span className="text-sm font-medium">{renderedSubject}</span>
+          {!rendered ? (
+            <div className="flex items-center justify-center h-[200px] text-sm text-muted-foreground border rounded-lg">
+              {contextLoading ? (
+                <Loader2 className="h-5 w-5 animate-spin" />
+              ) : (
+                `Choose a ${source} to preview the template with its data`
+              )}
+            </div>
+          ) : (
+            <div className="border rounded-lg overflow-hidden bg-background">
+              {/* Email Header */}
+              <div className="border-b p-4 bg-muted/30">
+                <div className="space-y-2">
+                  <div className="flex items-center gap-2">
+                    <Mail className="h-4 w-4 text-muted-foreground" />
+                    <span className="text-sm text-muted-foreground w-16">To:</span>
+                    <span className="text-sm">{recipientEmail || '—'}</span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm text-muted-foreground ml-6 w-16">Subject:</span>
+                    <span className="text-sm font-medium">{rendered.subject}</span>
+                  </div>
                 </div>
               </div>
-            </div>
 
-            {/* Email Body */}
-            <ScrollArea className="h-[350px]">
-              <div 
-                className="p-4 text-sm prose prose-sm max-w-none dark:prose-invert [&_p]:mb-2 [&_ul]:list-disc [&_ul]:ml-4 [&_li]:mb-1 [&_br]:block"
-                dangerouslySetInnerHTML={{ __html: renderedBody }}
-              />
-            </ScrollArea>
-          </div>
+              {/* Email Body */}
+              <ScrollArea className="h-[300px]">
+                <div
+                  className="p-4 text-sm prose prose-sm max-w-none dark:prose-invert [&_p]:mb-2 [&_ul]:list-disc [&_ul]:ml-4 [&_li]:mb-1 [&_br]:block"
+                  dangerouslySetInnerHTML={{ __html: rendered.body }}
+                />
+              </ScrollArea>
+            </div>
+          )}
         </div>
 
         <div className="flex justify-end pt-4 border-t mt-auto">
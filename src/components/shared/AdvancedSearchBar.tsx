@@ -1,4 +1,4 @@
-import { useState, useCallback } from "react";
+import { useState, useCallback, useMemo } from "react";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -6,6 +6,13 @@ import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Search, Filter, Plus, X, HelpCircle } from "lucide-react";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
+import {
+  CustomField,
+  getCustomFieldColumnKey,
+  getCustomFieldNameFromColumn,
+  getCustomFieldValue,
+  isCustomFieldColumn,
+} from "@/types/customField";
 
 export interface SearchCondition {
   id: string;
@@ -26,6 +33,8 @@ interface AdvancedSearchBarProps {
   placeholder?: string;
   simpleSearch?: string;
   onSimpleSearchChange?: (value: string) => void;
+  // Custom fields offered as extra filter fields (keyed as cf_<field_name>)
+  customFields?: CustomField[];
 }
 
 const OPERATORS = [
@@ -39,12 +48,20 @@ const OPERATORS = [
 ];
 
 export const AdvancedSearchBar = ({
-  fields,
+  fields: baseFields,
   onSearch,
   placeholder = "Search...",
   simpleSearch = "",
   onSimpleSearchChange,
+  customFields = [],
 }: AdvancedSearchBarProps) => {
+  const fields = useMemo(
+    () => [
+      ...baseFields,
+      ...customFields.map(f => ({ value: getCustomFieldColumnKey(f.field_name), label: f.field_label })),
+    ],
+    [baseFields, customFields]
+  );
   const [isAdvancedOpen, setIsAdvancedOpen] = useState(false);
   const [groups, setGroups] = useState<SearchGroup[]>([
     {
@@ -362,7 +379,9 @@ function matchCondition<T extends Record<string, any>>(
   item: T,
   condition: SearchCondition
 ): boolean {
-  const value = item[condition.field];
+  const value = isCustomFieldColumn(condition.field)
+    ? getCustomFieldSearchValue(item, condition.field)
+    : item[condition.field];
   const valueStr = value ? String(value).toLowerCase() : '';
   const searchValue = condition.value.toLowerCase();
 
@@ -385,3 +404,12 @@ function matchCondition<T extends Record<string, any>>(
       return false;
   }
 }
+
+// Custom field values are matched the way they are displayed in tables
+function getCustomFieldSearchValue(item: { custom_fields?: unknown }, columnKey: string): string {
+  const value = getCustomFieldValue(item, getCustomFieldNameFromColumn(columnKey));
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (Array.isArray(value)) return value.join('; ');
+  return String(value);
+}
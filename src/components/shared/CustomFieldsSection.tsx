@@ -0,0 +1,43 @@
+import { FormFieldRenderer } from "@/components/deal-form/FormFieldRenderer";
+import { useCustomFields } from "@/hooks/useCustomFields";
+import { CustomFieldEntityType, CustomFieldValues } from "@/types/customField";
+
+interface CustomFieldsSectionProps {
+  entityType: CustomFieldEntityType;
+  values: CustomFieldValues;
+  onChange: (values: CustomFieldValues) => void;
+  errors?: Record<string, string>;
+  title?: string;
+  className?: string;
+}
+
+export const CustomFieldsSection = ({
+  entityType,
+  values,
+  onChange,
+  errors = {},
+  title = "Additional Fields",
+  className = "grid grid-cols-1 md:grid-cols-2 gap-4",
+}: CustomFieldsSectionProps) => {
+  const { fields } = useCustomFields(entityType);
+
+  if (fields.length === 0) return null;
+
+  return (
+    <div className="space-y-3">
+      <h3 className="text-sm font-semibold text-muted-foreground">{title}</h3>
+      <div className={className}>
+        {fields.map(field => (
+          <FormFieldRenderer
+            key={field.id}
+            field={field.field_name}
+            customField={field}
+            value={values[field.field_name]}
+            onChange={(name, value) => onChange({ ...values, [name]: value })}
+            error={errors[field.field_name]}
+          />
+        ))}
+      </div>
+    </div>
+  );
+};
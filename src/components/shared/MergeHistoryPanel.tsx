@@ -0,0 +1,73 @@
+import { useMemo } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { MergeEntityType, RecordMerge, useRecordMergeActions, useRecordMergeHistory } from '@/hooks/useRecordMerges';
+import { useUserDisplayNames } from '@/hooks/useUserDisplayNames';
+import { formatDateTimeStandard } from '@/utils/formatUtils';
+import { GitMerge, Undo2, Loader2 } from 'lucide-react';
+
+interface MergeHistoryPanelProps {
+  entityType: MergeEntityType;
+  entityId?: string | null;
+}
+
+const NAME_FIELDS: Record<MergeEntityType, string> = {
+  accounts: 'company_name',
+  contacts: 'contact_name',
+  leads: 'lead_name',
+};
+
+const getMergedName = (merge: RecordMerge, entityType: MergeEntityType) => {
+  const record = merge.merged_record as Record<string, unknown> | null;
+  const name = record?.[NAME_FIELDS[entityType]];
+  return typeof name === 'string' && name ? name : 'Merged record';
+};
+
+/**
+ * Records merged into this one that can still be split back out
+ */
+export const MergeHistoryPanel = ({ entityType, entityId }: MergeHistoryPanelProps) => {
+  const { merges, loading } = useRecordMergeHistory(entityType, entityId);
+  const { unmergeRecords, isUnmerging } = useRecordMergeActions();
+  const mergedByIds = useMemo(
+    () => merges.map(m => m.merged_by).filter((id): id is string => !!id),
+    [merges]
+  );
+  const { displayNames } = useUserDisplayNames(mergedByIds);
+
+  if (loading || merges.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base flex items-center gap-2">
+          <GitMerge className="h-4 w-4" />
+          Merged Records
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {merges.map(merge => (
+          <div key={merge.id} className="flex items-center justify-between gap-2">
+            <div className="min-w-0">
+              <p className="text-sm font-medium truncate">{getMergedName(merge, entityType)}</p>
+              <p className="text-xs text-muted-foreground">
+                Merged {formatDateTimeStandard(merge.merged_at)}
+                {merge.merged_by && ` by ${displayNames[merge.merged_by] || 'Unknown User'}`}
+                {` · undo until ${formatDateTimeStandard(merge.undo_until)}`}
+              </p>
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => unmergeRecords(merge.id).catch(() => {})}
+              disabled={isUnmerging}
+            >
+              {isUnmerging ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Undo2 className="h-4 w-4 mr-1" />}
+              Undo
+            </Button>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
@@ -1,7 +1,7 @@
 import { useState, useEffect, useCallback } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
-import { useQueryClient } from "@tanstack/react-query";
+import { useRecordMergeActions } from "@/hooks/useRecordMerges";
 import {
   Dialog,
   DialogContent,
@@ -51,9 +51,9 @@ const fieldLabels: Record<string, string> = {
   lead_status: "Status",
   status: "Status",
   notes: "Notes",
-  tags: "Tags",
 };
 
+// Tags are not listed: the merge keeps the union of both records' tags
 const mergeableFields: Record<EntityType, string[]> = {
   leads: [
     "lead_name",
@@ -81,7 +81,6 @@ const mergeableFields: Record<EntityType, string[]> = {
     "industry",
     "region",
     "description",
-    "tags",
   ],
   accounts: [
     "company_name",
@@ -94,7 +93,6 @@ const mergeableFields: Record<EntityType, string[]> = {
     "company_type",
     "status",
     "notes",
-    "tags",
   ],
 };
 
@@ -107,9 +105,8 @@ export const MergeRecordsModal = ({
   onSuccess,
 }: MergeRecordsModalProps) => {
   const { toast } = useToast();
-  const queryClient = useQueryClient();
+  const { mergeRecords, isMerging } = useRecordMergeActions();
   const [isLoading, setIsLoading] = useState(true);
-  const [isMerging, setIsMerging] = useState(false);
   const [sourceRecord, setSourceRecord] = useState<Record<string, unknown> | null>(null);
   const [targetRecord, setTargetRecord] = useState<Record<string, unknown> | null>(null);
   const [fieldSelections, setFieldSelections] = useState<Record<string, "source" | "target">>({});
@@ -182,60 +179,27 @@ export const MergeRecordsModal = ({
   const handleMerge = async () => {
     if (!sourceRecord || !targetRecord) return;
 
-    setIsMerging(true);
-    try {
-      // Build merged data
-      const mergedData: Record<string, unknown> = {};
-
-      for (const field of fields) {
-        const selection = fieldSelections[field.key];
-        const sourceVal = sourceRecord[field.key];
-        const targetVal = targetRecord[field.key];
-
-        mergedData[field.key] = selection === "source" ? sourceVal : targetVal;
-      }
-
-      // Update target record with merged data
-      const { error: updateError } = await supabase
-        .from(entityType)
-        .update({
-          ...mergedData,
-          modified_time: new Date().toISOString(),
-        })
-        .eq("id", targetId);
-
-      if (updateError) throw updateError;
-
-      // Delete source record
-      const { error: deleteError } = await supabase
-        .from(entityType)
-        .delete()
-        .eq("id", sourceId);
-
-      if (deleteError) {
-        console.warn("Could not delete source record:", deleteError);
-        // Continue anyway, the merge was successful
+    // Only the fields where the source value was chosen; the target keeps everything else
+    const fieldValues: Record<string, unknown> = {};
+    for (const field of fields) {
+      if (fieldSelections[field.key] === "source") {
+        fieldValues[field.key] = sourceRecord[field.key];
       }
+    }
 
-      toast({
-        title: "Success",
-        description: "Records merged successfully.",
+    try {
+      // Runs as one transaction: related records move to the target and the source is deleted
+      await mergeRecords({
+        entityType,
+        survivorId: targetId,
+        mergedId: sourceId,
+        fieldValues,
       });
 
-      // Invalidate relevant queries
-      queryClient.invalidateQueries({ queryKey: [entityType] });
-
       onSuccess();
       onOpenChange(false);
-    } catch (error) {
-      console.error("Error merging records:", error);
-      toast({
-        title: "Error",
-        description: "Failed to merge records.",
-        variant: "destructive",
-      });
-    } finally {
-      setIsMerging(false);
+    } catch {
+      // Reported by the mutation
     }
   };
 
@@ -259,7 +223,8 @@ export const MergeRecordsModal = ({
             Merge {getEntityLabel()}s
           </DialogTitle>
           <DialogDescription>
-            Choose which values to keep for each field. The source record will be deleted after merging.
+            Choose which values to keep for each field. Deals, tasks, meetings, emails, activities and tags
+            move to the kept record and the source record is deleted. You can undo the merge for 30 days.
           </DialogDescription>
         </DialogHeader>
 
@@ -0,0 +1,134 @@
+import { useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { useRecordScore, useScoreHistory, useScoringActions } from '@/hooks/useScoring';
+import {
+  getScoreBand,
+  SCORE_BAND_CLASSES,
+  SCORE_BANDS,
+  SCORE_REASON_LABELS,
+  SCORING_FIELD_LABELS,
+  SCORING_SIGNAL_LABELS,
+  ScoreBreakdownItem,
+  ScoredEntityType,
+} from '@/types/scoring';
+import { formatDateTimeStandard } from '@/utils/formatUtils';
+import { ChevronDown, ChevronUp, Gauge, Loader2, RefreshCw } from 'lucide-react';
+
+interface RecordScorePanelProps {
+  entityType: ScoredEntityType;
+  entityId?: string | null;
+}
+
+const describeItem = (item: ScoreBreakdownItem) => {
+  if (item.category === 'fit') {
+    return `${item.field ? SCORING_FIELD_LABELS[item.field] || item.field : 'Field'}: ${item.value}`;
+  }
+  const label = item.signal ? SCORING_SIGNAL_LABELS[item.signal] || item.signal : 'Activity';
+  return `${label} × ${item.count}`;
+};
+
+const formatPoints = (points: number) => (points > 0 ? `+${points}` : String(points));
+
+/**
+ * "Why this score": the rules that contributed to a lead's or contact's score, and how it changed
+ */
+export const RecordScorePanel = ({ entityType, entityId }: RecordScorePanelProps) => {
+  const { score, loading } = useRecordScore(entityType, entityId);
+  const { history } = useScoreHistory(entityType, entityId);
+  const { recalculateScore, isRecalculating } = useScoringActions();
+  const [showHistory, setShowHistory] = useState(false);
+
+  if (loading || !score) return null;
+
+  const value = score.score ?? 0;
+  const band = SCORE_BANDS.find(b => b.band === getScoreBand(value));
+  const breakdown = score.score_breakdown || [];
+  const fit = breakdown.filter(item => item.category === 'fit');
+  const behavior = breakdown.filter(item => item.category === 'behavior');
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-base flex items-center gap-2">
+            <Gauge className="h-4 w-4" />
+            Score
+            <span className={`text-xl font-semibold ${SCORE_BAND_CLASSES[getScoreBand(value)]}`}>{value}</span>
+            {band && <Badge variant="outline">{band.label.split(' ')[0]}</Badge>}
+          </CardTitle>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => entityId && recalculateScore({ entityType, entityId })}
+            disabled={isRecalculating}
+          >
+            {isRecalculating ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <RefreshCw className="h-4 w-4 mr-1" />}
+            Recalculate
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {breakdown.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            {score.score_updated_at ? 'No scoring rules match this record yet' : 'Not scored yet'}
+          </p>
+        ) : (
+          <div className="grid grid-cols-2 gap-4">
+            {[{ title: 'Fit', items: fit }, { title: 'Activity', items: behavior }].map(group => (
+              <div key={group.title} className="space-y-1">
+                <h4 className="text-xs font-medium text-muted-foreground">
+                  {group.title} ({formatPoints(Math.round(group.items.reduce((sum, item) => sum + item.points, 0)))})
+                </h4>
+                {group.items.length === 0 ? (
+                  <p className="text-xs text-muted-foreground">None</p>
+                ) : (
+                  group.items.map(item => (
+                    <div key={item.rule_id} className="flex items-center justify-between gap-2 text-sm">
+                      <span className="truncate" title={item.name}>{describeItem(item)}</span>
+                      <span className={item.points < 0 ? 'text-destructive' : 'text-muted-foreground'}>
+                        {formatPoints(item.points)}
+                      </span>
+                    </div>
+                  ))
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+        {behavior.length > 0 && (
+          <p className="text-xs text-muted-foreground">Activity points shrink as the activity gets older.</p>
+        )}
+
+        {history.length > 0 && (
+          <div className="space-y-1">
+            <Button variant="ghost" size="sm" className="h-7 px-2 -ml-2" onClick={() => setShowHistory(!showHistory)}>
+              {showHistory ? <ChevronUp className="h-3 w-3 mr-1" /> : <ChevronDown className="h-3 w-3 mr-1" />}
+              Score history ({history.length})
+            </Button>
+            {showHistory && (
+              <div className="max-h-[160px] overflow-y-auto space-y-1">
+                {history.map(entry => (
+                  <div key={entry.id} className="flex items-center justify-between gap-2 text-xs p-2 rounded bg-muted/50">
+                    <span>
+                      <span className="font-medium">
+                        {entry.previous_score != null ? `${entry.previous_score} → ${entry.score}` : entry.score}
+                      </span>
+                      <span className="text-muted-foreground">
+                        {' · '}{SCORE_REASON_LABELS[entry.reason || ''] || entry.reason || 'Recalculated'}
+                      </span>
+                    </span>
+                    <span className="text-muted-foreground whitespace-nowrap">
+                      {formatDateTimeStandard(entry.calculated_at)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
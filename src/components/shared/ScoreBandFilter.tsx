@@ -0,0 +1,38 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+import { SCORE_BANDS } from "@/types/scoring";
+import type { TableFilter } from "@/utils/serverTableQuery";
+
+interface ScoreBandFilterProps {
+  value: string;
+  onValueChange: (value: string) => void;
+}
+
+// Score range of a band ("all" or a ScoreBand) as a database filter; scores are 0-100
+export const getScoreBandFilter = (band: string): TableFilter | null => {
+  const match = SCORE_BANDS.find(b => b.band === band);
+  if (!match) return null;
+  return {
+    op: "range",
+    gte: match.min > 0 ? match.min : undefined,
+    lte: match.max < 100 ? match.max : undefined,
+  };
+};
+
+export const ScoreBandFilter = ({ value, onValueChange }: ScoreBandFilterProps) => {
+  const isActive = value !== "all";
+
+  return (
+    <Select value={value || "all"} onValueChange={onValueChange}>
+      <SelectTrigger className={cn("w-36", isActive && "border-primary")}>
+        <SelectValue placeholder="All Scores" />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value="all">All Scores</SelectItem>
+        {SCORE_BANDS.map(band => (
+          <SelectItem key={band.band} value={band.band}>{band.label}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
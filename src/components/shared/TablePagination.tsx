@@ -18,7 +18,7 @@ export const TablePagination = ({
   onPageChange,
   entityName = "items"
 }: TablePaginationProps) => {
-  const startItem = ((currentPage - 1) * itemsPerPage) + 1;
+  const startItem = totalItems === 0 ? 0 : ((currentPage - 1) * itemsPerPage) + 1;
   const endItem = Math.min(currentPage * itemsPerPage, totalItems);
 
   return (
@@ -31,9 +31,17 @@ import {
   Loader2,
   Plus,
   History,
+  Repeat,
+  Bell,
+  ListPlus,
+  CornerLeftUp,
 } from 'lucide-react';
 import { format } from 'date-fns';
 import { formatDateTimeStandard } from '@/utils/formatUtils';
+import { describeTaskRecurrence, isRecurringTask } from '@/utils/taskRecurrence';
+import { getChildTasksMap, getOpenChildCount, getTaskProgress } from '@/utils/taskHierarchy';
+import { toast } from '@/hooks/use-toast';
+import { TaskProgressIndicator } from './TaskProgressIndicator';
 
 interface TaskDetailModalProps {
   open: boolean;
@@ -41,13 +49,10 @@ interface TaskDetailModalProps {
   task: Task | null;
   onEdit: (task: Task) => void;
   onUpdate?: () => void;
-}
-
-interface Subtask {
-  id: string;
-  title: string;
-  is_completed: boolean;
-  order_index: number;
+  onAddSubtask?: (parent: Task) => void;
+  onOpenTask?: (task: Task) => void;
+  // Completes or reopens a sub-task; when omitted the status is updated directly
+  onToggleSubtask?: (task: Task) => void | Promise<void>;
 }
 
 const priorityColors = {
@@ -78,54 +83,78 @@ export const TaskDetailModal = ({
   task,
   onEdit,
   onUpdate,
+  onAddSubtask,
+  onOpenTask,
+  onToggleSubtask,
 }: TaskDetailModalProps) => {
   const [activeTab, setActiveTab] = useState('overview');
-  const [subtasks, setSubtasks] = useState<Subtask[]>([]);
-  const [loadingSubtasks, setLoadingSubtasks] = useState(false);
+  const [subtasks, setSubtasks] = useState<Task[]>([]);
+  const [parentTask, setParentTask] = useState<Task | null>(null);
 
-  const userIds = [task?.assigned_to, task?.created_by].filter(Boolean) as string[];
-  const { displayNames } = useUserDisplayNames(userIds);
+  const userIds = [task?.assigned_to, task?.created_by, ...subtasks.map(s => s.assigned_to)].filter(Boolean) as string[];
+  const { displayNames } = useUserDisplayNames([...new Set(userIds)]);
 
   useEffect(() => {
     if (task && open) {
       fetchSubtasks();
+      fetchParentTask();
     }
   }, [task?.id, open]);
 
   const fetchSubtasks = async () => {
     if (!task) return;
-    setLoadingSubtasks(true);
     try {
       const { data, error } = await supabase
-        .from('task_subtasks')
+        .from('tasks')
         .select('*')
-        .eq('task_id', task.id)
-        .order('order_index', { ascending: true });
+        .eq('parent_task_id', task.id)
+        .order('created_at', { ascending: true });
 
       if (error) throw error;
-      setSubtasks(data || []);
+      setSubtasks((data || []) as Task[]);
     } catch (error) {
       console.error('Error fetching subtasks:', error);
-    } finally {
-      setLoadingSubtasks(false);
     }
   };
 
-  const toggleSubtask = async (subtask: Subtask) => {
+  const fetchParentTask = async () => {
+    if (!task?.parent_task_id) {
+      setParentTask(null);
+      return;
+    }
+    const { data } = await supabase
+      .from('tasks')
+      .select('*')
+      .eq('id', task.parent_task_id)
+      .maybeSingle();
+    setParentTask((data as Task) || null);
+  };
+
+  const toggleSubtask = async (subtask: Task) => {
     try {
-      const { error } = await supabase
-        .from('task_subtasks')
-        .update({ is_completed: !subtask.is_completed })
-        .eq('id', subtask.id);
+      if (onToggleSubtask) {
+        await onToggleSubtask(subtask);
+      } else {
+        const completing = subtask.status !== 'completed';
+        const { error } = await supabase
+          .from('tasks')
+          .update({
+            status: completing ? 'completed' : 'open',
+            completed_at: completing ? new Date().toISOString() : null,
+          })
+          .eq('id', subtask.id);
 
-      if (error) throw error;
-      
-      setSubtasks(prev => 
-        prev.map(s => s.id === subtask.id ? { ...s, is_completed: !s.is_completed } : s)
-      );
-      onUpdate?.();
+        if (error) throw error;
+        onUpdate?.();
+      }
+      await fetchSubtasks();
     } catch (error) {
       console.error('Error toggling subtask:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update sub-task",
+        variant: "destructive",
+      });
     }
   };
 
@@ -153,7 +182,9 @@ export const TaskDetailModal = ({
   };
 
   const linkedEntity = getLinkedEntity();
-  const completedSubtasks = subtasks.filter(s => s.is_completed).length;
+  const subtaskMap = getChildTasksMap(subtasks);
+  const subtaskProgress = getTaskProgress(task.id, subtaskMap);
+  const openSubtaskCount = getOpenChildCount(task.id, subtaskMap);
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
@@ -225,6 +256,21 @@ export const TaskDetailModal = ({
                       {task.due_time && <span>at {task.due_time}</span>}
                     </div>
                   )}
+                  {isRecurringTask(task) && (
+                    <div className="flex items-center gap-2 text-sm">
+                      <Repeat className="h-4 w-4 text-muted-foreground" />
+                      <span>{describeTaskRecurrence(task.recurrence, task.recurrence_end_date)}</span>
+                      {task.recurrence_index > 1 && (
+                        <span className="text-muted-foreground">(occurrence {task.recurrence_index})</span>
+                      )}
+                    </div>
+                  )}
+                  {task.reminder_date && (
+                    <div className="flex items-center gap-2 text-sm">
+                      <Bell className="h-4 w-4 text-muted-foreground" />
+                      <span>Reminder: {formatDateTimeStandard(task.reminder_date)}</span>
+                    </div>
+                  )}
                 </CardContent>
               </Card>
 
@@ -274,37 +320,82 @@ export const TaskDetailModal = ({
               </Card>
             )}
 
-            {/* Subtasks */}
-            {subtasks.length > 0 && (
+            {parentTask && (
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <CornerLeftUp className="h-4 w-4" />
+                <span>Sub-task of</span>
+                {onOpenTask ? (
+                  <button onClick={() => onOpenTask(parentTask)} className="text-primary hover:underline font-medium">
+                    {parentTask.title}
+                  </button>
+                ) : (
+                  <span className="font-medium text-foreground">{parentTask.title}</span>
+                )}
+              </div>
+            )}
+
+            {/* Sub-tasks */}
+            {(subtasks.length > 0 || onAddSubtask) && (
               <Card>
                 <CardHeader className="pb-3">
                   <div className="flex items-center justify-between">
                     <CardTitle className="text-base flex items-center gap-2">
                       <ListTodo className="h-4 w-4" />
-                      Subtasks
+                      Sub-tasks
                     </CardTitle>
-                    <span className="text-sm text-muted-foreground">
-                      {completedSubtasks} of {subtasks.length} completed
-                    </span>
+                    <div className="flex items-center gap-3">
+                      <TaskProgressIndicator progress={subtaskProgress} className="text-sm" />
+                      {onAddSubtask && (
+                        <Button variant="outline" size="sm" className="gap-1.5 h-7" onClick={() => onAddSubtask(task)}>
+                          <ListPlus className="h-3.5 w-3.5" />
+                          Add Sub-task
+                        </Button>
+                      )}
+                    </div>
                   </div>
+                  {openSubtaskCount > 0 && task.status !== 'completed' && (
+                    <p className="text-xs text-muted-foreground">
+                      Complete or cancel the open sub-tasks before completing this task.
+                    </p>
+                  )}
                 </CardHeader>
                 <CardContent>
-                  <div className="space-y-2">
-                    {subtasks.map((subtask) => (
-                      <div
-                        key={subtask.id}
-                        className="flex items-center gap-3 p-2 rounded-lg hover:bg-muted/50"
-                      >
-                        <Checkbox
-                          checked={subtask.is_completed}
-                          onCheckedChange={() => toggleSubtask(subtask)}
-                        />
-                        <span className={subtask.is_completed ? 'line-through text-muted-foreground' : ''}>
-                          {subtask.title}
-                        </span>
-                      </div>
-                    ))}
-                  </div>
+                  {subtasks.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No sub-tasks yet</p>
+                  ) : (
+                    <div className="space-y-1">
+                      {subtasks.map((subtask) => (
+                        <div
+                          key={subtask.id}
+                          className="flex items-center gap-3 p-2 rounded-lg hover:bg-muted/50"
+                        >
+                          <Checkbox
+                            checked={subtask.status === 'completed'}
+                            disabled={subtask.status === 'cancelled'}
+                            onCheckedChange={() => toggleSubtask(subtask)}
+                          />
+                          <button
+                            onClick={() => onOpenTask?.(subtask)}
+                            disabled={!onOpenTask}
+                            className={`flex-1 text-left text-sm truncate ${
+                              subtask.status === 'completed' || subtask.status === 'cancelled' ? 'line-through text-muted-foreground' : ''
+                            } ${onOpenTask ? 'hover:underline' : ''}`}
+                          >
+                            {subtask.title}
+                          </button>
+                          <Badge className={`text-xs ${statusColors[subtask.status as keyof typeof statusColors] || statusColors.open}`}>
+                            {subtask.status.replace('_', ' ')}
+                          </Badge>
+                          <span className="text-xs text-muted-foreground w-28 truncate">
+                            {subtask.assigned_to ? displayNames[subtask.assigned_to] || 'Loading...' : 'Unassigned'}
+                          </span>
+                          <span className="text-xs text-muted-foreground w-20 text-right">
+                            {subtask.due_date ? format(new Date(subtask.due_date), 'dd/MM/yyyy') : '-'}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
                 </CardContent>
               </Card>
             )}
@@ -1,10 +1,14 @@
+import { useMemo, useState } from 'react';
 import { DragDropContext, Droppable, Draggable, DropResult } from '@hello-pangea/dnd';
 import { format, isPast, isToday } from 'date-fns';
 import { Task, TaskStatus, TaskModuleType } from '@/types/task';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
-import { Edit, Trash2, Calendar, User, Building2, Briefcase, Users, FileText } from 'lucide-react';
+import { Edit, Trash2, Calendar, User, Building2, Briefcase, Users, FileText, Repeat, ChevronDown, ChevronRight, CornerLeftUp } from 'lucide-react';
+import { describeTaskRecurrence, isRecurringTask } from '@/utils/taskRecurrence';
+import { getChildTasksMap, getTaskProgress } from '@/utils/taskHierarchy';
+import { TaskProgressIndicator } from './TaskProgressIndicator';
 import { useUserDisplayNames } from '@/hooks/useUserDisplayNames';
 
 interface TaskKanbanViewProps {
@@ -27,6 +31,13 @@ const priorityColors = {
   low: 'bg-green-500',
 };
 
+const subtaskStatusColors: Record<TaskStatus, string> = {
+  open: 'bg-blue-500',
+  in_progress: 'bg-purple-500',
+  completed: 'bg-green-500',
+  cancelled: 'bg-gray-400',
+};
+
 const moduleIcons: Record<TaskModuleType, React.ElementType> = {
   accounts: Building2,
   contacts: User,
@@ -43,6 +54,22 @@ export const TaskKanbanView = ({
 }: TaskKanbanViewProps) => {
   const assignedToIds = [...new Set(tasks.map(t => t.assigned_to).filter(Boolean))] as string[];
   const { displayNames } = useUserDisplayNames(assignedToIds);
+  const [expandedTaskIds, setExpandedTaskIds] = useState<Set<string>>(new Set());
+
+  const childrenMap = useMemo(() => getChildTasksMap(tasks), [tasks]);
+  const tasksById = useMemo(() => new Map(tasks.map(t => [t.id, t])), [tasks]);
+
+  const toggleExpanded = (taskId: string) => {
+    setExpandedTaskIds(prev => {
+      const next = new Set(prev);
+      if (next.has(taskId)) {
+        next.delete(taskId);
+      } else {
+        next.add(taskId);
+      }
+      return next;
+    });
+  };
 
   const getTasksByStatus = (status: TaskStatus) => {
     return tasks.filter(task => task.status === status);
@@ -114,7 +141,10 @@ export const TaskKanbanView = ({
                     >
                       {getTasksByStatus(column.id).map((task, index) => {
                         const linkedEntity = getLinkedEntityDisplay(task);
-                        
+                        const subtasks = childrenMap.get(task.id) || [];
+                        const parentTask = task.parent_task_id ? tasksById.get(task.parent_task_id) : undefined;
+                        const isExpanded = expandedTaskIds.has(task.id);
+
                         return (
                           <Draggable key={task.id} draggableId={task.id} index={index}>
                             {(provided, snapshot) => (
@@ -132,15 +162,55 @@ export const TaskKanbanView = ({
                                     <span className="font-medium text-sm line-clamp-2">
                                       {task.title}
                                     </span>
+                                    {isRecurringTask(task) && (
+                                      <span title={describeTaskRecurrence(task.recurrence, task.recurrence_end_date)}>
+                                        <Repeat className="h-3 w-3 shrink-0 text-muted-foreground" />
+                                      </span>
+                                    )}
                                   </div>
                                 </div>
 
+                                {parentTask && (
+                                  <div className="flex items-center gap-1 mb-2 text-xs text-muted-foreground">
+                                    <CornerLeftUp className="h-3 w-3 shrink-0" />
+                                    <span className="truncate">{parentTask.title}</span>
+                                  </div>
+                                )}
+
                                 {task.description && (
                                   <p className="text-xs text-muted-foreground mb-2 line-clamp-2">
                                     {task.description}
                                   </p>
                                 )}
 
+                                {/* Sub-tasks */}
+                                {subtasks.length > 0 && (
+                                  <div className="mb-2">
+                                    <button
+                                      className="flex items-center gap-1 text-xs text-muted-foreground hover:text-foreground"
+                                      onClick={(e) => {
+                                        e.stopPropagation();
+                                        toggleExpanded(task.id);
+                                      }}
+                                    >
+                                      {isExpanded ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+                                      <TaskProgressIndicator progress={getTaskProgress(task.id, childrenMap)} />
+                                    </button>
+                                    {isExpanded && (
+                                      <ul className="mt-1 ml-4 space-y-1">
+                                        {subtasks.map(subtask => (
+                                          <li key={subtask.id} className="flex items-center gap-1.5 text-xs">
+                                            <span className={`h-1.5 w-1.5 rounded-full shrink-0 ${subtaskStatusColors[subtask.status]}`} />
+                                            <span className={`truncate ${subtask.status === 'completed' ? 'line-through text-muted-foreground' : ''}`}>
+                                              {subtask.title}
+                                            </span>
+                                          </li>
+                                        ))}
+                                      </ul>
+                                    )}
+                                  </div>
+                                )}
+
                                 {/* Linked entity */}
                                 {linkedEntity && (
                                   <div className="flex items-center gap-1 mb-2 text-xs text-muted-foreground">
@@ -39,10 +39,16 @@ import {
   ChevronRight,
   ListTodo,
   ExternalLink,
+  Repeat,
+  ChevronDown,
+  ListPlus,
 } from 'lucide-react';
 import { useUserDisplayNames } from '@/hooks/useUserDisplayNames';
 import { DeleteConfirmDialog } from '@/components/shared/DeleteConfirmDialog';
 import { TaskDetailModal } from './TaskDetailModal';
+import { TaskProgressIndicator } from './TaskProgressIndicator';
+import { describeTaskRecurrence, isRecurringTask } from '@/utils/taskRecurrence';
+import { flattenTaskTree, getChildTasksMap, getTaskProgress, getTaskTreeRoots } from '@/utils/taskHierarchy';
 import { RowActionsDropdown } from '@/components/RowActionsDropdown';
 import { HighlightedText } from '@/components/shared/HighlightedText';
 import { ClearFiltersButton } from '@/components/shared/ClearFiltersButton';
@@ -54,6 +60,7 @@ interface TaskListViewProps {
   onDelete: (taskId: string) => void;
   onStatusChange: (taskId: string, status: TaskStatus) => void;
   onToggleComplete: (task: Task) => void;
+  onAddSubtask?: (parent: Task) => void;
   initialStatusFilter?: string;
   initialOwnerFilter?: string;
   selectedTasks?: string[];
@@ -88,6 +95,7 @@ export const TaskListView = ({
   onDelete,
   onStatusChange,
   onToggleComplete,
+  onAddSubtask,
   initialStatusFilter = 'all',
   initialOwnerFilter = 'all',
   selectedTasks: externalSelectedTasks,
@@ -111,6 +119,7 @@ export const TaskListView = ({
   const [itemsPerPage, setItemsPerPage] = useState(25);
   const [sortField, setSortField] = useState<string>('title');
   const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('asc');
+  const [collapsedTaskIds, setCollapsedTaskIds] = useState<Set<string>>(new Set());
   
   // Internal selection state - used when no external selection is provided
   const [internalSelectedTasks, setInternalSelectedTasks] = useState<string[]>([]);
@@ -195,10 +204,35 @@ export const TaskListView = ({
     setCurrentPage(1);
   }, [searchTerm, statusFilter, priorityFilter, assignedToFilter]);
 
+  // Progress counts every sub-task, including ones hidden by the filters
+  const allChildrenMap = useMemo(() => getChildTasksMap(tasks), [tasks]);
+
+  // Sub-tasks are listed under their parent; pages are made of top-level rows
+  const treeRoots = useMemo(() => getTaskTreeRoots(filteredTasks), [filteredTasks]);
+  const filteredChildrenMap = useMemo(() => getChildTasksMap(filteredTasks), [filteredTasks]);
+
   // Pagination
-  const totalPages = Math.ceil(filteredTasks.length / itemsPerPage);
+  const totalPages = Math.ceil(treeRoots.length / itemsPerPage);
   const startIndex = (currentPage - 1) * itemsPerPage;
-  const paginatedTasks = filteredTasks.slice(startIndex, startIndex + itemsPerPage);
+  const paginatedRows = flattenTaskTree(
+    treeRoots.slice(startIndex, startIndex + itemsPerPage),
+    filteredChildrenMap,
+    collapsedTaskIds
+  );
+  const paginatedTasks = paginatedRows.map(row => row.task);
+  const hasTaskTree = filteredChildrenMap.size > 0;
+
+  const toggleTaskCollapsed = (taskId: string) => {
+    setCollapsedTaskIds(prev => {
+      const next = new Set(prev);
+      if (next.has(taskId)) {
+        next.delete(taskId);
+      } else {
+        next.add(taskId);
+      }
+      return next;
+    });
+  };
 
   // Check if any filters are active (active tasks filter is the new default)
   const hasActiveFilters = searchTerm !== '' || 
@@ -444,9 +478,10 @@ export const TaskListView = ({
                   </TableCell>
                 </TableRow>
               ) : (
-                paginatedTasks.map((task) => {
+                paginatedRows.map(({ task, depth, hasChildren }) => {
                   const linkedEntity = getLinkedEntityDisplay(task);
                   const dueDateInfo = getDueDateInfo(task.due_date, task.status);
+                  const isCollapsed = collapsedTaskIds.has(task.id);
 
                   return (
                     <TableRow 
@@ -476,14 +511,33 @@ export const TaskListView = ({
                       )}
                       {visibleColumns.includes('title') && (
                         <TableCell className="px-4 py-3">
-                          <button
-                            onClick={() => setViewingTask(task)}
-                            className={`text-primary hover:underline font-medium text-left truncate ${
-                              task.status === 'completed' ? 'text-muted-foreground' : ''
-                            }`}
-                          >
-                            <HighlightedText text={task.title} highlight={searchTerm} />
-                          </button>
+                          <div className="flex items-center gap-1 min-w-0" style={{ paddingLeft: depth * 20 }}>
+                            {hasChildren ? (
+                              <button
+                                onClick={() => toggleTaskCollapsed(task.id)}
+                                className="shrink-0 text-muted-foreground hover:text-foreground"
+                                aria-label={isCollapsed ? `Expand ${task.title}` : `Collapse ${task.title}`}
+                              >
+                                {isCollapsed ? <ChevronRight className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+                              </button>
+                            ) : hasTaskTree && (
+                              <span className="w-4 shrink-0" />
+                            )}
+                            <button
+                              onClick={() => setViewingTask(task)}
+                              className={`text-primary hover:underline font-medium text-left truncate ${
+                                task.status === 'completed' ? 'text-muted-foreground' : ''
+                              }`}
+                            >
+                              <HighlightedText text={task.title} highlight={searchTerm} />
+                            </button>
+                            {isRecurringTask(task) && (
+                              <span title={describeTaskRecurrence(task.recurrence, task.recurrence_end_date)}>
+                                <Repeat className="h-3 w-3 ml-0.5 shrink-0 text-muted-foreground" />
+                              </span>
+                            )}
+                            <TaskProgressIndicator progress={getTaskProgress(task.id, allChildrenMap)} className="ml-2 shrink-0" />
+                          </div>
                         </TableCell>
                       )}
                       {visibleColumns.includes('status') && (
@@ -604,6 +658,11 @@ export const TaskListView = ({
                                   icon: <Edit className="w-4 h-4" />,
                                   onClick: () => onEdit(task)
                                 },
+                                ...(onAddSubtask ? [{
+                                  label: "Add Sub-task",
+                                  icon: <ListPlus className="w-4 h-4" />,
+                                  onClick: () => onAddSubtask(task)
+                                }] : []),
                                 {
                                   label: "Delete",
                                   icon: <Trash2 className="w-4 h-4" />,
@@ -628,7 +687,7 @@ export const TaskListView = ({
         <div className="flex items-center justify-between p-4 border-t flex-shrink-0">
           <div className="flex items-center gap-2">
             <span className="text-sm font-medium text-foreground">
-              Showing {filteredTasks.length === 0 ? 0 : startIndex + 1}-{Math.min(startIndex + itemsPerPage, filteredTasks.length)} of {filteredTasks.length} tasks
+              Showing {treeRoots.length === 0 ? 0 : startIndex + 1}-{Math.min(startIndex + itemsPerPage, treeRoots.length)} of {treeRoots.length} tasks
             </span>
           </div>
           <div className="flex items-center gap-1">
@@ -697,6 +756,12 @@ export const TaskListView = ({
           setViewingTask(null);
           onEdit(task);
         }}
+        onAddSubtask={onAddSubtask ? (parent) => {
+          setViewingTask(null);
+          onAddSubtask(parent);
+        } : undefined}
+        onOpenTask={setViewingTask}
+        onToggleSubtask={onToggleComplete}
       />
     </div>
   );
@@ -4,7 +4,17 @@ import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
-import { Task, CreateTaskData, TaskStatus, TaskPriority, TaskModuleType, TaskModalContext } from '@/types/task';
+import {
+  Task,
+  CreateTaskData,
+  TaskStatus,
+  TaskPriority,
+  TaskModuleType,
+  TaskModalContext,
+  TaskRecurrenceRule,
+  TaskSeriesEditScope,
+} from '@/types/task';
+import { EMPTY_TASK_RECURRENCE, isRecurringTask, parseTaskRecurrence, serializeTaskRecurrence } from '@/utils/taskRecurrence';
 import { format } from 'date-fns';
 import {
   Dialog,
@@ -22,6 +32,7 @@ import {
   FormMessage,
 } from '@/components/ui/form';
 import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import {
@@ -37,12 +48,22 @@ import {
   PopoverTrigger,
 } from '@/components/ui/popover';
 import { Calendar } from '@/components/ui/calendar';
-import { Loader2, CalendarIcon, Plus, User } from 'lucide-react';
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Loader2, CalendarIcon, Plus, User, Bell } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { AccountModal } from '@/components/AccountModal';
 import { ContactModal } from '@/components/ContactModal';
 import { LeadModal } from '@/components/LeadModal';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
+import { TaskRecurrenceFields } from '@/components/tasks/TaskRecurrenceFields';
 
 // Generate 30-minute time slots
 const generateTimeSlots = () => {
@@ -59,6 +80,30 @@ const generateTimeSlots = () => {
 
 const TIME_SLOTS = generateTimeSlots();
 
+// Reminder offsets before the due date/time, in minutes. Tasks without a due time are due at 09:00.
+type ReminderPreset = 'none' | 'at_due' | '1h' | '1d' | 'custom';
+
+const REMINDER_OFFSETS: Record<Exclude<ReminderPreset, 'none' | 'custom'>, number> = {
+  at_due: 0,
+  '1h': 60,
+  '1d': 24 * 60,
+};
+
+const getDueDateTime = (dueDate: string, dueTime?: string | null) => {
+  const time = dueTime && dueTime !== 'none' ? dueTime.slice(0, 5) : '09:00';
+  return new Date(`${dueDate}T${time}:00`);
+};
+
+const getReminderPreset = (task: Task): ReminderPreset => {
+  if (!task.reminder_date) return 'none';
+  if (!task.due_date) return 'custom';
+  const minutesBefore = Math.round(
+    (getDueDateTime(task.due_date, task.due_time).getTime() - new Date(task.reminder_date).getTime()) / 60000
+  );
+  const match = Object.entries(REMINDER_OFFSETS).find(([, offset]) => offset === minutesBefore);
+  return match ? (match[0] as ReminderPreset) : 'custom';
+};
+
 const taskSchema = z.object({
   title: z.string().min(1, 'Task title is required'),
   description: z.string().optional(),
@@ -73,6 +118,7 @@ const taskSchema = z.object({
   lead_id: z.string().optional(),
   meeting_id: z.string().optional(),
   deal_id: z.string().optional(),
+  parent_task_id: z.string().optional(),
 });
 
 type TaskFormData = z.infer<typeof taskSchema>;
@@ -82,7 +128,7 @@ interface TaskModalProps {
   onOpenChange: (open: boolean) => void;
   task?: Task | null;
   onSubmit: (data: CreateTaskData) => Promise<any>;
-  onUpdate?: (taskId: string, data: Partial<Task>, originalTask?: Task) => Promise<boolean>;
+  onUpdate?: (taskId: string, data: Partial<Task>, originalTask?: Task, scope?: TaskSeriesEditScope) => Promise<boolean>;
   context?: TaskModalContext;
   nested?: boolean;
 }
@@ -105,7 +151,14 @@ export const TaskModal = ({
   const [leads, setLeads] = useState<{ id: string; lead_name: string }[]>([]);
   const [meetings, setMeetings] = useState<{ id: string; subject: string; start_time: string }[]>([]);
   const [deals, setDeals] = useState<{ id: string; deal_name: string; stage: string }[]>([]);
+  const [parentTaskOptions, setParentTaskOptions] = useState<{ id: string; title: string }[]>([]);
   const [calendarOpen, setCalendarOpen] = useState(false);
+  const [recurrenceRule, setRecurrenceRule] = useState<TaskRecurrenceRule>(EMPTY_TASK_RECURRENCE);
+  const [recurrenceEndDate, setRecurrenceEndDate] = useState<string | null>(null);
+  const [recurrenceFormKey, setRecurrenceFormKey] = useState(0);
+  const [reminderPreset, setReminderPreset] = useState<ReminderPreset>('none');
+  // Edits to a recurring task wait here until the user picks this occurrence or the whole series
+  const [pendingSeriesData, setPendingSeriesData] = useState<Partial<Task> | null>(null);
 
   // Modal states for creating new entities
   const [accountModalOpen, setAccountModalOpen] = useState(false);
@@ -128,6 +181,7 @@ export const TaskModal = ({
       lead_id: '',
       meeting_id: '',
       deal_id: '',
+      parent_task_id: '',
     },
   });
 
@@ -170,7 +224,11 @@ export const TaskModal = ({
           lead_id: task.lead_id || '',
           meeting_id: task.meeting_id || '',
           deal_id: task.deal_id || '',
+          parent_task_id: task.parent_task_id || '',
         });
+        setRecurrenceRule(parseTaskRecurrence(task.recurrence));
+        setRecurrenceEndDate(task.recurrence_end_date);
+        setReminderPreset(getReminderPreset(task));
       } else {
         form.reset({
           title: '',
@@ -186,19 +244,32 @@ export const TaskModal = ({
           lead_id: context?.module === 'leads' ? context?.recordId : '',
           meeting_id: context?.module === 'meetings' ? context?.recordId : '',
           deal_id: context?.module === 'deals' ? context?.recordId : '',
+          parent_task_id: context?.parentTaskId || '',
         });
+        setRecurrenceRule(EMPTY_TASK_RECURRENCE);
+        setRecurrenceEndDate(null);
+        setReminderPreset('none');
       }
+      setRecurrenceFormKey(key => key + 1);
     }
   }, [open, task, form, context]);
 
   const fetchDropdownData = async () => {
-    const [usersRes, accountsRes, contactsRes, leadsRes, meetingsRes, dealsRes] = await Promise.all([
+    // Open tasks can take sub-tasks; the current parent stays listed even once it's closed
+    let parentQuery = supabase.from('tasks').select('id, title').order('created_at', { ascending: false }).limit(200);
+    const currentParentId = task?.parent_task_id || context?.parentTaskId;
+    parentQuery = currentParentId
+      ? parentQuery.or(`status.in.(open,in_progress),id.eq.${currentParentId}`)
+      : parentQuery.in('status', ['open', 'in_progress']);
+
+    const [usersRes, accountsRes, contactsRes, leadsRes, meetingsRes, dealsRes, parentTasksRes] = await Promise.all([
       supabase.from('profiles').select('id, full_name'),
       supabase.from('accounts').select('id, company_name').order('company_name'),
       supabase.from('contacts').select('id, contact_name').order('contact_name'),
       supabase.from('leads').select('id, lead_name').order('lead_name'),
       supabase.from('meetings').select('id, subject, start_time').order('start_time', { ascending: false }).limit(100),
       supabase.from('deals').select('id, deal_name, stage').order('deal_name'),
+      parentQuery,
     ]);
 
     if (usersRes.data) setUsers(usersRes.data);
@@ -207,6 +278,7 @@ export const TaskModal = ({
     if (leadsRes.data) setLeads(leadsRes.data);
     if (meetingsRes.data) setMeetings(meetingsRes.data);
     if (dealsRes.data) setDeals(dealsRes.data);
+    if (parentTasksRes.data) setParentTaskOptions(parentTasksRes.data.filter(t => t.id !== task?.id));
   };
 
   const handleModuleChange = (value: TaskModuleType) => {
@@ -234,38 +306,72 @@ export const TaskModal = ({
     setLeadModalOpen(false);
   };
 
-  const handleSubmit = async (data: TaskFormData) => {
+  const getReminderDate = (data: TaskFormData): string | null => {
+    if (reminderPreset === 'none') return null;
+    if (reminderPreset === 'custom') return task?.reminder_date || null;
+    const dueAt = getDueDateTime(data.due_date, data.due_time);
+    return new Date(dueAt.getTime() - REMINDER_OFFSETS[reminderPreset] * 60000).toISOString();
+  };
+
+  const saveTaskUpdate = async (taskData: Partial<Task>, scope?: TaskSeriesEditScope) => {
+    if (!task || !onUpdate) return;
     setLoading(true);
     try {
-      // Normalize special placeholder values to undefined
-      const normalizedAssignedTo = data.assigned_to && data.assigned_to !== 'unassigned' ? data.assigned_to : undefined;
-      const normalizedDueTime = data.due_time && data.due_time !== 'none' ? data.due_time : undefined;
-
-      const taskData: CreateTaskData & { due_time?: string } = {
-        title: data.title,
-        description: data.description || undefined,
-        status: data.status as TaskStatus,
-        priority: data.priority as TaskPriority,
-        due_date: data.due_date,
-        due_time: normalizedDueTime,
-        assigned_to: normalizedAssignedTo,
-        module_type: data.module_type as TaskModuleType | undefined,
-        account_id: data.account_id || undefined,
-        contact_id: data.contact_id || undefined,
-        lead_id: data.lead_id || undefined,
-        meeting_id: data.meeting_id || undefined,
-        deal_id: data.deal_id || undefined,
-      };
-
-      let success = false;
-      if (task && onUpdate) {
-        success = await onUpdate(task.id, taskData, task);
-      } else {
-        const result = await onSubmit(taskData);
-        success = result !== null && result !== undefined;
+      const success = await onUpdate(task.id, taskData, task, scope);
+      if (success) {
+        onOpenChange(false);
       }
+    } finally {
+      setLoading(false);
+    }
+  };
 
-      if (success) {
+  const handleSubmit = async (data: TaskFormData) => {
+    // Normalize special placeholder values to undefined
+    const normalizedAssignedTo = data.assigned_to && data.assigned_to !== 'unassigned' ? data.assigned_to : undefined;
+    const normalizedDueTime = data.due_time && data.due_time !== 'none' ? data.due_time : undefined;
+    const recurrence = serializeTaskRecurrence(recurrenceRule);
+
+    const taskData: CreateTaskData & { due_time?: string } = {
+      title: data.title,
+      description: data.description || undefined,
+      status: data.status as TaskStatus,
+      priority: data.priority as TaskPriority,
+      due_date: data.due_date,
+      due_time: normalizedDueTime,
+      assigned_to: normalizedAssignedTo,
+      module_type: data.module_type as TaskModuleType | undefined,
+      account_id: data.account_id || undefined,
+      contact_id: data.contact_id || undefined,
+      lead_id: data.lead_id || undefined,
+      meeting_id: data.meeting_id || undefined,
+      deal_id: data.deal_id || undefined,
+      parent_task_id: data.parent_task_id && data.parent_task_id !== 'none' ? data.parent_task_id : null,
+      recurrence,
+      recurrence_end_date: recurrence === 'none' ? null : recurrenceEndDate,
+      reminder_date: getReminderDate(data),
+    };
+
+    if (task && onUpdate) {
+      if (task.recurrence_series_id && isRecurringTask(task)) {
+        // Changing the repeat rule always applies to the series; other edits ask first
+        const ruleChanged = recurrence !== serializeTaskRecurrence(parseTaskRecurrence(task.recurrence)) ||
+          taskData.recurrence_end_date !== task.recurrence_end_date;
+        if (ruleChanged) {
+          await saveTaskUpdate(taskData, 'series');
+        } else {
+          setPendingSeriesData(taskData);
+        }
+        return;
+      }
+      await saveTaskUpdate(taskData);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const result = await onSubmit(taskData);
+      if (result !== null && result !== undefined) {
         onOpenChange(false);
       }
     } finally {
@@ -273,6 +379,12 @@ export const TaskModal = ({
     }
   };
 
+  const handleSeriesScopeChoice = async (scope: TaskSeriesEditScope) => {
+    const taskData = pendingSeriesData;
+    setPendingSeriesData(null);
+    if (taskData) await saveTaskUpdate(taskData, scope);
+  };
+
   const renderEntitySelector = () => {
     if (!selectedModule) return null;
 
@@ -700,7 +812,67 @@ export const TaskModal = ({
                 />
               </div>
 
-              {/* Row 5: Description */}
+              {/* Row 5: Repeat and Reminder */}
+              <TaskRecurrenceFields
+                key={recurrenceFormKey}
+                rule={recurrenceRule}
+                endDate={recurrenceEndDate}
+                onRuleChange={setRecurrenceRule}
+                onEndDateChange={setRecurrenceEndDate}
+              />
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label className="flex items-center gap-1.5">
+                    <Bell className="h-3.5 w-3.5" />
+                    Reminder
+                  </Label>
+                  <Select value={reminderPreset} onValueChange={(v) => setReminderPreset(v as ReminderPreset)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">No reminder</SelectItem>
+                      <SelectItem value="at_due">At due time</SelectItem>
+                      <SelectItem value="1h">1 hour before</SelectItem>
+                      <SelectItem value="1d">1 day before</SelectItem>
+                      {task?.reminder_date && reminderPreset === 'custom' && (
+                        <SelectItem value="custom">{format(new Date(task.reminder_date), 'MMM d, yyyy HH:mm')}</SelectItem>
+                      )}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <FormField
+                  control={form.control}
+                  name="parent_task_id"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Parent Task</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value || ''}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="None (top-level task)" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="none">
+                            <span className="text-muted-foreground">None (top-level task)</span>
+                          </SelectItem>
+                          {parentTaskOptions.map(option => (
+                            <SelectItem key={option.id} value={option.id}>
+                              {option.title}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              {/* Row 6: Description */}
               <FormField
                 control={form.control}
                 name="description"
@@ -719,7 +891,7 @@ export const TaskModal = ({
                 )}
               />
 
-              {/* Row 6: Created By (Read-only) */}
+              {/* Row 7: Created By (Read-only) */}
               <div className="pt-2 border-t border-border">
                 <div className="flex items-center gap-2 text-sm text-muted-foreground">
                   <User className="h-4 w-4" />
@@ -748,6 +920,27 @@ export const TaskModal = ({
         </DialogContent>
       </Dialog>
 
+      {/* Recurring task: this occurrence or the whole series */}
+      <AlertDialog open={!!pendingSeriesData} onOpenChange={(isOpen) => { if (!isOpen) setPendingSeriesData(null); }}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Edit recurring task</AlertDialogTitle>
+            <AlertDialogDescription>
+              Apply these changes to this occurrence only, or to this and all open occurrences in the series?
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <Button variant="outline" onClick={() => handleSeriesScopeChoice('occurrence')}>
+              This occurrence
+            </Button>
+            <Button onClick={() => handleSeriesScopeChoice('series')}>
+              Entire series
+            </Button>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
       {/* Nested Modals */}
       <AccountModal
         open={accountModalOpen}
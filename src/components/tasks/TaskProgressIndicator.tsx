@@ -0,0 +1,25 @@
+import { ListTodo } from 'lucide-react';
+import { TaskProgress } from '@/types/task';
+import { Progress } from '@/components/ui/progress';
+import { cn } from '@/lib/utils';
+
+interface TaskProgressIndicatorProps {
+  progress: TaskProgress;
+  className?: string;
+}
+
+// Sub-task rollup shown next to a parent task, e.g. "3/5" with a small bar
+export const TaskProgressIndicator = ({ progress, className }: TaskProgressIndicatorProps) => {
+  if (progress.total === 0) return null;
+
+  return (
+    <span
+      className={cn("inline-flex items-center gap-1.5 text-xs text-muted-foreground", className)}
+      title={`${progress.completed} of ${progress.total} sub-tasks completed`}
+    >
+      <ListTodo className="h-3 w-3" />
+      <Progress value={progress.percent} className="h-1.5 w-12" />
+      <span>{progress.completed}/{progress.total}</span>
+    </span>
+  );
+};
@@ -0,0 +1,168 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { CalendarIcon, Repeat } from 'lucide-react';
+import { TaskRecurrenceFrequency, TaskRecurrenceRule, TaskWeekday } from '@/types/task';
+import { TASK_RECURRENCE_OPTIONS, TASK_WEEKDAYS } from '@/utils/taskRecurrence';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+
+type RecurrenceEnd = 'never' | 'date' | 'count';
+
+interface TaskRecurrenceFieldsProps {
+  rule: TaskRecurrenceRule;
+  endDate: string | null;
+  onRuleChange: (rule: TaskRecurrenceRule) => void;
+  onEndDateChange: (endDate: string | null) => void;
+}
+
+export const TaskRecurrenceFields = ({ rule, endDate, onRuleChange, onEndDateChange }: TaskRecurrenceFieldsProps) => {
+  const [endType, setEndType] = useState<RecurrenceEnd>(() => (rule.count ? 'count' : endDate ? 'date' : 'never'));
+  const [endCalendarOpen, setEndCalendarOpen] = useState(false);
+
+  const unit = TASK_RECURRENCE_OPTIONS.find(o => o.value === rule.freq)?.unit;
+
+  const handleFrequencyChange = (freq: TaskRecurrenceFrequency) => {
+    onRuleChange({ ...rule, freq, byDay: freq === 'weekly' ? rule.byDay : [] });
+  };
+
+  const toggleWeekday = (day: TaskWeekday) => {
+    const byDay = rule.byDay.includes(day) ? rule.byDay.filter(d => d !== day) : [...rule.byDay, day];
+    onRuleChange({ ...rule, byDay: TASK_WEEKDAYS.map(d => d.value).filter(d => byDay.includes(d)) });
+  };
+
+  const handleEndTypeChange = (value: RecurrenceEnd) => {
+    setEndType(value);
+    onRuleChange({ ...rule, count: value === 'count' ? rule.count || 5 : null });
+    if (value !== 'date') onEndDateChange(null);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label className="flex items-center gap-1.5">
+            <Repeat className="h-3.5 w-3.5" />
+            Repeat
+          </Label>
+          <Select value={rule.freq} onValueChange={(v) => handleFrequencyChange(v as TaskRecurrenceFrequency)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {TASK_RECURRENCE_OPTIONS.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {rule.freq !== 'none' && (
+          <div className="space-y-2">
+            <Label>Every</Label>
+            <div className="flex items-center gap-2">
+              <Input
+                type="number"
+                min={1}
+                max={99}
+                className="w-20"
+                value={rule.interval}
+                onChange={(e) => onRuleChange({ ...rule, interval: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+              />
+              <span className="text-sm text-muted-foreground">{unit}{rule.interval > 1 ? 's' : ''}</span>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {rule.freq === 'weekly' && (
+        <div className="space-y-2">
+          <Label>On</Label>
+          <div className="flex gap-1">
+            {TASK_WEEKDAYS.map(day => (
+              <Button
+                key={day.value}
+                type="button"
+                size="sm"
+                variant={rule.byDay.includes(day.value) ? 'default' : 'outline'}
+                className="h-8 w-8 p-0"
+                title={day.label}
+                onClick={() => toggleWeekday(day.value)}
+              >
+                {day.short}
+              </Button>
+            ))}
+          </div>
+          {rule.byDay.length === 0 && (
+            <p className="text-xs text-muted-foreground">Repeats on the due date's weekday</p>
+          )}
+        </div>
+      )}
+
+      {rule.freq !== 'none' && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label>Ends</Label>
+            <Select value={endType} onValueChange={(v) => handleEndTypeChange(v as RecurrenceEnd)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="never">Never</SelectItem>
+                <SelectItem value="date">On date</SelectItem>
+                <SelectItem value="count">After a number of times</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {endType === 'date' && (
+            <div className="space-y-2">
+              <Label>End Date</Label>
+              <Popover open={endCalendarOpen} onOpenChange={setEndCalendarOpen}>
+                <PopoverTrigger asChild>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    className={cn("w-full justify-start text-left font-normal", !endDate && "text-muted-foreground")}
+                  >
+                    <CalendarIcon className="mr-2 h-4 w-4" />
+                    {endDate ? format(new Date(endDate), 'MMM d, yyyy') : 'Pick date'}
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-auto p-0 pointer-events-auto" align="start">
+                  <Calendar
+                    mode="single"
+                    selected={endDate ? new Date(endDate) : undefined}
+                    onSelect={(date) => {
+                      onEndDateChange(date ? format(date, 'yyyy-MM-dd') : null);
+                      setEndCalendarOpen(false);
+                    }}
+                    initialFocus
+                    className="pointer-events-auto"
+                  />
+                </PopoverContent>
+              </Popover>
+            </div>
+          )}
+
+          {endType === 'count' && (
+            <div className="space-y-2">
+              <Label>Occurrences</Label>
+              <Input
+                type="number"
+                min={1}
+                max={999}
+                value={rule.count ?? ''}
+                onChange={(e) => onRuleChange({ ...rule, count: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+              />
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -107,8 +107,8 @@ export const getColumnConfig = (table: string): ColumnConfig => {
         'created_by', 'modified_by', 'created_at', 'modified_at'
       ],
       required: ['deal_name', 'stage'],
+      // stage is checked against pipeline_stages by the validators (see usePipelineStages)
       enums: {
-        stage: ['Lead', 'Discussions', 'Qualified', 'RFQ', 'Offered', 'Won', 'Lost', 'Dropped'],
         currency_type: ['EUR', 'USD', 'INR'],
         customer_challenges: ['Open', 'Ongoing', 'Done'],
         relationship_strength: ['Low', 'Medium', 'High'],
@@ -1,6 +1,6 @@
 
 import { toast } from '@/hooks/use-toast';
-import { CSVParser } from '@/utils/csvParser';
+import { downloadSpreadsheet, SpreadsheetFormat } from '@/utils/spreadsheetFile';
 import { getColumnConfig } from './columnConfig';
 
 export class CSVExporter {
@@ -10,7 +10,7 @@ export class CSVExporter {
     this.config = getColumnConfig(tableName);
   }
 
-  async exportToCSV(data: any[], filename: string) {
+  async exportToCSV(data: any[], filename: string, format: SpreadsheetFormat = 'csv') {
     if (data.length === 0) {
       toast({
         variant: "destructive",
@@ -25,9 +25,9 @@ export class CSVExporter {
     console.log('Sample data:', data[0]);
 
     const processedData = this.processDataForExport(data, headers);
-    const csvContent = CSVParser.toCSV(processedData, headers);
+    const rows = processedData.map(row => headers.map((header: string) => row[header] ?? ''));
 
-    this.downloadCSV(csvContent, filename);
+    downloadSpreadsheet(headers, rows, filename, format);
 
     console.log(`Export completed: ${data.length} records exported to ${filename}`);
     toast({
@@ -71,16 +71,4 @@ export class CSVExporter {
       return processedRow;
     });
   }
-
-  private downloadCSV(csvContent: string, filename: string) {
-    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-    const url = window.URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = filename;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    window.URL.revokeObjectURL(url);
-  }
 }
@@ -1,6 +1,6 @@
 
 import { supabase } from '@/integrations/supabase/client';
-import { CSVParser } from '@/utils/csvParser';
+import { CSVParser, ParsedSheet } from '@/utils/csvParser';
 import { createHeaderMapper } from './headerMapper';
 import { createRecordValidator } from './recordValidator';
 import { createDuplicateChecker } from './duplicateChecker';
@@ -33,15 +33,18 @@ export class CSVProcessor {
   }
 
   async processCSV(csvText: string, options: ProcessingOptions): Promise<ProcessingResult> {
+    return this.processSheet(CSVParser.parseCSV(csvText), options);
+  }
+
+  async processSheet(sheet: ParsedSheet, options: ProcessingOptions): Promise<ProcessingResult> {
     console.log(`CSVProcessor: Starting processing for table ${options.tableName}`);
     
     try {
-      // Parse CSV
-      const { headers, rows } = CSVParser.parseCSV(csvText);
+      const { headers, rows, rowNumbers } = sheet;
       console.log(`CSVProcessor: Parsed ${rows.length} rows with headers:`, headers);
 
       if (rows.length === 0) {
-        throw new Error('No data rows found in CSV');
+        throw new Error(sheet.errors[0] || 'No data rows found in CSV');
       }
 
       // Map headers to database columns
@@ -54,19 +57,20 @@ export class CSVProcessor {
       });
       console.log('CSVProcessor: Column mapping:', columnMap);
 
+      // Rows the parser couldn't read count as failures
       const result: ProcessingResult = {
         successCount: 0,
         updateCount: 0,
         duplicateCount: 0,
-        errorCount: 0,
-        errors: []
+        errorCount: sheet.errors.length,
+        errors: [...sheet.errors]
       };
 
       // Process rows in batches
       const batchSize = 50;
       for (let i = 0; i < rows.length; i += batchSize) {
         const batch = rows.slice(i, i + batchSize);
-        const batchResult = await this.processBatch(batch, headers, columnMap, options);
+        const batchResult = await this.processBatch(batch, rowNumbers.slice(i, i + batchSize), headers, columnMap, options);
         
         result.successCount += batchResult.successCount;
         result.updateCount += batchResult.updateCount;
@@ -91,6 +95,7 @@ export class CSVProcessor {
 
   private async processBatch(
     rows: string[][],
+    rowNumbers: number[],
     headers: string[],
     columnMap: Record<string, string>,
     options: ProcessingOptions
@@ -104,7 +109,9 @@ export class CSVProcessor {
       errors: []
     };
 
-    for (const row of rows) {
+    for (let rowIndex = 0; rowIndex < rows.length; rowIndex++) {
+      const row = rows[rowIndex];
+      const rowLabel = `Row ${rowNumbers[rowIndex]}`;
       try {
         // Convert row to object
         const rowObj: Record<string, any> = {};
@@ -123,7 +130,7 @@ export class CSVProcessor {
         const isValid = this.recordValidator(rowObj);
         if (!isValid) {
           result.errorCount++;
-          result.errors.push(`Row validation failed for record`);
+          result.errors.push(`${rowLabel}: Validation failed`);
           continue;
         }
 
@@ -143,14 +150,14 @@ export class CSVProcessor {
 
         if (insertError) {
           result.errorCount++;
-          result.errors.push(`Insert failed: ${insertError.message}`);
+          result.errors.push(`${rowLabel}: Insert failed - ${insertError.message}`);
         } else {
           result.successCount++;
         }
 
       } catch (error: any) {
         result.errorCount++;
-        result.errors.push(`Row processing error: ${error.message}`);
+        result.errors.push(`${rowLabel}: Processing error - ${error.message}`);
       }
     }
 
@@ -0,0 +1,73 @@
+import {
+  CustomField,
+  CustomFieldEntityType,
+  CustomFieldValues,
+  formatCustomFieldValue,
+  getCustomFieldColumnKey,
+  getCustomFieldValue,
+  parseCustomFieldValue,
+} from '@/types/customField';
+
+// Custom fields travel in CSV files as extra `cf_<field_name>` columns after the built-in ones
+
+const TABLE_ENTITY_TYPES: Record<string, CustomFieldEntityType> = {
+  accounts: 'account',
+  contacts: 'contact',
+  leads: 'lead',
+  deals: 'deal',
+};
+
+export const getCustomFieldEntityForTable = (tableName: string): CustomFieldEntityType | undefined =>
+  TABLE_ENTITY_TYPES[tableName];
+
+export const getCustomFieldExportHeaders = (fields: CustomField[]): string[] =>
+  fields.map(field => getCustomFieldColumnKey(field.field_name));
+
+export const getCustomFieldExportValues = (record: { custom_fields?: unknown }, fields: CustomField[]): string[] =>
+  fields.map(field => formatCustomFieldValue(field, getCustomFieldValue(record, field.field_name)));
+
+const normalizeHeader = (header: string) => header.trim().toLowerCase().replace(/[\s-]+/g, '_');
+
+/**
+ * Match CSV headers to custom fields. A header matches by column key (cf_tier),
+ * field name (tier) or label (Tier), case-insensitively.
+ */
+export const mapCustomFieldHeaders = (headers: string[], fields: CustomField[]): Record<string, CustomField> => {
+  const lookup: Record<string, CustomField> = {};
+  fields.forEach(field => {
+    lookup[normalizeHeader(getCustomFieldColumnKey(field.field_name))] = field;
+    lookup[normalizeHeader(field.field_name)] = field;
+    lookup[normalizeHeader(field.field_label)] = field;
+  });
+
+  const headerMap: Record<string, CustomField> = {};
+  headers.forEach(header => {
+    const field = lookup[normalizeHeader(header)];
+    if (field) headerMap[header] = field;
+  });
+  return headerMap;
+};
+
+// Read custom field values from one CSV row; cells that are empty or don't parse are skipped
+export const extractCustomFieldValues = (
+  headers: string[],
+  row: string[],
+  headerMap: Record<string, CustomField>
+): CustomFieldValues => {
+  const values: CustomFieldValues = {};
+  headers.forEach((header, index) => {
+    const field = headerMap[header];
+    if (!field) return;
+    const value = parseCustomFieldValue(field, row[index]);
+    if (value !== undefined) values[field.field_name] = value;
+  });
+  return values;
+};
+
+// Imported values win; fields missing from the file keep their stored value
+export const mergeCustomFieldValues = (existing: unknown, incoming: CustomFieldValues): CustomFieldValues => {
+  const base = existing && typeof existing === 'object' && !Array.isArray(existing)
+    ? (existing as CustomFieldValues)
+    : {};
+  return { ...base, ...incoming };
+};
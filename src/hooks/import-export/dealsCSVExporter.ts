@@ -1,5 +1,11 @@
 
 import { GenericCSVExporter } from './genericCSVExporter';
+import { fetchCustomFields } from '@/hooks/useCustomFields';
+import { SpreadsheetFormat } from '@/utils/spreadsheetFile';
+import { fetchCurrencyContext } from '@/hooks/useCurrencyConverter';
+import { fetchPipelineStages } from '@/hooks/usePipelineStages';
+import { isWonStage } from '@/types/deal';
+import { CurrencyConverter, DealAmountSource, getDealConversionDate, getDealCurrency } from '@/utils/currencyConversion';
 
 // Exact field order as specified - Added account_id and contact_id
 const DEALS_EXPORT_FIELDS = [
@@ -15,6 +21,28 @@ const DEALS_EXPORT_FIELDS = [
   'rfq_received_date', 'proposal_due_date', 'rfq_status', 'account_id', 'contact_id'
 ];
 
+// Export-only columns with amounts converted to the reporting currency; the importer ignores them
+const REPORTING_EXPORT_FIELDS = ['reporting_currency', 'total_contract_value_reporting', 'total_revenue_reporting'];
+
+const roundAmount = (value: number | null) => (value === null ? '' : Math.round(value * 100) / 100);
+
+const withReportingAmounts = (
+  deal: DealAmountSource & { total_contract_value?: unknown; total_revenue?: unknown },
+  converter: CurrencyConverter,
+  isWon: (stage?: string | null) => boolean
+) => {
+  const currency = getDealCurrency(deal);
+  const date = getDealConversionDate(deal, isWon);
+  const convert = (amount: unknown) =>
+    amount === null || amount === undefined || amount === '' ? '' : roundAmount(converter.convert(Number(amount), currency, date));
+  return {
+    ...deal,
+    reporting_currency: converter.reportingCurrency,
+    total_contract_value_reporting: convert(deal.total_contract_value),
+    total_revenue_reporting: convert(deal.total_revenue),
+  };
+};
+
 export class DealsCSVExporter {
   private genericExporter: GenericCSVExporter;
 
@@ -22,15 +50,25 @@ export class DealsCSVExporter {
     this.genericExporter = new GenericCSVExporter();
   }
   
-  async exportToCSV(deals: any[], filename: string) {
+  async exportToCSV(deals: any[], filename: string, format: SpreadsheetFormat = 'csv') {
     console.log('DealsCSVExporter: Starting export with standardized YYYY-MM-DD date format');
     
     if (!deals || deals.length === 0) {
       throw new Error('No deals to export');
     }
 
-    // Export deals directly without action items JSON
-    await this.genericExporter.exportToCSV(deals, filename, DEALS_EXPORT_FIELDS);
+    // Export deals directly without action items JSON; original amounts stay in their own columns
+    const customFields = await fetchCustomFields('deal');
+    const { converter } = await fetchCurrencyContext();
+    const stages = await fetchPipelineStages();
+    const isWon = (stage?: string | null) => isWonStage(stage, stages);
+    await this.genericExporter.exportToCSV(
+      deals.map(deal => withReportingAmounts(deal, converter, isWon)),
+      filename,
+      [...DEALS_EXPORT_FIELDS, ...REPORTING_EXPORT_FIELDS],
+      customFields,
+      format
+    );
     console.log('DealsCSVExporter: Export completed successfully with YYYY-MM-DD date format');
   }
 }
@@ -1,8 +1,11 @@
 
 import { supabase } from '@/integrations/supabase/client';
-import { CSVParser } from '@/utils/csvParser';
+import { CSVParser, ParsedSheet } from '@/utils/csvParser';
 import { DateFormatUtils } from '@/utils/dateFormatUtils';
 import { UserNameUtils } from '@/utils/userNameUtils';
+import { fetchCustomFields } from '@/hooks/useCustomFields';
+import { CustomField } from '@/types/customField';
+import { extractCustomFieldValues, mapCustomFieldHeaders, mergeCustomFieldValues } from './customFieldCSV';
 
 export interface DealsProcessingOptions {
   userId: string;
@@ -18,16 +21,21 @@ export interface DealsProcessingResult {
 
 export class DealsCSVProcessor {
   private userIdMap: Record<string, string> = {};
+  private customHeaderMap: Record<string, CustomField> = {};
 
   async processCSV(csvText: string, options: DealsProcessingOptions): Promise<DealsProcessingResult> {
+    return this.processSheet(CSVParser.parseCSV(csvText), options);
+  }
+
+  async processSheet(sheet: ParsedSheet, options: DealsProcessingOptions): Promise<DealsProcessingResult> {
     console.log('DealsCSVProcessor: Starting processing with standardized YYYY-MM-DD date format');
     
     try {
-      const { headers, rows } = CSVParser.parseCSV(csvText);
+      const { headers, rows, rowNumbers } = sheet;
       console.log(`DealsCSVProcessor: Parsed ${rows.length} rows with headers:`, headers);
 
       if (rows.length === 0) {
-        throw new Error('No data rows found in CSV');
+        throw new Error(sheet.errors[0] || 'No data rows found in CSV');
       }
 
       // Collect user names from CSV for user fields
@@ -35,18 +43,21 @@ export class DealsCSVProcessor {
       this.userIdMap = await UserNameUtils.fetchUserIdsByNames(userNames);
       console.log('DealsCSVProcessor: Fetched user IDs for', Object.keys(this.userIdMap).length, 'users');
 
+      this.customHeaderMap = mapCustomFieldHeaders(headers, await fetchCustomFields('deal'));
+
+      // Rows the parser couldn't read count as failures
       const result: DealsProcessingResult = {
         successCount: 0,
         updateCount: 0,
-        errorCount: 0,
-        errors: []
+        errorCount: sheet.errors.length,
+        errors: [...sheet.errors]
       };
 
       // Process rows in batches
       const batchSize = 20;
       for (let i = 0; i < rows.length; i += batchSize) {
         const batch = rows.slice(i, i + batchSize);
-        const batchResult = await this.processBatch(batch, headers, options, i);
+        const batchResult = await this.processBatch(batch, headers, options, rowNumbers.slice(i, i + batchSize));
         
         result.successCount += batchResult.successCount;
         result.updateCount += batchResult.updateCount;
@@ -71,7 +82,7 @@ export class DealsCSVProcessor {
     rows: string[][],
     headers: string[],
     options: DealsProcessingOptions,
-    batchOffset: number
+    rowNumbers: number[]
   ): Promise<DealsProcessingResult> {
     
     const result: DealsProcessingResult = {
@@ -83,7 +94,7 @@ export class DealsCSVProcessor {
 
     for (let rowIndex = 0; rowIndex < rows.length; rowIndex++) {
       const row = rows[rowIndex];
-      const actualRowNumber = batchOffset + rowIndex + 2; // +2 for header and 1-based indexing
+      const actualRowNumber = rowNumbers[rowIndex];
       
       try {
         // Convert row to object
@@ -107,6 +118,8 @@ export class DealsCSVProcessor {
 
         // Prepare deal record
         const dealRecord = this.prepareDeal(rowObj, options.userId);
+        const customValues = extractCustomFieldValues(headers, row, this.customHeaderMap);
+        const hasCustomValues = Object.keys(customValues).length > 0;
 
         // Validate required fields - ensure deal_name is present and not empty
         if (!dealRecord.deal_name || dealRecord.deal_name.trim() === '') {
@@ -119,7 +132,7 @@ export class DealsCSVProcessor {
         // Check for existing deal by name
         const { data: existingDeals } = await supabase
           .from('deals')
-          .select('id')
+          .select('id, custom_fields')
           .eq('deal_name', dealRecord.deal_name)
           .limit(1);
 
@@ -128,6 +141,9 @@ export class DealsCSVProcessor {
         if (existingDeals && existingDeals.length > 0) {
           // Update existing deal
           dealId = existingDeals[0].id;
+          if (hasCustomValues) {
+            dealRecord.custom_fields = mergeCustomFieldValues(existingDeals[0].custom_fields, customValues);
+          }
           const { error: updateError } = await supabase
             .from('deals')
             .update(dealRecord)
@@ -186,7 +202,8 @@ export class DealsCSVProcessor {
             created_by: dealRecord.created_by,
             modified_by: dealRecord.modified_by,
             created_at: dealRecord.created_at,
-            modified_at: dealRecord.modified_at
+            modified_at: dealRecord.modified_at,
+            ...(hasCustomValues ? { custom_fields: customValues } : {})
           };
 
           const { data: insertedDeal, error: insertError } = await supabase
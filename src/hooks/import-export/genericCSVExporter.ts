@@ -1,11 +1,19 @@
 
-import { downloadCSV } from '@/utils/csvUtils';
+import { downloadSpreadsheet, SpreadsheetFormat } from '@/utils/spreadsheetFile';
 import { DateFormatUtils } from '@/utils/dateFormatUtils';
 import { UserNameUtils } from '@/utils/userNameUtils';
+import { CustomField } from '@/types/customField';
+import { getCustomFieldExportHeaders, getCustomFieldExportValues } from './customFieldCSV';
 
 export class GenericCSVExporter {
   
-  async exportToCSV(data: any[], filename: string, fieldsOrder: string[]) {
+  async exportToCSV(
+    data: any[],
+    filename: string,
+    fieldsOrder: string[],
+    customFields: CustomField[] = [],
+    format: SpreadsheetFormat = 'csv'
+  ) {
     console.log(`GenericCSVExporter: Starting export of ${data.length} records`);
     
     if (!data || data.length === 0) {
@@ -17,12 +25,13 @@ export class GenericCSVExporter {
     const userNameMap = await UserNameUtils.fetchUserDisplayNames(userIds);
     console.log('GenericCSVExporter: Fetched display names for', Object.keys(userNameMap).length, 'users');
 
-    // Create CSV header row - exact field order
-    const headers = fieldsOrder;
+    // Create CSV header row - exact field order, then custom fields
+    const headers = [...fieldsOrder, ...getCustomFieldExportHeaders(customFields)];
 
-    // Convert data to CSV rows with proper formatting
-    const csvRows = data.map((record, index) => {
-      return fieldsOrder.map(field => {
+    // Convert data to rows with proper formatting
+    const rows = data.map(record => {
+      const customValues = getCustomFieldExportValues(record, customFields);
+      return [...fieldsOrder.map(field => {
         let value = record[field];
         
         // Format ID (shortened)
@@ -42,34 +51,10 @@ export class GenericCSVExporter {
         
         // Use existing date formatting for date-only fields
         return DateFormatUtils.processFieldForExport(field, value);
-      });
+      }), ...customValues].map(value => (value === null || value === undefined ? '' : String(value)));
     });
 
-    // Combine headers and data
-    const allRows = [headers, ...csvRows];
-
-    // Convert to CSV string with proper escaping
-    const csvContent = allRows
-      .map(row => 
-        row.map(field => {
-          const str = String(field || '');
-          // If field contains comma, quote, or newline, wrap in quotes and escape quotes
-          if (str.includes(',') || str.includes('"') || str.includes('\n')) {
-            return `"${str.replace(/"/g, '""')}"`;
-          }
-          return str;
-        }).join(',')
-      )
-      .join('\n');
-
-    console.log(`GenericCSVExporter: CSV content generated, length:`, csvContent.length);
-    
-    // Download the CSV file
-    const success = downloadCSV(csvContent, filename);
-    
-    if (!success) {
-      throw new Error('Failed to download CSV file');
-    }
+    downloadSpreadsheet(headers, rows, filename, format);
     
     console.log(`GenericCSVExporter: Export completed successfully`);
   }
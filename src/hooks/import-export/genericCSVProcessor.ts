@@ -1,12 +1,20 @@
 
 import { supabase } from '@/integrations/supabase/client';
-import { CSVParser } from '@/utils/csvParser';
+import { CSVParser, ParsedSheet } from '@/utils/csvParser';
 import { createHeaderMapper } from './headerMapper';
 import { createRecordValidator } from './recordValidator';
 import { createDuplicateChecker } from './duplicateChecker';
 import { LeadsCSVProcessor } from './leadsCSVProcessor';
 import { DateFormatUtils } from '@/utils/dateFormatUtils';
 import { UserNameUtils } from '@/utils/userNameUtils';
+import { fetchCustomFields } from '@/hooks/useCustomFields';
+import { CustomField } from '@/types/customField';
+import {
+  extractCustomFieldValues,
+  getCustomFieldEntityForTable,
+  mapCustomFieldHeaders,
+  mergeCustomFieldValues,
+} from './customFieldCSV';
 
 export interface ProcessingOptions {
   tableName: string;
@@ -24,12 +32,16 @@ export interface ProcessingResult {
 
 export class GenericCSVProcessor {
   async processCSV(csvText: string, options: ProcessingOptions): Promise<ProcessingResult> {
+    return this.processSheet(CSVParser.parseCSV(csvText), options);
+  }
+
+  async processSheet(sheet: ParsedSheet, options: ProcessingOptions): Promise<ProcessingResult> {
     console.log(`GenericCSVProcessor: Starting processing for table ${options.tableName}`);
     
     // Use specialized processor for leads
     if (options.tableName === 'leads') {
       const leadsProcessor = new LeadsCSVProcessor();
-      const result = await leadsProcessor.processCSV(csvText, {
+      const result = await leadsProcessor.processSheet(sheet, {
         userId: options.userId,
         onProgress: options.onProgress
       });
@@ -46,12 +58,11 @@ export class GenericCSVProcessor {
 
     
     try {
-      // Parse CSV
-      const { headers, rows } = CSVParser.parseCSV(csvText);
+      const { headers, rows, rowNumbers } = sheet;
       console.log(`GenericCSVProcessor: Parsed ${rows.length} rows with headers:`, headers);
 
       if (rows.length === 0) {
-        throw new Error('No data rows found in CSV');
+        throw new Error(sheet.errors[0] || 'No data rows found in CSV');
       }
 
       // Map headers to database columns
@@ -65,24 +76,30 @@ export class GenericCSVProcessor {
       });
       console.log('GenericCSVProcessor: Column mapping:', columnMap);
 
+      // Headers that aren't built-in columns may be custom fields
+      const entityType = getCustomFieldEntityForTable(options.tableName);
+      const customFields = entityType ? await fetchCustomFields(entityType) : [];
+      const customHeaderMap = mapCustomFieldHeaders(headers.filter(header => !columnMap[header]), customFields);
+
       // Collect user names from CSV for user fields
       const userNames = UserNameUtils.extractUserNames(rows, headers, UserNameUtils.USER_FIELDS);
       const userIdMap = await UserNameUtils.fetchUserIdsByNames(userNames);
       console.log('GenericCSVProcessor: Fetched user IDs for', Object.keys(userIdMap).length, 'users');
 
+      // Rows the parser couldn't read count as failures
       const result: ProcessingResult = {
         successCount: 0,
         updateCount: 0,
         duplicateCount: 0,
-        errorCount: 0,
-        errors: []
+        errorCount: sheet.errors.length,
+        errors: [...sheet.errors]
       };
 
       // Process rows in batches
       const batchSize = 50;
       for (let i = 0; i < rows.length; i += batchSize) {
         const batch = rows.slice(i, i + batchSize);
-        const batchResult = await this.processBatch(batch, headers, columnMap, options, userIdMap);
+        const batchResult = await this.processBatch(batch, rowNumbers.slice(i, i + batchSize), headers, columnMap, options, userIdMap, customHeaderMap);
         
         result.successCount += batchResult.successCount;
         result.updateCount += batchResult.updateCount;
@@ -107,10 +124,12 @@ export class GenericCSVProcessor {
 
   private async processBatch(
     rows: string[][],
+    rowNumbers: number[],
     headers: string[],
     columnMap: Record<string, string>,
     options: ProcessingOptions,
-    userIdMap: Record<string, string>
+    userIdMap: Record<string, string>,
+    customHeaderMap: Record<string, CustomField>
   ): Promise<ProcessingResult> {
     
     const recordValidator = createRecordValidator(options.tableName);
@@ -123,7 +142,9 @@ export class GenericCSVProcessor {
       errors: []
     };
 
-    for (const row of rows) {
+    for (let rowIndex = 0; rowIndex < rows.length; rowIndex++) {
+      const row = rows[rowIndex];
+      const rowLabel = `Row ${rowNumbers[rowIndex]}`;
       try {
         // Convert row to object
         const rowObj: Record<string, any> = {};
@@ -143,12 +164,15 @@ export class GenericCSVProcessor {
           }
         });
 
+        const customValues = extractCustomFieldValues(headers, row, customHeaderMap);
+        const hasCustomValues = Object.keys(customValues).length > 0;
+
         // Validate record
         const isValid = recordValidator(rowObj);
         if (!isValid) {
           result.errorCount++;
           const rowPreview = rowObj.contact_name || rowObj.lead_name || rowObj.id || 'Unknown';
-          result.errors.push(`Validation failed for: ${rowPreview}`);
+          result.errors.push(`${rowLabel}: Validation failed for ${rowPreview}`);
           continue;
         }
 
@@ -157,7 +181,7 @@ export class GenericCSVProcessor {
         if (rowObj.id) {
           const { data: existing } = await supabase
             .from(options.tableName as any)
-            .select('id')
+            .select(hasCustomValues ? 'id, custom_fields' : 'id')
             .eq('id', rowObj.id)
             .single();
           
@@ -170,6 +194,10 @@ export class GenericCSVProcessor {
           updateData.modified_by = options.userId;
           updateData.modified_time = new Date().toISOString();
           
+          if (hasCustomValues) {
+            updateData.custom_fields = mergeCustomFieldValues(existingRecord.custom_fields, customValues);
+          }
+          
           // Remove id from update data to avoid conflicts
           delete updateData.id;
           
@@ -180,7 +208,7 @@ export class GenericCSVProcessor {
 
           if (updateError) {
             result.errorCount++;
-            result.errors.push(`Update failed: ${updateError.message}`);
+            result.errors.push(`${rowLabel}: Update failed - ${updateError.message}`);
           } else {
             result.updateCount++;
             console.log('Record updated successfully:', existingRecord.id);
@@ -190,6 +218,9 @@ export class GenericCSVProcessor {
           const insertData = { ...rowObj };
           insertData.created_by = options.userId;
           insertData.modified_by = options.userId;
+          if (hasCustomValues) {
+            insertData.custom_fields = customValues;
+          }
           
           // If no ID provided, let database generate one
           if (!insertData.id) {
@@ -203,7 +234,7 @@ export class GenericCSVProcessor {
           if (insertError) {
             result.errorCount++;
             const rowPreview = insertData.contact_name || insertData.lead_name || insertData.id || 'Unknown';
-            result.errors.push(`Insert failed for "${rowPreview}": ${insertError.message}`);
+            result.errors.push(`${rowLabel}: Insert failed for "${rowPreview}" - ${insertError.message}`);
           } else {
             result.successCount++;
             console.log('New record inserted successfully');
@@ -212,7 +243,7 @@ export class GenericCSVProcessor {
 
       } catch (error: any) {
         result.errorCount++;
-        result.errors.push(`Row processing error: ${error.message}`);
+        result.errors.push(`${rowLabel}: Processing error - ${error.message}`);
         console.error('Row processing error:', error);
       }
     }
@@ -0,0 +1,13 @@
+import { format } from 'date-fns';
+import { downloadSpreadsheet } from '@/utils/spreadsheetFile';
+
+const ROW_PREFIX = /^Row (\d+):\s*/;
+
+/** Save import errors as a CSV with the spreadsheet row number in its own column */
+export const downloadImportErrorReport = (moduleName: string, errors: string[]) => {
+  const rows = errors.map(error => {
+    const match = error.match(ROW_PREFIX);
+    return match ? [match[1], error.slice(match[0].length)] : ['', error];
+  });
+  downloadSpreadsheet(['Row', 'Error'], rows, `${moduleName}_import_errors_${format(new Date(), 'yyyy-MM-dd_HHmmss')}.csv`);
+};
@@ -0,0 +1,269 @@
+import { CSVParser } from '@/utils/csvParser';
+import { CustomField, getCustomFieldColumnKey, parseCustomFieldValue } from '@/types/customField';
+import { getColumnConfig } from './columnConfig';
+import { createHeaderMapper } from './headerMapper';
+import { createRecordValidator } from './recordValidator';
+import { createValueValidator } from './valueValidator';
+
+/**
+ * Interactive column mapping for module imports. The user maps the file's columns onto a
+ * module's fields; the file is then rewritten with the headers that module's importer already
+ * understands, so the existing processors run unchanged.
+ */
+
+export type ImportModuleId = 'leads' | 'contacts' | 'accounts' | 'deals' | 'meetings' | 'tasks';
+
+export interface ImportTargetField {
+  key: string;
+  label: string;
+  // Header written to the rewritten CSV for this field
+  header: string;
+  required?: boolean;
+  customField?: CustomField;
+}
+
+// Source header -> target field key
+export type ImportFieldMappings = Record<string, string>;
+// Target field key -> value used when the mapped cell is empty or the field is unmapped
+export type ImportDefaultValues = Record<string, string>;
+
+export interface ImportMappingPreset {
+  id: string;
+  name: string;
+  entity_type: string;
+  field_mappings: ImportFieldMappings;
+  default_values: ImportDefaultValues;
+}
+
+export interface MappedPreviewRow {
+  rowNumber: number;
+  values: Record<string, string>;
+  errors: string[];
+}
+
+// System columns that an import should never set from a spreadsheet
+const SKIPPED_COLUMNS = new Set([
+  'created_at', 'updated_at', 'modified_at', 'created_time', 'modified_time',
+  'last_activity_date', 'contact_count', 'deal_count', 'completed_at',
+]);
+
+const toLabel = (key: string) =>
+  key === 'id' ? 'ID' : key.split('_').map(part => part.charAt(0).toUpperCase() + part.slice(1)).join(' ');
+
+// Meetings and tasks are parsed by hand in their hooks, so their headers are fixed
+const FIXED_TARGETS: Partial<Record<ImportModuleId, ImportTargetField[]>> = {
+  meetings: [
+    { key: 'subject', label: 'Subject', header: 'subject', required: true },
+    { key: 'start_time', label: 'Start Date/Time', header: 'start_time', required: true },
+    { key: 'end_time', label: 'End Date/Time', header: 'end_time' },
+    { key: 'status', label: 'Status', header: 'status' },
+    { key: 'outcome', label: 'Outcome', header: 'outcome' },
+    { key: 'description', label: 'Description', header: 'description' },
+    { key: 'notes', label: 'Notes', header: 'notes' },
+    { key: 'join_url', label: 'Join URL', header: 'join_url' },
+    { key: 'created_by', label: 'Created By', header: 'created_by' },
+  ],
+  tasks: [
+    { key: 'title', label: 'Title', header: 'title', required: true },
+    { key: 'description', label: 'Description', header: 'description' },
+    { key: 'status', label: 'Status', header: 'status' },
+    { key: 'priority', label: 'Priority', header: 'priority' },
+    { key: 'due_date', label: 'Due Date', header: 'due date' },
+    { key: 'due_time', label: 'Due Time', header: 'due time' },
+    { key: 'assigned_to', label: 'Assigned To', header: 'assigned to' },
+  ],
+};
+
+export const getImportTargetFields = (moduleId: ImportModuleId, customFields: CustomField[] = []): ImportTargetField[] => {
+  const fixed = FIXED_TARGETS[moduleId];
+  const config = getColumnConfig(moduleId);
+  const builtIn = fixed || config.allowedColumns
+    .filter(column => !SKIPPED_COLUMNS.has(column))
+    .map(column => ({
+      key: column,
+      label: toLabel(column),
+      header: column,
+      required: config.required.includes(column),
+    }));
+
+  const custom = customFields.map(field => {
+    const key = getCustomFieldColumnKey(field.field_name);
+    return { key, label: field.field_label, header: key, required: field.is_required, customField: field };
+  });
+
+  return [...builtIn, ...custom];
+};
+
+const normalize = (value: string) => value.trim().toLowerCase().replace(/[\s_-]+/g, '_');
+
+/** Best-guess mapping from the built-in alias dictionaries, used when no preset applies */
+export const suggestImportMappings = (
+  moduleId: ImportModuleId,
+  headers: string[],
+  targets: ImportTargetField[]
+): ImportFieldMappings => {
+  const headerMapper = FIXED_TARGETS[moduleId] ? null : createHeaderMapper(moduleId);
+  const targetKeys = new Set(targets.map(t => t.key));
+  const mappings: ImportFieldMappings = {};
+  const used = new Set<string>();
+
+  headers.forEach(header => {
+    const byAlias = headerMapper?.(header);
+    const byName = targets.find(t =>
+      normalize(t.key) === normalize(header) ||
+      normalize(t.label) === normalize(header) ||
+      normalize(t.header) === normalize(header)
+    )?.key;
+    const key = byAlias && targetKeys.has(byAlias) ? byAlias : byName;
+    if (key && !used.has(key)) {
+      mappings[header] = key;
+      used.add(key);
+    }
+  });
+
+  return mappings;
+};
+
+/**
+ * The preset whose mapped columns are all present in the file. When several match,
+ * the one that maps the most columns wins.
+ */
+export const findMatchingPreset = (
+  presets: ImportMappingPreset[],
+  headers: string[]
+): ImportMappingPreset | null => {
+  const present = new Set(headers.map(normalize));
+  let best: ImportMappingPreset | null = null;
+  let bestCount = 0;
+
+  presets.forEach(preset => {
+    const sources = Object.keys(preset.field_mappings || {});
+    if (sources.length === 0 || !sources.every(source => present.has(normalize(source)))) return;
+    if (sources.length > bestCount) {
+      best = preset;
+      bestCount = sources.length;
+    }
+  });
+
+  return best;
+};
+
+/** Re-key a preset's mappings onto the file's exact header spelling */
+export const applyPresetToHeaders = (preset: ImportMappingPreset, headers: string[]): ImportFieldMappings => {
+  const byNormalized: Record<string, string> = {};
+  Object.entries(preset.field_mappings || {}).forEach(([source, target]) => {
+    byNormalized[normalize(source)] = target;
+  });
+
+  const mappings: ImportFieldMappings = {};
+  headers.forEach(header => {
+    const target = byNormalized[normalize(header)];
+    if (target) mappings[header] = target;
+  });
+  return mappings;
+};
+
+/** Mapped values for one row, keyed by target field, with defaults filled in */
+const mapRow = (
+  headers: string[],
+  row: string[],
+  mappings: ImportFieldMappings,
+  defaults: ImportDefaultValues
+): Record<string, string> => {
+  const values: Record<string, string> = {};
+  headers.forEach((header, index) => {
+    const target = mappings[header];
+    if (target) values[target] = (row[index] ?? '').trim();
+  });
+  Object.entries(defaults).forEach(([target, value]) => {
+    if (value.trim() && !values[target]) values[target] = value.trim();
+  });
+  return values;
+};
+
+const validateMappedValues = (
+  moduleId: ImportModuleId,
+  values: Record<string, string>,
+  targets: ImportTargetField[],
+  valueValidator: (key: string, value: string) => unknown,
+  recordValidator: (record: Record<string, unknown>) => boolean
+): string[] => {
+  const errors: string[] = [];
+  const record: Record<string, unknown> = {};
+
+  targets.forEach(target => {
+    const raw = values[target.key] ?? '';
+    if (!raw) {
+      if (target.required) errors.push(`${target.label} is required`);
+      return;
+    }
+    if (target.customField) {
+      if (parseCustomFieldValue(target.customField, raw) === undefined) {
+        errors.push(`${target.label}: "${raw}" is not a valid ${target.customField.field_type}`);
+      }
+      return;
+    }
+    const parsed = valueValidator(target.key, raw);
+    if (parsed === null || parsed === undefined) {
+      errors.push(`${target.label}: "${raw}" is not a valid value`);
+    }
+    record[target.key] = parsed ?? raw;
+  });
+
+  // The record validator repeats the required checks above; only report it when it adds something
+  if (errors.length === 0 && !FIXED_TARGETS[moduleId] && !recordValidator(record)) {
+    errors.push('Row does not pass record validation');
+  }
+
+  return errors;
+};
+
+/** Map and validate the first `limit` data rows without writing anything */
+export const previewMappedRows = (
+  moduleId: ImportModuleId,
+  headers: string[],
+  rows: string[][],
+  mappings: ImportFieldMappings,
+  defaults: ImportDefaultValues,
+  targets: ImportTargetField[],
+  limit: number,
+  stageNames?: string[]
+): MappedPreviewRow[] => {
+  const valueValidator = createValueValidator(moduleId, stageNames);
+  const recordValidator = createRecordValidator(moduleId, stageNames);
+
+  return rows.slice(0, limit).map((row, index) => {
+    const values = mapRow(headers, row, mappings, defaults);
+    return {
+      rowNumber: index + 2, // +2 for the header row and 1-based numbering
+      values,
+      errors: validateMappedValues(moduleId, values, targets, valueValidator, recordValidator),
+    };
+  });
+};
+
+/** Rewrite the file with one column per mapped or defaulted field, under the importer's headers */
+export const buildMappedImportFile = (
+  file: File,
+  headers: string[],
+  rows: string[][],
+  mappings: ImportFieldMappings,
+  defaults: ImportDefaultValues,
+  targets: ImportTargetField[]
+): File => {
+  const mappedKeys = new Set([
+    ...Object.values(mappings),
+    ...Object.keys(defaults).filter(key => defaults[key].trim()),
+  ]);
+  const columns = targets.filter(t => mappedKeys.has(t.key));
+
+  const records = rows.map(row => {
+    const values = mapRow(headers, row, mappings, defaults);
+    const record: Record<string, string> = {};
+    columns.forEach(column => { record[column.header] = values[column.key] ?? ''; });
+    return record;
+  });
+
+  const csv = CSVParser.toCSV(records, columns.map(c => c.header));
+  return new File([csv], file.name.replace(/\.[^.]+$/, '') + '.csv', { type: 'text/csv' });
+};
@@ -1,9 +1,11 @@
 
 import { supabase } from '@/integrations/supabase/client';
 import { UserNameUtils } from '@/utils/userNameUtils';
+import { fetchCustomFields } from '@/hooks/useCustomFields';
+import { getCustomFieldExportHeaders, getCustomFieldExportValues } from './customFieldCSV';
 
 export class LeadsCSVExporter {
-  async exportLeads(leads: any[]): Promise<string> {
+  async exportLeads(leads: any[]): Promise<{ headers: string[]; rows: string[][] }> {
     console.log('LeadsCSVExporter: Starting export of', leads.length, 'leads');
     
     // Define the exact field order as required - matches DB schema
@@ -34,10 +36,11 @@ export class LeadsCSVExporter {
     const userNameMap = await UserNameUtils.fetchUserDisplayNames(userIds);
     console.log('LeadsCSVExporter: Fetched display names for', Object.keys(userNameMap).length, 'users');
 
-    const csvRows = [];
-    
-    // Add headers in exact order
-    csvRows.push(fieldOrder.join(','));
+    const customFields = await fetchCustomFields('lead');
+
+    // Headers in exact order, then custom fields
+    const headers = [...fieldOrder, ...getCustomFieldExportHeaders(customFields)];
+    const rows: string[][] = [];
 
     // Process each lead
     for (const lead of leads) {
@@ -52,13 +55,12 @@ export class LeadsCSVExporter {
 
         // Convert UUID to display name for user fields
         if (UserNameUtils.isUserField(field) && value) {
-          const displayName = userNameMap[value] || '';
-          return this.escapeCSVValue(displayName);
+          return userNameMap[value] || '';
         }
 
         // Format datetime fields
         if (UserNameUtils.isDateTimeField(field) && value) {
-          return this.escapeCSVValue(UserNameUtils.formatDateTimeForExport(value));
+          return UserNameUtils.formatDateTimeForExport(value);
         }
 
         // Handle null/undefined values
@@ -66,21 +68,13 @@ export class LeadsCSVExporter {
           return '';
         }
 
-        return this.escapeCSVValue(String(value));
+        return String(value);
       });
 
-      csvRows.push(rowValues.join(','));
+      rows.push([...rowValues, ...getCustomFieldExportValues(lead, customFields)]);
     }
 
-    const csvContent = csvRows.join('\n');
     console.log('LeadsCSVExporter: Export completed');
-    return csvContent;
-  }
-
-  private escapeCSVValue(value: string): string {
-    if (value.includes(',') || value.includes('"') || value.includes('\n')) {
-      return `"${value.replace(/"/g, '""')}"`;
-    }
-    return value;
+    return { headers, rows };
   }
 }
@@ -1,8 +1,11 @@
 
 import { supabase } from '@/integrations/supabase/client';
-import { CSVParser } from '@/utils/csvParser';
+import { CSVParser, ParsedSheet } from '@/utils/csvParser';
 import { DateFormatUtils } from '@/utils/dateFormatUtils';
 import { UserNameUtils } from '@/utils/userNameUtils';
+import { fetchCustomFields } from '@/hooks/useCustomFields';
+import { CustomField } from '@/types/customField';
+import { extractCustomFieldValues, mapCustomFieldHeaders, mergeCustomFieldValues } from './customFieldCSV';
 
 export interface LeadsProcessingOptions {
   userId: string;
@@ -18,16 +21,21 @@ export interface LeadsProcessingResult {
 
 export class LeadsCSVProcessor {
   private userIdMap: Record<string, string> = {};
+  private customHeaderMap: Record<string, CustomField> = {};
 
   async processCSV(csvText: string, options: LeadsProcessingOptions): Promise<LeadsProcessingResult> {
+    return this.processSheet(CSVParser.parseCSV(csvText), options);
+  }
+
+  async processSheet(sheet: ParsedSheet, options: LeadsProcessingOptions): Promise<LeadsProcessingResult> {
     console.log('LeadsCSVProcessor: Starting processing');
     
     try {
-      const { headers, rows } = CSVParser.parseCSV(csvText);
+      const { headers, rows, rowNumbers } = sheet;
       console.log(`LeadsCSVProcessor: Parsed ${rows.length} rows with headers:`, headers);
 
       if (rows.length === 0) {
-        throw new Error('No data rows found in CSV');
+        throw new Error(sheet.errors[0] || 'No data rows found in CSV');
       }
 
       // Collect user names from CSV for user fields
@@ -35,18 +43,21 @@ export class LeadsCSVProcessor {
       this.userIdMap = await UserNameUtils.fetchUserIdsByNames(userNames);
       console.log('LeadsCSVProcessor: Fetched user IDs for', Object.keys(this.userIdMap).length, 'users');
 
+      this.customHeaderMap = mapCustomFieldHeaders(headers, await fetchCustomFields('lead'));
+
+      // Rows the parser couldn't read count as failures
       const result: LeadsProcessingResult = {
         successCount: 0,
         updateCount: 0,
-        errorCount: 0,
-        errors: []
+        errorCount: sheet.errors.length,
+        errors: [...sheet.errors]
       };
 
       // Process rows in batches
       const batchSize = 20;
       for (let i = 0; i < rows.length; i += batchSize) {
         const batch = rows.slice(i, i + batchSize);
-        const batchResult = await this.processBatch(batch, headers, options);
+        const batchResult = await this.processBatch(batch, rowNumbers.slice(i, i + batchSize), headers, options);
         
         result.successCount += batchResult.successCount;
         result.updateCount += batchResult.updateCount;
@@ -69,6 +80,7 @@ export class LeadsCSVProcessor {
 
   private async processBatch(
     rows: string[][],
+    rowNumbers: number[],
     headers: string[],
     options: LeadsProcessingOptions
   ): Promise<LeadsProcessingResult> {
@@ -80,7 +92,9 @@ export class LeadsCSVProcessor {
       errors: []
     };
 
-    for (const row of rows) {
+    for (let rowIndex = 0; rowIndex < rows.length; rowIndex++) {
+      const row = rows[rowIndex];
+      const rowLabel = `Row ${rowNumbers[rowIndex]}`;
       try {
         // Convert row to object
         const rowObj: Record<string, any> = {};
@@ -93,11 +107,13 @@ export class LeadsCSVProcessor {
         // Prepare lead record (action_items_json is now ignored if present)
         delete rowObj.action_items_json; // Remove if present in old exports
         const leadRecord = this.prepareLead(rowObj, options.userId);
+        const customValues = extractCustomFieldValues(headers, row, this.customHeaderMap);
+        const hasCustomValues = Object.keys(customValues).length > 0;
 
         // Validate required fields - ensure lead_name is present and not empty
         if (!leadRecord.lead_name || leadRecord.lead_name.trim() === '') {
           result.errorCount++;
-          result.errors.push('Lead name is required');
+          result.errors.push(`${rowLabel}: Lead name is required`);
           continue;
         }
 
@@ -108,13 +124,16 @@ export class LeadsCSVProcessor {
           console.log('Checking for existing lead with ID:', rowObj.id);
           const { data: existingLead } = await supabase
             .from('leads')
-            .select('id')
+            .select('id, custom_fields')
             .eq('id', rowObj.id.trim())
             .single();
 
           if (existingLead) {
             // Update existing lead
             leadId = existingLead.id;
+            if (hasCustomValues) {
+              leadRecord.custom_fields = mergeCustomFieldValues(existingLead.custom_fields, customValues);
+            }
             const { error: updateError } = await supabase
               .from('leads')
               .update(leadRecord)
@@ -122,7 +141,7 @@ export class LeadsCSVProcessor {
 
             if (updateError) {
               result.errorCount++;
-              result.errors.push(`Update failed: ${updateError.message}`);
+              result.errors.push(`${rowLabel}: Update failed - ${updateError.message}`);
               continue;
             }
             result.updateCount++;
@@ -132,7 +151,8 @@ export class LeadsCSVProcessor {
             const leadToInsert = {
               id: rowObj.id.trim(),
               lead_name: leadRecord.lead_name, // Ensure lead_name is explicitly included
-              ...leadRecord
+              ...leadRecord,
+              ...(hasCustomValues ? { custom_fields: customValues } : {})
             };
 
             const { data: insertedLead, error: insertError } = await supabase
@@ -143,7 +163,7 @@ export class LeadsCSVProcessor {
 
             if (insertError) {
               result.errorCount++;
-              result.errors.push(`Insert failed: ${insertError.message}`);
+              result.errors.push(`${rowLabel}: Insert failed - ${insertError.message}`);
               continue;
             }
             leadId = insertedLead.id;
@@ -154,7 +174,8 @@ export class LeadsCSVProcessor {
           // Insert new lead without ID (let database generate it) - ensure all required fields are present
           const leadToInsert = {
             lead_name: leadRecord.lead_name, // Ensure lead_name is explicitly included
-            ...leadRecord
+            ...leadRecord,
+            ...(hasCustomValues ? { custom_fields: customValues } : {})
           };
 
           const { data: insertedLead, error: insertError } = await supabase
@@ -165,7 +186,7 @@ export class LeadsCSVProcessor {
 
           if (insertError) {
             result.errorCount++;
-            result.errors.push(`Insert failed: ${insertError.message}`);
+            result.errors.push(`${rowLabel}: Insert failed - ${insertError.message}`);
             continue;
           }
           leadId = insertedLead.id;
@@ -175,7 +196,7 @@ export class LeadsCSVProcessor {
 
       } catch (error: any) {
         result.errorCount++;
-        result.errors.push(`Row processing error: ${error.message}`);
+        result.errors.push(`${rowLabel}: Processing error - ${error.message}`);
       }
     }
 
@@ -1,7 +1,11 @@
 
 import { getColumnConfig } from './columnConfig';
 
-export const createRecordValidator = (tableName: string) => {
+/**
+ * stageNames are the configured pipeline stages; without them a deal only needs a stage,
+ * and the database rejects names that are not in the pipeline.
+ */
+export const createRecordValidator = (tableName: string, stageNames?: string[]) => {
   const config = getColumnConfig(tableName);
 
   return (record: any): boolean => {
@@ -10,8 +14,8 @@ export const createRecordValidator = (tableName: string) => {
     if (tableName === 'deals') {
       // Check if we have the basic required fields
       const hasValidDealName = record.deal_name && typeof record.deal_name === 'string' && record.deal_name.trim() !== '';
-      const validStages = ['Lead', 'Discussions', 'Qualified', 'RFQ', 'Offered', 'Won', 'Lost', 'Dropped'];
-      const hasValidStage = record.stage && validStages.includes(record.stage);
+      const hasStage = typeof record.stage === 'string' && record.stage.trim() !== '';
+      const hasValidStage = hasStage && (!stageNames || stageNames.includes(record.stage));
       
       console.log(`Import validation - deal_name: "${record.deal_name}", stage: "${record.stage}"`);
       console.log(`Validation results - hasValidDealName: ${hasValidDealName}, hasValidStage: ${hasValidStage}`);
@@ -22,7 +26,7 @@ export const createRecordValidator = (tableName: string) => {
       }
       
       if (!hasValidStage) {
-        console.error(`Invalid deal: invalid stage "${record.stage}". Valid stages: ${validStages.join(', ')}`);
+        console.error(`Invalid deal: invalid stage "${record.stage}"${stageNames ? `. Valid stages: ${stageNames.join(', ')}` : ''}`);
         return false;
       }
       
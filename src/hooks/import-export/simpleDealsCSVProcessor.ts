@@ -1,4 +1,5 @@
 
+import { ParsedSheet } from '@/utils/csvParser';
 import { DealsCSVProcessor } from './dealsCSVProcessor';
 
 // Exact field order as specified - Added account_id, contact_id; removed action_items_json
@@ -36,4 +37,11 @@ export class SimpleDealsCSVProcessor {
       onProgress: options.onProgress
     });
   }
+
+  async processSheet(sheet: ParsedSheet, options: DealsProcessOptions) {
+    return await this.dealsProcessor.processSheet(sheet, {
+      userId: options.userId,
+      onProgress: options.onProgress
+    });
+  }
 }
@@ -1,7 +1,8 @@
 
 import { getColumnConfig } from './columnConfig';
 
-export const createValueValidator = (tableName: string) => {
+// stageNames are the configured pipeline stages a deal's stage is matched against
+export const createValueValidator = (tableName: string, stageNames?: string[]) => {
   const config = getColumnConfig(tableName);
 
   return (key: string, value: string) => {
@@ -9,6 +10,16 @@ export const createValueValidator = (tableName: string) => {
 
     console.log(`Validating field ${key} with value: ${value}`);
 
+    if (tableName === 'deals' && key === 'stage') {
+      const normalizedValue = value.trim();
+      if (!stageNames) return normalizedValue;
+      const matchedStage = stageNames.find(stage => stage.toLowerCase() === normalizedValue.toLowerCase());
+      if (!matchedStage) {
+        console.warn(`Invalid stage value: ${value}, available values: ${stageNames.join(', ')}`);
+      }
+      return matchedStage ?? null;
+    }
+
     // Handle enum validations with exact matching
     if (key in config.enums) {
       const enumValues = config.enums[key];
@@ -21,11 +32,6 @@ export const createValueValidator = (tableName: string) => {
       if (matchedValue) {
         return matchedValue;
       }
-      // For critical fields like stage, return null if invalid
-      if (key === 'stage') {
-        console.warn(`Invalid stage value: ${value}, available values: ${enumValues.join(', ')}`);
-        return null;
-      }
       // For other enums, return null to avoid setting invalid values
       console.warn(`Invalid enum value for ${key}: ${value}, available values: ${enumValues.join(', ')}`);
       return null;
@@ -1,8 +1,19 @@
 import { useState } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { ToastAction } from '@/components/ui/toast';
 import { format } from 'date-fns';
 import { UserNameUtils } from '@/utils/userNameUtils';
+import { fetchCustomFields } from '@/hooks/useCustomFields';
+import {
+  extractCustomFieldValues,
+  getCustomFieldExportHeaders,
+  getCustomFieldExportValues,
+  mapCustomFieldHeaders,
+  mergeCustomFieldValues,
+} from '@/hooks/import-export/customFieldCSV';
+import { downloadImportErrorReport } from '@/hooks/import-export/importErrorReport';
+import { downloadSpreadsheet, readSpreadsheetFile, SpreadsheetFormat } from '@/utils/spreadsheetFile';
 
 const validStatuses = ['New', 'Working', 'Warm', 'Hot', 'Nurture', 'Closed-Won', 'Closed-Lost'];
 const validTags = [
@@ -16,26 +27,6 @@ export const useAccountsImportExport = (onImportComplete: () => void) => {
   const [isImporting, setIsImporting] = useState(false);
   const { toast } = useToast();
 
-  const parseCSVLine = (line: string): string[] => {
-    const result: string[] = [];
-    let current = '';
-    let inQuotes = false;
-    
-    for (let i = 0; i < line.length; i++) {
-      const char = line[i];
-      if (char === '"') {
-        inQuotes = !inQuotes;
-      } else if (char === ',' && !inQuotes) {
-        result.push(current.trim());
-        current = '';
-      } else {
-        current += char;
-      }
-    }
-    result.push(current.trim());
-    return result;
-  };
-
   const handleImport = async (file: File) => {
     setIsImporting(true);
 
@@ -45,19 +36,17 @@ export const useAccountsImportExport = (onImportComplete: () => void) => {
         throw new Error('User not authenticated');
       }
 
-      const text = await file.text();
-      const lines = text.split('\n').filter(line => line.trim());
+      const sheet = await readSpreadsheetFile(file);
       
-      if (lines.length < 2) {
-        throw new Error('CSV file must have headers and at least one data row');
+      if (sheet.rows.length === 0) {
+        throw new Error(sheet.errors[0] || 'File must have headers and at least one data row');
       }
 
-      const headers = parseCSVLine(lines[0]).map(h => h.toLowerCase().replace(/[^a-z0-9_]/g, '_'));
+      const headers = sheet.headers.map(h => h.toLowerCase().replace(/[^a-z0-9_]/g, '_'));
       
-      // Collect all user names from the CSV to fetch their IDs
+      // Collect all user names from the file to fetch their IDs
       const userNames: string[] = [];
-      for (let i = 1; i < lines.length; i++) {
-        const values = parseCSVLine(lines[i]);
+      for (const values of sheet.rows) {
         headers.forEach((header, idx) => {
           if ((header === 'account_owner' || header === 'created_by' || header === 'modified_by') && values[idx]) {
             userNames.push(values[idx]);
@@ -67,12 +56,16 @@ export const useAccountsImportExport = (onImportComplete: () => void) => {
 
       // Fetch user IDs by names
       const userIdMap = await UserNameUtils.fetchUserIdsByNames(userNames);
+
+      const customHeaderMap = mapCustomFieldHeaders(headers, await fetchCustomFields('account'));
       
       const records: any[] = [];
-      const errors: string[] = [];
+      // Rows the parser couldn't read are reported alongside validation failures
+      const errors: string[] = [...sheet.errors];
 
-      for (let i = 1; i < lines.length; i++) {
-        const values = parseCSVLine(lines[i]);
+      for (let i = 0; i < sheet.rows.length; i++) {
+        const values = sheet.rows[i];
+        const rowNumber = sheet.rowNumbers[i];
         const record: any = {};
         
         headers.forEach((header, idx) => {
@@ -82,7 +75,7 @@ export const useAccountsImportExport = (onImportComplete: () => void) => {
         // Map common header variations
         const companyName = record.company_name || record.name || record.company;
         if (!companyName) {
-          errors.push(`Row ${i + 1}: Missing company_name`);
+          errors.push(`Row ${rowNumber}: Missing company_name`);
           continue;
         }
 
@@ -106,6 +99,7 @@ export const useAccountsImportExport = (onImportComplete: () => void) => {
         const existingId = record.id && uuidRegex.test(record.id) ? record.id : null;
 
         records.push({
+          row_number: rowNumber,
           id: existingId,
           company_name: companyName,
           email: record.email || null,
@@ -122,11 +116,12 @@ export const useAccountsImportExport = (onImportComplete: () => void) => {
           original_created_by: UserNameUtils.resolveUserId(record.created_by, userIdMap, user.id),
           account_owner: UserNameUtils.resolveUserId(record.account_owner, userIdMap, user.id),
           modified_by: user.id,
+          custom_values: extractCustomFieldValues(headers, values, customHeaderMap),
         });
       }
 
       if (records.length === 0) {
-        throw new Error('No valid records found in CSV');
+        throw new Error(errors[0] || 'No valid records found in file');
       }
 
       // Upsert by id or company_name
@@ -135,24 +130,30 @@ export const useAccountsImportExport = (onImportComplete: () => void) => {
       const insertErrors: string[] = [];
 
       for (const record of records) {
-        const { id, original_created_by, ...recordWithoutId } = record;
+        const { id, row_number, original_created_by, custom_values, ...recordWithoutId } = record;
+        const hasCustomValues = Object.keys(custom_values).length > 0;
 
         // If id is provided, try to update by id first
         if (id) {
           const { data: existingById } = await supabase
             .from('accounts')
-            .select('id')
+            .select('id, custom_fields')
             .eq('id', id)
             .maybeSingle();
 
           if (existingById) {
             const { error: updateError } = await supabase
               .from('accounts')
-              .update({ ...recordWithoutId, created_by: original_created_by, updated_at: new Date().toISOString() })
+              .update({
+                ...recordWithoutId,
+                ...(hasCustomValues ? { custom_fields: mergeCustomFieldValues(existingById.custom_fields, custom_values) } : {}),
+                created_by: original_created_by,
+                updated_at: new Date().toISOString(),
+              })
               .eq('id', id);
             
             if (updateError) {
-              insertErrors.push(`Update failed for "${record.company_name}": ${updateError.message}`);
+              insertErrors.push(`Row ${row_number}: Update failed for "${record.company_name}" - ${updateError.message}`);
             } else {
               updateCount++;
             }
@@ -163,18 +164,23 @@ export const useAccountsImportExport = (onImportComplete: () => void) => {
         // Otherwise, check by company_name
         const { data: existing } = await supabase
           .from('accounts')
-          .select('id')
+          .select('id, custom_fields')
           .eq('company_name', record.company_name)
           .maybeSingle();
 
         if (existing) {
           const { error: updateError } = await supabase
             .from('accounts')
-            .update({ ...recordWithoutId, created_by: original_created_by, updated_at: new Date().toISOString() })
+            .update({
+              ...recordWithoutId,
+              ...(hasCustomValues ? { custom_fields: mergeCustomFieldValues(existing.custom_fields, custom_values) } : {}),
+              created_by: original_created_by,
+              updated_at: new Date().toISOString(),
+            })
             .eq('id', existing.id);
           
           if (updateError) {
-            insertErrors.push(`Update failed for "${record.company_name}": ${updateError.message}`);
+            insertErrors.push(`Row ${row_number}: Update failed for "${record.company_name}" - ${updateError.message}`);
           } else {
             updateCount++;
           }
@@ -182,6 +188,7 @@ export const useAccountsImportExport = (onImportComplete: () => void) => {
           // For new inserts, MUST use current user as created_by (RLS requirement)
           const insertData = {
             ...recordWithoutId,
+            ...(hasCustomValues ? { custom_fields: custom_values } : {}),
             created_by: user.id, // RLS requires created_by = auth.uid()
           };
           
@@ -190,7 +197,7 @@ export const useAccountsImportExport = (onImportComplete: () => void) => {
             .insert(insertData);
           
           if (insertError) {
-            insertErrors.push(`Insert failed for "${record.company_name}": ${insertError.message}`);
+            insertErrors.push(`Row ${row_number}: Insert failed for "${record.company_name}" - ${insertError.message}`);
           } else {
             successCount++;
           }
@@ -211,6 +218,11 @@ export const useAccountsImportExport = (onImportComplete: () => void) => {
         title: allErrors.length > 0 ? "Import Completed with Errors" : "Import Successful",
         description: successMessage + errorMessage,
         variant: allErrors.length > 0 ? "destructive" : "default",
+        action: allErrors.length > 0 ? (
+          <ToastAction altText="Download error report" onClick={() => downloadImportErrorReport('accounts', allErrors)}>
+            Error report
+          </ToastAction>
+        ) : undefined,
       });
 
       onImportComplete();
@@ -225,7 +237,7 @@ export const useAccountsImportExport = (onImportComplete: () => void) => {
     }
   };
 
-  const handleExport = async () => {
+  const handleExport = async (exportFormat: SpreadsheetFormat = 'csv') => {
     try {
       const { data, error } = await supabase
         .from('accounts')
@@ -251,6 +263,7 @@ export const useAccountsImportExport = (onImportComplete: () => void) => {
       });
 
       const userNameMap = await UserNameUtils.fetchUserDisplayNames(userIds);
+      const customFields = await fetchCustomFields('account');
 
       // Fetch linked data counts for each account
       const accountIds = data.map(a => a.id);
@@ -285,53 +298,41 @@ export const useAccountsImportExport = (onImportComplete: () => void) => {
         'ID', 'Company Name', 'Email', 'Phone', 'Company Type', 'Industry', 
         'Tags', 'Country', 'Region', 'Status', 'Website', 'Notes',
         'Last Activity Date', 'Linked Contacts', 'Linked Deals', 'Linked Leads', 'Tasks Count',
-        'Account Owner', 'Created By', 'Modified By', 'Created At', 'Updated At'
+        'Account Owner', 'Created By', 'Modified By', 'Created At', 'Updated At',
+        ...getCustomFieldExportHeaders(customFields)
       ];
 
-      const csvLines = [headers.join(',')];
-
-      for (const account of data) {
-        const row = [
-          account.id || '',
-          escapeCSVField(account.company_name || ''),
-          escapeCSVField(account.email || ''),
-          escapeCSVField(account.phone || ''),
-          escapeCSVField(account.company_type || ''),
-          escapeCSVField(account.industry || ''),
-          account.tags ? account.tags.join(';') : '',
-          escapeCSVField(account.country || ''),
-          escapeCSVField(account.region || ''),
-          escapeCSVField(account.status || ''),
-          escapeCSVField(account.website || ''),
-          escapeCSVField(account.notes || ''),
-          account.last_activity_date ? format(new Date(account.last_activity_date), 'yyyy-MM-dd') : '',
-          account.contact_count || 0,
-          account.deal_count || 0,
-          leadsCounts[account.id] || 0,
-          tasksCounts[account.id] || 0,
-          account.account_owner ? (userNameMap[account.account_owner] || '') : '',
-          account.created_by ? (userNameMap[account.created_by] || '') : '',
-          account.modified_by ? (userNameMap[account.modified_by] || '') : '',
-          account.created_at ? format(new Date(account.created_at), 'yyyy-MM-dd HH:mm:ss') : '',
-          account.updated_at ? format(new Date(account.updated_at), 'yyyy-MM-dd HH:mm:ss') : '',
-        ];
-        csvLines.push(row.join(','));
-      }
-
-      const csvContent = csvLines.join('\n');
-      const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-      const url = window.URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.setAttribute('href', url);
-      a.setAttribute('download', `accounts_export_${format(new Date(), 'yyyy-MM-dd')}.csv`);
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      window.URL.revokeObjectURL(url);
+      const rows = data.map(account => [
+        account.id || '',
+        account.company_name || '',
+        account.email || '',
+        account.phone || '',
+        account.company_type || '',
+        account.industry || '',
+        account.tags ? account.tags.join(';') : '',
+        account.country || '',
+        account.region || '',
+        account.status || '',
+        account.website || '',
+        account.notes || '',
+        account.last_activity_date ? format(new Date(account.last_activity_date), 'yyyy-MM-dd') : '',
+        String(account.contact_count || 0),
+        String(account.deal_count || 0),
+        String(leadsCounts[account.id] || 0),
+        String(tasksCounts[account.id] || 0),
+        account.account_owner ? (userNameMap[account.account_owner] || '') : '',
+        account.created_by ? (userNameMap[account.created_by] || '') : '',
+        account.modified_by ? (userNameMap[account.modified_by] || '') : '',
+        account.created_at ? format(new Date(account.created_at), 'yyyy-MM-dd HH:mm:ss') : '',
+        account.updated_at ? format(new Date(account.updated_at), 'yyyy-MM-dd HH:mm:ss') : '',
+        ...getCustomFieldExportValues(account, customFields),
+      ]);
+
+      downloadSpreadsheet(headers, rows, `accounts_export_${format(new Date(), 'yyyy-MM-dd')}`, exportFormat, 'Accounts');
 
       toast({
         title: "Export Successful",
-        description: `Exported ${data.length} accounts to CSV.`,
+        description: `Exported ${data.length} accounts to ${exportFormat === 'xlsx' ? 'Excel' : 'CSV'}.`,
       });
     } catch (error: any) {
       toast({
@@ -348,12 +349,3 @@ export const useAccountsImportExport = (onImportComplete: () => void) => {
     isImporting
   };
 };
-
-// Helper function to escape CSV fields
-function escapeCSVField(field: string): string {
-  if (!field) return '';
-  if (field.includes(',') || field.includes('"') || field.includes('\n')) {
-    return `"${field.replace(/"/g, '""')}"`;
-  }
-  return field;
-}
@@ -0,0 +1,199 @@
+import { useCallback } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { usePermissions } from '@/contexts/PermissionsContext';
+import { toast } from 'sonner';
+import {
+  ApprovalEntityType,
+  ApprovalRequest,
+  ApprovalActionType,
+  ApprovalStep,
+  ApprovalStatus,
+  ApprovalTriggerConditions,
+  APPROVAL_ENTITY_LABELS,
+  canActOnStep,
+  getHeldFields,
+} from '@/types/approval';
+
+const REQUEST_SELECT = `
+  *,
+  workflow:approval_workflows(id, name, approval_steps, trigger_conditions),
+  actions:approval_actions(*)
+`;
+
+type ApprovalRequestRow = Omit<ApprovalRequest, 'workflow' | 'actions'> & {
+  workflow: { id: string; name: string; approval_steps: unknown; trigger_conditions: unknown } | null;
+  actions: ApprovalRequest['actions'] | null;
+};
+
+const mapRequest = (row: ApprovalRequestRow): ApprovalRequest => ({
+  ...row,
+  workflow: row.workflow
+    ? {
+        ...row.workflow,
+        approval_steps: (row.workflow.approval_steps as ApprovalStep[]) || [],
+        trigger_conditions: row.workflow.trigger_conditions as ApprovalTriggerConditions | null,
+      }
+    : null,
+  actions: [...(row.actions || [])].sort((a, b) =>
+    (a.acted_at || '').localeCompare(b.acted_at || '')
+  ),
+});
+
+/**
+ * Approval requests (with step history) for a single record
+ */
+export const useEntityApprovals = (entityType: ApprovalEntityType, entityId?: string | null) => {
+  const { data: requests = [], isLoading: loading, refetch } = useQuery({
+    queryKey: ['approval-requests', entityType, entityId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('approval_requests')
+        .select(REQUEST_SELECT)
+        .eq('entity_type', entityType)
+        .eq('entity_id', entityId!)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return ((data || []) as unknown as ApprovalRequestRow[]).map(mapRequest);
+    },
+    enabled: !!entityId,
+    staleTime: 30 * 1000,
+  });
+
+  return { requests, loading, refetch };
+};
+
+/**
+ * Approval inbox: requests awaiting the current user plus the user's own submissions
+ */
+export const useApprovalInbox = () => {
+  const { user } = useAuth();
+  const { userRole } = usePermissions();
+
+  const { data: requests = [], isLoading: loading, refetch } = useQuery({
+    queryKey: ['approval-inbox', user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('approval_requests')
+        .select(REQUEST_SELECT)
+        .order('submitted_at', { ascending: false })
+        .limit(500);
+
+      if (error) throw error;
+      return ((data || []) as unknown as ApprovalRequestRow[]).map(mapRequest);
+    },
+    enabled: !!user,
+    staleTime: 30 * 1000,
+  });
+
+  const awaitingMe = requests.filter(r => canActOnStep(r, user?.id, userRole));
+  const mine = requests.filter(r => r.submitted_by === user?.id);
+
+  return { requests, awaitingMe, mine, loading, refetch };
+};
+
+export const useApprovalActions = () => {
+  const queryClient = useQueryClient();
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['approval-inbox'] });
+    queryClient.invalidateQueries({ queryKey: ['approval-requests'] });
+    queryClient.invalidateQueries({ queryKey: ['deals'] });
+  };
+
+  const actMutation = useMutation({
+    mutationFn: async ({ requestId, action, comments }: { requestId: string; action: ApprovalActionType; comments?: string }) => {
+      const { data, error } = await supabase.rpc('act_on_approval_request', {
+        p_request_id: requestId,
+        p_action: action,
+        p_comments: comments || null,
+      });
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (data, variables) => {
+      invalidate();
+      if (variables.action === 'rejected') {
+        toast.success('Request rejected');
+      } else if ((data?.status as ApprovalStatus) === 'approved') {
+        toast.success('Request approved and change applied');
+      } else {
+        toast.success('Step approved, sent to the next approver');
+      }
+    },
+    onError: (error: Error) => {
+      console.error('Error acting on approval request:', error);
+      toast.error(error?.message || 'Failed to update approval request');
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (requestId: string) => {
+      const { error } = await supabase.rpc('cancel_approval_request', { p_request_id: requestId });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast.success('Approval request withdrawn');
+    },
+    onError: (error: Error) => {
+      console.error('Error cancelling approval request:', error);
+      toast.error(error?.message || 'Failed to withdraw approval request');
+    },
+  });
+
+  return {
+    actOnRequest: actMutation.mutateAsync,
+    cancelRequest: cancelMutation.mutateAsync,
+    isActing: actMutation.isPending || cancelMutation.isPending,
+  };
+};
+
+/**
+ * Detects saves where the database held back a guarded change and tells the user
+ * that an approval request was raised instead.
+ */
+export const useApprovalGuard = (entityType: ApprovalEntityType) => {
+  const queryClient = useQueryClient();
+
+  const { data: guardedFields = [] } = useQuery({
+    queryKey: ['approval-guards', entityType],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('approval_workflows')
+        .select('trigger_conditions')
+        .eq('entity_type', entityType)
+        .eq('is_enabled', true);
+
+      if (error) throw error;
+      const fields = (data || [])
+        .map(w => {
+          const conditions = w.trigger_conditions as unknown as ApprovalTriggerConditions | null;
+          return conditions?.guarded_field || conditions?.field;
+        })
+        .filter(Boolean) as string[];
+      return Array.from(new Set(fields));
+    },
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const notifyIfHeld = useCallback((
+    sent: Record<string, unknown>,
+    saved: Record<string, unknown> | null | undefined
+  ): boolean => {
+    const held = getHeldFields(sent, saved, guardedFields);
+    if (held.length === 0) return false;
+
+    queryClient.invalidateQueries({ queryKey: ['approval-requests', entityType] });
+    queryClient.invalidateQueries({ queryKey: ['approval-inbox'] });
+    const changes = held.map(field => `${field.replace(/_/g, ' ')} → ${String(sent[field])}`).join(', ');
+    toast.info(`${APPROVAL_ENTITY_LABELS[entityType]} change submitted for approval`, {
+      description: `${changes} will be applied once all approval steps are complete.`,
+    });
+    return true;
+  }, [guardedFields, entityType, queryClient]);
+
+  return { guardedFields, notifyIfHeld };
+};
@@ -0,0 +1,143 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import {
+  ACTIVE_BULK_JOB_STATUSES,
+  BulkEmailJob,
+  BulkEmailJobAction,
+  BulkEmailJobInput,
+  BulkEmailJobRecipient,
+} from '@/types/bulkEmail';
+
+export const BULK_EMAIL_JOBS_QUERY_KEY = ['bulk-email-jobs'];
+const RECIPIENTS_QUERY_KEY = ['bulk-email-job-recipients'];
+const POLL_INTERVAL_MS = 10 * 1000;
+
+const isActive = (job: BulkEmailJob) => ACTIVE_BULK_JOB_STATUSES.includes(job.status);
+
+/**
+ * Recent bulk email jobs, newest first. Polls while any job is still in progress.
+ * RLS limits users to their own jobs; managers and admins see everyone's.
+ */
+export const useBulkEmailJobs = () => {
+  const { data: jobs = [], isLoading: loading } = useQuery({
+    queryKey: BULK_EMAIL_JOBS_QUERY_KEY,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('bulk_email_jobs')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .limit(100);
+
+      if (error) throw error;
+      return data as BulkEmailJob[];
+    },
+    refetchInterval: (query) =>
+      (query.state.data as BulkEmailJob[] | undefined)?.some(isActive) ? POLL_INTERVAL_MS : false,
+  });
+
+  return { jobs, loading };
+};
+
+/**
+ * Per-recipient delivery status of one job
+ */
+export const useBulkEmailJobRecipients = (job?: BulkEmailJob | null) => {
+  const { data: recipients = [], isLoading: loading } = useQuery({
+    queryKey: [...RECIPIENTS_QUERY_KEY, job?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('bulk_email_recipients')
+        .select('id, job_id, lead_id, contact_id, account_id, recipient_email, recipient_name, status, attempts, next_attempt_at, last_error, sent_at')
+        .eq('job_id', job!.id)
+        .order('recipient_email')
+        .limit(1000);
+
+      if (error) throw error;
+      return data as BulkEmailJobRecipient[];
+    },
+    enabled: !!job,
+    refetchInterval: job && isActive(job) ? POLL_INTERVAL_MS : false,
+  });
+
+  return { recipients, loading };
+};
+
+// Kick the worker so jobs without a start time do not wait for the next scheduler tick
+const startJobNow = (jobId: string) =>
+  supabase.functions.invoke('process-bulk-email-jobs', { body: { jobId } }).catch(error => {
+    console.warn('Bulk email job will start on the next scheduled run:', error);
+  });
+
+export const useBulkEmailJobActions = () => {
+  const queryClient = useQueryClient();
+
+  const invalidate = () => {
+    [BULK_EMAIL_JOBS_QUERY_KEY, RECIPIENTS_QUERY_KEY].forEach(queryKey =>
+      queryClient.invalidateQueries({ queryKey })
+    );
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (input: BulkEmailJobInput) => {
+      const { data, error } = await supabase.rpc('create_bulk_email_job', {
+        p_subject: input.subject,
+        p_body: input.body,
+        p_sender_email: input.senderEmail,
+        p_recipients: input.recipients,
+        p_scheduled_at: input.scheduledAt || undefined,
+        p_rate_per_minute: input.ratePerMinute,
+        p_template_id: input.templateId || undefined,
+      });
+      if (error) throw error;
+      const job = data as unknown as BulkEmailJob;
+      if (!input.scheduledAt) startJobNow(job.id);
+      return job;
+    },
+    onSuccess: invalidate,
+    onError: (error: Error) => {
+      console.error('Error creating bulk email job:', error);
+    },
+  });
+
+  const statusMutation = useMutation({
+    mutationFn: async ({ id, action }: { id: string; action: BulkEmailJobAction }) => {
+      const { data, error } = await supabase.rpc('set_bulk_email_job_status', { p_job_id: id, p_action: action });
+      if (error) throw error;
+      const job = data as unknown as BulkEmailJob;
+      if (action === 'resume' && job.status === 'running') startJobNow(job.id);
+      return job;
+    },
+    onSuccess: (_, { action }) => {
+      invalidate();
+      toast.success(action === 'pause' ? 'Job paused' : action === 'resume' ? 'Job resumed' : 'Job cancelled');
+    },
+    onError: (error: Error) => {
+      console.error('Error updating bulk email job:', error);
+      toast.error(error?.message || 'Failed to update job');
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from('bulk_email_jobs').delete().eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast.success('Job deleted');
+    },
+    onError: (error: Error) => {
+      console.error('Error deleting bulk email job:', error);
+      toast.error('Failed to delete job');
+    },
+  });
+
+  return {
+    createJob: createMutation.mutateAsync,
+    setJobStatus: (id: string, action: BulkEmailJobAction) => statusMutation.mutate({ id, action }),
+    deleteJob: deleteMutation.mutate,
+    isCreating: createMutation.isPending,
+    isUpdating: statusMutation.isPending,
+  };
+};
@@ -0,0 +1,97 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Json } from '@/integrations/supabase/types';
+import { ConversionFieldMapping, ConversionType } from '@/types/conversion';
+
+export const CONVERSION_MAPPINGS_QUERY_KEY = ['conversion-field-mappings'];
+
+/**
+ * Field mappings for one conversion, in the order they are applied
+ */
+export const useConversionMappings = (conversionType: ConversionType) => {
+  const { data: mappings = [], isLoading: loading } = useQuery({
+    queryKey: [...CONVERSION_MAPPINGS_QUERY_KEY, conversionType],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('conversion_field_mappings')
+        .select('*')
+        .eq('conversion_type', conversionType)
+        .order('sort_order')
+        .order('created_at');
+
+      if (error) throw error;
+      return data as ConversionFieldMapping[];
+    },
+    staleTime: 5 * 60 * 1000,
+  });
+
+  return { mappings, loading };
+};
+
+export interface LeadConversionRate {
+  owner_id: string | null;
+  total_leads: number;
+  converted_leads: number;
+  conversion_rate: number;
+  won_deals: number;
+  avg_days_to_convert: number | null;
+}
+
+/**
+ * Lead-to-deal conversion per lead owner for leads created since the given date
+ */
+export const useLeadConversionRates = (since: string | null) => {
+  const { data: rates = [], isLoading: loading } = useQuery({
+    queryKey: ['lead-conversion-rates', since],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_lead_conversion_rates', since ? { p_since: since } : {});
+      if (error) throw error;
+      return (data || []) as LeadConversionRate[];
+    },
+    staleTime: 60 * 1000,
+  });
+
+  return { rates, loading };
+};
+
+/**
+ * Conversions run as one database transaction: the new record is created, the source is
+ * flagged and open tasks, scheduled meetings and email history are linked to the new record.
+ * Callers handle success and error messages.
+ */
+export const useConversions = () => {
+  const queryClient = useQueryClient();
+
+  const invalidate = () => {
+    ['leads', 'contacts', 'deals', 'tasks', 'meetings', 'lead-conversion-rates'].forEach(key =>
+      queryClient.invalidateQueries({ queryKey: [key] })
+    );
+  };
+
+  const leadToDealMutation = useMutation({
+    mutationFn: async ({ leadId, values }: { leadId: string; values: Record<string, unknown> }) => {
+      const { data, error } = await supabase.rpc('convert_lead_to_deal', {
+        p_lead_id: leadId,
+        p_values: values as Json,
+      });
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: invalidate,
+  });
+
+  const contactToLeadMutation = useMutation({
+    mutationFn: async (contactId: string) => {
+      const { data, error } = await supabase.rpc('convert_contact_to_lead', { p_contact_id: contactId });
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: invalidate,
+  });
+
+  return {
+    convertLeadToDeal: leadToDealMutation.mutateAsync,
+    convertContactToLead: contactToLeadMutation.mutateAsync,
+    isConverting: leadToDealMutation.isPending || contactToLeadMutation.isPending,
+  };
+};
@@ -0,0 +1,68 @@
+import { useQuery, QueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { CurrencyConverter, ExchangeRate, createCurrencyConverter } from "@/utils/currencyConversion";
+
+export const CURRENCY_CONVERTER_QUERY_KEY = ['currency-converter'];
+const FALLBACK_REPORTING_CURRENCY = 'EUR';
+
+export interface CurrencyContextData {
+  reportingCurrency: string;
+  settingsId: string | null;
+  rates: ExchangeRate[];
+  converter: CurrencyConverter;
+}
+
+export const fetchCurrencyContext = async (): Promise<CurrencyContextData> => {
+  const [{ data: settings, error: settingsError }, { data: rates, error: ratesError }] = await Promise.all([
+    supabase.from('currency_settings').select('id, reporting_currency').maybeSingle(),
+    supabase
+      .from('exchange_rates')
+      .select('id, from_currency, to_currency, rate, effective_date')
+      .order('effective_date', { ascending: false }),
+  ]);
+  if (settingsError) throw settingsError;
+  if (ratesError) throw ratesError;
+
+  const reportingCurrency = settings?.reporting_currency || FALLBACK_REPORTING_CURRENCY;
+  const rateList = (rates || []).map(rate => ({ ...rate, rate: Number(rate.rate) }));
+  return {
+    reportingCurrency,
+    settingsId: settings?.id || null,
+    rates: rateList,
+    converter: createCurrencyConverter(rateList, reportingCurrency),
+  };
+};
+
+// Shared cache entry so revenue queries and the settings screen load the rates once
+export const getCurrencyContext = (queryClient: QueryClient) =>
+  queryClient.fetchQuery({
+    queryKey: CURRENCY_CONVERTER_QUERY_KEY,
+    queryFn: fetchCurrencyContext,
+    staleTime: 5 * 60 * 1000,
+  });
+
+// Every query whose figures are converted into the reporting currency
+export const invalidateCurrencyQueries = (queryClient: QueryClient) =>
+  Promise.all([
+    queryClient.invalidateQueries({ queryKey: CURRENCY_CONVERTER_QUERY_KEY }),
+    queryClient.invalidateQueries({ queryKey: ['yearly-revenue'] }),
+    queryClient.invalidateQueries({ queryKey: ['dashboard-stats'] }),
+    queryClient.invalidateQueries({ queryKey: ['user-deals-enhanced'] }),
+  ]);
+
+export const useCurrencyConverter = () => {
+  const { data, isLoading, error } = useQuery({
+    queryKey: CURRENCY_CONVERTER_QUERY_KEY,
+    queryFn: fetchCurrencyContext,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  return {
+    reportingCurrency: data?.reportingCurrency || FALLBACK_REPORTING_CURRENCY,
+    settingsId: data?.settingsId || null,
+    rates: data?.rates || [],
+    converter: data?.converter || null,
+    isLoading,
+    error,
+  };
+};
@@ -0,0 +1,116 @@
+import { useCallback, useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  CustomField,
+  CustomFieldEntityType,
+  CustomFieldType,
+  formatCustomFieldValue,
+  getCustomFieldColumnKey,
+  getCustomFieldColumns,
+  getCustomFieldValue,
+} from "@/types/customField";
+
+export const CUSTOM_FIELDS_QUERY_KEY = ['custom-fields'];
+
+const toCustomField = (row: {
+  id: string;
+  entity_type: string;
+  field_name: string;
+  field_label: string;
+  field_type: string;
+  field_options: unknown;
+  is_required: boolean | null;
+  is_visible: boolean | null;
+  display_order: number | null;
+}): CustomField => ({
+  id: row.id,
+  entity_type: row.entity_type as CustomFieldEntityType,
+  field_name: row.field_name,
+  field_label: row.field_label,
+  field_type: (row.field_type || 'text') as CustomFieldType,
+  field_options: Array.isArray(row.field_options) ? row.field_options.map(String) : [],
+  is_required: row.is_required ?? false,
+  is_visible: row.is_visible ?? true,
+  display_order: row.display_order ?? 0,
+});
+
+// Plain fetch for non-React callers such as the CSV processors
+export const fetchCustomFields = async (entityType?: CustomFieldEntityType): Promise<CustomField[]> => {
+  let query = supabase
+    .from('crm_custom_fields')
+    .select('*')
+    .order('display_order', { ascending: true });
+
+  if (entityType) {
+    query = query.eq('entity_type', entityType);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    console.error('Error fetching custom fields:', error);
+    return [];
+  }
+  return (data || []).map(toCustomField);
+};
+
+// Custom field definitions for one entity. `fields` only includes visible ones.
+export const useCustomFields = (entityType: CustomFieldEntityType) => {
+  const { data: allFields = [], isLoading } = useQuery({
+    queryKey: [...CUSTOM_FIELDS_QUERY_KEY, entityType],
+    queryFn: () => fetchCustomFields(entityType),
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const fields = useMemo(() => allFields.filter(f => f.is_visible), [allFields]);
+
+  return {
+    fields,
+    allFields,
+    loading: isLoading,
+  };
+};
+
+interface ColumnLike {
+  field: string;
+  label: string;
+  visible: boolean;
+  order: number;
+}
+
+/**
+ * Table columns for a module with its custom fields appended (hidden by default),
+ * plus a formatter for custom field cells.
+ */
+export const useCustomFieldColumns = <T extends ColumnLike>(entityType: CustomFieldEntityType, defaultColumns: T[]) => {
+  const { fields, loading } = useCustomFields(entityType);
+
+  const columns = useMemo(
+    () => [...defaultColumns, ...(getCustomFieldColumns(fields, defaultColumns.length) as T[])],
+    [defaultColumns, fields]
+  );
+
+  const fieldsByColumn = useMemo(() => {
+    const map: Record<string, CustomField> = {};
+    fields.forEach(field => {
+      map[getCustomFieldColumnKey(field.field_name)] = field;
+    });
+    return map;
+  }, [fields]);
+
+  const getCustomFieldCellValue = useCallback(
+    (record: { custom_fields?: unknown }, columnKey: string): string => {
+      const field = fieldsByColumn[columnKey];
+      if (!field) return '';
+      return formatCustomFieldValue(field, getCustomFieldValue(record, field.field_name));
+    },
+    [fieldsByColumn]
+  );
+
+  return {
+    customFields: fields,
+    columns,
+    loading,
+    getCustomFieldCellValue,
+  };
+};
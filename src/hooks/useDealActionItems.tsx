@@ -0,0 +1,103 @@
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { DealActionItem, DealActionItemStatus } from "@/types/deal";
+
+// Prefix shared by every deal action item query, including the dashboard widget
+export const DEAL_ACTION_ITEMS_QUERY_KEY = ['deal-action-items'];
+
+export interface DealActionItemInput {
+  next_action: string;
+  assigned_to: string | null;
+  due_date: string | null;
+  status: DealActionItemStatus;
+}
+
+// Open items first, then by due date (undated last), closed items at the bottom
+const sortActionItems = (items: DealActionItem[]): DealActionItem[] =>
+  [...items].sort((a, b) => {
+    const aClosed = a.status === 'Closed' ? 1 : 0;
+    const bClosed = b.status === 'Closed' ? 1 : 0;
+    if (aClosed !== bClosed) return aClosed - bClosed;
+    if (a.due_date !== b.due_date) {
+      if (!a.due_date) return 1;
+      if (!b.due_date) return -1;
+      return a.due_date.localeCompare(b.due_date);
+    }
+    return a.created_at.localeCompare(b.created_at);
+  });
+
+export const useDealActionItems = (dealId: string | null | undefined) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: actionItems = [], isLoading } = useQuery({
+    queryKey: [...DEAL_ACTION_ITEMS_QUERY_KEY, dealId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('deal_action_items')
+        .select('*')
+        .eq('deal_id', dealId!);
+      if (error) throw error;
+      return sortActionItems((data || []) as DealActionItem[]);
+    },
+    enabled: !!dealId,
+  });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: DEAL_ACTION_ITEMS_QUERY_KEY });
+
+  const createActionItem = async (input: DealActionItemInput): Promise<boolean> => {
+    if (!dealId || !user) return false;
+    const { error } = await supabase
+      .from('deal_action_items')
+      .insert({ ...input, deal_id: dealId, created_by: user.id });
+
+    if (error) {
+      console.error('Error creating deal action item:', error);
+      toast({ title: "Error", description: "Failed to add action item", variant: "destructive" });
+      return false;
+    }
+    invalidate();
+    return true;
+  };
+
+  const updateActionItem = async (id: string, updates: Partial<DealActionItemInput>): Promise<boolean> => {
+    const { error } = await supabase
+      .from('deal_action_items')
+      .update(updates)
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error updating deal action item:', error);
+      toast({ title: "Error", description: "Failed to update action item", variant: "destructive" });
+      return false;
+    }
+    invalidate();
+    return true;
+  };
+
+  const deleteActionItem = async (id: string): Promise<boolean> => {
+    const { error } = await supabase
+      .from('deal_action_items')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      console.error('Error deleting deal action item:', error);
+      toast({ title: "Error", description: "Failed to delete action item", variant: "destructive" });
+      return false;
+    }
+    invalidate();
+    return true;
+  };
+
+  return {
+    actionItems,
+    isLoading,
+    createActionItem,
+    updateActionItem,
+    deleteActionItem,
+  };
+};
@@ -0,0 +1,147 @@
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { fetchAllRows } from '@/utils/serverTableQuery';
+import { useCurrencyConverter } from '@/hooks/useCurrencyConverter';
+import { usePipelineStages } from '@/hooks/usePipelineStages';
+import { getDealConversionDate, getDealCurrency } from '@/utils/currencyConversion';
+import {
+  buildDealCohorts,
+  buildReasonBreakdown,
+  buildStageFunnel,
+  buildStageVelocity,
+  buildStageVisits,
+  findStuckDeals,
+  getAnalyticsPeriodStart,
+} from '@/utils/dealAnalytics';
+import { AnalyticsDeal, DealAnalyticsFilters, StageHistoryEntry } from '@/types/dealAnalytics';
+
+export const DEAL_ANALYTICS_DEALS_QUERY_KEY = ['deal-analytics-deals'];
+export const DEAL_ANALYTICS_HISTORY_QUERY_KEY = ['deal-analytics-history'];
+
+// Stable fallbacks so memoised results don't rerun while a query has no data
+const NO_DEALS: AnalyticsSourceDeal[] = [];
+const NO_HISTORY: StageHistoryEntry[] = [];
+
+interface AnalyticsSourceDeal {
+  id: string;
+  deal_name: string;
+  project_name: string | null;
+  created_by: string | null;
+  region: string | null;
+  stage: string;
+  total_contract_value: number | null;
+  total_revenue: number | null;
+  currency_type: string | null;
+  expected_closing_date: string | null;
+  signed_contract_date: string | null;
+  created_at: string | null;
+  won_reason: string | null;
+  lost_reason: string | null;
+  drop_reason: string | null;
+}
+
+const fetchAnalyticsDeals = (): Promise<AnalyticsSourceDeal[]> =>
+  fetchAllRows((from, to) =>
+    supabase
+      .from('deals')
+      .select('id, deal_name, project_name, created_by, region, stage, total_contract_value, total_revenue, currency_type, expected_closing_date, signed_contract_date, created_at, won_reason, lost_reason, drop_reason')
+      .order('created_at')
+      .order('id')
+      .range(from, to)
+  );
+
+const fetchStageHistory = (): Promise<StageHistoryEntry[]> =>
+  fetchAllRows((from, to) =>
+    supabase
+      .from('deal_stage_history')
+      .select('deal_id, from_stage, to_stage, changed_at')
+      .order('changed_at')
+      .order('id')
+      .range(from, to)
+  );
+
+/**
+ * Funnel, time in stage, stuck deals, cohorts and win/loss reasons for the deals matching the
+ * filters, all in the reporting currency. The period limits deals by their creation date.
+ */
+export const useDealAnalytics = (filters: DealAnalyticsFilters) => {
+  const { converter, reportingCurrency, isLoading: ratesLoading } = useCurrencyConverter();
+  const { stages, isWonStage, loading: stagesLoading } = usePipelineStages();
+
+  const { data: sourceDeals = NO_DEALS, isLoading: dealsLoading } = useQuery({
+    queryKey: DEAL_ANALYTICS_DEALS_QUERY_KEY,
+    queryFn: fetchAnalyticsDeals,
+    staleTime: 60 * 1000,
+  });
+
+  const { data: history = NO_HISTORY, isLoading: historyLoading } = useQuery({
+    queryKey: DEAL_ANALYTICS_HISTORY_QUERY_KEY,
+    queryFn: fetchStageHistory,
+    staleTime: 60 * 1000,
+  });
+
+  // Won deals are valued at their revenue, everything else at the contract value
+  const deals = useMemo<AnalyticsDeal[]>(() => sourceDeals.map(deal => {
+    const currency = getDealCurrency(deal);
+    const original = isWonStage(deal.stage)
+      ? Number(deal.total_revenue ?? deal.total_contract_value) || 0
+      : Number(deal.total_contract_value) || 0;
+    return {
+      id: deal.id,
+      name: deal.project_name || deal.deal_name,
+      ownerId: deal.created_by,
+      region: deal.region,
+      currency,
+      stage: deal.stage,
+      createdAt: deal.created_at || new Date(0).toISOString(),
+      amount: converter?.convert(original, currency, getDealConversionDate(deal, isWonStage)) ?? 0,
+      wonReason: deal.won_reason,
+      lostReason: deal.lost_reason,
+      dropReason: deal.drop_reason,
+    };
+  }), [sourceDeals, converter, isWonStage]);
+
+  // Filter choices come from the deals themselves
+  const options = useMemo(() => {
+    const distinct = (values: (string | null)[]) => Array.from(new Set(values.filter(Boolean) as string[])).sort();
+    return {
+      ownerIds: distinct(deals.map(deal => deal.ownerId)),
+      regions: distinct(deals.map(deal => deal.region)),
+      currencies: distinct(deals.map(deal => deal.currency)),
+    };
+  }, [deals]);
+
+  const result = useMemo(() => {
+    const matching = deals.filter(deal =>
+      (filters.ownerId === 'all' || deal.ownerId === filters.ownerId) &&
+      (filters.region === 'all' || deal.region === filters.region) &&
+      (filters.currency === 'all' || deal.currency === filters.currency)
+    );
+    const periodStart = getAnalyticsPeriodStart(filters.period);
+    const inPeriod = periodStart ? matching.filter(deal => deal.createdAt.slice(0, 10) >= periodStart) : matching;
+
+    const dealIds = new Set(inPeriod.map(deal => deal.id));
+    const visits = buildStageVisits(inPeriod, history.filter(entry => dealIds.has(entry.deal_id)));
+
+    return {
+      dealCount: inPeriod.length,
+      funnel: buildStageFunnel(inPeriod, visits, stages),
+      velocity: buildStageVelocity(inPeriod, visits, stages),
+      stuckDeals: findStuckDeals(inPeriod, visits, stages),
+      cohorts: buildDealCohorts(inPeriod, visits, stages),
+      reasons: {
+        won: buildReasonBreakdown(inPeriod, stages, 'won'),
+        lost: buildReasonBreakdown(inPeriod, stages, 'lost'),
+        dropped: buildReasonBreakdown(inPeriod, stages, 'dropped'),
+      },
+    };
+  }, [deals, history, filters, stages]);
+
+  return {
+    ...result,
+    options,
+    reportingCurrency,
+    loading: dealsLoading || historyLoading || ratesLoading || stagesLoading,
+  };
+};
@@ -4,6 +4,9 @@ import { getExportFilename } from '@/utils/exportUtils';
 import { SimpleDealsCSVProcessor } from './import-export/simpleDealsCSVProcessor';
 import { DealsCSVExporter } from './import-export/dealsCSVExporter';
 import { toast } from '@/hooks/use-toast';
+import { ToastAction } from '@/components/ui/toast';
+import { isSpreadsheetFile, readSpreadsheetFile, SpreadsheetFormat } from '@/utils/spreadsheetFile';
+import { downloadImportErrorReport } from './import-export/importErrorReport';
 import { useSecurityAudit } from '@/hooks/useSecurityAudit';
 import { supabase } from '@/integrations/supabase/client';
 
@@ -41,8 +44,8 @@ export const useDealsImportExport = ({ onRefresh }: DealsImportExportOptions) =>
     }
 
     // Validate file type
-    if (!file.name.toLowerCase().endsWith('.csv')) {
-      const errorMsg = 'Please select a CSV file';
+    if (!isSpreadsheetFile(file)) {
+      const errorMsg = 'Please select a CSV or Excel (.xlsx) file';
       console.error('useDealsImportExport: Invalid file type:', file.type);
       toast({
         title: "Invalid File Type",
@@ -70,25 +73,22 @@ export const useDealsImportExport = ({ onRefresh }: DealsImportExportOptions) =>
         description: `Processing ${file.name} with YYYY-MM-DD date format validation...`,
       });
 
-      const text = await file.text();
-      console.log('useDealsImportExport: File content loaded, length:', text.length);
+      const sheet = await readSpreadsheetFile(file);
       
-      if (!text || text.trim().length === 0) {
-        throw new Error('CSV file is empty or could not be read');
+      if (sheet.headers.length === 0) {
+        throw new Error('File is empty or could not be read');
       }
 
-      // Basic CSV validation
-      const lines = text.split('\n').filter(line => line.trim());
-      if (lines.length < 2) {
-        throw new Error('CSV file must contain at least a header row and one data row');
+      if (sheet.rows.length === 0) {
+        throw new Error(sheet.errors[0] || 'File must contain at least a header row and one data row');
       }
 
-      console.log('useDealsImportExport: CSV has', lines.length, 'lines (including header)');
+      console.log('useDealsImportExport: File has', sheet.rows.length, 'data rows');
 
       const processor = new SimpleDealsCSVProcessor();
       console.log('useDealsImportExport: Starting processing with YYYY-MM-DD date format validation');
       
-      const result = await processor.processCSV(text, {
+      const result = await processor.processSheet(sheet, {
         userId: user.id,
         onProgress: (processed, total) => {
           console.log(`useDealsImportExport: Progress ${processed}/${total}`);
@@ -105,6 +105,12 @@ export const useDealsImportExport = ({ onRefresh }: DealsImportExportOptions) =>
       if (updateCount > 0) message += message ? `, ${updateCount} updated` : `${updateCount} deals updated`;
       if (errorCount > 0) message += message ? `, ${errorCount} errors` : `${errorCount} errors occurred`;
 
+      const errorReportAction = errors.length > 0 ? (
+        <ToastAction altText="Download error report" onClick={() => downloadImportErrorReport('deals', errors)}>
+          Error report
+        </ToastAction>
+      ) : undefined;
+
       if (successCount > 0 || updateCount > 0) {
         // Log successful import
         await logSecurityEvent('DATA_IMPORT_SUCCESS', 'deals', undefined, {
@@ -120,6 +126,7 @@ export const useDealsImportExport = ({ onRefresh }: DealsImportExportOptions) =>
         toast({
           title: "Import Successful",
           description: message || "Import completed successfully with standardized date formats",
+          action: errorReportAction,
         });
         
         console.log('useDealsImportExport: Import successful - triggering real-time refresh...');
@@ -152,6 +159,7 @@ export const useDealsImportExport = ({ onRefresh }: DealsImportExportOptions) =>
           title: "Import Failed",
           description: errorDescription,
           variant: "destructive",
+          action: errorReportAction,
         });
       } else {
         toast({
@@ -182,13 +190,13 @@ export const useDealsImportExport = ({ onRefresh }: DealsImportExportOptions) =>
     }
   };
 
-  const handleExportAll = async (data: any[]) => {
+  const handleExportAll = async (data: any[], format: SpreadsheetFormat = 'csv') => {
     console.log(`useDealsImportExport: Exporting all deals with YYYY-MM-DD date format:`, data?.length || 0, 'records');
-    const filename = getExportFilename('deals', 'all');
+    const filename = getExportFilename('deals', 'all', format);
     
     // Log export attempt
     await logSecurityEvent('DATA_EXPORT', 'deals', undefined, {
-      export_type: 'CSV',
+      export_type: format.toUpperCase(),
       export_scope: 'all',
       record_count: data?.length || 0,
       file_name: filename,
@@ -197,17 +205,17 @@ export const useDealsImportExport = ({ onRefresh }: DealsImportExportOptions) =>
     });
     
     const exporter = new DealsCSVExporter();
-    await exporter.exportToCSV(data, filename);
+    await exporter.exportToCSV(data, filename, format);
   };
 
-  const handleExportSelected = async (data: any[], selectedIds: string[]) => {
+  const handleExportSelected = async (data: any[], selectedIds: string[], format: SpreadsheetFormat = 'csv') => {
     const selectedData = data.filter(item => selectedIds.includes(item.id));
-    const filename = getExportFilename('deals', 'selected');
+    const filename = getExportFilename('deals', 'selected', format);
     console.log(`useDealsImportExport: Exporting selected deals with YYYY-MM-DD date format:`, selectedData.length, 'records');
     
     // Log export attempt
     await logSecurityEvent('DATA_EXPORT', 'deals', undefined, {
-      export_type: 'CSV',
+      export_type: format.toUpperCase(),
       export_scope: 'selected',
       record_count: selectedData.length,
       selected_ids: selectedIds.slice(0, 10), // Log first 10 IDs
@@ -217,16 +225,16 @@ export const useDealsImportExport = ({ onRefresh }: DealsImportExportOptions) =>
     });
     
     const exporter = new DealsCSVExporter();
-    await exporter.exportToCSV(selectedData, filename);
+    await exporter.exportToCSV(selectedData, filename, format);
   };
 
-  const handleExportFiltered = async (filteredData: any[]) => {
-    const filename = getExportFilename('deals', 'filtered');
+  const handleExportFiltered = async (filteredData: any[], format: SpreadsheetFormat = 'csv') => {
+    const filename = getExportFilename('deals', 'filtered', format);
     console.log(`useDealsImportExport: Exporting filtered deals with YYYY-MM-DD date format:`, filteredData.length, 'records');
     
     // Log export attempt
     await logSecurityEvent('DATA_EXPORT', 'deals', undefined, {
-      export_type: 'CSV',
+      export_type: format.toUpperCase(),
       export_scope: 'filtered',
       record_count: filteredData.length,
       file_name: filename,
@@ -235,7 +243,7 @@ export const useDealsImportExport = ({ onRefresh }: DealsImportExportOptions) =>
     });
     
     const exporter = new DealsCSVExporter();
-    await exporter.exportToCSV(filteredData, filename);
+    await exporter.exportToCSV(filteredData, filename, format);
   };
 
   return {
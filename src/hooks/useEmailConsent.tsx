@@ -0,0 +1,163 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { toast } from 'sonner';
+import {
+  ConsentStatus,
+  ConsentTopic,
+  EmailConsentEvent,
+  EmailSuppression,
+  SuppressionImportResult,
+} from '@/types/emailConsent';
+
+const SUPPRESSIONS_QUERY_KEY = ['email-suppressions'];
+const CONSENT_HISTORY_QUERY_KEY = ['email-consent-history'];
+const SUPPRESSED_EMAILS_QUERY_KEY = ['suppressed-emails'];
+// Keeps the .in() filter well under URL length limits
+const LOOKUP_CHUNK_SIZE = 200;
+
+/**
+ * The current suppression list, newest first
+ */
+export const useEmailSuppressions = () => {
+  const { data: suppressions = [], isLoading: loading } = useQuery({
+    queryKey: SUPPRESSIONS_QUERY_KEY,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('email_suppressions')
+        .select('id, email, channel, topic, source, reason, created_at')
+        .eq('channel', 'email')
+        .order('created_at', { ascending: false })
+        .limit(10000);
+
+      if (error) throw error;
+      return data as EmailSuppression[];
+    },
+  });
+
+  return { suppressions, loading };
+};
+
+/**
+ * Lower-cased addresses among `emails` that must not receive email on `topic`:
+ * opted out of all email, or of that topic
+ */
+export const useSuppressedEmails = (emails: string[], topic: ConsentTopic = 'all', enabled = true) => {
+  const normalized = [...new Set(emails.map(email => email.trim().toLowerCase()).filter(Boolean))].sort();
+
+  const { data: suppressed = new Set<string>(), isLoading: loading } = useQuery({
+    queryKey: [...SUPPRESSED_EMAILS_QUERY_KEY, topic, normalized],
+    queryFn: async () => {
+      const topics = topic === 'all' ? ['all'] : ['all', topic];
+      const found = new Set<string>();
+      for (let i = 0; i < normalized.length; i += LOOKUP_CHUNK_SIZE) {
+        const { data, error } = await supabase
+          .from('email_suppressions')
+          .select('email')
+          .eq('channel', 'email')
+          .in('topic', topics)
+          .in('email', normalized.slice(i, i + LOOKUP_CHUNK_SIZE));
+        if (error) throw error;
+        (data || []).forEach(row => found.add(row.email));
+      }
+      return found;
+    },
+    enabled: enabled && normalized.length > 0,
+    staleTime: 30 * 1000,
+  });
+
+  return { suppressed, loading };
+};
+
+/**
+ * Consent changes for a contact or lead, matched on the record or its email address
+ */
+export const useConsentHistory = (target: { contactId?: string | null; leadId?: string | null; email?: string | null }) => {
+  const filters = [
+    target.contactId && `contact_id.eq.${target.contactId}`,
+    target.leadId && `lead_id.eq.${target.leadId}`,
+    target.email && `email.eq.${target.email.trim().toLowerCase()}`,
+  ].filter(Boolean);
+
+  const { data: events = [], isLoading: loading } = useQuery({
+    queryKey: [...CONSENT_HISTORY_QUERY_KEY, target.contactId, target.leadId, target.email],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('email_consent_events')
+        .select('*')
+        .or(filters.join(','))
+        .order('created_at', { ascending: false })
+        .limit(200);
+
+      if (error) throw error;
+      return data as EmailConsentEvent[];
+    },
+    enabled: filters.length > 0,
+  });
+
+  return { events, loading };
+};
+
+interface ConsentChange {
+  email: string;
+  topic: ConsentTopic;
+  status: ConsentStatus;
+  contactId?: string | null;
+  leadId?: string | null;
+  reason?: string | null;
+}
+
+export const useEmailConsentActions = () => {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  const invalidate = () => {
+    [SUPPRESSIONS_QUERY_KEY, CONSENT_HISTORY_QUERY_KEY, SUPPRESSED_EMAILS_QUERY_KEY].forEach(queryKey =>
+      queryClient.invalidateQueries({ queryKey })
+    );
+  };
+
+  // Recorded as a manual change by the signed-in user; the suppression list follows via trigger
+  const changeMutation = useMutation({
+    mutationFn: async (change: ConsentChange) => {
+      const { error } = await supabase.from('email_consent_events').insert({
+        email: change.email,
+        topic: change.topic,
+        status: change.status,
+        source: 'manual',
+        contact_id: change.contactId || null,
+        lead_id: change.leadId || null,
+        reason: change.reason?.trim() || null,
+        created_by: user?.id,
+      });
+      if (error) throw error;
+    },
+    onSuccess: (_, { status }) => {
+      invalidate();
+      toast.success(status === 'unsubscribed' ? 'Email address unsubscribed' : 'Email address subscribed again');
+    },
+    onError: (error: Error) => {
+      console.error('Error recording consent change:', error);
+      toast.error(error?.message || 'Failed to update consent');
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async (rows: { email: string; topic?: string; reason?: string }[]) => {
+      const { data, error } = await supabase.rpc('import_email_suppressions', { p_rows: rows });
+      if (error) throw error;
+      return data as unknown as SuppressionImportResult;
+    },
+    onSuccess: invalidate,
+    onError: (error: Error) => {
+      console.error('Error importing suppression list:', error);
+    },
+  });
+
+  return {
+    changeConsent: changeMutation.mutate,
+    importSuppressions: importMutation.mutateAsync,
+    isChanging: changeMutation.isPending,
+    isImporting: importMutation.isPending,
+  };
+};
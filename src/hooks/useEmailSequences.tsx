@@ -0,0 +1,240 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import {
+  EmailSequence,
+  EmailSequenceEnrollment,
+  EmailSequenceStep,
+  EnrollmentResult,
+  SequenceStepStats,
+} from '@/types/emailSequence';
+
+export const EMAIL_SEQUENCES_QUERY_KEY = ['email-sequences'];
+const ENROLLMENTS_QUERY_KEY = ['email-sequence-enrollments'];
+
+export type SequenceInput = Omit<EmailSequence, 'id' | 'created_by' | 'created_at' | 'steps'> & {
+  steps: (Omit<EmailSequenceStep, 'id' | 'sequence_id' | 'step_order'> & { id?: string })[];
+};
+
+/**
+ * All sequences with their steps in send order
+ */
+export const useEmailSequences = () => {
+  const { data: sequences = [], isLoading: loading } = useQuery({
+    queryKey: EMAIL_SEQUENCES_QUERY_KEY,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('email_sequences')
+        .select('*, steps:email_sequence_steps(*)')
+        .order('name');
+
+      if (error) throw error;
+      return (data || []).map(sequence => ({
+        ...sequence,
+        steps: [...(sequence.steps || [])].sort((a, b) => a.step_order - b.step_order),
+      })) as EmailSequence[];
+    },
+    staleTime: 60 * 1000,
+  });
+
+  return { sequences, loading };
+};
+
+/**
+ * Enrollments of one sequence, newest first. RLS limits users to their own enrollments;
+ * managers and admins see everyone's.
+ */
+export const useSequenceEnrollments = (sequenceId?: string | null) => {
+  const { data: enrollments = [], isLoading: loading } = useQuery({
+    queryKey: [...ENROLLMENTS_QUERY_KEY, sequenceId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('email_sequence_enrollments')
+        .select('*')
+        .eq('sequence_id', sequenceId!)
+        .order('enrolled_at', { ascending: false })
+        .limit(500);
+
+      if (error) throw error;
+      return data as EmailSequenceEnrollment[];
+    },
+    enabled: !!sequenceId,
+    staleTime: 30 * 1000,
+  });
+
+  return { enrollments, loading };
+};
+
+/**
+ * Sent, opened, clicked, replied and bounced counts per step of a sequence
+ */
+export const useSequenceStepStats = (sequenceId?: string | null) => {
+  const { data: stats = [], isLoading: loading } = useQuery({
+    queryKey: ['email-sequence-stats', sequenceId],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_sequence_step_stats', { p_sequence_id: sequenceId! });
+      if (error) throw error;
+      return (data || []) as SequenceStepStats[];
+    },
+    enabled: !!sequenceId,
+    staleTime: 60 * 1000,
+  });
+
+  return { stats, loading };
+};
+
+export const useEmailSequenceActions = () => {
+  const queryClient = useQueryClient();
+
+  const invalidate = () => {
+    [EMAIL_SEQUENCES_QUERY_KEY, ENROLLMENTS_QUERY_KEY, ['email-sequence-stats']].forEach(queryKey =>
+      queryClient.invalidateQueries({ queryKey })
+    );
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ id, input }: { id?: string; input: SequenceInput }) => {
+      const { steps, ...fields } = input;
+      let sequenceId = id;
+
+      if (sequenceId) {
+        const { error } = await supabase.from('email_sequences').update(fields).eq('id', sequenceId);
+        if (error) throw error;
+      } else {
+        const { data, error } = await supabase.from('email_sequences').insert(fields).select('id').single();
+        if (error) throw error;
+        sequenceId = data.id;
+      }
+
+      // Existing steps keep their ids so their analytics survive reordering
+      const keptIds = steps.map(step => step.id).filter(Boolean) as string[];
+      let removeQuery = supabase.from('email_sequence_steps').delete().eq('sequence_id', sequenceId);
+      if (keptIds.length > 0) removeQuery = removeQuery.not('id', 'in', `(${keptIds.join(',')})`);
+      const { error: removeError } = await removeQuery;
+      if (removeError) throw removeError;
+
+      if (steps.length > 0) {
+        const { error: stepsError } = await supabase.from('email_sequence_steps').upsert(
+          steps.map((step, index) => ({
+            ...(step.id && { id: step.id }),
+            sequence_id: sequenceId!,
+            step_order: index + 1,
+            day_offset: step.day_offset,
+            template_id: step.template_id,
+            reply_to_previous: step.reply_to_previous,
+          })),
+          // New steps have no id; let the column default fill it
+          { defaultToNull: false }
+        );
+        if (stepsError) throw stepsError;
+      }
+      return sequenceId;
+    },
+    onSuccess: (_, { id }) => {
+      invalidate();
+      toast.success(id ? 'Sequence updated' : 'Sequence created');
+    },
+    onError: (error: Error) => {
+      console.error('Error saving sequence:', error);
+      toast.error(error?.message || 'Failed to save sequence');
+    },
+  });
+
+  const toggleActiveMutation = useMutation({
+    mutationFn: async ({ id, isActive }: { id: string; isActive: boolean }) => {
+      const { error } = await supabase.from('email_sequences').update({ is_active: isActive }).eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+    onError: (error: Error) => {
+      console.error('Error updating sequence:', error);
+      toast.error('Failed to update sequence');
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from('email_sequences').delete().eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast.success('Sequence deleted');
+    },
+    onError: (error: Error) => {
+      console.error('Error deleting sequence:', error);
+      toast.error('Failed to delete sequence');
+    },
+  });
+
+  const enrollMutation = useMutation({
+    mutationFn: async ({ sequenceId, leadIds = [], contactIds = [], timezone }: {
+      sequenceId: string;
+      leadIds?: string[];
+      contactIds?: string[];
+      timezone?: string;
+    }) => {
+      const { data, error } = await supabase.rpc('enroll_in_sequence', {
+        p_sequence_id: sequenceId,
+        p_lead_ids: leadIds,
+        p_contact_ids: contactIds,
+        p_timezone: timezone,
+      });
+      if (error) throw error;
+      return data as unknown as EnrollmentResult;
+    },
+    onSuccess: (result) => {
+      invalidate();
+      const skipped = [
+        result.skipped_already_enrolled > 0 && `${result.skipped_already_enrolled} already enrolled`,
+        result.skipped_no_email > 0 && `${result.skipped_no_email} without email`,
+      ].filter(Boolean);
+      toast.success(
+        `Enrolled ${result.enrolled} recipient(s)${skipped.length ? `, skipped ${skipped.join(' and ')}` : ''}`
+      );
+    },
+    onError: (error: Error) => {
+      console.error('Error enrolling in sequence:', error);
+      toast.error(error?.message || 'Failed to enroll');
+    },
+  });
+
+  const updateEnrollmentMutation = useMutation({
+    mutationFn: async ({ id, updates }: {
+      id: string;
+      updates: Partial<Pick<EmailSequenceEnrollment, 'timezone'>> | { stop: true };
+    }) => {
+      const fields = 'stop' in updates
+        ? {
+            status: 'stopped',
+            next_send_at: null,
+            stopped_at: new Date().toISOString(),
+            stop_reason: 'Stopped manually',
+          }
+        : updates;
+      const { error } = await supabase
+        .from('email_sequence_enrollments')
+        .update(fields)
+        .eq('id', id)
+        .eq('status', 'active');
+      if (error) throw error;
+    },
+    onSuccess: invalidate,
+    onError: (error: Error) => {
+      console.error('Error updating enrollment:', error);
+      toast.error('Failed to update enrollment');
+    },
+  });
+
+  return {
+    saveSequence: saveMutation.mutateAsync,
+    toggleSequenceActive: toggleActiveMutation.mutate,
+    deleteSequence: deleteMutation.mutate,
+    enroll: enrollMutation.mutateAsync,
+    stopEnrollment: (id: string) => updateEnrollmentMutation.mutate({ id, updates: { stop: true } }),
+    setEnrollmentTimezone: (id: string, timezone: string) =>
+      updateEnrollmentMutation.mutate({ id, updates: { timezone } }),
+    isSaving: saveMutation.isPending,
+    isEnrolling: enrollMutation.isPending,
+  };
+};
@@ -0,0 +1,306 @@
+import { useMemo } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { fetchAllRows } from '@/utils/serverTableQuery';
+import { useCurrencyConverter } from '@/hooks/useCurrencyConverter';
+import { usePipelineStages } from '@/hooks/usePipelineStages';
+import { getDealConversionDate, getDealCurrency } from '@/utils/currencyConversion';
+import {
+  DealForecastOverride,
+  ForecastCategory,
+  ForecastDeal,
+  ForecastSnapshot,
+  ForecastSnapshotDeal,
+} from '@/types/forecast';
+
+export const FORECAST_DEALS_QUERY_KEY = ['forecast-deals'];
+export const FORECAST_OVERRIDES_QUERY_KEY = ['forecast-overrides'];
+export const FORECAST_TARGET_QUERY_KEY = ['forecast-target'];
+export const FORECAST_SNAPSHOTS_QUERY_KEY = ['forecast-snapshots'];
+export const FORECAST_SNAPSHOT_DEALS_QUERY_KEY = ['forecast-snapshot-deals'];
+
+// Stable fallbacks so memoised results don't rerun while a query has no data
+const NO_DEALS: ForecastSourceDeal[] = [];
+const NO_OVERRIDES: DealForecastOverride[] = [];
+const NO_SNAPSHOTS: ForecastSnapshot[] = [];
+const NO_SNAPSHOT_DEALS: ForecastSnapshotDeal[] = [];
+
+interface ForecastSourceDeal {
+  id: string;
+  deal_name: string;
+  project_name: string | null;
+  created_by: string | null;
+  stage: string;
+  probability: number | null;
+  forecast_category: string | null;
+  total_contract_value: number | null;
+  total_revenue: number | null;
+  currency_type: string | null;
+  expected_closing_date: string | null;
+  signed_contract_date: string | null;
+  created_at: string | null;
+}
+
+const fetchForecastDeals = (): Promise<ForecastSourceDeal[]> =>
+  fetchAllRows((from, to) =>
+    supabase
+      .from('deals')
+      .select('id, deal_name, project_name, created_by, stage, probability, forecast_category, total_contract_value, total_revenue, currency_type, expected_closing_date, signed_contract_date, created_at')
+      .order('created_at')
+      .order('id')
+      .range(from, to)
+  );
+
+/**
+ * Forecast for one year in the reporting currency: open deals closing in the year (or without a
+ * close date) and deals won in it, each with the category and amount after manager overrides,
+ * plus the company target from yearly_revenue_targets.
+ */
+export const useForecast = (year: number) => {
+  const { converter, reportingCurrency, isLoading: ratesLoading } = useCurrencyConverter();
+  const { isWonStage, isLostStage, getDefaultProbability } = usePipelineStages();
+
+  const { data: sourceDeals = NO_DEALS, isLoading: dealsLoading } = useQuery({
+    queryKey: FORECAST_DEALS_QUERY_KEY,
+    queryFn: fetchForecastDeals,
+    staleTime: 60 * 1000,
+  });
+
+  const { data: overrides = NO_OVERRIDES, isLoading: overridesLoading } = useQuery({
+    queryKey: FORECAST_OVERRIDES_QUERY_KEY,
+    queryFn: async () => {
+      const rows = await fetchAllRows((from, to) =>
+        supabase
+          .from('deal_forecast_overrides')
+          .select('deal_id, category, amount, note, set_by, updated_at')
+          .order('deal_id')
+          .range(from, to)
+      );
+      return rows as DealForecastOverride[];
+    },
+    staleTime: 60 * 1000,
+  });
+
+  const { data: targetRow, isLoading: targetLoading } = useQuery({
+    queryKey: [...FORECAST_TARGET_QUERY_KEY, year],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('yearly_revenue_targets')
+        .select('total_target, currency')
+        .eq('year', year)
+        .maybeSingle();
+      if (error) throw error;
+      return data;
+    },
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const result = useMemo(() => {
+    const deals: ForecastDeal[] = [];
+    if (!converter) return { deals, target: null, hasUnconverted: false };
+
+    const overrideById = new Map(overrides.map(override => [override.deal_id, override]));
+    const yearPrefix = String(year);
+    let hasUnconverted = false;
+
+    sourceDeals.forEach(deal => {
+      if (isLostStage(deal.stage)) return;
+      const won = isWonStage(deal.stage);
+      const closeDate = (won ? deal.signed_contract_date || deal.expected_closing_date : deal.expected_closing_date)?.slice(0, 10) || null;
+      // Won deals belong to the year they were signed; open deals without a date stay visible
+      if (closeDate ? !closeDate.startsWith(yearPrefix) : won) return;
+
+      const override = overrideById.get(deal.id) || null;
+      const dealAmount = won
+        ? Number(deal.total_revenue ?? deal.total_contract_value) || 0
+        : Number(deal.total_contract_value) || 0;
+      const originalAmount = override?.amount !== null && override?.amount !== undefined ? Number(override.amount) : dealAmount;
+      const currency = getDealCurrency(deal);
+      const amount = converter.convert(originalAmount, currency, getDealConversionDate(deal, isWonStage));
+      if (amount === null && originalAmount) hasUnconverted = true;
+
+      const repCategory = (deal.forecast_category as ForecastCategory | null) || null;
+      const probability = won ? 100 : Number(deal.probability ?? getDefaultProbability(deal.stage) ?? 0);
+      deals.push({
+        id: deal.id,
+        name: deal.project_name || deal.deal_name,
+        ownerId: deal.created_by,
+        stage: deal.stage,
+        repCategory,
+        category: won ? 'closed' : override?.category || repCategory || 'pipeline',
+        override,
+        amount: amount ?? 0,
+        originalAmount,
+        currency,
+        converted: amount !== null,
+        probability,
+        weighted: ((amount ?? 0) * probability) / 100,
+        closeDate,
+      });
+    });
+
+    // Targets are converted at the rate valid when the year starts, as in the revenue summary
+    const targetAmount = Number(targetRow?.total_target || 0);
+    const target = targetAmount
+      ? converter.convert(targetAmount, targetRow?.currency || reportingCurrency, `${year}-01-01`) ?? targetAmount
+      : null;
+
+    return { deals, target, hasUnconverted };
+  }, [sourceDeals, overrides, targetRow, converter, reportingCurrency, year, isWonStage, isLostStage, getDefaultProbability]);
+
+  return {
+    ...result,
+    reportingCurrency,
+    loading: dealsLoading || overridesLoading || targetLoading || ratesLoading,
+  };
+};
+
+/**
+ * Weekly snapshots, newest first
+ */
+export const useForecastSnapshots = () => {
+  const { data: snapshots = NO_SNAPSHOTS, isLoading: loading } = useQuery({
+    queryKey: FORECAST_SNAPSHOTS_QUERY_KEY,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('forecast_snapshots')
+        .select('id, snapshot_date, created_at')
+        .order('snapshot_date', { ascending: false })
+        .limit(104);
+      if (error) throw error;
+      return (data || []) as ForecastSnapshot[];
+    },
+    staleTime: 5 * 60 * 1000,
+  });
+
+  return { snapshots, loading };
+};
+
+/**
+ * Deals stored in the given snapshots with amounts in the reporting currency, keyed by snapshot id
+ */
+export const useForecastSnapshotDeals = (snapshotIds: string[]) => {
+  const { converter, isLoading: ratesLoading } = useCurrencyConverter();
+  const ids = useMemo(() => [...snapshotIds].sort(), [snapshotIds]);
+
+  const { data: rows = NO_SNAPSHOT_DEALS, isLoading: rowsLoading } = useQuery({
+    queryKey: [...FORECAST_SNAPSHOT_DEALS_QUERY_KEY, ids],
+    queryFn: async () => {
+      const data = await fetchAllRows((from, to) =>
+        supabase
+          .from('forecast_snapshot_deals')
+          .select('snapshot_id, deal_id, deal_name, owner_id, stage, category, amount, currency, probability, close_date')
+          .in('snapshot_id', ids)
+          .order('snapshot_id')
+          .order('deal_id')
+          .range(from, to)
+      );
+      return data as ForecastSnapshotDeal[];
+    },
+    enabled: ids.length > 0,
+    staleTime: 10 * 60 * 1000,
+  });
+
+  const bySnapshot = useMemo(() => {
+    const grouped = new Map<string, ForecastSnapshotDeal[]>();
+    if (!converter) return grouped;
+    const today = new Date().toISOString().slice(0, 10);
+    rows.forEach(row => {
+      const amount = converter.convert(Number(row.amount) || 0, row.currency, row.close_date || today) ?? 0;
+      if (!grouped.has(row.snapshot_id)) grouped.set(row.snapshot_id, []);
+      grouped.get(row.snapshot_id)!.push({ ...row, amount, probability: Number(row.probability) || 0 });
+    });
+    return grouped;
+  }, [rows, converter]);
+
+  return { bySnapshot, loading: rowsLoading || ratesLoading };
+};
+
+export const useForecastActions = () => {
+  const queryClient = useQueryClient();
+
+  const invalidateForecast = () => {
+    queryClient.invalidateQueries({ queryKey: FORECAST_DEALS_QUERY_KEY });
+    queryClient.invalidateQueries({ queryKey: FORECAST_OVERRIDES_QUERY_KEY });
+  };
+
+  // The rep's own call on the deal
+  const setCategoryMutation = useMutation({
+    mutationFn: async ({ dealId, category }: { dealId: string; category: ForecastCategory | null }) => {
+      const { data: { user } } = await supabase.auth.getUser();
+      const { error } = await supabase
+        .from('deals')
+        .update({ forecast_category: category, modified_by: user?.id, modified_at: new Date().toISOString() })
+        .eq('id', dealId);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidateForecast();
+      queryClient.invalidateQueries({ queryKey: ['deals'] });
+    },
+    onError: (error: Error) => {
+      console.error('Error updating forecast category:', error);
+      toast.error(error?.message || 'Failed to update forecast category');
+    },
+  });
+
+  const saveOverrideMutation = useMutation({
+    mutationFn: async (override: Pick<DealForecastOverride, 'deal_id' | 'category' | 'amount' | 'note'>) => {
+      const { data: { user } } = await supabase.auth.getUser();
+      const { error } = await supabase
+        .from('deal_forecast_overrides')
+        .upsert({ ...override, set_by: user?.id }, { onConflict: 'deal_id' });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidateForecast();
+      toast.success('Forecast override saved');
+    },
+    onError: (error: Error) => {
+      console.error('Error saving forecast override:', error);
+      toast.error(error?.message || 'Failed to save forecast override');
+    },
+  });
+
+  const clearOverrideMutation = useMutation({
+    mutationFn: async (dealId: string) => {
+      const { error } = await supabase.from('deal_forecast_overrides').delete().eq('deal_id', dealId);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidateForecast();
+      toast.success('Forecast override removed');
+    },
+    onError: (error: Error) => {
+      console.error('Error removing forecast override:', error);
+      toast.error(error?.message || 'Failed to remove forecast override');
+    },
+  });
+
+  const captureSnapshotMutation = useMutation({
+    mutationFn: async () => {
+      const { data, error } = await supabase.rpc('capture_forecast_snapshot', {});
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: FORECAST_SNAPSHOTS_QUERY_KEY });
+      queryClient.invalidateQueries({ queryKey: FORECAST_SNAPSHOT_DEALS_QUERY_KEY });
+      toast.success("This week's forecast snapshot was saved");
+    },
+    onError: (error: Error) => {
+      console.error('Error capturing forecast snapshot:', error);
+      toast.error(error?.message || 'Failed to capture forecast snapshot');
+    },
+  });
+
+  return {
+    setCategory: setCategoryMutation.mutate,
+    saveOverride: saveOverrideMutation.mutateAsync,
+    clearOverride: clearOverrideMutation.mutateAsync,
+    captureSnapshot: captureSnapshotMutation.mutate,
+    isSavingOverride: saveOverrideMutation.isPending || clearOverrideMutation.isPending,
+    isCapturing: captureSnapshotMutation.isPending,
+  };
+};
@@ -4,6 +4,9 @@ import { getExportFilename } from '@/utils/exportUtils';
 import { CSVProcessor } from './import-export/csvProcessor';
 import { CSVExporter } from './import-export/csvExporter';
 import { toast } from '@/hooks/use-toast';
+import { ToastAction } from '@/components/ui/toast';
+import { isSpreadsheetFile, readSpreadsheetFile, SpreadsheetFormat } from '@/utils/spreadsheetFile';
+import { downloadImportErrorReport } from './import-export/importErrorReport';
 import { useSecurityAudit } from '@/hooks/useSecurityAudit';
 
 interface ImportExportOptions {
@@ -50,8 +53,8 @@ export const useImportExport = ({ moduleName, onRefresh, tableName = 'contacts'
     }
 
     // Validate file type
-    if (!file.name.toLowerCase().endsWith('.csv')) {
-      const errorMsg = 'Please select a CSV file';
+    if (!isSpreadsheetFile(file)) {
+      const errorMsg = 'Please select a CSV or Excel (.xlsx) file';
       console.error('useImportExport: Invalid file type:', file.type);
       toast({
         title: "Invalid File Type",
@@ -79,26 +82,23 @@ export const useImportExport = ({ moduleName, onRefresh, tableName = 'contacts'
         description: `Processing ${file.name}...`,
       });
 
-      const text = await file.text();
-      console.log('useImportExport: File content loaded, length:', text.length);
-      console.log('useImportExport: First 500 characters:', text.substring(0, 500));
+      const sheet = await readSpreadsheetFile(file);
+      console.log('useImportExport: File headers:', sheet.headers);
       
-      if (!text || text.trim().length === 0) {
-        throw new Error('CSV file is empty or could not be read');
+      if (sheet.headers.length === 0) {
+        throw new Error('File is empty or could not be read');
       }
 
-      // Basic CSV validation
-      const lines = text.split('\n').filter(line => line.trim());
-      if (lines.length < 2) {
-        throw new Error('CSV file must contain at least a header row and one data row');
+      if (sheet.rows.length === 0) {
+        throw new Error(sheet.errors[0] || 'File must contain at least a header row and one data row');
       }
 
-      console.log('useImportExport: CSV has', lines.length, 'lines');
+      console.log('useImportExport: File has', sheet.rows.length, 'data rows');
 
       const processor = new CSVProcessor(tableName);
       console.log('useImportExport: CSV processor created for table:', tableName);
       
-      const result = await processor.processCSV(text, {
+      const result = await processor.processSheet(sheet, {
         tableName,
         userId: user.id,
         onProgress: (processed, total) => {
@@ -119,6 +119,12 @@ export const useImportExport = ({ moduleName, onRefresh, tableName = 'contacts'
       if (duplicateCount > 0) message += message ? `, ${duplicateCount} duplicates skipped` : `${duplicateCount} duplicates skipped`;
       if (errorCount > 0) message += message ? `, ${errorCount} errors` : `${errorCount} errors occurred`;
 
+      const errorReportAction = errors.length > 0 ? (
+        <ToastAction altText="Download error report" onClick={() => downloadImportErrorReport(moduleName, errors)}>
+          Error report
+        </ToastAction>
+      ) : undefined;
+
       if (successCount > 0 || updateCount > 0) {
         // Log successful import
         await logSecurityEvent('DATA_IMPORT_SUCCESS', tableName, undefined, {
@@ -135,6 +141,7 @@ export const useImportExport = ({ moduleName, onRefresh, tableName = 'contacts'
         toast({
           title: "Import Successful",
           description: message || "Import completed successfully",
+          action: errorReportAction,
         });
         
         console.log('useImportExport: Refreshing data after successful import...');
@@ -154,6 +161,7 @@ export const useImportExport = ({ moduleName, onRefresh, tableName = 'contacts'
           title: "Import Failed",
           description: message + (errors.length > 0 ? `. First error: ${errors[0]}` : ''),
           variant: "destructive",
+          action: errorReportAction,
         });
       } else {
         toast({
@@ -184,13 +192,13 @@ export const useImportExport = ({ moduleName, onRefresh, tableName = 'contacts'
     }
   };
 
-  const handleExportAll = async (data: any[]) => {
+  const handleExportAll = async (data: any[], format: SpreadsheetFormat = 'csv') => {
     console.log(`useImportExport: Exporting all data for ${tableName}:`, data?.length || 0, 'records');
-    const filename = getExportFilename(moduleName, 'all');
+    const filename = getExportFilename(moduleName, 'all', format);
     
     // Log export attempt
     await logSecurityEvent('DATA_EXPORT', tableName, undefined, {
-      export_type: 'CSV',
+      export_type: format.toUpperCase(),
       export_scope: 'all',
       record_count: data?.length || 0,
       file_name: filename,
@@ -199,17 +207,17 @@ export const useImportExport = ({ moduleName, onRefresh, tableName = 'contacts'
     });
     
     const exporter = new CSVExporter(tableName);
-    await exporter.exportToCSV(data, filename);
+    await exporter.exportToCSV(data, filename, format);
   };
 
-  const handleExportSelected = async (data: any[], selectedIds: string[]) => {
+  const handleExportSelected = async (data: any[], selectedIds: string[], format: SpreadsheetFormat = 'csv') => {
     const selectedData = data.filter(item => selectedIds.includes(item.id));
-    const filename = getExportFilename(moduleName, 'selected');
+    const filename = getExportFilename(moduleName, 'selected', format);
     console.log(`useImportExport: Exporting selected data:`, selectedData.length, 'records');
     
     // Log export attempt
     await logSecurityEvent('DATA_EXPORT', tableName, undefined, {
-      export_type: 'CSV',
+      export_type: format.toUpperCase(),
       export_scope: 'selected',
       record_count: selectedData.length,
       selected_ids: selectedIds.slice(0, 10), // Log first 10 IDs
@@ -219,16 +227,16 @@ export const useImportExport = ({ moduleName, onRefresh, tableName = 'contacts'
     });
     
     const exporter = new CSVExporter(tableName);
-    await exporter.exportToCSV(selectedData, filename);
+    await exporter.exportToCSV(selectedData, filename, format);
   };
 
-  const handleExportFiltered = async (filteredData: any[]) => {
-    const filename = getExportFilename(moduleName, 'filtered');
+  const handleExportFiltered = async (filteredData: any[], format: SpreadsheetFormat = 'csv') => {
+    const filename = getExportFilename(moduleName, 'filtered', format);
     console.log(`useImportExport: Exporting filtered data:`, filteredData.length, 'records');
     
     // Log export attempt
     await logSecurityEvent('DATA_EXPORT', tableName, undefined, {
-      export_type: 'CSV',
+      export_type: format.toUpperCase(),
       export_scope: 'filtered',
       record_count: filteredData.length,
       file_name: filename,
@@ -237,7 +245,7 @@ export const useImportExport = ({ moduleName, onRefresh, tableName = 'contacts'
     });
     
     const exporter = new CSVExporter(tableName);
-    await exporter.exportToCSV(filteredData, filename);
+    await exporter.exportToCSV(filteredData, filename, format);
   };
 
   return {
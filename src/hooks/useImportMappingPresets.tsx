@@ -0,0 +1,115 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { Json } from '@/integrations/supabase/types';
+import {
+  ImportDefaultValues,
+  ImportFieldMappings,
+  ImportMappingPreset,
+} from '@/hooks/import-export/importMapping';
+
+const asRecord = (value: Json | null): Record<string, string> =>
+  value && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, string>) : {};
+
+// Named column-mapping presets for one import entity, stored in import_export_settings
+export const useImportMappingPresets = (entityType: string | null) => {
+  const { user } = useAuth();
+  const [presets, setPresets] = useState<ImportMappingPreset[]>([]);
+  // Starts true so callers can wait for the first load before auto-applying a preset
+  const [loading, setLoading] = useState(true);
+
+  const fetchPresets = async () => {
+    if (!user || !entityType) {
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from('import_export_settings')
+        .select('id, name, entity_type, field_mappings, default_values')
+        .eq('user_id', user.id)
+        .eq('entity_type', entityType)
+        .order('name', { ascending: true });
+
+      if (error) throw error;
+
+      setPresets((data || []).map(row => ({
+        id: row.id,
+        name: row.name,
+        entity_type: row.entity_type,
+        field_mappings: asRecord(row.field_mappings),
+        default_values: asRecord(row.default_values),
+      })));
+    } catch (error) {
+      console.error('Error fetching import mapping presets:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Saving under an existing name overwrites that preset
+  const savePreset = async (
+    name: string,
+    fieldMappings: ImportFieldMappings,
+    defaultValues: ImportDefaultValues
+  ): Promise<ImportMappingPreset | null> => {
+    if (!user || !entityType) return null;
+
+    const { data, error } = await supabase
+      .from('import_export_settings')
+      .upsert({
+        user_id: user.id,
+        entity_type: entityType,
+        name: name.trim(),
+        field_mappings: fieldMappings as Json,
+        default_values: defaultValues as Json,
+      }, { onConflict: 'user_id,entity_type,name' })
+      .select('id, name, entity_type, field_mappings, default_values')
+      .single();
+
+    if (error) {
+      console.error('Error saving import mapping preset:', error);
+      throw error;
+    }
+
+    await fetchPresets();
+    return {
+      id: data.id,
+      name: data.name,
+      entity_type: data.entity_type,
+      field_mappings: asRecord(data.field_mappings),
+      default_values: asRecord(data.default_values),
+    };
+  };
+
+  const deletePreset = async (presetId: string) => {
+    if (!user) return;
+
+    const { error } = await supabase
+      .from('import_export_settings')
+      .delete()
+      .eq('id', presetId)
+      .eq('user_id', user.id);
+
+    if (error) {
+      console.error('Error deleting import mapping preset:', error);
+      throw error;
+    }
+
+    setPresets(prev => prev.filter(p => p.id !== presetId));
+  };
+
+  useEffect(() => {
+    fetchPresets();
+  }, [user, entityType]);
+
+  return {
+    presets,
+    loading,
+    savePreset,
+    deletePreset,
+    refetch: fetchPresets,
+  };
+};
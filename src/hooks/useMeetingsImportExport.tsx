@@ -1,8 +1,11 @@
 import { useState, useRef } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { ToastAction } from '@/components/ui/toast';
 import { format } from 'date-fns';
 import { UserNameUtils } from '@/utils/userNameUtils';
+import { downloadSpreadsheet, readSpreadsheetFile, SpreadsheetFormat } from '@/utils/spreadsheetFile';
+import { downloadImportErrorReport } from '@/hooks/import-export/importErrorReport';
 
 interface Meeting {
   id: string;
@@ -35,16 +38,15 @@ export const useMeetingsImportExport = (onImportComplete: () => void) => {
         throw new Error('User not authenticated');
       }
 
-      const text = await file.text();
-      const lines = text.split('\n').filter(line => line.trim());
+      const sheet = await readSpreadsheetFile(file);
       
-      if (lines.length < 2) {
-        throw new Error('CSV file must have headers and at least one data row');
+      if (sheet.rows.length === 0) {
+        throw new Error(sheet.errors[0] || 'File must have headers and at least one data row');
       }
 
       // Parse headers
-      const headers = parseCSVLine(lines[0]).map(h => h.toLowerCase().trim());
-      console.log('CSV Headers:', headers);
+      const headers = sheet.headers.map(h => h.toLowerCase().trim());
+      console.log('Import headers:', headers);
 
       // Required fields mapping
       const subjectIdx = headers.findIndex(h => h === 'subject' || h === 'title' || h === 'meeting subject');
@@ -60,16 +62,15 @@ export const useMeetingsImportExport = (onImportComplete: () => void) => {
       const createdByIdx = headers.findIndex(h => h === 'created_by' || h === 'created by' || h === 'host');
 
       if (subjectIdx === -1) {
-        throw new Error('CSV must have a "Subject" column');
+        throw new Error('File must have a "Subject" column');
       }
       if (startDateIdx === -1) {
-        throw new Error('CSV must have a "Start Date" or "start_time" column');
+        throw new Error('File must have a "Start Date" or "start_time" column');
       }
 
       // Collect user names for lookup
       const userNames: string[] = [];
-      for (let i = 1; i < lines.length; i++) {
-        const values = parseCSVLine(lines[i]);
+      for (const values of sheet.rows) {
         if (createdByIdx !== -1 && values[createdByIdx]) {
           userNames.push(values[createdByIdx]);
         }
@@ -77,16 +78,18 @@ export const useMeetingsImportExport = (onImportComplete: () => void) => {
       const userIdMap = await UserNameUtils.fetchUserIdsByNames(userNames);
 
       let successCount = 0;
-      let errorCount = 0;
-      const errors: string[] = [];
+      // Rows the parser couldn't read count as failures
+      let errorCount = sheet.errors.length;
+      const errors: string[] = [...sheet.errors];
 
-      for (let i = 1; i < lines.length; i++) {
+      for (let i = 0; i < sheet.rows.length; i++) {
+        const rowNumber = sheet.rowNumbers[i];
         try {
-          const values = parseCSVLine(lines[i]);
+          const values = sheet.rows[i];
           const subject = values[subjectIdx]?.trim();
           
           if (!subject) {
-            errors.push(`Row ${i + 1}: Missing subject`);
+            errors.push(`Row ${rowNumber}: Missing subject`);
             errorCount++;
             continue;
           }
@@ -104,7 +107,7 @@ export const useMeetingsImportExport = (onImportComplete: () => void) => {
           startTime = parseDateTimeFromCSV(dateValue, timeValue);
 
           if (isNaN(startTime.getTime())) {
-            errors.push(`Row ${i + 1}: Invalid start date/time`);
+            errors.push(`Row ${rowNumber}: Invalid start date/time`);
             errorCount++;
             continue;
           }
@@ -142,13 +145,13 @@ export const useMeetingsImportExport = (onImportComplete: () => void) => {
           const { error } = await supabase.from('meetings').insert(meetingData);
           
           if (error) {
-            errors.push(`Row ${i + 1}: ${error.message}`);
+            errors.push(`Row ${rowNumber}: ${error.message}`);
             errorCount++;
           } else {
             successCount++;
           }
         } catch (rowError: any) {
-          errors.push(`Row ${i + 1}: ${rowError.message}`);
+          errors.push(`Row ${rowNumber}: ${rowError.message}`);
           errorCount++;
         }
       }
@@ -164,8 +167,13 @@ export const useMeetingsImportExport = (onImportComplete: () => void) => {
         console.error('Import errors:', errors);
         toast({
           title: "Import Errors",
-          description: `${errorCount} errors occurred. Check console for details.`,
+          description: `${errorCount} errors occurred. Sample: ${errors[0]}`,
           variant: "destructive",
+          action: (
+            <ToastAction altText="Download error report" onClick={() => downloadImportErrorReport('meetings', errors)}>
+              Error report
+            </ToastAction>
+          ),
         });
       }
 
@@ -183,7 +191,7 @@ export const useMeetingsImportExport = (onImportComplete: () => void) => {
     }
   };
 
-  const handleExport = async (meetings: Meeting[]) => {
+  const handleExport = async (meetings: Meeting[], exportFormat: SpreadsheetFormat = 'csv') => {
     setIsExporting(true);
     
     try {
@@ -224,21 +232,21 @@ export const useMeetingsImportExport = (onImportComplete: () => void) => {
         'Updated At'
       ];
 
-      // Build CSV rows with formatted values
+      // Build rows with formatted values
       const rows = meetings.map(meeting => {
         const createdByName = meeting.created_by ? (userNameMap[meeting.created_by] || '') : '';
         
         return [
           meeting.id,
-          escapeCSVField(meeting.subject),
+          meeting.subject,
           UserNameUtils.formatDateForExport(meeting.start_time),
           UserNameUtils.formatTimeForExport(meeting.start_time),
           UserNameUtils.formatDateForExport(meeting.end_time),
           UserNameUtils.formatTimeForExport(meeting.end_time),
           meeting.status,
           meeting.outcome || '',
-          escapeCSVField(meeting.description || ''),
-          escapeCSVField(meeting.notes || ''),
+          meeting.description || '',
+          meeting.notes || '',
           meeting.join_url || '',
           meeting.lead_id || '',
           meeting.contact_id || '',
@@ -247,25 +255,14 @@ export const useMeetingsImportExport = (onImportComplete: () => void) => {
           createdByName,
           UserNameUtils.formatDateTimeForExport((meeting as any).created_at),
           UserNameUtils.formatDateTimeForExport((meeting as any).updated_at)
-        ].join(',');
+        ];
       });
 
-      const csvContent = [headers.join(','), ...rows].join('\n');
-
-      // Download the file
-      const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-      const url = window.URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.setAttribute('href', url);
-      a.setAttribute('download', `meetings_export_${format(new Date(), 'yyyy-MM-dd')}.csv`);
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      window.URL.revokeObjectURL(url);
+      downloadSpreadsheet(headers, rows, `meetings_export_${format(new Date(), 'yyyy-MM-dd')}`, exportFormat, 'Meetings');
 
       toast({
         title: "Export Successful",
-        description: `Exported ${meetings.length} meetings to CSV.`,
+        description: `Exported ${meetings.length} meetings to ${exportFormat === 'xlsx' ? 'Excel' : 'CSV'}.`,
       });
 
     } catch (error: any) {
@@ -346,40 +343,3 @@ function parseDateTimeFromCSV(dateValue: string, timeValue?: string): Date {
 
   return parsedDate || new Date(NaN);
 }
-
-// Helper function to parse CSV line (handles quoted fields)
-function parseCSVLine(line: string): string[] {
-  const result: string[] = [];
-  let current = '';
-  let inQuotes = false;
-  
-  for (let i = 0; i < line.length; i++) {
-    const char = line[i];
-    
-    if (char === '"') {
-      if (inQuotes && line[i + 1] === '"') {
-        current += '"';
-        i++;
-      } else {
-        inQuotes = !inQuotes;
-      }
-    } else if (char === ',' && !inQuotes) {
-      result.push(current.trim());
-      current = '';
-    } else {
-      current += char;
-    }
-  }
-  
-  result.push(current.trim());
-  return result;
-}
-
-// Helper function to escape CSV fields
-function escapeCSVField(field: string): string {
-  if (!field) return '';
-  if (field.includes(',') || field.includes('"') || field.includes('\n')) {
-    return `"${field.replace(/"/g, '""')}"`;
-  }
-  return field;
-}
@@ -9,6 +9,7 @@ interface Notification {
   id: string;
   user_id: string;
   lead_id: string | null;
+  deal_id: string | null;
   message: string;
   status: 'read' | 'unread';
   notification_type: string;
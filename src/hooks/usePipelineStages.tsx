@@ -0,0 +1,112 @@
+import { useCallback, useMemo } from "react";
+import { QueryClient, useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  DEFAULT_PIPELINE_STAGES,
+  DealStage,
+  PipelineStage,
+  getFinalStageOptions,
+  getOpenStages,
+} from "@/types/deal";
+
+export const PIPELINE_STAGES_QUERY_KEY = ['pipeline-stages'];
+
+// Configured deal pipeline. Falls back to the default stages until pipeline_stages is populated.
+export const fetchPipelineStages = async (): Promise<PipelineStage[]> => {
+  const { data, error } = await supabase
+    .from('pipeline_stages')
+    .select('*')
+    .order('stage_order', { ascending: true });
+
+  if (error || !data || data.length === 0) {
+    if (error) console.error('Error fetching pipeline stages:', error);
+    return DEFAULT_PIPELINE_STAGES;
+  }
+
+  return data.map(stage => ({
+    id: stage.id,
+    stage_name: stage.stage_name,
+    stage_order: stage.stage_order,
+    stage_color: stage.stage_color || '#6b7280',
+    stage_probability: stage.stage_probability ?? 0,
+    is_active: stage.is_active ?? true,
+    is_won_stage: stage.is_won_stage ?? false,
+    is_lost_stage: stage.is_lost_stage ?? false,
+    required_fields: stage.required_fields,
+    requires_approval: stage.requires_approval,
+    sla_days: stage.sla_days,
+  }));
+};
+
+// Cached stages for query functions that run outside a component
+export const getPipelineStages = (queryClient: QueryClient) =>
+  queryClient.fetchQuery({
+    queryKey: PIPELINE_STAGES_QUERY_KEY,
+    queryFn: fetchPipelineStages,
+    staleTime: 5 * 60 * 1000,
+  });
+
+export const usePipelineStages = () => {
+  const { data, isLoading } = useQuery({
+    queryKey: PIPELINE_STAGES_QUERY_KEY,
+    queryFn: fetchPipelineStages,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const stages = data || DEFAULT_PIPELINE_STAGES;
+
+  const activeStages = useMemo(() => stages.filter(s => s.is_active), [stages]);
+  const stageNames = useMemo(() => activeStages.map(s => s.stage_name), [activeStages]);
+  const openStageNames = useMemo(() => getOpenStages(stages), [stages]);
+  const finalStageNames = useMemo(() => getFinalStageOptions(stages), [stages]);
+  const wonStageNames = useMemo(() => activeStages.filter(s => s.is_won_stage).map(s => s.stage_name), [activeStages]);
+  const lostStageNames = useMemo(() => activeStages.filter(s => s.is_lost_stage).map(s => s.stage_name), [activeStages]);
+
+  const getStage = useCallback(
+    (stageName?: string | null) => stages.find(s => s.stage_name === stageName),
+    [stages]
+  );
+
+  const isWonStage = useCallback((stageName?: string | null) => !!getStage(stageName)?.is_won_stage, [getStage]);
+  const isLostStage = useCallback((stageName?: string | null) => !!getStage(stageName)?.is_lost_stage, [getStage]);
+  const isClosedStage = useCallback(
+    (stageName?: string | null) => isWonStage(stageName) || isLostStage(stageName),
+    [isWonStage, isLostStage]
+  );
+
+  const getDefaultProbability = useCallback(
+    (stageName?: string | null) => getStage(stageName)?.stage_probability,
+    [getStage]
+  );
+
+  /**
+   * Probability to apply when a deal moves stage. Only replaces the current value
+   * when it is empty or still the previous stage's default, so manual values stick.
+   */
+  const getProbabilityForStageChange = useCallback(
+    (fromStage: DealStage | null | undefined, toStage: DealStage, currentProbability?: number | null) => {
+      const nextDefault = getDefaultProbability(toStage);
+      if (nextDefault === undefined) return undefined;
+      if (currentProbability === null || currentProbability === undefined) return nextDefault;
+      return currentProbability === getDefaultProbability(fromStage) ? nextDefault : undefined;
+    },
+    [getDefaultProbability]
+  );
+
+  return {
+    stages,
+    activeStages,
+    stageNames,
+    openStageNames,
+    finalStageNames,
+    wonStageNames,
+    lostStageNames,
+    getStage,
+    isWonStage,
+    isLostStage,
+    isClosedStage,
+    getDefaultProbability,
+    getProbabilityForStageChange,
+    loading: isLoading,
+  };
+};
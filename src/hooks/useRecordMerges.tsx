@@ -0,0 +1,109 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Json, Tables } from '@/integrations/supabase/types';
+import { toast } from 'sonner';
+
+export type MergeEntityType = 'accounts' | 'contacts' | 'leads';
+
+export type RecordMerge = Tables<'record_merges'>;
+
+const ENTITY_LABELS: Record<MergeEntityType, string> = {
+  accounts: 'Accounts',
+  contacts: 'Contacts',
+  leads: 'Leads',
+};
+
+// Child rows a merge can move between records
+const RELATED_QUERY_KEYS = [
+  'accounts', 'contacts', 'leads', 'deals', 'tasks', 'meetings', 'notifications',
+  'approval-requests', 'record-merges',
+];
+
+/**
+ * Merges into this record that can still be undone
+ */
+export const useRecordMergeHistory = (entityType: MergeEntityType, entityId?: string | null) => {
+  const { data: merges = [], isLoading: loading } = useQuery({
+    queryKey: ['record-merges', entityType, entityId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('record_merges')
+        .select('*')
+        .eq('entity_type', entityType)
+        .eq('survivor_id', entityId!)
+        .is('unmerged_at', null)
+        .gt('undo_until', new Date().toISOString())
+        .order('merged_at', { ascending: false });
+
+      if (error) throw error;
+      return data as RecordMerge[];
+    },
+    enabled: !!entityId,
+    staleTime: 30 * 1000,
+  });
+
+  return { merges, loading };
+};
+
+export const useRecordMergeActions = () => {
+  const queryClient = useQueryClient();
+
+  const invalidate = () => {
+    RELATED_QUERY_KEYS.forEach(key => queryClient.invalidateQueries({ queryKey: [key] }));
+  };
+
+  const unmergeMutation = useMutation({
+    mutationFn: async (mergeId: string) => {
+      const { data, error } = await supabase.rpc('unmerge_records', { p_merge_id: mergeId });
+      if (error) throw error;
+      return data as RecordMerge;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast.success('Merge undone, both records restored');
+    },
+    onError: (error: Error) => {
+      console.error('Error undoing merge:', error);
+      toast.error(error?.message || 'Failed to undo merge');
+    },
+  });
+
+  const mergeMutation = useMutation({
+    mutationFn: async ({ entityType, survivorId, mergedId, fieldValues }: {
+      entityType: MergeEntityType;
+      survivorId: string;
+      mergedId: string;
+      fieldValues: Record<string, unknown>;
+    }) => {
+      const { data, error } = await supabase.rpc('merge_records', {
+        p_entity_type: entityType,
+        p_survivor_id: survivorId,
+        p_merged_id: mergedId,
+        p_field_values: fieldValues as Json,
+      });
+      if (error) throw error;
+      return data as RecordMerge;
+    },
+    onSuccess: (merge, variables) => {
+      invalidate();
+      toast.success(`${ENTITY_LABELS[variables.entityType]} merged`, {
+        description: 'Related records were moved to the kept record.',
+        action: {
+          label: 'Undo',
+          onClick: () => { unmergeMutation.mutate(merge.id); },
+        },
+      });
+    },
+    onError: (error: Error) => {
+      console.error('Error merging records:', error);
+      toast.error(error?.message || 'Failed to merge records');
+    },
+  });
+
+  return {
+    mergeRecords: mergeMutation.mutateAsync,
+    unmergeRecords: unmergeMutation.mutateAsync,
+    isMerging: mergeMutation.isPending,
+    isUnmerging: unmergeMutation.isPending,
+  };
+};
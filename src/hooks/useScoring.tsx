@@ -0,0 +1,184 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import {
+  RecordScore,
+  ScoredEntityType,
+  ScoreHistoryEntry,
+  ScoringRule,
+  ScoringRuleInput,
+} from '@/types/scoring';
+
+const SCORING_RULES_QUERY_KEY = ['scoring-rules'];
+const SCORE_HISTORY_QUERY_KEY = ['record-score-history'];
+// Records re-scored per RPC call by "Recalculate all"
+const RECALCULATE_BATCH_SIZE = 200;
+
+const RECORD_QUERY_KEYS: Record<ScoredEntityType, string[]> = {
+  lead: ['leads'],
+  contact: ['contacts'],
+};
+
+/**
+ * The scoring model: fit rules first, then behaviour rules, oldest first within each
+ */
+export const useScoringRules = () => {
+  const { data: rules = [], isLoading: loading } = useQuery({
+    queryKey: SCORING_RULES_QUERY_KEY,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('scoring_rules')
+        .select('*')
+        .order('category', { ascending: false })
+        .order('created_at');
+
+      if (error) throw error;
+      return data as ScoringRule[];
+    },
+  });
+
+  return { rules, loading };
+};
+
+/**
+ * Current score and breakdown of one lead or contact
+ */
+export const useRecordScore = (entityType: ScoredEntityType, entityId?: string | null) => {
+  const { data: score = null, isLoading: loading } = useQuery({
+    queryKey: [...SCORE_HISTORY_QUERY_KEY, entityType, entityId, 'current'],
+    queryFn: async () => {
+      const { data, error } = entityType === 'lead'
+        ? await supabase.from('leads').select('score, score_breakdown, score_updated_at').eq('id', entityId!).maybeSingle()
+        : await supabase.from('contacts').select('score, score_breakdown, score_updated_at').eq('id', entityId!).maybeSingle();
+
+      if (error) throw error;
+      return data as unknown as RecordScore | null;
+    },
+    enabled: !!entityId,
+  });
+
+  return { score, loading };
+};
+
+/**
+ * Score changes of one lead or contact, newest first
+ */
+export const useScoreHistory = (entityType: ScoredEntityType, entityId?: string | null) => {
+  const { data: history = [], isLoading: loading } = useQuery({
+    queryKey: [...SCORE_HISTORY_QUERY_KEY, entityType, entityId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('record_score_history')
+        .select('id, score, previous_score, fit_score, behavior_score, breakdown, reason, calculated_at')
+        .eq('entity_type', entityType)
+        .eq('entity_id', entityId!)
+        .order('calculated_at', { ascending: false })
+        .limit(50);
+
+      if (error) throw error;
+      return data as unknown as ScoreHistoryEntry[];
+    },
+    enabled: !!entityId,
+  });
+
+  return { history, loading };
+};
+
+export const useScoringActions = () => {
+  const queryClient = useQueryClient();
+
+  const invalidateRecords = (entityType?: ScoredEntityType) => {
+    const keys = entityType ? [RECORD_QUERY_KEYS[entityType]] : Object.values(RECORD_QUERY_KEYS);
+    [...keys, SCORE_HISTORY_QUERY_KEY].forEach(queryKey => queryClient.invalidateQueries({ queryKey }));
+  };
+
+  const saveRuleMutation = useMutation({
+    mutationFn: async ({ id, rule }: { id?: string; rule: ScoringRuleInput }) => {
+      const { error } = id
+        ? await supabase.from('scoring_rules').update(rule).eq('id', id)
+        : await supabase.from('scoring_rules').insert(rule);
+      if (error) throw error;
+    },
+    onSuccess: (_, { id }) => {
+      queryClient.invalidateQueries({ queryKey: SCORING_RULES_QUERY_KEY });
+      toast.success(id ? 'Scoring rule updated' : 'Scoring rule added');
+    },
+    onError: (error: Error) => {
+      console.error('Error saving scoring rule:', error);
+      toast.error(error?.message || 'Failed to save scoring rule');
+    },
+  });
+
+  const deleteRuleMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from('scoring_rules').delete().eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: SCORING_RULES_QUERY_KEY });
+      toast.success('Scoring rule deleted');
+    },
+    onError: (error: Error) => {
+      console.error('Error deleting scoring rule:', error);
+      toast.error('Failed to delete scoring rule');
+    },
+  });
+
+  const recalculateMutation = useMutation({
+    mutationFn: async ({ entityType, entityId }: { entityType: ScoredEntityType; entityId: string }) => {
+      const { error } = await supabase.rpc('calculate_record_score', {
+        p_entity_type: entityType,
+        p_entity_id: entityId,
+        p_reason: 'manual',
+      });
+      if (error) throw error;
+    },
+    onSuccess: (_, { entityType }) => invalidateRecords(entityType),
+    onError: (error: Error) => {
+      console.error('Error recalculating score:', error);
+      toast.error(error?.message || 'Failed to recalculate score');
+    },
+  });
+
+  // Walks every lead and contact in batches; admins only (enforced by the RPC)
+  const recalculateAllMutation = useMutation({
+    mutationFn: async () => {
+      let processed = 0;
+      let changed = 0;
+      for (const entityType of ['lead', 'contact'] as ScoredEntityType[]) {
+        let after: string | null = null;
+        do {
+          const { data, error } = await supabase.rpc('recalculate_record_scores', {
+            p_entity_type: entityType,
+            p_after: after ?? undefined,
+            p_limit: RECALCULATE_BATCH_SIZE,
+          });
+          if (error) throw error;
+          const batch = data as unknown as { processed: number; changed: number; last_id: string | null };
+          processed += batch.processed;
+          changed += batch.changed;
+          after = batch.last_id;
+        } while (after);
+      }
+      return { processed, changed };
+    },
+    onSuccess: ({ processed, changed }) => {
+      invalidateRecords();
+      toast.success(`Recalculated ${processed} scores, ${changed} changed`);
+    },
+    onError: (error: Error) => {
+      console.error('Error recalculating scores:', error);
+      toast.error(error?.message || 'Failed to recalculate scores');
+    },
+  });
+
+  return {
+    saveRule: saveRuleMutation.mutate,
+    deleteRule: deleteRuleMutation.mutate,
+    recalculateScore: recalculateMutation.mutate,
+    recalculateAll: recalculateAllMutation.mutate,
+    isSaving: saveRuleMutation.isPending,
+    isRecalculating: recalculateMutation.isPending,
+    isRecalculatingAll: recalculateAllMutation.isPending,
+  };
+};
@@ -4,6 +4,8 @@ import { supabase } from '@/integrations/supabase/client';
 import { useSecureDataAccess } from '@/hooks/useSecureDataAccess';
 import { useToast } from '@/hooks/use-toast';
 import { useCRUDAudit } from '@/hooks/useCRUDAudit';
+import { buildTableQuery, ServerTableParams } from '@/utils/serverTableQuery';
+import { DEAL_TABLE } from '@/utils/dealTableQuery';
 
 interface Deal {
   id: string;
@@ -23,8 +25,10 @@ interface Deal {
   lead_name?: string;
 }
 
-export const useSecureDeals = () => {
+// One page of deals, filtered and sorted in the database like the deals list
+export const useSecureDeals = (params: ServerTableParams = { page: 1, pageSize: 25 }) => {
   const [deals, setDeals] = useState<Deal[]>([]);
+  const [total, setTotal] = useState(0);
   const [loading, setLoading] = useState(true);
   const { secureQuery, secureExport } = useSecureDataAccess();
   const { logDelete } = useCRUDAudit();
@@ -33,13 +37,14 @@ export const useSecureDeals = () => {
   const fetchDeals = async () => {
     try {
       setLoading(true);
-      const query = supabase
-        .from('deals')
-        .select('*')
-        .order('created_at', { ascending: false });
-
-      const result = await secureQuery('deals', query, 'SELECT');
+      const start = (params.page - 1) * params.pageSize;
+      const result = await secureQuery(
+        'deals',
+        buildTableQuery(DEAL_TABLE, params).range(start, start + params.pageSize - 1),
+        'SELECT'
+      );
       setDeals(result.data || []);
+      setTotal(result.count ?? 0);
     } catch (error: any) {
       console.error('Error fetching deals:', error);
       toast({
@@ -198,12 +203,15 @@ export const useSecureDeals = () => {
     }
   };
 
+  // Callers may pass a new params object on every render
+  const paramsKey = JSON.stringify(params);
   useEffect(() => {
     fetchDeals();
-  }, []);
+  }, [paramsKey]);
 
   return {
     deals,
+    total,
     loading,
     fetchDeals,
     updateDeal,
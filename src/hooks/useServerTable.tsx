@@ -0,0 +1,41 @@
+import { useEffect } from 'react';
+import { keepPreviousData, useQuery } from '@tanstack/react-query';
+import { fetchTablePage, ServerTableConfig, ServerTableParams } from '@/utils/serverTableQuery';
+
+// Stable while nothing has loaded, so effects keyed on rows don't rerun
+const NO_ROWS: never[] = [];
+
+/**
+ * One page of an entity table filtered, sorted and counted in the database.
+ * Cached per parameter set under the table name, so invalidating e.g. ['contacts'] refreshes
+ * every page; the previous page stays on screen while the next one loads.
+ */
+export const useServerTable = <T,>(
+  config: ServerTableConfig<T>,
+  params: ServerTableParams,
+  onPageOutOfRange?: (lastPage: number) => void,
+) => {
+  const { data, isLoading, isFetching, refetch } = useQuery({
+    queryKey: [config.table, 'page', params],
+    queryFn: () => fetchTablePage(config, params),
+    placeholderData: keepPreviousData,
+    staleTime: 2 * 60 * 1000,
+  });
+
+  const total = data?.total ?? 0;
+  const totalPages = Math.max(1, Math.ceil(total / params.pageSize));
+
+  // Deletes or narrower filters can leave the current page past the end
+  useEffect(() => {
+    if (data && params.page > totalPages) onPageOutOfRange?.(totalPages);
+  }, [data, params.page, totalPages, onPageOutOfRange]);
+
+  return {
+    rows: data?.rows ?? NO_ROWS,
+    total,
+    totalPages,
+    loading: isLoading,
+    fetching: isFetching,
+    refetch,
+  };
+};
@@ -3,9 +3,13 @@ import { useState } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
 import { toast } from '@/hooks/use-toast';
+import { ToastAction } from '@/components/ui/toast';
 import { GenericCSVProcessor } from './import-export/genericCSVProcessor';
 import { GenericCSVExporter } from './import-export/genericCSVExporter';
+import { fetchCustomFields } from './useCustomFields';
 import { getExportFilename } from '@/utils/exportUtils';
+import { readSpreadsheetFile, SpreadsheetFormat } from '@/utils/spreadsheetFile';
+import { downloadImportErrorReport } from './import-export/importErrorReport';
 
 // Contacts field order - Removed website, industry, region, country, segment as per requirements
 const CONTACTS_EXPORT_FIELDS = [
@@ -32,10 +36,10 @@ export const useSimpleContactsImportExport = (onRefresh: () => void) => {
     setIsImporting(true);
     
     try {
-      const text = await file.text();
+      const sheet = await readSpreadsheetFile(file);
       const processor = new GenericCSVProcessor();
       
-      const result = await processor.processCSV(text, {
+      const result = await processor.processSheet(sheet, {
         tableName: 'contacts',
         userId: user.id,
         onProgress: (processed, total) => {
@@ -43,13 +47,19 @@ export const useSimpleContactsImportExport = (onRefresh: () => void) => {
         }
       });
 
-      const { successCount, updateCount, errorCount } = result;
+      const { successCount, updateCount, errorCount, errors } = result;
       const message = `Import completed: ${successCount} new, ${updateCount} updated, ${errorCount} errors`;
+      const errorReportAction = errors.length > 0 ? (
+        <ToastAction altText="Download error report" onClick={() => downloadImportErrorReport('contacts', errors)}>
+          Error report
+        </ToastAction>
+      ) : undefined;
       
       if (successCount > 0 || updateCount > 0) {
         toast({
           title: "Import Successful",
           description: message,
+          action: errorReportAction,
         });
         
         // Trigger real-time refresh
@@ -64,6 +74,7 @@ export const useSimpleContactsImportExport = (onRefresh: () => void) => {
           title: "Import Failed",
           description: message,
           variant: "destructive",
+          action: errorReportAction,
         });
       }
 
@@ -79,7 +90,7 @@ export const useSimpleContactsImportExport = (onRefresh: () => void) => {
     }
   };
 
-  const handleExport = async () => {
+  const handleExport = async (format: SpreadsheetFormat = 'csv') => {
     try {
       const { data: contacts, error } = await supabase
         .from('contacts')
@@ -97,9 +108,10 @@ export const useSimpleContactsImportExport = (onRefresh: () => void) => {
         return;
       }
 
-      const filename = getExportFilename('contacts', 'all');
+      const filename = getExportFilename('contacts', 'all', format);
       const exporter = new GenericCSVExporter();
-      await exporter.exportToCSV(contacts, filename, CONTACTS_EXPORT_FIELDS);
+      const customFields = await fetchCustomFields('contact');
+      await exporter.exportToCSV(contacts, filename, CONTACTS_EXPORT_FIELDS, customFields, format);
 
       toast({
         title: "Export Successful",
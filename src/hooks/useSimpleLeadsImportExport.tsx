@@ -2,8 +2,11 @@
 import { useState } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { ToastAction } from '@/components/ui/toast';
 import { LeadsCSVProcessor } from '@/hooks/import-export/leadsCSVProcessor';
 import { LeadsCSVExporter } from '@/hooks/import-export/leadsCSVExporter';
+import { downloadImportErrorReport } from '@/hooks/import-export/importErrorReport';
+import { downloadSpreadsheet, readSpreadsheetFile, SpreadsheetFormat } from '@/utils/spreadsheetFile';
 
 interface Lead {
   id: string;
@@ -38,11 +41,11 @@ export const useSimpleLeadsImportExport = (onImportComplete: () => void) => {
         throw new Error('User not authenticated');
       }
 
-      const text = await file.text();
+      const sheet = await readSpreadsheetFile(file);
       console.log('Starting leads import with new processor...');
 
       const processor = new LeadsCSVProcessor();
-      const result = await processor.processCSV(text, {
+      const result = await processor.processSheet(sheet, {
         userId: user.id,
         onProgress: (processed, total) => {
           console.log(`Processing: ${processed}/${total}`);
@@ -63,6 +66,11 @@ export const useSimpleLeadsImportExport = (onImportComplete: () => void) => {
           title: "Import Errors",
           description: `${result.errorCount} errors occurred. Sample: ${errorSample}${result.errors.length > 3 ? '...' : ''}`,
           variant: "destructive",
+          action: (
+            <ToastAction altText="Download error report" onClick={() => downloadImportErrorReport('leads', result.errors)}>
+              Error report
+            </ToastAction>
+          ),
         });
       }
 
@@ -80,7 +88,7 @@ export const useSimpleLeadsImportExport = (onImportComplete: () => void) => {
     }
   };
 
-  const handleExport = async () => {
+  const handleExport = async (format: SpreadsheetFormat = 'csv') => {
     try {
       const { data, error } = await supabase
         .from('leads')
@@ -101,22 +109,13 @@ export const useSimpleLeadsImportExport = (onImportComplete: () => void) => {
 
       console.log('Starting leads export with new exporter...');
       const exporter = new LeadsCSVExporter();
-      const csvContent = await exporter.exportLeads(data);
-
-      // Download the file
-      const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-      const url = window.URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.setAttribute('href', url);
-      a.setAttribute('download', `leads_export_${new Date().toISOString().split('T')[0]}.csv`);
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      window.URL.revokeObjectURL(url);
+      const { headers, rows } = await exporter.exportLeads(data);
+
+      downloadSpreadsheet(headers, rows, `leads_export_${new Date().toISOString().split('T')[0]}`, format, 'Leads');
 
       toast({
         title: "Export Successful",
-        description: `Exported ${data.length} leads to CSV.`,
+        description: `Exported ${data.length} leads to ${format === 'xlsx' ? 'Excel' : 'CSV'}.`,
       });
 
     } catch (error: any) {
@@ -0,0 +1,106 @@
+import { useCallback, useState } from 'react';
+import { Deal, DealStage, DEAL_FIELD_LABELS, getMissingStageFields } from '@/types/deal';
+import { usePipelineStages } from '@/hooks/usePipelineStages';
+
+export type MoveDealStage = (
+  dealId: string,
+  stage: DealStage,
+  changes: Partial<Deal>
+) => Promise<{ heldForApproval?: boolean } | void>;
+
+// A deal waiting in the "complete stage" form before it can enter the stage
+export interface StageGate {
+  deal: Deal;
+  stage: DealStage;
+  missingFields: string[];
+  // Applied together with the filled-in fields, e.g. the new stage's default probability
+  changes: Partial<Deal>;
+}
+
+export interface StageMoveSummary {
+  moved: number;
+  held: number;
+  // One message per deal that could not be moved
+  errors: string[];
+  // Queued for the complete-stage form
+  gated: number;
+}
+
+// move_deal_stage reports missing entry criteria as a check_violation listing the fields
+export const describeStageMoveError = (error: unknown): string => {
+  const { code, details, message } = (error || {}) as { code?: string; details?: string; message?: string };
+  if (code === '23514' && details) {
+    const fields = details.split(',').map(field => DEAL_FIELD_LABELS[field] || field);
+    return `Missing ${fields.join(', ')}`;
+  }
+  return message || 'Failed to update deal stage';
+};
+
+/**
+ * Stage changes that respect each stage's entry criteria. Deals that already meet them move
+ * straight away; the rest queue up for the complete-stage form (see StageGateDialog), which
+ * commits the missing fields and the stage in one update.
+ */
+export const useStageGate = (onMoveDealStage: MoveDealStage) => {
+  const { stages, getProbabilityForStageChange } = usePipelineStages();
+  const [queue, setQueue] = useState<StageGate[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const moveToStage = useCallback(async (deals: Deal[], stage: DealStage): Promise<StageMoveSummary> => {
+    const summary: StageMoveSummary = { moved: 0, held: 0, errors: [], gated: 0 };
+    const gated: StageGate[] = [];
+
+    for (const deal of deals) {
+      if (deal.stage === stage) continue;
+      const changes: Partial<Deal> = {};
+      const probability = getProbabilityForStageChange(deal.stage, stage, deal.probability);
+      if (probability !== undefined) changes.probability = probability;
+
+      const missingFields = getMissingStageFields({ ...deal, ...changes }, stage, stages);
+      if (missingFields.length > 0) {
+        gated.push({ deal, stage, missingFields, changes });
+        continue;
+      }
+
+      try {
+        const result = await onMoveDealStage(deal.id, stage, changes);
+        if (result && result.heldForApproval) summary.held++;
+        else summary.moved++;
+      } catch (error: unknown) {
+        console.error('Error moving deal stage:', error);
+        summary.errors.push(describeStageMoveError(error));
+      }
+    }
+
+    summary.gated = gated.length;
+    if (gated.length > 0) setQueue(prev => [...prev, ...gated]);
+    return summary;
+  }, [stages, getProbabilityForStageChange, onMoveDealStage]);
+
+  // Commit the current gate with the values entered in the form
+  const completeGate = useCallback(async (values: Partial<Deal>) => {
+    const gate = queue[0];
+    if (!gate) return;
+    setIsSubmitting(true);
+    try {
+      const result = await onMoveDealStage(gate.deal.id, gate.stage, { ...gate.changes, ...values });
+      setQueue(prev => prev.slice(1));
+      return result;
+    } finally {
+      setIsSubmitting(false);
+    }
+  }, [queue, onMoveDealStage]);
+
+  const skipGate = useCallback(() => setQueue(prev => prev.slice(1)), []);
+  const cancelGates = useCallback(() => setQueue([]), []);
+
+  return {
+    moveToStage,
+    gate: queue[0] || null,
+    remaining: queue.length,
+    completeGate,
+    skipGate,
+    cancelGates,
+    isSubmitting,
+  };
+};
@@ -2,7 +2,7 @@ import { useCallback } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
 import { toast } from '@/hooks/use-toast';
-import { Task, CreateTaskData, TaskStatus } from '@/types/task';
+import { Task, CreateTaskData, TaskStatus, TaskSeriesEditScope } from '@/types/task';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 
 // Helper to send task notification email
@@ -152,10 +152,20 @@ export const useTasks = () => {
 
   // Update task mutation
   const updateTaskMutation = useMutation({
-    mutationFn: async ({ taskId, updates, originalTask }: { taskId: string; updates: Partial<Task>; originalTask?: Task }) => {
+    mutationFn: async ({ taskId, updates, originalTask, scope }: {
+      taskId: string;
+      updates: Partial<Task>;
+      originalTask?: Task;
+      scope?: TaskSeriesEditScope;
+    }) => {
       if (!user?.id) throw new Error('User not authenticated');
 
       const updateData: any = { ...updates };
+
+      // An occurrence edited on its own no longer supplies the values for the next occurrence
+      if (scope) {
+        updateData.recurrence_exception = scope === 'occurrence';
+      }
       
       // If status is changing to completed, set completed_at
       if (updates.status === 'completed') {
@@ -171,6 +181,25 @@ export const useTasks = () => {
 
       if (error) throw error;
 
+      // Carry shared fields to the other open occurrences; dates stay per occurrence
+      if (scope === 'series' && originalTask?.recurrence_series_id) {
+        const {
+          due_date: _dueDate,
+          reminder_date: _reminderDate,
+          status: _status,
+          ...seriesUpdates
+        } = updates;
+
+        const { error: seriesError } = await supabase
+          .from('tasks')
+          .update({ ...seriesUpdates, recurrence_exception: false })
+          .eq('recurrence_series_id', originalTask.recurrence_series_id)
+          .neq('id', taskId)
+          .in('status', ['open', 'in_progress']);
+
+        if (seriesError) throw seriesError;
+      }
+
       // Get current user's name for notifications
       const updaterName = await getCurrentUserName(user.id);
 
@@ -373,9 +402,9 @@ export const useTasks = () => {
     }
   };
 
-  const updateTask = async (taskId: string, updates: Partial<Task>, originalTask?: Task) => {
+  const updateTask = async (taskId: string, updates: Partial<Task>, originalTask?: Task, scope?: TaskSeriesEditScope) => {
     try {
-      await updateTaskMutation.mutateAsync({ taskId, updates, originalTask });
+      await updateTaskMutation.mutateAsync({ taskId, updates, originalTask, scope });
       return true;
     } catch {
       return false;
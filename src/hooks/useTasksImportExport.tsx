@@ -2,9 +2,12 @@ import { useState } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
 import { toast } from '@/hooks/use-toast';
+import { ToastAction } from '@/components/ui/toast';
 import { Task, TaskStatus, TaskPriority, TaskModuleType } from '@/types/task';
 import { format } from 'date-fns';
 import { UserNameUtils } from '@/utils/userNameUtils';
+import { downloadSpreadsheet, readSpreadsheetFile, SpreadsheetFormat } from '@/utils/spreadsheetFile';
+import { downloadImportErrorReport } from '@/hooks/import-export/importErrorReport';
 
 interface ImportResult {
   success: number;
@@ -17,7 +20,7 @@ export const useTasksImportExport = (tasks: Task[], onRefresh: () => void) => {
   const [importing, setImporting] = useState(false);
   const [exporting, setExporting] = useState(false);
 
-  const exportToCSV = async () => {
+  const exportToCSV = async (exportFormat: SpreadsheetFormat = 'csv') => {
     setExporting(true);
     try {
       // Collect user IDs for display names
@@ -77,22 +80,9 @@ export const useTasksImportExport = (tasks: Task[], onRefresh: () => void) => {
         ];
       });
 
-      const csvContent = [
-        headers.join(','),
-        ...rows.map(row => row.map(cell => `"${String(cell).replace(/"/g, '""')}"`).join(',')),
-      ].join('\n');
-
-      const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-      const url = URL.createObjectURL(blob);
-      const link = document.createElement('a');
-      link.href = url;
-      link.download = `tasks_export_${format(new Date(), 'yyyy-MM-dd_HHmmss')}.csv`;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      URL.revokeObjectURL(url);
-
-      toast({ title: 'Success', description: `Exported ${tasks.length} tasks to CSV` });
+      downloadSpreadsheet(headers, rows, `tasks_export_${format(new Date(), 'yyyy-MM-dd_HHmmss')}`, exportFormat, 'Tasks');
+
+      toast({ title: 'Success', description: `Exported ${tasks.length} tasks to ${exportFormat === 'xlsx' ? 'Excel' : 'CSV'}` });
     } catch (error: any) {
       console.error('Export error:', error);
       toast({ title: 'Error', description: 'Failed to export tasks', variant: 'destructive' });
@@ -101,41 +91,6 @@ export const useTasksImportExport = (tasks: Task[], onRefresh: () => void) => {
     }
   };
 
-  const parseCSV = (content: string): string[][] => {
-    const lines = content.split('\n');
-    const result: string[][] = [];
-    
-    for (const line of lines) {
-      if (!line.trim()) continue;
-      
-      const row: string[] = [];
-      let cell = '';
-      let inQuotes = false;
-      
-      for (let i = 0; i < line.length; i++) {
-        const char = line[i];
-        
-        if (char === '"') {
-          if (inQuotes && line[i + 1] === '"') {
-            cell += '"';
-            i++;
-          } else {
-            inQuotes = !inQuotes;
-          }
-        } else if (char === ',' && !inQuotes) {
-          row.push(cell.trim());
-          cell = '';
-        } else {
-          cell += char;
-        }
-      }
-      row.push(cell.trim());
-      result.push(row);
-    }
-    
-    return result;
-  };
-
   const importFromCSV = async (file: File): Promise<ImportResult> => {
     if (!user?.id) {
       return { success: 0, failed: 0, errors: ['User not authenticated'] };
@@ -145,15 +100,18 @@ export const useTasksImportExport = (tasks: Task[], onRefresh: () => void) => {
     const result: ImportResult = { success: 0, failed: 0, errors: [] };
 
     try {
-      const content = await file.text();
-      const rows = parseCSV(content);
+      const sheet = await readSpreadsheetFile(file);
       
-      if (rows.length < 2) {
-        throw new Error('CSV file is empty or has no data rows');
+      if (sheet.rows.length === 0) {
+        throw new Error(sheet.errors[0] || 'File is empty or has no data rows');
       }
 
-      const headers = rows[0].map(h => h.toLowerCase().trim());
-      const dataRows = rows.slice(1);
+      const headers = sheet.headers.map(h => h.toLowerCase().trim());
+      const dataRows = sheet.rows;
+
+      // Rows the parser couldn't read count as failures
+      result.errors.push(...sheet.errors);
+      result.failed += sheet.errors.length;
 
       const titleIndex = headers.findIndex(h => h.includes('title'));
       const descIndex = headers.findIndex(h => h.includes('description'));
@@ -164,7 +122,7 @@ export const useTasksImportExport = (tasks: Task[], onRefresh: () => void) => {
       const assignedToIndex = headers.findIndex(h => h.includes('assigned') || h === 'assigned to' || h === 'assigned_to');
 
       if (titleIndex === -1) {
-        throw new Error('CSV must have a "Title" column');
+        throw new Error('File must have a "Title" column');
       }
 
       // Collect user names for lookup
@@ -183,7 +141,7 @@ export const useTasksImportExport = (tasks: Task[], onRefresh: () => void) => {
 
       for (let i = 0; i < dataRows.length; i++) {
         const row = dataRows[i];
-        const rowNum = i + 2;
+        const rowNum = sheet.rowNumbers[i];
 
         try {
           const title = row[titleIndex]?.trim();
@@ -264,6 +222,11 @@ export const useTasksImportExport = (tasks: Task[], onRefresh: () => void) => {
         title: 'Import Complete',
         description: `${result.success} tasks imported, ${result.failed} failed`,
         variant: result.failed > 0 ? 'destructive' : 'default',
+        action: result.errors.length > 0 ? (
+          <ToastAction altText="Download error report" onClick={() => downloadImportErrorReport('tasks', result.errors)}>
+            Error report
+          </ToastAction>
+        ) : undefined,
       });
 
     } catch (error: any) {
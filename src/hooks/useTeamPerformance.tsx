@@ -0,0 +1,258 @@
+import { useMemo } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { fetchAllRows } from '@/utils/serverTableQuery';
+import { useCurrencyConverter } from '@/hooks/useCurrencyConverter';
+import { usePipelineStages } from '@/hooks/usePipelineStages';
+import {
+  CurrencyConverter,
+  CurrencyTotals,
+  getDealConversionDate,
+  getDealCurrency,
+} from '@/utils/currencyConversion';
+import {
+  RepAttainment,
+  RepPerformance,
+  RepRevenueTarget,
+  TeamPerformanceCounts,
+  TeamPerformancePeriod,
+  TeamStageMetric,
+} from '@/types/teamPerformance';
+
+export const TEAM_PERFORMANCE_QUERY_KEY = ['team-performance'];
+export const TEAM_STAGE_METRICS_QUERY_KEY = ['team-stage-metrics'];
+export const TEAM_DEALS_QUERY_KEY = ['team-deals'];
+export const REP_TARGETS_QUERY_KEY = ['team-rep-targets'];
+
+// Stable fallbacks so memoised results and effects don't rerun while a query has no data
+const NO_DEALS: TeamDeal[] = [];
+const NO_TARGETS: RepRevenueTarget[] = [];
+const NO_COUNTS: TeamPerformanceCounts[] = [];
+
+interface TeamDeal {
+  id: string;
+  created_by: string | null;
+  stage: string | null;
+  total_contract_value: number | null;
+  total_revenue: number | null;
+  currency_type: string | null;
+  signed_contract_date: string | null;
+  expected_closing_date: string | null;
+  created_at: string | null;
+}
+
+const fetchTeamDeals = (): Promise<TeamDeal[]> =>
+  fetchAllRows((from, to) =>
+    supabase
+      .from('deals')
+      .select('id, created_by, stage, total_contract_value, total_revenue, currency_type, signed_contract_date, expected_closing_date, created_at')
+      .order('created_at')
+      .order('id')
+      .range(from, to)
+  );
+
+const inPeriod = (date: string | null, period: TeamPerformancePeriod) =>
+  !!date && date.slice(0, 10) >= period.from && date.slice(0, 10) < period.to;
+
+// Won revenue follows the revenue summary: won deals by signing date, using total_revenue
+const sumWonRevenue = (
+  deals: TeamDeal[],
+  period: TeamPerformancePeriod,
+  isWon: (stage: string | null) => boolean,
+  converter: CurrencyConverter,
+) => {
+  const byRep = new Map<string, CurrencyTotals>();
+  deals.forEach(deal => {
+    if (!deal.created_by || !isWon(deal.stage) || !inPeriod(deal.signed_contract_date, period)) return;
+    if (!byRep.has(deal.created_by)) byRep.set(deal.created_by, new CurrencyTotals(converter));
+    byRep.get(deal.created_by)!.add(Number(deal.total_revenue) || 0, getDealCurrency(deal), getDealConversionDate(deal, isWon));
+  });
+  return byRep;
+};
+
+/**
+ * Team counts for a period combined with pipeline and won revenue per rep in the reporting
+ * currency. Only managers and admins can load it; the database rejects everyone else.
+ */
+export const useTeamPerformance = (period: TeamPerformancePeriod, enabled = true) => {
+  const { converter, reportingCurrency, isLoading: ratesLoading } = useCurrencyConverter();
+  const { isWonStage, isClosedStage } = usePipelineStages();
+
+  const { data: counts = NO_COUNTS, isLoading: countsLoading, error } = useQuery({
+    queryKey: [...TEAM_PERFORMANCE_QUERY_KEY, period.from, period.to],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_team_performance', {
+        p_from: period.from,
+        p_to: period.to,
+      });
+      if (error) throw error;
+      return (data || []) as TeamPerformanceCounts[];
+    },
+    enabled,
+    staleTime: 60 * 1000,
+  });
+
+  const { data: deals = NO_DEALS, isLoading: dealsLoading } = useQuery({
+    queryKey: TEAM_DEALS_QUERY_KEY,
+    queryFn: fetchTeamDeals,
+    enabled,
+    staleTime: 60 * 1000,
+  });
+
+  const result = useMemo(() => {
+    const reps = new Map<string, RepPerformance>();
+    const entry = (repId: string) => {
+      if (!reps.has(repId)) {
+        reps.set(repId, {
+          rep_id: repId,
+          deals_created: 0,
+          deals_won: 0,
+          deals_lost: 0,
+          win_rate: null,
+          meetings_held: 0,
+          tasks_completed: 0,
+          emails_sent: 0,
+          pipelineValue: 0,
+          openDeals: 0,
+          wonRevenue: 0,
+        });
+      }
+      return reps.get(repId)!;
+    };
+
+    counts.forEach(row => Object.assign(entry(row.rep_id), row, { win_rate: row.win_rate === null ? null : Number(row.win_rate) }));
+    if (!converter) return { reps: Array.from(reps.values()), hasUnconverted: false };
+
+    let hasUnconverted = false;
+    deals.forEach(deal => {
+      if (!deal.created_by || isClosedStage(deal.stage)) return;
+      const amount = Number(deal.total_contract_value) || 0;
+      const value = converter.convert(amount, getDealCurrency(deal), getDealConversionDate(deal, isWonStage));
+      if (value === null && amount) hasUnconverted = true;
+      const rep = entry(deal.created_by);
+      rep.openDeals++;
+      rep.pipelineValue += value || 0;
+    });
+
+    sumWonRevenue(deals, period, isWonStage, converter).forEach((totals, repId) => {
+      if (Object.keys(totals.unconverted).length > 0) hasUnconverted = true;
+      entry(repId).wonRevenue = totals.converted;
+    });
+
+    return { reps: Array.from(reps.values()), hasUnconverted };
+  }, [counts, deals, converter, period, isWonStage, isClosedStage]);
+
+  return {
+    ...result,
+    reportingCurrency,
+    loading: countsLoading || dealsLoading || ratesLoading,
+    error,
+  };
+};
+
+/**
+ * Stage-to-stage conversion and average days in stage per rep, for deals entering a stage in the period
+ */
+export const useTeamStageMetrics = (period: TeamPerformancePeriod, enabled = true) => {
+  const { data: metrics = [], isLoading: loading } = useQuery({
+    queryKey: [...TEAM_STAGE_METRICS_QUERY_KEY, period.from, period.to],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_team_stage_metrics', {
+        p_from: period.from,
+        p_to: period.to,
+      });
+      if (error) throw error;
+      return (data || []).map(row => ({
+        ...row,
+        conversion_rate: Number(row.conversion_rate),
+        avg_days_in_stage: row.avg_days_in_stage === null ? null : Number(row.avg_days_in_stage),
+      })) as TeamStageMetric[];
+    },
+    enabled,
+    staleTime: 60 * 1000,
+  });
+
+  return { metrics, loading };
+};
+
+/**
+ * Per-rep revenue targets for a year with each rep's won revenue for that year, in the reporting currency
+ */
+export const useRepAttainment = (year: number, enabled = true) => {
+  const { converter, isLoading: ratesLoading } = useCurrencyConverter();
+  const { isWonStage } = usePipelineStages();
+
+  const { data: targets = NO_TARGETS, isLoading: targetsLoading } = useQuery({
+    queryKey: [...REP_TARGETS_QUERY_KEY, year],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('rep_revenue_targets')
+        .select('id, user_id, year, target, currency')
+        .eq('year', year);
+      if (error) throw error;
+      return (data || []) as RepRevenueTarget[];
+    },
+    enabled,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const { data: deals = NO_DEALS, isLoading: dealsLoading } = useQuery({
+    queryKey: TEAM_DEALS_QUERY_KEY,
+    queryFn: fetchTeamDeals,
+    enabled,
+    staleTime: 60 * 1000,
+  });
+
+  const attainment = useMemo(() => {
+    const byRep: Record<string, RepAttainment> = {};
+    if (!converter) return byRep;
+
+    const yearPeriod = { from: `${year}-01-01`, to: `${year + 1}-01-01` };
+    sumWonRevenue(deals, yearPeriod, isWonStage, converter).forEach((totals, repId) => {
+      byRep[repId] = { target: null, wonRevenue: totals.converted, attainment: null };
+    });
+
+    // Targets are converted at the rate valid when the year starts, as in the revenue summary
+    targets.forEach(target => {
+      const amount = Number(target.target) || 0;
+      const converted = converter.convert(amount, target.currency, yearPeriod.from) ?? amount;
+      const entry = byRep[target.user_id] || { target: null, wonRevenue: 0, attainment: null };
+      byRep[target.user_id] = {
+        ...entry,
+        target: converted,
+        attainment: converted > 0 ? Math.round((entry.wonRevenue / converted) * 1000) / 10 : null,
+      };
+    });
+    return byRep;
+  }, [targets, deals, converter, year, isWonStage]);
+
+  return { targets, attainment, loading: targetsLoading || dealsLoading || ratesLoading };
+};
+
+export const useRepTargetActions = () => {
+  const queryClient = useQueryClient();
+
+  const saveTargetsMutation = useMutation({
+    mutationFn: async (targets: Array<Pick<RepRevenueTarget, 'user_id' | 'year' | 'target' | 'currency'>>) => {
+      const { data: { user } } = await supabase.auth.getUser();
+      const { error } = await supabase
+        .from('rep_revenue_targets')
+        .upsert(targets.map(t => ({ ...t, created_by: user?.id })), { onConflict: 'user_id,year' });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: REP_TARGETS_QUERY_KEY });
+      toast.success('Rep targets saved');
+    },
+    onError: (error: Error) => {
+      console.error('Error saving rep targets:', error);
+      toast.error(error?.message || 'Failed to save rep targets');
+    },
+  });
+
+  return {
+    saveTargets: saveTargetsMutation.mutateAsync,
+    isSaving: saveTargetsMutation.isPending,
+  };
+};
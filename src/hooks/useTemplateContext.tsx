@@ -0,0 +1,95 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { fetchPipelineStages } from '@/hooks/usePipelineStages';
+import { buildTemplateContext, TemplateContext, TemplateRecords } from '@/utils/templateEngine';
+
+export interface TemplateTarget {
+  contactId?: string | null;
+  leadId?: string | null;
+  accountId?: string | null;
+  recipientName?: string | null;
+  recipientEmail?: string | null;
+}
+
+/**
+ * Merge-field context for one record: the record itself, its account, linked deals, the record
+ * owner and the signed-in sender. Mirrors loadTemplateContext in the email edge functions.
+ */
+export const fetchTemplateContext = async (target: TemplateTarget, senderId?: string | null): Promise<TemplateContext> => {
+  const records: TemplateRecords = {
+    recipient: { name: target.recipientName, email: target.recipientEmail },
+  };
+
+  if (target.contactId) {
+    const { data } = await supabase.from('contacts').select('*').eq('id', target.contactId).maybeSingle();
+    records.contact = data;
+  } else if (target.leadId) {
+    const { data } = await supabase.from('leads').select('*').eq('id', target.leadId).maybeSingle();
+    records.lead = data;
+  }
+
+  const subject = records.contact || records.lead;
+  const accountId = target.accountId || (subject?.account_id as string | null) || null;
+  if (accountId) {
+    const { data } = await supabase.from('accounts').select('*').eq('id', accountId).maybeSingle();
+    records.account = data;
+  }
+
+  const dealFilters = [
+    target.contactId && `contact_id.eq.${target.contactId}`,
+    target.leadId && `source_lead_id.eq.${target.leadId}`,
+    accountId && `account_id.eq.${accountId}`,
+  ].filter(Boolean);
+  if (dealFilters.length > 0) {
+    const [{ data }, stages] = await Promise.all([
+      supabase
+        .from('deals')
+        .select('deal_name, stage, total_contract_value, currency_type, expected_closing_date, probability, project_name')
+        .or(dealFilters.join(','))
+        .order('modified_at', { ascending: false, nullsFirst: false })
+        .limit(20),
+      fetchPipelineStages(),
+    ]);
+    records.deals = data;
+    records.closedStages = stages.filter(s => s.is_won_stage || s.is_lost_stage).map(s => s.stage_name);
+  }
+
+  const ownerId = (subject?.contact_owner || records.account?.account_owner) as string | null | undefined;
+  if (ownerId) {
+    const { data } = await supabase.from('profiles').select('full_name, "Email ID", phone').eq('id', ownerId).maybeSingle();
+    records.owner = data;
+  }
+
+  if (senderId) {
+    const [{ data: sender }, { data: preferences }] = await Promise.all([
+      supabase.from('profiles').select('full_name, "Email ID", phone').eq('id', senderId).maybeSingle(),
+      supabase.from('user_preferences').select('email_signature').eq('user_id', senderId).maybeSingle(),
+    ]);
+    records.sender = sender;
+    records.signature = preferences?.email_signature;
+  }
+
+  return buildTemplateContext(records);
+};
+
+export const useTemplateContext = (target: TemplateTarget | null, enabled = true) => {
+  const { user } = useAuth();
+
+  const { data: context = null, isLoading: loading } = useQuery({
+    queryKey: [
+      'template-context',
+      target?.contactId,
+      target?.leadId,
+      target?.accountId,
+      target?.recipientName,
+      target?.recipientEmail,
+      user?.id,
+    ],
+    queryFn: () => fetchTemplateContext(target!, user?.id),
+    enabled: enabled && !!target,
+    staleTime: 60 * 1000,
+  });
+
+  return { context, loading };
+};
@@ -1,7 +1,10 @@
 
-import { useState, useEffect } from "react";
 import { supabase } from "@/integrations/supabase/client";
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { getCurrencyContext } from "@/hooks/useCurrencyConverter";
+import { getPipelineStages } from "@/hooks/usePipelineStages";
+import { isWonStage } from "@/types/deal";
+import { CurrencyTotals, getDealConversionDate, getDealCurrency } from "@/utils/currencyConversion";
 
 interface QuarterlyData {
   q1: number;
@@ -10,31 +13,63 @@ interface QuarterlyData {
   q4: number;
 }
 
+// Amounts keyed by ISO currency code, as entered on the deals
+type CurrencyAmounts = Record<string, number>;
+
 interface YearlyRevenueData {
   year: number;
+  // All figures below are in the reporting currency
+  reportingCurrency: string;
   target: number;
+  // The target as it was entered, when that was in another currency
+  targetOriginal: { amount: number; currency: string } | null;
   actualRevenue: QuarterlyData;
   projectedRevenue: QuarterlyData;
   totalActual: number;
   totalProjected: number;
+  originalActual: CurrencyAmounts;
+  originalProjected: CurrencyAmounts;
+  // Amounts left out of the totals because no exchange rate reaches the reporting currency
+  unconverted: CurrencyAmounts;
   hasDeals: boolean;
 }
 
+const mergeAmounts = (...sources: CurrencyAmounts[]): CurrencyAmounts => {
+  const merged: CurrencyAmounts = {};
+  sources.forEach(source => Object.entries(source).forEach(([code, amount]) => {
+    merged[code] = (merged[code] || 0) + amount;
+  }));
+  return merged;
+};
+
 export const useYearlyRevenueData = (selectedYear: number) => {
+  const queryClient = useQueryClient();
   const { data: revenueData, isLoading, error } = useQuery({
     queryKey: ['yearly-revenue', selectedYear],
     queryFn: async (): Promise<YearlyRevenueData> => {
       console.log('Fetching revenue data for year:', selectedYear);
 
+      const { converter, reportingCurrency } = await getCurrencyContext(queryClient);
+      const stages = await getPipelineStages(queryClient);
+      const isWon = (stage?: string | null) => isWonStage(stage, stages);
+
       // Get yearly target
       const { data: targetData } = await supabase
         .from('yearly_revenue_targets')
-        .select('total_target')
+        .select('total_target, currency')
         .eq('year', selectedYear)
         .single();
 
       console.log('Target data:', targetData);
 
+      // Targets are converted at the rate valid when the year starts
+      const targetAmount = Number(targetData?.total_target || 0);
+      const targetCurrency = targetData?.currency || reportingCurrency;
+      const target = converter.convert(targetAmount, targetCurrency, `${selectedYear}-01-01`) ?? targetAmount;
+      const targetOriginal = targetCurrency !== reportingCurrency && targetAmount
+        ? { amount: targetAmount, currency: targetCurrency }
+        : null;
+
       // Get all deals and filter by year
       const { data: allDeals } = await supabase
         .from('deals')
@@ -56,17 +91,22 @@ export const useYearlyRevenueData = (selectedYear: number) => {
       if (dealsForYear.length === 0) {
         return {
           year: selectedYear,
-          target: targetData?.total_target || 0,
+          reportingCurrency,
+          target,
+          targetOriginal,
           actualRevenue: { q1: 0, q2: 0, q3: 0, q4: 0 },
           projectedRevenue: { q1: 0, q2: 0, q3: 0, q4: 0 },
           totalActual: 0,
           totalProjected: 0,
+          originalActual: {},
+          originalProjected: {},
+          unconverted: {},
           hasDeals: false
         };
       }
 
       // Separate Won and RFQ deals from filtered results
-      const wonDeals = dealsForYear.filter(deal => deal.stage === 'Won');
+      const wonDeals = dealsForYear.filter(deal => isWon(deal.stage));
       const rfqDeals = dealsForYear.filter(deal => deal.stage === 'RFQ');
 
       console.log('Won deals for year:', wonDeals);
@@ -75,44 +115,29 @@ export const useYearlyRevenueData = (selectedYear: number) => {
       const actualRevenue: QuarterlyData = { q1: 0, q2: 0, q3: 0, q4: 0 };
       const projectedRevenue: QuarterlyData = { q1: 0, q2: 0, q3: 0, q4: 0 };
 
-      let totalActualRevenue = 0;
-      let totalProjectedRevenue = 0;
+      const actualTotals = new CurrencyTotals(converter);
+      const projectedTotals = new CurrencyTotals(converter);
 
-      // Process Won deals for actual revenue
+      // Process Won deals for actual revenue, converted at the rate valid on the signing date
       wonDeals?.forEach(deal => {
-        console.log('Processing Won deal:', deal.deal_name, 'Total Revenue:', deal.total_revenue);
+        console.log('Processing Won deal:', deal.deal_name, 'Total Revenue:', deal.total_revenue, deal.currency_type);
         
         if (deal.total_revenue) {
           const revenue = Number(deal.total_revenue);
           if (!isNaN(revenue)) {
-            totalActualRevenue += revenue;
-            console.log('Added actual revenue:', revenue, 'Running total:', totalActualRevenue);
+            const currency = getDealCurrency(deal);
+            const date = getDealConversionDate(deal, isWon);
+            // Skip the quarterly split too when the deal can't be converted
+            if (actualTotals.add(revenue, currency, date) === null) return;
+            console.log('Added actual revenue:', revenue, currency, 'Running total:', actualTotals.converted);
             
             // Quarterly breakdown for actual revenue (Q1-Q4 Revenue from Won deals)
-            if (deal.quarterly_revenue_q1) {
-              const q1Revenue = Number(deal.quarterly_revenue_q1);
-              if (!isNaN(q1Revenue)) {
-                actualRevenue.q1 += q1Revenue;
-              }
-            }
-            if (deal.quarterly_revenue_q2) {
-              const q2Revenue = Number(deal.quarterly_revenue_q2);
-              if (!isNaN(q2Revenue)) {
-                actualRevenue.q2 += q2Revenue;
+            (['q1', 'q2', 'q3', 'q4'] as const).forEach(quarter => {
+              const quarterRevenue = Number(deal[`quarterly_revenue_${quarter}`]);
+              if (quarterRevenue && !isNaN(quarterRevenue)) {
+                actualRevenue[quarter] += converter.convert(quarterRevenue, currency, date) ?? 0;
               }
-            }
-            if (deal.quarterly_revenue_q3) {
-              const q3Revenue = Number(deal.quarterly_revenue_q3);
-              if (!isNaN(q3Revenue)) {
-                actualRevenue.q3 += q3Revenue;
-              }
-            }
-            if (deal.quarterly_revenue_q4) {
-              const q4Revenue = Number(deal.quarterly_revenue_q4);
-              if (!isNaN(q4Revenue)) {
-                actualRevenue.q4 += q4Revenue;
-              }
-            }
+            });
           }
         }
       });
@@ -122,10 +147,12 @@ export const useYearlyRevenueData = (selectedYear: number) => {
         console.log('Processing RFQ deal:', deal.deal_name, 'Total Contract Value:', deal.total_contract_value, 'Expected Closing:', deal.expected_closing_date);
         
         if (deal.total_contract_value) {
-          const contractValue = Number(deal.total_contract_value);
-          if (!isNaN(contractValue)) {
-            totalProjectedRevenue += contractValue;
-            console.log('Added projected revenue:', contractValue, 'Running total:', totalProjectedRevenue);
+          const originalValue = Number(deal.total_contract_value);
+          const contractValue = isNaN(originalValue)
+            ? null
+            : projectedTotals.add(originalValue, getDealCurrency(deal), getDealConversionDate(deal, isWon));
+          if (contractValue !== null) {
+            console.log('Added projected revenue:', contractValue, 'Running total:', projectedTotals.converted);
             
             // Determine quarter based on expected_closing_date
             if (deal.expected_closing_date) {
@@ -164,17 +191,22 @@ export const useYearlyRevenueData = (selectedYear: number) => {
         }
       });
 
-      console.log('Final totals - Actual:', totalActualRevenue, 'Projected:', totalProjectedRevenue);
+      console.log('Final totals - Actual:', actualTotals.converted, 'Projected:', projectedTotals.converted, reportingCurrency);
       console.log('Quarterly actual:', actualRevenue);
       console.log('Quarterly projected:', projectedRevenue);
 
       return {
         year: selectedYear,
-        target: targetData?.total_target || 0,
+        reportingCurrency,
+        target,
+        targetOriginal,
         actualRevenue,
         projectedRevenue,
-        totalActual: totalActualRevenue,
-        totalProjected: totalProjectedRevenue,
+        totalActual: actualTotals.converted,
+        totalProjected: projectedTotals.converted,
+        originalActual: actualTotals.original,
+        originalProjected: projectedTotals.original,
+        unconverted: mergeAmounts(actualTotals.unconverted, projectedTotals.unconverted),
         hasDeals: true
       };
     },
@@ -225,10 +257,15 @@ export const useAvailableYears = () => {
 
 // Hook to get live dashboard stats
 export const useDashboardStats = () => {
+  const queryClient = useQueryClient();
   const { data: stats, isLoading } = useQuery({
     queryKey: ['dashboard-stats'],
     queryFn: async () => {
       console.log('Fetching dashboard stats...');
+
+      const { converter, reportingCurrency } = await getCurrencyContext(queryClient);
+      const stages = await getPipelineStages(queryClient);
+      const isWon = (stage?: string | null) => isWonStage(stage, stages);
       
       const { data: deals } = await supabase
         .from('deals')
@@ -238,25 +275,28 @@ export const useDashboardStats = () => {
 
       const totalDeals = deals?.length || 0;
       
-      // Calculate total revenue from Won deals using total_revenue field
-      let totalRevenue = 0;
+      // Calculate total revenue from Won deals using total_revenue field, in the reporting currency
+      const revenueTotals = new CurrencyTotals(converter);
       deals?.forEach(deal => {
         console.log('Processing deal for dashboard:', deal.deal_name, 'Stage:', deal.stage, 'Total Revenue:', deal.total_revenue);
         
-        if (deal.stage === 'Won' && deal.total_revenue) {
+        if (isWon(deal.stage) && deal.total_revenue) {
           const revenue = Number(deal.total_revenue);
-          totalRevenue += revenue;
-          console.log('Adding revenue from Won deal:', revenue, 'Running total:', totalRevenue);
+          revenueTotals.add(revenue, getDealCurrency(deal), getDealConversionDate(deal, isWon));
+          console.log('Adding revenue from Won deal:', revenue, deal.currency_type, 'Running total:', revenueTotals.converted);
         }
       });
+      const totalRevenue = revenueTotals.converted;
       
-      console.log('Final dashboard total revenue:', totalRevenue);
+      console.log('Final dashboard total revenue:', totalRevenue, reportingCurrency);
       
-      const wonDeals = deals?.filter(deal => deal.stage === 'Won').length || 0;
+      const wonDeals = deals?.filter(deal => isWon(deal.stage)).length || 0;
 
       return {
         totalDeals,
         totalRevenue,
+        reportingCurrency,
+        unconvertedRevenue: revenueTotals.unconverted,
         wonDeals,
         todayMeetings: 0 // Remove meetings dependency
       };
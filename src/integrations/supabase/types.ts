@@ -73,6 +73,7 @@ export type Database = {
           country: string | null
           created_at: string | null
           created_by: string | null
+          custom_fields: Json
           deal_count: number | null
           email: string | null
           id: string
@@ -96,6 +97,7 @@ export type Database = {
           country?: string | null
           created_at?: string | null
           created_by?: string | null
+          custom_fields?: Json
           deal_count?: number | null
           email?: string | null
           id?: string
@@ -119,6 +121,7 @@ export type Database = {
           country?: string | null
           created_at?: string | null
           created_by?: string | null
+          custom_fields?: Json
           deal_count?: number | null
           email?: string | null
           id?: string
@@ -254,8 +257,10 @@ export type Database = {
           created_at: string | null
           current_step: number | null
           entity_id: string
+          entity_name: string | null
           entity_type: string
           id: string
+          pending_changes: Json | null
           status: string | null
           submitted_at: string | null
           submitted_by: string | null
@@ -267,8 +272,10 @@ export type Database = {
           created_at?: string | null
           current_step?: number | null
           entity_id: string
+          entity_name?: string | null
           entity_type: string
           id?: string
+          pending_changes?: Json | null
           status?: string | null
           submitted_at?: string | null
           submitted_by?: string | null
@@ -280,8 +287,10 @@ export type Database = {
           created_at?: string | null
           current_step?: number | null
           entity_id?: string
+          entity_name?: string | null
           entity_type?: string
           id?: string
+          pending_changes?: Json | null
           status?: string | null
           submitted_at?: string | null
           submitted_by?: string | null
@@ -460,6 +469,241 @@ export type Database = {
         }
         Relationships: []
       }
+      bulk_email_jobs: {
+        Row: {
+          body: string
+          completed_at: string | null
+          created_at: string
+          created_by: string | null
+          failed_count: number
+          id: string
+          last_error: string | null
+          rate_per_minute: number
+          scheduled_at: string
+          sender_email: string
+          sent_count: number
+          started_at: string | null
+          status: string
+          subject: string
+          template_id: string | null
+          total_count: number
+          updated_at: string
+        }
+        Insert: {
+          body?: string
+          completed_at?: string | null
+          created_at?: string
+          created_by?: string | null
+          failed_count?: number
+          id?: string
+          last_error?: string | null
+          rate_per_minute?: number
+          scheduled_at?: string
+          sender_email: string
+          sent_count?: number
+          started_at?: string | null
+          status?: string
+          subject: string
+          template_id?: string | null
+          total_count?: number
+          updated_at?: string
+        }
+        Update: {
+          body?: string
+          completed_at?: string | null
+          created_at?: string
+          created_by?: string | null
+          failed_count?: number
+          id?: string
+          last_error?: string | null
+          rate_per_minute?: number
+          scheduled_at?: string
+          sender_email?: string
+          sent_count?: number
+          started_at?: string | null
+          status?: string
+          subject?: string
+          template_id?: string | null
+          total_count?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bulk_email_jobs_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "email_templates"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      bulk_email_recipients: {
+        Row: {
+          account_id: string | null
+          attempts: number
+          contact_id: string | null
+          email_history_id: string | null
+          id: string
+          job_id: string
+          last_error: string | null
+          lead_id: string | null
+          locked_at: string | null
+          next_attempt_at: string | null
+          recipient_email: string
+          recipient_name: string | null
+          sent_at: string | null
+          status: string
+        }
+        Insert: {
+          account_id?: string | null
+          attempts?: number
+          contact_id?: string | null
+          email_history_id?: string | null
+          id?: string
+          job_id: string
+          last_error?: string | null
+          lead_id?: string | null
+          locked_at?: string | null
+          next_attempt_at?: string | null
+          recipient_email: string
+          recipient_name?: string | null
+          sent_at?: string | null
+          status?: string
+        }
+        Update: {
+          account_id?: string | null
+          attempts?: number
+          contact_id?: string | null
+          email_history_id?: string | null
+          id?: string
+          job_id?: string
+          last_error?: string | null
+          lead_id?: string | null
+          locked_at?: string | null
+          next_attempt_at?: string | null
+          recipient_email?: string
+          recipient_name?: string | null
+          sent_at?: string | null
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bulk_email_recipients_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bulk_email_recipients_contact_id_fkey"
+            columns: ["contact_id"]
+            isOneToOne: false
+            referencedRelation: "contacts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bulk_email_recipients_email_history_id_fkey"
+            columns: ["email_history_id"]
+            isOneToOne: false
+            referencedRelation: "email_history"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bulk_email_recipients_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "bulk_email_jobs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bulk_email_recipients_lead_id_fkey"
+            columns: ["lead_id"]
+            isOneToOne: false
+            referencedRelation: "leads"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      calendar_event_links: {
+        Row: {
+          conflict_resolution: string | null
+          created_at: string
+          crm_updated_at: string | null
+          external_etag: string | null
+          external_id: string
+          external_uid: string | null
+          external_updated_at: string | null
+          id: string
+          last_conflict_at: string | null
+          last_synced_at: string
+          meeting_id: string
+          provider: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          conflict_resolution?: string | null
+          created_at?: string
+          crm_updated_at?: string | null
+          external_etag?: string | null
+          external_id: string
+          external_uid?: string | null
+          external_updated_at?: string | null
+          id?: string
+          last_conflict_at?: string | null
+          last_synced_at?: string
+          meeting_id: string
+          provider: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          conflict_resolution?: string | null
+          created_at?: string
+          crm_updated_at?: string | null
+          external_etag?: string | null
+          external_id?: string
+          external_uid?: string | null
+          external_updated_at?: string | null
+          id?: string
+          last_conflict_at?: string | null
+          last_synced_at?: string
+          meeting_id?: string
+          provider?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "calendar_event_links_meeting_id_fkey"
+            columns: ["meeting_id"]
+            isOneToOne: false
+            referencedRelation: "meetings"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      calendar_feed_tokens: {
+        Row: {
+          created_at: string
+          last_accessed_at: string | null
+          token: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          last_accessed_at?: string | null
+          token: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          last_accessed_at?: string | null
+          token?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       contact_activities: {
         Row: {
           activity_date: string
@@ -520,6 +764,7 @@ export type Database = {
           contact_source: string | null
           created_by: string | null
           created_time: string | null
+          custom_fields: Json
           description: string | null
           email: string | null
           email_clicks: number | null
@@ -535,6 +780,8 @@ export type Database = {
           position: string | null
           region: string | null
           score: number | null
+          score_breakdown: Json | null
+          score_updated_at: string | null
           segment: string | null
           tags: string[] | null
           website: string | null
@@ -548,6 +795,7 @@ export type Database = {
           contact_source?: string | null
           created_by?: string | null
           created_time?: string | null
+          custom_fields?: Json
           description?: string | null
           email?: string | null
           email_clicks?: number | null
@@ -563,6 +811,8 @@ export type Database = {
           position?: string | null
           region?: string | null
           score?: number | null
+          score_breakdown?: Json | null
+          score_updated_at?: string | null
           segment?: string | null
           tags?: string[] | null
           website?: string | null
@@ -576,6 +826,7 @@ export type Database = {
           contact_source?: string | null
           created_by?: string | null
           created_time?: string | null
+          custom_fields?: Json
           description?: string | null
           email?: string | null
           email_clicks?: number | null
@@ -591,6 +842,8 @@ export type Database = {
           position?: string | null
           region?: string | null
           score?: number | null
+          score_breakdown?: Json | null
+          score_updated_at?: string | null
           segment?: string | null
           tags?: string[] | null
           website?: string | null
@@ -605,6 +858,42 @@ export type Database = {
           },
         ]
       }
+      conversion_field_mappings: {
+        Row: {
+          conversion_type: string
+          created_at: string
+          created_by: string | null
+          id: string
+          is_active: boolean
+          sort_order: number
+          source_field: string
+          target_field: string
+          updated_at: string
+        }
+        Insert: {
+          conversion_type: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          is_active?: boolean
+          sort_order?: number
+          source_field: string
+          target_field: string
+          updated_at?: string
+        }
+        Update: {
+          conversion_type?: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          is_active?: boolean
+          sort_order?: number
+          source_field?: string
+          target_field?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
       crm_custom_fields: {
         Row: {
           created_at: string
@@ -650,6 +939,30 @@ export type Database = {
         }
         Relationships: []
       }
+      currency_settings: {
+        Row: {
+          created_at: string
+          id: string
+          reporting_currency: string
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          reporting_currency?: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          reporting_currency?: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: []
+      }
       dashboard_preferences: {
         Row: {
           card_order: Json | null
@@ -730,6 +1043,44 @@ export type Database = {
           },
         ]
       }
+      deal_forecast_overrides: {
+        Row: {
+          amount: number | null
+          category: string | null
+          created_at: string
+          deal_id: string
+          note: string | null
+          set_by: string | null
+          updated_at: string
+        }
+        Insert: {
+          amount?: number | null
+          category?: string | null
+          created_at?: string
+          deal_id: string
+          note?: string | null
+          set_by?: string | null
+          updated_at?: string
+        }
+        Update: {
+          amount?: number | null
+          category?: string | null
+          created_at?: string
+          deal_id?: string
+          note?: string | null
+          set_by?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "deal_forecast_overrides_deal_id_fkey"
+            columns: ["deal_id"]
+            isOneToOne: true
+            referencedRelation: "deals"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       deal_stage_history: {
         Row: {
           changed_at: string
@@ -780,6 +1131,7 @@ export type Database = {
           created_by: string | null
           currency_type: string | null
           current_status: string | null
+          custom_fields: Json
           customer_challenges: string | null
           customer_name: string | null
           customer_need: string | null
@@ -788,6 +1140,7 @@ export type Database = {
           drop_reason: string | null
           end_date: string | null
           expected_closing_date: string | null
+          forecast_category: string | null
           handoff_status: string | null
           id: string
           implementation_start_date: string | null
@@ -813,6 +1166,7 @@ export type Database = {
           rfq_received_date: string | null
           rfq_status: string | null
           signed_contract_date: string | null
+          source_lead_id: string | null
           stage: string
           start_date: string | null
           total_contract_value: number | null
@@ -830,6 +1184,7 @@ export type Database = {
           created_by?: string | null
           currency_type?: string | null
           current_status?: string | null
+          custom_fields?: Json
           customer_challenges?: string | null
           customer_name?: string | null
           customer_need?: string | null
@@ -838,6 +1193,7 @@ export type Database = {
           drop_reason?: string | null
           end_date?: string | null
           expected_closing_date?: string | null
+          forecast_category?: string | null
           handoff_status?: string | null
           id?: string
           implementation_start_date?: string | null
@@ -863,6 +1219,7 @@ export type Database = {
           rfq_received_date?: string | null
           rfq_status?: string | null
           signed_contract_date?: string | null
+          source_lead_id?: string | null
           stage?: string
           start_date?: string | null
           total_contract_value?: number | null
@@ -880,6 +1237,7 @@ export type Database = {
           created_by?: string | null
           currency_type?: string | null
           current_status?: string | null
+          custom_fields?: Json
           customer_challenges?: string | null
           customer_name?: string | null
           customer_need?: string | null
@@ -888,6 +1246,7 @@ export type Database = {
           drop_reason?: string | null
           end_date?: string | null
           expected_closing_date?: string | null
+          forecast_category?: string | null
           handoff_status?: string | null
           id?: string
           implementation_start_date?: string | null
@@ -913,6 +1272,7 @@ export type Database = {
           rfq_received_date?: string | null
           rfq_status?: string | null
           signed_contract_date?: string | null
+          source_lead_id?: string | null
           stage?: string
           start_date?: string | null
           total_contract_value?: number | null
@@ -936,57 +1296,128 @@ export type Database = {
           },
         ]
       }
-      email_history: {
+      email_consent_events: {
         Row: {
-          account_id: string | null
-          body: string | null
-          bounce_reason: string | null
-          bounce_type: string | null
-          bounced_at: string | null
-          click_count: number | null
-          clicked_at: string | null
+          channel: string
           contact_id: string | null
-          conversation_id: string | null
           created_at: string
-          delivered_at: string | null
-          first_open_ip: string | null
+          created_by: string | null
+          email: string
+          email_history_id: string | null
           id: string
-          is_reply: boolean | null
-          is_valid_open: boolean | null
-          last_reply_at: string | null
           lead_id: string | null
-          message_id: string | null
-          open_count: number | null
-          opened_at: string | null
-          parent_email_id: string | null
-          recipient_email: string
-          recipient_name: string | null
-          replied_at: string | null
-          reply_count: number | null
-          sender_email: string
-          sent_at: string
-          sent_by: string | null
+          reason: string | null
+          source: string
           status: string
-          subject: string
-          thread_id: string | null
-          unique_opens: number | null
-          updated_at: string
+          topic: string
         }
         Insert: {
-          account_id?: string | null
-          body?: string | null
-          bounce_reason?: string | null
-          bounce_type?: string | null
-          bounced_at?: string | null
-          click_count?: number | null
-          clicked_at?: string | null
+          channel?: string
           contact_id?: string | null
-          conversation_id?: string | null
           created_at?: string
-          delivered_at?: string | null
-          first_open_ip?: string | null
+          created_by?: string | null
+          email: string
+          email_history_id?: string | null
           id?: string
-          is_reply?: boolean | null
+          lead_id?: string | null
+          reason?: string | null
+          source: string
+          status: string
+          topic?: string
+        }
+        Update: {
+          channel?: string
+          contact_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          email?: string
+          email_history_id?: string | null
+          id?: string
+          lead_id?: string | null
+          reason?: string | null
+          source?: string
+          status?: string
+          topic?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "email_consent_events_contact_id_fkey"
+            columns: ["contact_id"]
+            isOneToOne: false
+            referencedRelation: "contacts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "email_consent_events_lead_id_fkey"
+            columns: ["lead_id"]
+            isOneToOne: false
+            referencedRelation: "leads"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "email_consent_events_email_history_id_fkey"
+            columns: ["email_history_id"]
+            isOneToOne: false
+            referencedRelation: "email_history"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      email_history: {
+        Row: {
+          account_id: string | null
+          body: string | null
+          bounce_reason: string | null
+          bounce_type: string | null
+          bounced_at: string | null
+          click_count: number | null
+          clicked_at: string | null
+          contact_id: string | null
+          conversation_id: string | null
+          created_at: string
+          deal_id: string | null
+          delivered_at: string | null
+          first_open_ip: string | null
+          id: string
+          is_reply: boolean | null
+          is_valid_open: boolean | null
+          last_reply_at: string | null
+          lead_id: string | null
+          message_id: string | null
+          open_count: number | null
+          opened_at: string | null
+          parent_email_id: string | null
+          recipient_email: string
+          recipient_name: string | null
+          replied_at: string | null
+          reply_count: number | null
+          sender_email: string
+          sent_at: string
+          sent_by: string | null
+          sequence_enrollment_id: string | null
+          sequence_step_id: string | null
+          status: string
+          subject: string
+          thread_id: string | null
+          unique_opens: number | null
+          updated_at: string
+        }
+        Insert: {
+          account_id?: string | null
+          body?: string | null
+          bounce_reason?: string | null
+          bounce_type?: string | null
+          bounced_at?: string | null
+          click_count?: number | null
+          clicked_at?: string | null
+          contact_id?: string | null
+          conversation_id?: string | null
+          created_at?: string
+          deal_id?: string | null
+          delivered_at?: string | null
+          first_open_ip?: string | null
+          id?: string
+          is_reply?: boolean | null
           is_valid_open?: boolean | null
           last_reply_at?: string | null
           lead_id?: string | null
@@ -1001,6 +1432,8 @@ export type Database = {
           sender_email: string
           sent_at?: string
           sent_by?: string | null
+          sequence_enrollment_id?: string | null
+          sequence_step_id?: string | null
           status?: string
           subject: string
           thread_id?: string | null
@@ -1018,6 +1451,7 @@ export type Database = {
           contact_id?: string | null
           conversation_id?: string | null
           created_at?: string
+          deal_id?: string | null
           delivered_at?: string | null
           first_open_ip?: string | null
           id?: string
@@ -1036,6 +1470,8 @@ export type Database = {
           sender_email?: string
           sent_at?: string
           sent_by?: string | null
+          sequence_enrollment_id?: string | null
+          sequence_step_id?: string | null
           status?: string
           subject?: string
           thread_id?: string | null
@@ -1071,6 +1507,20 @@ export type Database = {
             referencedRelation: "email_history"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "email_history_sequence_enrollment_id_fkey"
+            columns: ["sequence_enrollment_id"]
+            isOneToOne: false
+            referencedRelation: "email_sequence_enrollments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "email_history_sequence_step_id_fkey"
+            columns: ["sequence_step_id"]
+            isOneToOne: false
+            referencedRelation: "email_sequence_steps"
+            referencedColumns: ["id"]
+          },
         ]
       }
       email_replies: {
@@ -1120,174 +1570,498 @@ export type Database = {
           },
         ]
       }
-      email_templates: {
+      email_sequence_enrollments: {
         Row: {
-          body: string
-          created_at: string
-          created_by: string | null
+          contact_id: string | null
+          current_step: number
+          enrolled_at: string
+          enrolled_by: string | null
           id: string
-          name: string
-          subject: string
+          last_email_id: string | null
+          last_error: string | null
+          lead_id: string | null
+          next_send_at: string | null
+          recipient_email: string
+          recipient_name: string | null
+          send_attempts: number
+          sequence_id: string
+          status: string
+          stop_reason: string | null
+          stopped_at: string | null
+          timezone: string
           updated_at: string
         }
         Insert: {
-          body: string
-          created_at?: string
-          created_by?: string | null
+          contact_id?: string | null
+          current_step?: number
+          enrolled_at?: string
+          enrolled_by?: string | null
           id?: string
-          name: string
-          subject: string
+          last_email_id?: string | null
+          last_error?: string | null
+          lead_id?: string | null
+          next_send_at?: string | null
+          recipient_email: string
+          recipient_name?: string | null
+          send_attempts?: number
+          sequence_id: string
+          status?: string
+          stop_reason?: string | null
+          stopped_at?: string | null
+          timezone?: string
           updated_at?: string
         }
         Update: {
-          body?: string
-          created_at?: string
-          created_by?: string | null
+          contact_id?: string | null
+          current_step?: number
+          enrolled_at?: string
+          enrolled_by?: string | null
           id?: string
-          name?: string
-          subject?: string
+          last_email_id?: string | null
+          last_error?: string | null
+          lead_id?: string | null
+          next_send_at?: string | null
+          recipient_email?: string
+          recipient_name?: string | null
+          send_attempts?: number
+          sequence_id?: string
+          status?: string
+          stop_reason?: string | null
+          stopped_at?: string | null
+          timezone?: string
           updated_at?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "email_sequence_enrollments_contact_id_fkey"
+            columns: ["contact_id"]
+            isOneToOne: false
+            referencedRelation: "contacts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "email_sequence_enrollments_last_email_id_fkey"
+            columns: ["last_email_id"]
+            isOneToOne: false
+            referencedRelation: "email_history"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "email_sequence_enrollments_lead_id_fkey"
+            columns: ["lead_id"]
+            isOneToOne: false
+            referencedRelation: "leads"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "email_sequence_enrollments_sequence_id_fkey"
+            columns: ["sequence_id"]
+            isOneToOne: false
+            referencedRelation: "email_sequences"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      import_export_settings: {
+      email_sequence_steps: {
         Row: {
           created_at: string
-          default_values: Json | null
-          entity_type: string
-          field_mappings: Json | null
+          day_offset: number
           id: string
-          skip_duplicates: boolean | null
-          updated_at: string
-          user_id: string
+          reply_to_previous: boolean
+          sequence_id: string
+          step_order: number
+          template_id: string
         }
         Insert: {
           created_at?: string
-          default_values?: Json | null
-          entity_type: string
-          field_mappings?: Json | null
+          day_offset?: number
           id?: string
-          skip_duplicates?: boolean | null
-          updated_at?: string
-          user_id: string
+          reply_to_previous?: boolean
+          sequence_id: string
+          step_order: number
+          template_id: string
         }
         Update: {
           created_at?: string
-          default_values?: Json | null
-          entity_type?: string
-          field_mappings?: Json | null
+          day_offset?: number
           id?: string
-          skip_duplicates?: boolean | null
-          updated_at?: string
-          user_id?: string
+          reply_to_previous?: boolean
+          sequence_id?: string
+          step_order?: number
+          template_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "email_sequence_steps_sequence_id_fkey"
+            columns: ["sequence_id"]
+            isOneToOne: false
+            referencedRelation: "email_sequences"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "email_sequence_steps_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "email_templates"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      integration_settings: {
+      email_sequences: {
         Row: {
-          config: Json | null
+          business_days: number[]
+          business_hours_end: string
+          business_hours_start: string
           created_at: string
+          created_by: string | null
+          default_timezone: string
+          description: string | null
           id: string
-          integration_name: string
-          is_enabled: boolean | null
-          last_sync_at: string | null
-          sync_status: string | null
+          is_active: boolean
+          name: string
           updated_at: string
         }
         Insert: {
-          config?: Json | null
+          business_days?: number[]
+          business_hours_end?: string
+          business_hours_start?: string
           created_at?: string
+          created_by?: string | null
+          default_timezone?: string
+          description?: string | null
           id?: string
-          integration_name: string
-          is_enabled?: boolean | null
-          last_sync_at?: string | null
-          sync_status?: string | null
+          is_active?: boolean
+          name: string
           updated_at?: string
         }
         Update: {
-          config?: Json | null
+          business_days?: number[]
+          business_hours_end?: string
+          business_hours_start?: string
           created_at?: string
+          created_by?: string | null
+          default_timezone?: string
+          description?: string | null
           id?: string
-          integration_name?: string
-          is_enabled?: boolean | null
-          last_sync_at?: string | null
-          sync_status?: string | null
+          is_active?: boolean
+          name?: string
           updated_at?: string
         }
         Relationships: []
       }
-      keep_alive: {
+      email_suppressions: {
         Row: {
-          "Able to read DB": string | null
+          channel: string
+          consent_event_id: string | null
           created_at: string
-          id: number
+          email: string
+          id: string
+          reason: string | null
+          source: string
+          topic: string
         }
         Insert: {
-          "Able to read DB"?: string | null
+          channel?: string
+          consent_event_id?: string | null
           created_at?: string
-          id?: number
+          email: string
+          id?: string
+          reason?: string | null
+          source: string
+          topic?: string
         }
         Update: {
-          "Able to read DB"?: string | null
+          channel?: string
+          consent_event_id?: string | null
           created_at?: string
-          id?: number
+          email?: string
+          id?: string
+          reason?: string | null
+          source?: string
+          topic?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "email_suppressions_consent_event_id_fkey"
+            columns: ["consent_event_id"]
+            isOneToOne: false
+            referencedRelation: "email_consent_events"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      lead_action_items: {
+      email_templates: {
         Row: {
-          assigned_to: string | null
+          body: string
           created_at: string
           created_by: string | null
-          due_date: string | null
           id: string
-          lead_id: string
-          next_action: string
-          status: string
+          name: string
+          subject: string
           updated_at: string
         }
         Insert: {
-          assigned_to?: string | null
+          body: string
           created_at?: string
           created_by?: string | null
-          due_date?: string | null
           id?: string
-          lead_id: string
-          next_action: string
-          status?: string
+          name: string
+          subject: string
           updated_at?: string
         }
         Update: {
-          assigned_to?: string | null
+          body?: string
           created_at?: string
           created_by?: string | null
-          due_date?: string | null
           id?: string
-          lead_id?: string
-          next_action?: string
-          status?: string
+          name?: string
+          subject?: string
           updated_at?: string
         }
         Relationships: []
       }
-      lead_statuses: {
+      exchange_rates: {
         Row: {
           created_at: string
           created_by: string | null
+          effective_date: string
+          from_currency: string
           id: string
-          is_active: boolean | null
-          is_converted_status: boolean | null
-          status_color: string | null
-          status_name: string
-          status_order: number
+          rate: number
+          to_currency: string
           updated_at: string
         }
         Insert: {
           created_at?: string
           created_by?: string | null
+          effective_date: string
+          from_currency: string
           id?: string
-          is_active?: boolean | null
-          is_converted_status?: boolean | null
+          rate: number
+          to_currency: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          effective_date?: string
+          from_currency?: string
+          id?: string
+          rate?: number
+          to_currency?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      forecast_snapshot_deals: {
+        Row: {
+          amount: number
+          category: string
+          close_date: string | null
+          currency: string
+          deal_id: string
+          deal_name: string | null
+          owner_id: string | null
+          probability: number
+          snapshot_id: string
+          stage: string | null
+        }
+        Insert: {
+          amount?: number
+          category: string
+          close_date?: string | null
+          currency?: string
+          deal_id: string
+          deal_name?: string | null
+          owner_id?: string | null
+          probability?: number
+          snapshot_id: string
+          stage?: string | null
+        }
+        Update: {
+          amount?: number
+          category?: string
+          close_date?: string | null
+          currency?: string
+          deal_id?: string
+          deal_name?: string | null
+          owner_id?: string | null
+          probability?: number
+          snapshot_id?: string
+          stage?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "forecast_snapshot_deals_snapshot_id_fkey"
+            columns: ["snapshot_id"]
+            isOneToOne: false
+            referencedRelation: "forecast_snapshots"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      forecast_snapshots: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          snapshot_date: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          snapshot_date: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          snapshot_date?: string
+        }
+        Relationships: []
+      }
+      import_export_settings: {
+        Row: {
+          created_at: string
+          default_values: Json | null
+          entity_type: string
+          field_mappings: Json | null
+          id: string
+          name: string
+          skip_duplicates: boolean | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          default_values?: Json | null
+          entity_type: string
+          field_mappings?: Json | null
+          id?: string
+          name?: string
+          skip_duplicates?: boolean | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          default_values?: Json | null
+          entity_type?: string
+          field_mappings?: Json | null
+          id?: string
+          name?: string
+          skip_duplicates?: boolean | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      integration_settings: {
+        Row: {
+          config: Json | null
+          created_at: string
+          id: string
+          integration_name: string
+          is_enabled: boolean | null
+          last_sync_at: string | null
+          sync_status: string | null
+          updated_at: string
+        }
+        Insert: {
+          config?: Json | null
+          created_at?: string
+          id?: string
+          integration_name: string
+          is_enabled?: boolean | null
+          last_sync_at?: string | null
+          sync_status?: string | null
+          updated_at?: string
+        }
+        Update: {
+          config?: Json | null
+          created_at?: string
+          id?: string
+          integration_name?: string
+          is_enabled?: boolean | null
+          last_sync_at?: string | null
+          sync_status?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      keep_alive: {
+        Row: {
+          "Able to read DB": string | null
+          created_at: string
+          id: number
+        }
+        Insert: {
+          "Able to read DB"?: string | null
+          created_at?: string
+          id?: number
+        }
+        Update: {
+          "Able to read DB"?: string | null
+          created_at?: string
+          id?: number
+        }
+        Relationships: []
+      }
+      lead_action_items: {
+        Row: {
+          assigned_to: string | null
+          created_at: string
+          created_by: string | null
+          due_date: string | null
+          id: string
+          lead_id: string
+          next_action: string
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          assigned_to?: string | null
+          created_at?: string
+          created_by?: string | null
+          due_date?: string | null
+          id?: string
+          lead_id: string
+          next_action: string
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          assigned_to?: string | null
+          created_at?: string
+          created_by?: string | null
+          due_date?: string | null
+          id?: string
+          lead_id?: string
+          next_action?: string
+          status?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      lead_statuses: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          is_active: boolean | null
+          is_converted_status: boolean | null
+          status_color: string | null
+          status_name: string
+          status_order: number
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          is_active?: boolean | null
+          is_converted_status?: boolean | null
           status_color?: string | null
           status_name: string
           status_order?: number
@@ -1312,10 +2086,12 @@ export type Database = {
           company_name: string | null
           contact_owner: string | null
           contact_source: string | null
+          converted_at: string | null
           converted_from_contact_id: string | null
           country: string | null
           created_by: string | null
           created_time: string | null
+          custom_fields: Json
           description: string | null
           email: string | null
           id: string
@@ -1328,6 +2104,9 @@ export type Database = {
           modified_time: string | null
           phone_no: string | null
           position: string | null
+          score: number
+          score_breakdown: Json | null
+          score_updated_at: string | null
           website: string | null
         }
         Insert: {
@@ -1335,10 +2114,12 @@ export type Database = {
           company_name?: string | null
           contact_owner?: string | null
           contact_source?: string | null
+          converted_at?: string | null
           converted_from_contact_id?: string | null
           country?: string | null
           created_by?: string | null
           created_time?: string | null
+          custom_fields?: Json
           description?: string | null
           email?: string | null
           id?: string
@@ -1351,6 +2132,9 @@ export type Database = {
           modified_time?: string | null
           phone_no?: string | null
           position?: string | null
+          score?: number
+          score_breakdown?: Json | null
+          score_updated_at?: string | null
           website?: string | null
         }
         Update: {
@@ -1358,10 +2142,12 @@ export type Database = {
           company_name?: string | null
           contact_owner?: string | null
           contact_source?: string | null
+          converted_at?: string | null
           converted_from_contact_id?: string | null
           country?: string | null
           created_by?: string | null
           created_time?: string | null
+          custom_fields?: Json
           description?: string | null
           email?: string | null
           id?: string
@@ -1374,6 +2160,9 @@ export type Database = {
           modified_time?: string | null
           phone_no?: string | null
           position?: string | null
+          score?: number
+          score_breakdown?: Json | null
+          score_updated_at?: string | null
           website?: string | null
         }
         Relationships: [
@@ -1533,6 +2322,9 @@ export type Database = {
           deal_id: string | null
           description: string | null
           end_time: string
+          external_source: string | null
+          ics_sequence: number
+          ics_uid: string | null
           id: string
           join_url: string | null
           lead_id: string | null
@@ -1552,6 +2344,9 @@ export type Database = {
           deal_id?: string | null
           description?: string | null
           end_time: string
+          external_source?: string | null
+          ics_sequence?: number
+          ics_uid?: string | null
           id?: string
           join_url?: string | null
           lead_id?: string | null
@@ -1571,6 +2366,9 @@ export type Database = {
           deal_id?: string | null
           description?: string | null
           end_time?: string
+          external_source?: string | null
+          ics_sequence?: number
+          ics_uid?: string | null
           id?: string
           join_url?: string | null
           lead_id?: string | null
@@ -1673,6 +2471,7 @@ export type Database = {
         Row: {
           action_item_id: string | null
           created_at: string
+          deal_id: string | null
           id: string
           lead_id: string | null
           message: string
@@ -1684,6 +2483,7 @@ export type Database = {
         Insert: {
           action_item_id?: string | null
           created_at?: string
+          deal_id?: string | null
           id?: string
           lead_id?: string | null
           message: string
@@ -1695,6 +2495,7 @@ export type Database = {
         Update: {
           action_item_id?: string | null
           created_at?: string
+          deal_id?: string | null
           id?: string
           lead_id?: string | null
           message?: string
@@ -1703,7 +2504,15 @@ export type Database = {
           updated_at?: string
           user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "notifications_deal_id_fkey"
+            columns: ["deal_id"]
+            isOneToOne: false
+            referencedRelation: "deals"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       page_permissions: {
         Row: {
@@ -1784,12 +2593,16 @@ export type Database = {
       }
       pipeline_stages: {
         Row: {
+          approval_workflow_id: string | null
           created_at: string
           created_by: string | null
           id: string
           is_active: boolean | null
           is_lost_stage: boolean | null
           is_won_stage: boolean | null
+          required_fields: string[] | null
+          requires_approval: boolean
+          sla_days: number | null
           stage_color: string | null
           stage_name: string
           stage_order: number
@@ -1797,12 +2610,16 @@ export type Database = {
           updated_at: string
         }
         Insert: {
+          approval_workflow_id?: string | null
           created_at?: string
           created_by?: string | null
           id?: string
           is_active?: boolean | null
           is_lost_stage?: boolean | null
           is_won_stage?: boolean | null
+          required_fields?: string[] | null
+          requires_approval?: boolean
+          sla_days?: number | null
           stage_color?: string | null
           stage_name: string
           stage_order?: number
@@ -1810,19 +2627,31 @@ export type Database = {
           updated_at?: string
         }
         Update: {
+          approval_workflow_id?: string | null
           created_at?: string
           created_by?: string | null
           id?: string
           is_active?: boolean | null
           is_lost_stage?: boolean | null
           is_won_stage?: boolean | null
+          required_fields?: string[] | null
+          requires_approval?: boolean
+          sla_days?: number | null
           stage_color?: string | null
           stage_name?: string
           stage_order?: number
           stage_probability?: number | null
           updated_at?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "pipeline_stages_approval_workflow_id_fkey"
+            columns: ["approval_workflow_id"]
+            isOneToOne: false
+            referencedRelation: "approval_workflows"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       profiles: {
         Row: {
@@ -1860,66 +2689,239 @@ export type Database = {
         }
         Relationships: []
       }
-      report_schedules: {
+      record_merges: {
         Row: {
-          created_at: string | null
-          created_by: string | null
-          day_of_month: number | null
-          day_of_week: number | null
-          filters: Json | null
-          frequency: string
+          entity_type: string
           id: string
-          is_enabled: boolean | null
-          last_sent_at: string | null
-          name: string
-          recipients: Json | null
-          report_type: string
-          time_of_day: string
-          updated_at: string | null
+          merged_at: string
+          merged_by: string | null
+          merged_id: string
+          merged_record: Json
+          moved_rows: Json
+          survivor_after: Json
+          survivor_before: Json
+          survivor_id: string
+          undo_until: string
+          unmerged_at: string | null
+          unmerged_by: string | null
         }
         Insert: {
-          created_at?: string | null
-          created_by?: string | null
-          day_of_month?: number | null
-          day_of_week?: number | null
-          filters?: Json | null
-          frequency?: string
+          entity_type: string
           id?: string
-          is_enabled?: boolean | null
-          last_sent_at?: string | null
-          name: string
-          recipients?: Json | null
-          report_type: string
-          time_of_day?: string
-          updated_at?: string | null
+          merged_at?: string
+          merged_by?: string | null
+          merged_id: string
+          merged_record: Json
+          moved_rows?: Json
+          survivor_after: Json
+          survivor_before: Json
+          survivor_id: string
+          undo_until: string
+          unmerged_at?: string | null
+          unmerged_by?: string | null
         }
         Update: {
-          created_at?: string | null
-          created_by?: string | null
-          day_of_month?: number | null
-          day_of_week?: number | null
-          filters?: Json | null
-          frequency?: string
+          entity_type?: string
           id?: string
-          is_enabled?: boolean | null
-          last_sent_at?: string | null
-          name?: string
-          recipients?: Json | null
-          report_type?: string
-          time_of_day?: string
-          updated_at?: string | null
+          merged_at?: string
+          merged_by?: string | null
+          merged_id?: string
+          merged_record?: Json
+          moved_rows?: Json
+          survivor_after?: Json
+          survivor_before?: Json
+          survivor_id?: string
+          undo_until?: string
+          unmerged_at?: string | null
+          unmerged_by?: string | null
         }
         Relationships: []
       }
-      saved_filters: {
+      record_score_history: {
         Row: {
-          created_at: string
-          filter_type: string
-          filters: Json
+          behavior_score: number
+          breakdown: Json
+          calculated_at: string
+          entity_id: string
+          entity_type: string
+          fit_score: number
           id: string
-          name: string
-          updated_at: string
-          user_id: string
+          previous_score: number | null
+          reason: string | null
+          score: number
+        }
+        Insert: {
+          behavior_score?: number
+          breakdown?: Json
+          calculated_at?: string
+          entity_id: string
+          entity_type: string
+          fit_score?: number
+          id?: string
+          previous_score?: number | null
+          reason?: string | null
+          score: number
+        }
+        Update: {
+          behavior_score?: number
+          breakdown?: Json
+          calculated_at?: string
+          entity_id?: string
+          entity_type?: string
+          fit_score?: number
+          id?: string
+          previous_score?: number | null
+          reason?: string | null
+          score?: number
+        }
+        Relationships: []
+      }
+      rep_revenue_targets: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          currency: string
+          id: string
+          target: number
+          updated_at: string
+          user_id: string
+          year: number
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          currency?: string
+          id?: string
+          target?: number
+          updated_at?: string
+          user_id: string
+          year: number
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          currency?: string
+          id?: string
+          target?: number
+          updated_at?: string
+          user_id?: string
+          year?: number
+        }
+        Relationships: []
+      }
+      report_runs: {
+        Row: {
+          completed_at: string | null
+          error_message: string | null
+          id: string
+          recipients_count: number | null
+          report_type: string
+          row_count: number | null
+          schedule_id: string | null
+          sent_count: number | null
+          started_at: string
+          status: string
+          trigger_source: string
+        }
+        Insert: {
+          completed_at?: string | null
+          error_message?: string | null
+          id?: string
+          recipients_count?: number | null
+          report_type: string
+          row_count?: number | null
+          schedule_id?: string | null
+          sent_count?: number | null
+          started_at?: string
+          status?: string
+          trigger_source?: string
+        }
+        Update: {
+          completed_at?: string | null
+          error_message?: string | null
+          id?: string
+          recipients_count?: number | null
+          report_type?: string
+          row_count?: number | null
+          schedule_id?: string | null
+          sent_count?: number | null
+          started_at?: string
+          status?: string
+          trigger_source?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "report_runs_schedule_id_fkey"
+            columns: ["schedule_id"]
+            isOneToOne: false
+            referencedRelation: "report_schedules"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      report_schedules: {
+        Row: {
+          created_at: string | null
+          created_by: string | null
+          day_of_month: number | null
+          day_of_week: number | null
+          filters: Json | null
+          frequency: string
+          id: string
+          is_enabled: boolean | null
+          last_sent_at: string | null
+          name: string
+          next_run_at: string | null
+          recipients: Json | null
+          report_type: string
+          time_of_day: string
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          created_by?: string | null
+          day_of_month?: number | null
+          day_of_week?: number | null
+          filters?: Json | null
+          frequency?: string
+          id?: string
+          is_enabled?: boolean | null
+          last_sent_at?: string | null
+          name: string
+          next_run_at?: string | null
+          recipients?: Json | null
+          report_type: string
+          time_of_day?: string
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          created_by?: string | null
+          day_of_month?: number | null
+          day_of_week?: number | null
+          filters?: Json | null
+          frequency?: string
+          id?: string
+          is_enabled?: boolean | null
+          last_sent_at?: string | null
+          name?: string
+          next_run_at?: string | null
+          recipients?: Json | null
+          report_type?: string
+          time_of_day?: string
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      saved_filters: {
+        Row: {
+          created_at: string
+          filter_type: string
+          filters: Json
+          id: string
+          name: string
+          updated_at: string
+          user_id: string
         }
         Insert: {
           created_at?: string
@@ -1941,6 +2943,60 @@ export type Database = {
         }
         Relationships: []
       }
+      scoring_rules: {
+        Row: {
+          applies_to: string
+          category: string
+          created_at: string
+          created_by: string | null
+          field: string | null
+          half_life_days: number | null
+          id: string
+          is_active: boolean
+          max_points: number | null
+          name: string
+          operator: string
+          points: number
+          signal: string | null
+          updated_at: string
+          value: string | null
+        }
+        Insert: {
+          applies_to?: string
+          category: string
+          created_at?: string
+          created_by?: string | null
+          field?: string | null
+          half_life_days?: number | null
+          id?: string
+          is_active?: boolean
+          max_points?: number | null
+          name: string
+          operator?: string
+          points: number
+          signal?: string | null
+          updated_at?: string
+          value?: string | null
+        }
+        Update: {
+          applies_to?: string
+          category?: string
+          created_at?: string
+          created_by?: string | null
+          field?: string | null
+          half_life_days?: number | null
+          id?: string
+          is_active?: boolean
+          max_points?: number | null
+          name?: string
+          operator?: string
+          points?: number
+          signal?: string | null
+          updated_at?: string
+          value?: string | null
+        }
+        Relationships: []
+      }
       security_audit_log: {
         Row: {
           action: string
@@ -2120,6 +3176,56 @@ export type Database = {
           },
         ]
       }
+      task_templates: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          description: string | null
+          due_in_days: number | null
+          id: string
+          is_active: boolean
+          name: string
+          pipeline_stage_id: string
+          priority: string
+          subtasks: Json
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          due_in_days?: number | null
+          id?: string
+          is_active?: boolean
+          name: string
+          pipeline_stage_id: string
+          priority?: string
+          subtasks?: Json
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          due_in_days?: number | null
+          id?: string
+          is_active?: boolean
+          name?: string
+          pipeline_stage_id?: string
+          priority?: string
+          subtasks?: Json
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "task_templates_pipeline_stage_id_fkey"
+            columns: ["pipeline_stage_id"]
+            isOneToOne: false
+            referencedRelation: "pipeline_stages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       tasks: {
         Row: {
           account_id: string | null
@@ -2141,9 +3247,14 @@ export type Database = {
           priority: string
           recurrence: string | null
           recurrence_end_date: string | null
+          recurrence_exception: boolean
+          recurrence_index: number
+          recurrence_series_id: string | null
           reminder_date: string | null
+          reminder_sent_at: string | null
           status: string
           tags: string[] | null
+          task_template_id: string | null
           title: string
           updated_at: string
         }
@@ -2167,9 +3278,14 @@ export type Database = {
           priority?: string
           recurrence?: string | null
           recurrence_end_date?: string | null
+          recurrence_exception?: boolean
+          recurrence_index?: number
+          recurrence_series_id?: string | null
           reminder_date?: string | null
+          reminder_sent_at?: string | null
           status?: string
           tags?: string[] | null
+          task_template_id?: string | null
           title: string
           updated_at?: string
         }
@@ -2193,9 +3309,14 @@ export type Database = {
           priority?: string
           recurrence?: string | null
           recurrence_end_date?: string | null
+          recurrence_exception?: boolean
+          recurrence_index?: number
+          recurrence_series_id?: string | null
           reminder_date?: string | null
+          reminder_sent_at?: string | null
           status?: string
           tags?: string[] | null
+          task_template_id?: string | null
           title?: string
           updated_at?: string
         }
@@ -2392,6 +3513,7 @@ export type Database = {
         Row: {
           created_at: string
           created_by: string | null
+          currency: string
           id: string
           total_target: number
           updated_at: string
@@ -2400,6 +3522,7 @@ export type Database = {
         Insert: {
           created_at?: string
           created_by?: string | null
+          currency?: string
           id?: string
           total_target?: number
           updated_at?: string
@@ -2408,6 +3531,7 @@ export type Database = {
         Update: {
           created_at?: string
           created_by?: string | null
+          currency?: string
           id?: string
           total_target?: number
           updated_at?: string
@@ -2420,6 +3544,42 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      act_on_approval_request: {
+        Args: { p_action: string; p_comments?: string; p_request_id: string }
+        Returns: {
+          completed_at: string | null
+          created_at: string | null
+          current_step: number | null
+          entity_id: string
+          entity_name: string | null
+          entity_type: string
+          id: string
+          pending_changes: Json | null
+          status: string | null
+          submitted_at: string | null
+          submitted_by: string | null
+          updated_at: string | null
+          workflow_id: string | null
+        }
+        SetofOptions: {
+          from: "*"
+          to: "approval_requests"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
+      apply_conversion_mappings: {
+        Args: { p_conversion_type: string; p_source: Json }
+        Returns: Json
+      }
+      apply_merge_record_changes: {
+        Args: { p_entity_type: string; p_id: string; p_new: Json; p_old: Json }
+        Returns: undefined
+      }
+      approval_condition_matches: {
+        Args: { p_conditions: Json; p_record: Json }
+        Returns: boolean
+      }
       calculate_account_score: {
         Args: { p_account_id: string }
         Returns: number
@@ -2428,6 +3588,209 @@ export type Database = {
         Args: { p_contact_id: string }
         Returns: number
       }
+      calculate_record_score: {
+        Args: { p_entity_id: string; p_entity_type: string; p_reason?: string }
+        Returns: Json
+      }
+      can_modify_merge_record: {
+        Args: { p_delete: boolean; p_entity_type: string; p_record: Json }
+        Returns: boolean
+      }
+      cancel_approval_request: {
+        Args: { p_request_id: string }
+        Returns: {
+          completed_at: string | null
+          created_at: string | null
+          current_step: number | null
+          entity_id: string
+          entity_name: string | null
+          entity_type: string
+          id: string
+          pending_changes: Json | null
+          status: string | null
+          submitted_at: string | null
+          submitted_by: string | null
+          updated_at: string | null
+          workflow_id: string | null
+        }
+        SetofOptions: {
+          from: "*"
+          to: "approval_requests"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
+      capture_forecast_snapshot: {
+        Args: { p_date?: string }
+        Returns: string
+      }
+      convert_contact_to_lead: {
+        Args: { p_contact_id: string }
+        Returns: {
+          account_id: string | null
+          company_name: string | null
+          contact_owner: string | null
+          contact_source: string | null
+          converted_at: string | null
+          converted_from_contact_id: string | null
+          country: string | null
+          created_by: string | null
+          created_time: string | null
+          custom_fields: Json
+          description: string | null
+          email: string | null
+          id: string
+          industry: string | null
+          last_contacted_at: string | null
+          lead_name: string
+          lead_status: string | null
+          linkedin: string | null
+          modified_by: string | null
+          modified_time: string | null
+          phone_no: string | null
+          position: string | null
+          website: string | null
+        }
+        SetofOptions: {
+          from: "*"
+          to: "leads"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
+      convert_lead_to_deal: {
+        Args: { p_lead_id: string; p_values?: Json }
+        Returns: {
+          account_id: string | null
+          action_items: string | null
+          budget: string | null
+          business_value: string | null
+          closing: string | null
+          contact_id: string | null
+          created_at: string | null
+          created_by: string | null
+          currency_type: string | null
+          current_status: string | null
+          custom_fields: Json
+          customer_challenges: string | null
+          customer_name: string | null
+          customer_need: string | null
+          deal_name: string
+          decision_maker_level: string | null
+          drop_reason: string | null
+          end_date: string | null
+          expected_closing_date: string | null
+          handoff_status: string | null
+          id: string
+          implementation_start_date: string | null
+          internal_comment: string | null
+          is_recurring: string | null
+          lead_name: string | null
+          lead_owner: string | null
+          lost_reason: string | null
+          modified_at: string | null
+          modified_by: string | null
+          need_improvement: string | null
+          priority: number | null
+          probability: number | null
+          project_duration: number | null
+          project_name: string | null
+          proposal_due_date: string | null
+          quarterly_revenue_q1: number | null
+          quarterly_revenue_q2: number | null
+          quarterly_revenue_q3: number | null
+          quarterly_revenue_q4: number | null
+          region: string | null
+          relationship_strength: string | null
+          rfq_received_date: string | null
+          rfq_status: string | null
+          signed_contract_date: string | null
+          source_lead_id: string | null
+          stage: string
+          start_date: string | null
+          total_contract_value: number | null
+          total_revenue: number | null
+          won_reason: string | null
+        }
+        SetofOptions: {
+          from: "*"
+          to: "deals"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
+      create_bulk_email_job: {
+        Args: {
+          p_body: string
+          p_rate_per_minute?: number
+          p_recipients: Json
+          p_scheduled_at?: string
+          p_sender_email: string
+          p_subject: string
+          p_template_id?: string
+        }
+        Returns: {
+          body: string
+          completed_at: string | null
+          created_at: string
+          created_by: string | null
+          failed_count: number
+          id: string
+          last_error: string | null
+          rate_per_minute: number
+          scheduled_at: string
+          sender_email: string
+          sent_count: number
+          started_at: string | null
+          status: string
+          subject: string
+          template_id: string | null
+          total_count: number
+          updated_at: string
+        }
+        SetofOptions: {
+          from: "*"
+          to: "bulk_email_jobs"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
+      delete_pipeline_stage: {
+        Args: { p_reassign_to: string; p_stage_id: string }
+        Returns: number
+      }
+      enroll_in_sequence: {
+        Args: {
+          p_contact_ids?: string[]
+          p_lead_ids?: string[]
+          p_sequence_id: string
+          p_timezone?: string
+        }
+        Returns: Json
+      }
+      find_people_by_email: {
+        Args: { p_emails: string[] }
+        Returns: {
+          contact_id: string
+          email: string
+          lead_id: string
+        }[]
+      }
+      get_lead_conversion_rates: {
+        Args: { p_since?: string }
+        Returns: {
+          avg_days_to_convert: number
+          conversion_rate: number
+          converted_leads: number
+          owner_id: string
+          total_leads: number
+          won_deals: number
+        }[]
+      }
+      get_missing_stage_fields: {
+        Args: { p_deal: Json; p_stage: string }
+        Returns: string[]
+      }
       get_my_access_snapshot: {
         Args: never
         Returns: {
@@ -2437,9 +3800,57 @@ export type Database = {
           role: string
         }[]
       }
+      get_sequence_step_stats: {
+        Args: { p_sequence_id: string }
+        Returns: {
+          bounced: number
+          clicked: number
+          day_offset: number
+          opened: number
+          replied: number
+          sent: number
+          step_id: string
+          step_order: number
+          template_name: string
+        }[]
+      }
+      get_team_performance: {
+        Args: { p_from: string; p_to: string }
+        Returns: {
+          deals_created: number
+          deals_lost: number
+          deals_won: number
+          emails_sent: number
+          meetings_held: number
+          rep_id: string
+          tasks_completed: number
+          win_rate: number
+        }[]
+      }
+      get_team_stage_metrics: {
+        Args: { p_from: string; p_to: string }
+        Returns: {
+          advanced: number
+          avg_days_in_stage: number
+          conversion_rate: number
+          entered: number
+          rep_id: string
+          stage: string
+          stage_order: number
+        }[]
+      }
       get_user_role: { Args: { p_user_id: string }; Returns: string }
+      import_email_suppressions: { Args: { p_rows: Json }; Returns: Json }
+      insert_converted_record: {
+        Args: { p_table: string; p_values: Json }
+        Returns: string
+      }
       is_current_user_admin: { Args: never; Returns: boolean }
       is_current_user_admin_by_metadata: { Args: never; Returns: boolean }
+      is_email_suppressed: {
+        Args: { p_email: string; p_topic?: string }
+        Returns: boolean
+      }
       is_user_admin: { Args: { user_id?: string }; Returns: boolean }
       is_user_manager: { Args: { user_id?: string }; Returns: boolean }
       log_data_access: {
@@ -2459,6 +3870,204 @@ export type Database = {
         }
         Returns: undefined
       }
+      merge_records: {
+        Args: {
+          p_entity_type: string
+          p_field_values?: Json
+          p_merged_id: string
+          p_survivor_id: string
+        }
+        Returns: {
+          entity_type: string
+          id: string
+          merged_at: string
+          merged_by: string | null
+          merged_id: string
+          merged_record: Json
+          moved_rows: Json
+          survivor_after: Json
+          survivor_before: Json
+          survivor_id: string
+          undo_until: string
+          unmerged_at: string | null
+          unmerged_by: string | null
+        }
+        SetofOptions: {
+          from: "*"
+          to: "record_merges"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
+      merge_reference_columns: {
+        Args: { p_entity_type: string }
+        Returns: string[]
+      }
+      merge_tag_arrays: {
+        Args: { p_first: Json; p_second: Json }
+        Returns: Json
+      }
+      move_deal_stage: {
+        Args: { p_changes?: Json; p_deal_id: string; p_stage: string }
+        Returns: {
+          account_id: string | null
+          action_items: string | null
+          budget: string | null
+          business_value: string | null
+          closing: string | null
+          contact_id: string | null
+          created_at: string | null
+          created_by: string | null
+          currency_type: string | null
+          current_status: string | null
+          custom_fields: Json
+          customer_challenges: string | null
+          customer_name: string | null
+          customer_need: string | null
+          deal_name: string
+          decision_maker_level: string | null
+          drop_reason: string | null
+          end_date: string | null
+          expected_closing_date: string | null
+          handoff_status: string | null
+          id: string
+          implementation_start_date: string | null
+          internal_comment: string | null
+          is_recurring: string | null
+          lead_name: string | null
+          lead_owner: string | null
+          lost_reason: string | null
+          modified_at: string | null
+          modified_by: string | null
+          need_improvement: string | null
+          priority: number | null
+          probability: number | null
+          project_duration: number | null
+          project_name: string | null
+          proposal_due_date: string | null
+          quarterly_revenue_q1: number | null
+          quarterly_revenue_q2: number | null
+          quarterly_revenue_q3: number | null
+          quarterly_revenue_q4: number | null
+          region: string | null
+          relationship_strength: string | null
+          rfq_received_date: string | null
+          rfq_status: string | null
+          signed_contract_date: string | null
+          source_lead_id: string | null
+          stage: string
+          start_date: string | null
+          total_contract_value: number | null
+          total_revenue: number | null
+          won_reason: string | null
+        }
+        SetofOptions: {
+          from: "*"
+          to: "deals"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
+      notify_approval_step: {
+        Args: { p_request_id: string }
+        Returns: undefined
+      }
+      recalculate_record_scores: {
+        Args: { p_after?: string; p_entity_type: string; p_limit?: number }
+        Returns: Json
+      }
+      record_score_signals: {
+        Args: { p_contact_id: string; p_lead_id: string }
+        Returns: {
+          occurred_at: string
+          signal: string
+        }[]
+      }
+      refresh_account_counts: {
+        Args: { p_account_id: string }
+        Returns: undefined
+      }
+      refresh_bulk_email_job: {
+        Args: { p_job_id: string }
+        Returns: {
+          body: string
+          completed_at: string | null
+          created_at: string
+          created_by: string | null
+          failed_count: number
+          id: string
+          last_error: string | null
+          rate_per_minute: number
+          scheduled_at: string
+          sender_email: string
+          sent_count: number
+          started_at: string | null
+          status: string
+          subject: string
+          template_id: string | null
+          total_count: number
+          updated_at: string
+        }
+        SetofOptions: {
+          from: "*"
+          to: "bulk_email_jobs"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
+      rotate_calendar_feed_token: { Args: never; Returns: string }
+      set_bulk_email_job_status: {
+        Args: { p_action: string; p_job_id: string }
+        Returns: {
+          body: string
+          completed_at: string | null
+          created_at: string
+          created_by: string | null
+          failed_count: number
+          id: string
+          last_error: string | null
+          rate_per_minute: number
+          scheduled_at: string
+          sender_email: string
+          sent_count: number
+          started_at: string | null
+          status: string
+          subject: string
+          template_id: string | null
+          total_count: number
+          updated_at: string
+        }
+        SetofOptions: {
+          from: "*"
+          to: "bulk_email_jobs"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
+      unmerge_records: {
+        Args: { p_merge_id: string }
+        Returns: {
+          entity_type: string
+          id: string
+          merged_at: string
+          merged_by: string | null
+          merged_id: string
+          merged_record: Json
+          moved_rows: Json
+          survivor_after: Json
+          survivor_before: Json
+          survivor_id: string
+          undo_until: string
+          unmerged_at: string | null
+          unmerged_by: string | null
+        }
+        SetofOptions: {
+          from: "*"
+          to: "record_merges"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
       update_account_stats: {
         Args: { p_account_id: string }
         Returns: undefined
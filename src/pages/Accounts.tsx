@@ -1,6 +1,6 @@
 import AccountTable from "@/components/AccountTable";
 import { Button } from "@/components/ui/button";
-import { Settings, Trash2, Upload, Download, Plus } from "lucide-react";
+import { Settings, Trash2, Upload, Download, Plus, FileSpreadsheet } from "lucide-react";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { useState, useRef } from "react";
 import { useSearchParams } from "react-router-dom";
@@ -8,6 +8,7 @@ import { useToast } from "@/hooks/use-toast";
 import { useAccountsImportExport } from "@/hooks/useAccountsImportExport";
 import { AccountDeleteConfirmDialog } from "@/components/AccountDeleteConfirmDialog";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { isSpreadsheetFile, SPREADSHEET_ACCEPT } from "@/utils/spreadsheetFile";
 
 // Export interface for AccountTable ref
 export interface AccountTableRef {
@@ -43,12 +44,12 @@ const Accounts = () => {
 
   const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
-    if (file && file.type === 'text/csv') {
+    if (file && isSpreadsheetFile(file)) {
       handleImport(file);
     } else {
       toast({
         title: "Error",
-        description: "Please select a valid CSV file",
+        description: "Please select a CSV or Excel (.xlsx) file",
         variant: "destructive"
       });
     }
@@ -105,12 +106,16 @@ const Accounts = () => {
                   </DropdownMenuItem>
                   <DropdownMenuItem onClick={() => fileInputRef.current?.click()} disabled={isImporting}>
                     <Upload className="w-4 h-4 mr-2" />
-                    {isImporting ? 'Importing...' : 'Import CSV'}
+                    {isImporting ? 'Importing...' : 'Import CSV / Excel'}
                   </DropdownMenuItem>
-                  <DropdownMenuItem onClick={handleExport}>
+                  <DropdownMenuItem onClick={() => handleExport('csv')}>
                     <Download className="w-4 h-4 mr-2" />
                     Export CSV
                   </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => handleExport('xlsx')}>
+                    <FileSpreadsheet className="w-4 h-4 mr-2" />
+                    Export Excel
+                  </DropdownMenuItem>
                   <DropdownMenuItem 
                     onClick={handleBulkDeleteClick} 
                     disabled={selectedAccounts.length === 0} 
@@ -132,7 +137,7 @@ const Accounts = () => {
       </div>
 
       {/* Hidden file input */}
-      <input ref={fileInputRef} type="file" accept=".csv" onChange={handleFileSelect} className="hidden" />
+      <input ref={fileInputRef} type="file" accept={SPREADSHEET_ACCEPT} onChange={handleFileSelect} className="hidden" />
 
       {/* Main Content Area */}
       <div className="flex-1 min-h-0 flex flex-col px-4 pt-2 pb-4">
@@ -0,0 +1,213 @@
+import { useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { formatDistanceToNow } from 'date-fns';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { EmptyState } from '@/components/shared/EmptyState';
+import { ApprovalStepHistory } from '@/components/approvals/ApprovalStatusPanel';
+import { useApprovalInbox, useApprovalActions } from '@/hooks/useApprovals';
+import { useUserDisplayNames } from '@/hooks/useUserDisplayNames';
+import { useAuth } from '@/hooks/useAuth';
+import { usePermissions } from '@/contexts/PermissionsContext';
+import {
+  ApprovalActionType,
+  ApprovalRequest,
+  APPROVAL_ENTITY_LABELS,
+  canActOnStep,
+  formatPendingChanges,
+  getApprovalStatusColor,
+} from '@/types/approval';
+import { CheckCircle2, XCircle, ExternalLink, ShieldCheck, Undo2, Loader2 } from 'lucide-react';
+
+const entityRoutes: Record<string, string> = {
+  deals: '/deals',
+  leads: '/leads',
+  accounts: '/accounts',
+};
+
+const Approvals = () => {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const { userRole, isAdmin } = usePermissions();
+  const { requests, awaitingMe, mine, loading } = useApprovalInbox();
+  const { actOnRequest, cancelRequest, isActing } = useApprovalActions();
+  const [activeTab, setActiveTab] = useState('inbox');
+  const [decision, setDecision] = useState<{ request: ApprovalRequest; action: ApprovalActionType } | null>(null);
+  const [comments, setComments] = useState('');
+
+  const submitterIds = useMemo(
+    () => requests.map(r => r.submitted_by).filter(Boolean) as string[],
+    [requests]
+  );
+  const { displayNames } = useUserDisplayNames(submitterIds);
+
+  const handleDecision = async () => {
+    if (!decision) return;
+    try {
+      await actOnRequest({ requestId: decision.request.id, action: decision.action, comments });
+      setDecision(null);
+      setComments('');
+    } catch {
+      // Error toast is shown by the mutation
+    }
+  };
+
+  const renderRequest = (request: ApprovalRequest) => {
+    const totalSteps = request.workflow?.approval_steps?.length || 1;
+    const canAct = canActOnStep(request, user?.id, userRole);
+    const changes = formatPendingChanges(request.pending_changes);
+
+    return (
+      <Card key={request.id}>
+        <CardContent className="py-4">
+          <div className="flex items-start justify-between gap-4">
+            <div className="flex-1 min-w-0 space-y-2">
+              <div className="flex items-center gap-2 flex-wrap">
+                <h4 className="font-medium truncate">{request.entity_name || 'Unnamed record'}</h4>
+                <Badge variant="outline">{APPROVAL_ENTITY_LABELS[request.entity_type] || request.entity_type}</Badge>
+                <Badge variant="outline" className={`capitalize ${getApprovalStatusColor(request.status)}`}>
+                  {request.status}
+                </Badge>
+              </div>
+              <p className="text-sm text-muted-foreground">
+                {request.workflow?.name || 'Approval workflow'}
+                {request.status === 'pending' && ` · Step ${request.current_step || 1} of ${totalSteps}`}
+              </p>
+              {changes && <p className="text-sm capitalize">Requested change: {changes}</p>}
+              <p className="text-xs text-muted-foreground">
+                Submitted by {request.submitted_by ? displayNames[request.submitted_by] || 'Unknown User' : 'System'}
+                {request.submitted_at && ` ${formatDistanceToNow(new Date(request.submitted_at), { addSuffix: true })}`}
+              </p>
+              <div className="pt-1">
+                <ApprovalStepHistory request={request} />
+              </div>
+            </div>
+            <div className="flex flex-col items-end gap-2">
+              {canAct && (
+                <div className="flex gap-2">
+                  <Button size="sm" onClick={() => setDecision({ request, action: 'approved' })}>
+                    <CheckCircle2 className="h-4 w-4 mr-1" />
+                    Approve
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => setDecision({ request, action: 'rejected' })}>
+                    <XCircle className="h-4 w-4 mr-1" />
+                    Reject
+                  </Button>
+                </div>
+              )}
+              {request.status === 'pending' && (request.submitted_by === user?.id || isAdmin) && (
+                <Button size="sm" variant="ghost" disabled={isActing} onClick={() => cancelRequest(request.id)}>
+                  <Undo2 className="h-4 w-4 mr-1" />
+                  Withdraw
+                </Button>
+              )}
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => navigate(`${entityRoutes[request.entity_type]}?viewId=${request.entity_id}`)}
+              >
+                <ExternalLink className="h-4 w-4 mr-1" />
+                Open record
+              </Button>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  };
+
+  const renderList = (items: ApprovalRequest[], emptyTitle: string, emptyDescription: string) => {
+    if (loading) {
+      return (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      );
+    }
+    if (items.length === 0) {
+      return <EmptyState icon={<ShieldCheck className="h-10 w-10 text-muted-foreground/50" />} title={emptyTitle} description={emptyDescription} variant="card" />;
+    }
+    return <div className="space-y-3">{items.map(renderRequest)}</div>;
+  };
+
+  return (
+    <div className="h-screen flex flex-col bg-background overflow-hidden">
+      {/* Fixed Header */}
+      <div className="flex-shrink-0 bg-background">
+        <div className="px-6 h-16 flex items-center border-b w-full">
+          <div className="flex items-center gap-3">
+            <h1 className="text-xl font-semibold text-foreground">Approvals</h1>
+            {awaitingMe.length > 0 && (
+              <Badge variant="destructive" className="rounded-full">
+                {awaitingMe.length} awaiting you
+              </Badge>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-auto px-6 py-4">
+        <Tabs value={activeTab} onValueChange={setActiveTab}>
+          <TabsList>
+            <TabsTrigger value="inbox">Awaiting Me ({awaitingMe.length})</TabsTrigger>
+            <TabsTrigger value="mine">My Requests ({mine.length})</TabsTrigger>
+            {isAdmin && <TabsTrigger value="all">All ({requests.length})</TabsTrigger>}
+          </TabsList>
+
+          <TabsContent value="inbox" className="mt-4">
+            {renderList(awaitingMe, 'Nothing to approve', 'Requests that need your decision will appear here')}
+          </TabsContent>
+          <TabsContent value="mine" className="mt-4">
+            {renderList(mine, 'No approval requests', 'Changes you make that need approval will appear here')}
+          </TabsContent>
+          {isAdmin && (
+            <TabsContent value="all" className="mt-4">
+              {renderList(requests, 'No approval requests', 'No records have been submitted for approval yet')}
+            </TabsContent>
+          )}
+        </Tabs>
+      </div>
+
+      <Dialog open={!!decision} onOpenChange={(open) => { if (!open) { setDecision(null); setComments(''); } }}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>
+              {decision?.action === 'approved' ? 'Approve Request' : 'Reject Request'}
+            </DialogTitle>
+          </DialogHeader>
+          <div className="space-y-2 py-2">
+            <p className="text-sm text-muted-foreground">
+              {decision?.request.entity_name} · {decision?.request.workflow?.name}
+            </p>
+            <Label htmlFor="approval-comments">Comments</Label>
+            <Textarea
+              id="approval-comments"
+              value={comments}
+              onChange={(e) => setComments(e.target.value)}
+              placeholder={decision?.action === 'rejected' ? 'Reason for rejection' : 'Optional comments'}
+              rows={3}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDecision(null)}>Cancel</Button>
+            <Button
+              onClick={handleDecision}
+              disabled={isActing || (decision?.action === 'rejected' && !comments.trim())}
+              variant={decision?.action === 'rejected' ? 'destructive' : 'default'}
+            >
+              {isActing && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {decision?.action === 'approved' ? 'Approve' : 'Reject'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default Approvals;
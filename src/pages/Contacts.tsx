@@ -1,7 +1,7 @@
 import { ContactTable, ContactTableRef } from "@/components/ContactTable";
 import { Button } from "@/components/ui/button";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
-import { Settings, Trash2, Upload, Download, Mail, Plus } from "lucide-react";
+import { Settings, Trash2, Upload, Download, Mail, ListOrdered, Plus, FileSpreadsheet } from "lucide-react";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { useState, useRef } from "react";
 import { Input } from "@/components/ui/input";
@@ -9,7 +9,9 @@ import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
 import { useSimpleContactsImportExport } from "@/hooks/useSimpleContactsImportExport";
 import { BulkEmailModal, BulkEmailRecipient } from "@/components/BulkEmailModal";
+import { EnrollInSequenceModal } from "@/components/email/EnrollInSequenceModal";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { SPREADSHEET_ACCEPT } from "@/utils/spreadsheetFile";
 
 const Contacts = () => {
   const { toast } = useToast();
@@ -18,6 +20,7 @@ const Contacts = () => {
   const [selectedContacts, setSelectedContacts] = useState<string[]>([]);
   const [refreshTrigger, setRefreshTrigger] = useState(0);
   const [showBulkEmailModal, setShowBulkEmailModal] = useState(false);
+  const [showSequenceModal, setShowSequenceModal] = useState(false);
   const [bulkEmailRecipients, setBulkEmailRecipients] = useState<BulkEmailRecipient[]>([]);
   const [showBulkDeleteDialog, setShowBulkDeleteDialog] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -113,6 +116,18 @@ const Contacts = () => {
                       </TooltipContent>
                     </Tooltip>
                   </TooltipProvider>
+                  <TooltipProvider>
+                    <Tooltip>
+                      <TooltipTrigger asChild>
+                        <Button variant="outline" size="icon" onClick={() => setShowSequenceModal(true)}>
+                          <ListOrdered className="w-4 h-4" />
+                        </Button>
+                      </TooltipTrigger>
+                      <TooltipContent>
+                        <p>Add Selected to Sequence ({selectedContacts.length})</p>
+                      </TooltipContent>
+                    </Tooltip>
+                  </TooltipProvider>
                   <TooltipProvider>
                     <Tooltip>
                       <TooltipTrigger asChild>
@@ -141,16 +156,24 @@ const Contacts = () => {
                   </DropdownMenuItem>
                   <DropdownMenuItem onClick={handleImportClick} disabled={isImporting}>
                     <Upload className="w-4 h-4 mr-2" />
-                    {isImporting ? 'Importing...' : 'Import CSV'}
+                    {isImporting ? 'Importing...' : 'Import CSV / Excel'}
                   </DropdownMenuItem>
-                  <DropdownMenuItem onClick={handleExport}>
+                  <DropdownMenuItem onClick={() => handleExport('csv')}>
                     <Download className="w-4 h-4 mr-2" />
                     Export CSV
                   </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => handleExport('xlsx')}>
+                    <FileSpreadsheet className="w-4 h-4 mr-2" />
+                    Export Excel
+                  </DropdownMenuItem>
                   <DropdownMenuItem onClick={handleBulkEmailClick} disabled={selectedContacts.length === 0}>
                     <Mail className="w-4 h-4 mr-2" />
                     Send Bulk Email ({selectedContacts.length})
                   </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => setShowSequenceModal(true)} disabled={selectedContacts.length === 0}>
+                    <ListOrdered className="w-4 h-4 mr-2" />
+                    Add to Sequence ({selectedContacts.length})
+                  </DropdownMenuItem>
                   <DropdownMenuItem 
                     onClick={handleBulkDeleteClick} 
                     disabled={selectedContacts.length === 0}
@@ -171,11 +194,11 @@ const Contacts = () => {
         </div>
       </div>
 
-      {/* Hidden file input for CSV import */}
+      {/* Hidden file input for CSV / Excel import */}
       <Input 
         ref={fileInputRef} 
         type="file" 
-        accept=".csv" 
+        accept={SPREADSHEET_ACCEPT}
         onChange={handleImportCSV} 
         className="hidden" 
         disabled={isImporting} 
@@ -227,6 +250,14 @@ const Contacts = () => {
           setSelectedContacts([]);
         }}
       />
+
+      {/* Enroll in Sequence Modal */}
+      <EnrollInSequenceModal
+        open={showSequenceModal}
+        onOpenChange={setShowSequenceModal}
+        contactIds={selectedContacts}
+        onEnrolled={() => setSelectedContacts([])}
+      />
     </div>
   );
 };
@@ -3,7 +3,7 @@ import { useUserRole } from "@/hooks/useUserRole";
 import { NotificationBell } from "@/components/NotificationBell";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
-import { BarChart3, LayoutDashboard, RefreshCw } from "lucide-react";
+import { BarChart3, LayoutDashboard, LineChart, RefreshCw, Users } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/hooks/useAuth";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
@@ -14,6 +14,8 @@ import { Skeleton } from "@/components/ui/skeleton";
 // Lazy load heavy components with recharts and complex UI
 const YearlyRevenueSummary = lazy(() => import("@/components/YearlyRevenueSummary"));
 const UserDashboard = lazy(() => import("@/components/dashboard/UserDashboard"));
+const TeamDashboard = lazy(() => import("@/components/dashboard/team/TeamDashboard"));
+const ForecastDashboard = lazy(() => import("@/components/dashboard/forecast/ForecastDashboard"));
 
 // Loading skeleton for dashboard content
 const DashboardContentSkeleton = () => (
@@ -26,7 +28,7 @@ const DashboardContentSkeleton = () => (
   </div>
 );
 
-type DashboardView = "analytics" | "overview";
+type DashboardView = "analytics" | "overview" | "team" | "forecast";
 
 const getTimeBasedGreeting = () => {
   const hour = new Date().getHours();
@@ -36,7 +38,9 @@ const getTimeBasedGreeting = () => {
 };
 
 const Dashboard = () => {
-  const { isAdmin, loading } = useUserRole();
+  const { isAdmin, isManager, loading } = useUserRole();
+  // Managers get the team view; revenue analytics stay admin-only
+  const canViewTeam = isAdmin || isManager;
   const { user } = useAuth();
   const queryClient = useQueryClient();
   
@@ -66,7 +70,7 @@ const Dashboard = () => {
     enabled: !!user?.id,
   });
 
-  // Fetch admin's dashboard preference (uses dedicated dashboard_view column)
+  // Fetch admin's or manager's dashboard preference (uses dedicated dashboard_view column)
   const { data: dashboardPreference, isLoading: prefLoading } = useQuery({
     queryKey: ['dashboard-preference', user?.id],
     queryFn: async () => {
@@ -79,9 +83,10 @@ const Dashboard = () => {
       if (error) throw error;
       // Prefer new dashboard_view column, fallback to layout_view for legacy
       const view = (data as any)?.dashboard_view || data?.layout_view;
-      return (view === 'analytics' ? 'analytics' : 'overview') as DashboardView;
+      if (view === 'analytics' && isAdmin) return 'analytics' as DashboardView;
+      return (view === 'team' || view === 'forecast' ? view : 'overview') as DashboardView;
     },
-    enabled: !!user?.id && isAdmin,
+    enabled: !!user?.id && canViewTeam,
   });
 
   const [currentView, setCurrentView] = useState<DashboardView>("overview");
@@ -112,7 +117,7 @@ const Dashboard = () => {
   });
 
   const handleViewChange = (value: string) => {
-    if (value && (value === "analytics" || value === "overview")) {
+    if (value === "overview" || value === "team" || value === "forecast" || (value === "analytics" && isAdmin)) {
       setCurrentView(value);
       savePreferenceMutation.mutate(value);
     }
@@ -128,6 +133,8 @@ const Dashboard = () => {
           if (typeof key !== 'string') return false;
           return key.startsWith('user-') || 
                  key.startsWith('dashboard-') || 
+                 key.startsWith('team-') || 
+                 key.startsWith('forecast-') || 
                  key === 'all-user-profiles';
         }
       });
@@ -139,7 +146,7 @@ const Dashboard = () => {
     }
   };
 
-  if (loading || (isAdmin && prefLoading)) {
+  if (loading || (canViewTeam && prefLoading)) {
     return (
       <div className="p-6 space-y-6">
         <div className="flex items-center justify-between">
@@ -165,8 +172,8 @@ const Dashboard = () => {
           <div className="flex items-center justify-between w-full gap-4">
             {/* Left side: View toggle and greeting */}
             <div className="flex items-center gap-4 min-w-0 flex-1">
-              {/* Admin-only view toggle - positioned first/left */}
-              {isAdmin && (
+              {/* Admin and manager view toggle - positioned first/left */}
+              {canViewTeam && (
                 <ToggleGroup 
                   type="single" 
                   value={currentView} 
@@ -182,13 +189,31 @@ const Dashboard = () => {
                     Dashboard
                   </ToggleGroupItem>
                   <ToggleGroupItem 
-                    value="analytics" 
-                    aria-label="Revenue Analytics"
+                    value="team" 
+                    aria-label="Team Performance"
                     className="px-3 py-1.5 text-sm data-[state=on]:bg-primary data-[state=on]:text-primary-foreground data-[state=on]:shadow-sm data-[state=off]:text-muted-foreground"
                   >
-                    <BarChart3 className="w-4 h-4 mr-2" />
-                    Revenue
+                    <Users className="w-4 h-4 mr-2" />
+                    Team
                   </ToggleGroupItem>
+                  <ToggleGroupItem 
+                    value="forecast" 
+                    aria-label="Pipeline Forecast"
+                    className="px-3 py-1.5 text-sm data-[state=on]:bg-primary data-[state=on]:text-primary-foreground data-[state=on]:shadow-sm data-[state=off]:text-muted-foreground"
+                  >
+                    <LineChart className="w-4 h-4 mr-2" />
+                    Forecast
+                  </ToggleGroupItem>
+                  {isAdmin && (
+                    <ToggleGroupItem 
+                      value="analytics" 
+                      aria-label="Revenue Analytics"
+                      className="px-3 py-1.5 text-sm data-[state=on]:bg-primary data-[state=on]:text-primary-foreground data-[state=on]:shadow-sm data-[state=off]:text-muted-foreground"
+                    >
+                      <BarChart3 className="w-4 h-4 mr-2" />
+                      Revenue
+                    </ToggleGroupItem>
+                  )}
                 </ToggleGroup>
               )}
               
@@ -244,6 +269,14 @@ const Dashboard = () => {
               <div className="border-t border-border" />
             </div>
           </Suspense>
+        ) : canViewTeam && currentView === "team" ? (
+          <Suspense fallback={<DashboardContentSkeleton />}>
+            <TeamDashboard />
+          </Suspense>
+        ) : canViewTeam && currentView === "forecast" ? (
+          <Suspense fallback={<DashboardContentSkeleton />}>
+            <ForecastDashboard />
+          </Suspense>
         ) : (
           <Suspense fallback={<DashboardContentSkeleton />}>
             <UserDashboard hideHeader />
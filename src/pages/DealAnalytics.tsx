@@ -0,0 +1,146 @@
+import { useMemo, useState } from 'react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { StageFunnelCard } from '@/components/analytics/StageFunnelCard';
+import { StuckDealsCard } from '@/components/analytics/StuckDealsCard';
+import { DealCohortsCard } from '@/components/analytics/DealCohortsCard';
+import { ReasonBreakdownCard } from '@/components/analytics/ReasonBreakdownCard';
+import { useDealAnalytics } from '@/hooks/useDealAnalytics';
+import { usePipelineStages } from '@/hooks/usePipelineStages';
+import { useProfiles, createNameMap } from '@/hooks/useProfiles';
+import {
+  DEAL_ANALYTICS_PERIOD_LABELS,
+  DEFAULT_DEAL_ANALYTICS_FILTERS,
+  DealAnalyticsFilters,
+  DealAnalyticsPeriod,
+} from '@/types/dealAnalytics';
+
+const DealAnalytics = () => {
+  const [filters, setFilters] = useState<DealAnalyticsFilters>(DEFAULT_DEAL_ANALYTICS_FILTERS);
+  const { dealCount, funnel, velocity, stuckDeals, cohorts, reasons, options, reportingCurrency, loading } = useDealAnalytics(filters);
+  const { stages } = usePipelineStages();
+  const { data: profiles = [] } = useProfiles();
+  const nameMap = useMemo(() => createNameMap(profiles), [profiles]);
+
+  const nameOf = (userId: string | null) => (userId && nameMap[userId]) || 'Unknown User';
+  const hasSla = stages.some(stage => stage.is_active && stage.sla_days);
+  const isFiltered = filters.ownerId !== 'all' || filters.region !== 'all' || filters.currency !== 'all';
+
+  const formatMoney = (amount: number) =>
+    new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: reportingCurrency,
+      notation: amount >= 1000000 ? 'compact' : 'standard',
+      maximumFractionDigits: amount >= 1000000 ? 1 : 0,
+    }).format(amount);
+
+  const setFilter = <K extends keyof DealAnalyticsFilters>(key: K, value: DealAnalyticsFilters[K]) =>
+    setFilters(current => ({ ...current, [key]: value }));
+
+  return (
+    <div className="h-screen flex flex-col bg-background overflow-hidden">
+      {/* Fixed Header */}
+      <div className="flex-shrink-0 bg-background">
+        <div className="px-6 h-16 flex items-center border-b w-full">
+          <div className="flex items-center gap-3">
+            <h1 className="text-xl font-semibold text-foreground">Deal Analytics</h1>
+            {!loading && (
+              <span className="text-sm text-muted-foreground">
+                {dealCount.toLocaleString('en-US')} deals · values in {reportingCurrency}
+              </span>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-auto px-6 py-4 space-y-6">
+        {/* Filters */}
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">Created</Label>
+            <Select value={filters.period} onValueChange={value => setFilter('period', value as DealAnalyticsPeriod)}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(DEAL_ANALYTICS_PERIOD_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">Owner</Label>
+            <Select value={filters.ownerId} onValueChange={value => setFilter('ownerId', value)}>
+              <SelectTrigger className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All owners</SelectItem>
+                {options.ownerIds
+                  .map(id => ({ id, name: nameOf(id) }))
+                  .sort((a, b) => a.name.localeCompare(b.name))
+                  .map(owner => (
+                    <SelectItem key={owner.id} value={owner.id}>{owner.name}</SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">Region</Label>
+            <Select value={filters.region} onValueChange={value => setFilter('region', value)}>
+              <SelectTrigger className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All regions</SelectItem>
+                {options.regions.map(region => (
+                  <SelectItem key={region} value={region}>{region}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">Currency</Label>
+            <Select value={filters.currency} onValueChange={value => setFilter('currency', value)}>
+              <SelectTrigger className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All currencies</SelectItem>
+                {options.currencies.map(currency => (
+                  <SelectItem key={currency} value={currency}>{currency}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {isFiltered && (
+            <Button variant="ghost" size="sm" onClick={() => setFilters({ ...DEFAULT_DEAL_ANALYTICS_FILTERS, period: filters.period })}>
+              Clear filters
+            </Button>
+          )}
+        </div>
+
+        {loading ? (
+          <div className="space-y-6">
+            <Skeleton className="h-72 w-full" />
+            <Skeleton className="h-64 w-full" />
+          </div>
+        ) : (
+          <>
+            <StageFunnelCard funnel={funnel} velocity={velocity} />
+            <StuckDealsCard deals={stuckDeals} hasSla={hasSla} nameOf={nameOf} formatMoney={formatMoney} />
+            <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+              <DealCohortsCard cohorts={cohorts} formatMoney={formatMoney} />
+              <ReasonBreakdownCard reasons={reasons} formatMoney={formatMoney} />
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DealAnalytics;
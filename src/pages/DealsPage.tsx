@@ -10,11 +10,16 @@ import { Plus, LayoutGrid, List, Trash2 } from "lucide-react";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { useCRUDAudit } from "@/hooks/useCRUDAudit";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
-import { Upload, Download, Columns } from "lucide-react";
+import { Upload, Download, Columns, FileSpreadsheet } from "lucide-react";
 import { useDealsImportExport } from "@/hooks/useDealsImportExport";
 import { DeleteConfirmDialog } from "@/components/shared/DeleteConfirmDialog";
-import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useQueryClient } from "@tanstack/react-query";
 import { Skeleton } from "@/components/ui/skeleton";
+import { useApprovalGuard } from "@/hooks/useApprovals";
+import { usePipelineStages } from "@/hooks/usePipelineStages";
+import { SPREADSHEET_ACCEPT } from "@/utils/spreadsheetFile";
+import { fetchAllDeals, fetchDealsByIds } from "@/utils/dealTableQuery";
+import { Json } from "@/integrations/supabase/types";
 
 // Lazy load heavy view components
 const KanbanBoard = lazy(() => import("@/components/KanbanBoard").then(m => ({ default: m.KanbanBoard })));
@@ -46,32 +51,26 @@ const DealsPage = () => {
     logUpdate,
     logBulkDelete
   } = useCRUDAudit();
-  const [filteredDeals, setFilteredDeals] = useState<Deal[]>([]);
   const [selectedDeal, setSelectedDeal] = useState<Deal | null>(null);
   const [isFormOpen, setIsFormOpen] = useState(false);
   const [isCreating, setIsCreating] = useState(false);
   const [initialStage, setInitialStage] = useState<DealStage>('Lead');
+  const { openStageNames } = usePipelineStages();
   const [activeView, setActiveView] = useState<'kanban' | 'list'>('list');
   const [selectedDealIds, setSelectedDealIds] = useState<string[]>([]);
   const [showBulkDeleteDialog, setShowBulkDeleteDialog] = useState(false);
   const [stageFilterFromUrl, setStageFilterFromUrl] = useState(initialStageFilter);
+  const { notifyIfHeld } = useApprovalGuard('deals');
   
-  // Fetch deals with React Query caching
-  const { data: deals = [], isLoading: loading, refetch: refetchDeals } = useQuery({
-    queryKey: ['deals'],
-    queryFn: async () => {
-      const { data, error } = await supabase.from('deals').select('*').order('modified_at', {
-        ascending: false
-      });
-      if (error) throw error;
-      return (data || []) as unknown as Deal[];
-    },
-    staleTime: 2 * 60 * 1000, // 2 minutes
-    enabled: !!user, // Only fetch when user is available
-  });
-
+  // The list and the board load their own deals under ['deals'], filtered in the database
   const fetchDeals = async () => {
-    await refetchDeals();
+    await queryClient.invalidateQueries({ queryKey: ['deals'] });
+  };
+
+  // Existing values for audit logs; the deal may not be on the page being shown
+  const fetchDeal = async (dealId: string) => {
+    const { data } = await supabase.from('deals').select('*').eq('id', dealId).maybeSingle();
+    return (data ?? undefined) as Deal | undefined;
   };
   
   // Initialize import/export hook at component level
@@ -90,40 +89,46 @@ const DealsPage = () => {
     }
   }, [searchParams]);
 
-  // Handle viewId from URL (from global search)
+  // Handle viewId from URL (from global search); the deal may be on any page
   useEffect(() => {
     const viewId = searchParams.get('viewId');
-    if (viewId && deals.length > 0) {
-      const dealToView = deals.find(d => d.id === viewId);
-      if (dealToView) {
-        setSelectedDeal(dealToView);
-        setIsCreating(false);
-        setIsFormOpen(true);
-        // Clear the viewId from URL after opening
-        const newParams = new URLSearchParams(searchParams);
-        newParams.delete('viewId');
-        navigate(`/deals?${newParams.toString()}`, { replace: true });
-      }
-    }
-  }, [searchParams, deals, navigate]);
+    if (!viewId) return;
+    let cancelled = false;
+    fetchDeal(viewId).then(dealToView => {
+      if (cancelled || !dealToView) return;
+      setSelectedDeal(dealToView);
+      setIsCreating(false);
+      setIsFormOpen(true);
+      // Clear the viewId from URL after opening
+      const newParams = new URLSearchParams(searchParams);
+      newParams.delete('viewId');
+      navigate(`/deals?${newParams.toString()}`, { replace: true });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [searchParams, navigate]);
 
-  // Filter deals by owner when owner=me
-  useEffect(() => {
-    if (ownerParam === 'me' && user?.id) {
-      setFilteredDeals(deals.filter(deal => deal.created_by === user.id));
+  // owner=me shows only the current user's deals
+  const createdByFilter = ownerParam === 'me' ? user?.id : undefined;
+
+  // Exports cover every deal, or the selection, which can span pages
+  const exportDeals = async (format?: 'xlsx') => {
+    if (selectedDealIds.length > 0) {
+      handleExportSelected(await fetchDealsByIds(selectedDealIds), selectedDealIds, format);
     } else {
-      setFilteredDeals(deals);
+      handleExportAll(await fetchAllDeals(), format);
     }
-  }, [deals, ownerParam, user?.id]);
+  };
   // Old fetchDeals removed - using React Query now
-  const handleUpdateDeal = async (dealId: string, updates: Partial<Deal>) => {
+  const handleUpdateDeal = async (dealId: string, updates: Partial<Deal>): Promise<{ heldForApproval: boolean }> => {
     try {
       console.log("=== HANDLE UPDATE DEAL DEBUG ===");
       console.log("Deal ID:", dealId);
       console.log("Updates:", updates);
 
       // Get the existing deal for audit logging
-      const existingDeal = deals.find(deal => deal.id === dealId);
+      const existingDeal = await fetchDeal(dealId);
 
       // Ensure we have all required fields for the update
       const updateData = {
@@ -147,10 +152,16 @@ const DealsPage = () => {
 
       // Invalidate cache instead of setDeals
       queryClient.invalidateQueries({ queryKey: ['deals'] });
-      toast({
-        title: "Success",
-        description: "Deal updated successfully"
-      });
+
+      // Guarded changes (e.g. moving to Won) are held back by approval workflows
+      const heldForApproval = notifyIfHeld(updateData, data);
+      if (!heldForApproval) {
+        toast({
+          title: "Success",
+          description: "Deal updated successfully"
+        });
+      }
+      return { heldForApproval };
     } catch (error: any) {
       console.error("Update deal error:", error);
       toast({
@@ -161,7 +172,23 @@ const DealsPage = () => {
       throw error;
     }
   };
-  const handleSaveDeal = async (dealData: Partial<Deal>) => {
+  // Board moves and bulk stage changes: the database checks the stage's entry criteria and
+  // writes the stage together with any fields filled in to meet them
+  const handleMoveDealStage = async (dealId: string, stage: DealStage, changes: Partial<Deal>): Promise<{ heldForApproval: boolean }> => {
+    const existingDeal = await fetchDeal(dealId);
+    const { data, error } = await supabase.rpc('move_deal_stage', {
+      p_deal_id: dealId,
+      p_stage: stage,
+      p_changes: changes as unknown as Json,
+    });
+    if (error) throw error;
+
+    const sent = { ...changes, stage };
+    await logUpdate('deals', dealId, sent, existingDeal);
+    queryClient.invalidateQueries({ queryKey: ['deals'] });
+    return { heldForApproval: notifyIfHeld(sent, data) };
+  };
+  const handleSaveDeal = async (dealData: Partial<Deal>): Promise<{ heldForApproval: boolean } | void> => {
     try {
       console.log("=== SAVE DEAL DEBUG ===");
       console.log("Is creating:", isCreating);
@@ -201,6 +228,8 @@ const DealsPage = () => {
         await logCreate('deals', data.id, dealData);
         // Invalidate cache to refresh deals
         queryClient.invalidateQueries({ queryKey: ['deals'] });
+        // Created straight into a guarded stage: saved on the first stage until approved
+        return { heldForApproval: notifyIfHeld(insertData, data) };
       } else if (selectedDeal) {
         const updateData = {
           ...dealData,
@@ -209,8 +238,9 @@ const DealsPage = () => {
           modified_by: user?.id
         };
         console.log("Update data for existing deal:", updateData);
-        await handleUpdateDeal(selectedDeal.id, updateData);
+        const result = await handleUpdateDeal(selectedDeal.id, updateData);
         await fetchDeals();
+        return result;
       }
     } catch (error: any) {
       console.error("Error in handleSaveDeal:", error);
@@ -331,9 +361,6 @@ const DealsPage = () => {
       };
     }
   }, [user, queryClient]);
-  // Show skeleton instead of blocking full-screen loader
-  const showSkeleton = loading && deals.length === 0;
-  
   if (authLoading) {
     return <div className="h-screen flex items-center justify-center bg-background">
         <div className="text-center">
@@ -401,7 +428,7 @@ const DealsPage = () => {
                   <DropdownMenuItem onClick={() => {
                     const input = document.createElement('input');
                     input.type = 'file';
-                    input.accept = '.csv';
+                    input.accept = SPREADSHEET_ACCEPT;
                     input.onchange = async (e) => {
                       const file = (e.target as HTMLInputElement).files?.[0];
                       if (file) {
@@ -411,18 +438,16 @@ const DealsPage = () => {
                     input.click();
                   }}>
                     <Upload className="w-4 h-4 mr-2" />
-                    Import CSV
+                    Import CSV / Excel
                   </DropdownMenuItem>
-                  <DropdownMenuItem onClick={() => {
-                    if (selectedDealIds.length > 0) {
-                      handleExportSelected(deals, selectedDealIds);
-                    } else {
-                      handleExportAll(deals);
-                    }
-                  }}>
+                  <DropdownMenuItem onClick={() => exportDeals()}>
                     <Download className="w-4 h-4 mr-2" />
                     Export {selectedDealIds.length > 0 ? `(${selectedDealIds.length})` : 'CSV'}
                   </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => exportDeals('xlsx')}>
+                    <FileSpreadsheet className="w-4 h-4 mr-2" />
+                    Export Excel {selectedDealIds.length > 0 ? `(${selectedDealIds.length})` : ''}
+                  </DropdownMenuItem>
                   {selectedDealIds.length > 0 && (
                     <DropdownMenuItem 
                       onClick={() => setShowBulkDeleteDialog(true)}
@@ -435,7 +460,7 @@ const DealsPage = () => {
                 </DropdownMenuContent>
               </DropdownMenu>
 
-              <Button size="sm" onClick={() => handleCreateDeal('Lead')} className="gap-1.5">
+              <Button size="sm" onClick={() => handleCreateDeal(openStageNames[0])} className="gap-1.5">
                 <Plus className="h-4 w-4" />
                 Add Deal
               </Button>
@@ -446,13 +471,11 @@ const DealsPage = () => {
 
       {/* Main Content Area - Takes remaining height */}
       <div className="flex-1 min-h-0 flex flex-col px-4 pt-2 pb-4 overflow-hidden">
-        {showSkeleton ? (
-          <ViewSkeleton />
-        ) : activeView === 'kanban' ? (
+        {activeView === 'kanban' ? (
           <Suspense fallback={<ViewSkeleton />}>
             <KanbanBoard 
-              deals={filteredDeals} 
-              onUpdateDeal={handleUpdateDeal} 
+              createdBy={createdByFilter}
+              onMoveDealStage={handleMoveDealStage}
               onDealClick={handleDealClick} 
               onCreateDeal={handleCreateDeal} 
               onDeleteDeals={handleDeleteDeals} 
@@ -463,9 +486,10 @@ const DealsPage = () => {
         ) : (
           <Suspense fallback={<ViewSkeleton />}>
             <ListView 
-              deals={filteredDeals} 
+              createdBy={createdByFilter}
               onDealClick={handleDealClick} 
               onUpdateDeal={handleUpdateDeal} 
+              onMoveDealStage={handleMoveDealStage}
               onDeleteDeals={handleDeleteDeals} 
               onImportDeals={handleImportDeals} 
               initialStageFilter={stageFilterFromUrl}
@@ -1,6 +1,7 @@
 import { useState, useEffect } from "react";
 import { useNavigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
+import { Json } from "@/integrations/supabase/types";
 import { useAuth } from "@/hooks/useAuth";
 import { Deal, DealStage } from "@/types/deal";
 import { DealForm } from "@/components/DealForm";
@@ -86,6 +87,19 @@ const Index = () => {
     }
   };
 
+  const handleMoveDealStage = async (dealId: string, stage: DealStage, changes: Partial<Deal>) => {
+    const { data, error } = await supabase.rpc('move_deal_stage', {
+      p_deal_id: dealId,
+      p_stage: stage,
+      p_changes: changes as unknown as Json,
+    });
+    if (error) throw error;
+
+    setDeals(prev => prev.map(deal => 
+      deal.id === dealId ? (data as unknown as Deal) : deal
+    ));
+  };
+
   const handleSaveDeal = async (dealData: Partial<Deal>) => {
     try {
       if (isCreating) {
@@ -277,8 +291,8 @@ const Index = () => {
 
       <DashboardContent
         activeView={activeView}
-        deals={deals}
         onUpdateDeal={handleUpdateDeal}
+        onMoveDealStage={handleMoveDealStage}
         onDealClick={handleDealClick}
         onCreateDeal={handleCreateDeal}
         onDeleteDeals={handleDeleteDeals}
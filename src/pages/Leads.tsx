@@ -4,12 +4,14 @@ import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import LeadTable, { LeadTableRef } from "@/components/LeadTable";
 import { Button } from "@/components/ui/button";
-import { Settings, Plus, Trash2, Upload, Download, Mail } from "lucide-react";
+import { Settings, Plus, Trash2, Upload, Download, Mail, ListOrdered, FileSpreadsheet } from "lucide-react";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { useSimpleLeadsImportExport } from "@/hooks/useSimpleLeadsImportExport";
 import { LeadDeleteConfirmDialog } from "@/components/LeadDeleteConfirmDialog";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { BulkEmailModal, BulkEmailRecipient } from "@/components/BulkEmailModal";
+import { EnrollInSequenceModal } from "@/components/email/EnrollInSequenceModal";
+import { isSpreadsheetFile, SPREADSHEET_ACCEPT } from "@/utils/spreadsheetFile";
 
 // Leads page component
 const Leads = () => {
@@ -22,6 +24,7 @@ const Leads = () => {
   const [refreshTrigger, setRefreshTrigger] = useState(0);
   const [showBulkDeleteDialog, setShowBulkDeleteDialog] = useState(false);
   const [showBulkEmailModal, setShowBulkEmailModal] = useState(false);
+  const [showSequenceModal, setShowSequenceModal] = useState(false);
   const [bulkEmailRecipients, setBulkEmailRecipients] = useState<BulkEmailRecipient[]>([]);
   const [isDeleting, setIsDeleting] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -78,12 +81,12 @@ const Leads = () => {
 
   const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
-    if (file && file.type === 'text/csv') {
+    if (file && isSpreadsheetFile(file)) {
       handleImport(file);
     } else {
       toast({
         title: "Error",
-        description: "Please select a valid CSV file",
+        description: "Please select a CSV or Excel (.xlsx) file",
         variant: "destructive"
       });
     }
@@ -121,6 +124,18 @@ const Leads = () => {
                       </TooltipContent>
                     </Tooltip>
                   </TooltipProvider>
+                  <TooltipProvider>
+                    <Tooltip>
+                      <TooltipTrigger asChild>
+                        <Button variant="outline" size="icon" onClick={() => setShowSequenceModal(true)}>
+                          <ListOrdered className="w-4 h-4" />
+                        </Button>
+                      </TooltipTrigger>
+                      <TooltipContent>
+                        <p>Add Selected to Sequence ({selectedLeads.length})</p>
+                      </TooltipContent>
+                    </Tooltip>
+                  </TooltipProvider>
                   <TooltipProvider>
                     <Tooltip>
                       <TooltipTrigger asChild>
@@ -149,16 +164,24 @@ const Leads = () => {
                   </DropdownMenuItem>
                   <DropdownMenuItem onClick={() => fileInputRef.current?.click()} disabled={isImporting}>
                     <Upload className="w-4 h-4 mr-2" />
-                    {isImporting ? 'Importing...' : 'Import CSV'}
+                    {isImporting ? 'Importing...' : 'Import CSV / Excel'}
                   </DropdownMenuItem>
-                  <DropdownMenuItem onClick={handleExport}>
+                  <DropdownMenuItem onClick={() => handleExport('csv')}>
                     <Download className="w-4 h-4 mr-2" />
                     Export CSV
                   </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => handleExport('xlsx')}>
+                    <FileSpreadsheet className="w-4 h-4 mr-2" />
+                    Export Excel
+                  </DropdownMenuItem>
                   <DropdownMenuItem onClick={handleBulkEmailClick} disabled={selectedLeads.length === 0}>
                     <Mail className="w-4 h-4 mr-2" />
                     Send Bulk Email ({selectedLeads.length})
                   </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => setShowSequenceModal(true)} disabled={selectedLeads.length === 0}>
+                    <ListOrdered className="w-4 h-4 mr-2" />
+                    Add to Sequence ({selectedLeads.length})
+                  </DropdownMenuItem>
                   <DropdownMenuItem onClick={handleBulkDeleteClick} disabled={selectedLeads.length === 0 || isDeleting} className="text-destructive focus:text-destructive">
                     <Trash2 className="w-4 h-4 mr-2" />
                     {isDeleting ? 'Deleting...' : `Delete Selected (${selectedLeads.length})`}
@@ -179,7 +202,7 @@ const Leads = () => {
       <input 
         ref={fileInputRef} 
         type="file" 
-        accept=".csv" 
+        accept={SPREADSHEET_ACCEPT}
         onChange={handleFileSelect} 
         className="hidden"
       />
@@ -218,6 +241,14 @@ const Leads = () => {
           setSelectedLeads([]);
         }}
       />
+
+      {/* Enroll in Sequence Modal */}
+      <EnrollInSequenceModal
+        open={showSequenceModal}
+        onOpenChange={setShowSequenceModal}
+        leadIds={selectedLeads}
+        onEnrolled={() => setSelectedLeads([])}
+      />
     </div>
   );
 };
@@ -12,7 +12,7 @@ import { Input } from "@/components/ui/input";
 import { Card } from "@/components/ui/card";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Checkbox } from "@/components/ui/checkbox";
-import { Plus, Search, Video, Trash2, Edit, Calendar, ArrowUpDown, ArrowUp, ArrowDown, List, CalendarDays, CheckCircle2, AlertCircle, UserX, CalendarClock, User, Columns, Upload, Download, X, Eye, CheckSquare } from "lucide-react";
+import { Plus, Search, Video, Trash2, Edit, Calendar, ArrowUpDown, ArrowUp, ArrowDown, List, CalendarDays, CheckCircle2, AlertCircle, UserX, CalendarClock, User, Columns, Upload, Download, X, Eye, CheckSquare, FileSpreadsheet } from "lucide-react";
 import { RowActionsDropdown } from "@/components/RowActionsDropdown";
 import { HighlightedText } from "@/components/shared/HighlightedText";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
@@ -27,6 +27,7 @@ import { Badge } from "@/components/ui/badge";
 import { getMeetingStatus } from "@/utils/meetingStatus";
 import { getMeetingStatusColor } from "@/utils/statusBadgeUtils";
 import { MeetingDetailModal } from "@/components/meetings/MeetingDetailModal";
+import { SPREADSHEET_ACCEPT } from "@/utils/spreadsheetFile";
 
 type SortColumn = 'subject' | 'date' | 'time' | 'lead_contact' | 'status' | null;
 type SortDirection = 'asc' | 'desc';
@@ -436,7 +437,7 @@ const Meetings = () => {
         type="file"
         ref={fileInputRef}
         onChange={handleFileChange}
-        accept=".csv"
+        accept={SPREADSHEET_ACCEPT}
         className="hidden"
       />
 
@@ -486,12 +487,16 @@ const Meetings = () => {
                   </DropdownMenuItem>
                   <DropdownMenuItem onClick={triggerFileInput} disabled={isImporting}>
                     <Upload className="h-4 w-4 mr-2" />
-                    {isImporting ? 'Importing...' : 'Import CSV'}
+                    {isImporting ? 'Importing...' : 'Import CSV / Excel'}
                   </DropdownMenuItem>
-                  <DropdownMenuItem onClick={() => handleExport(sortedAndFilteredMeetings)} disabled={isExporting || sortedAndFilteredMeetings.length === 0}>
+                  <DropdownMenuItem onClick={() => handleExport(sortedAndFilteredMeetings, 'csv')} disabled={isExporting || sortedAndFilteredMeetings.length === 0}>
                     <Download className="h-4 w-4 mr-2" />
                     {isExporting ? 'Exporting...' : 'Export CSV'}
                   </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => handleExport(sortedAndFilteredMeetings, 'xlsx')} disabled={isExporting || sortedAndFilteredMeetings.length === 0}>
+                    <FileSpreadsheet className="h-4 w-4 mr-2" />
+                    Export Excel
+                  </DropdownMenuItem>
                   <DropdownMenuItem 
                     disabled={selectedMeetings.length === 0} 
                     className="text-destructive focus:text-destructive"
@@ -115,8 +115,12 @@ const Notifications = () => {
     
     if (taskNotificationTypes.includes(notification.notification_type)) {
       navigate('/tasks');
+    } else if (notification.notification_type.startsWith('approval_')) {
+      navigate('/approvals');
     } else if (notification.lead_id) {
       navigate(`/leads?viewId=${notification.lead_id}`);
+    } else if (notification.deal_id) {
+      navigate(`/deals?viewId=${notification.deal_id}`);
     } else if (dealMatch) {
       const dealId = dealMatch[1];
       navigate(`/deals?viewId=${dealId}`);
@@ -138,6 +142,8 @@ const Notifications = () => {
         return '👤';
       case 'deal_update':
         return '💼';
+      case 'stale_deal':
+        return '⏳';
       case 'task_assigned':
         return '✅';
       case 'task_unassigned':
@@ -148,6 +154,12 @@ const Notifications = () => {
         return '📝';
       case 'task_deleted':
         return '🗑️';
+      case 'approval_request':
+        return '🛡️';
+      case 'approval_approved':
+        return '👍';
+      case 'approval_rejected':
+        return '⛔';
       default:
         return '🔔';
     }
@@ -3,7 +3,7 @@ import { useSearchParams, useNavigate } from 'react-router-dom';
 import { useTasks } from '@/hooks/useTasks';
 import { useAuth } from '@/hooks/useAuth';
 import { useTasksImportExport } from '@/hooks/useTasksImportExport';
-import { Task, TaskStatus, CreateTaskData, TaskModuleType, TaskModalContext } from '@/types/task';
+import { Task, TaskStatus, CreateTaskData, TaskModuleType, TaskModalContext, TaskSeriesEditScope } from '@/types/task';
 import { TaskModal } from '@/components/tasks/TaskModal';
 import { TaskListView } from '@/components/tasks/TaskListView';
 import { TaskKanbanView } from '@/components/tasks/TaskKanbanView';
@@ -13,9 +13,10 @@ import { BulkDeleteConfirmDialog } from '@/components/shared/BulkDeleteConfirmDi
 import { Button } from '@/components/ui/button';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
-import { Plus, Loader2, List, LayoutGrid, CalendarDays, Trash2, Columns, Download, Upload } from 'lucide-react';
+import { Plus, Loader2, List, LayoutGrid, CalendarDays, Trash2, Columns, Download, Upload, FileSpreadsheet } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from '@/hooks/use-toast';
+import { SPREADSHEET_ACCEPT } from '@/utils/spreadsheetFile';
 
 interface ColumnPreference {
   visible_columns: string[];
@@ -207,6 +208,18 @@ const Tasks = () => {
     setShowModal(true);
   };
 
+  // New sub-task starts out linked to the same record as its parent
+  const handleAddSubtask = (parent: Task) => {
+    const recordId = parent.account_id || parent.contact_id || parent.lead_id || parent.meeting_id || parent.deal_id;
+    setPrefillContext({
+      module: parent.module_type || undefined,
+      recordId: recordId || undefined,
+      parentTaskId: parent.id,
+    });
+    setEditingTask(null);
+    setShowModal(true);
+  };
+
   const handleDelete = (taskId: string) => {
     setDeleteTaskId(taskId);
   };
@@ -250,8 +263,8 @@ const Tasks = () => {
   };
 
   // Handle task update with return navigation  
-  const handleTaskUpdate = async (taskId: string, data: Partial<Task>, original?: Task) => {
-    const result = await updateTask(taskId, data, original);
+  const handleTaskUpdate = async (taskId: string, data: Partial<Task>, original?: Task, scope?: TaskSeriesEditScope) => {
+    const result = await updateTask(taskId, data, original, scope);
     if (result && returnPath && returnViewId) {
       navigateBack();
     }
@@ -305,7 +318,7 @@ const Tasks = () => {
         type="file"
         ref={fileInputRef}
         onChange={handleFileChange}
-        accept=".csv"
+        accept={SPREADSHEET_ACCEPT}
         className="hidden"
       />
 
@@ -347,12 +360,16 @@ const Tasks = () => {
                   </DropdownMenuItem>
                   <DropdownMenuItem onClick={handleImportClick} disabled={importing}>
                     <Upload className="h-4 w-4 mr-2" />
-                    {importing ? 'Importing...' : 'Import CSV'}
+                    {importing ? 'Importing...' : 'Import CSV / Excel'}
                   </DropdownMenuItem>
-                  <DropdownMenuItem onClick={exportToCSV} disabled={exporting}>
+                  <DropdownMenuItem onClick={() => exportToCSV('csv')} disabled={exporting}>
                     <Download className="h-4 w-4 mr-2" />
                     {exporting ? 'Exporting...' : 'Export CSV'}
                   </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => exportToCSV('xlsx')} disabled={exporting}>
+                    <FileSpreadsheet className="h-4 w-4 mr-2" />
+                    Export Excel
+                  </DropdownMenuItem>
                   <DropdownMenuItem 
                     disabled={selectedTasks.length === 0} 
                     className="text-destructive focus:text-destructive"
@@ -389,6 +406,7 @@ const Tasks = () => {
                 onDelete={handleDelete} 
                 onStatusChange={handleStatusChange} 
                 onToggleComplete={handleToggleComplete} 
+                onAddSubtask={handleAddSubtask}
                 initialStatusFilter={initialStatusFilter} 
                 initialOwnerFilter={initialOwnerFilter}
                 selectedTasks={selectedTasks}
@@ -0,0 +1,121 @@
+export type ApprovalEntityType = 'deals' | 'leads' | 'accounts';
+export type ApprovalStatus = 'pending' | 'approved' | 'rejected' | 'cancelled';
+export type ApprovalActionType = 'approved' | 'rejected';
+
+export interface ApprovalStep {
+  step: number;
+  role: string;
+  user_id?: string;
+}
+
+export interface ApprovalTriggerConditions {
+  field: string;
+  operator: string;
+  value: string | number;
+  // Change that is held back until approved; defaults to the condition field
+  guarded_field?: string;
+  guarded_value?: string;
+}
+
+export interface ApprovalAction {
+  id: string;
+  request_id: string | null;
+  step_number: number;
+  approver_id: string;
+  action: ApprovalActionType;
+  comments: string | null;
+  acted_at: string | null;
+}
+
+export interface ApprovalRequest {
+  id: string;
+  workflow_id: string | null;
+  entity_type: ApprovalEntityType;
+  entity_id: string;
+  entity_name: string | null;
+  current_step: number | null;
+  status: ApprovalStatus;
+  pending_changes: Record<string, unknown> | null;
+  submitted_by: string | null;
+  submitted_at: string | null;
+  completed_at: string | null;
+  created_at: string | null;
+  updated_at: string | null;
+  // Joined data
+  workflow?: {
+    id: string;
+    name: string;
+    approval_steps: ApprovalStep[];
+    trigger_conditions: ApprovalTriggerConditions | null;
+  } | null;
+  actions?: ApprovalAction[];
+}
+
+export const APPROVAL_ENTITY_LABELS: Record<ApprovalEntityType, string> = {
+  deals: 'Deal',
+  leads: 'Lead',
+  accounts: 'Account',
+};
+
+// Default guarded change per entity, matching the common "close the record" transitions
+export const DEFAULT_GUARDED_CHANGES: Record<ApprovalEntityType, { field: string; value: string }> = {
+  deals: { field: 'stage', value: 'Won' },
+  leads: { field: 'lead_status', value: 'Converted' },
+  accounts: { field: 'status', value: 'Closed-Won' },
+};
+
+export const getApprovalStatusColor = (status?: string | null): string => {
+  switch (status) {
+    case 'approved':
+      return 'bg-emerald-50 text-emerald-700 dark:bg-emerald-900/20 dark:text-emerald-300 border-emerald-200 dark:border-emerald-800';
+    case 'rejected':
+      return 'bg-rose-50 text-rose-700 dark:bg-rose-900/20 dark:text-rose-300 border-rose-200 dark:border-rose-800';
+    case 'cancelled':
+      return 'bg-gray-100 text-gray-600 dark:bg-gray-800/30 dark:text-gray-400 border-gray-200 dark:border-gray-700';
+    case 'pending':
+    default:
+      return 'bg-amber-50 text-amber-700 dark:bg-amber-900/20 dark:text-amber-300 border-amber-200 dark:border-amber-800';
+  }
+};
+
+export const formatPendingChanges = (changes: ApprovalRequest['pending_changes']): string | null => {
+  if (!changes) return null;
+  return Object.entries(changes)
+    .map(([field, value]) => `${field.replace(/_/g, ' ')} → ${String(value ?? '-')}`)
+    .join(', ');
+};
+
+/**
+ * Compare what was sent in an update with the row the database returned.
+ * Fields that came back unchanged were held back by an approval workflow.
+ */
+export const getHeldFields = (
+  sent: Record<string, unknown>,
+  saved: Record<string, unknown> | null | undefined,
+  guardedFields: string[]
+): string[] => {
+  if (!saved) return [];
+  return guardedFields.filter(field =>
+    field in sent &&
+    sent[field] !== undefined &&
+    String(sent[field] ?? '') !== String(saved[field] ?? '')
+  );
+};
+
+/**
+ * Whether a user with the given role/id can act on the current step of a request.
+ */
+export const canActOnStep = (
+  request: ApprovalRequest,
+  userId: string | undefined,
+  userRole: string
+): boolean => {
+  if (request.status !== 'pending' || !userId) return false;
+  if (userRole === 'admin') return true;
+  // Submitters never approve their own change
+  if (request.submitted_by === userId) return false;
+  const step = request.workflow?.approval_steps?.[(request.current_step || 1) - 1];
+  if (!step) return false;
+  if (step.user_id) return step.user_id === userId;
+  return step.role === userRole;
+};
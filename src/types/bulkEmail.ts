@@ -0,0 +1,81 @@
+// Bulk email jobs: sends queued server-side and worked off by the process-bulk-email-jobs function
+
+export type BulkEmailJobStatus = 'scheduled' | 'running' | 'paused' | 'completed' | 'cancelled' | 'failed';
+
+export type BulkEmailRecipientStatus = 'pending' | 'sending' | 'sent' | 'failed' | 'cancelled';
+
+export type BulkEmailJobAction = 'pause' | 'resume' | 'cancel';
+
+export interface BulkEmailJob {
+  id: string;
+  subject: string;
+  body: string;
+  sender_email: string;
+  template_id: string | null;
+  status: BulkEmailJobStatus;
+  scheduled_at: string;
+  rate_per_minute: number;
+  total_count: number;
+  sent_count: number;
+  failed_count: number;
+  last_error: string | null;
+  created_by: string | null;
+  created_at: string;
+  started_at: string | null;
+  completed_at: string | null;
+}
+
+export interface BulkEmailJobRecipient {
+  id: string;
+  job_id: string;
+  lead_id: string | null;
+  contact_id: string | null;
+  account_id: string | null;
+  recipient_email: string;
+  recipient_name: string | null;
+  status: BulkEmailRecipientStatus;
+  attempts: number;
+  // Set while a transient failure is waiting to be retried
+  next_attempt_at: string | null;
+  last_error: string | null;
+  sent_at: string | null;
+}
+
+export interface BulkEmailJobInput {
+  subject: string;
+  body: string;
+  senderEmail: string;
+  templateId?: string | null;
+  recipients: {
+    email: string;
+    name: string;
+    lead_id?: string;
+    contact_id?: string;
+    account_id?: string;
+  }[];
+  // Omitted to start right away
+  scheduledAt?: string | null;
+  ratePerMinute: number;
+}
+
+// Jobs the worker may still touch; the list polls while any of these exist
+export const ACTIVE_BULK_JOB_STATUSES: BulkEmailJobStatus[] = ['scheduled', 'running', 'paused'];
+
+export const DEFAULT_BULK_RATE_PER_MINUTE = 30;
+
+export const BULK_JOB_STATUS_LABELS: Record<BulkEmailJobStatus, string> = {
+  scheduled: 'Scheduled',
+  running: 'Sending',
+  paused: 'Paused',
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+  failed: 'Failed',
+};
+
+export const BULK_RECIPIENT_STATUS_LABELS: Record<BulkEmailRecipientStatus, string> = {
+  pending: 'Pending',
+  sending: 'Sending',
+  sent: 'Sent',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+};
@@ -0,0 +1,124 @@
+import { CustomFieldEntityType, getCustomFieldNameFromColumn, isCustomFieldColumn } from '@/types/customField';
+
+// Admin-defined field mappings stored in conversion_field_mappings, applied by the
+// convert_lead_to_deal / convert_contact_to_lead database functions
+
+export type ConversionType = 'lead_to_deal' | 'contact_to_lead';
+
+export interface ConversionFieldMapping {
+  id: string;
+  conversion_type: ConversionType;
+  // Column name, or cf_<field_name> for a custom field
+  source_field: string;
+  target_field: string;
+  is_active: boolean;
+  sort_order: number;
+}
+
+export interface ConversionFieldOption {
+  value: string;
+  label: string;
+}
+
+export const CONVERSION_TYPE_LABELS: Record<ConversionType, string> = {
+  lead_to_deal: 'Lead → Deal',
+  contact_to_lead: 'Contact → Lead',
+};
+
+// Custom field entity on each side of a conversion
+export const CONVERSION_ENTITIES: Record<ConversionType, { source: CustomFieldEntityType; target: CustomFieldEntityType }> = {
+  lead_to_deal: { source: 'lead', target: 'deal' },
+  contact_to_lead: { source: 'contact', target: 'lead' },
+};
+
+const LEAD_FIELDS: ConversionFieldOption[] = [
+  { value: 'lead_name', label: 'Lead Name' },
+  { value: 'company_name', label: 'Company' },
+  { value: 'position', label: 'Position' },
+  { value: 'email', label: 'Email' },
+  { value: 'phone_no', label: 'Phone' },
+  { value: 'linkedin', label: 'LinkedIn' },
+  { value: 'website', label: 'Website' },
+  { value: 'contact_source', label: 'Source' },
+  { value: 'industry', label: 'Industry' },
+  { value: 'country', label: 'Country' },
+  { value: 'description', label: 'Description' },
+  { value: 'contact_owner', label: 'Lead Owner' },
+  { value: 'account_id', label: 'Account' },
+  { value: 'converted_from_contact_id', label: 'Original Contact' },
+];
+
+const CONTACT_FIELDS: ConversionFieldOption[] = [
+  { value: 'contact_name', label: 'Contact Name' },
+  { value: 'company_name', label: 'Company' },
+  { value: 'position', label: 'Position' },
+  { value: 'email', label: 'Email' },
+  { value: 'phone_no', label: 'Phone' },
+  { value: 'linkedin', label: 'LinkedIn' },
+  { value: 'website', label: 'Website' },
+  { value: 'contact_source', label: 'Source' },
+  { value: 'industry', label: 'Industry' },
+  { value: 'region', label: 'Region' },
+  { value: 'description', label: 'Description' },
+  { value: 'contact_owner', label: 'Contact Owner' },
+  { value: 'account_id', label: 'Account' },
+];
+
+const DEAL_FIELDS: ConversionFieldOption[] = [
+  { value: 'deal_name', label: 'Deal Name' },
+  { value: 'project_name', label: 'Project Name' },
+  { value: 'customer_name', label: 'Customer' },
+  { value: 'lead_name', label: 'Lead Name' },
+  { value: 'region', label: 'Region' },
+  { value: 'customer_need', label: 'Customer Need' },
+  { value: 'customer_challenges', label: 'Customer Challenges' },
+  { value: 'internal_comment', label: 'Internal Comment' },
+  { value: 'account_id', label: 'Account' },
+  { value: 'contact_id', label: 'Contact' },
+];
+
+export const CONVERSION_SOURCE_FIELDS: Record<ConversionType, ConversionFieldOption[]> = {
+  lead_to_deal: LEAD_FIELDS,
+  contact_to_lead: CONTACT_FIELDS,
+};
+
+export const CONVERSION_TARGET_FIELDS: Record<ConversionType, ConversionFieldOption[]> = {
+  lead_to_deal: DEAL_FIELDS,
+  contact_to_lead: LEAD_FIELDS.filter(field => field.value !== 'converted_from_contact_id'),
+};
+
+const isBlank = (value: unknown) =>
+  value === null || value === undefined || (typeof value === 'string' && value.trim() === '');
+
+/**
+ * Client-side mirror of apply_conversion_mappings, used to pre-fill forms with what the
+ * conversion will produce. The database applies the same mappings when converting.
+ */
+export const applyConversionMappings = (
+  mappings: ConversionFieldMapping[],
+  source: Record<string, unknown>
+): Record<string, unknown> => {
+  const result: Record<string, unknown> = {};
+  const customFields: Record<string, unknown> = {};
+  const sourceCustom = (source.custom_fields || {}) as Record<string, unknown>;
+
+  mappings
+    .filter(mapping => mapping.is_active)
+    .forEach(mapping => {
+      const value = isCustomFieldColumn(mapping.source_field)
+        ? sourceCustom[getCustomFieldNameFromColumn(mapping.source_field)]
+        : source[mapping.source_field];
+      if (isBlank(value)) return;
+
+      if (isCustomFieldColumn(mapping.target_field)) {
+        customFields[getCustomFieldNameFromColumn(mapping.target_field)] = value;
+      } else {
+        result[mapping.target_field] = value;
+      }
+    });
+
+  if (Object.keys(customFields).length > 0) {
+    result.custom_fields = customFields;
+  }
+  return result;
+};
@@ -0,0 +1,166 @@
+// Custom chart dashboard widget: a user-built count/sum chart over one CRM entity
+
+export type CustomChartEntity = 'leads' | 'contacts' | 'accounts' | 'deals' | 'tasks' | 'meetings';
+
+export type CustomChartMetric = 'count' | 'sum';
+
+export type CustomChartType = 'bar' | 'line' | 'pie';
+
+// Stored on the widget's entry in dashboard_preferences.widget_layouts
+export type CustomChartConfig = {
+  title: string;
+  entity: CustomChartEntity;
+  metric: CustomChartMetric;
+  // Numeric column summed when metric is 'sum'
+  metricField: string | null;
+  groupBy: string;
+  chartType: CustomChartType;
+  // Optional saved_filters row (filter_type = entity) narrowing the records
+  savedFilterId: string | null;
+};
+
+export interface CustomChartField {
+  field: string;
+  label: string;
+}
+
+export interface CustomChartEntityMeta {
+  label: string;
+  createdColumn: string;
+  ownerColumn: string;
+  groupFields: CustomChartField[];
+  numericFields: CustomChartField[];
+  // Saved filter keys (as stored by the entity's filter UI) mapped to columns
+  filterColumns: Record<string, string>;
+  searchColumn: string;
+}
+
+// Pseudo group-by fields resolved client-side
+export const CREATED_MONTH_GROUP = 'created_month';
+export const OWNER_GROUP = 'owner';
+
+export const CUSTOM_CHART_ENTITIES: Record<CustomChartEntity, CustomChartEntityMeta> = {
+  leads: {
+    label: 'Leads',
+    createdColumn: 'created_time',
+    ownerColumn: 'contact_owner',
+    groupFields: [
+      { field: 'lead_status', label: 'Status' },
+      { field: 'industry', label: 'Industry' },
+      { field: 'country', label: 'Country' },
+      { field: 'contact_source', label: 'Source' },
+    ],
+    numericFields: [{ field: 'score', label: 'Score' }],
+    filterColumns: { status: 'lead_status', source: 'contact_source' },
+    searchColumn: 'lead_name',
+  },
+  contacts: {
+    label: 'Contacts',
+    createdColumn: 'created_time',
+    ownerColumn: 'contact_owner',
+    groupFields: [
+      { field: 'segment', label: 'Segment' },
+      { field: 'contact_source', label: 'Source' },
+      { field: 'industry', label: 'Industry' },
+      { field: 'region', label: 'Region' },
+    ],
+    numericFields: [
+      { field: 'score', label: 'Score' },
+      { field: 'email_opens', label: 'Email opens' },
+      { field: 'email_clicks', label: 'Email clicks' },
+    ],
+    filterColumns: { source: 'contact_source', segment: 'segment' },
+    searchColumn: 'contact_name',
+  },
+  accounts: {
+    label: 'Accounts',
+    createdColumn: 'created_at',
+    ownerColumn: 'account_owner',
+    groupFields: [
+      { field: 'status', label: 'Status' },
+      { field: 'industry', label: 'Industry' },
+      { field: 'region', label: 'Region' },
+      { field: 'company_type', label: 'Company type' },
+    ],
+    numericFields: [
+      { field: 'deal_count', label: 'Deals' },
+      { field: 'contact_count', label: 'Contacts' },
+    ],
+    filterColumns: { status: 'status' },
+    searchColumn: 'company_name',
+  },
+  deals: {
+    label: 'Deals',
+    createdColumn: 'created_at',
+    ownerColumn: 'lead_owner',
+    groupFields: [
+      { field: 'stage', label: 'Stage' },
+      { field: 'region', label: 'Region' },
+      { field: 'priority', label: 'Priority' },
+      { field: 'currency_type', label: 'Currency' },
+    ],
+    numericFields: [
+      { field: 'total_contract_value', label: 'Contract value' },
+      { field: 'total_revenue', label: 'Revenue' },
+      { field: 'probability', label: 'Probability' },
+    ],
+    // Keys written by DealsAdvancedFilter
+    filterColumns: {
+      stages: 'stage',
+      regions: 'region',
+      leadOwners: 'lead_owner',
+      priorities: 'priority',
+      probabilities: 'probability',
+      handoffStatuses: 'handoff_status',
+    },
+    searchColumn: 'deal_name',
+  },
+  tasks: {
+    label: 'Tasks',
+    createdColumn: 'created_at',
+    ownerColumn: 'assigned_to',
+    groupFields: [
+      { field: 'status', label: 'Status' },
+      { field: 'priority', label: 'Priority' },
+      { field: 'category', label: 'Category' },
+      { field: 'module_type', label: 'Linked to' },
+    ],
+    numericFields: [],
+    filterColumns: { status: 'status', priority: 'priority' },
+    searchColumn: 'title',
+  },
+  meetings: {
+    label: 'Meetings',
+    createdColumn: 'created_at',
+    ownerColumn: 'created_by',
+    groupFields: [
+      { field: 'status', label: 'Status' },
+      { field: 'outcome', label: 'Outcome' },
+    ],
+    numericFields: [],
+    filterColumns: { status: 'status' },
+    searchColumn: 'subject',
+  },
+};
+
+export const CUSTOM_CHART_TYPE_LABELS: Record<CustomChartType, string> = {
+  bar: 'Bar',
+  line: 'Line',
+  pie: 'Pie',
+};
+
+export const DEFAULT_CUSTOM_CHART_CONFIG: CustomChartConfig = {
+  title: 'Deals by stage',
+  entity: 'deals',
+  metric: 'count',
+  metricField: null,
+  groupBy: 'stage',
+  chartType: 'bar',
+  savedFilterId: null,
+};
+
+export const getGroupFields = (entity: CustomChartEntity): CustomChartField[] => [
+  ...CUSTOM_CHART_ENTITIES[entity].groupFields,
+  { field: OWNER_GROUP, label: 'Owner' },
+  { field: CREATED_MONTH_GROUP, label: 'Created month' },
+];
@@ -0,0 +1,146 @@
+import type { Json } from '@/integrations/supabase/types';
+
+// Admin-defined fields stored in crm_custom_fields; values live in each record's custom_fields JSON
+
+export type CustomFieldEntityType = 'account' | 'contact' | 'lead' | 'deal';
+export type CustomFieldType = 'text' | 'textarea' | 'number' | 'date' | 'select' | 'multiselect' | 'boolean';
+
+export type CustomFieldValues = { [fieldName: string]: Json | undefined };
+
+export interface CustomField {
+  id: string;
+  entity_type: CustomFieldEntityType;
+  field_name: string;
+  field_label: string;
+  field_type: CustomFieldType;
+  field_options: string[];
+  is_required: boolean;
+  is_visible: boolean;
+  display_order: number;
+}
+
+export const CUSTOM_FIELD_ENTITY_LABELS: Record<CustomFieldEntityType, string> = {
+  account: 'Accounts',
+  contact: 'Contacts',
+  lead: 'Leads',
+  deal: 'Deals',
+};
+
+export const CUSTOM_FIELD_TYPE_LABELS: Record<CustomFieldType, string> = {
+  text: 'Text',
+  textarea: 'Long Text',
+  number: 'Number',
+  date: 'Date',
+  select: 'Dropdown',
+  multiselect: 'Multi-select',
+  boolean: 'Yes / No',
+};
+
+// Column keys for custom fields in tables, filters and CSV files
+export const CUSTOM_FIELD_COLUMN_PREFIX = 'cf_';
+
+export const getCustomFieldColumnKey = (fieldName: string) => `${CUSTOM_FIELD_COLUMN_PREFIX}${fieldName}`;
+
+export const isCustomFieldColumn = (key: string) => key.startsWith(CUSTOM_FIELD_COLUMN_PREFIX);
+
+export const getCustomFieldNameFromColumn = (key: string) => key.slice(CUSTOM_FIELD_COLUMN_PREFIX.length);
+
+// Turn a label into a stable snake_case key, e.g. "Contract Tier" -> "contract_tier"
+export const toCustomFieldName = (label: string): string =>
+  label
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+    .slice(0, 50);
+
+export const isEmptyCustomFieldValue = (value: unknown): boolean =>
+  value === null ||
+  value === undefined ||
+  (typeof value === 'string' && value.trim() === '') ||
+  (Array.isArray(value) && value.length === 0);
+
+export const getCustomFieldValue = (
+  record: { custom_fields?: unknown } | null | undefined,
+  fieldName: string
+): Json | undefined => {
+  const values = record?.custom_fields;
+  if (!values || typeof values !== 'object' || Array.isArray(values)) return undefined;
+  return (values as CustomFieldValues)[fieldName];
+};
+
+export const formatCustomFieldValue = (field: CustomField, value: unknown): string => {
+  if (isEmptyCustomFieldValue(value)) return '';
+  switch (field.field_type) {
+    case 'boolean':
+      return value === true || value === 'true' ? 'Yes' : 'No';
+    case 'multiselect':
+      return Array.isArray(value) ? value.join('; ') : String(value);
+    default:
+      return String(value);
+  }
+};
+
+/**
+ * Convert raw text (CSV cell, filter input) into the stored value for a field.
+ * Returns undefined when the text is empty or can't be read as the field's type.
+ */
+export const parseCustomFieldValue = (field: CustomField, raw: string | null | undefined): Json | undefined => {
+  const text = (raw ?? '').trim();
+  if (!text) return undefined;
+  switch (field.field_type) {
+    case 'number': {
+      const num = parseFloat(text.replace(/,/g, ''));
+      return isNaN(num) ? undefined : num;
+    }
+    case 'boolean':
+      return ['true', 'yes', 'y', '1'].includes(text.toLowerCase());
+    case 'multiselect':
+      return text.split(/[;,]/).map(v => v.trim()).filter(Boolean);
+    case 'date': {
+      const date = new Date(text);
+      return isNaN(date.getTime()) ? undefined : date.toISOString().slice(0, 10);
+    }
+    default:
+      return text;
+  }
+};
+
+// Required-field and type checks; returns an error message per field name
+export const validateCustomFieldValues = (
+  fields: CustomField[],
+  values: CustomFieldValues | null | undefined
+): Record<string, string> => {
+  const errors: Record<string, string> = {};
+  fields.forEach(field => {
+    const value = values?.[field.field_name];
+    if (isEmptyCustomFieldValue(value)) {
+      if (field.is_required) errors[field.field_name] = `${field.field_label} is required`;
+      return;
+    }
+    if (field.field_type === 'number' && isNaN(Number(value))) {
+      errors[field.field_name] = `${field.field_label} must be a number`;
+    }
+    if (field.field_type === 'select' && field.field_options.length > 0 && !field.field_options.includes(String(value))) {
+      errors[field.field_name] = `${field.field_label} must be one of the listed options`;
+    }
+  });
+  return errors;
+};
+
+// Drop empty values so cleared fields don't linger in the stored JSON
+export const cleanCustomFieldValues = (values: CustomFieldValues | null | undefined): CustomFieldValues => {
+  const cleaned: CustomFieldValues = {};
+  Object.entries(values || {}).forEach(([key, value]) => {
+    if (!isEmptyCustomFieldValue(value)) cleaned[key] = value;
+  });
+  return cleaned;
+};
+
+export const getCustomFieldColumns = (fields: CustomField[], startOrder: number) =>
+  fields.map((field, index) => ({
+    field: getCustomFieldColumnKey(field.field_name),
+    label: field.field_label,
+    visible: false,
+    order: startOrder + index,
+  }));
@@ -1,4 +1,27 @@
-export type DealStage = 'Lead' | 'Discussions' | 'Qualified' | 'RFQ' | 'Offered' | 'Won' | 'Lost' | 'Dropped';
+import { CustomFieldValues } from './customField';
+import { ForecastCategory } from './forecast';
+
+// Stage names are configured at runtime in pipeline_stages (see usePipelineStages).
+// DEAL_STAGES below is only the default pipeline used until that table loads.
+export type DealStage = string;
+
+export interface PipelineStage {
+  id: string;
+  stage_name: string;
+  stage_order: number;
+  stage_color: string;
+  stage_probability: number;
+  is_active: boolean;
+  is_won_stage: boolean;
+  is_lost_stage: boolean;
+  // Entry criteria: deal fields that must be filled before a deal enters the stage.
+  // Unset on the built-in fallback stages, which use DEFAULT_STAGE_REQUIRED_FIELDS.
+  required_fields?: string[] | null;
+  // Moves into the stage are held by an approval workflow until approved
+  requires_approval?: boolean;
+  // Days an open deal may stay in the stage before deal analytics flags it as stuck
+  sla_days?: number | null;
+}
 
 export interface Deal {
   id: string;
@@ -14,7 +37,9 @@ export interface Deal {
   // Linked entities
   account_id?: string | null;
   contact_id?: string | null;
-  
+  // Lead this deal was converted from
+  source_lead_id?: string | null;
+
   // Lead stage fields
   project_name?: string;
   customer_name?: string;
@@ -36,6 +61,8 @@ export interface Deal {
   business_value?: 'Open' | 'Ongoing' | 'Done';
   decision_maker_level?: 'Open' | 'Ongoing' | 'Done';
   is_recurring?: 'Yes' | 'No' | 'Unclear';
+  // The rep's forecast call; unset counts as pipeline
+  forecast_category?: ForecastCategory | null;
   
   // RFQ stage fields
   total_contract_value?: number;
@@ -69,10 +96,31 @@ export interface Deal {
   
   // Dropped stage fields
   drop_reason?: string;
+
+  // Admin-defined fields, keyed by crm_custom_fields.field_name
+  custom_fields?: CustomFieldValues | null;
 }
 
 export const DEAL_STAGES: DealStage[] = ['Lead', 'Discussions', 'Qualified', 'RFQ', 'Offered', 'Won', 'Lost', 'Dropped'];
 
+export const DEFAULT_PIPELINE_STAGES: PipelineStage[] = [
+  { stage_name: 'Lead', stage_color: '#6b7280', stage_probability: 10 },
+  { stage_name: 'Discussions', stage_color: '#3b82f6', stage_probability: 20 },
+  { stage_name: 'Qualified', stage_color: '#8b5cf6', stage_probability: 40 },
+  { stage_name: 'RFQ', stage_color: '#f59e0b', stage_probability: 60 },
+  { stage_name: 'Offered', stage_color: '#14b8a6', stage_probability: 80 },
+  { stage_name: 'Won', stage_color: '#22c55e', stage_probability: 100, is_won_stage: true },
+  { stage_name: 'Lost', stage_color: '#ef4444', stage_probability: 0, is_lost_stage: true },
+  { stage_name: 'Dropped', stage_color: '#94a3b8', stage_probability: 0, is_lost_stage: true },
+].map((stage, index) => ({
+  id: `default-${stage.stage_name}`,
+  stage_order: index,
+  is_active: true,
+  is_won_stage: false,
+  is_lost_stage: false,
+  ...stage,
+}));
+
 export const STAGE_COLORS = {
   Lead: 'bg-stage-lead text-stage-lead-foreground border-stage-lead-foreground/20',
   Discussions: 'bg-stage-discussions text-stage-discussions-foreground border-stage-discussions-foreground/20',
@@ -84,38 +132,129 @@ export const STAGE_COLORS = {
   Dropped: 'bg-stage-dropped text-stage-dropped-foreground border-stage-dropped-foreground/20',
 };
 
-export const getStageIndex = (stage: DealStage): number => {
-  return DEAL_STAGES.indexOf(stage);
+// Tinted badge/column style from a pipeline stage's hex color
+export const getStageColorStyle = (color?: string | null) => {
+  const hex = color && /^#[0-9a-f]{6}$/i.test(color) ? color : '#6b7280';
+  return {
+    backgroundColor: `${hex}1a`,
+    borderColor: `${hex}4d`,
+    color: hex,
+  };
 };
 
-export const getFieldsForStage = (stage: DealStage): string[] => {
-  const stageIndex = getStageIndex(stage);
-  const allStages = [
-    // Lead fields
-    ['project_name', 'lead_name', 'customer_name', 'region', 'lead_owner', 'priority'],
-    // Discussions fields  
-    ['customer_need', 'relationship_strength', 'internal_comment'],
-    // Qualified fields
-    ['budget', 'business_value', 'decision_maker_level', 'customer_challenges', 'probability', 'expected_closing_date', 'is_recurring'],
-    // RFQ fields
-    ['total_contract_value', 'currency_type', 'start_date', 'end_date', 'project_duration', 'rfq_received_date', 'proposal_due_date', 'rfq_status', 'action_items'],
-    // Offered fields
-    ['business_value', 'decision_maker_level', 'current_status', 'closing'],
-  ];
-  
+// Field groups for the built-in stage forms. Custom stages without a group add no fields.
+export const STAGE_FIELD_GROUPS: Record<string, string[]> = {
+  Lead: ['project_name', 'lead_name', 'customer_name', 'region', 'lead_owner', 'priority'],
+  Discussions: ['customer_need', 'relationship_strength', 'internal_comment'],
+  Qualified: ['budget', 'business_value', 'decision_maker_level', 'customer_challenges', 'probability', 'expected_closing_date', 'forecast_category', 'is_recurring'],
+  RFQ: ['total_contract_value', 'currency_type', 'start_date', 'end_date', 'project_duration', 'rfq_received_date', 'proposal_due_date', 'rfq_status', 'action_items'],
+  Offered: ['business_value', 'decision_maker_level', 'current_status', 'closing'],
+};
+
+// Display labels for built-in deal fields
+export const DEAL_FIELD_LABELS: Record<string, string> = {
+  project_name: 'Project Name',
+  customer_name: 'Customer Name',
+  lead_name: 'Lead Name',
+  lead_owner: 'Lead Owner',
+  account_id: 'Account',
+  contact_id: 'Contact',
+  region: 'Region',
+  priority: 'Priority',
+  probability: 'Probability (%)',
+  internal_comment: 'Internal Comment',
+  expected_closing_date: 'Expected Closing Date',
+  forecast_category: 'Forecast Category',
+  customer_need: 'Customer Need',
+  customer_challenges: 'Customer Challenges',
+  relationship_strength: 'Relationship Strength',
+  budget: 'Budget',
+  is_recurring: 'Is Recurring?',
+  project_type: 'Project Type',
+  duration: 'Duration (months)',
+  revenue: 'Revenue',
+  start_date: 'Start Date',
+  end_date: 'End Date',
+  total_contract_value: 'Total Contract Value',
+  currency_type: 'Currency Type',
+  project_duration: 'Project Duration (months)',
+  rfq_received_date: 'RFQ Received Date',
+  proposal_due_date: 'Proposal Due Date',
+  rfq_status: 'RFQ Status',
+  quarterly_revenue_q1: 'Q1 Revenue',
+  quarterly_revenue_q2: 'Q2 Revenue',
+  quarterly_revenue_q3: 'Q3 Revenue',
+  quarterly_revenue_q4: 'Q4 Revenue',
+  total_revenue: 'Total Revenue',
+  action_items: 'Action Items',
+  current_status: 'Current Status',
+  closing: 'Closing',
+  won_reason: 'Won Reason',
+  lost_reason: 'Lost Reason',
+  need_improvement: 'Need Improvement',
+  drop_reason: 'Drop Reason',
+  fax: 'Fax',
+  business_value: 'Business Value',
+  decision_maker_level: 'Decision Maker Level',
+  signed_contract_date: 'Signed Contract Date',
+  implementation_start_date: 'Implementation Start Date',
+  handoff_status: 'Handoff Status',
+};
+
+const WON_STAGE_FIELDS = ['won_reason', 'quarterly_revenue_q1', 'quarterly_revenue_q2', 'quarterly_revenue_q3', 'quarterly_revenue_q4', 'total_revenue', 'signed_contract_date', 'implementation_start_date', 'handoff_status'];
+const LOST_STAGE_FIELDS = ['lost_reason', 'need_improvement'];
+const DROPPED_STAGE_FIELDS = ['drop_reason'];
+
+// Deal fields an admin can make a stage entry criterion
+export const STAGE_GATE_FIELDS: string[] = Array.from(new Set([
+  ...Object.values(STAGE_FIELD_GROUPS).flat(),
+  ...WON_STAGE_FIELDS,
+  ...LOST_STAGE_FIELDS,
+  ...DROPPED_STAGE_FIELDS,
+]));
+
+const findStage = (stage: DealStage, pipeline: PipelineStage[]) =>
+  pipeline.find(s => s.stage_name === stage);
+
+export const isWonStage = (stage: DealStage, pipeline: PipelineStage[] = DEFAULT_PIPELINE_STAGES): boolean =>
+  !!findStage(stage, pipeline)?.is_won_stage;
+
+export const isLostStage = (stage: DealStage, pipeline: PipelineStage[] = DEFAULT_PIPELINE_STAGES): boolean =>
+  !!findStage(stage, pipeline)?.is_lost_stage;
+
+export const isClosedStage = (stage: DealStage, pipeline: PipelineStage[] = DEFAULT_PIPELINE_STAGES): boolean =>
+  isWonStage(stage, pipeline) || isLostStage(stage, pipeline);
+
+// Active, non-final stages in pipeline order
+export const getOpenStages = (pipeline: PipelineStage[] = DEFAULT_PIPELINE_STAGES): DealStage[] =>
+  pipeline
+    .filter(s => s.is_active && !s.is_won_stage && !s.is_lost_stage)
+    .sort((a, b) => a.stage_order - b.stage_order)
+    .map(s => s.stage_name);
+
+export const getStageIndex = (stage: DealStage, pipeline: PipelineStage[] = DEFAULT_PIPELINE_STAGES): number => {
+  return [...pipeline].sort((a, b) => a.stage_order - b.stage_order).map(s => s.stage_name).indexOf(stage);
+};
+
+// Fields for a won/lost stage; a lost stage named "Dropped" keeps its own drop reason
+export const getFinalStageFields = (stage: DealStage, pipeline: PipelineStage[] = DEFAULT_PIPELINE_STAGES): string[] => {
+  if (isWonStage(stage, pipeline)) return WON_STAGE_FIELDS;
+  if (isLostStage(stage, pipeline)) return stage === 'Dropped' ? DROPPED_STAGE_FIELDS : LOST_STAGE_FIELDS;
+  return [];
+};
+
+export const getFieldsForStage = (stage: DealStage, pipeline: PipelineStage[] = DEFAULT_PIPELINE_STAGES): string[] => {
+  const openStages = getOpenStages(pipeline);
+  const isFinal = isClosedStage(stage, pipeline);
+  const stageIndex = isFinal ? openStages.length - 1 : openStages.indexOf(stage);
+
   let availableFields: string[] = [];
-  for (let i = 0; i <= stageIndex && i < allStages.length; i++) {
-    availableFields = [...availableFields, ...allStages[i]];
+  for (let i = 0; i <= stageIndex; i++) {
+    availableFields = [...availableFields, ...(STAGE_FIELD_GROUPS[openStages[i]] || [])];
   }
   
   // Add final stage-specific reason fields based on the current stage
-  if (stage === 'Won') {
-    availableFields.push('won_reason', 'quarterly_revenue_q1', 'quarterly_revenue_q2', 'quarterly_revenue_q3', 'quarterly_revenue_q4', 'total_revenue', 'signed_contract_date', 'implementation_start_date', 'handoff_status');
-  } else if (stage === 'Lost') {
-    availableFields.push('lost_reason', 'need_improvement');
-  } else if (stage === 'Dropped') {
-    availableFields.push('drop_reason');
-  }
+  availableFields.push(...getFinalStageFields(stage, pipeline));
   
   // Always include internal_comment field
   if (!availableFields.includes('internal_comment')) {
@@ -125,36 +264,73 @@ export const getFieldsForStage = (stage: DealStage): string[] => {
   return availableFields;
 };
 
-export const getEditableFieldsForStage = (stage: DealStage): string[] => {
+export const getEditableFieldsForStage = (stage: DealStage, pipeline: PipelineStage[] = DEFAULT_PIPELINE_STAGES): string[] => {
   // All fields are always editable according to requirements
-  return getFieldsForStage(stage);
+  return getFieldsForStage(stage, pipeline);
 };
 
-export const getRequiredFieldsForStage = (stage: DealStage): string[] => {
-  const requiredFields = {
-    Lead: ['project_name', 'lead_name', 'customer_name', 'region', 'lead_owner', 'priority'],
-    Discussions: ['customer_need', 'relationship_strength', 'internal_comment'],
-    Qualified: ['customer_challenges', 'budget', 'probability', 'expected_closing_date', 'is_recurring', 'internal_comment'],
-    RFQ: ['total_contract_value', 'currency_type', 'start_date', 'end_date', 'rfq_received_date', 'proposal_due_date', 'rfq_status', 'action_items', 'internal_comment'],
-    Offered: ['business_value', 'decision_maker_level', 'current_status', 'closing'],
-    Won: ['won_reason', 'start_date', 'total_revenue', 'signed_contract_date', 'handoff_status'],
-    Lost: ['lost_reason', 'need_improvement'],
-    Dropped: ['drop_reason'],
-  };
-  return requiredFields[stage] || [];
+// Entry criteria of the built-in stages; configured stages keep their own list in pipeline_stages
+export const DEFAULT_STAGE_REQUIRED_FIELDS: Record<string, string[]> = {
+  Lead: ['project_name', 'lead_name', 'customer_name', 'region', 'lead_owner', 'priority'],
+  Discussions: ['customer_need', 'relationship_strength', 'internal_comment'],
+  Qualified: ['customer_challenges', 'budget', 'probability', 'expected_closing_date', 'is_recurring', 'internal_comment'],
+  RFQ: ['total_contract_value', 'currency_type', 'start_date', 'end_date', 'rfq_received_date', 'proposal_due_date', 'rfq_status', 'action_items', 'internal_comment'],
+  Offered: ['business_value', 'decision_maker_level', 'current_status', 'closing'],
+  Won: ['won_reason', 'start_date', 'total_revenue', 'signed_contract_date', 'handoff_status'],
+  Lost: ['lost_reason', 'need_improvement'],
+  Dropped: ['drop_reason'],
 };
 
-export const getNextStage = (currentStage: DealStage): DealStage | null => {
-  const stageFlow = {
-    Lead: 'Discussions',
-    Discussions: 'Qualified', 
-    Qualified: 'RFQ',
-    RFQ: 'Offered',
-    Offered: null, // After Offered, user can choose Won/Lost/Dropped
-  };
-  return stageFlow[currentStage] || null;
+export const getRequiredFieldsForStage = (stage: DealStage, pipeline: PipelineStage[] = DEFAULT_PIPELINE_STAGES): string[] => {
+  const configured = findStage(stage, pipeline)?.required_fields;
+  if (configured) return configured;
+  if (DEFAULT_STAGE_REQUIRED_FIELDS[stage]) return DEFAULT_STAGE_REQUIRED_FIELDS[stage];
+  if (isWonStage(stage, pipeline)) return DEFAULT_STAGE_REQUIRED_FIELDS.Won;
+  if (isLostStage(stage, pipeline)) return DEFAULT_STAGE_REQUIRED_FIELDS.Lost;
+  return [];
+};
+
+// Entry criteria the deal leaves empty; mirrors get_missing_stage_fields in the database
+export const getMissingStageFields = (
+  deal: Partial<Deal>,
+  stage: DealStage,
+  pipeline: PipelineStage[] = DEFAULT_PIPELINE_STAGES
+): string[] =>
+  getRequiredFieldsForStage(stage, pipeline).filter(field => {
+    const value = deal[field as keyof Deal];
+    return value === null || value === undefined || String(value).trim() === '';
+  });
+
+export const getNextStage = (currentStage: DealStage, pipeline: PipelineStage[] = DEFAULT_PIPELINE_STAGES): DealStage | null => {
+  // After the last open stage, user can choose one of the won/lost stages
+  const openStages = getOpenStages(pipeline);
+  const index = openStages.indexOf(currentStage);
+  return index >= 0 && index < openStages.length - 1 ? openStages[index + 1] : null;
 };
 
-export const getFinalStageOptions = (): DealStage[] => {
-  return ['Won', 'Lost', 'Dropped'];
+export const getFinalStageOptions = (pipeline: PipelineStage[] = DEFAULT_PIPELINE_STAGES): DealStage[] => {
+  return pipeline
+    .filter(s => s.is_active && (s.is_won_stage || s.is_lost_stage))
+    .sort((a, b) => a.stage_order - b.stage_order)
+    .map(s => s.stage_name);
 };
+
+// Next steps on a deal (deal_action_items). 'Open' and 'Ongoing' count as open work.
+export type DealActionItemStatus = 'Open' | 'Ongoing' | 'Closed';
+
+export const DEAL_ACTION_ITEM_STATUSES: DealActionItemStatus[] = ['Open', 'Ongoing', 'Closed'];
+
+export interface DealActionItem {
+  id: string;
+  deal_id: string;
+  next_action: string;
+  assigned_to: string | null;
+  due_date: string | null;
+  status: DealActionItemStatus;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export const isDealActionItemOpen = (item: Pick<DealActionItem, 'status'>): boolean =>
+  item.status !== 'Closed';
@@ -0,0 +1,117 @@
+// Deal analytics: funnels, time in stage, stuck deals, cohorts and win/loss reasons are computed on
+// the client from deals and deal_stage_history; deal values are in the reporting currency
+
+export type DealAnalyticsPeriod = 'last_6_months' | 'last_12_months' | 'this_year' | 'all';
+
+export const DEAL_ANALYTICS_PERIOD_LABELS: Record<DealAnalyticsPeriod, string> = {
+  last_6_months: 'Last 6 months',
+  last_12_months: 'Last 12 months',
+  this_year: 'This year',
+  all: 'All time',
+};
+
+export interface DealAnalyticsFilters {
+  period: DealAnalyticsPeriod;
+  // 'all' or a user id
+  ownerId: string;
+  region: string;
+  currency: string;
+}
+
+export const DEFAULT_DEAL_ANALYTICS_FILTERS: DealAnalyticsFilters = {
+  period: 'last_12_months',
+  ownerId: 'all',
+  region: 'all',
+  currency: 'all',
+};
+
+export interface AnalyticsDeal {
+  id: string;
+  name: string;
+  ownerId: string | null;
+  region: string | null;
+  currency: string;
+  stage: string;
+  createdAt: string;
+  // In the reporting currency; 0 when there is no exchange rate
+  amount: number;
+  wonReason: string | null;
+  lostReason: string | null;
+  dropReason: string | null;
+}
+
+export interface StageHistoryEntry {
+  deal_id: string;
+  from_stage: string | null;
+  to_stage: string;
+  changed_at: string;
+}
+
+// One stay of a deal in a stage; leftAt is null while the deal is still there
+export interface StageVisit {
+  dealId: string;
+  stage: string;
+  enteredAt: string;
+  leftAt: string | null;
+  nextStage: string | null;
+}
+
+export interface FunnelStep {
+  stage: string;
+  color: string;
+  // Deals that reached the stage or any later one
+  reached: number;
+  // Share of the previous step's deals that reached this one; null for the first step
+  conversionRate: number | null;
+  // Share of all deals in the funnel
+  overallRate: number;
+}
+
+export interface StageVelocity {
+  stage: string;
+  color: string;
+  // Stays that ended, by moving on or closing
+  completed: number;
+  medianDays: number | null;
+  // Deals in the stage now
+  current: number;
+  slaDays: number | null;
+  overSla: number;
+}
+
+export interface StuckDeal {
+  dealId: string;
+  name: string;
+  ownerId: string | null;
+  stage: string;
+  daysInStage: number;
+  slaDays: number;
+  amount: number;
+}
+
+export interface DealCohort {
+  // YYYY-MM
+  month: string;
+  created: number;
+  open: number;
+  won: number;
+  lost: number;
+  // Won of closed deals; null while none are closed
+  winRate: number | null;
+  wonAmount: number;
+  medianDaysToWin: number | null;
+}
+
+export type DealOutcome = 'won' | 'lost' | 'dropped';
+
+export const DEAL_OUTCOME_LABELS: Record<DealOutcome, string> = {
+  won: 'Won',
+  lost: 'Lost',
+  dropped: 'Dropped',
+};
+
+export interface ReasonCount {
+  reason: string;
+  count: number;
+  amount: number;
+}
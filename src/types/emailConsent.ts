@@ -0,0 +1,54 @@
+// Email opt-outs: email_consent_events is the history, email_suppressions the current opt-outs
+
+// 'all' blocks every email; 'marketing' covers bulk email and 'sequences' email sequences
+export type ConsentTopic = 'all' | 'marketing' | 'sequences';
+
+export type ConsentStatus = 'subscribed' | 'unsubscribed';
+
+export type ConsentSource = 'unsubscribe_link' | 'one_click' | 'manual' | 'import';
+
+export interface EmailConsentEvent {
+  id: string;
+  email: string;
+  contact_id: string | null;
+  lead_id: string | null;
+  channel: string;
+  topic: ConsentTopic;
+  status: ConsentStatus;
+  source: ConsentSource;
+  reason: string | null;
+  email_history_id: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+export interface EmailSuppression {
+  id: string;
+  email: string;
+  channel: string;
+  topic: ConsentTopic;
+  source: ConsentSource;
+  reason: string | null;
+  created_at: string;
+}
+
+export interface SuppressionImportResult {
+  imported: number;
+  skipped: number;
+  errors: { index: number; error: string }[];
+}
+
+export const CONSENT_TOPICS: ConsentTopic[] = ['all', 'marketing', 'sequences'];
+
+export const CONSENT_TOPIC_LABELS: Record<ConsentTopic, string> = {
+  all: 'All emails',
+  marketing: 'Bulk / marketing',
+  sequences: 'Sequences',
+};
+
+export const CONSENT_SOURCE_LABELS: Record<ConsentSource, string> = {
+  unsubscribe_link: 'Unsubscribe link',
+  one_click: 'One-click unsubscribe',
+  manual: 'Changed by user',
+  import: 'Suppression list import',
+};
@@ -0,0 +1,95 @@
+// Email sequences: ordered template steps sent by the process-email-sequences function
+
+export type EnrollmentStatus = 'active' | 'completed' | 'replied' | 'bounced' | 'stopped' | 'failed';
+
+export interface EmailSequenceStep {
+  id: string;
+  sequence_id: string;
+  step_order: number;
+  // Days after the previous step (after enrollment for the first step)
+  day_offset: number;
+  template_id: string;
+  reply_to_previous: boolean;
+}
+
+export interface EmailSequence {
+  id: string;
+  name: string;
+  description: string | null;
+  is_active: boolean;
+  // 'HH:MM[:SS]' in the recipient's local time
+  business_hours_start: string;
+  business_hours_end: string;
+  // ISO weekdays, 1 = Monday ... 7 = Sunday
+  business_days: number[];
+  default_timezone: string;
+  created_by: string | null;
+  created_at: string;
+  steps: EmailSequenceStep[];
+}
+
+export interface EmailSequenceEnrollment {
+  id: string;
+  sequence_id: string;
+  lead_id: string | null;
+  contact_id: string | null;
+  recipient_email: string;
+  recipient_name: string | null;
+  timezone: string;
+  status: EnrollmentStatus;
+  current_step: number;
+  next_send_at: string | null;
+  last_error: string | null;
+  enrolled_by: string | null;
+  enrolled_at: string;
+  stopped_at: string | null;
+  stop_reason: string | null;
+}
+
+export interface SequenceStepStats {
+  step_id: string;
+  step_order: number;
+  day_offset: number;
+  template_name: string | null;
+  sent: number;
+  opened: number;
+  clicked: number;
+  replied: number;
+  bounced: number;
+}
+
+export interface EnrollmentResult {
+  enrolled: number;
+  skipped_no_email: number;
+  skipped_already_enrolled: number;
+}
+
+export const ENROLLMENT_STATUS_LABELS: Record<EnrollmentStatus, string> = {
+  active: 'Active',
+  completed: 'Completed',
+  replied: 'Replied',
+  bounced: 'Bounced',
+  stopped: 'Stopped',
+  failed: 'Failed',
+};
+
+export const BUSINESS_DAY_OPTIONS = [
+  { value: 1, label: 'Mon' },
+  { value: 2, label: 'Tue' },
+  { value: 3, label: 'Wed' },
+  { value: 4, label: 'Thu' },
+  { value: 5, label: 'Fri' },
+  { value: 6, label: 'Sat' },
+  { value: 7, label: 'Sun' },
+];
+
+// "Day 0, 2, 5" - when each step goes out relative to enrollment
+export const getStepSendDays = (steps: Pick<EmailSequenceStep, 'day_offset'>[]): number[] => {
+  let total = 0;
+  return steps.map(step => (total += step.day_offset));
+};
+
+export const formatBusinessHours = (sequence: Pick<EmailSequence, 'business_hours_start' | 'business_hours_end' | 'business_days'>) => {
+  const days = BUSINESS_DAY_OPTIONS.filter(d => sequence.business_days.includes(d.value)).map(d => d.label);
+  return `${days.join(', ')} ${sequence.business_hours_start.slice(0, 5)}–${sequence.business_hours_end.slice(0, 5)}`;
+};
@@ -0,0 +1,120 @@
+// Pipeline forecasting: reps set deals.forecast_category, managers and admins can override the
+// category and amount in deal_forecast_overrides, and forecast_snapshots keep a weekly copy.
+// Amounts are in the deal currency in the database and in the reporting currency here.
+
+export type ForecastCategory = 'commit' | 'best_case' | 'pipeline' | 'omitted';
+
+// Won deals count as closed regardless of the category they had
+export type ForecastBucket = ForecastCategory | 'closed';
+
+export const FORECAST_CATEGORIES: ForecastCategory[] = ['commit', 'best_case', 'pipeline', 'omitted'];
+
+export const FORECAST_CATEGORY_LABELS: Record<ForecastBucket, string> = {
+  closed: 'Closed Won',
+  commit: 'Commit',
+  best_case: 'Best Case',
+  pipeline: 'Pipeline',
+  omitted: 'Omitted',
+};
+
+export const FORECAST_CATEGORY_COLORS: Record<ForecastBucket, string> = {
+  closed: '#22c55e',
+  commit: '#3b82f6',
+  best_case: '#8b5cf6',
+  pipeline: '#94a3b8',
+  omitted: '#e2e8f0',
+};
+
+export type ForecastGrouping = 'month' | 'quarter';
+
+// Rollups compared against the target: each includes the ones before it
+export type ForecastMeasure = 'commit' | 'best_case' | 'pipeline' | 'weighted';
+
+export const FORECAST_MEASURE_LABELS: Record<ForecastMeasure, string> = {
+  commit: 'Commit (closed + commit)',
+  best_case: 'Best case (+ best case deals)',
+  pipeline: 'Pipeline (all open and closed)',
+  weighted: 'Weighted by probability',
+};
+
+export interface DealForecastOverride {
+  deal_id: string;
+  // null keeps the rep's category
+  category: ForecastCategory | null;
+  // null keeps the deal value; in the deal currency
+  amount: number | null;
+  note: string | null;
+  set_by: string | null;
+  updated_at: string;
+}
+
+export interface ForecastDeal {
+  id: string;
+  name: string;
+  ownerId: string | null;
+  stage: string;
+  // The rep's call, null when not set (counted as pipeline)
+  repCategory: ForecastCategory | null;
+  category: ForecastBucket;
+  override: DealForecastOverride | null;
+  // Reporting currency; 0 when no exchange rate reaches it (see converted)
+  amount: number;
+  originalAmount: number;
+  currency: string;
+  converted: boolean;
+  probability: number;
+  weighted: number;
+  // YYYY-MM-DD: signing date for won deals, expected close otherwise
+  closeDate: string | null;
+}
+
+export interface ForecastPeriodTotals {
+  key: string;
+  label: string;
+  closed: number;
+  commit: number;
+  best_case: number;
+  pipeline: number;
+  weighted: number;
+  // Share of the yearly target for the period
+  target: number | null;
+}
+
+export interface ForecastSnapshot {
+  id: string;
+  snapshot_date: string;
+  created_at: string;
+}
+
+export interface ForecastSnapshotDeal {
+  snapshot_id: string;
+  deal_id: string;
+  deal_name: string | null;
+  owner_id: string | null;
+  stage: string | null;
+  category: ForecastBucket;
+  amount: number;
+  currency: string;
+  probability: number;
+  close_date: string | null;
+}
+
+export type WaterfallStepKind = 'start' | 'new' | 'pulled_in' | 'increased' | 'decreased' | 'slipped' | 'removed' | 'end';
+
+export const WATERFALL_STEP_LABELS: Record<WaterfallStepKind, string> = {
+  start: 'Start',
+  new: 'New deals',
+  pulled_in: 'Pulled in',
+  increased: 'Increased',
+  decreased: 'Decreased',
+  slipped: 'Slipped out',
+  removed: 'Lost / removed',
+  end: 'End',
+};
+
+export interface WaterfallStep {
+  kind: WaterfallStepKind;
+  value: number;
+  // Deals behind a movement, largest first
+  deals: Array<{ dealId: string; name: string; change: number }>;
+}
@@ -0,0 +1,111 @@
+// Lead and contact scoring: admin-defined rules evaluated by the calculate_record_score RPC
+
+export type ScoringCategory = 'fit' | 'behavior';
+
+export type ScoringAppliesTo = 'all' | 'lead' | 'contact';
+
+export type ScoringOperator = 'equals' | 'contains' | 'is_set';
+
+export type ScoringField = 'industry' | 'region' | 'country' | 'company_type' | 'position' | 'contact_source';
+
+export type ScoringSignal = 'email_open' | 'email_click' | 'email_reply' | 'meeting' | 'task_completed';
+
+export type ScoredEntityType = 'lead' | 'contact';
+
+export type ScoreBand = 'hot' | 'warm' | 'cold';
+
+export interface ScoringRule {
+  id: string;
+  name: string;
+  category: ScoringCategory;
+  applies_to: ScoringAppliesTo;
+  field: ScoringField | null;
+  operator: ScoringOperator;
+  // Comma-separated alternatives for 'equals'
+  value: string | null;
+  signal: ScoringSignal | null;
+  points: number;
+  max_points: number | null;
+  half_life_days: number | null;
+  is_active: boolean;
+  created_at: string;
+}
+
+export type ScoringRuleInput = Omit<ScoringRule, 'id' | 'created_at'>;
+
+export interface ScoreBreakdownItem {
+  rule_id: string;
+  name: string;
+  category: ScoringCategory;
+  points: number;
+  // Fit rules: the field and the record's value that matched
+  field?: ScoringField;
+  value?: string;
+  // Behaviour rules: how many events counted before decay
+  signal?: ScoringSignal;
+  count?: number;
+}
+
+export interface RecordScore {
+  score: number | null;
+  score_breakdown: ScoreBreakdownItem[] | null;
+  score_updated_at: string | null;
+}
+
+export interface ScoreHistoryEntry {
+  id: string;
+  score: number;
+  previous_score: number | null;
+  fit_score: number;
+  behavior_score: number;
+  breakdown: ScoreBreakdownItem[];
+  reason: string | null;
+  calculated_at: string;
+}
+
+export const SCORING_FIELD_LABELS: Record<ScoringField, string> = {
+  industry: 'Industry',
+  region: 'Region',
+  country: 'Country',
+  company_type: 'Company type',
+  position: 'Position',
+  contact_source: 'Source',
+};
+
+export const SCORING_SIGNAL_LABELS: Record<ScoringSignal, string> = {
+  email_open: 'Email opened',
+  email_click: 'Link clicked',
+  email_reply: 'Email replied',
+  meeting: 'Meeting held',
+  task_completed: 'Task completed',
+};
+
+export const SCORING_OPERATOR_LABELS: Record<ScoringOperator, string> = {
+  equals: 'is one of',
+  contains: 'contains',
+  is_set: 'is filled in',
+};
+
+export const SCORE_REASON_LABELS: Record<string, string> = {
+  manual: 'Recalculated',
+  scheduled: 'Nightly recalculation',
+  email_open: 'Email opened',
+  email_click: 'Link clicked',
+  email_reply: 'Email replied',
+  email_bounced: 'Email bounced',
+};
+
+export const SCORE_BANDS: { band: ScoreBand; label: string; min: number; max: number }[] = [
+  { band: 'hot', label: 'Hot (70+)', min: 70, max: 100 },
+  { band: 'warm', label: 'Warm (40-69)', min: 40, max: 69 },
+  { band: 'cold', label: 'Cold (0-39)', min: 0, max: 39 },
+];
+
+export const getScoreBand = (score: number | null | undefined): ScoreBand =>
+  (score ?? 0) >= 70 ? 'hot' : (score ?? 0) >= 40 ? 'warm' : 'cold';
+
+export const SCORE_BAND_CLASSES: Record<ScoreBand, string> = {
+  hot: 'text-green-600 dark:text-green-400',
+  warm: 'text-amber-600 dark:text-amber-400',
+  cold: 'text-muted-foreground',
+};
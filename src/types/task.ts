@@ -1,6 +1,18 @@
 export type TaskStatus = 'open' | 'in_progress' | 'completed' | 'cancelled';
 export type TaskPriority = 'high' | 'medium' | 'low';
 export type TaskModuleType = 'accounts' | 'contacts' | 'leads' | 'meetings' | 'deals';
+export type TaskRecurrenceFrequency = 'none' | 'daily' | 'weekly' | 'monthly' | 'yearly';
+export type TaskWeekday = 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA' | 'SU';
+// Whether an edit to a recurring task applies to this occurrence only or to every open occurrence
+export type TaskSeriesEditScope = 'occurrence' | 'series';
+
+// Parsed form of tasks.recurrence, e.g. FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;COUNT=10
+export interface TaskRecurrenceRule {
+  freq: TaskRecurrenceFrequency;
+  interval: number;
+  byDay: TaskWeekday[];
+  count: number | null;
+}
 
 export interface Task {
   id: string;
@@ -19,6 +31,14 @@ export interface Task {
   lead_id: string | null;
   meeting_id: string | null;
   deal_id: string | null;
+  parent_task_id: string | null;
+  task_template_id: string | null;
+  recurrence: string | null;
+  recurrence_end_date: string | null;
+  recurrence_series_id: string | null;
+  recurrence_index: number;
+  recurrence_exception: boolean;
+  reminder_date: string | null;
   created_at: string;
   updated_at: string;
   completed_at: string | null;
@@ -41,6 +61,9 @@ export interface CreateTaskData {
   status?: TaskStatus;
   priority?: TaskPriority;
   due_date?: string;
+  recurrence?: string;
+  recurrence_end_date?: string | null;
+  reminder_date?: string | null;
   assigned_to?: string;
   module_type?: TaskModuleType;
   account_id?: string;
@@ -48,6 +71,7 @@ export interface CreateTaskData {
   lead_id?: string;
   meeting_id?: string;
   deal_id?: string;
+  parent_task_id?: string | null;
 }
 
 export interface TaskModalContext {
@@ -55,4 +79,31 @@ export interface TaskModalContext {
   recordId?: string;
   recordName?: string;
   locked?: boolean;
+  // Create the task as a sub-task of this one
+  parentTaskId?: string;
+}
+
+// Rolled-up sub-task counts for a parent; cancelled sub-tasks are left out
+export interface TaskProgress {
+  total: number;
+  completed: number;
+  percent: number;
+}
+
+export interface TaskTemplateSubtask {
+  title: string;
+  priority?: TaskPriority;
+  due_in_days?: number | null;
+}
+
+// Parent task plus sub-tasks created on a deal when it enters pipeline_stage_id
+export interface TaskTemplate {
+  id: string;
+  name: string;
+  pipeline_stage_id: string;
+  description: string | null;
+  priority: TaskPriority;
+  due_in_days: number | null;
+  subtasks: TaskTemplateSubtask[];
+  is_active: boolean;
 }
@@ -0,0 +1,64 @@
+// Team performance for managers and admins: per-rep counts come from get_team_performance and
+// get_team_stage_metrics; deal values are converted into the reporting currency on the client
+
+export interface TeamPerformanceCounts {
+  rep_id: string;
+  deals_created: number;
+  deals_won: number;
+  deals_lost: number;
+  // null when the rep closed no deals in the period
+  win_rate: number | null;
+  meetings_held: number;
+  tasks_completed: number;
+  emails_sent: number;
+}
+
+export interface TeamStageMetric {
+  rep_id: string;
+  stage: string;
+  stage_order: number;
+  entered: number;
+  advanced: number;
+  conversion_rate: number;
+  avg_days_in_stage: number | null;
+}
+
+export interface RepPerformance extends TeamPerformanceCounts {
+  // Open deals owned by the rep today, independent of the period
+  pipelineValue: number;
+  openDeals: number;
+  // Won deals signed in the period
+  wonRevenue: number;
+}
+
+export interface TeamPerformancePeriod {
+  // Inclusive start and exclusive end, as YYYY-MM-DD
+  from: string;
+  to: string;
+}
+
+export interface RepRevenueTarget {
+  id: string;
+  user_id: string;
+  year: number;
+  target: number;
+  currency: string;
+}
+
+export interface RepAttainment {
+  target: number | null;
+  wonRevenue: number;
+  // Percentage of the converted target, null without a target
+  attainment: number | null;
+}
+
+export type TeamPeriodPreset = 'this_month' | 'last_month' | 'this_quarter' | 'last_quarter' | 'this_year' | 'custom';
+
+export const TEAM_PERIOD_PRESET_LABELS: Record<TeamPeriodPreset, string> = {
+  this_month: 'This month',
+  last_month: 'Last month',
+  this_quarter: 'This quarter',
+  last_quarter: 'Last quarter',
+  this_year: 'This year',
+  custom: 'Custom range',
+};
@@ -1,75 +1,296 @@
-export class CSVParser {
-  static parseCSV(text: string): { headers: string[], rows: string[][] } {
-    const lines = text.split(/\r?\n/).map(line => line.trim()).filter(line => line);
-    
-    if (lines.length === 0) {
-      return { headers: [], rows: [] };
+export interface CSVParseOptions {
+  // Field separator; detected from the first record when omitted
+  delimiter?: string;
+}
+
+export interface ParsedSheet {
+  headers: string[];
+  rows: string[][];
+  // 1-based spreadsheet row number of each entry in `rows` (the header is row 1)
+  rowNumbers: number[];
+  // Rows that could not be read, e.g. "Row 7: unterminated quoted field"
+  errors: string[];
+}
+
+const CANDIDATE_DELIMITERS = [',', ';', '\t', '|'];
+
+/**
+ * Incremental RFC 4180 tokenizer. Text can be pushed in arbitrary chunks (a chunk may end
+ * mid-field or mid-quote), so files are parsed as they stream instead of being split on
+ * newlines up front. Quoted fields may contain delimiters, doubled quotes and line breaks.
+ */
+export class CSVRowParser {
+  private delimiter: string | null;
+  private field = '';
+  private row: string[] = [];
+  private inQuotes = false;
+  // The current field started with a quote, so surrounding whitespace is content
+  private quoted = false;
+  // Last chunk ended on a quote inside a quoted field; it may be the first half of ""
+  private pendingQuote = false;
+  // Last chunk ended on \r; a following \n belongs to the same line break
+  private pendingCR = false;
+  private started = false;
+  private recordNumber = 0;
+  private buffered = '';
+
+  constructor(
+    private onRecord: (fields: string[], recordNumber: number) => void,
+    private onError: (message: string) => void = () => {},
+    options: CSVParseOptions = {}
+  ) {
+    this.delimiter = options.delimiter || null;
+  }
+
+  getDelimiter(): string {
+    return this.delimiter || ',';
+  }
+
+  push(chunk: string) {
+    if (!chunk) return;
+
+    if (!this.started) {
+      // Hold text back until the first line is complete so the delimiter can be detected
+      this.buffered += chunk;
+      if (!/[\r\n]/.test(this.buffered)) return;
+      chunk = this.prepareStart(this.buffered);
+      this.buffered = '';
     }
 
-    const headers = this.parseCSVLine(lines[0]);
-    const rows = lines.slice(1).map(line => this.parseCSVLine(line));
-    
-    return { headers, rows };
+    this.consume(chunk);
   }
 
-  static parseCSVLine(line: string): string[] {
-    const result: string[] = [];
-    let current = '';
-    let inQuotes = false;
+  finish() {
+    if (!this.started) {
+      const text = this.prepareStart(this.buffered);
+      this.buffered = '';
+      this.consume(text);
+    }
+
+    if (this.pendingQuote) {
+      // A quote at the very end closes the field
+      this.pendingQuote = false;
+      this.inQuotes = false;
+    }
+    if (this.inQuotes) {
+      // Everything after the opening quote was swallowed into one field, so drop the row
+      this.onError(`Row ${this.recordNumber + 1}: unterminated quoted field`);
+      this.inQuotes = false;
+      this.field = '';
+      this.row = [];
+      this.quoted = false;
+      return;
+    }
+    if (this.field !== '' || this.row.length > 0 || this.quoted) {
+      this.endRecord();
+    }
+  }
+
+  private prepareStart(text: string): string {
+    this.started = true;
+    // Byte order mark left over from decoding
+    let rest = text.replace(/^\uFEFF/, '');
+
+    // Excel's "sep=;" hint line
+    const sepHint = rest.match(/^sep=(.)\r?\n/i);
+    if (sepHint) {
+      this.delimiter = this.delimiter || sepHint[1];
+      rest = rest.slice(sepHint[0].length);
+    }
+
+    if (!this.delimiter) {
+      this.delimiter = CSVParser.detectDelimiter(rest);
+    }
+    return rest;
+  }
+
+  private consume(text: string) {
+    const delimiter = this.delimiter || ',';
     let i = 0;
 
-    while (i < line.length) {
-      const char = line[i];
-      const nextChar = line[i + 1];
+    if (this.pendingCR) {
+      this.pendingCR = false;
+      if (text[0] === '\n') i = 1;
+    }
 
-      if (char === '"') {
-        if (inQuotes && nextChar === '"') {
-          // Escaped quote
-          current += '"';
-          i += 2;
+    if (this.pendingQuote) {
+      this.pendingQuote = false;
+      if (text[0] === '"') {
+        this.field += '"';
+        i = 1;
+      } else {
+        this.inQuotes = false;
+      }
+    }
+
+    for (; i < text.length; i++) {
+      const char = text[i];
+
+      if (this.inQuotes) {
+        if (char === '"') {
+          if (i + 1 >= text.length) {
+            this.pendingQuote = true;
+          } else if (text[i + 1] === '"') {
+            this.field += '"';
+            i++;
+          } else {
+            this.inQuotes = false;
+          }
         } else {
-          // Toggle quote state
-          inQuotes = !inQuotes;
-          i++;
+          this.field += char;
+        }
+        continue;
+      }
+
+      if (char === delimiter) {
+        this.endField();
+      } else if (char === '\n' || char === '\r') {
+        this.endRecord();
+        if (char === '\r') {
+          if (i + 1 >= text.length) {
+            this.pendingCR = true;
+          } else if (text[i + 1] === '\n') {
+            i++;
+          }
         }
-      } else if (char === ',' && !inQuotes) {
-        result.push(current.trim());
-        current = '';
-        i++;
+      } else if (char === '"' && this.field.trim() === '' && !this.quoted) {
+        // Opening quote; whitespace before it is not part of the value
+        this.field = '';
+        this.inQuotes = true;
+        this.quoted = true;
+      } else if (this.quoted && (char === ' ' || char === '\t')) {
+        // Padding after a closing quote
       } else {
-        current += char;
-        i++;
+        // Stray quotes and text after a closing quote are kept as-is
+        this.field += char;
       }
     }
-    
-    result.push(current.trim());
-    return result.map(field => field.replace(/^"|"$/g, '')); // Remove surrounding quotes
+  }
+
+  private endField() {
+    this.row.push(this.quoted ? this.field : this.field.trim());
+    this.field = '';
+    this.quoted = false;
+  }
+
+  private endRecord() {
+    this.endField();
+    this.recordNumber++;
+    this.onRecord(this.row, this.recordNumber);
+    this.row = [];
+  }
+}
+
+export class CSVParser {
+  static parseCSV(text: string, options: CSVParseOptions = {}): ParsedSheet {
+    const collector = CSVParser.createCollector();
+    const parser = new CSVRowParser(collector.onRecord, collector.onError, options);
+    parser.push(text);
+    parser.finish();
+    return collector.result();
+  }
+
+  /**
+   * Builds a ParsedSheet from records as they are produced: the first non-blank record is the
+   * header, blank records are skipped, and rows with more values than headers are reported.
+   */
+  static createCollector() {
+    const sheet: ParsedSheet = { headers: [], rows: [], rowNumbers: [], errors: [] };
+    let hasHeader = false;
+
+    const onRecord = (fields: string[], recordNumber: number) => {
+      if (fields.every(field => field.trim() === '')) return;
+
+      if (!hasHeader) {
+        sheet.headers = fields.map(field => field.trim());
+        hasHeader = true;
+        return;
+      }
+
+      const extra = fields.slice(sheet.headers.length).filter(field => field.trim() !== '');
+      if (extra.length > 0) {
+        sheet.errors.push(
+          `Row ${recordNumber}: has ${fields.length} values but the header has ${sheet.headers.length} columns`
+        );
+        return;
+      }
+
+      sheet.rows.push(fields.slice(0, sheet.headers.length));
+      sheet.rowNumbers.push(recordNumber);
+    };
+
+    const onError = (message: string) => {
+      sheet.errors.push(message);
+    };
+
+    return { onRecord, onError, result: () => sheet };
+  }
+
+  /** Most frequent candidate delimiter outside quotes on the first line, defaulting to comma */
+  static detectDelimiter(text: string): string {
+    const counts: Record<string, number> = {};
+    let inQuotes = false;
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+      if (char === '"') {
+        inQuotes = !inQuotes;
+      } else if (!inQuotes && (char === '\n' || char === '\r')) {
+        break;
+      } else if (!inQuotes && CANDIDATE_DELIMITERS.includes(char)) {
+        counts[char] = (counts[char] || 0) + 1;
+      }
+    }
+
+    let best = ',';
+    let bestCount = 0;
+    CANDIDATE_DELIMITERS.forEach(delimiter => {
+      if ((counts[delimiter] || 0) > bestCount) {
+        best = delimiter;
+        bestCount = counts[delimiter];
+      }
+    });
+    return best;
+  }
+
+  static parseCSVLine(line: string, delimiter = ','): string[] {
+    let result: string[] = [];
+    const parser = new CSVRowParser(fields => { result = fields; }, undefined, { delimiter });
+    parser.push(line);
+    parser.finish();
+    return result;
   }
 
   static toCSV(data: any[], headers: string[]): string {
     const csvRows = [];
-    
+
     // Add headers
     csvRows.push(headers.map(header => this.escapeCSVField(header)).join(','));
-    
+
     // Add data rows
     data.forEach(row => {
       const csvRow = headers.map(header => {
         const value = row[header];
-        return this.escapeCSVField(String(value || ''));
+        return this.escapeCSVField(value === null || value === undefined ? '' : String(value));
       });
       csvRows.push(csvRow.join(','));
     });
-    
-    return csvRows.join('\n');
+
+    return csvRows.join('\r\n');
+  }
+
+  static rowsToCSV(headers: string[], rows: string[][]): string {
+    return [headers, ...rows]
+      .map(row => row.map(field => this.escapeCSVField(field)).join(','))
+      .join('\r\n');
   }
 
   static escapeCSVField(field: string): string {
-    const str = String(field || '');
-    // If field contains comma, quote, or newline, wrap in quotes and escape quotes
-    if (str.includes(',') || str.includes('"') || str.includes('\n')) {
+    const str = field === null || field === undefined ? '' : String(field);
+    // Quote fields containing the delimiter, quotes, line breaks or edge whitespace
+    if (/[",\r\n]/.test(str) || str !== str.trim()) {
       return `"${str.replace(/"/g, '""')}"`;
     }
     return str;
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,134 @@
+export interface ExchangeRate {
+  id: string;
+  from_currency: string;
+  to_currency: string;
+  rate: number;
+  effective_date: string;
+}
+
+// Deals created before currency_type existed were entered in EUR
+export const DEFAULT_DEAL_CURRENCY = 'EUR';
+
+export interface DealAmountSource {
+  stage?: string | null;
+  currency_type?: string | null;
+  signed_contract_date?: string | null;
+  expected_closing_date?: string | null;
+  created_at?: string | null;
+}
+
+export interface CurrencyConverter {
+  reportingCurrency: string;
+  /** Rate for 1 `from` in `to` valid on `date` (YYYY-MM-DD), or null when no rate chain exists */
+  getRate: (from: string, to: string, date: string) => number | null;
+  convert: (amount: number, from: string | null | undefined, date: string, to?: string) => number | null;
+}
+
+const toDateKey = (value: string | Date): string =>
+  (typeof value === 'string' ? value : value.toISOString()).slice(0, 10);
+
+export const getDealCurrency = (deal: DealAmountSource): string =>
+  deal.currency_type || DEFAULT_DEAL_CURRENCY;
+
+/**
+ * The date whose rate applies to a deal: the signing date once it is won, otherwise the
+ * expected close, falling back to creation (or today) for deals without either.
+ * `isWonStage` comes from the pipeline configuration (usePipelineStages).
+ */
+export const getDealConversionDate = (
+  deal: DealAmountSource,
+  isWonStage: (stage?: string | null) => boolean
+): string => {
+  const date = (isWonStage(deal.stage) ? deal.signed_contract_date : null)
+    || deal.expected_closing_date
+    || deal.signed_contract_date
+    || deal.created_at;
+  return toDateKey(date || new Date());
+};
+
+// Entries per "FROM>TO" pair, newest first
+const indexRates = (rates: ExchangeRate[]): Map<string, ExchangeRate[]> => {
+  const byPair = new Map<string, ExchangeRate[]>();
+  rates.forEach(rate => {
+    const key = `${rate.from_currency}>${rate.to_currency}`;
+    if (!byPair.has(key)) byPair.set(key, []);
+    byPair.get(key)!.push(rate);
+  });
+  byPair.forEach(list => list.sort((a, b) => b.effective_date.localeCompare(a.effective_date)));
+  return byPair;
+};
+
+// Latest entry on or before the date; dates before the first entry use the earliest rate
+const pickRate = (entries: ExchangeRate[] | undefined, date: string): number | null => {
+  if (!entries || entries.length === 0) return null;
+  const valid = entries.find(entry => entry.effective_date <= date) || entries[entries.length - 1];
+  return Number(valid.rate);
+};
+
+export const createCurrencyConverter = (rates: ExchangeRate[], reportingCurrency: string): CurrencyConverter => {
+  const byPair = indexRates(rates);
+  const currencies = new Set<string>();
+  rates.forEach(rate => {
+    currencies.add(rate.from_currency);
+    currencies.add(rate.to_currency);
+  });
+
+  const directRate = (from: string, to: string, date: string): number | null => {
+    const direct = pickRate(byPair.get(`${from}>${to}`), date);
+    if (direct !== null) return direct;
+    const inverse = pickRate(byPair.get(`${to}>${from}`), date);
+    return inverse !== null ? 1 / inverse : null;
+  };
+
+  const getRate = (from: string, to: string, date: string): number | null => {
+    if (from === to) return 1;
+    const direct = directRate(from, to, date);
+    if (direct !== null) return direct;
+
+    // Cross rate through one intermediate, preferring the reporting currency
+    const vias = [reportingCurrency, ...currencies].filter(via => via !== from && via !== to);
+    for (const via of vias) {
+      const first = directRate(from, via, date);
+      const second = first !== null ? directRate(via, to, date) : null;
+      if (first !== null && second !== null) return first * second;
+    }
+    return null;
+  };
+
+  const convert = (amount: number, from: string | null | undefined, date: string, to: string = reportingCurrency) => {
+    const rate = getRate(from || DEFAULT_DEAL_CURRENCY, to, toDateKey(date));
+    return rate === null ? null : amount * rate;
+  };
+
+  return { reportingCurrency, getRate, convert };
+};
+
+/**
+ * Running total in the reporting currency that also keeps the original per-currency amounts,
+ * and the amounts that could not be converted because no rate exists.
+ */
+export class CurrencyTotals {
+  converted = 0;
+  original: Record<string, number> = {};
+  unconverted: Record<string, number> = {};
+
+  constructor(private converter: CurrencyConverter) {}
+
+  add(amount: number, currency: string | null | undefined, date: string): number | null {
+    if (!amount || isNaN(amount)) return 0;
+    const code = currency || DEFAULT_DEAL_CURRENCY;
+    this.original[code] = (this.original[code] || 0) + amount;
+
+    const value = this.converter.convert(amount, code, date);
+    if (value === null) {
+      this.unconverted[code] = (this.unconverted[code] || 0) + amount;
+      return null;
+    }
+    this.converted += value;
+    return value;
+  }
+
+  hasForeignAmounts(): boolean {
+    return Object.keys(this.original).some(code => code !== this.converter.reportingCurrency);
+  }
+}
@@ -0,0 +1,263 @@
+import { format, startOfMonth, subMonths } from 'date-fns';
+import { PipelineStage } from '@/types/deal';
+import {
+  AnalyticsDeal,
+  DealAnalyticsPeriod,
+  DealCohort,
+  DealOutcome,
+  FunnelStep,
+  ReasonCount,
+  StageHistoryEntry,
+  StageVelocity,
+  StageVisit,
+  StuckDeal,
+} from '@/types/dealAnalytics';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const daysBetween = (from: string, to: string | Date) =>
+  (new Date(to).getTime() - new Date(from).getTime()) / DAY_MS;
+
+export const median = (values: number[]): number | null => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  const value = sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+  return Math.round(value * 10) / 10;
+};
+
+// First day (YYYY-MM-DD) of deals created in the period; null for all time
+export const getAnalyticsPeriodStart = (period: DealAnalyticsPeriod, today = new Date()): string | null => {
+  switch (period) {
+    case 'last_6_months':
+      return format(startOfMonth(subMonths(today, 5)), 'yyyy-MM-dd');
+    case 'last_12_months':
+      return format(startOfMonth(subMonths(today, 11)), 'yyyy-MM-dd');
+    case 'this_year':
+      return `${today.getFullYear()}-01-01`;
+    case 'all':
+      return null;
+  }
+};
+
+// Open stages in pipeline order; won and lost stages end the funnel
+const getOpenStages = (stages: PipelineStage[]) =>
+  stages.filter(s => s.is_active && !s.is_won_stage && !s.is_lost_stage).sort((a, b) => a.stage_order - b.stage_order);
+
+/**
+ * Splits the stage history into stays per stage. Deals without any history (created before it
+ * was recorded) get a single open stay in their current stage since creation.
+ */
+export const buildStageVisits = (deals: AnalyticsDeal[], history: StageHistoryEntry[]): StageVisit[] => {
+  const byDeal = new Map<string, StageHistoryEntry[]>();
+  history.forEach(entry => {
+    if (!byDeal.has(entry.deal_id)) byDeal.set(entry.deal_id, []);
+    byDeal.get(entry.deal_id)!.push(entry);
+  });
+
+  const visits: StageVisit[] = [];
+  deals.forEach(deal => {
+    const entries = (byDeal.get(deal.id) || []).sort((a, b) => a.changed_at.localeCompare(b.changed_at));
+    if (entries.length === 0) {
+      visits.push({ dealId: deal.id, stage: deal.stage, enteredAt: deal.createdAt, leftAt: null, nextStage: null });
+      return;
+    }
+    entries.forEach((entry, i) => {
+      const next = entries[i + 1];
+      visits.push({
+        dealId: deal.id,
+        stage: entry.to_stage,
+        enteredAt: entry.changed_at,
+        leftAt: next?.changed_at || null,
+        nextStage: next?.to_stage || null,
+      });
+    });
+  });
+  return visits;
+};
+
+const groupVisitsByDeal = (visits: StageVisit[]) => {
+  const byDeal = new Map<string, StageVisit[]>();
+  visits.forEach(visit => {
+    if (!byDeal.has(visit.dealId)) byDeal.set(visit.dealId, []);
+    byDeal.get(visit.dealId)!.push(visit);
+  });
+  return byDeal;
+};
+
+// When the deal entered its current stage; falls back to its creation date
+const getStageSince = (deal: AnalyticsDeal, visits: StageVisit[] = []) =>
+  visits.find(visit => visit.leftAt === null && visit.stage === deal.stage)?.enteredAt || deal.createdAt;
+
+/**
+ * Cumulative funnel over the open stages followed by a final "Won" step. A deal counts as having
+ * reached every stage up to the furthest one it was ever in, so deals created straight into a later
+ * stage still count for the earlier ones; a won deal reached all of them.
+ */
+export const buildStageFunnel = (
+  deals: AnalyticsDeal[],
+  visits: StageVisit[],
+  stages: PipelineStage[],
+): FunnelStep[] => {
+  const openStages = getOpenStages(stages);
+  if (openStages.length === 0) return [];
+  const indexOf = new Map(openStages.map((stage, i) => [stage.stage_name, i]));
+  const wonStages = new Set(stages.filter(s => s.is_won_stage).map(s => s.stage_name));
+  const visitsByDeal = groupVisitsByDeal(visits);
+
+  const reached = new Array(openStages.length + 1).fill(0);
+  deals.forEach(deal => {
+    const visited = [deal.stage, ...(visitsByDeal.get(deal.id) || []).map(visit => visit.stage)];
+    const furthest = visited.some(stage => wonStages.has(stage))
+      ? openStages.length
+      : Math.max(-1, ...visited.map(stage => indexOf.get(stage) ?? -1));
+    for (let i = 0; i <= furthest; i++) reached[i]++;
+  });
+
+  const wonColor = stages.find(s => s.is_won_stage)?.stage_color || '#22c55e';
+  const steps = [
+    ...openStages.map(stage => ({ stage: stage.stage_name, color: stage.stage_color })),
+    { stage: 'Won', color: wonColor },
+  ];
+  return steps.map((step, i) => ({
+    ...step,
+    reached: reached[i],
+    conversionRate: i === 0 ? null : reached[i - 1] ? Math.round((1000 * reached[i]) / reached[i - 1]) / 10 : 0,
+    overallRate: reached[0] ? Math.round((1000 * reached[i]) / reached[0]) / 10 : 0,
+  }));
+};
+
+/**
+ * Median days spent in each open stage by the stays that ended, and how many deals sit in the
+ * stage now and for longer than its SLA
+ */
+export const buildStageVelocity = (
+  deals: AnalyticsDeal[],
+  visits: StageVisit[],
+  stages: PipelineStage[],
+  now = new Date(),
+): StageVelocity[] => {
+  const visitsByDeal = groupVisitsByDeal(visits);
+  return getOpenStages(stages).map(stage => {
+    const durations = visits
+      .filter(visit => visit.stage === stage.stage_name && visit.leftAt)
+      .map(visit => daysBetween(visit.enteredAt, visit.leftAt!));
+    const inStage = deals.filter(deal => deal.stage === stage.stage_name);
+    const slaDays = stage.sla_days || null;
+    return {
+      stage: stage.stage_name,
+      color: stage.stage_color,
+      completed: durations.length,
+      medianDays: median(durations),
+      current: inStage.length,
+      slaDays,
+      overSla: slaDays
+        ? inStage.filter(deal => daysBetween(getStageSince(deal, visitsByDeal.get(deal.id)), now) > slaDays).length
+        : 0,
+    };
+  });
+};
+
+// Open deals that have been in a stage with an SLA for longer than it allows, longest overdue first
+export const findStuckDeals = (
+  deals: AnalyticsDeal[],
+  visits: StageVisit[],
+  stages: PipelineStage[],
+  now = new Date(),
+): StuckDeal[] => {
+  const slaByStage = new Map(getOpenStages(stages).filter(s => s.sla_days).map(s => [s.stage_name, s.sla_days!]));
+  const visitsByDeal = groupVisitsByDeal(visits);
+  const stuck: StuckDeal[] = [];
+  deals.forEach(deal => {
+    const slaDays = slaByStage.get(deal.stage);
+    if (!slaDays) return;
+    const daysInStage = Math.floor(daysBetween(getStageSince(deal, visitsByDeal.get(deal.id)), now));
+    if (daysInStage <= slaDays) return;
+    stuck.push({ dealId: deal.id, name: deal.name, ownerId: deal.ownerId, stage: deal.stage, daysInStage, slaDays, amount: deal.amount });
+  });
+  return stuck.sort((a, b) => (b.daysInStage - b.slaDays) - (a.daysInStage - a.slaDays));
+};
+
+/**
+ * Deals grouped by the month they were created, oldest first, with how many have been won or
+ * lost since and the median days from creation to winning
+ */
+export const buildDealCohorts = (
+  deals: AnalyticsDeal[],
+  visits: StageVisit[],
+  stages: PipelineStage[],
+): DealCohort[] => {
+  const wonStages = new Set(stages.filter(s => s.is_won_stage).map(s => s.stage_name));
+  const lostStages = new Set(stages.filter(s => s.is_lost_stage).map(s => s.stage_name));
+  const visitsByDeal = groupVisitsByDeal(visits);
+  const cohorts = new Map<string, DealCohort & { daysToWin: number[] }>();
+
+  deals.forEach(deal => {
+    const month = deal.createdAt.slice(0, 7);
+    if (!cohorts.has(month)) {
+      cohorts.set(month, { month, created: 0, open: 0, won: 0, lost: 0, winRate: null, wonAmount: 0, medianDaysToWin: null, daysToWin: [] });
+    }
+    const cohort = cohorts.get(month)!;
+    cohort.created++;
+    if (wonStages.has(deal.stage)) {
+      cohort.won++;
+      cohort.wonAmount += deal.amount;
+      const wonAt = visitsByDeal.get(deal.id)?.find(visit => wonStages.has(visit.stage))?.enteredAt;
+      if (wonAt) cohort.daysToWin.push(Math.max(0, daysBetween(deal.createdAt, wonAt)));
+    } else if (lostStages.has(deal.stage)) {
+      cohort.lost++;
+    } else {
+      cohort.open++;
+    }
+  });
+
+  return Array.from(cohorts.values())
+    .sort((a, b) => a.month.localeCompare(b.month))
+    .map(({ daysToWin, ...cohort }) => ({
+      ...cohort,
+      winRate: cohort.won + cohort.lost ? Math.round((1000 * cohort.won) / (cohort.won + cohort.lost)) / 10 : null,
+      medianDaysToWin: median(daysToWin),
+    }));
+};
+
+// Closed deals only; a lost stage named "Dropped" keeps its own drop reason, as on the deal form
+export const getDealOutcome = (deal: AnalyticsDeal, stages: PipelineStage[]): DealOutcome | null => {
+  const stage = stages.find(s => s.stage_name === deal.stage);
+  if (stage?.is_won_stage) return 'won';
+  if (stage?.is_lost_stage) return deal.stage === 'Dropped' ? 'dropped' : 'lost';
+  return null;
+};
+
+const NO_REASON = 'No reason given';
+const OTHER_REASONS = 'Other';
+
+/**
+ * Counts and values per reason for deals closed with the outcome. Reasons are free text, so they
+ * are grouped ignoring case and spacing; anything past the top entries is folded into "Other".
+ */
+export const buildReasonBreakdown = (
+  deals: AnalyticsDeal[],
+  stages: PipelineStage[],
+  outcome: DealOutcome,
+  limit = 8,
+): ReasonCount[] => {
+  const byKey = new Map<string, ReasonCount>();
+  deals.forEach(deal => {
+    if (getDealOutcome(deal, stages) !== outcome) return;
+    const raw = outcome === 'won' ? deal.wonReason : outcome === 'lost' ? deal.lostReason : deal.dropReason;
+    const reason = raw?.trim().replace(/\s+/g, ' ') || NO_REASON;
+    const key = reason.toLowerCase();
+    if (!byKey.has(key)) byKey.set(key, { reason, count: 0, amount: 0 });
+    const entry = byKey.get(key)!;
+    entry.count++;
+    entry.amount += deal.amount;
+  });
+
+  const sorted = Array.from(byKey.values()).sort((a, b) => b.count - a.count || b.amount - a.amount);
+  if (sorted.length <= limit) return sorted;
+  const other = sorted.slice(limit - 1).reduce(
+    (total, entry) => ({ ...total, count: total.count + entry.count, amount: total.amount + entry.amount }),
+    { reason: OTHER_REASONS, count: 0, amount: 0 }
+  );
+  return [...sorted.slice(0, limit - 1), other];
+};
@@ -0,0 +1,75 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Deal } from '@/types/deal';
+import type { AdvancedFilterState } from '@/components/DealsAdvancedFilter';
+import {
+  buildTableQuery,
+  fetchAllRows,
+  SERVER_PAGE_LIMIT,
+  ServerTableConfig,
+  ServerTableParams,
+  TableFilter,
+} from '@/utils/serverTableQuery';
+
+export const DEAL_TABLE: ServerTableConfig<Deal> = {
+  table: 'deals',
+  select: '*',
+  searchColumns: ['deal_name', 'project_name', 'lead_name', 'customer_name', 'region'],
+  defaultSort: { field: 'modified_at', direction: 'desc' },
+};
+
+export const HANDOFF_STATUS_OPTIONS = ['Not Started', 'In Progress', 'Complete'];
+
+const inFilter = (values: Array<string | number>): TableFilter | null =>
+  values.length > 0 ? { op: 'in', value: values } : null;
+
+// Picked probabilities and the probability range both narrow the same column
+const probabilityFilter = (filters: AdvancedFilterState): TableFilter | null => {
+  const [min, max] = filters.probabilityRange;
+  const hasRange = min > 0 || max < 100;
+  if (filters.probabilities.length > 0) {
+    const picked = filters.probabilities.map(Number).filter(p => !hasRange || (p >= min && p <= max));
+    // None of the picked values is inside the range: an empty range matches nothing
+    return picked.length > 0 ? { op: 'in', value: picked } : { op: 'range', gte: min, lt: min };
+  }
+  return hasRange ? { op: 'range', gte: min, lte: max } : null;
+};
+
+/**
+ * Search box and advanced filter of the deals list and board as database filters.
+ * A single owner picked in `leadOwner` takes precedence over the owners chosen in the advanced filter.
+ */
+export const dealFiltersToParams = (
+  filters: AdvancedFilterState,
+  search: string,
+  options: { leadOwner?: string; createdBy?: string } = {},
+): Pick<ServerTableParams, 'search' | 'filters'> => ({
+  search: [search, filters.searchTerm].filter(Boolean).join(' '),
+  filters: {
+    stage: inFilter(filters.stages),
+    region: inFilter(filters.regions),
+    lead_owner: options.leadOwner ? { op: 'eq', value: options.leadOwner } : inFilter(filters.leadOwners),
+    priority: inFilter(filters.priorities.map(Number)),
+    probability: probabilityFilter(filters),
+    handoff_status: inFilter(filters.handoffStatuses),
+    created_by: options.createdBy ? { op: 'eq', value: options.createdBy } : null,
+  },
+});
+
+/**
+ * Every deal matching the filters, read past the row cap in pages. Only for views that need the
+ * whole set at once (the board and exports); tables load one page with useServerTable.
+ */
+export const fetchAllDeals = async (params: Pick<ServerTableParams, 'search' | 'filters' | 'sort'> = {}) => {
+  const query = { page: 1, pageSize: SERVER_PAGE_LIMIT, ...params };
+  const rows = await fetchAllRows((from, to) => buildTableQuery(DEAL_TABLE, query).range(from, to));
+  return rows as unknown as Deal[];
+};
+
+// Deals picked across pages, e.g. for bulk actions on a selection
+export const fetchDealsByIds = async (ids: string[]) => {
+  if (ids.length === 0) return [];
+  const rows = await fetchAllRows((from, to) =>
+    supabase.from('deals').select('*').in('id', ids).order('id').range(from, to)
+  );
+  return rows as unknown as Deal[];
+};
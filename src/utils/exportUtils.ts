@@ -1,4 +1,10 @@
-export const getExportFilename = (moduleName: string, type: 'all' | 'selected' | 'filtered'): string => {
+import { SpreadsheetFormat } from '@/utils/spreadsheetFile';
+
+export const getExportFilename = (
+  moduleName: string,
+  type: 'all' | 'selected' | 'filtered',
+  format: SpreadsheetFormat = 'csv'
+): string => {
   const timestamp = new Date().toISOString().split('T')[0];
-  return `${moduleName}_${type}_${timestamp}.csv`;
-};
\ No newline at end of file
+  return `${moduleName}_${type}_${timestamp}.${format}`;
+};
@@ -0,0 +1,158 @@
+import { format } from 'date-fns';
+import {
+  ForecastBucket,
+  ForecastDeal,
+  ForecastGrouping,
+  ForecastMeasure,
+  ForecastPeriodTotals,
+  ForecastSnapshotDeal,
+  WaterfallStep,
+  WaterfallStepKind,
+} from '@/types/forecast';
+
+export interface ForecastRollup {
+  closed: number;
+  // Closed plus committed deals
+  commit: number;
+  // Commit plus best case deals
+  bestCase: number;
+  // Everything not omitted
+  pipeline: number;
+  // Closed at full value, open deals at their probability
+  weighted: number;
+}
+
+/**
+ * A deal's contribution to a forecast measure. The measures are cumulative: commit counts closed
+ * and committed deals, best case adds best case deals, pipeline every deal that is not omitted.
+ */
+export const getMeasureValue = (
+  category: ForecastBucket,
+  amount: number,
+  probability: number,
+  measure: ForecastMeasure,
+): number => {
+  if (category === 'omitted') return 0;
+  switch (measure) {
+    case 'commit':
+      return category === 'closed' || category === 'commit' ? amount : 0;
+    case 'best_case':
+      return category === 'pipeline' ? 0 : amount;
+    case 'pipeline':
+      return amount;
+    case 'weighted':
+      return category === 'closed' ? amount : (amount * probability) / 100;
+  }
+};
+
+export const summarizeForecast = (deals: ForecastDeal[]): ForecastRollup => {
+  const sum = (measure: ForecastMeasure) =>
+    deals.reduce((total, deal) => total + getMeasureValue(deal.category, deal.amount, deal.probability, measure), 0);
+  return {
+    closed: deals.filter(deal => deal.category === 'closed').reduce((total, deal) => total + deal.amount, 0),
+    commit: sum('commit'),
+    bestCase: sum('best_case'),
+    pipeline: sum('pipeline'),
+    weighted: sum('weighted'),
+  };
+};
+
+const quarterOf = (date: string) => Math.floor((Number(date.slice(5, 7)) - 1) / 3) + 1;
+
+// "2026-03" or "2026-Q1"
+export const getForecastPeriodKey = (date: string, grouping: ForecastGrouping) =>
+  grouping === 'month' ? date.slice(0, 7) : `${date.slice(0, 4)}-Q${quarterOf(date)}`;
+
+const getYearPeriods = (year: number, grouping: ForecastGrouping) =>
+  grouping === 'month'
+    ? Array.from({ length: 12 }, (_, i) => ({
+      key: `${year}-${String(i + 1).padStart(2, '0')}`,
+      label: format(new Date(year, i, 1), 'MMM'),
+    }))
+    : [1, 2, 3, 4].map(quarter => ({ key: `${year}-Q${quarter}`, label: `Q${quarter}` }));
+
+/**
+ * Per-category totals for each month or quarter of the year; the yearly target is spread evenly.
+ * Deals without a close date are left out.
+ */
+export const groupForecastByPeriod = (
+  deals: ForecastDeal[],
+  year: number,
+  grouping: ForecastGrouping,
+  yearlyTarget: number | null,
+): ForecastPeriodTotals[] => {
+  const periods = getYearPeriods(year, grouping);
+  const byKey = new Map<string, ForecastPeriodTotals>(periods.map(period => [period.key, {
+    ...period,
+    closed: 0,
+    commit: 0,
+    best_case: 0,
+    pipeline: 0,
+    weighted: 0,
+    target: yearlyTarget ? yearlyTarget / periods.length : null,
+  }]));
+
+  deals.forEach(deal => {
+    if (!deal.closeDate || deal.category === 'omitted') return;
+    const period = byKey.get(getForecastPeriodKey(deal.closeDate, grouping));
+    if (!period) return;
+    period[deal.category] += deal.amount;
+    period.weighted += getMeasureValue(deal.category, deal.amount, deal.probability, 'weighted');
+  });
+
+  return periods.map(period => byKey.get(period.key)!);
+};
+
+/**
+ * How the forecast for one measure moved between two snapshots, deal by deal. Only deals closing
+ * inside [from, to) count; a deal moving its close date across that window slipped or was pulled
+ * in, and a deal missing from the later snapshot was lost or deleted.
+ * Amounts must already be in one currency.
+ */
+export const buildForecastWaterfall = (
+  before: ForecastSnapshotDeal[],
+  after: ForecastSnapshotDeal[],
+  measure: ForecastMeasure,
+  window: { from: string; to: string },
+): WaterfallStep[] => {
+  const inWindow = (deal: ForecastSnapshotDeal) =>
+    !!deal.close_date && deal.close_date >= window.from && deal.close_date < window.to;
+  const valueOf = (deal: ForecastSnapshotDeal) =>
+    inWindow(deal) ? getMeasureValue(deal.category, deal.amount, deal.probability, measure) : 0;
+
+  const steps = new Map<WaterfallStepKind, WaterfallStep>(
+    (['start', 'new', 'pulled_in', 'increased', 'decreased', 'slipped', 'removed', 'end'] as WaterfallStepKind[])
+      .map(kind => [kind, { kind, value: 0, deals: [] }])
+  );
+  const record = (kind: WaterfallStepKind, deal: ForecastSnapshotDeal, change: number) => {
+    if (change === 0) return;
+    const step = steps.get(kind)!;
+    step.value += change;
+    step.deals.push({ dealId: deal.deal_id, name: deal.deal_name || 'Untitled deal', change });
+  };
+
+  const afterById = new Map(after.map(deal => [deal.deal_id, deal]));
+  const beforeIds = new Set(before.map(deal => deal.deal_id));
+
+  before.forEach(old => {
+    const oldValue = valueOf(old);
+    steps.get('start')!.value += oldValue;
+    const current = afterById.get(old.deal_id);
+    if (!current) {
+      record('removed', old, -oldValue);
+      return;
+    }
+    const newValue = valueOf(current);
+    if (inWindow(old) && !inWindow(current)) record('slipped', old, -oldValue);
+    else if (!inWindow(old) && inWindow(current)) record('pulled_in', current, newValue);
+    else record(newValue > oldValue ? 'increased' : 'decreased', current, newValue - oldValue);
+  });
+
+  after.forEach(deal => {
+    steps.get('end')!.value += valueOf(deal);
+    if (!beforeIds.has(deal.deal_id)) record('new', deal, valueOf(deal));
+  });
+
+  steps.forEach(step => step.deals.sort((a, b) => Math.abs(b.change) - Math.abs(a.change)));
+  return Array.from(steps.values());
+};
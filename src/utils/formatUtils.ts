@@ -18,6 +18,8 @@ const currencyConfig: Record<string, { symbol: string; locale: string }> = {
   SGD: { symbol: 'S$', locale: 'en-SG' },
 };
 
+export const SUPPORTED_CURRENCIES = Object.keys(currencyConfig);
+
 /**
  * Format a date according to the specified format string
  */
@@ -0,0 +1,226 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { SearchCondition, SearchGroup } from '@/components/shared/AdvancedSearchBar';
+import { getCustomFieldNameFromColumn, isCustomFieldColumn } from '@/types/customField';
+
+// PostgREST returns at most 1000 rows per request
+export const SERVER_PAGE_LIMIT = 1000;
+
+export type TableFilter =
+  | { op: 'eq'; value: string | number | boolean }
+  | { op: 'in'; value: Array<string | number> }
+  | { op: 'range'; gte?: string | number; lt?: string | number; lte?: string | number }
+  // Array columns (tags) holding every given element
+  | { op: 'contains'; value: string[] };
+
+export interface ServerTableSort {
+  field: string;
+  direction: 'asc' | 'desc';
+}
+
+/**
+ * Everything that selects one page of a table. Serialisable, so it doubles as the React Query key.
+ */
+export interface ServerTableParams {
+  // 1-based
+  page: number;
+  pageSize: number;
+  search?: string;
+  // null entries are skipped, so "all" options can map to null
+  filters?: Record<string, TableFilter | null>;
+  searchGroups?: SearchGroup[];
+  sort?: ServerTableSort | null;
+}
+
+export interface ServerTableConfig<T> {
+  table: 'contacts' | 'leads' | 'accounts' | 'deals';
+  select: string;
+  // Text columns matched by the free-text search
+  searchColumns: string[];
+  // Array columns where the search term must equal one element
+  arraySearchColumns?: string[];
+  // Table fields that are not plain columns: mapped to a sortable column, or null when the
+  // database cannot sort by them (the default sort applies instead)
+  sortColumns?: Record<string, string | null>;
+  defaultSort: ServerTableSort;
+  // Runs on each page, e.g. to flatten embedded rows or load per-row counts
+  transform?: (rows: Record<string, unknown>[]) => T[] | Promise<T[]>;
+}
+
+export interface ServerTablePage<T> {
+  rows: T[];
+  total: number;
+}
+
+interface QueryResult {
+  data: Record<string, unknown>[] | null;
+  error: { code?: string; message: string } | null;
+  count: number | null;
+}
+
+// The subset of the PostgREST builder used here; table names are chosen at runtime
+interface TableQuery extends PromiseLike<QueryResult> {
+  or: (filters: string) => TableQuery;
+  eq: (column: string, value: unknown) => TableQuery;
+  in: (column: string, values: unknown[]) => TableQuery;
+  gte: (column: string, value: unknown) => TableQuery;
+  lt: (column: string, value: unknown) => TableQuery;
+  lte: (column: string, value: unknown) => TableQuery;
+  contains: (column: string, value: unknown) => TableQuery;
+  order: (column: string, options: { ascending: boolean; nullsFirst?: boolean }) => TableQuery;
+  range: (from: number, to: number) => TableQuery;
+}
+
+// cf_<field_name> keys address the custom_fields JSON as text
+export const toFilterColumn = (field: string) =>
+  isCustomFieldColumn(field) ? `custom_fields->>${getCustomFieldNameFromColumn(field)}` : field;
+
+// Values inside or()/and() trees are double-quoted so commas, dots and parentheses stay literal
+const quote = (value: string) => `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+
+// Mirrors the old in-browser matching: case-insensitive, and empty means null or ''
+const conditionToFilter = (condition: SearchCondition): string | null => {
+  const column = toFilterColumn(condition.field);
+  const value = condition.value.trim();
+  switch (condition.operator) {
+    case 'contains':
+      return value ? `${column}.ilike.${quote(`*${value}*`)}` : null;
+    case 'equals':
+      return `${column}.ilike.${quote(value)}`;
+    case 'startsWith':
+      return value ? `${column}.ilike.${quote(`${value}*`)}` : null;
+    case 'endsWith':
+      return value ? `${column}.ilike.${quote(`*${value}`)}` : null;
+    case 'notEquals':
+      return `or(${column}.is.null,${column}.not.ilike.${quote(value)})`;
+    case 'isEmpty':
+      return `or(${column}.is.null,${column}.eq."")`;
+    case 'isNotEmpty':
+      return `and(${column}.not.is.null,${column}.neq."")`;
+    default:
+      return null;
+  }
+};
+
+// Groups are joined with OR; conditions inside a group use the group's logic
+export const searchGroupsToFilter = (groups: SearchGroup[]): string | null => {
+  const parts = groups
+    .map(group => {
+      const conditions = group.conditions.map(conditionToFilter).filter((c): c is string => !!c);
+      if (conditions.length === 0) return null;
+      return `${group.logic === 'OR' ? 'or' : 'and'}(${conditions.join(',')})`;
+    })
+    .filter((p): p is string => !!p);
+  if (parts.length === 0) return null;
+  return parts.length === 1 ? parts[0] : `or(${parts.join(',')})`;
+};
+
+const searchToFilter = <T>(config: ServerTableConfig<T>, search: string): string | null => {
+  const term = search.trim();
+  if (!term) return null;
+  const parts = [
+    ...config.searchColumns.map(column => `${column}.ilike.${quote(`*${term}*`)}`),
+    ...(config.arraySearchColumns || []).map(column => `${column}.cs.${quote(`{${term}}`)}`),
+  ];
+  return `or(${parts.join(',')})`;
+};
+
+const applyFilters = (query: TableQuery, filters: Record<string, TableFilter | null>) => {
+  let next = query;
+  Object.entries(filters).forEach(([field, filter]) => {
+    if (!filter) return;
+    const column = toFilterColumn(field);
+    switch (filter.op) {
+      case 'eq':
+        next = next.eq(column, filter.value);
+        break;
+      case 'in':
+        if (filter.value.length > 0) next = next.in(column, filter.value);
+        break;
+      case 'range':
+        if (filter.gte !== undefined) next = next.gte(column, filter.gte);
+        if (filter.lt !== undefined) next = next.lt(column, filter.lt);
+        if (filter.lte !== undefined) next = next.lte(column, filter.lte);
+        break;
+      case 'contains':
+        if (filter.value.length > 0) next = next.contains(column, filter.value);
+        break;
+    }
+  });
+  return next;
+};
+
+const resolveSort = <T>(config: ServerTableConfig<T>, sort: ServerTableSort | null | undefined): ServerTableSort => {
+  if (!sort) return config.defaultSort;
+  if (config.sortColumns && sort.field in config.sortColumns) {
+    const column = config.sortColumns[sort.field];
+    return column ? { field: column, direction: sort.direction } : config.defaultSort;
+  }
+  return { field: toFilterColumn(sort.field), direction: sort.direction };
+};
+
+/**
+ * Filtered, sorted query for one table, before the page window is applied
+ */
+export const buildTableQuery = <T>(
+  config: ServerTableConfig<T>,
+  params: ServerTableParams,
+  select: string = config.select,
+  head = false,
+) => {
+  let query = supabase.from(config.table).select(select, { count: 'exact', head }) as unknown as TableQuery;
+
+  query = applyFilters(query, params.filters || {});
+
+  // Search text and advanced conditions must both match; PostgREST takes one logic tree per request
+  const trees = [searchToFilter(config, params.search || ''), searchGroupsToFilter(params.searchGroups || [])]
+    .filter((t): t is string => !!t);
+  if (trees.length === 1) query = query.or(trees[0].startsWith('or(') ? trees[0].slice(3, -1) : trees[0]);
+  if (trees.length === 2) query = query.or(`and(${trees.join(',')})`);
+
+  const sort = resolveSort(config, params.sort);
+  query = query.order(sort.field, { ascending: sort.direction === 'asc', nullsFirst: false });
+  // Stable order across pages when the sort column has duplicates
+  if (sort.field !== 'id') query = query.order('id', { ascending: true });
+  return query;
+};
+
+/**
+ * One page of rows with the exact number of matching rows
+ */
+export const fetchTablePage = async <T>(
+  config: ServerTableConfig<T>,
+  params: ServerTableParams,
+): Promise<ServerTablePage<T>> => {
+  const start = (params.page - 1) * params.pageSize;
+  const { data, error, count } = await buildTableQuery(config, params).range(start, start + params.pageSize - 1);
+
+  if (error) {
+    // The window starts past the last row (rows were deleted or filters narrowed): report the
+    // total so the caller can move back to the last page
+    if (error.code === 'PGRST103') {
+      const { count: total, error: countError } = await buildTableQuery(config, params, 'id', true);
+      if (countError) throw countError;
+      return { rows: [], total: total || 0 };
+    }
+    throw error;
+  }
+
+  const rows = config.transform ? await config.transform(data || []) : ((data || []) as T[]);
+  return { rows, total: count ?? rows.length };
+};
+
+/**
+ * Every row of a query, read in pages so results beyond the PostgREST row cap are not dropped.
+ * `page` must apply a stable order.
+ */
+export const fetchAllRows = async <T>(
+  page: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>,
+): Promise<T[]> => {
+  const rows: T[] = [];
+  for (let from = 0; ; from += SERVER_PAGE_LIMIT) {
+    const { data, error } = await page(from, from + SERVER_PAGE_LIMIT - 1);
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < SERVER_PAGE_LIMIT) return rows;
+  }
+};
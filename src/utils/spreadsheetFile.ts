@@ -0,0 +1,112 @@
+import { CSVParseOptions, CSVParser, CSVRowParser, ParsedSheet } from '@/utils/csvParser';
+import { readXlsx, writeXlsx } from '@/utils/xlsxFile';
+
+export type SpreadsheetFormat = 'csv' | 'xlsx';
+
+// For <input type="file" accept=...>
+export const SPREADSHEET_ACCEPT = '.csv,.xlsx';
+
+const XLSX_MIME = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+export interface ReadSpreadsheetOptions extends CSVParseOptions {
+  // Text encoding for CSV files; detected from the byte order mark, else UTF-8 with a Windows-1252 fallback
+  encoding?: string;
+}
+
+export const getSpreadsheetFormat = (file: File): SpreadsheetFormat | null => {
+  const name = file.name.toLowerCase();
+  if (name.endsWith('.xlsx') || file.type === XLSX_MIME) return 'xlsx';
+  if (name.endsWith('.csv') || name.endsWith('.txt') || file.type === 'text/csv') return 'csv';
+  return null;
+};
+
+export const isSpreadsheetFile = (file: File): boolean => getSpreadsheetFormat(file) !== null;
+
+const detectEncoding = async (file: File): Promise<string | null> => {
+  const bytes = new Uint8Array(await file.slice(0, 3).arrayBuffer());
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return 'utf-8';
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return 'utf-16le';
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return 'utf-16be';
+  return null;
+};
+
+// Decodes and tokenizes the file chunk by chunk, so the raw text is never held in memory
+const streamCSV = async (file: File, encoding: string, fatal: boolean, options: CSVParseOptions): Promise<ParsedSheet> => {
+  const collector = CSVParser.createCollector();
+  const parser = new CSVRowParser(collector.onRecord, collector.onError, options);
+  const decoder = new TextDecoder(encoding, { fatal });
+  const reader = file.stream().getReader();
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      parser.push(decoder.decode(value, { stream: true }));
+    }
+  } finally {
+    reader.releaseLock();
+  }
+  parser.push(decoder.decode());
+  parser.finish();
+
+  return collector.result();
+};
+
+const readCSV = async (file: File, options: ReadSpreadsheetOptions): Promise<ParsedSheet> => {
+  const { encoding, ...parseOptions } = options;
+  if (encoding) return streamCSV(file, encoding, false, parseOptions);
+
+  const detected = await detectEncoding(file);
+  if (detected) return streamCSV(file, detected, false, parseOptions);
+
+  try {
+    return await streamCSV(file, 'utf-8', true, parseOptions);
+  } catch (error) {
+    // Not valid UTF-8: most likely an Excel "CSV" saved in the Windows code page
+    if (error instanceof TypeError) {
+      return streamCSV(file, 'windows-1252', false, parseOptions);
+    }
+    throw error;
+  }
+};
+
+const readXLSX = async (file: File): Promise<ParsedSheet> => {
+  const { rows } = readXlsx(await file.arrayBuffer());
+  const collector = CSVParser.createCollector();
+  rows.forEach((row, index) => collector.onRecord(row.map(value => value.trim()), index + 1));
+  return collector.result();
+};
+
+/** Headers, data rows and per-row read errors from a .csv or .xlsx file */
+export const readSpreadsheetFile = async (file: File, options: ReadSpreadsheetOptions = {}): Promise<ParsedSheet> => {
+  const format = getSpreadsheetFormat(file);
+  if (!format) {
+    throw new Error('Please select a CSV or Excel (.xlsx) file');
+  }
+  return format === 'xlsx' ? readXLSX(file) : readCSV(file, options);
+};
+
+export const withSpreadsheetExtension = (filename: string, format: SpreadsheetFormat): string =>
+  `${filename.replace(/\.(csv|xlsx)$/i, '')}.${format}`;
+
+export const downloadSpreadsheet = (
+  headers: string[],
+  rows: string[][],
+  filename: string,
+  format: SpreadsheetFormat = 'csv',
+  sheetName?: string
+) => {
+  const blob = format === 'xlsx'
+    ? new Blob([writeXlsx(headers, rows, sheetName)], { type: XLSX_MIME })
+    // UTF-8 BOM so Excel picks the right encoding when opening the CSV
+    : new Blob(['\uFEFF' + CSVParser.rowsToCSV(headers, rows)], { type: 'text/csv;charset=utf-8;' });
+
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = withSpreadsheetExtension(filename, format);
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  window.URL.revokeObjectURL(url);
+};
@@ -0,0 +1,78 @@
+import { Task, TaskProgress } from '@/types/task';
+
+// Sub-tasks are tasks whose parent_task_id points at another task
+
+type HierarchyTask = Pick<Task, 'id' | 'parent_task_id' | 'status'>;
+
+export interface TaskTreeRow<T> {
+  task: T;
+  depth: number;
+  hasChildren: boolean;
+}
+
+export const isTaskClosed = (task: Pick<Task, 'status'>) =>
+  task.status === 'completed' || task.status === 'cancelled';
+
+// Children grouped by parent id, in the order they appear in `tasks`
+export const getChildTasksMap = <T extends HierarchyTask>(tasks: T[]): Map<string, T[]> => {
+  const map = new Map<string, T[]>();
+  tasks.forEach(task => {
+    if (!task.parent_task_id) return;
+    const siblings = map.get(task.parent_task_id) || [];
+    siblings.push(task);
+    map.set(task.parent_task_id, siblings);
+  });
+  return map;
+};
+
+// Completion across all descendants, not just direct children
+export const getTaskProgress = <T extends HierarchyTask>(taskId: string, childrenMap: Map<string, T[]>): TaskProgress => {
+  let total = 0;
+  let completed = 0;
+  const visit = (id: string, seen: Set<string>) => {
+    (childrenMap.get(id) || []).forEach(child => {
+      if (seen.has(child.id)) return;
+      seen.add(child.id);
+      if (child.status !== 'cancelled') {
+        total++;
+        if (child.status === 'completed') completed++;
+      }
+      visit(child.id, seen);
+    });
+  };
+  visit(taskId, new Set([taskId]));
+  return { total, completed, percent: total === 0 ? 0 : Math.round((completed / total) * 100) };
+};
+
+export const getOpenChildCount = <T extends HierarchyTask>(taskId: string, childrenMap: Map<string, T[]>): number =>
+  (childrenMap.get(taskId) || []).filter(child => !isTaskClosed(child)).length;
+
+// Tasks whose parent is not in the list (filtered out or top-level) are shown as roots
+export const getTaskTreeRoots = <T extends HierarchyTask>(tasks: T[]): T[] => {
+  const ids = new Set(tasks.map(t => t.id));
+  return tasks.filter(task => !task.parent_task_id || !ids.has(task.parent_task_id));
+};
+
+/**
+ * Flatten roots and their sub-tasks into display rows, skipping the children of collapsed tasks.
+ * `childrenMap` should be built from the same (filtered, sorted) list as the roots.
+ */
+export const flattenTaskTree = <T extends HierarchyTask>(
+  roots: T[],
+  childrenMap: Map<string, T[]>,
+  collapsedIds: Set<string>
+): TaskTreeRow<T>[] => {
+  const rows: TaskTreeRow<T>[] = [];
+  const seen = new Set<string>();
+  const visit = (task: T, depth: number) => {
+    if (seen.has(task.id)) return;
+    seen.add(task.id);
+    const children = childrenMap.get(task.id) || [];
+    rows.push({ task, depth, hasChildren: children.length > 0 });
+    if (!collapsedIds.has(task.id)) {
+      children.forEach(child => visit(child, depth + 1));
+    }
+  };
+  roots.forEach(root => visit(root, 0));
+  return rows;
+};
@@ -0,0 +1,91 @@
+import { TaskRecurrenceFrequency, TaskRecurrenceRule, TaskWeekday } from '@/types/task';
+import { formatDisplayDate } from '@/utils/dateFormatUtils';
+
+// tasks.recurrence is stored as an RRULE-style string ('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;COUNT=10').
+// Older rows hold a plain frequency ('daily', 'weekly', ...), which parses the same as FREQ=<value>.
+// The next occurrence is created by the create_next_task_occurrence trigger.
+
+export const TASK_WEEKDAYS: { value: TaskWeekday; short: string; label: string }[] = [
+  { value: 'MO', short: 'M', label: 'Monday' },
+  { value: 'TU', short: 'T', label: 'Tuesday' },
+  { value: 'WE', short: 'W', label: 'Wednesday' },
+  { value: 'TH', short: 'T', label: 'Thursday' },
+  { value: 'FR', short: 'F', label: 'Friday' },
+  { value: 'SA', short: 'S', label: 'Saturday' },
+  { value: 'SU', short: 'S', label: 'Sunday' },
+];
+
+export const TASK_RECURRENCE_OPTIONS: { value: TaskRecurrenceFrequency; label: string; unit: string }[] = [
+  { value: 'none', label: 'Does not repeat', unit: '' },
+  { value: 'daily', label: 'Daily', unit: 'day' },
+  { value: 'weekly', label: 'Weekly', unit: 'week' },
+  { value: 'monthly', label: 'Monthly', unit: 'month' },
+  { value: 'yearly', label: 'Yearly', unit: 'year' },
+];
+
+export const EMPTY_TASK_RECURRENCE: TaskRecurrenceRule = { freq: 'none', interval: 1, byDay: [], count: null };
+
+const FREQUENCIES: TaskRecurrenceFrequency[] = ['daily', 'weekly', 'monthly', 'yearly'];
+
+export const isRecurringTask = (task: { recurrence?: string | null }): boolean =>
+  parseTaskRecurrence(task.recurrence).freq !== 'none';
+
+export const parseTaskRecurrence = (value: string | null | undefined): TaskRecurrenceRule => {
+  const text = (value || '').trim();
+  if (!text) return { ...EMPTY_TASK_RECURRENCE };
+
+  const lower = text.toLowerCase() as TaskRecurrenceFrequency;
+  if (FREQUENCIES.includes(lower)) return { ...EMPTY_TASK_RECURRENCE, freq: lower };
+
+  const parts: Record<string, string> = {};
+  text.split(';').forEach(part => {
+    const [key, val] = part.split('=');
+    if (key && val) parts[key.trim().toUpperCase()] = val.trim().toUpperCase();
+  });
+
+  const freq = (parts.FREQ || '').toLowerCase() as TaskRecurrenceFrequency;
+  if (!FREQUENCIES.includes(freq)) return { ...EMPTY_TASK_RECURRENCE };
+
+  const interval = parseInt(parts.INTERVAL || '1', 10);
+  const count = parseInt(parts.COUNT || '', 10);
+  const weekdays = TASK_WEEKDAYS.map(d => d.value);
+
+  return {
+    freq,
+    interval: interval > 0 ? interval : 1,
+    byDay: freq === 'weekly' && parts.BYDAY
+      ? weekdays.filter(day => parts.BYDAY.split(',').includes(day))
+      : [],
+    count: count > 0 ? count : null,
+  };
+};
+
+// Returns 'none' for a task that doesn't repeat
+export const serializeTaskRecurrence = (rule: TaskRecurrenceRule): string => {
+  if (rule.freq === 'none') return 'none';
+
+  const parts = [`FREQ=${rule.freq.toUpperCase()}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.freq === 'weekly' && rule.byDay.length > 0) parts.push(`BYDAY=${rule.byDay.join(',')}`);
+  if (rule.count) parts.push(`COUNT=${rule.count}`);
+  return parts.join(';');
+};
+
+// Human-readable summary, e.g. "Every 2 weeks on Mon, Wed, 10 times"
+export const describeTaskRecurrence = (value: string | null | undefined, endDate?: string | null): string => {
+  const rule = parseTaskRecurrence(value);
+  if (rule.freq === 'none') return '';
+
+  const option = TASK_RECURRENCE_OPTIONS.find(o => o.value === rule.freq);
+  let text = rule.interval > 1 ? `Every ${rule.interval} ${option?.unit}s` : option?.label || '';
+
+  if (rule.byDay.length > 0) {
+    text += ` on ${rule.byDay.map(day => TASK_WEEKDAYS.find(d => d.value === day)?.label.slice(0, 3)).join(', ')}`;
+  }
+  if (rule.count) {
+    text += `, ${rule.count} times`;
+  } else if (endDate) {
+    text += `, until ${formatDisplayDate(endDate)}`;
+  }
+  return text;
+};
@@ -0,0 +1,2 @@
+// The engine lives with the edge functions so scheduled sends render exactly like the app does
+export * from '../../supabase/functions/_shared/email/templateEngine.ts';
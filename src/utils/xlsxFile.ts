@@ -0,0 +1,228 @@
+import { strFromU8, strToU8, unzipSync, zipSync } from 'fflate';
+
+/**
+ * Minimal Office Open XML spreadsheet support: reads the first worksheet of an .xlsx file
+ * into string rows and writes a single-sheet workbook. Formatting, formulas and extra
+ * sheets are ignored; cell values come from the cached results Excel stores in the file.
+ */
+
+// Built-in number formats that display a date or time
+const BUILT_IN_DATE_FORMATS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 45, 46, 47]);
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+// Serial day 0 in the 1900 system, accounting for Excel's phantom 29 Feb 1900
+const EPOCH_1900 = Date.UTC(1899, 11, 30);
+const EPOCH_1904 = Date.UTC(1904, 0, 1);
+
+const parseXml = (xml: string): Document => new DOMParser().parseFromString(xml, 'application/xml');
+
+// Namespace-agnostic lookup; some writers prefix elements (x:c) and some don't
+const elements = (parent: Document | Element, localName: string): Element[] =>
+  Array.from(parent.getElementsByTagNameNS('*', localName));
+
+const firstElement = (parent: Document | Element, localName: string): Element | null =>
+  elements(parent, localName)[0] || null;
+
+const textOf = (element: Element): string =>
+  elements(element, 't')
+    // Phonetic runs (rPh) repeat the text as reading hints
+    .filter(t => t.parentElement?.localName !== 'rPh')
+    .map(t => t.textContent || '')
+    .join('');
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const columnIndex = (reference: string): number => {
+  const letters = reference.replace(/[^A-Z]/gi, '').toUpperCase();
+  let index = 0;
+  for (const letter of letters) {
+    index = index * 26 + (letter.charCodeAt(0) - 64);
+  }
+  return index - 1;
+};
+
+const columnLetters = (index: number): string => {
+  let letters = '';
+  let n = index + 1;
+  while (n > 0) {
+    const remainder = (n - 1) % 26;
+    letters = String.fromCharCode(65 + remainder) + letters;
+    n = Math.floor((n - 1) / 26);
+  }
+  return letters;
+};
+
+// Dates become YYYY-MM-DD, times HH:mm:ss and date-times both, which is what the importers accept
+const serialToDateString = (serial: number, date1904: boolean): string => {
+  const date = new Date((date1904 ? EPOCH_1904 : EPOCH_1900) + Math.round(serial * MS_PER_DAY));
+  const day = `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+  const time = `${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}:${pad(date.getUTCSeconds())}`;
+  if (Number.isInteger(serial)) return day;
+  // A time-only cell has no day part
+  if (serial >= 0 && serial < 1) return time;
+  return `${day} ${time}`;
+};
+
+const isDateFormatCode = (code: string): boolean => {
+  // Drop quoted literals, escapes and colour/condition sections before looking for date tokens
+  const cleaned = code.replace(/"[^"]*"|\\.|\[[^\]]*\]/g, '');
+  return /[dmyhs]/i.test(cleaned);
+};
+
+const resolvePath = (target: string): string => {
+  if (target.startsWith('/')) return target.slice(1);
+  return `xl/${target}`.replace(/\/\.\//g, '/');
+};
+
+export interface XlsxSheet {
+  name: string;
+  // Every row up to the last used one; missing cells and rows are empty strings
+  rows: string[][];
+}
+
+export const readXlsx = (data: ArrayBuffer | Uint8Array): XlsxSheet => {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  let files: Record<string, Uint8Array>;
+  try {
+    files = unzipSync(bytes, {
+      filter: file => (file.name.startsWith('xl/') && file.name.endsWith('.xml')) || file.name.endsWith('.rels'),
+    });
+  } catch {
+    throw new Error('The file is not a valid .xlsx workbook');
+  }
+
+  const read = (path: string): Document | null => (files[path] ? parseXml(strFromU8(files[path])) : null);
+
+  const workbook = read('xl/workbook.xml');
+  if (!workbook) throw new Error('The file is not a valid .xlsx workbook');
+
+  const date1904 = ['1', 'true'].includes(firstElement(workbook, 'workbookPr')?.getAttribute('date1904') || '');
+  const sheet = firstElement(workbook, 'sheet');
+  if (!sheet) throw new Error('The workbook has no worksheets');
+
+  // The sheet's relationship id points at its part through workbook.xml.rels
+  const relId = sheet.getAttribute('r:id') ||
+    sheet.getAttributeNS('http://schemas.openxmlformats.org/officeDocument/2006/relationships', 'id');
+  const rels = read('xl/_rels/workbook.xml.rels');
+  const target = rels && elements(rels, 'Relationship').find(rel => rel.getAttribute('Id') === relId)?.getAttribute('Target');
+  const sheetPath = target ? resolvePath(target) : 'xl/worksheets/sheet1.xml';
+  const worksheet = read(sheetPath);
+  if (!worksheet) throw new Error('The first worksheet could not be read');
+
+  const sharedStringsDoc = read('xl/sharedStrings.xml');
+  const sharedStrings = sharedStringsDoc ? elements(sharedStringsDoc, 'si').map(textOf) : [];
+
+  // Style index -> whether that cell style displays a date
+  const stylesDoc = read('xl/styles.xml');
+  const dateStyles: boolean[] = [];
+  if (stylesDoc) {
+    const customDateFormats = new Set(
+      elements(stylesDoc, 'numFmt')
+        .filter(fmt => isDateFormatCode(fmt.getAttribute('formatCode') || ''))
+        .map(fmt => Number(fmt.getAttribute('numFmtId')))
+    );
+    const cellXfs = firstElement(stylesDoc, 'cellXfs');
+    if (cellXfs) {
+      Array.from(cellXfs.children).forEach(xf => {
+        const formatId = Number(xf.getAttribute('numFmtId') || 0);
+        dateStyles.push(BUILT_IN_DATE_FORMATS.has(formatId) || customDateFormats.has(formatId));
+      });
+    }
+  }
+
+  const rows: string[][] = [];
+  elements(worksheet, 'row').forEach((rowElement, position) => {
+    const rowIndex = Number(rowElement.getAttribute('r') || position + 1) - 1;
+    const values: string[] = [];
+
+    elements(rowElement, 'c').forEach((cell, cellPosition) => {
+      const reference = cell.getAttribute('r');
+      const col = reference ? columnIndex(reference) : cellPosition;
+      const type = cell.getAttribute('t');
+      const raw = firstElement(cell, 'v')?.textContent ?? '';
+      let value = raw;
+
+      if (type === 's') {
+        value = sharedStrings[Number(raw)] ?? '';
+      } else if (type === 'inlineStr') {
+        const inline = firstElement(cell, 'is');
+        value = inline ? textOf(inline) : '';
+      } else if (type === 'b') {
+        value = raw === '1' ? 'true' : 'false';
+      } else if (type === 'e') {
+        value = '';
+      } else if (raw !== '' && type !== 'str' && dateStyles[Number(cell.getAttribute('s') || 0)]) {
+        value = serialToDateString(Number(raw), date1904);
+      }
+
+      while (values.length < col) values.push('');
+      values[col] = value;
+    });
+
+    while (rows.length < rowIndex) rows.push([]);
+    rows[rowIndex] = values;
+  });
+
+  return { name: sheet.getAttribute('name') || 'Sheet1', rows };
+};
+
+const escapeXml = (value: string): string =>
+  Array.from(value)
+    // Control characters other than tab and line breaks are not allowed in XML 1.0
+    .filter(char => char >= ' ' || char === '\t' || char === '\n' || char === '\r')
+    .join('')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+// Plain numbers are written as numbers so totals can be summed; leading zeros and long IDs stay text
+const isNumericCell = (value: string): boolean =>
+  /^-?(0|[1-9]\d{0,14})(\.\d+)?$/.test(value);
+
+const cellXml = (value: string, ref: string, style: number): string => {
+  const styleAttr = style ? ` s="${style}"` : '';
+  if (value === '') return '';
+  if (isNumericCell(value)) return `<c r="${ref}"${styleAttr}><v>${value}</v></c>`;
+  return `<c r="${ref}" t="inlineStr"${styleAttr}><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+};
+
+const CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/><Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/><Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/></Types>`;
+
+const ROOT_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/></Relationships>`;
+
+const WORKBOOK_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/><Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/></Relationships>`;
+
+// Style 1 is the bold header row
+const STYLES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts><fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills><borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders><cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs><cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs></styleSheet>`;
+
+export const writeXlsx = (headers: string[], rows: string[][], sheetName = 'Sheet1'): Uint8Array => {
+  // Sheet names are limited to 31 characters and can't contain []:*?/\
+  const safeName = sheetName.replace(/[[\]:*?/\\]/g, ' ').slice(0, 31) || 'Sheet1';
+
+  const rowXml = [headers, ...rows].map((row, rowIndex) => {
+    const cells = row
+      .map((value, colIndex) => cellXml(value ?? '', `${columnLetters(colIndex)}${rowIndex + 1}`, rowIndex === 0 ? 1 : 0))
+      .join('');
+    return `<row r="${rowIndex + 1}">${cells}</row>`;
+  }).join('');
+
+  const sheetXml = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews><sheetData>${rowXml}</sheetData></worksheet>`;
+
+  const workbookXml = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets><sheet name="${escapeXml(safeName)}" sheetId="1" r:id="rId1"/></sheets></workbook>`;
+
+  return zipSync({
+    '[Content_Types].xml': strToU8(CONTENT_TYPES),
+    '_rels/.rels': strToU8(ROOT_RELS),
+    'xl/workbook.xml': strToU8(workbookXml),
+    'xl/_rels/workbook.xml.rels': strToU8(WORKBOOK_RELS),
+    'xl/styles.xml': strToU8(STYLES),
+    'xl/worksheets/sheet1.xml': strToU8(sheetXml),
+  });
+};
@@ -0,0 +1,111 @@
+import { parseCalendar } from "./ics.ts";
+import type { CalendarAdapter, CalendarEvent, CalendarSyncConfig, ListEventsOptions } from "./types.ts";
+
+// CalDAV adapter (RFC 4791): a calendar-query REPORT with the server expanding recurring events
+// into instances. Logs in with caldav_username and the CALDAV_PASSWORD secret. A calendar path
+// containing {email} is read once per user; otherwise everyone shares the one calendar.
+
+const decodeXml = (value: string) =>
+  value
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, "$1")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#13;/g, "\r")
+    .replace(/&#10;/g, "\n")
+    .replace(/&amp;/g, "&");
+
+// Text of the first element with the local name, whatever namespace prefix the server uses
+const elementText = (xml: string, localName: string) =>
+  xml.match(new RegExp(`<(?:[\\w-]+:)?${localName}[^>]*>([\\s\\S]*?)</(?:[\\w-]+:)?${localName}>`, "i"))?.[1] ?? null;
+
+const toCalDavTime = (iso: string) => new Date(iso).toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+
+function buildQuery({ from, to }: ListEventsOptions): string {
+  const start = toCalDavTime(from);
+  const end = toCalDavTime(to);
+  return `<?xml version="1.0" encoding="utf-8"?>
+<c:calendar-query xmlns:d="DAV:" xmlns:c="urn:ietf:params:xml:ns:caldav">
+  <d:prop>
+    <d:getetag/>
+    <c:calendar-data>
+      <c:expand start="${start}" end="${end}"/>
+    </c:calendar-data>
+  </d:prop>
+  <c:filter>
+    <c:comp-filter name="VCALENDAR">
+      <c:comp-filter name="VEVENT">
+        <c:time-range start="${start}" end="${end}"/>
+      </c:comp-filter>
+    </c:comp-filter>
+  </c:filter>
+</c:calendar-query>`;
+}
+
+export function createCalDavAdapter(config: CalendarSyncConfig): CalendarAdapter {
+  const baseUrl = config.caldav_url?.trim() || "";
+  const calendarPath = config.calendar_id?.trim() || "";
+  const username = config.caldav_username?.trim() || "";
+  const password = Deno.env.get("CALDAV_PASSWORD") || "";
+
+  const calendarUrl = (mailbox: string) =>
+    new URL(calendarPath.replace(/\{email\}/g, encodeURIComponent(mailbox)), baseUrl.endsWith("/") ? baseUrl : `${baseUrl}/`).toString();
+  const headers = (extra: Record<string, string>) => ({
+    Authorization: `Basic ${btoa(`${username}:${password}`)}`,
+    ...extra,
+  });
+
+  return {
+    provider: "caldav",
+    perUser: calendarPath.includes("{email}"),
+
+    async verify() {
+      if (!baseUrl || !username || !password) {
+        throw new Error("CalDAV not configured. Please set the server URL and username on the Calendar Sync integration and CALDAV_PASSWORD in the function secrets.");
+      }
+      const response = await fetch(calendarUrl(username), {
+        method: "PROPFIND",
+        headers: headers({ Depth: "0", "Content-Type": "application/xml; charset=utf-8" }),
+        body: '<?xml version="1.0" encoding="utf-8"?><d:propfind xmlns:d="DAV:"><d:prop><d:displayname/></d:prop></d:propfind>',
+      });
+      await response.body?.cancel();
+      if (!response.ok && response.status !== 207) {
+        throw new Error(`CalDAV server rejected the login: ${response.status}`);
+      }
+    },
+
+    async listEvents(mailbox: string, options: ListEventsOptions) {
+      const url = calendarUrl(mailbox);
+      const response = await fetch(url, {
+        method: "REPORT",
+        headers: headers({ Depth: "1", "Content-Type": "application/xml; charset=utf-8" }),
+        body: buildQuery(options),
+      });
+      if (!response.ok && response.status !== 207) {
+        const errorText = await response.text();
+        throw new Error(`Failed to read CalDAV calendar ${url}: ${response.status} ${errorText}`);
+      }
+
+      const xml = await response.text();
+      const events: CalendarEvent[] = [];
+      const responses = xml.match(/<(?:[\w-]+:)?response[\s>][\s\S]*?<\/(?:[\w-]+:)?response>/gi) || [];
+      responses.forEach(block => {
+        const href = elementText(block, "href")?.trim();
+        const data = elementText(block, "calendar-data");
+        if (!href || !data) return;
+        const etag = elementText(block, "getetag");
+        parseCalendar(decodeXml(data)).forEach(({ recurrenceId, ...event }) => {
+          events.push({
+            ...event,
+            // Instances of one recurring event share the resource and UID; each becomes its own meeting
+            id: recurrenceId ? `${href}#${recurrenceId}` : href,
+            uid: recurrenceId && event.uid ? `${event.uid}#${recurrenceId}` : event.uid,
+            etag: etag ? decodeXml(etag).replace(/"/g, "") : null,
+          });
+        });
+      });
+      return events;
+    },
+  };
+}
@@ -0,0 +1,143 @@
+import type { CalendarAdapter, CalendarAttendee, CalendarEvent, CalendarSyncConfig, ListEventsOptions } from "./types.ts";
+
+// Microsoft Graph adapter: reads each user's mailbox calendar with application permission
+// Calendars.Read. Uses the calendar app registration, falling back to the Teams one, which
+// already creates calendar events.
+
+const GRAPH_URL = "https://graph.microsoft.com/v1.0";
+
+const EVENT_FIELDS = [
+  "id",
+  "iCalUId",
+  "changeKey",
+  "subject",
+  "bodyPreview",
+  "start",
+  "end",
+  "isAllDay",
+  "isCancelled",
+  "organizer",
+  "attendees",
+  "onlineMeeting",
+  "lastModifiedDateTime",
+].join(",");
+
+interface GraphPerson {
+  emailAddress?: { address?: string; name?: string };
+}
+
+interface GraphEvent {
+  id: string;
+  iCalUId?: string;
+  changeKey?: string;
+  subject?: string;
+  bodyPreview?: string;
+  start?: { dateTime?: string };
+  end?: { dateTime?: string };
+  isAllDay?: boolean;
+  isCancelled?: boolean;
+  organizer?: GraphPerson;
+  attendees?: GraphPerson[];
+  onlineMeeting?: { joinUrl?: string } | null;
+  lastModifiedDateTime?: string;
+}
+
+async function getAccessToken(): Promise<string> {
+  const tenantId = Deno.env.get("AZURE_CALENDAR_TENANT_ID") || Deno.env.get("AZURE_TEAMS_TENANT_ID");
+  const clientId = Deno.env.get("AZURE_CALENDAR_CLIENT_ID") || Deno.env.get("AZURE_TEAMS_CLIENT_ID");
+  const clientSecret = Deno.env.get("AZURE_CALENDAR_CLIENT_SECRET") || Deno.env.get("AZURE_TEAMS_CLIENT_SECRET");
+
+  if (!tenantId || !clientId || !clientSecret) {
+    throw new Error("Azure calendar credentials not configured. Please set AZURE_CALENDAR_TENANT_ID, AZURE_CALENDAR_CLIENT_ID, and AZURE_CALENDAR_CLIENT_SECRET.");
+  }
+
+  const response = await fetch(`https://login.microsoftonline.com/${tenantId}/oauth2/v2.0/token`, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: new URLSearchParams({
+      client_id: clientId,
+      client_secret: clientSecret,
+      scope: "https://graph.microsoft.com/.default",
+      grant_type: "client_credentials",
+    }),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error("Failed to get access token:", errorText);
+    throw new Error(`Failed to get access token: ${response.status} ${errorText}`);
+  }
+
+  const data = await response.json();
+  return data.access_token as string;
+}
+
+const toPerson = (person?: GraphPerson): CalendarAttendee | null => {
+  const email = person?.emailAddress?.address?.trim().toLowerCase();
+  return email ? { email, name: person?.emailAddress?.name || null } : null;
+};
+
+// Times are requested in UTC; Graph leaves the zone designator off
+const toIso = (dateTime?: string) => (dateTime ? new Date(dateTime.endsWith("Z") ? dateTime : `${dateTime}Z`).toISOString() : "");
+
+function toCalendarEvent(event: GraphEvent): CalendarEvent {
+  return {
+    id: event.id,
+    uid: event.iCalUId || null,
+    etag: event.changeKey || null,
+    subject: event.subject || "",
+    description: event.bodyPreview || null,
+    start: event.isAllDay ? toIso(event.start?.dateTime).slice(0, 10) : toIso(event.start?.dateTime),
+    end: event.isAllDay ? toIso(event.end?.dateTime).slice(0, 10) : toIso(event.end?.dateTime),
+    allDay: !!event.isAllDay,
+    cancelled: !!event.isCancelled,
+    organizer: toPerson(event.organizer),
+    attendees: (event.attendees || []).map(toPerson).filter((a): a is CalendarAttendee => !!a),
+    joinUrl: event.onlineMeeting?.joinUrl || null,
+    updatedAt: event.lastModifiedDateTime || null,
+  };
+}
+
+export function createGraphCalendarAdapter(config: CalendarSyncConfig): CalendarAdapter {
+  let tokenPromise: Promise<string> | null = null;
+  const token = () => (tokenPromise ??= getAccessToken());
+
+  return {
+    provider: "graph",
+    perUser: true,
+
+    async verify() {
+      await token();
+    },
+
+    async listEvents(mailbox: string, { from, to }: ListEventsOptions) {
+      const calendarPath = config.calendar_id ? `/calendars/${encodeURIComponent(config.calendar_id)}` : "";
+      const params = new URLSearchParams({
+        startDateTime: from,
+        endDateTime: to,
+        $select: EVENT_FIELDS,
+        $top: "100",
+      });
+      let url: string | null = `${GRAPH_URL}/users/${encodeURIComponent(mailbox)}${calendarPath}/calendarView?${params}`;
+      const events: CalendarEvent[] = [];
+
+      while (url) {
+        const response = await fetch(url, {
+          headers: {
+            Authorization: `Bearer ${await token()}`,
+            Prefer: 'outlook.timezone="UTC"',
+          },
+        });
+        if (!response.ok) {
+          const errorText = await response.text();
+          throw new Error(`Failed to read calendar of ${mailbox}: ${response.status} ${errorText}`);
+        }
+        const data = await response.json();
+        (data.value as GraphEvent[]).forEach(event => events.push(toCalendarEvent(event)));
+        url = data["@odata.nextLink"] || null;
+      }
+
+      return events;
+    },
+  };
+}
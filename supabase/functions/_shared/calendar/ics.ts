@@ -0,0 +1,273 @@
+import type { CalendarAttendee, CalendarEvent, IcsEvent } from "./types.ts";
+
+// iCalendar (RFC 5545) writing for the subscription feed and invitations (RFC 5546), and the
+// parsing CalDAV needs. Only what calendar clients exchange in practice is covered: recurring
+// events are expected to arrive expanded into instances.
+
+const CRLF = "\r\n";
+const PRODID = "-//CRM//Calendar Sync//EN";
+const encoder = new TextEncoder();
+
+export type IcsMethod = "PUBLISH" | "REQUEST" | "CANCEL";
+
+export const escapeIcsText = (value: string) =>
+  value.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+
+const unescapeIcsText = (value: string) =>
+  value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === "n" || char === "N" ? "\n" : char));
+
+// Parameter values with separators must be quoted; quotes themselves are not allowed
+const quoteParam = (value: string) => {
+  const clean = value.replace(/"/g, "'");
+  return /[;:,]/.test(clean) ? `"${clean}"` : clean;
+};
+
+// Lines longer than 75 octets continue on the next line after a space
+function foldLine(line: string): string {
+  if (encoder.encode(line).length <= 75) return line;
+  const parts: string[] = [];
+  let current = "";
+  let size = 0;
+  for (const char of line) {
+    const charSize = encoder.encode(char).length;
+    if (size + charSize > (parts.length ? 74 : 75)) {
+      parts.push(current);
+      current = "";
+      size = 0;
+    }
+    current += char;
+    size += charSize;
+  }
+  parts.push(current);
+  return parts.join(`${CRLF} `);
+}
+
+// 20260121T093000Z
+export const formatIcsDateTime = (iso: string) =>
+  new Date(iso).toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+
+// 20260121
+const formatIcsDate = (date: string) => date.slice(0, 10).replace(/-/g, "");
+
+const nextDay = (date: string) => {
+  const day = new Date(`${date.slice(0, 10)}T00:00:00Z`);
+  day.setUTCDate(day.getUTCDate() + 1);
+  return day.toISOString().slice(0, 10);
+};
+
+function personLine(property: "ORGANIZER" | "ATTENDEE", person: CalendarAttendee, method: IcsMethod): string {
+  const params = person.name ? [`CN=${quoteParam(person.name)}`] : [];
+  if (property === "ATTENDEE") {
+    params.push("ROLE=REQ-PARTICIPANT");
+    if (method === "REQUEST") params.push("PARTSTAT=NEEDS-ACTION", "RSVP=TRUE");
+  }
+  return `${property}${params.map(p => `;${p}`).join("")}:mailto:${person.email}`;
+}
+
+function eventLines(event: IcsEvent, method: IcsMethod): string[] {
+  const lines = [
+    "BEGIN:VEVENT",
+    `UID:${event.uid}`,
+    `SEQUENCE:${event.sequence}`,
+    `DTSTAMP:${formatIcsDateTime(new Date().toISOString())}`,
+  ];
+  if (event.allDay) {
+    lines.push(`DTSTART;VALUE=DATE:${formatIcsDate(event.start)}`);
+    lines.push(`DTEND;VALUE=DATE:${formatIcsDate(event.end > event.start ? event.end : nextDay(event.start))}`);
+  } else {
+    lines.push(`DTSTART:${formatIcsDateTime(event.start)}`, `DTEND:${formatIcsDateTime(event.end)}`);
+  }
+  lines.push(`SUMMARY:${escapeIcsText(event.summary)}`);
+  if (event.description) lines.push(`DESCRIPTION:${escapeIcsText(event.description)}`);
+  if (event.location) lines.push(`LOCATION:${escapeIcsText(event.location)}`);
+  if (event.url) lines.push(`URL:${event.url}`);
+  if (event.categories?.length) lines.push(`CATEGORIES:${event.categories.map(escapeIcsText).join(",")}`);
+  if (event.updatedAt) lines.push(`LAST-MODIFIED:${formatIcsDateTime(event.updatedAt)}`);
+  lines.push(`STATUS:${event.status}`);
+  if (event.organizer) lines.push(personLine("ORGANIZER", event.organizer, method));
+  event.attendees?.forEach(attendee => lines.push(personLine("ATTENDEE", attendee, method)));
+  lines.push("END:VEVENT");
+  return lines;
+}
+
+/**
+ * A VCALENDAR document. PUBLISH is used for subscription feeds; REQUEST and CANCEL make an
+ * invitation or cancellation that mail clients offer to add to the calendar.
+ */
+export function buildCalendar(events: IcsEvent[], options: { method?: IcsMethod; name?: string } = {}): string {
+  const method = options.method || "PUBLISH";
+  const lines = ["BEGIN:VCALENDAR", "VERSION:2.0", `PRODID:${PRODID}`, "CALSCALE:GREGORIAN", `METHOD:${method}`];
+  if (options.name) {
+    lines.push(`X-WR-CALNAME:${escapeIcsText(options.name)}`);
+  }
+  events.forEach(event => lines.push(...eventLines(event, method)));
+  lines.push("END:VCALENDAR");
+  return lines.map(foldLine).join(CRLF) + CRLF;
+}
+
+interface IcsProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+function parseProperty(line: string): IcsProperty | null {
+  // The value starts at the first colon outside a quoted parameter
+  let inQuotes = false;
+  let split = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    else if (line[i] === ":" && !inQuotes) {
+      split = i;
+      break;
+    }
+  }
+  if (split < 0) return null;
+  const [name, ...rawParams] = line.slice(0, split).split(";");
+  const params: Record<string, string> = {};
+  rawParams.forEach(param => {
+    const eq = param.indexOf("=");
+    if (eq > 0) params[param.slice(0, eq).toUpperCase()] = param.slice(eq + 1).replace(/^"|"$/g, "");
+  });
+  return { name: name.toUpperCase(), params, value: line.slice(split + 1) };
+}
+
+// Offset of a time zone from UTC at the given instant, in milliseconds
+function zoneOffset(timeZone: string, instant: number): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(new Date(instant));
+  const get = (type: string) => Number(parts.find(p => p.type === type)?.value);
+  return Date.UTC(get("year"), get("month") - 1, get("day"), get("hour"), get("minute"), get("second")) - instant;
+}
+
+// Instant of a wall-clock time (given as if it were UTC) in the time zone; unknown zones read as UTC
+function zonedInstant(wallClock: number, timeZone: string | null | undefined): number {
+  if (!timeZone) return wallClock;
+  try {
+    const instant = wallClock - zoneOffset(timeZone, wallClock);
+    // Correct once more in case the offset differs on the other side of a DST change
+    return wallClock - zoneOffset(timeZone, instant);
+  } catch {
+    return wallClock;
+  }
+}
+
+// ISO timestamp of a local date (YYYY-MM-DD) and time (HH:MM[:SS]) in the time zone
+export function zonedTimeToIso(date: string, time: string, timeZone: string | null | undefined): string {
+  const [y, mo, d] = date.slice(0, 10).split("-").map(Number);
+  const [h, mi, s] = time.split(":").map(Number);
+  return new Date(zonedInstant(Date.UTC(y, mo - 1, d, h || 0, mi || 0, s || 0), timeZone)).toISOString();
+}
+
+/**
+ * DTSTART/DTEND value as an ISO timestamp. Dates without a time are all-day; local times are
+ * converted from their TZID, and zones Intl does not know (or floating times) are read as UTC.
+ */
+function parseIcsDate(property: IcsProperty): { iso: string; allDay: boolean } | null {
+  const match = property.value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) return null;
+  const [, y, mo, d, h, mi, s, utc] = match;
+  if (h === undefined) {
+    return { iso: `${y}-${mo}-${d}`, allDay: true };
+  }
+  const wallClock = Date.UTC(Number(y), Number(mo) - 1, Number(d), Number(h), Number(mi), Number(s));
+  return { iso: new Date(utc ? wallClock : zonedInstant(wallClock, property.params.TZID)).toISOString(), allDay: false };
+}
+
+// P1W, P1D, PT1H30M, ...
+function parseDurationMs(value: string): number {
+  const match = value.match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) return 0;
+  const [, sign, w, d, h, m, s] = match;
+  const ms = ((Number(w || 0) * 7 + Number(d || 0)) * 24 * 3600 + Number(h || 0) * 3600 + Number(m || 0) * 60 + Number(s || 0)) * 1000;
+  return sign === "-" ? -ms : ms;
+}
+
+const parsePerson = (property: IcsProperty): CalendarAttendee | null => {
+  const email = property.value.replace(/^mailto:/i, "").trim().toLowerCase();
+  return email.includes("@") ? { email, name: property.params.CN || null } : null;
+};
+
+export type ParsedIcsEvent = Omit<CalendarEvent, "id" | "etag"> & {
+  // Set on one instance of a recurring event
+  recurrenceId: string | null;
+};
+
+/**
+ * The VEVENTs of an iCalendar document. Events without a usable start are skipped.
+ */
+export function parseCalendar(text: string): ParsedIcsEvent[] {
+  const lines = text.replace(/\r?\n[ \t]/g, "").split(/\r?\n/);
+  const events: ParsedIcsEvent[] = [];
+  let current: IcsProperty[] | null = null;
+  let depth = 0;
+
+  for (const line of lines) {
+    if (line === "BEGIN:VEVENT") {
+      current = [];
+      depth = 0;
+      continue;
+    }
+    if (!current) continue;
+    // Skip nested components such as VALARM
+    if (line.startsWith("BEGIN:")) depth++;
+    else if (line.startsWith("END:") && line !== "END:VEVENT") depth--;
+    else if (line === "END:VEVENT") {
+      const event = toEvent(current);
+      if (event) events.push(event);
+      current = null;
+    } else if (depth === 0) {
+      const property = parseProperty(line);
+      if (property) current.push(property);
+    }
+  }
+  return events;
+}
+
+function toEvent(properties: IcsProperty[]): ParsedIcsEvent | null {
+  const get = (name: string) => properties.find(p => p.name === name);
+  const startProperty = get("DTSTART");
+  const start = startProperty ? parseIcsDate(startProperty) : null;
+  if (!start) return null;
+
+  const endProperty = get("DTEND");
+  let end = endProperty ? parseIcsDate(endProperty)?.iso : undefined;
+  if (!end) {
+    const duration = get("DURATION");
+    end = start.allDay
+      ? duration ? new Date(new Date(`${start.iso}T00:00:00Z`).getTime() + parseDurationMs(duration.value)).toISOString().slice(0, 10) : start.iso
+      : new Date(new Date(start.iso).getTime() + (duration ? parseDurationMs(duration.value) : 0)).toISOString();
+  }
+
+  const modified = get("LAST-MODIFIED") || get("DTSTAMP");
+  const recurrence = get("RECURRENCE-ID");
+  const organizer = get("ORGANIZER");
+  const url = get("URL")?.value || null;
+  const location = get("LOCATION") ? unescapeIcsText(get("LOCATION")!.value) : null;
+
+  return {
+    uid: get("UID")?.value || null,
+    subject: get("SUMMARY") ? unescapeIcsText(get("SUMMARY")!.value) : "",
+    description: get("DESCRIPTION") ? unescapeIcsText(get("DESCRIPTION")!.value) : null,
+    start: start.iso,
+    end,
+    allDay: start.allDay,
+    cancelled: get("STATUS")?.value.toUpperCase() === "CANCELLED",
+    organizer: organizer ? parsePerson(organizer) : null,
+    attendees: properties
+      .filter(p => p.name === "ATTENDEE")
+      .map(parsePerson)
+      .filter((a): a is CalendarAttendee => !!a),
+    joinUrl: url || (location && /^https?:\/\//.test(location) ? location : null),
+    updatedAt: modified ? parseIcsDate(modified)?.iso || null : null,
+    recurrenceId: recurrence ? parseIcsDate(recurrence)?.iso || recurrence.value : null,
+  };
+}
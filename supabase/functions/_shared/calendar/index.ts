@@ -0,0 +1,60 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { createCalDavAdapter } from "./caldav.ts";
+import { createGraphCalendarAdapter } from "./graph.ts";
+import type { CalendarAdapter, CalendarSyncConfig } from "./types.ts";
+
+export type {
+  CalendarAdapter,
+  CalendarAttendee,
+  CalendarEvent,
+  CalendarProvider,
+  CalendarSyncConfig,
+  ConflictPolicy,
+  IcsEvent,
+} from "./types.ts";
+export { buildCalendar, parseCalendar, zonedTimeToIso, type IcsMethod } from "./ics.ts";
+export {
+  buildInvitationFile,
+  CALENDAR_MEETING_COLUMNS,
+  getMeetingAttendees,
+  getMeetingUid,
+  getUidDomain,
+  meetingToIcsEvent,
+  type CalendarMeeting,
+} from "./meetings.ts";
+export { syncExternalCalendars, type CalendarSyncSummary } from "./sync.ts";
+
+// integration_settings entry the calendar functions read their provider from
+export const CALENDAR_INTEGRATION_NAME = "Calendar Sync";
+
+export const DEFAULT_SYNC_FREQUENCY_MINUTES = 15;
+
+export function createCalendarAdapter(config: CalendarSyncConfig): CalendarAdapter {
+  return config.provider === "caldav" ? createCalDavAdapter(config) : createGraphCalendarAdapter(config);
+}
+
+export interface CalendarSettings {
+  id: string | null;
+  enabled: boolean;
+  config: CalendarSyncConfig;
+  lastSyncAt: string | null;
+}
+
+export async function loadCalendarSettings(supabase: SupabaseClient): Promise<CalendarSettings> {
+  const { data, error } = await supabase
+    .from("integration_settings")
+    .select("id, is_enabled, config, last_sync_at")
+    .eq("integration_name", CALENDAR_INTEGRATION_NAME)
+    .maybeSingle();
+
+  if (error) {
+    console.warn(`Could not load ${CALENDAR_INTEGRATION_NAME} settings:`, error.message);
+  }
+
+  return {
+    id: data?.id || null,
+    enabled: !!data?.is_enabled,
+    config: (data?.config || {}) as CalendarSyncConfig,
+    lastSyncAt: data?.last_sync_at || null,
+  };
+}
@@ -0,0 +1,95 @@
+import { buildCalendar } from "./ics.ts";
+import type { CalendarAttendee, IcsEvent } from "./types.ts";
+
+// Columns of a meeting the feed, invitations and sync read
+export interface CalendarMeeting {
+  id: string;
+  subject: string;
+  description: string | null;
+  start_time: string;
+  end_time: string;
+  join_url: string | null;
+  status: string;
+  attendees: unknown;
+  created_by: string | null;
+  lead_id: string | null;
+  contact_id: string | null;
+  updated_at: string;
+  ics_uid: string | null;
+  ics_sequence: number | null;
+}
+
+export const CALENDAR_MEETING_COLUMNS =
+  "id, subject, description, start_time, end_time, join_url, status, attendees, created_by, lead_id, contact_id, updated_at, ics_uid, ics_sequence";
+
+// Host used in the UIDs of CRM events, e.g. <meeting id>@<project>.supabase.co
+export const getUidDomain = () => {
+  try {
+    return new URL(Deno.env.get("SUPABASE_URL") || "").host || "crm.local";
+  } catch {
+    return "crm.local";
+  }
+};
+
+// Imported meetings keep the external event's UID so calendars do not show them twice
+export const getMeetingUid = (meeting: Pick<CalendarMeeting, "id" | "ics_uid">) =>
+  meeting.ics_uid || `${meeting.id}@${getUidDomain()}`;
+
+// meetings.attendees holds the external participants as [{ email, name }]
+export function getMeetingAttendees(meeting: Pick<CalendarMeeting, "attendees">): CalendarAttendee[] {
+  if (!Array.isArray(meeting.attendees)) return [];
+  return (meeting.attendees as { email?: string; name?: string }[])
+    .filter(a => typeof a?.email === "string" && a.email.includes("@"))
+    .map(a => ({ email: a.email!.trim().toLowerCase(), name: a.name || null }));
+}
+
+export function meetingToIcsEvent(
+  meeting: CalendarMeeting,
+  options: { organizer?: CalendarAttendee | null; extraAttendees?: CalendarAttendee[] } = {}
+): IcsEvent {
+  const attendees = [...(options.extraAttendees || []), ...getMeetingAttendees(meeting)].filter(
+    (attendee, index, all) =>
+      attendee.email !== options.organizer?.email && all.findIndex(a => a.email === attendee.email) === index
+  );
+  return {
+    uid: getMeetingUid(meeting),
+    sequence: meeting.ics_sequence || 0,
+    start: meeting.start_time,
+    end: meeting.end_time,
+    summary: meeting.subject,
+    description: meeting.description,
+    location: meeting.join_url,
+    url: meeting.join_url,
+    organizer: options.organizer || null,
+    attendees,
+    status: meeting.status === "cancelled" ? "CANCELLED" : "CONFIRMED",
+    updatedAt: meeting.updated_at,
+  };
+}
+
+function toBase64(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+/**
+ * invite.ics for a meeting email: a REQUEST mail clients offer to accept, or a CANCEL once the
+ * meeting is cancelled. Shaped like an email attachment (base64 content).
+ */
+export function buildInvitationFile(
+  meeting: CalendarMeeting,
+  organizer: CalendarAttendee,
+  recipients: CalendarAttendee[]
+): { name: string; contentType: string; contentBytes: string } {
+  const method = meeting.status === "cancelled" ? "CANCEL" : "REQUEST";
+  const ics = buildCalendar([meetingToIcsEvent(meeting, { organizer, extraAttendees: recipients })], { method });
+  return {
+    name: "invite.ics",
+    contentType: `text/calendar; method=${method}; charset=UTF-8`,
+    contentBytes: toBase64(ics),
+  };
+}
@@ -0,0 +1,457 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  CALENDAR_MEETING_COLUMNS,
+  getMeetingAttendees,
+  getUidDomain,
+  type CalendarMeeting,
+} from "./meetings.ts";
+import type { CalendarAdapter, CalendarAttendee, CalendarEvent, CalendarSyncConfig, ConflictPolicy } from "./types.ts";
+
+// Imports external calendar events into the CRM. Events are matched to meetings through a stored
+// link, the iCalendar UID, or shared attendees around the same time; unmatched events with a known
+// contact or lead become new meetings. Later external changes are applied to the linked meeting,
+// and when the meeting also changed in the CRM the conflict policy decides which side wins.
+
+// How far around today external calendars are read
+const PAST_DAYS = 30;
+const FUTURE_DAYS = 90;
+// An unlinked event and a meeting sharing attendees are the same appointment when they start this close
+const MATCH_WINDOW_MS = 12 * 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Keeps `in (...)` filters well inside URL length limits
+const CHUNK_SIZE = 100;
+
+export interface CalendarSyncSummary {
+  users: number;
+  events: number;
+  linked: number;
+  imported: number;
+  updated: number;
+  cancelled: number;
+  conflicts: number;
+  errors: string[];
+}
+
+interface SyncUser {
+  id: string;
+  email: string;
+}
+
+interface EventLink {
+  id: string;
+  meeting_id: string;
+  user_id: string;
+  external_id: string;
+  external_etag: string | null;
+  external_updated_at: string | null;
+  crm_updated_at: string | null;
+}
+
+// A contact or lead an event attendee resolves to
+interface CrmPerson {
+  contactId?: string;
+  leadId?: string;
+}
+
+interface SyncContext {
+  supabase: SupabaseClient;
+  adapter: CalendarAdapter;
+  policy: ConflictPolicy;
+  from: string;
+  to: string;
+  summary: CalendarSyncSummary;
+  userEmails: Set<string>;
+}
+
+function chunk<T>(items: T[]): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += CHUNK_SIZE) chunks.push(items.slice(i, i + CHUNK_SIZE));
+  return chunks;
+}
+
+const time = (iso: string | null | undefined) => (iso ? new Date(iso).getTime() : 0);
+
+const eventEmails = (event: CalendarEvent, exclude: string) =>
+  [...new Set([event.organizer?.email, ...event.attendees.map(a => a.email)].filter((e): e is string => !!e && e !== exclude))];
+
+function externalChanged(link: EventLink, event: CalendarEvent): boolean {
+  if (link.external_etag && event.etag) return link.external_etag !== event.etag;
+  return time(event.updatedAt) > time(link.external_updated_at);
+}
+
+async function loadMeetings(ctx: SyncContext, userId: string, extraIds: string[]): Promise<Map<string, CalendarMeeting>> {
+  const meetings = new Map<string, CalendarMeeting>();
+  const { data, error } = await ctx.supabase
+    .from("meetings")
+    .select(CALENDAR_MEETING_COLUMNS)
+    .eq("created_by", userId)
+    .gte("start_time", new Date(time(ctx.from) - DAY_MS).toISOString())
+    .lte("start_time", new Date(time(ctx.to) + DAY_MS).toISOString());
+  if (error) throw error;
+  (data as CalendarMeeting[]).forEach(m => meetings.set(m.id, m));
+
+  // Linked meetings moved out of the window or owned by a colleague
+  const missing = extraIds.filter(id => !meetings.has(id));
+  for (const ids of chunk(missing)) {
+    const { data: extra, error: extraError } = await ctx.supabase.from("meetings").select(CALENDAR_MEETING_COLUMNS).in("id", ids);
+    if (extraError) throw extraError;
+    (extra as CalendarMeeting[]).forEach(m => meetings.set(m.id, m));
+  }
+  return meetings;
+}
+
+// Emails of everyone on a meeting: its participants plus the linked lead or contact
+async function loadMeetingEmails(ctx: SyncContext, meetings: CalendarMeeting[]): Promise<Map<string, Set<string>>> {
+  const contactIds = [...new Set(meetings.map(m => m.contact_id).filter((id): id is string => !!id))];
+  const leadIds = [...new Set(meetings.map(m => m.lead_id).filter((id): id is string => !!id))];
+  const contactEmails = new Map<string, string>();
+  const leadEmails = new Map<string, string>();
+
+  for (const ids of chunk(contactIds)) {
+    const { data } = await ctx.supabase.from("contacts").select("id, email").in("id", ids);
+    (data || []).forEach(c => c.email && contactEmails.set(c.id, c.email.trim().toLowerCase()));
+  }
+  for (const ids of chunk(leadIds)) {
+    const { data } = await ctx.supabase.from("leads").select("id, email").in("id", ids);
+    (data || []).forEach(l => l.email && leadEmails.set(l.id, l.email.trim().toLowerCase()));
+  }
+
+  return new Map(
+    meetings.map(m => {
+      const emails = new Set(getMeetingAttendees(m).map(a => a.email));
+      const contactEmail = m.contact_id ? contactEmails.get(m.contact_id) : undefined;
+      const leadEmail = m.lead_id ? leadEmails.get(m.lead_id) : undefined;
+      if (contactEmail) emails.add(contactEmail);
+      if (leadEmail) emails.add(leadEmail);
+      return [m.id, emails];
+    })
+  );
+}
+
+async function loadCrmPeople(ctx: SyncContext, emails: string[]): Promise<Map<string, CrmPerson>> {
+  const people = new Map<string, CrmPerson>();
+  for (const batch of chunk(emails)) {
+    // CRM emails are stored as typed; find_people_by_email compares them case-insensitively
+    const { data, error } = await ctx.supabase.rpc("find_people_by_email", { p_emails: batch });
+    if (error) throw error;
+    const matches = (data || []) as { email: string; contact_id: string | null; lead_id: string | null }[];
+    // A contact wins over a lead with the same email
+    matches.forEach(m => m.contact_id && people.set(m.email, { contactId: m.contact_id }));
+    matches.forEach(m => m.lead_id && !people.has(m.email) && people.set(m.email, { leadId: m.lead_id }));
+  }
+  return people;
+}
+
+async function saveLink(
+  ctx: SyncContext,
+  user: SyncUser,
+  event: CalendarEvent,
+  meeting: Pick<CalendarMeeting, "id" | "updated_at">,
+  crmUpdatedAt: string | null,
+  conflict?: "crm" | "external"
+) {
+  const { error } = await ctx.supabase.from("calendar_event_links").upsert(
+    {
+      meeting_id: meeting.id,
+      user_id: user.id,
+      provider: ctx.adapter.provider,
+      external_id: event.id,
+      external_uid: event.uid,
+      external_etag: event.etag,
+      external_updated_at: event.updatedAt,
+      crm_updated_at: crmUpdatedAt,
+      last_synced_at: new Date().toISOString(),
+      ...(conflict ? { last_conflict_at: new Date().toISOString(), conflict_resolution: conflict } : {}),
+    },
+    { onConflict: "provider,user_id,external_id" }
+  );
+  if (error) throw error;
+}
+
+/**
+ * Applies the external event's time, subject, join link, status and participants to the meeting.
+ * Descriptions are only taken on import: Graph exposes a shortened preview of the body.
+ * Returns the meeting's new updated_at, or the current one when nothing differed.
+ */
+async function applyExternalChanges(
+  ctx: SyncContext,
+  user: SyncUser,
+  meeting: CalendarMeeting,
+  meetingEmails: Set<string>,
+  event: CalendarEvent
+): Promise<string> {
+  const changes: Record<string, unknown> = {};
+  if (event.subject && event.subject !== meeting.subject) changes.subject = event.subject;
+  if (time(event.start) !== time(meeting.start_time)) changes.start_time = event.start;
+  if (time(event.end) !== time(meeting.end_time)) changes.end_time = event.end;
+  if (event.joinUrl && event.joinUrl !== meeting.join_url) changes.join_url = event.joinUrl;
+  if (event.cancelled && meeting.status !== "cancelled") changes.status = "cancelled";
+  if (!event.cancelled && meeting.status === "cancelled") changes.status = "scheduled";
+
+  // Participants the meeting does not already reach through its lead or contact
+  const current = getMeetingAttendees(meeting);
+  const linkedEmails = new Set([...meetingEmails].filter(email => !current.some(a => a.email === email)));
+  const external = [event.organizer, ...event.attendees]
+    .filter((a): a is CalendarAttendee => !!a && a.email !== user.email && !ctx.userEmails.has(a.email) && !linkedEmails.has(a.email))
+    .filter((a, index, all) => all.findIndex(other => other.email === a.email) === index);
+  const sameAttendees =
+    external.length === current.length && external.every(a => current.some(c => c.email === a.email));
+  if (!sameAttendees) changes.attendees = external.map(a => ({ email: a.email, name: a.name || a.email }));
+
+  if (Object.keys(changes).length === 0) return meeting.updated_at;
+
+  const { data, error } = await ctx.supabase
+    .from("meetings")
+    .update(changes)
+    .eq("id", meeting.id)
+    .select("updated_at")
+    .single();
+  if (error) throw error;
+
+  if (changes.status === "cancelled") ctx.summary.cancelled++;
+  else ctx.summary.updated++;
+  return data.updated_at as string;
+}
+
+function findMeetingByAttendees(
+  ctx: SyncContext,
+  user: SyncUser,
+  event: CalendarEvent,
+  meetings: CalendarMeeting[],
+  meetingEmails: Map<string, Set<string>>,
+  linkedMeetingIds: Set<string>
+): CalendarMeeting | null {
+  const emails = eventEmails(event, user.email).filter(email => !ctx.userEmails.has(email));
+  if (emails.length === 0) return null;
+
+  let best: CalendarMeeting | null = null;
+  let bestDistance = Infinity;
+  meetings.forEach(meeting => {
+    if (meeting.created_by !== user.id || linkedMeetingIds.has(meeting.id)) return;
+    const distance = Math.abs(time(meeting.start_time) - time(event.start));
+    if (distance > MATCH_WINDOW_MS || distance >= bestDistance) return;
+    const attendees = meetingEmails.get(meeting.id);
+    if (attendees && emails.some(email => attendees.has(email))) {
+      best = meeting;
+      bestDistance = distance;
+    }
+  });
+  return best;
+}
+
+// Meetings carrying the event's UID: imported from any user's calendar, or sent from the CRM
+async function findMeetingByUid(ctx: SyncContext, uid: string, meetings: Map<string, CalendarMeeting>) {
+  for (const meeting of meetings.values()) {
+    if (meeting.ics_uid === uid) return meeting;
+  }
+
+  const suffix = `@${getUidDomain()}`;
+  const ownId = uid.endsWith(suffix) ? uid.slice(0, -suffix.length) : null;
+  const query = ctx.supabase.from("meetings").select(CALENDAR_MEETING_COLUMNS);
+  const { data } = ownId && /^[0-9a-f-]{36}$/i.test(ownId)
+    ? await query.eq("id", ownId).maybeSingle()
+    : await query.eq("ics_uid", uid).maybeSingle();
+  return (data as CalendarMeeting | null) || null;
+}
+
+async function importEvent(
+  ctx: SyncContext,
+  user: SyncUser,
+  event: CalendarEvent,
+  people: Map<string, CrmPerson>
+): Promise<CalendarMeeting | null> {
+  const emails = eventEmails(event, user.email);
+  const matches = emails.map(email => ({ email, person: people.get(email) })).filter(m => !!m.person);
+  if (matches.length === 0) return null;
+
+  const contact = matches.find(m => m.person!.contactId);
+  const lead = contact ? undefined : matches.find(m => m.person!.leadId);
+  const primaryEmail = contact?.email || lead?.email;
+  const attendees = [event.organizer, ...event.attendees]
+    .filter((a): a is CalendarAttendee => !!a && a.email !== user.email && a.email !== primaryEmail && !ctx.userEmails.has(a.email))
+    .filter((a, index, all) => all.findIndex(other => other.email === a.email) === index)
+    .map(a => ({ email: a.email, name: a.name || a.email }));
+
+  const { data, error } = await ctx.supabase
+    .from("meetings")
+    .insert({
+      subject: event.subject || "(No subject)",
+      description: event.description,
+      start_time: event.start,
+      end_time: event.end,
+      join_url: event.joinUrl,
+      status: "scheduled",
+      attendees,
+      created_by: user.id,
+      contact_id: contact?.person?.contactId || null,
+      lead_id: lead?.person?.leadId || null,
+      ics_uid: event.uid,
+      external_source: ctx.adapter.provider,
+    })
+    .select(CALENDAR_MEETING_COLUMNS)
+    .single();
+  if (error) throw error;
+
+  ctx.summary.imported++;
+  return data as CalendarMeeting;
+}
+
+async function syncUserEvents(ctx: SyncContext, user: SyncUser, allEvents: CalendarEvent[]) {
+  // All-day entries are holidays and absences rather than meetings
+  const events = allEvents.filter(event => !event.allDay && event.start && event.end);
+  ctx.summary.events += events.length;
+
+  const { data: linkRows, error: linkError } = await ctx.supabase
+    .from("calendar_event_links")
+    .select("id, meeting_id, user_id, external_id, external_etag, external_updated_at, crm_updated_at")
+    .eq("provider", ctx.adapter.provider)
+    .eq("user_id", user.id);
+  if (linkError) throw linkError;
+  const links = (linkRows || []) as EventLink[];
+  const linkByExternalId = new Map(links.map(link => [link.external_id, link]));
+
+  const meetings = await loadMeetings(ctx, user.id, links.map(link => link.meeting_id));
+  const meetingEmails = await loadMeetingEmails(ctx, [...meetings.values()]);
+  const linkedMeetingIds = new Set(links.map(link => link.meeting_id));
+  const people = await loadCrmPeople(
+    ctx,
+    [...new Set(events.flatMap(event => eventEmails(event, user.email)))].filter(email => !ctx.userEmails.has(email))
+  );
+  const seen = new Set<string>();
+
+  for (const event of events) {
+    seen.add(event.id);
+    const link = linkByExternalId.get(event.id);
+
+    if (link) {
+      const meeting = meetings.get(link.meeting_id);
+      if (!meeting || !externalChanged(link, event)) continue;
+
+      const crmChanged = time(meeting.updated_at) > time(link.crm_updated_at);
+      if (!crmChanged) {
+        const updatedAt = await applyExternalChanges(ctx, user, meeting, meetingEmails.get(meeting.id) || new Set(), event);
+        await saveLink(ctx, user, event, meeting, updatedAt);
+        continue;
+      }
+
+      const winner: "crm" | "external" =
+        ctx.policy === "crm" || ctx.policy === "external"
+          ? ctx.policy
+          : time(event.updatedAt) > time(meeting.updated_at) ? "external" : "crm";
+      ctx.summary.conflicts++;
+      const updatedAt = winner === "external"
+        ? await applyExternalChanges(ctx, user, meeting, meetingEmails.get(meeting.id) || new Set(), event)
+        : link.crm_updated_at;
+      await saveLink(ctx, user, event, meeting, updatedAt, winner);
+      continue;
+    }
+
+    let meeting = event.uid ? await findMeetingByUid(ctx, event.uid, meetings) : null;
+    if (!meeting) {
+      meeting = findMeetingByAttendees(ctx, user, event, [...meetings.values()], meetingEmails, linkedMeetingIds);
+    }
+    if (meeting) {
+      await saveLink(ctx, user, event, meeting, meeting.updated_at);
+      linkedMeetingIds.add(meeting.id);
+      ctx.summary.linked++;
+      continue;
+    }
+
+    // Our own invitations whose meeting was deleted are not brought back
+    if (event.cancelled || event.uid?.endsWith(`@${getUidDomain()}`)) continue;
+    const imported = await importEvent(ctx, user, event, people);
+    if (imported) {
+      await saveLink(ctx, user, event, imported, imported.updated_at);
+      linkedMeetingIds.add(imported.id);
+    }
+  }
+
+  // Linked events gone from the calendar were deleted there. The user's own meeting is cancelled
+  // unless it was edited in the CRM since, in which case only the link is dropped.
+  for (const link of links) {
+    if (seen.has(link.external_id)) continue;
+    const meeting = meetings.get(link.meeting_id);
+    if (meeting?.created_by === user.id) {
+      const start = time(meeting.start_time);
+      if (start < time(ctx.from) || start > time(ctx.to)) continue;
+      if (meeting.status !== "cancelled" && time(meeting.updated_at) <= time(link.crm_updated_at)) {
+        const { error } = await ctx.supabase.from("meetings").update({ status: "cancelled" }).eq("id", meeting.id);
+        if (error) throw error;
+        ctx.summary.cancelled++;
+      }
+    }
+    await ctx.supabase.from("calendar_event_links").delete().eq("id", link.id);
+  }
+}
+
+// Shared calendars are read once; each event goes to the CRM user who organised it, or else
+// to the first CRM user attending
+function assignEvents(events: CalendarEvent[], users: SyncUser[]): Map<string, CalendarEvent[]> {
+  const byEmail = new Map(users.map(user => [user.email, user]));
+  const assigned = new Map<string, CalendarEvent[]>(users.map(user => [user.id, []]));
+  events.forEach(event => {
+    const owner =
+      (event.organizer && byEmail.get(event.organizer.email)) ||
+      event.attendees.map(a => byEmail.get(a.email)).find(Boolean);
+    if (owner) assigned.get(owner.id)!.push(event);
+  });
+  return assigned;
+}
+
+/**
+ * Reads every user's external calendar and brings the CRM meetings in line with it. A failure
+ * for one user is recorded in the summary and does not stop the others.
+ */
+export async function syncExternalCalendars(
+  supabase: SupabaseClient,
+  adapter: CalendarAdapter,
+  config: CalendarSyncConfig
+): Promise<CalendarSyncSummary> {
+  const now = Date.now();
+  const summary: CalendarSyncSummary = {
+    users: 0,
+    events: 0,
+    linked: 0,
+    imported: 0,
+    updated: 0,
+    cancelled: 0,
+    conflicts: 0,
+    errors: [],
+  };
+
+  const { data: profiles, error } = await supabase.from("profiles").select('id, "Email ID"');
+  if (error) throw error;
+  const users: SyncUser[] = (profiles || [])
+    .map(profile => ({ id: profile.id as string, email: String(profile["Email ID"] || "").trim().toLowerCase() }))
+    .filter(user => user.email.includes("@"));
+
+  const ctx: SyncContext = {
+    supabase,
+    adapter,
+    policy: config.conflict_policy || "newest",
+    from: new Date(now - PAST_DAYS * DAY_MS).toISOString(),
+    to: new Date(now + FUTURE_DAYS * DAY_MS).toISOString(),
+    summary,
+    userEmails: new Set(users.map(user => user.email)),
+  };
+  const range = { from: ctx.from, to: ctx.to };
+
+  let shared: Map<string, CalendarEvent[]> | null = null;
+  if (!adapter.perUser) {
+    shared = assignEvents(await adapter.listEvents("", range), users);
+  }
+
+  for (const user of users) {
+    try {
+      const events = shared ? shared.get(user.id) || [] : await adapter.listEvents(user.email, range);
+      await syncUserEvents(ctx, user, events);
+      summary.users++;
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : String(err);
+      console.error(`Calendar sync failed for ${user.email}:`, message);
+      summary.errors.push(`${user.email}: ${message}`);
+    }
+  }
+
+  return summary;
+}
@@ -0,0 +1,75 @@
+export type CalendarProvider = "graph" | "caldav";
+
+// Which side wins when a linked meeting changed both in the CRM and externally since the last
+// sync: the most recent change, always the CRM, or always the external calendar
+export type ConflictPolicy = "newest" | "crm" | "external";
+
+export interface CalendarAttendee {
+  email: string;
+  name?: string | null;
+}
+
+// An event read from an external calendar, normalised across providers
+export interface CalendarEvent {
+  // Provider id: the Graph event id, or the CalDAV href (plus the recurrence id of an instance)
+  id: string;
+  // iCalendar UID; our own invitations carry the meeting's UID
+  uid: string | null;
+  etag: string | null;
+  subject: string;
+  description: string | null;
+  // ISO timestamps in UTC
+  start: string;
+  end: string;
+  allDay: boolean;
+  cancelled: boolean;
+  organizer: CalendarAttendee | null;
+  attendees: CalendarAttendee[];
+  joinUrl: string | null;
+  updatedAt: string | null;
+}
+
+export interface ListEventsOptions {
+  from: string;
+  to: string;
+}
+
+export interface CalendarAdapter {
+  provider: CalendarProvider;
+  // False when every user shares one calendar, so it is read once and events are assigned to
+  // users by organizer and attendees
+  perUser: boolean;
+  // Fails early when credentials are missing or rejected
+  verify(): Promise<void>;
+  listEvents(mailbox: string, options: ListEventsOptions): Promise<CalendarEvent[]>;
+}
+
+// Config stored on the integration_settings entry. Passwords stay in function secrets.
+export interface CalendarSyncConfig {
+  provider?: CalendarProvider | null;
+  sync_frequency?: number | string | null;
+  // Graph: calendar id inside each mailbox (default calendar when empty).
+  // CalDAV: calendar collection path relative to caldav_url; {email} is replaced per user.
+  calendar_id?: string | null;
+  caldav_url?: string | null;
+  caldav_username?: string | null;
+  conflict_policy?: ConflictPolicy | null;
+}
+
+// An event written to an ICS feed or invitation
+export interface IcsEvent {
+  uid: string;
+  sequence: number;
+  start: string;
+  end: string;
+  allDay?: boolean;
+  summary: string;
+  description?: string | null;
+  location?: string | null;
+  url?: string | null;
+  organizer?: CalendarAttendee | null;
+  attendees?: CalendarAttendee[];
+  status: "CONFIRMED" | "TENTATIVE" | "CANCELLED";
+  updatedAt?: string | null;
+  categories?: string[];
+}
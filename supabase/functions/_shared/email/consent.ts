@@ -0,0 +1,45 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+// Opt-out handling shared by send-email and the unsubscribe function. The consent history and
+// suppression list live in email_consent_events and email_suppressions.
+
+// 'all' covers every email; the others only the emails sent by that feature
+export type ConsentTopic = "all" | "marketing" | "sequences";
+
+export const CONSENT_TOPICS: ConsentTopic[] = ["all", "marketing", "sequences"];
+
+export const isConsentTopic = (value: unknown): value is ConsentTopic =>
+  typeof value === "string" && (CONSENT_TOPICS as string[]).includes(value);
+
+// Opaque per-email link: the email_history id identifies the recipient without exposing the address
+export function buildUnsubscribeUrl(emailHistoryId: string): string {
+  return `${Deno.env.get("SUPABASE_URL")}/functions/v1/unsubscribe?id=${emailHistoryId}`;
+}
+
+// RFC 2369 / RFC 8058 headers so mail clients can offer a one-click unsubscribe
+export function buildListUnsubscribeHeaders(unsubscribeUrl: string): Record<string, string> {
+  return {
+    "List-Unsubscribe": `<${unsubscribeUrl}>`,
+    "List-Unsubscribe-Post": "List-Unsubscribe=One-Click",
+  };
+}
+
+export function buildUnsubscribeFooter(unsubscribeUrl: string): string {
+  return `<div style="margin-top: 24px; font-family: Arial, Helvetica, sans-serif; font-size: 8pt; color: #8a8a8a;">` +
+    `If you no longer want to receive these emails, you can <a href="${unsubscribeUrl}" style="color: #8a8a8a;">unsubscribe</a>.` +
+    `</div>`;
+}
+
+// Suppressed when the address opted out of all email, or of the topic the email belongs to
+export async function isEmailSuppressed(
+  supabase: SupabaseClient,
+  email: string,
+  topic?: ConsentTopic | null
+): Promise<boolean> {
+  const { data, error } = await supabase.rpc("is_email_suppressed", {
+    p_email: email,
+    p_topic: topic && topic !== "all" ? topic : null,
+  });
+  if (error) throw new Error(`Failed to check the suppression list: ${error.message}`);
+  return data === true;
+}
@@ -0,0 +1,67 @@
+import { buildMimeMessage, buildThreadIds, generateMessageId, parseMimeMessage } from "./mime.ts";
+import type { EmailTransport, EmailTransportConfig, InboxMessage } from "./types.ts";
+
+// Local stand-in for development and tests. Sent mail is written as .eml files to
+// <directory>/outbox; replies and bounces are read from .eml files dropped into
+// <directory>/inbox and <directory>/junk. No network access is needed.
+
+const DEFAULT_DIRECTORY = "/tmp/crm-email";
+
+async function readEmlFiles(directory: string): Promise<{ name: string; raw: string; modified: Date | null }[]> {
+  const files: { name: string; raw: string; modified: Date | null }[] = [];
+  try {
+    for await (const entry of Deno.readDir(directory)) {
+      if (!entry.isFile || !entry.name.toLowerCase().endsWith(".eml")) continue;
+      const path = `${directory}/${entry.name}`;
+      const [raw, stat] = await Promise.all([Deno.readTextFile(path), Deno.stat(path)]);
+      files.push({ name: entry.name, raw, modified: stat.mtime });
+    }
+  } catch (error) {
+    if (!(error instanceof Deno.errors.NotFound)) throw error;
+  }
+  return files;
+}
+
+export function createFileTransport(config: EmailTransportConfig): EmailTransport {
+  const directory = (config.directory || Deno.env.get("EMAIL_FILE_DIR") || DEFAULT_DIRECTORY).replace(/\/+$/, "");
+
+  return {
+    provider: "file",
+
+    async verify() {
+      await Deno.mkdir(`${directory}/outbox`, { recursive: true });
+    },
+
+    async send(message) {
+      const messageId = generateMessageId(message.from);
+      const { sent } = buildThreadIds(message, messageId);
+      const mime = buildMimeMessage(
+        { ...message, fromName: message.fromName || config.sender_name || undefined },
+        messageId
+      );
+
+      await Deno.mkdir(`${directory}/outbox`, { recursive: true });
+      const fileName = `${Date.now()}-${messageId.replace(/[^a-zA-Z0-9.@-]/g, "")}.eml`;
+      await Deno.writeTextFile(`${directory}/outbox/${fileName}`, mime);
+
+      console.log(`Email written to ${directory}/outbox/${fileName}`);
+      return sent;
+    },
+
+    async listMessages(mailbox, { since, folders = ["inbox"] }) {
+      const messages: InboxMessage[] = [];
+      const mailboxLower = mailbox.toLowerCase();
+
+      for (const folder of folders) {
+        for (const file of await readEmlFiles(`${directory}/${folder}`)) {
+          const parsed = parseMimeMessage(file.raw, file.name, folder, file.modified?.toISOString());
+          if (parsed.recipients.includes(mailboxLower) && parsed.received_at >= since) {
+            messages.push(parsed);
+          }
+        }
+      }
+
+      return messages.sort((a, b) => b.received_at.localeCompare(a.received_at));
+    },
+  };
+}
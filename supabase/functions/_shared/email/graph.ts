@@ -0,0 +1,343 @@
+import type { EmailTransport, InboxMessage, MailFolder, OutgoingEmail, SentEmail } from "./types.ts";
+
+// Microsoft Graph transport: application permissions Mail.Send (sending), Mail.ReadWrite
+// (replies with attachments) and Mail.Read (reply and bounce checks).
+
+const GRAPH_URL = "https://graph.microsoft.com/v1.0";
+
+const FOLDER_NAMES: Record<MailFolder, string> = {
+  inbox: "Inbox",
+  junk: "JunkEmail",
+};
+
+interface GraphRecipient {
+  emailAddress?: { address?: string; name?: string };
+}
+
+interface GraphMessage {
+  id: string;
+  subject?: string;
+  from?: GraphRecipient;
+  toRecipients?: GraphRecipient[];
+  ccRecipients?: GraphRecipient[];
+  receivedDateTime?: string;
+  sentDateTime?: string;
+  bodyPreview?: string;
+  body?: { content?: string };
+  internetMessageId?: string;
+  internetMessageHeaders?: { name: string; value: string }[];
+  conversationId?: string;
+}
+
+async function getAccessToken(): Promise<string> {
+  // Email-specific app registration, falling back to the shared one
+  const tenantId = Deno.env.get("AZURE_EMAIL_TENANT_ID") || Deno.env.get("AZURE_TENANT_ID");
+  const clientId = Deno.env.get("AZURE_EMAIL_CLIENT_ID") || Deno.env.get("AZURE_CLIENT_ID");
+  const clientSecret = Deno.env.get("AZURE_EMAIL_CLIENT_SECRET") || Deno.env.get("AZURE_CLIENT_SECRET");
+
+  if (!tenantId || !clientId || !clientSecret) {
+    throw new Error("Azure email credentials not configured. Please set AZURE_EMAIL_TENANT_ID, AZURE_EMAIL_CLIENT_ID, and AZURE_EMAIL_CLIENT_SECRET.");
+  }
+
+  const response = await fetch(`https://login.microsoftonline.com/${tenantId}/oauth2/v2.0/token`, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: new URLSearchParams({
+      client_id: clientId,
+      client_secret: clientSecret,
+      scope: "https://graph.microsoft.com/.default",
+      grant_type: "client_credentials",
+    }),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error("Failed to get access token:", errorText);
+    throw new Error(`Failed to get access token: ${response.status} ${errorText}`);
+  }
+
+  const data = await response.json();
+  return data.access_token as string;
+}
+
+const toRecipients = (message: OutgoingEmail) => [
+  {
+    emailAddress: {
+      address: message.to,
+      name: message.toName || message.to,
+    },
+  },
+];
+
+const toFileAttachments = (message: OutgoingEmail) =>
+  message.attachments?.map((att) => ({
+    "@odata.type": "#microsoft.graph.fileAttachment",
+    name: att.name,
+    contentType: att.contentType,
+    contentBytes: att.contentBytes,
+  })) || [];
+
+export function createGraphTransport(): EmailTransport {
+  let tokenPromise: Promise<string> | null = null;
+
+  const graphFetch = async (path: string, init: RequestInit = {}) => {
+    tokenPromise = tokenPromise || getAccessToken();
+    const token = await tokenPromise;
+    return fetch(`${GRAPH_URL}${path}`, {
+      ...init,
+      headers: {
+        Authorization: `Bearer ${token}`,
+        ...(init.body ? { "Content-Type": "application/json" } : {}),
+        ...init.headers,
+      },
+    });
+  };
+
+  const graphPost = async (path: string, payload: unknown, action: string) => {
+    const response = await graphFetch(path, {
+      method: "POST",
+      body: payload === undefined ? undefined : JSON.stringify(payload),
+    });
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error(`Failed to ${action}:`, errorText);
+      throw new Error(`Failed to ${action}: ${response.status} ${errorText}`);
+    }
+    return response;
+  };
+
+  // Graph only accepts custom "X-" internet headers, so message.headers (List-Unsubscribe) is not
+  // sent from here; the unsubscribe link in the body still is
+  const sendMail = async (message: OutgoingEmail) => {
+    const attachments = toFileAttachments(message);
+    await graphPost(`/users/${message.from}/sendMail`, {
+      message: {
+        subject: message.subject,
+        body: { contentType: "HTML", content: message.html },
+        toRecipients: toRecipients(message),
+        ...(attachments.length > 0 ? { attachments } : {}),
+      },
+      saveToSentItems: true,
+    }, "send email");
+    console.log(`Email sent via sendMail${attachments.length ? ` with ${attachments.length} attachment(s)` : ""}`);
+  };
+
+  // POST /messages/{id}/reply keeps the Outlook thread and only needs Mail.Send
+  const sendReply = async (message: OutgoingEmail, originalId: string) => {
+    const mailbox = message.from;
+    if (!message.attachments?.length) {
+      await graphPost(`/users/${mailbox}/messages/${originalId}/reply`, {
+        message: {
+          body: { contentType: "HTML", content: message.html },
+          toRecipients: toRecipients(message),
+        },
+      }, "send reply");
+      console.log("Reply sent via /reply endpoint");
+      return;
+    }
+
+    // Attachments need a draft (createReply), which requires Mail.ReadWrite
+    const draftResponse = await graphPost(`/users/${mailbox}/messages/${originalId}/createReply`, { comment: "" }, "create reply draft");
+    const draft = await draftResponse.json();
+
+    const updateResponse = await graphFetch(`/users/${mailbox}/messages/${draft.id}`, {
+      method: "PATCH",
+      body: JSON.stringify({
+        body: { contentType: "HTML", content: message.html },
+        toRecipients: toRecipients(message),
+      }),
+    });
+    if (!updateResponse.ok) {
+      const errorText = await updateResponse.text();
+      console.error("Failed to update reply draft:", errorText);
+      throw new Error(`Failed to update reply draft: ${updateResponse.status} ${errorText}`);
+    }
+
+    for (const attachment of toFileAttachments(message)) {
+      const attachResponse = await graphFetch(`/users/${mailbox}/messages/${draft.id}/attachments`, {
+        method: "POST",
+        body: JSON.stringify(attachment),
+      });
+      if (!attachResponse.ok) {
+        console.warn(`Failed to add attachment ${attachment.name}:`, await attachResponse.text());
+      }
+    }
+
+    await graphPost(`/users/${mailbox}/messages/${draft.id}/send`, undefined, "send reply");
+    console.log("Reply with attachments sent via createReply/send");
+  };
+
+  // Graph id of the message being answered: by internetMessageId, then by conversation,
+  // looking in all messages and then Sent Items explicitly
+  const findOriginalMessage = async (mailbox: string, replyTo: NonNullable<OutgoingEmail["replyTo"]>) => {
+    const filters: URLSearchParams[] = [];
+    if (replyTo.messageId) {
+      filters.push(new URLSearchParams({
+        "$filter": `internetMessageId eq '${replyTo.messageId.replace(/'/g, "''")}'`,
+        "$select": "id,internetMessageId,conversationId",
+      }));
+    }
+    if (replyTo.conversationId) {
+      filters.push(new URLSearchParams({
+        "$filter": `conversationId eq '${replyTo.conversationId.replace(/'/g, "''")}'`,
+        "$orderby": "receivedDateTime desc",
+        "$top": "1",
+        "$select": "id,internetMessageId,conversationId",
+      }));
+    }
+
+    for (const qs of filters) {
+      for (const path of [`/users/${mailbox}/messages`, `/users/${mailbox}/mailFolders/SentItems/messages`]) {
+        const response = await graphFetch(`${path}?${qs.toString()}`);
+        if (!response.ok) {
+          console.warn(`Failed to search ${path}: ${response.status}`);
+          continue;
+        }
+        const data = await response.json();
+        if (data.value?.length > 0) {
+          console.log(`Found original message: ${data.value[0].id}`);
+          return data.value[0].id as string;
+        }
+      }
+    }
+    return null;
+  };
+
+  // sendMail returns no identifiers, so the sent copy is looked up in Sent Items
+  const captureSentIds = async (message: OutgoingEmail): Promise<SentEmail> => {
+    const normalizeSubject = (s: string) =>
+      s.replace(/\{\{[^}]+\}\}/g, "").replace(/\s+/g, " ").trim().toLowerCase();
+    const maxRetries = 4;
+
+    for (let attempt = 1; attempt <= maxRetries; attempt++) {
+      await new Promise((resolve) => setTimeout(resolve, 1000 + attempt * 1000));
+      try {
+        const response = await graphFetch(
+          `/users/${message.from}/mailFolders/SentItems/messages?$top=10&$orderby=sentDateTime desc&$select=internetMessageId,subject,sentDateTime,toRecipients,conversationId`
+        );
+        if (!response.ok) {
+          console.warn(`Failed to fetch sent items (attempt ${attempt}): ${response.status}`);
+          continue;
+        }
+
+        const messages: GraphMessage[] = (await response.json()).value || [];
+        const recent = messages.filter((msg) => Date.now() - new Date(msg.sentDateTime || 0).getTime() < 90000);
+        console.log(`Attempt ${attempt}: Found ${recent.length} recent messages in sent folder`);
+
+        const subject = normalizeSubject(message.subject);
+        const match = recent.length === 1
+          ? recent[0]
+          : recent.find((msg) => {
+              const recipientMatch = (msg.toRecipients || []).some(
+                (r) => r.emailAddress?.address?.toLowerCase() === message.to.toLowerCase()
+              );
+              const msgSubject = normalizeSubject(msg.subject || "");
+              const subjectSimilar =
+                subject.substring(0, 15) === msgSubject.substring(0, 15) ||
+                subject.includes(msgSubject.substring(0, 15)) ||
+                msgSubject.includes(subject.substring(0, 15));
+              return recipientMatch && (subjectSimilar || recent.length <= 2);
+            }) || recent.find((msg) => msg.subject === message.subject);
+
+        if (match?.internetMessageId) {
+          return { messageId: match.internetMessageId, conversationId: match.conversationId || null };
+        }
+      } catch (error) {
+        console.warn(`Failed to capture Message-ID (attempt ${attempt}):`, error);
+      }
+    }
+
+    console.warn(`Could not capture Message-ID for email to ${message.to} after ${maxRetries} attempts`);
+    return { messageId: null, conversationId: null };
+  };
+
+  return {
+    provider: "graph",
+
+    async verify() {
+      tokenPromise = tokenPromise || getAccessToken();
+      await tokenPromise;
+    },
+
+    async send(message, options = {}) {
+      let originalId: string | null = null;
+      if (message.replyTo && (message.replyTo.messageId || message.replyTo.conversationId)) {
+        try {
+          originalId = await findOriginalMessage(message.from, message.replyTo);
+        } catch (error) {
+          console.warn("Error searching for original message:", error);
+        }
+        if (!originalId) console.log("Original message not found, sending reply as a new email");
+      }
+
+      if (originalId) {
+        try {
+          await sendReply(message, originalId);
+        } catch (error) {
+          const errorMsg = error instanceof Error ? error.message : "";
+          if (!/403|AccessDenied|Forbidden/.test(errorMsg)) throw error;
+
+          console.error("Graph reply returned AccessDenied (403): /reply needs Mail.Send, replies with attachments also need Mail.ReadWrite.");
+          console.warn("Falling back to sendMail - the reply may NOT appear in the same Outlook thread.");
+          await sendMail(message);
+        }
+      } else {
+        await sendMail(message);
+      }
+
+      return options.captureIds
+        ? captureSentIds(message)
+        : { messageId: null, conversationId: null };
+    },
+
+    async listMessages(mailbox, { since, folders = ["inbox"], includeBody = false }) {
+      const messages: InboxMessage[] = [];
+      const select = [
+        "id", "subject", "from", "toRecipients", "ccRecipients", "receivedDateTime", "bodyPreview",
+        "internetMessageId", "internetMessageHeaders", "conversationId",
+        ...(includeBody ? ["body"] : []),
+      ].join(",");
+
+      for (const folder of folders) {
+        const response = await graphFetch(
+          `/users/${encodeURIComponent(mailbox)}/mailFolders/${FOLDER_NAMES[folder]}/messages?$filter=receivedDateTime ge ${since}&$select=${select}&$top=100&$orderby=receivedDateTime desc`
+        );
+        if (!response.ok) {
+          const errorText = await response.text();
+          console.error(`Failed to fetch ${FOLDER_NAMES[folder]} for ${mailbox}: ${response.status} - ${errorText.substring(0, 200)}`);
+          if (response.status === 403) {
+            console.error("PERMISSION ERROR: The Azure app needs 'Mail.Read' APPLICATION permission with admin consent.");
+          }
+          continue;
+        }
+
+        const data: GraphMessage[] = (await response.json()).value || [];
+        for (const msg of data) {
+          const header = (name: string) =>
+            msg.internetMessageHeaders?.find((h) => h.name.toLowerCase() === name)?.value || null;
+          const inReplyTo = header("in-reply-to");
+
+          messages.push({
+            id: msg.id,
+            folder,
+            from_email: msg.from?.emailAddress?.address || "",
+            from_name: msg.from?.emailAddress?.name || null,
+            recipients: [...(msg.toRecipients || []), ...(msg.ccRecipients || [])]
+              .map((r) => (r.emailAddress?.address || "").toLowerCase())
+              .filter(Boolean),
+            subject: msg.subject || "",
+            body: msg.body?.content || "",
+            body_preview: (msg.bodyPreview || "").substring(0, 500),
+            received_at: msg.receivedDateTime || new Date().toISOString(),
+            message_id: msg.internetMessageId || null,
+            in_reply_to: inReplyTo ? inReplyTo.trim() : null,
+            references: header("references")?.split(/\s+/).filter(Boolean) || [],
+            conversation_id: msg.conversationId || null,
+          });
+        }
+      }
+
+      return messages;
+    },
+  };
+}
@@ -0,0 +1,73 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { createFileTransport } from "./file.ts";
+import { createGraphTransport } from "./graph.ts";
+import { createSmtpTransport } from "./smtp.ts";
+import type { EmailProvider, EmailTransport, EmailTransportConfig } from "./types.ts";
+
+export type {
+  EmailAttachment,
+  EmailProvider,
+  EmailTransport,
+  EmailTransportConfig,
+  InboxMessage,
+  MailFolder,
+  OutgoingEmail,
+  SentEmail,
+} from "./types.ts";
+export { buildTrackedHtml } from "./tracking.ts";
+export {
+  buildListUnsubscribeHeaders,
+  buildUnsubscribeUrl,
+  CONSENT_TOPICS,
+  isConsentTopic,
+  isEmailSuppressed,
+  type ConsentTopic,
+} from "./consent.ts";
+export { loadTemplateContext, type PersonalizationTarget } from "./personalize.ts";
+export { renderTemplate, validateTemplate, type TemplateContext } from "./templateEngine.ts";
+
+// integration_settings entry the email functions read their provider from
+export const EMAIL_INTEGRATION_NAME = "Email (SMTP)";
+
+const PROVIDERS: EmailProvider[] = ["graph", "smtp", "file"];
+
+export function createEmailTransport(config: EmailTransportConfig): EmailTransport {
+  switch (config.provider) {
+    case "smtp":
+      return createSmtpTransport(config);
+    case "file":
+      return createFileTransport(config);
+    default:
+      return createGraphTransport();
+  }
+}
+
+/**
+ * Transport chosen on the email integration entry. A disabled or unconfigured entry keeps
+ * Microsoft Graph, which was the only transport before the entry was configurable.
+ * EMAIL_PROVIDER overrides the entry, e.g. EMAIL_PROVIDER=file to run the pipeline offline.
+ */
+export async function getEmailTransport(
+  supabase: SupabaseClient,
+  integrationName = EMAIL_INTEGRATION_NAME
+): Promise<EmailTransport> {
+  const { data, error } = await supabase
+    .from("integration_settings")
+    .select("is_enabled, config")
+    .eq("integration_name", integrationName)
+    .maybeSingle();
+
+  if (error) {
+    console.warn(`Could not load ${integrationName} settings, using Microsoft Graph:`, error.message);
+  }
+
+  const config: EmailTransportConfig = data?.is_enabled ? { ...(data.config || {}) } : {};
+  const override = Deno.env.get("EMAIL_PROVIDER") as EmailProvider | undefined;
+  if (override && PROVIDERS.includes(override)) {
+    config.provider = override;
+  }
+
+  const transport = createEmailTransport(config);
+  console.log(`Using ${transport.provider} email transport`);
+  return transport;
+}
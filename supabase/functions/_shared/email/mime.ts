@@ -0,0 +1,263 @@
+import type { InboxMessage, MailFolder, OutgoingEmail, SentEmail } from "./types.ts";
+
+// RFC 5322 message building and parsing for the SMTP and file transports. Graph builds
+// and parses messages itself; these helpers produce the same identifiers it would.
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function fromBase64(value: string): Uint8Array {
+  const binary = atob(value.replace(/[^A-Za-z0-9+/=]/g, ""));
+  return Uint8Array.from(binary, (c) => c.charCodeAt(0));
+}
+
+// Base64 wrapped at 76 characters per line
+function wrapBase64(value: string): string {
+  return value.replace(/.{1,76}/g, "$&\r\n").trimEnd();
+}
+
+// RFC 2047 encoded-word for non-ASCII header values
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${toBase64(encoder.encode(value))}?=`;
+}
+
+function formatAddress(email: string, name?: string | null): string {
+  if (!name || name === email) return `<${email}>`;
+  const encoded = encodeHeader(name);
+  // Encoded words must not be quoted
+  return encoded === name ? `"${name.replace(/"/g, '\\"')}" <${email}>` : `${encoded} <${email}>`;
+}
+
+export function generateMessageId(from: string): string {
+  const domain = from.split("@")[1] || "localhost";
+  return `<${crypto.randomUUID()}@${domain}>`;
+}
+
+// Message-IDs are stored with angle brackets, the way Graph reports internetMessageId
+export function normalizeMessageId(value: string | null | undefined): string | null {
+  const trimmed = value?.trim();
+  if (!trimmed) return null;
+  return trimmed.startsWith("<") ? trimmed : `<${trimmed}>`;
+}
+
+/**
+ * Threading headers for a new message. The conversation of a thread is the Message-ID of
+ * its first email, which is also the first References entry of every reply.
+ */
+export function buildThreadIds(message: OutgoingEmail, messageId: string) {
+  const parentId = normalizeMessageId(message.replyTo?.messageId);
+  const conversationId = normalizeMessageId(message.replyTo?.conversationId) || parentId || messageId;
+  const references = [...new Set([conversationId, parentId].filter((id): id is string => !!id && id !== messageId))];
+
+  return {
+    sent: { messageId, conversationId } as SentEmail,
+    inReplyTo: parentId,
+    references,
+  };
+}
+
+export function buildMimeMessage(message: OutgoingEmail, messageId: string): string {
+  const { inReplyTo, references } = buildThreadIds(message, messageId);
+  const headers = [
+    `From: ${formatAddress(message.from, message.fromName)}`,
+    `To: ${formatAddress(message.to, message.toName)}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: ${messageId}`,
+    "MIME-Version: 1.0",
+  ];
+  if (inReplyTo) headers.push(`In-Reply-To: ${inReplyTo}`);
+  if (references.length > 0) headers.push(`References: ${references.join(" ")}`);
+  for (const [name, value] of Object.entries(message.headers || {})) {
+    headers.push(`${name}: ${value}`);
+  }
+
+  const htmlPart = [
+    'Content-Type: text/html; charset="UTF-8"',
+    "Content-Transfer-Encoding: base64",
+    "",
+    wrapBase64(toBase64(encoder.encode(message.html))),
+  ].join("\r\n");
+
+  if (!message.attachments?.length) {
+    return [...headers, htmlPart].join("\r\n");
+  }
+
+  const boundary = `----=_Part_${crypto.randomUUID()}`;
+  const parts = [
+    htmlPart,
+    ...message.attachments.map((att) => [
+      `Content-Type: ${att.contentType}; name="${encodeHeader(att.name)}"`,
+      `Content-Disposition: attachment; filename="${encodeHeader(att.name)}"`,
+      "Content-Transfer-Encoding: base64",
+      "",
+      wrapBase64(att.contentBytes.replace(/\s/g, "")),
+    ].join("\r\n")),
+  ];
+
+  return [
+    ...headers,
+    `Content-Type: multipart/mixed; boundary="${boundary}"`,
+    "",
+    ...parts.map((part) => `--${boundary}\r\n${part}`),
+    `--${boundary}--`,
+    "",
+  ].join("\r\n");
+}
+
+interface MimeEntity {
+  headers: Map<string, string>;
+  body: string;
+}
+
+function splitEntity(raw: string): MimeEntity {
+  const match = raw.match(/\r?\n\r?\n/);
+  const headerText = match ? raw.slice(0, match.index) : raw;
+  const body = match ? raw.slice(match.index! + match[0].length) : "";
+
+  const headers = new Map<string, string>();
+  // Continuation lines start with whitespace
+  for (const line of headerText.replace(/\r?\n[ \t]+/g, " ").split(/\r?\n/)) {
+    const colon = line.indexOf(":");
+    if (colon <= 0) continue;
+    const name = line.slice(0, colon).trim().toLowerCase();
+    if (!headers.has(name)) headers.set(name, line.slice(colon + 1).trim());
+  }
+  return { headers, body };
+}
+
+function headerParam(value: string, param: string): string | null {
+  const match = value.match(new RegExp(`${param}\\s*=\\s*"?([^";]+)"?`, "i"));
+  return match ? match[1] : null;
+}
+
+function decodeQuotedPrintable(value: string): Uint8Array {
+  const text = value.replace(/=\r?\n/g, "");
+  const bytes: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === "=" && /^[0-9A-F]{2}$/i.test(text.slice(i + 1, i + 3))) {
+      bytes.push(parseInt(text.slice(i + 1, i + 3), 16));
+      i += 2;
+    } else {
+      bytes.push(...encoder.encode(text[i]));
+    }
+  }
+  return new Uint8Array(bytes);
+}
+
+function decodeBody(entity: MimeEntity): string {
+  const encoding = (entity.headers.get("content-transfer-encoding") || "").toLowerCase();
+  const charset = headerParam(entity.headers.get("content-type") || "", "charset") || "utf-8";
+  let bytes: Uint8Array;
+  if (encoding === "base64") {
+    bytes = fromBase64(entity.body);
+  } else if (encoding === "quoted-printable") {
+    bytes = decodeQuotedPrintable(entity.body);
+  } else {
+    return entity.body;
+  }
+  try {
+    return new TextDecoder(charset).decode(bytes);
+  } catch {
+    return decoder.decode(bytes);
+  }
+}
+
+function decodeHeader(value: string): string {
+  return value.replace(/=\?([^?]+)\?([BQ])\?([^?]*)\?=\s*/gi, (_match, charset, encoding, text) => {
+    const bytes = encoding.toUpperCase() === "B"
+      ? fromBase64(text)
+      : decodeQuotedPrintable(text.replace(/_/g, " "));
+    try {
+      return new TextDecoder(charset).decode(bytes);
+    } catch {
+      return decoder.decode(bytes);
+    }
+  });
+}
+
+// First text/html part, falling back to text/plain, searching nested multiparts
+function findTextBody(entity: MimeEntity): { html: string | null; text: string | null } {
+  const contentType = (entity.headers.get("content-type") || "text/plain").toLowerCase();
+
+  if (contentType.startsWith("multipart/")) {
+    const boundary = headerParam(entity.headers.get("content-type") || "", "boundary");
+    if (!boundary) return { html: null, text: entity.body };
+
+    const result: { html: string | null; text: string | null } = { html: null, text: null };
+    const parts = entity.body.split(`--${boundary}`).slice(1);
+    for (const part of parts) {
+      if (part.startsWith("--")) break;
+      const found = findTextBody(splitEntity(part.replace(/^\r?\n/, "")));
+      result.html = result.html ?? found.html;
+      result.text = result.text ?? found.text;
+    }
+    return result;
+  }
+
+  if (/attachment/i.test(entity.headers.get("content-disposition") || "")) {
+    return { html: null, text: null };
+  }
+  if (contentType.startsWith("text/html")) return { html: decodeBody(entity), text: null };
+  if (contentType.startsWith("text/")) return { html: null, text: decodeBody(entity) };
+  return { html: null, text: null };
+}
+
+function parseAddressList(value: string): { email: string; name: string | null }[] {
+  return value
+    .split(/,(?=(?:[^"]*"[^"]*")*[^"]*$)/)
+    .map((entry) => {
+      const angle = entry.match(/^\s*(.*?)\s*<([^>]+)>\s*$/);
+      if (angle) {
+        const name = decodeHeader(angle[1].replace(/^"|"$/g, "")).trim();
+        return { email: angle[2].trim(), name: name || null };
+      }
+      return { email: entry.trim(), name: null };
+    })
+    .filter((address) => address.email.includes("@"));
+}
+
+function parseMessageIds(value: string | undefined): string[] {
+  return (value?.match(/<[^>]+>/g) || []).map((id) => id.trim());
+}
+
+export function parseMimeMessage(raw: string, id: string, folder: MailFolder, receivedAt?: string): InboxMessage {
+  const entity = splitEntity(raw);
+  const header = (name: string) => entity.headers.get(name);
+
+  const from = parseAddressList(header("from") || "")[0];
+  const recipients = [...parseAddressList(header("to") || ""), ...parseAddressList(header("cc") || "")]
+    .map((address) => address.email.toLowerCase());
+  const { html, text } = findTextBody(entity);
+  const body = html ?? text ?? "";
+
+  const messageId = normalizeMessageId(parseMessageIds(header("message-id"))[0]);
+  const inReplyTo = normalizeMessageId(parseMessageIds(header("in-reply-to"))[0]);
+  const references = parseMessageIds(header("references"));
+  const date = header("date") ? new Date(header("date")!) : null;
+
+  return {
+    id: messageId || id,
+    folder,
+    from_email: from?.email || "",
+    from_name: from?.name || null,
+    recipients,
+    subject: decodeHeader(header("subject") || ""),
+    body,
+    body_preview: body.replace(/<[^>]*>/g, " ").replace(/\s+/g, " ").trim().substring(0, 500),
+    received_at: receivedAt || (date && !isNaN(date.getTime()) ? date : new Date()).toISOString(),
+    message_id: messageId,
+    in_reply_to: inReplyTo,
+    references,
+    // Matches buildThreadIds: the first message of the thread identifies the conversation
+    conversation_id: references[0] || inReplyTo || messageId,
+  };
+}
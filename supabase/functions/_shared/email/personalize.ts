@@ -0,0 +1,74 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { buildTemplateContext, type TemplateContext, type TemplateRecords } from "./templateEngine.ts";
+
+// Loads the records behind a recipient for emails sent by the server (sequences, bulk jobs).
+// The app builds the same context in src/hooks/useTemplateContext.tsx.
+
+export interface PersonalizationTarget {
+  recipient_email: string;
+  recipient_name: string | null;
+  lead_id?: string | null;
+  contact_id?: string | null;
+  account_id?: string | null;
+}
+
+export async function loadTemplateContext(
+  supabase: SupabaseClient,
+  target: PersonalizationTarget,
+  senderId: string | null
+): Promise<TemplateContext> {
+  const records: TemplateRecords = {
+    recipient: { name: target.recipient_name, email: target.recipient_email },
+  };
+
+  if (target.lead_id) {
+    const { data } = await supabase.from("leads").select("*").eq("id", target.lead_id).maybeSingle();
+    records.lead = data;
+  } else if (target.contact_id) {
+    const { data } = await supabase.from("contacts").select("*").eq("id", target.contact_id).maybeSingle();
+    records.contact = data;
+  }
+
+  const subject = records.lead || records.contact;
+  const accountId = target.account_id || (subject?.account_id as string | null) || null;
+  if (accountId) {
+    const { data } = await supabase.from("accounts").select("*").eq("id", accountId).maybeSingle();
+    records.account = data;
+  }
+
+  const dealFilters = [
+    target.contact_id && `contact_id.eq.${target.contact_id}`,
+    target.lead_id && `source_lead_id.eq.${target.lead_id}`,
+    accountId && `account_id.eq.${accountId}`,
+  ].filter(Boolean);
+  if (dealFilters.length > 0) {
+    const [{ data }, { data: closedStages }] = await Promise.all([
+      supabase
+        .from("deals")
+        .select("deal_name, stage, total_contract_value, currency_type, expected_closing_date, probability, project_name")
+        .or(dealFilters.join(","))
+        .order("modified_at", { ascending: false, nullsFirst: false })
+        .limit(20),
+      supabase.from("pipeline_stages").select("stage_name").or("is_won_stage.eq.true,is_lost_stage.eq.true"),
+    ]);
+    records.deals = data;
+    records.closedStages = closedStages?.length ? closedStages.map((s) => s.stage_name as string) : null;
+  }
+
+  const ownerId = (subject?.contact_owner || records.account?.account_owner) as string | null | undefined;
+  if (ownerId) {
+    const { data } = await supabase.from("profiles").select("full_name, \"Email ID\", phone").eq("id", ownerId).maybeSingle();
+    records.owner = data;
+  }
+
+  if (senderId) {
+    const [{ data: sender }, { data: preferences }] = await Promise.all([
+      supabase.from("profiles").select("full_name, \"Email ID\", phone").eq("id", senderId).maybeSingle(),
+      supabase.from("user_preferences").select("email_signature").eq("user_id", senderId).maybeSingle(),
+    ]);
+    records.sender = sender;
+    records.signature = preferences?.email_signature;
+  }
+
+  return buildTemplateContext(records);
+}
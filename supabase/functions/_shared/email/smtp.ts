@@ -0,0 +1,205 @@
+import { MailSocket } from "./socket.ts";
+import { buildMimeMessage, buildThreadIds, generateMessageId, parseMimeMessage } from "./mime.ts";
+import type { EmailTransport, EmailTransportConfig, InboxMessage, MailFolder } from "./types.ts";
+
+// Generic SMTP sending with IMAP for reading replies and bounces.
+// Credentials: SMTP_USERNAME/SMTP_PASSWORD, and IMAP_USERNAME/IMAP_PASSWORD when they differ.
+
+// Partial fetch keeps large attachments out of memory; headers and text parts come first
+const IMAP_FETCH_BYTES = 256 * 1024;
+const IMAP_MAX_MESSAGES = 100;
+const MONTHS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+const asBoolean = (value: unknown) => value === true || value === "true";
+
+async function expectReply(socket: MailSocket, expected: number): Promise<string[]> {
+  const lines: string[] = [];
+  let line: string;
+  do {
+    line = await socket.readLine();
+    lines.push(line);
+  } while (line[3] === "-");
+
+  const code = Number(line.slice(0, 3));
+  if (code !== expected) {
+    throw new Error(`SMTP error: expected ${expected}, got ${lines.join(" | ")}`);
+  }
+  return lines;
+}
+
+async function smtpCommand(socket: MailSocket, command: string, expected: number): Promise<string[]> {
+  await socket.write(`${command}\r\n`);
+  return expectReply(socket, expected);
+}
+
+function quoteImap(value: string): string {
+  return `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+}
+
+interface ImapResponse {
+  text: string;
+  literals: string[];
+}
+
+class ImapSession {
+  private tag = 0;
+
+  constructor(private socket: MailSocket) {}
+
+  // Untagged responses of a command, with literals ({n}) read alongside their line
+  async command(command: string): Promise<ImapResponse[]> {
+    const tag = `A${++this.tag}`;
+    await this.socket.write(`${tag} ${command}\r\n`);
+
+    const responses: ImapResponse[] = [];
+    let current: ImapResponse | null = null;
+    while (true) {
+      const line = await this.socket.readLine();
+      if (!current) {
+        if (line.startsWith(`${tag} `)) {
+          if (!/^\S+ OK/i.test(line)) throw new Error(`IMAP error: ${line}`);
+          return responses;
+        }
+        current = { text: line, literals: [] };
+      } else {
+        current.text += line;
+      }
+
+      const literal = line.match(/\{(\d+)\}$/);
+      if (literal) {
+        current.literals.push(await this.socket.readBytes(Number(literal[1])));
+        continue;
+      }
+      responses.push(current);
+      current = null;
+    }
+  }
+}
+
+export function createSmtpTransport(config: EmailTransportConfig): EmailTransport {
+  const host = config.host || Deno.env.get("SMTP_HOST");
+  const port = Number(config.port || 587);
+  // Port 465 is implicit TLS; other ports upgrade with STARTTLS when offered
+  const secure = asBoolean(config.secure) || port === 465;
+  const allowInsecureAuth = asBoolean(config.allow_insecure_auth);
+  const username = config.username || Deno.env.get("SMTP_USERNAME") || "";
+  const password = Deno.env.get("SMTP_PASSWORD") || "";
+
+  const imapHost = config.imap_host || Deno.env.get("IMAP_HOST") || host;
+  const imapPort = Number(config.imap_port || 993);
+  const imapUsername = Deno.env.get("IMAP_USERNAME") || username;
+  const imapPassword = Deno.env.get("IMAP_PASSWORD") || password;
+  const folderNames: Record<MailFolder, string> = {
+    inbox: "INBOX",
+    junk: config.junk_folder || "Junk",
+  };
+
+  const openImap = async () => {
+    const socket = await MailSocket.open(imapHost!, imapPort, true);
+    await socket.readLine(); // greeting
+    const session = new ImapSession(socket);
+    await session.command(`LOGIN ${quoteImap(imapUsername)} ${quoteImap(imapPassword)}`);
+    return { socket, session };
+  };
+
+  return {
+    provider: "smtp",
+
+    async verify() {
+      if (!host) throw new Error("SMTP host not configured. Set it on the email integration or in SMTP_HOST.");
+    },
+
+    async send(message) {
+      if (!host) throw new Error("SMTP host not configured");
+      const messageId = generateMessageId(message.from);
+      const { sent } = buildThreadIds(message, messageId);
+      const mime = buildMimeMessage(
+        { ...message, fromName: message.fromName || config.sender_name || undefined },
+        messageId
+      );
+
+      const socket = await MailSocket.open(host, port, secure);
+      try {
+        await expectReply(socket, 220);
+        const greeting = await smtpCommand(socket, `EHLO ${message.from.split("@")[1] || "localhost"}`, 250);
+        let encrypted = secure;
+        if (!secure && greeting.some((line) => /STARTTLS/i.test(line))) {
+          await smtpCommand(socket, "STARTTLS", 220);
+          await socket.upgrade();
+          await smtpCommand(socket, `EHLO ${message.from.split("@")[1] || "localhost"}`, 250);
+          encrypted = true;
+        }
+        if (username) {
+          // AUTH PLAIN is only base64: without TLS the password would cross the network readable
+          if (!encrypted && !allowInsecureAuth) {
+            throw new Error(
+              `SMTP server ${host} does not offer STARTTLS; refusing to send the login unencrypted. ` +
+                "Use SSL/TLS or allow plaintext login on the email integration."
+            );
+          }
+          await smtpCommand(socket, `AUTH PLAIN ${btoa(`\0${username}\0${password}`)}`, 235);
+        }
+        await smtpCommand(socket, `MAIL FROM:<${message.from}>`, 250);
+        await smtpCommand(socket, `RCPT TO:<${message.to}>`, 250);
+        await smtpCommand(socket, "DATA", 354);
+        // Dot-stuffing: a line starting with "." gets a second one
+        await socket.write(`${mime.replace(/\r?\n/g, "\r\n").replace(/^\./gm, "..")}\r\n.\r\n`);
+        await expectReply(socket, 250);
+        await smtpCommand(socket, "QUIT", 221).catch(() => undefined);
+      } finally {
+        socket.close();
+      }
+
+      console.log(`Email sent via SMTP (${host}) with Message-ID ${messageId}`);
+      return sent;
+    },
+
+    async listMessages(mailbox, { since, folders = ["inbox"] }) {
+      const messages: InboxMessage[] = [];
+      const mailboxLower = mailbox.toLowerCase();
+      const sinceDate = new Date(since);
+      const imapSince = `${sinceDate.getUTCDate()}-${MONTHS[sinceDate.getUTCMonth()]}-${sinceDate.getUTCFullYear()}`;
+
+      const { socket, session } = await openImap();
+      try {
+        for (const folder of folders) {
+          try {
+            await session.command(`EXAMINE ${quoteImap(folderNames[folder])}`);
+            const search = await session.command(`UID SEARCH SINCE ${imapSince}`);
+            const uids = search
+              .flatMap((r) => r.text.match(/^\* SEARCH(.*)$/i)?.[1].trim().split(/\s+/) || [])
+              .filter(Boolean)
+              .slice(-IMAP_MAX_MESSAGES);
+            if (uids.length === 0) continue;
+
+            const fetched = await session.command(`UID FETCH ${uids.join(",")} (UID INTERNALDATE BODY.PEEK[]<0.${IMAP_FETCH_BYTES}>)`);
+            for (const response of fetched) {
+              if (response.literals.length === 0) continue;
+              const uid = response.text.match(/UID (\d+)/)?.[1] || "";
+              const internalDate = response.text.match(/INTERNALDATE "([^"]+)"/)?.[1];
+              const receivedAt = internalDate ? new Date(internalDate.replace(/^(\d+)-(\w+)-(\d+)/, "$1 $2 $3")) : null;
+              const parsed = parseMimeMessage(
+                response.literals[0],
+                `imap:${folderNames[folder]}:${uid}`,
+                folder,
+                receivedAt && !isNaN(receivedAt.getTime()) ? receivedAt.toISOString() : undefined
+              );
+
+              // One IMAP login can receive for several addresses; keep this mailbox's mail
+              if (parsed.recipients.includes(mailboxLower) && parsed.received_at >= sinceDate.toISOString()) {
+                messages.push(parsed);
+              }
+            }
+          } catch (error) {
+            console.error(`Error reading IMAP folder ${folderNames[folder]} for ${mailbox}:`, error);
+          }
+        }
+        await session.command("LOGOUT").catch(() => undefined);
+      } finally {
+        socket.close();
+      }
+
+      return messages.sort((a, b) => b.received_at.localeCompare(a.received_at));
+    },
+  };
+}
@@ -0,0 +1,68 @@
+// Line-oriented TCP/TLS connection shared by the SMTP and IMAP clients
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+export class MailSocket {
+  private buffer = new Uint8Array(0);
+
+  private constructor(private conn: Deno.Conn, private hostname: string) {}
+
+  static async open(hostname: string, port: number, secure: boolean): Promise<MailSocket> {
+    const conn = secure
+      ? await Deno.connectTls({ hostname, port })
+      : await Deno.connect({ hostname, port });
+    return new MailSocket(conn, hostname);
+  }
+
+  // STARTTLS: continue the same session over TLS
+  async upgrade(): Promise<void> {
+    this.conn = await Deno.startTls(this.conn as Deno.TcpConn, { hostname: this.hostname });
+    this.buffer = new Uint8Array(0);
+  }
+
+  private async fill(): Promise<void> {
+    const chunk = new Uint8Array(16 * 1024);
+    const read = await this.conn.read(chunk);
+    if (read === null) throw new Error(`Connection to ${this.hostname} closed unexpectedly`);
+    const merged = new Uint8Array(this.buffer.length + read);
+    merged.set(this.buffer);
+    merged.set(chunk.subarray(0, read), this.buffer.length);
+    this.buffer = merged;
+  }
+
+  async readLine(): Promise<string> {
+    while (true) {
+      const end = this.buffer.findIndex((byte, i) => byte === 13 && this.buffer[i + 1] === 10);
+      if (end >= 0) {
+        const line = decoder.decode(this.buffer.subarray(0, end));
+        this.buffer = this.buffer.subarray(end + 2);
+        return line;
+      }
+      await this.fill();
+    }
+  }
+
+  async readBytes(length: number): Promise<string> {
+    while (this.buffer.length < length) await this.fill();
+    const bytes = this.buffer.subarray(0, length);
+    this.buffer = this.buffer.subarray(length);
+    return decoder.decode(bytes);
+  }
+
+  async write(data: string): Promise<void> {
+    const bytes = encoder.encode(data);
+    let written = 0;
+    while (written < bytes.length) {
+      written += await this.conn.write(bytes.subarray(written));
+    }
+  }
+
+  close(): void {
+    try {
+      this.conn.close();
+    } catch {
+      // Already closed by the server
+    }
+  }
+}
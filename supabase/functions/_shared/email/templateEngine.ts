@@ -0,0 +1,511 @@
+// Template language for email_templates. Used by the app (SendEmailModal, template preview and
+// validation) and by the functions that send on a schedule, so it has no imports.
+//
+//   {{contact.first_name}}                 value of a merge field
+//   {{first_name|"there"}}                 fallback used when the value is empty
+//   {{#if deal}}...{{else}}...{{/if}}      conditional; {{#unless}} is the negation
+//   {{#each deals}}{{name}}{{/each}}       loop; fields resolve against the item first
+//
+// Rendering never throws: malformed tags are kept as text and reported by validateTemplate.
+
+export type TemplateContext = Record<string, unknown>;
+
+type TemplateNode =
+  | { type: "text"; value: string }
+  | { type: "var"; path: string; fallback: string | null }
+  | { type: "if"; path: string; negate: boolean; body: TemplateNode[]; elseBody: TemplateNode[] }
+  | { type: "each"; path: string; body: TemplateNode[]; elseBody: TemplateNode[] };
+
+type BlockNode = Extract<TemplateNode, { type: "if" | "each" }>;
+
+export interface TemplateIssue {
+  message: string;
+  tag: string;
+}
+
+export interface TemplateValidation {
+  issues: TemplateIssue[];
+  unknownVariables: string[];
+}
+
+export interface RenderOptions {
+  // Escape values for an HTML body; subjects are plain text
+  html?: boolean;
+}
+
+export interface RenderResult {
+  output: string;
+  // Fields that rendered empty because the record had no value and the tag had no fallback
+  missing: string[];
+}
+
+const TAG_PATTERN = /\{\{\s*([\s\S]*?)\s*\}\}/g;
+const PATH_PATTERN = /^(?:this|@index|[A-Za-z_]\w*)(?:\.[A-Za-z_]\w*)*$/;
+const VARIABLE_PATTERN = /^(\S+?)\s*(?:\|\s*(?:"([^"]*)"|'([^']*)'))?$/;
+const BLOCK_PATTERN = /^#(if|unless|each)\s+(\S+)$/;
+// Fields that already hold HTML and are inserted into bodies as-is
+const HTML_FIELDS = new Set(["signature", "sender.signature"]);
+
+// The rich text editor stores tags inside HTML, so quotes and spaces may arrive as entities
+function decodeTag(tag: string): string {
+  return tag
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&nbsp;|\u00a0/g, " ")
+    .replace(/&amp;/g, "&")
+    .trim();
+}
+
+interface ParseResult {
+  nodes: TemplateNode[];
+  issues: TemplateIssue[];
+}
+
+function parseTemplate(source: string): ParseResult {
+  const root: TemplateNode[] = [];
+  const issues: TemplateIssue[] = [];
+  const stack: { node: BlockNode; keyword: string; inElse: boolean; raw: string }[] = [];
+  const current = () => {
+    const top = stack[stack.length - 1];
+    if (!top) return root;
+    return top.inElse ? top.node.elseBody : top.node.body;
+  };
+  const pushText = (value: string) => {
+    if (!value) return;
+    const nodes = current();
+    const last = nodes[nodes.length - 1];
+    if (last?.type === "text") last.value += value;
+    else nodes.push({ type: "text", value });
+  };
+
+  let cursor = 0;
+  for (const match of source.matchAll(TAG_PATTERN)) {
+    const raw = match[0];
+    const tag = decodeTag(match[1]);
+    pushText(source.slice(cursor, match.index));
+    cursor = (match.index ?? 0) + raw.length;
+
+    const block = tag.match(BLOCK_PATTERN);
+    if (block) {
+      const [, keyword, path] = block;
+      if (!PATH_PATTERN.test(path)) {
+        issues.push({ message: `"${path}" is not a valid field name`, tag: raw });
+        pushText(raw);
+        continue;
+      }
+      const node: BlockNode = keyword === "each"
+        ? { type: "each", path, body: [], elseBody: [] }
+        : { type: "if", path, negate: keyword === "unless", body: [], elseBody: [] };
+      current().push(node);
+      stack.push({ node, keyword, inElse: false, raw });
+      continue;
+    }
+
+    if (tag === "else") {
+      const top = stack[stack.length - 1];
+      if (!top || top.inElse) {
+        issues.push({ message: "{{else}} without an open {{#if}}, {{#unless}} or {{#each}}", tag: raw });
+        pushText(raw);
+      } else {
+        top.inElse = true;
+      }
+      continue;
+    }
+
+    if (tag.startsWith("/")) {
+      const keyword = tag.slice(1).trim();
+      const top = stack[stack.length - 1];
+      if (!top || top.keyword !== keyword) {
+        issues.push({
+          message: top ? `Expected {{/${top.keyword}}} but found ${raw}` : `${raw} has no matching opening tag`,
+          tag: raw,
+        });
+        pushText(raw);
+      } else {
+        stack.pop();
+      }
+      continue;
+    }
+
+    const variable = tag.match(VARIABLE_PATTERN);
+    if (!variable || !PATH_PATTERN.test(variable[1])) {
+      issues.push({ message: `Cannot read ${raw}; expected {{field}} or {{field|"fallback"}}`, tag: raw });
+      pushText(raw);
+      continue;
+    }
+    current().push({ type: "var", path: variable[1], fallback: variable[2] ?? variable[3] ?? null });
+  }
+  pushText(source.slice(cursor));
+
+  for (const open of stack.reverse()) {
+    issues.push({ message: `${open.raw} is never closed with {{/${open.keyword}}}`, tag: open.raw });
+  }
+  return { nodes: root, issues };
+}
+
+interface Scope {
+  value: unknown;
+  index?: number;
+}
+
+function readPath(value: unknown, segments: string[]): unknown {
+  let result = value;
+  for (const segment of segments) {
+    if (result === null || typeof result !== "object") return undefined;
+    result = (result as Record<string, unknown>)[segment];
+  }
+  return result;
+}
+
+function lookup(path: string, scopes: Scope[]): unknown {
+  const innermost = scopes[scopes.length - 1];
+  if (path === "@index") return innermost.index;
+  const segments = path.split(".");
+  if (segments[0] === "this") return readPath(innermost.value, segments.slice(1));
+
+  for (let i = scopes.length - 1; i >= 0; i--) {
+    const scope = scopes[i].value;
+    if (scope !== null && typeof scope === "object" && segments[0] in (scope as object)) {
+      return readPath(scope, segments);
+    }
+  }
+  return undefined;
+}
+
+function isTruthy(value: unknown): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  if (typeof value === "string") return value.trim() !== "";
+  return !!value;
+}
+
+function toText(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  if (Array.isArray(value)) return value.map(toText).filter(Boolean).join(", ");
+  if (typeof value === "object") return "";
+  return String(value);
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+export function renderTemplate(source: string, context: TemplateContext, options: RenderOptions = {}): RenderResult {
+  const { nodes } = parseTemplate(source || "");
+  const missing = new Set<string>();
+
+  const renderNodes = (list: TemplateNode[], scopes: Scope[]): string =>
+    list
+      .map((node) => {
+        switch (node.type) {
+          case "text":
+            return node.value;
+          case "var": {
+            const text = toText(lookup(node.path, scopes)).trim();
+            if (text) return options.html && !HTML_FIELDS.has(node.path) ? escapeHtml(text) : text;
+            if (node.fallback !== null) return options.html ? escapeHtml(node.fallback) : node.fallback;
+            missing.add(node.path);
+            return "";
+          }
+          case "if": {
+            const truthy = isTruthy(lookup(node.path, scopes)) !== node.negate;
+            return renderNodes(truthy ? node.body : node.elseBody, scopes);
+          }
+          case "each": {
+            const items = lookup(node.path, scopes);
+            if (!Array.isArray(items) || items.length === 0) return renderNodes(node.elseBody, scopes);
+            return items.map((item, index) => renderNodes(node.body, [...scopes, { value: item, index }])).join("");
+          }
+        }
+      })
+      .join("");
+
+  return { output: renderNodes(nodes, [{ value: context }]), missing: [...missing] };
+}
+
+// Flags syntax errors and fields that are not in `fields`. Inside {{#each}} the list's item
+// fields are also known.
+export function validateTemplate(source: string, fields: TemplateField[] = TEMPLATE_FIELDS): TemplateValidation {
+  const { nodes, issues } = parseTemplate(source || "");
+  const known = new Set(fields.map((f) => f.path));
+  const itemFields = new Map(fields.filter((f) => f.itemFields).map((f) => [f.path, f.itemFields!]));
+  const unknown = new Set<string>();
+
+  const check = (path: string, loopItems: string[][]) => {
+    if (path === "@index" || path === "this") {
+      if (loopItems.length === 0) unknown.add(path);
+      return;
+    }
+    const bare = path.startsWith("this.") ? path.slice(5) : path;
+    if (loopItems.some((items) => items.includes(bare))) return;
+    if (!path.startsWith("this.") && known.has(path)) return;
+    unknown.add(path);
+  };
+
+  const walk = (list: TemplateNode[], loopItems: string[][]) => {
+    for (const node of list) {
+      if (node.type === "var") check(node.path, loopItems);
+      if (node.type === "if") {
+        check(node.path, loopItems);
+        walk(node.body, loopItems);
+        walk(node.elseBody, loopItems);
+      }
+      if (node.type === "each") {
+        check(node.path, loopItems);
+        walk(node.body, [...loopItems, itemFields.get(node.path) || []]);
+        walk(node.elseBody, loopItems);
+      }
+    }
+  };
+  walk(nodes, []);
+
+  return { issues, unknownVariables: [...unknown] };
+}
+
+export interface RenderedEmail extends TemplateValidation {
+  subject: string;
+  body: string;
+  missing: string[];
+}
+
+// Renders a template's subject (plain text) and body (HTML) and collects the problems of both
+export function renderEmailTemplate(template: { subject: string; body: string }, context: TemplateContext): RenderedEmail {
+  const subject = renderTemplate(template.subject, context);
+  const body = renderTemplate(template.body, context, { html: true });
+  const subjectCheck = validateTemplate(template.subject);
+  const bodyCheck = validateTemplate(template.body);
+  return {
+    subject: subject.output,
+    body: body.output,
+    issues: [...subjectCheck.issues, ...bodyCheck.issues],
+    unknownVariables: [...new Set([...subjectCheck.unknownVariables, ...bodyCheck.unknownVariables])],
+    missing: [...new Set([...subject.missing, ...body.missing])],
+  };
+}
+
+// ---------------------------------------------------------------------------------------------
+// Merge fields
+
+export type TemplateFieldGroup = "Recipient" | "Contact" | "Lead" | "Account" | "Deal" | "Owner" | "Sender";
+
+export interface TemplateField {
+  path: string;
+  label: string;
+  group: TemplateFieldGroup;
+  // Set for lists usable in {{#each}}: the fields of one item
+  itemFields?: string[];
+}
+
+const DEAL_ITEM_FIELDS = ["name", "stage", "value", "expected_close_date", "probability", "project_name"];
+
+export const TEMPLATE_FIELDS: TemplateField[] = [
+  { path: "name", label: "Recipient's full name", group: "Recipient" },
+  { path: "contact_name", label: "Recipient's full name", group: "Recipient" },
+  { path: "first_name", label: "Recipient's first name", group: "Recipient" },
+  { path: "last_name", label: "Recipient's last name", group: "Recipient" },
+  { path: "email", label: "Recipient's email", group: "Recipient" },
+  { path: "company_name", label: "Recipient's company", group: "Recipient" },
+  { path: "position", label: "Recipient's position", group: "Recipient" },
+  { path: "phone", label: "Recipient's phone", group: "Recipient" },
+  { path: "website", label: "Recipient's website", group: "Recipient" },
+  { path: "lead_name", label: "Lead name", group: "Recipient" },
+  { path: "account_name", label: "Account name", group: "Recipient" },
+  { path: "signature", label: "Your email signature", group: "Sender" },
+
+  { path: "contact", label: "Contact (for {{#if}})", group: "Contact" },
+  { path: "contact.name", label: "Contact name", group: "Contact" },
+  { path: "contact.first_name", label: "Contact first name", group: "Contact" },
+  { path: "contact.last_name", label: "Contact last name", group: "Contact" },
+  { path: "contact.email", label: "Contact email", group: "Contact" },
+  { path: "contact.phone", label: "Contact phone", group: "Contact" },
+  { path: "contact.position", label: "Contact position", group: "Contact" },
+  { path: "contact.company_name", label: "Contact company", group: "Contact" },
+  { path: "contact.industry", label: "Contact industry", group: "Contact" },
+  { path: "contact.region", label: "Contact region", group: "Contact" },
+  { path: "contact.linkedin", label: "Contact LinkedIn", group: "Contact" },
+
+  { path: "lead", label: "Lead (for {{#if}})", group: "Lead" },
+  { path: "lead.name", label: "Lead name", group: "Lead" },
+  { path: "lead.first_name", label: "Lead first name", group: "Lead" },
+  { path: "lead.last_name", label: "Lead last name", group: "Lead" },
+  { path: "lead.email", label: "Lead email", group: "Lead" },
+  { path: "lead.phone", label: "Lead phone", group: "Lead" },
+  { path: "lead.position", label: "Lead position", group: "Lead" },
+  { path: "lead.company_name", label: "Lead company", group: "Lead" },
+  { path: "lead.industry", label: "Lead industry", group: "Lead" },
+  { path: "lead.country", label: "Lead country", group: "Lead" },
+  { path: "lead.status", label: "Lead status", group: "Lead" },
+
+  { path: "account", label: "Account (for {{#if}})", group: "Account" },
+  { path: "account.name", label: "Account name", group: "Account" },
+  { path: "account.industry", label: "Account industry", group: "Account" },
+  { path: "account.website", label: "Account website", group: "Account" },
+  { path: "account.phone", label: "Account phone", group: "Account" },
+  { path: "account.email", label: "Account email", group: "Account" },
+  { path: "account.country", label: "Account country", group: "Account" },
+  { path: "account.region", label: "Account region", group: "Account" },
+
+  { path: "deal", label: "Current open deal (for {{#if}})", group: "Deal" },
+  { path: "deal.name", label: "Deal name", group: "Deal" },
+  { path: "deal.stage", label: "Deal stage", group: "Deal" },
+  { path: "deal.value", label: "Deal value with currency", group: "Deal" },
+  { path: "deal.expected_close_date", label: "Expected closing date", group: "Deal" },
+  { path: "deal.probability", label: "Deal probability (%)", group: "Deal" },
+  { path: "deal.project_name", label: "Project name", group: "Deal" },
+  { path: "deals", label: "All linked deals (for {{#each}})", group: "Deal", itemFields: DEAL_ITEM_FIELDS },
+
+  { path: "owner", label: "Record owner (for {{#if}})", group: "Owner" },
+  { path: "owner.name", label: "Owner name", group: "Owner" },
+  { path: "owner.first_name", label: "Owner first name", group: "Owner" },
+  { path: "owner.email", label: "Owner email", group: "Owner" },
+  { path: "owner.phone", label: "Owner phone", group: "Owner" },
+
+  { path: "sender.name", label: "Your name", group: "Sender" },
+  { path: "sender.first_name", label: "Your first name", group: "Sender" },
+  { path: "sender.email", label: "Your email", group: "Sender" },
+  { path: "sender.phone", label: "Your phone", group: "Sender" },
+  { path: "sender.signature", label: "Your email signature", group: "Sender" },
+];
+
+// Raw rows as selected from the database; only the columns read below matter
+type TemplateRow = Record<string, unknown>;
+
+export interface TemplateRecords {
+  recipient: { name?: string | null; email?: string | null };
+  contact?: TemplateRow | null;
+  lead?: TemplateRow | null;
+  account?: TemplateRow | null;
+  // Deals linked to the record, most recently modified first
+  deals?: TemplateRow[] | null;
+  // Won and lost stages of the pipeline (is_won_stage/is_lost_stage); deals in any other
+  // stage are open. The built-in closed stages are assumed when not given.
+  closedStages?: string[] | null;
+  // profiles rows
+  owner?: TemplateRow | null;
+  sender?: TemplateRow | null;
+  senderEmail?: string | null;
+  // user_preferences.email_signature of the sender
+  signature?: string | null;
+}
+
+const DEFAULT_CLOSED_DEAL_STAGES = ["Won", "Lost", "Dropped"];
+
+const text = (value: unknown): string => (value === null || value === undefined ? "" : String(value).trim());
+
+function splitName(name: string): { first_name: string; last_name: string } {
+  const [first = "", ...rest] = name.split(/\s+/).filter(Boolean);
+  return { first_name: first, last_name: rest.join(" ") };
+}
+
+function person(row: TemplateRow, nameColumn: string) {
+  const name = text(row[nameColumn]);
+  return {
+    name,
+    ...splitName(name),
+    email: text(row.email),
+    phone: text(row.phone_no ?? row.phone),
+    position: text(row.position),
+    company_name: text(row.company_name),
+    industry: text(row.industry),
+    website: text(row.website),
+    linkedin: text(row.linkedin),
+  };
+}
+
+function dealFields(row: TemplateRow) {
+  const value = row.total_contract_value;
+  return {
+    name: text(row.deal_name),
+    stage: text(row.stage),
+    value: typeof value === "number"
+      ? `${text(row.currency_type) || "EUR"} ${value.toLocaleString("en-US", { maximumFractionDigits: 2 })}`
+      : "",
+    expected_close_date: text(row.expected_closing_date),
+    probability: row.probability === null || row.probability === undefined ? "" : text(row.probability),
+    project_name: text(row.project_name),
+  };
+}
+
+function profileFields(row: TemplateRow, email?: string | null) {
+  const name = text(row.full_name);
+  return { name, first_name: splitName(name).first_name, email: text(email ?? row["Email ID"]), phone: text(row.phone) };
+}
+
+export function buildTemplateContext(records: TemplateRecords): TemplateContext {
+  const contact = records.contact ? { ...person(records.contact, "contact_name"), region: text(records.contact.region) } : null;
+  const lead = records.lead
+    ? { ...person(records.lead, "lead_name"), country: text(records.lead.country), status: text(records.lead.lead_status) }
+    : null;
+  const account = records.account
+    ? {
+        name: text(records.account.company_name),
+        industry: text(records.account.industry),
+        website: text(records.account.website),
+        phone: text(records.account.phone),
+        email: text(records.account.email),
+        country: text(records.account.country),
+        region: text(records.account.region),
+      }
+    : null;
+
+  const dealRows = records.deals || [];
+  const deals = dealRows.map(dealFields);
+  const closedStages = records.closedStages ?? DEFAULT_CLOSED_DEAL_STAGES;
+  const openIndex = dealRows.findIndex((row) => !closedStages.includes(text(row.stage)));
+  const deal = openIndex >= 0 ? deals[openIndex] : null;
+
+  const signature = text(records.signature);
+  const sender = records.sender || records.senderEmail
+    ? { ...profileFields(records.sender || {}, records.senderEmail), signature }
+    : { name: "", first_name: "", email: "", phone: "", signature };
+
+  const subject = contact || lead;
+  const recipientName = text(records.recipient.name) || subject?.name || account?.name || "";
+
+  return {
+    // Flat fields predate the nested ones and stay for existing templates
+    name: recipientName,
+    contact_name: recipientName,
+    ...splitName(recipientName),
+    email: text(records.recipient.email) || subject?.email || account?.email || "",
+    company_name: subject?.company_name || account?.name || "",
+    position: subject?.position || "",
+    phone: subject?.phone || account?.phone || "",
+    website: subject?.website || account?.website || "",
+    lead_name: lead?.name || "",
+    account_name: account?.name || "",
+    signature,
+
+    contact,
+    lead,
+    account,
+    deal,
+    deals,
+    owner: records.owner ? profileFields(records.owner) : null,
+    sender,
+  };
+}
+
+// Stand-in record for previews when no real record is chosen
+export const SAMPLE_TEMPLATE_CONTEXT: TemplateContext = buildTemplateContext({
+  recipient: { name: "John Doe", email: "john.doe@acme.com" },
+  contact: {
+    contact_name: "John Doe",
+    email: "john.doe@acme.com",
+    phone_no: "+1 (555) 123-4567",
+    position: "Sales Manager",
+    company_name: "Acme Corporation",
+    industry: "Manufacturing",
+    website: "www.acme.com",
+  },
+  account: { company_name: "Acme Corporation", industry: "Manufacturing", website: "www.acme.com", country: "USA" },
+  deals: [
+    { deal_name: "Acme rollout", stage: "Qualified", total_contract_value: 120000, currency_type: "USD", probability: 40 },
+  ],
+  owner: { full_name: "Jane Smith", "Email ID": "jane.smith@example.com" },
+  sender: { full_name: "Jane Smith", "Email ID": "jane.smith@example.com" },
+  signature: "Best regards,<br>Jane Smith",
+});
@@ -0,0 +1,87 @@
+export type EmailProvider = "graph" | "smtp" | "file";
+
+// Folders the reply and bounce checks read; each transport maps them to its own names
+export type MailFolder = "inbox" | "junk";
+
+export interface EmailAttachment {
+  name: string;
+  contentType: string;
+  contentBytes: string; // Base64 encoded
+}
+
+export interface OutgoingEmail {
+  from: string;
+  fromName?: string;
+  to: string;
+  toName?: string;
+  subject: string;
+  html: string;
+  attachments?: EmailAttachment[];
+  // Extra headers such as List-Unsubscribe
+  headers?: Record<string, string>;
+  // Identifiers of the email being answered, as stored on email_history
+  replyTo?: {
+    messageId: string | null;
+    conversationId: string | null;
+  };
+}
+
+export interface SendOptions {
+  // Look up the Message-ID/conversation of the sent mail so replies can be matched later.
+  // SMTP and file transports always know them; Graph has to poll Sent Items.
+  captureIds?: boolean;
+}
+
+export interface SentEmail {
+  messageId: string | null;
+  conversationId: string | null;
+}
+
+// A received message, normalised across providers
+export interface InboxMessage {
+  id: string;
+  folder: MailFolder;
+  from_email: string;
+  from_name: string | null;
+  // To and Cc addresses, lower-cased
+  recipients: string[];
+  subject: string;
+  body: string;
+  body_preview: string;
+  received_at: string;
+  message_id: string | null;
+  in_reply_to: string | null;
+  references: string[];
+  conversation_id: string | null;
+}
+
+export interface ListMessagesOptions {
+  since: string;
+  folders?: MailFolder[];
+  includeBody?: boolean;
+}
+
+export interface EmailTransport {
+  provider: EmailProvider;
+  // Fails early when credentials are missing or rejected
+  verify(): Promise<void>;
+  send(message: OutgoingEmail, options?: SendOptions): Promise<SentEmail>;
+  listMessages(mailbox: string, options: ListMessagesOptions): Promise<InboxMessage[]>;
+}
+
+// Config stored on the integration_settings entry. Passwords stay in function secrets.
+export interface EmailTransportConfig {
+  provider?: EmailProvider;
+  sender_email?: string | null;
+  sender_name?: string | null;
+  host?: string | null;
+  port?: number | string | null;
+  secure?: boolean | string | null;
+  // Send the login over a connection that is not encrypted (servers without STARTTLS)
+  allow_insecure_auth?: boolean | string | null;
+  username?: string | null;
+  imap_host?: string | null;
+  imap_port?: number | string | null;
+  junk_folder?: string | null;
+  directory?: string | null;
+}
@@ -0,0 +1,29 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+// Re-scores the lead and/or contact an email belongs to after a tracked signal (open, click,
+// reply, bounce). Failures are logged only: a stale score is corrected by the next scheduled
+// recalculate-scores run and must never break tracking.
+export async function rescoreRecords(
+  supabase: SupabaseClient,
+  records: { lead_id?: string | null; contact_id?: string | null },
+  reason: string
+): Promise<void> {
+  const targets: [string, string | null | undefined][] = [
+    ["lead", records.lead_id],
+    ["contact", records.contact_id],
+  ];
+
+  for (const [entityType, entityId] of targets) {
+    if (!entityId) continue;
+    const { data, error } = await supabase.rpc("calculate_record_score", {
+      p_entity_type: entityType,
+      p_entity_id: entityId,
+      p_reason: reason,
+    });
+    if (error) {
+      console.warn(`Failed to rescore ${entityType} ${entityId}:`, error);
+    } else {
+      console.log(`Rescored ${entityType} ${entityId}: ${data?.score}`);
+    }
+  }
+}
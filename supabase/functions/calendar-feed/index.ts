@@ -0,0 +1,128 @@
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  buildCalendar,
+  CALENDAR_MEETING_COLUMNS,
+  getUidDomain,
+  meetingToIcsEvent,
+  zonedTimeToIso,
+  type CalendarMeeting,
+  type IcsEvent,
+} from "../_shared/calendar/index.ts";
+
+// Public ICS subscription feed (?token=<calendar_feed_tokens.token>) that calendar apps poll:
+// the user's meetings and open tasks with a due date. The token is the only credential, so it
+// is rotated or removed from Account Settings.
+
+// Meetings older than this are left out of the feed
+const PAST_DAYS = 90;
+// Tasks with a due time are shown as blocks of this length
+const TASK_DURATION_MINUTES = 30;
+
+interface FeedTask {
+  id: string;
+  title: string;
+  description: string | null;
+  due_date: string;
+  due_time: string | null;
+  priority: string | null;
+  status: string;
+  updated_at: string;
+}
+
+async function loadMeetings(supabase: SupabaseClient, userId: string): Promise<IcsEvent[]> {
+  const since = new Date(Date.now() - PAST_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  const { data, error } = await supabase
+    .from("meetings")
+    .select(CALENDAR_MEETING_COLUMNS)
+    .eq("created_by", userId)
+    .gte("start_time", since)
+    .order("start_time", { ascending: true });
+  if (error) throw error;
+  return ((data || []) as CalendarMeeting[]).map(meeting => ({
+    ...meetingToIcsEvent(meeting),
+    categories: ["Meeting"],
+  }));
+}
+
+async function loadTasks(supabase: SupabaseClient, userId: string, timeZone: string | null): Promise<IcsEvent[]> {
+  const { data, error } = await supabase
+    .from("tasks")
+    .select("id, title, description, due_date, due_time, priority, status, updated_at")
+    .or(`assigned_to.eq.${userId},and(assigned_to.is.null,created_by.eq.${userId})`)
+    .not("due_date", "is", null)
+    .in("status", ["open", "in_progress"]);
+  if (error) throw error;
+
+  const domain = getUidDomain();
+  return ((data || []) as FeedTask[]).map(task => {
+    const start = task.due_time ? zonedTimeToIso(task.due_date, task.due_time, timeZone) : task.due_date;
+    return {
+      uid: `task-${task.id}@${domain}`,
+      sequence: 0,
+      start,
+      end: task.due_time ? new Date(new Date(start).getTime() + TASK_DURATION_MINUTES * 60 * 1000).toISOString() : task.due_date,
+      allDay: !task.due_time,
+      summary: `Task: ${task.title}`,
+      description: task.description,
+      status: "CONFIRMED",
+      updatedAt: task.updated_at,
+      categories: ["Task", ...(task.priority ? [task.priority] : [])],
+    };
+  });
+}
+
+Deno.serve(async (req) => {
+  if (req.method !== "GET" && req.method !== "HEAD") {
+    return new Response("Method not allowed", { status: 405 });
+  }
+
+  const supabase = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+
+  try {
+    const token = new URL(req.url).searchParams.get("token");
+    if (!token || !/^[0-9a-f]{32,128}$/i.test(token)) {
+      return new Response("Calendar feed not found", { status: 404 });
+    }
+
+    const { data: feed } = await supabase
+      .from("calendar_feed_tokens")
+      .select("user_id")
+      .eq("token", token)
+      .maybeSingle();
+    if (!feed) {
+      return new Response("Calendar feed not found", { status: 404 });
+    }
+
+    await supabase
+      .from("calendar_feed_tokens")
+      .update({ last_accessed_at: new Date().toISOString() })
+      .eq("user_id", feed.user_id);
+
+    const { data: profile } = await supabase
+      .from("profiles")
+      .select("full_name, timezone")
+      .eq("id", feed.user_id)
+      .maybeSingle();
+
+    const [meetings, tasks] = await Promise.all([
+      loadMeetings(supabase, feed.user_id),
+      loadTasks(supabase, feed.user_id, profile?.timezone || null),
+    ]);
+
+    const ics = buildCalendar([...meetings, ...tasks], {
+      method: "PUBLISH",
+      name: profile?.full_name ? `CRM - ${profile.full_name}` : "CRM",
+    });
+
+    return new Response(req.method === "HEAD" ? null : ics, {
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        "Content-Disposition": 'inline; filename="crm.ics"',
+        "Cache-Control": "private, max-age=300",
+      },
+    });
+  } catch (error: unknown) {
+    console.error("Error in calendar-feed function:", error);
+    return new Response("Calendar feed unavailable", { status: 500 });
+  }
+});
@@ -0,0 +1,52 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.80.0'
+
+// Stores this week's pipeline forecast deal by deal (capture_forecast_snapshot). Invoked by the
+// external scheduler weekly; running it again in the same week replaces that week's snapshot.
+// An optional { date: 'YYYY-MM-DD' } body captures into the week containing that date.
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey);
+
+    let date: string | undefined;
+    try {
+      const body = await req.json();
+      if (typeof body?.date === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(body.date)) date = body.date;
+    } catch {
+      // No body - regular cron invocation
+    }
+
+    const { data: snapshotId, error } = await supabaseAdmin.rpc('capture_forecast_snapshot', date ? { p_date: date } : {});
+    if (error) throw new Error(`Failed to capture forecast snapshot: ${error.message}`);
+
+    const { count } = await supabaseAdmin
+      .from('forecast_snapshot_deals')
+      .select('deal_id', { count: 'exact', head: true })
+      .eq('snapshot_id', snapshotId);
+
+    console.log(`Forecast snapshot ${snapshotId} captured with ${count ?? 0} deals`);
+
+    return new Response(
+      JSON.stringify({ success: true, snapshotId, deals: count ?? 0 }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error('Error in capture-forecast-snapshot function:', error);
+    return new Response(
+      JSON.stringify({ success: false, error: errorMessage }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
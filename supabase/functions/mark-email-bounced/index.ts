@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { rescoreRecords } from "../_shared/scoring.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -78,26 +79,27 @@ const handler = async (req: Request): Promise<Response> => {
     if (wasMarkedAsOpened && emailData.contact_id) {
       const { data: contact } = await supabase
         .from("contacts")
-        .select("email_opens, engagement_score")
+        .select("email_opens")
         .eq("id", emailData.contact_id)
         .single();
 
       if (contact && (contact.email_opens || 0) > 0) {
         const newOpens = Math.max((contact.email_opens || 0) - 1, 0);
-        const newScore = Math.max((contact.engagement_score || 0) - 5, 0);
         
         await supabase
           .from("contacts")
-          .update({
-            email_opens: newOpens,
-            engagement_score: newScore,
-          })
+          .update({ email_opens: newOpens })
           .eq("id", emailData.contact_id);
         
-        console.log(`Corrected contact ${emailData.contact_id} - opens: ${newOpens}, score: ${newScore}`);
+        console.log(`Corrected contact ${emailData.contact_id} - opens: ${newOpens}`);
       }
     }
 
+    // The cleared open no longer counts towards the score
+    if (wasMarkedAsOpened) {
+      await rescoreRecords(supabase, emailData, "email_bounced");
+    }
+
     console.log(`Email ${emailId} marked as bounced successfully`);
 
     return new Response(
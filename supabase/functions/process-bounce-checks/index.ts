@@ -1,42 +1,12 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getEmailTransport, type EmailTransport } from "../_shared/email/index.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
-async function getAccessToken(): Promise<string> {
-  const tenantId = Deno.env.get("AZURE_EMAIL_TENANT_ID") || Deno.env.get("AZURE_TENANT_ID");
-  const clientId = Deno.env.get("AZURE_EMAIL_CLIENT_ID") || Deno.env.get("AZURE_CLIENT_ID");
-  const clientSecret = Deno.env.get("AZURE_EMAIL_CLIENT_SECRET") || Deno.env.get("AZURE_CLIENT_SECRET");
-
-  if (!tenantId || !clientId || !clientSecret) {
-    throw new Error("Azure credentials not configured");
-  }
-
-  const tokenUrl = `https://login.microsoftonline.com/${tenantId}/oauth2/v2.0/token`;
-  
-  const response = await fetch(tokenUrl, {
-    method: "POST",
-    headers: { "Content-Type": "application/x-www-form-urlencoded" },
-    body: new URLSearchParams({
-      client_id: clientId,
-      client_secret: clientSecret,
-      scope: "https://graph.microsoft.com/.default",
-      grant_type: "client_credentials",
-    }),
-  });
-
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`Failed to get access token: ${error}`);
-  }
-
-  const data = await response.json();
-  return data.access_token;
-}
-
 // Improved NDR parsing for Office 365 format
 function parseNDRContent(subject: string, body: string): { recipientEmail: string | null; reason: string | null; originalSubject: string | null } {
   let recipientEmail: string | null = null;
@@ -121,67 +91,48 @@ interface BounceCheckResult {
 }
 
 async function fetchNDRsForSender(
-  accessToken: string,
+  transport: EmailTransport,
   senderEmail: string,
   sinceDate: string
 ): Promise<Array<{ subject: string; body: string; recipientEmail: string | null; reason: string | null; receivedDateTime: string }>> {
   const ndrs: Array<{ subject: string; body: string; recipientEmail: string | null; reason: string | null; receivedDateTime: string }> = [];
   
-  // Try both Inbox and Junk Email folders
-  const folders = ['Inbox', 'JunkEmail'];
-  
-  for (const folder of folders) {
-    try {
-      // Fetch recent messages from the folder
-      const searchUrl = `https://graph.microsoft.com/v1.0/users/${encodeURIComponent(senderEmail)}/mailFolders/${folder}/messages?$filter=receivedDateTime ge ${sinceDate}&$select=id,subject,body,from,receivedDateTime&$top=100&$orderby=receivedDateTime desc`;
-
-      const response = await fetch(searchUrl, {
-        headers: { Authorization: `Bearer ${accessToken}` },
-      });
+  // Filter for NDR messages
+  const ndrKeywords = ['undeliverable', 'delivery status', 'delivery failed', 'delivery failure', 'non-delivery', 'returned mail', 'mail delivery'];
+  const ndrSenders = ['postmaster', 'mailer-daemon', 'microsoft outlook'];
 
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error(`Failed to fetch from ${folder} for ${senderEmail}: ${response.status} - ${errorText.substring(0, 200)}`);
-        
-        if (response.status === 403) {
-          console.error("PERMISSION ERROR: The Azure app needs 'Mail.Read' APPLICATION permission with admin consent.");
-        }
-        continue;
-      }
-
-      const messagesData = await response.json();
-      const messages = messagesData.value || [];
+  try {
+    // Try both Inbox and Junk Email folders
+    const messages = await transport.listMessages(senderEmail, {
+      since: sinceDate,
+      folders: ['inbox', 'junk'],
+      includeBody: true,
+    });
+    
+    for (const msg of messages) {
+      const subject = msg.subject.toLowerCase();
+      const fromAddress = msg.from_email.toLowerCase();
+      const fromName = (msg.from_name || '').toLowerCase();
       
-      // Filter for NDR messages
-      const ndrKeywords = ['undeliverable', 'delivery status', 'delivery failed', 'delivery failure', 'non-delivery', 'returned mail', 'mail delivery'];
-      const ndrSenders = ['postmaster', 'mailer-daemon', 'microsoft outlook'];
+      const isNDRSubject = ndrKeywords.some(keyword => subject.includes(keyword));
+      const isNDRSender = ndrSenders.some(sender => fromAddress.includes(sender) || fromName.includes(sender));
       
-      for (const msg of messages) {
-        const subject = (msg.subject || '').toLowerCase();
-        const fromAddress = (msg.from?.emailAddress?.address || '').toLowerCase();
-        const fromName = (msg.from?.emailAddress?.name || '').toLowerCase();
-        
-        const isNDRSubject = ndrKeywords.some(keyword => subject.includes(keyword));
-        const isNDRSender = ndrSenders.some(sender => fromAddress.includes(sender) || fromName.includes(sender));
+      if (isNDRSubject || isNDRSender) {
+        const { recipientEmail, reason } = parseNDRContent(msg.subject, msg.body);
         
-        if (isNDRSubject || isNDRSender) {
-          const bodyContent = msg.body?.content || '';
-          const { recipientEmail, reason } = parseNDRContent(msg.subject || '', bodyContent);
-          
-          if (recipientEmail) {
-            ndrs.push({
-              subject: msg.subject || '',
-              body: bodyContent,
-              recipientEmail,
-              reason,
-              receivedDateTime: msg.receivedDateTime,
-            });
-          }
+        if (recipientEmail) {
+          ndrs.push({
+            subject: msg.subject,
+            body: msg.body,
+            recipientEmail,
+            reason,
+            receivedDateTime: msg.received_at,
+          });
         }
       }
-    } catch (error) {
-      console.error(`Error fetching ${folder} for ${senderEmail}:`, error);
     }
+  } catch (error) {
+    console.error(`Error fetching NDRs for ${senderEmail}:`, error);
   }
   
   return ndrs;
@@ -214,17 +165,18 @@ serve(async (req: Request) => {
       }
     }
 
-    let accessToken: string;
+    const transport = await getEmailTransport(supabase);
     try {
-      accessToken = await getAccessToken();
-      console.log("Successfully obtained Azure access token");
-    } catch (tokenError) {
-      console.error("Failed to get access token:", tokenError);
+      await transport.verify();
+    } catch (transportError) {
+      console.error("Email transport unavailable:", transportError);
       return new Response(JSON.stringify({ 
         success: false, 
-        error: "Azure authentication failed",
-        details: tokenError instanceof Error ? tokenError.message : "Unknown error",
-        hint: "Ensure AZURE_EMAIL_TENANT_ID, AZURE_EMAIL_CLIENT_ID, and AZURE_EMAIL_CLIENT_SECRET are set correctly"
+        error: "Email transport authentication failed",
+        details: transportError instanceof Error ? transportError.message : "Unknown error",
+        hint: transport.provider === "graph"
+          ? "Ensure AZURE_EMAIL_TENANT_ID, AZURE_EMAIL_CLIENT_ID, and AZURE_EMAIL_CLIENT_SECRET are set correctly"
+          : `Check the ${transport.provider} settings on the email integration`
       }), {
         status: 500,
         headers: { ...corsHeaders, "Content-Type": "application/json" },
@@ -288,7 +240,7 @@ serve(async (req: Request) => {
       
       console.log(`Fetching NDRs for sender: ${senderEmail} (${checks.length} pending)`);
       
-      const ndrs = await fetchNDRsForSender(accessToken, senderEmail, sinceDate);
+      const ndrs = await fetchNDRsForSender(transport, senderEmail, sinceDate);
       console.log(`Found ${ndrs.length} NDRs for ${senderEmail}`);
       processedSenders.add(senderEmail);
       
@@ -417,7 +369,7 @@ serve(async (req: Request) => {
           continue;
         }
         
-        const ndrs = await fetchNDRsForSender(accessToken, senderEmail, sinceDate);
+        const ndrs = await fetchNDRsForSender(transport, senderEmail, sinceDate);
         console.log(`Found ${ndrs.length} NDRs for ${senderEmail} (general sync)`);
         
         for (const email of emails) {
@@ -474,7 +426,9 @@ serve(async (req: Request) => {
         ? `Found and marked ${totalBouncesFound} bounced email(s)` 
         : 'No new bounces detected',
       hint: totalBouncesFound === 0 && processedPendingIds.length === 0
-        ? "If bounces exist but weren't detected, ensure the Azure app has 'Mail.Read' APPLICATION permission with admin consent"
+        ? transport.provider === "graph"
+          ? "If bounces exist but weren't detected, ensure the Azure app has 'Mail.Read' APPLICATION permission with admin consent"
+          : "If bounces exist but weren't detected, check that the email integration's inbox settings are correct"
         : undefined
     }), {
       headers: { ...corsHeaders, "Content-Type": "application/json" },
@@ -0,0 +1,301 @@
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.80.0'
+import { loadTemplateContext, renderTemplate } from '../_shared/email/index.ts'
+
+// Sends pending recipients of running bulk email jobs. Invoked by the external scheduler
+// every minute, and by the app right after a job without a start time is created.
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+interface BulkEmailJob {
+  id: string;
+  subject: string;
+  body: string;
+  sender_email: string;
+  status: string;
+  rate_per_minute: number;
+  created_by: string | null;
+}
+
+interface BulkEmailRecipient {
+  id: string;
+  lead_id: string | null;
+  contact_id: string | null;
+  account_id: string | null;
+  recipient_email: string;
+  recipient_name: string | null;
+  attempts: number;
+}
+
+const MAX_SEND_ATTEMPTS = 3;
+// Backoff after a transient failure: 5, then 10 minutes
+const RETRY_BASE_MINUTES = 5;
+// A recipient left in 'sending' this long belongs to a run that died mid-send
+const LOCK_TIMEOUT_MINUTES = 10;
+// Stay well inside the edge function wall-clock limit; the next run picks up the rest
+const RUN_BUDGET_MS = 50_000;
+// Sends per mailbox per hour across all jobs, to stay under the provider's quota
+const DEFAULT_HOURLY_QUOTA = 500;
+
+function getHourlyQuota(): number {
+  const quota = Number(Deno.env.get('BULK_EMAIL_HOURLY_QUOTA'));
+  return quota > 0 ? quota : DEFAULT_HOURLY_QUOTA;
+}
+
+async function startDueJobs(supabase: SupabaseClient, now: Date, jobId: string | null) {
+  let query = supabase
+    .from('bulk_email_jobs')
+    .update({ status: 'running', started_at: now.toISOString() })
+    .eq('status', 'scheduled')
+    .lte('scheduled_at', now.toISOString());
+  if (jobId) query = query.eq('id', jobId);
+  const { error } = await query;
+  if (error) throw new Error(`Failed to start due jobs: ${error.message}`);
+}
+
+async function releaseStaleLocks(supabase: SupabaseClient, now: Date) {
+  const cutoff = new Date(now.getTime() - LOCK_TIMEOUT_MINUTES * 60 * 1000).toISOString();
+  const { data: stale } = await supabase
+    .from('bulk_email_recipients')
+    .select('id, attempts')
+    .eq('status', 'sending')
+    .lt('locked_at', cutoff);
+
+  for (const recipient of stale || []) {
+    const attempts = recipient.attempts + 1;
+    await supabase
+      .from('bulk_email_recipients')
+      .update({
+        status: attempts >= MAX_SEND_ATTEMPTS ? 'failed' : 'pending',
+        attempts,
+        locked_at: null,
+        last_error: 'Send was interrupted',
+      })
+      .eq('id', recipient.id)
+      .eq('status', 'sending');
+  }
+}
+
+async function getRemainingQuota(supabase: SupabaseClient, senderEmail: string, now: Date): Promise<number> {
+  const since = new Date(now.getTime() - 60 * 60 * 1000).toISOString();
+  const { count } = await supabase
+    .from('email_history')
+    .select('id', { count: 'exact', head: true })
+    .eq('sender_email', senderEmail)
+    .gte('sent_at', since);
+  return Math.max(getHourlyQuota() - (count || 0), 0);
+}
+
+async function isJobRunning(supabase: SupabaseClient, jobId: string): Promise<boolean> {
+  const { data } = await supabase.from('bulk_email_jobs').select('status').eq('id', jobId).maybeSingle();
+  return data?.status === 'running';
+}
+
+async function markContacted(supabase: SupabaseClient, recipient: BulkEmailRecipient, sentAt: string) {
+  const [table, id] = recipient.lead_id
+    ? ['leads', recipient.lead_id]
+    : recipient.contact_id
+      ? ['contacts', recipient.contact_id]
+      : ['accounts', recipient.account_id];
+  if (id) await supabase.from(table).update({ last_contacted_at: sentAt }).eq('id', id);
+}
+
+async function sendToRecipient(supabase: SupabaseClient, job: BulkEmailJob, recipient: BulkEmailRecipient) {
+  const context = await loadTemplateContext(supabase, recipient, job.created_by);
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+  const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+  const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY')!;
+
+  let response: Response;
+  try {
+    response = await fetch(`${supabaseUrl}/functions/v1/send-email`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${supabaseServiceKey}`,
+        'apikey': supabaseAnonKey,
+      },
+      body: JSON.stringify({
+        to: recipient.recipient_email,
+        toName: recipient.recipient_name || undefined,
+        from: job.sender_email,
+        subject: renderTemplate(job.subject, context).output,
+        body: renderTemplate(job.body, context, { html: true }).output,
+        entityType: recipient.lead_id ? 'lead' : recipient.contact_id ? 'contact' : recipient.account_id ? 'account' : undefined,
+        entityId: recipient.lead_id || recipient.contact_id || recipient.account_id || undefined,
+        sentBy: job.created_by,
+        consentTopic: 'marketing',
+      }),
+    });
+  } catch (error: unknown) {
+    return { ok: false, transient: true, error: error instanceof Error ? error.message : String(error) };
+  }
+
+  if (!response.ok) {
+    // 4xx means the request itself is bad (e.g. invalid address); retrying will not help.
+    // 409 is an unsubscribed recipient, which is skipped rather than counted as a failure.
+    return {
+      ok: false,
+      transient: response.status >= 500,
+      suppressed: response.status === 409,
+      error: await response.text(),
+    };
+  }
+  const { emailId } = await response.json();
+  return { ok: true, emailId: (emailId as string) || null };
+}
+
+async function processJob(supabase: SupabaseClient, job: BulkEmailJob, deadline: number) {
+  const now = new Date();
+  const budget = Math.min(job.rate_per_minute, await getRemainingQuota(supabase, job.sender_email, now));
+  if (budget === 0) {
+    console.log(`Bulk job ${job.id}: hourly quota for ${job.sender_email} reached, waiting`);
+    return { jobId: job.id, sent: 0, failed: 0, reason: 'quota_reached' };
+  }
+
+  const { data: recipients, error } = await supabase
+    .from('bulk_email_recipients')
+    .select('id, lead_id, contact_id, account_id, recipient_email, recipient_name, attempts')
+    .eq('job_id', job.id)
+    .eq('status', 'pending')
+    .or(`next_attempt_at.is.null,next_attempt_at.lte.${now.toISOString()}`)
+    .order('next_attempt_at', { ascending: true, nullsFirst: true })
+    .limit(budget);
+  if (error) throw new Error(`Failed to load recipients: ${error.message}`);
+
+  let sent = 0;
+  let failed = 0;
+  let lastError: string | null = null;
+
+  for (const recipient of (recipients || []) as BulkEmailRecipient[]) {
+    if (Date.now() > deadline) break;
+    // Pause and cancel take effect between sends
+    if (!(await isJobRunning(supabase, job.id))) break;
+
+    const { data: claimed } = await supabase
+      .from('bulk_email_recipients')
+      .update({ status: 'sending', locked_at: new Date().toISOString() })
+      .eq('id', recipient.id)
+      .eq('status', 'pending')
+      .select('id');
+    if (!claimed?.length) continue;
+
+    const result = await sendToRecipient(supabase, job, recipient);
+    const attempts = recipient.attempts + 1;
+
+    if (result.ok) {
+      const sentAt = new Date().toISOString();
+      await supabase
+        .from('bulk_email_recipients')
+        .update({ status: 'sent', attempts, locked_at: null, last_error: null, email_history_id: result.emailId, sent_at: sentAt })
+        .eq('id', recipient.id);
+      await markContacted(supabase, recipient, sentAt);
+      sent++;
+      continue;
+    }
+
+    if (result.suppressed) {
+      await supabase
+        .from('bulk_email_recipients')
+        .update({ status: 'cancelled', attempts, locked_at: null, last_error: 'Recipient unsubscribed' })
+        .eq('id', recipient.id);
+      continue;
+    }
+
+    lastError = result.error;
+    const retry = result.transient && attempts < MAX_SEND_ATTEMPTS;
+    console.error(`Bulk job ${job.id}: ${recipient.recipient_email} failed (${attempts}/${MAX_SEND_ATTEMPTS}):`, result.error);
+    await supabase
+      .from('bulk_email_recipients')
+      .update({
+        status: retry ? 'pending' : 'failed',
+        attempts,
+        locked_at: null,
+        last_error: result.error,
+        next_attempt_at: retry
+          ? new Date(Date.now() + RETRY_BASE_MINUTES * 2 ** (attempts - 1) * 60 * 1000).toISOString()
+          : null,
+      })
+      .eq('id', recipient.id);
+    if (!retry) failed++;
+  }
+
+  if (lastError) {
+    await supabase.from('bulk_email_jobs').update({ last_error: lastError }).eq('id', job.id);
+  }
+  const { error: refreshError } = await supabase.rpc('refresh_bulk_email_job', { p_job_id: job.id });
+  if (refreshError) console.error(`Failed to refresh bulk job ${job.id}:`, refreshError);
+
+  return { jobId: job.id, sent, failed };
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey);
+    const deadline = Date.now() + RUN_BUDGET_MS;
+
+    // Optional body: { jobId } processes one job immediately ("Send now")
+    let jobId: string | null = null;
+    try {
+      const body = await req.json();
+      jobId = body?.jobId || null;
+    } catch {
+      // No body - regular cron invocation
+    }
+
+    const now = new Date();
+    await startDueJobs(supabaseAdmin, now, jobId);
+    await releaseStaleLocks(supabaseAdmin, now);
+
+    let query = supabaseAdmin
+      .from('bulk_email_jobs')
+      .select('id, subject, body, sender_email, status, rate_per_minute, created_by')
+      .eq('status', 'running')
+      .order('started_at');
+    if (jobId) query = query.eq('id', jobId);
+    const { data: jobs, error } = await query;
+
+    if (error) {
+      console.error('Error fetching running bulk jobs:', error);
+      throw new Error(`Failed to fetch running bulk jobs: ${error.message}`);
+    }
+
+    const results: Record<string, unknown>[] = [];
+    let sent = 0;
+
+    for (const job of (jobs || []) as BulkEmailJob[]) {
+      if (Date.now() > deadline) break;
+      try {
+        const result = await processJob(supabaseAdmin, job, deadline);
+        sent += result.sent;
+        results.push(result);
+      } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        console.error(`Error processing bulk job ${job.id}:`, error);
+        results.push({ jobId: job.id, success: false, error: errorMessage });
+      }
+    }
+
+    console.log(`Bulk email run complete. Running jobs: ${jobs?.length || 0}, sent: ${sent}`);
+
+    return new Response(
+      JSON.stringify({ success: true, jobs: jobs?.length || 0, sent, results }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error('Bulk email jobs error:', error);
+    return new Response(
+      JSON.stringify({ error: errorMessage }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
+    );
+  }
+});
@@ -1,42 +1,13 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getEmailTransport, type EmailTransport } from "../_shared/email/index.ts";
+import { rescoreRecords } from "../_shared/scoring.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
-async function getAccessToken(): Promise<string> {
-  const tenantId = Deno.env.get("AZURE_EMAIL_TENANT_ID") || Deno.env.get("AZURE_TENANT_ID");
-  const clientId = Deno.env.get("AZURE_EMAIL_CLIENT_ID") || Deno.env.get("AZURE_CLIENT_ID");
-  const clientSecret = Deno.env.get("AZURE_EMAIL_CLIENT_SECRET") || Deno.env.get("AZURE_CLIENT_SECRET");
-
-  if (!tenantId || !clientId || !clientSecret) {
-    throw new Error("Azure credentials not configured");
-  }
-
-  const tokenUrl = `https://login.microsoftonline.com/${tenantId}/oauth2/v2.0/token`;
-  
-  const response = await fetch(tokenUrl, {
-    method: "POST",
-    headers: { "Content-Type": "application/x-www-form-urlencoded" },
-    body: new URLSearchParams({
-      client_id: clientId,
-      client_secret: clientSecret,
-      scope: "https://graph.microsoft.com/.default",
-      grant_type: "client_credentials",
-    }),
-  });
-
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`Failed to get access token: ${error}`);
-  }
-
-  const data = await response.json();
-  return data.access_token;
-}
-
 interface ReplyInfo {
   from_email: string;
   from_name: string | null;
@@ -49,7 +20,7 @@ interface ReplyInfo {
 }
 
 async function fetchInboxReplies(
-  accessToken: string,
+  transport: EmailTransport,
   senderEmail: string,
   sinceDate: string
 ): Promise<ReplyInfo[]> {
@@ -57,95 +28,67 @@ async function fetchInboxReplies(
   const senderEmailLower = senderEmail.toLowerCase();
   
   try {
-    // Fetch recent messages from inbox with headers AND recipients
-    // Added toRecipients and ccRecipients to verify the message was sent TO this mailbox
-    const searchUrl = `https://graph.microsoft.com/v1.0/users/${encodeURIComponent(senderEmail)}/mailFolders/Inbox/messages?$filter=receivedDateTime ge ${sinceDate}&$select=id,subject,from,toRecipients,ccRecipients,receivedDateTime,bodyPreview,internetMessageHeaders,conversationId&$top=100&$orderby=receivedDateTime desc`;
-
-    const response = await fetch(searchUrl, {
-      headers: { Authorization: `Bearer ${accessToken}` },
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error(`Failed to fetch inbox for ${senderEmail}: ${response.status} - ${errorText.substring(0, 200)}`);
-      return replies;
-    }
-
-    const messagesData = await response.json();
-    const messages = messagesData.value || [];
+    const messages = await transport.listMessages(senderEmail, { since: sinceDate, folders: ["inbox"] });
     
     console.log(`Processing ${messages.length} inbox messages for ${senderEmail}`);
     
     for (const msg of messages) {
-      const fromEmail = (msg.from?.emailAddress?.address || '').toLowerCase();
+      const fromEmail = msg.from_email.toLowerCase();
       
       // CRITICAL FIX: Skip self-sent messages (sent by the same mailbox owner)
       // This prevents treating our own sent emails as "received" replies
       if (fromEmail === senderEmailLower) {
-        console.log(`⏭️ Skipping self-sent message: ${msg.subject?.substring(0, 50)}`);
+        console.log(`⏭️ Skipping self-sent message: ${msg.subject.substring(0, 50)}`);
         continue;
       }
       
       // Verify the message was addressed TO this mailbox (not just in inbox due to forwarding/rules)
-      const toRecipients = msg.toRecipients || [];
-      const ccRecipients = msg.ccRecipients || [];
-      const allRecipients = [...toRecipients, ...ccRecipients];
-      const isAddressedToSender = allRecipients.some(
-        (r: any) => r.emailAddress?.address?.toLowerCase() === senderEmailLower
-      );
-      
-      if (!isAddressedToSender) {
-        console.log(`⏭️ Skipping message not addressed to ${senderEmail}: ${msg.subject?.substring(0, 50)}`);
+      if (!msg.recipients.includes(senderEmailLower)) {
+        console.log(`⏭️ Skipping message not addressed to ${senderEmail}: ${msg.subject.substring(0, 50)}`);
         continue;
       }
       
       // Look for In-Reply-To or References header
-      const headers = msg.internetMessageHeaders || [];
-      const inReplyTo = headers.find((h: any) => h.name.toLowerCase() === 'in-reply-to')?.value;
-      const references = headers.find((h: any) => h.name.toLowerCase() === 'references')?.value;
+      const inReplyTo = msg.in_reply_to;
+      const references = msg.references;
       
       // Get the conversationId for fallback matching
-      const conversationId = msg.conversationId || null;
+      const conversationId = msg.conversation_id;
       
       // Require reply headers (In-Reply-To or References) to identify as a reply
       // Only use conversationId as fallback if subject starts with "Re:" or "RE:"
-      const hasReplyHeaders = !!inReplyTo || !!references;
-      const hasReSubject = msg.subject && /^re:/i.test(msg.subject.trim());
+      const hasReplyHeaders = !!inReplyTo || references.length > 0;
+      const hasReSubject = /^re:/i.test(msg.subject.trim());
       
       if (!hasReplyHeaders && !conversationId) {
-        console.log(`⏭️ Skipping non-reply message (no headers, no conversationId): ${msg.subject?.substring(0, 50)}`);
+        console.log(`⏭️ Skipping non-reply message (no headers, no conversationId): ${msg.subject.substring(0, 50)}`);
         continue;
       }
       
       // If no reply headers but has conversationId, only include if subject starts with "Re:"
       if (!hasReplyHeaders && conversationId && !hasReSubject) {
-        console.log(`⏭️ Skipping message with conversationId but no Re: subject: ${msg.subject?.substring(0, 50)}`);
+        console.log(`⏭️ Skipping message with conversationId but no Re: subject: ${msg.subject.substring(0, 50)}`);
         continue;
       }
       
-      // Extract the message ID being replied to
-      let replyToMessageId = inReplyTo;
-      if (!replyToMessageId && references) {
-        // References header contains space-separated list of message IDs, take the last one
-        const refList = references.split(/\s+/);
-        replyToMessageId = refList[refList.length - 1];
-      }
+      // Extract the message ID being replied to; References lists the thread, newest last
+      let replyToMessageId = inReplyTo || references[references.length - 1] || null;
       
       // Clean the message ID (remove angle brackets if present)
       if (replyToMessageId) {
         replyToMessageId = replyToMessageId.replace(/^<|>$/g, '');
       }
       
-      console.log(`✅ Valid reply candidate from ${fromEmail}: ${msg.subject?.substring(0, 50)}`);
+      console.log(`✅ Valid reply candidate from ${fromEmail}: ${msg.subject.substring(0, 50)}`);
       
       replies.push({
-        from_email: msg.from?.emailAddress?.address || '',
-        from_name: msg.from?.emailAddress?.name || null,
-        subject: msg.subject || '',
-        body_preview: (msg.bodyPreview || '').substring(0, 500),
-        received_at: msg.receivedDateTime,
+        from_email: msg.from_email,
+        from_name: msg.from_name,
+        subject: msg.subject,
+        body_preview: msg.body_preview,
+        received_at: msg.received_at,
         graph_message_id: msg.id,
-        in_reply_to: replyToMessageId || null,
+        in_reply_to: replyToMessageId,
         conversation_id: conversationId,
       });
     }
@@ -171,15 +114,14 @@ serve(async (req: Request) => {
     const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
-    let accessToken: string;
+    const transport = await getEmailTransport(supabase);
     try {
-      accessToken = await getAccessToken();
-      console.log("Successfully obtained Azure access token");
-    } catch (tokenError) {
-      console.error("Failed to get access token:", tokenError);
+      await transport.verify();
+    } catch (transportError) {
+      console.error("Email transport unavailable:", transportError);
       return new Response(JSON.stringify({ 
         success: false, 
-        error: "Azure authentication failed",
+        error: "Email transport authentication failed",
       }), {
         status: 500,
         headers: { ...corsHeaders, "Content-Type": "application/json" },
@@ -193,7 +135,7 @@ serve(async (req: Request) => {
     
     const { data: sentEmails, error: sentError } = await supabase
       .from('email_history')
-      .select('id, sender_email, recipient_email, subject, message_id, conversation_id, sent_by, reply_count, sent_at')
+      .select('id, sender_email, recipient_email, subject, message_id, conversation_id, sent_by, reply_count, sent_at, contact_id, lead_id')
       .gte('sent_at', sinceDate)
       .not('status', 'eq', 'bounced')
       .order('sent_at', { ascending: false });
@@ -252,7 +194,7 @@ serve(async (req: Request) => {
     for (const [senderEmail, emails] of emailsBySender.entries()) {
       console.log(`Checking replies for ${senderEmail} (${emails.length} sent emails)`);
       
-      const replies = await fetchInboxReplies(accessToken, senderEmail, sinceDate);
+      const replies = await fetchInboxReplies(transport, senderEmail, sinceDate);
       console.log(`Found ${replies.length} valid reply candidates in inbox`);
       
       // Create maps for quick lookup
@@ -373,6 +315,10 @@ serve(async (req: Request) => {
             console.error(`Failed to update email history:`, updateError);
             continue;
           }
+
+          if (isFirstReply) {
+            await rescoreRecords(supabase, originalEmail, 'email_reply');
+          }
           
           // Create notification for the sender
           if (originalEmail.sent_by) {
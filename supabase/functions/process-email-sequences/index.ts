@@ -0,0 +1,336 @@
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.80.0'
+import { loadTemplateContext, renderTemplate } from '../_shared/email/index.ts'
+
+// Sends the due steps of active sequence enrollments. Invoked by the external scheduler
+// every few minutes; each run handles at most BATCH_SIZE enrollments.
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+interface Sequence {
+  id: string;
+  name: string;
+  is_active: boolean;
+  business_hours_start: string;
+  business_hours_end: string;
+  business_days: number[];
+}
+
+interface Enrollment {
+  id: string;
+  sequence_id: string;
+  lead_id: string | null;
+  contact_id: string | null;
+  recipient_email: string;
+  recipient_name: string | null;
+  timezone: string;
+  current_step: number;
+  next_send_at: string | null;
+  last_email_id: string | null;
+  send_attempts: number;
+  enrolled_by: string | null;
+  email_sequences: Sequence | null;
+}
+
+interface Step {
+  id: string;
+  step_order: number;
+  day_offset: number;
+  template_id: string;
+  reply_to_previous: boolean;
+}
+
+const BATCH_SIZE = 50;
+const MAX_SEND_ATTEMPTS = 3;
+const RETRY_MINUTES = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+interface ZonedParts {
+  year: number;
+  month: number;
+  day: number;
+  minutes: number;
+  isoWeekday: number;
+}
+
+function getZonedParts(date: Date, timeZone: string): ZonedParts {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      weekday: 'short',
+    }).formatToParts(date).map(p => [p.type, p.value])
+  );
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    minutes: Number(parts.hour) * 60 + Number(parts.minute),
+    isoWeekday: WEEKDAYS.indexOf(parts.weekday) + 1,
+  };
+}
+
+// UTC instant of a wall-clock time in `timeZone`; the second pass settles DST transitions
+function zonedTimeToUtc(year: number, month: number, day: number, minutes: number, timeZone: string): Date {
+  const wallClock = Date.UTC(year, month - 1, day, 0, minutes);
+  let utc = wallClock;
+  for (let i = 0; i < 2; i++) {
+    const p = getZonedParts(new Date(utc), timeZone);
+    const seen = Date.UTC(p.year, p.month - 1, p.day, 0, p.minutes);
+    utc += wallClock - seen;
+  }
+  return new Date(utc);
+}
+
+function parseTime(value: string): number {
+  const [hours, minutes] = value.split(':').map(Number);
+  return (hours || 0) * 60 + (minutes || 0);
+}
+
+// Earliest instant at or after `target` inside the sequence's business hours in `timeZone`
+function alignToBusinessHours(target: Date, sequence: Sequence, timeZone: string): Date {
+  const start = parseTime(sequence.business_hours_start);
+  const end = parseTime(sequence.business_hours_end);
+  const local = getZonedParts(target, timeZone);
+
+  for (let offset = 0; offset <= 7; offset++) {
+    const day = new Date(Date.UTC(local.year, local.month - 1, local.day + offset));
+    const isoWeekday = day.getUTCDay() || 7;
+    if (!sequence.business_days.includes(isoWeekday)) continue;
+    if (offset === 0) {
+      if (local.minutes >= end) continue;
+      if (local.minutes >= start) return target;
+    }
+    return zonedTimeToUtc(day.getUTCFullYear(), day.getUTCMonth() + 1, day.getUTCDate(), start, timeZone);
+  }
+  return target;
+}
+
+function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function resolveSender(supabase: SupabaseClient, enrollment: Enrollment): Promise<string | null> {
+  if (enrollment.enrolled_by) {
+    const { data } = await supabase
+      .from('profiles')
+      .select('"Email ID"')
+      .eq('id', enrollment.enrolled_by)
+      .maybeSingle();
+    if (data?.['Email ID']) return data['Email ID'];
+  }
+  return Deno.env.get('SEQUENCES_SENDER_EMAIL') || null;
+}
+
+async function finishEnrollment(supabase: SupabaseClient, enrollmentId: string, fields: Record<string, unknown>) {
+  // Only active rows: a reply or bounce may have stopped the enrollment mid-run
+  await supabase
+    .from('email_sequence_enrollments')
+    .update({ next_send_at: null, stopped_at: new Date().toISOString(), ...fields })
+    .eq('id', enrollmentId)
+    .eq('status', 'active');
+}
+
+async function processEnrollment(supabase: SupabaseClient, enrollment: Enrollment, now: Date) {
+  const sequence = enrollment.email_sequences;
+  if (!sequence) return { enrollmentId: enrollment.id, skipped: true, reason: 'sequence_missing' };
+  if (!sequence.is_active) return { enrollmentId: enrollment.id, skipped: true, reason: 'sequence_paused' };
+
+  const timeZone = isValidTimeZone(enrollment.timezone) ? enrollment.timezone : 'UTC';
+  const sendAt = alignToBusinessHours(now, sequence, timeZone);
+  if (sendAt > now) {
+    await supabase
+      .from('email_sequence_enrollments')
+      .update({ next_send_at: sendAt.toISOString() })
+      .eq('id', enrollment.id)
+      .eq('status', 'active');
+    return { enrollmentId: enrollment.id, skipped: true, reason: 'outside_business_hours', nextSendAt: sendAt.toISOString() };
+  }
+
+  const { data: steps, error: stepsError } = await supabase
+    .from('email_sequence_steps')
+    .select('id, step_order, day_offset, template_id, reply_to_previous')
+    .eq('sequence_id', sequence.id)
+    .gte('step_order', enrollment.current_step)
+    .order('step_order')
+    .limit(2);
+  if (stepsError) throw new Error(`Failed to load steps: ${stepsError.message}`);
+
+  const [step, nextStep] = (steps || []) as Step[];
+  if (!step) {
+    await finishEnrollment(supabase, enrollment.id, { status: 'completed', stop_reason: 'No steps left' });
+    return { enrollmentId: enrollment.id, status: 'completed' };
+  }
+
+  const recordFailure = async (message: string) => {
+    const attempts = enrollment.send_attempts + 1;
+    console.error(`Sequence enrollment ${enrollment.id} step ${step.step_order} failed (${attempts}/${MAX_SEND_ATTEMPTS}):`, message);
+    if (attempts >= MAX_SEND_ATTEMPTS) {
+      await finishEnrollment(supabase, enrollment.id, {
+        status: 'failed',
+        send_attempts: attempts,
+        last_error: message,
+        stop_reason: `Step ${step.step_order} could not be sent`,
+      });
+    } else {
+      await supabase
+        .from('email_sequence_enrollments')
+        .update({
+          send_attempts: attempts,
+          last_error: message,
+          next_send_at: new Date(now.getTime() + RETRY_MINUTES * 60 * 1000).toISOString(),
+        })
+        .eq('id', enrollment.id)
+        .eq('status', 'active');
+    }
+    return { enrollmentId: enrollment.id, success: false, error: message };
+  };
+
+  const { data: template } = await supabase
+    .from('email_templates')
+    .select('subject, body')
+    .eq('id', step.template_id)
+    .maybeSingle();
+  if (!template) return recordFailure('Template not found');
+
+  const sender = await resolveSender(supabase, enrollment);
+  if (!sender) return recordFailure('No sender mailbox: enrolling user has no email and SEQUENCES_SENDER_EMAIL is not set');
+
+  const context = await loadTemplateContext(supabase, enrollment, enrollment.enrolled_by);
+  let subject = renderTemplate(template.subject, context).output;
+  let parentEmailId: string | undefined;
+  if (step.reply_to_previous && enrollment.last_email_id) {
+    const { data: previous } = await supabase
+      .from('email_history')
+      .select('id, subject')
+      .eq('id', enrollment.last_email_id)
+      .maybeSingle();
+    if (previous) {
+      parentEmailId = previous.id;
+      subject = previous.subject || subject;
+    }
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+  const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+  const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY')!;
+
+  const response = await fetch(`${supabaseUrl}/functions/v1/send-email`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${supabaseServiceKey}`,
+      'apikey': supabaseAnonKey,
+    },
+    body: JSON.stringify({
+      to: enrollment.recipient_email,
+      toName: enrollment.recipient_name || undefined,
+      from: sender,
+      subject,
+      body: renderTemplate(template.body, context, { html: true }).output,
+      entityType: enrollment.lead_id ? 'lead' : 'contact',
+      entityId: enrollment.lead_id || enrollment.contact_id,
+      parentEmailId,
+      isReply: !!parentEmailId,
+      sequenceEnrollmentId: enrollment.id,
+      sequenceStepId: step.id,
+      sentBy: enrollment.enrolled_by,
+      consentTopic: 'sequences',
+    }),
+  });
+
+  if (response.status === 409) {
+    await finishEnrollment(supabase, enrollment.id, { status: 'stopped', stop_reason: 'Recipient unsubscribed' });
+    return { enrollmentId: enrollment.id, status: 'stopped', reason: 'unsubscribed' };
+  }
+  if (!response.ok) return recordFailure(await response.text());
+  const { emailId } = await response.json();
+
+  const progress = nextStep
+    ? {
+        current_step: nextStep.step_order,
+        next_send_at: alignToBusinessHours(
+          new Date(now.getTime() + nextStep.day_offset * DAY_MS),
+          sequence,
+          timeZone
+        ).toISOString(),
+      }
+    : { status: 'completed', next_send_at: null, stopped_at: now.toISOString(), stop_reason: 'All steps sent' };
+
+  await supabase
+    .from('email_sequence_enrollments')
+    .update({ ...progress, last_email_id: emailId || null, send_attempts: 0, last_error: null })
+    .eq('id', enrollment.id)
+    .eq('status', 'active');
+
+  console.log(`Sent step ${step.step_order} of "${sequence.name}" to ${enrollment.recipient_email}`);
+  return { enrollmentId: enrollment.id, success: true, step: step.step_order, emailId };
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey);
+
+    const now = new Date();
+    const { data: enrollments, error } = await supabaseAdmin
+      .from('email_sequence_enrollments')
+      .select('*, email_sequences(id, name, is_active, business_hours_start, business_hours_end, business_days)')
+      .eq('status', 'active')
+      .lte('next_send_at', now.toISOString())
+      .order('next_send_at')
+      .limit(BATCH_SIZE);
+
+    if (error) {
+      console.error('Error fetching due enrollments:', error);
+      throw new Error(`Failed to fetch due enrollments: ${error.message}`);
+    }
+
+    const results: Record<string, unknown>[] = [];
+    let sent = 0;
+
+    for (const enrollment of (enrollments || []) as Enrollment[]) {
+      try {
+        const result = await processEnrollment(supabaseAdmin, enrollment, now);
+        if (result.success) sent++;
+        results.push(result);
+      } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        console.error(`Error processing enrollment ${enrollment.id}:`, error);
+        results.push({ enrollmentId: enrollment.id, success: false, error: errorMessage });
+      }
+    }
+
+    console.log(`Email sequence run complete. Due: ${enrollments?.length || 0}, sent: ${sent}`);
+
+    return new Response(
+      JSON.stringify({ success: true, due: enrollments?.length || 0, sent, results }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error('Email sequences error:', error);
+    return new Response(
+      JSON.stringify({ error: errorMessage }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
+    );
+  }
+});
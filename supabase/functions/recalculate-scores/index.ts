@@ -0,0 +1,103 @@
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.80.0'
+
+// Re-scores every lead and contact so time decay of behavioural signals takes effect. Invoked
+// by the external scheduler nightly. A run that hits the time budget returns `resume`; posting
+// it back as the body ({ entityType, after }) continues where it stopped.
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+type EntityType = 'lead' | 'contact';
+
+const ENTITY_TYPES: EntityType[] = ['lead', 'contact'];
+const BATCH_SIZE = 200;
+// Stay well inside the edge function wall-clock limit
+const RUN_BUDGET_MS = 50_000;
+
+interface BatchResult {
+  processed: number;
+  changed: number;
+  last_id: string | null;
+}
+
+async function recalculateEntity(
+  supabase: SupabaseClient,
+  entityType: EntityType,
+  after: string | null,
+  deadline: number
+) {
+  let cursor = after;
+  let processed = 0;
+  let changed = 0;
+
+  do {
+    const { data, error } = await supabase.rpc('recalculate_record_scores', {
+      p_entity_type: entityType,
+      p_after: cursor,
+      p_limit: BATCH_SIZE,
+    });
+    if (error) throw new Error(`Failed to recalculate ${entityType} scores: ${error.message}`);
+
+    const batch = data as BatchResult;
+    processed += batch.processed;
+    changed += batch.changed;
+    cursor = batch.last_id;
+  } while (cursor && Date.now() < deadline);
+
+  return { processed, changed, resumeAfter: cursor };
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey);
+    const deadline = Date.now() + RUN_BUDGET_MS;
+
+    let startType: EntityType = 'lead';
+    let after: string | null = null;
+    try {
+      const body = await req.json();
+      if (ENTITY_TYPES.includes(body?.entityType)) startType = body.entityType;
+      after = body?.after || null;
+    } catch {
+      // No body - regular cron invocation
+    }
+
+    const results: Record<string, unknown> = {};
+    let resume: { entityType: EntityType; after: string | null } | null = null;
+
+    for (const entityType of ENTITY_TYPES.slice(ENTITY_TYPES.indexOf(startType))) {
+      if (Date.now() > deadline) {
+        resume = { entityType, after: null };
+        break;
+      }
+      const result = await recalculateEntity(supabaseAdmin, entityType, entityType === startType ? after : null, deadline);
+      results[entityType] = { processed: result.processed, changed: result.changed };
+      if (result.resumeAfter) {
+        resume = { entityType, after: result.resumeAfter };
+        break;
+      }
+    }
+
+    console.log(`Score recalculation ${resume ? 'paused' : 'complete'}:`, JSON.stringify(results));
+
+    return new Response(
+      JSON.stringify({ success: true, complete: !resume, results, resume }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error('Error in recalculate-scores function:', error);
+    return new Response(
+      JSON.stringify({ success: false, error: errorMessage }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -0,0 +1,808 @@
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.80.0'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+interface ReportSchedule {
+  id: string;
+  name: string;
+  report_type: string;
+  frequency: string;
+  day_of_week: number | null;
+  day_of_month: number | null;
+  time_of_day: string;
+  recipients: string[] | null;
+  filters: ReportFilters | null;
+  is_enabled: boolean | null;
+  last_sent_at: string | null;
+  next_run_at: string | null;
+  created_by: string | null;
+}
+
+interface ReportFilters {
+  period_days?: number;
+  owner_id?: string;
+  region?: string;
+}
+
+interface ReportTable {
+  title: string;
+  columns: string[];
+  rows: (string | number | null)[][];
+}
+
+interface BuiltReport {
+  title: string;
+  summary: { label: string; value: string }[];
+  tables: ReportTable[];
+  csv: ReportTable;
+}
+
+// Used until pipeline_stages is populated, like DEFAULT_PIPELINE_STAGES in the app
+const DEFAULT_WON_STAGES = ['Won'];
+const DEFAULT_LOST_STAGES = ['Lost', 'Dropped'];
+const REPORT_TITLES: Record<string, string> = {
+  deals_summary: 'Deals Summary',
+  leads_activity: 'Leads Activity',
+  pipeline_status: 'Pipeline Status',
+  revenue_forecast: 'Revenue Forecast',
+  team_performance: 'Team Performance',
+  lead_conversion: 'Lead Conversion',
+};
+// A missed run is still delivered if the function is invoked within this window
+const CATCH_UP_HOURS = 24;
+// Stop retrying an occurrence after this many failed runs
+const MAX_FAILED_ATTEMPTS = 3;
+
+function getTimeParts(schedule: ReportSchedule): [number, number] {
+  const [hours, minutes] = (schedule.time_of_day || '08:00').split(':').map(Number);
+  return [hours || 0, minutes || 0];
+}
+
+// Most recent scheduled occurrence at or before `now` (times are UTC)
+function getLastOccurrence(schedule: ReportSchedule, now: Date): Date {
+  const [hours, minutes] = getTimeParts(schedule);
+  const occurrence = new Date(now);
+  occurrence.setUTCHours(hours, minutes, 0, 0);
+
+  if (schedule.frequency === 'weekly') {
+    const targetDay = schedule.day_of_week ?? 1;
+    const diff = (occurrence.getUTCDay() - targetDay + 7) % 7;
+    occurrence.setUTCDate(occurrence.getUTCDate() - diff);
+    if (occurrence > now) occurrence.setUTCDate(occurrence.getUTCDate() - 7);
+  } else if (schedule.frequency === 'monthly') {
+    const targetDate = Math.min(schedule.day_of_month ?? 1, 28);
+    occurrence.setUTCDate(targetDate);
+    if (occurrence > now) occurrence.setUTCMonth(occurrence.getUTCMonth() - 1);
+  } else if (occurrence > now) {
+    occurrence.setUTCDate(occurrence.getUTCDate() - 1);
+  }
+
+  return occurrence;
+}
+
+function calculateNextRunTime(schedule: ReportSchedule, now: Date): Date {
+  const next = getLastOccurrence(schedule, now);
+  if (schedule.frequency === 'weekly') {
+    next.setUTCDate(next.getUTCDate() + 7);
+  } else if (schedule.frequency === 'monthly') {
+    next.setUTCMonth(next.getUTCMonth() + 1);
+  } else {
+    next.setUTCDate(next.getUTCDate() + 1);
+  }
+  return next;
+}
+
+function isDue(schedule: ReportSchedule, now: Date): boolean {
+  if (!schedule.is_enabled) return false;
+
+  const lastOccurrence = getLastOccurrence(schedule, now);
+  const hoursSinceOccurrence = (now.getTime() - lastOccurrence.getTime()) / (1000 * 60 * 60);
+  if (hoursSinceOccurrence > CATCH_UP_HOURS) return false;
+
+  return !schedule.last_sent_at || new Date(schedule.last_sent_at) < lastOccurrence;
+}
+
+function getDefaultPeriodDays(frequency: string): number {
+  if (frequency === 'daily') return 1;
+  if (frequency === 'monthly') return 30;
+  return 7;
+}
+
+const escapeHtml = (value: unknown): string =>
+  String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+// RFC 4180: quote fields containing separators, quotes or line breaks
+const escapeCsv = (value: unknown): string => {
+  const text = String(value ?? '');
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const formatDate = (value: string | null): string => (value ? value.split('T')[0] : '');
+
+interface ReportDeal {
+  id: string;
+  stage: string;
+  total_contract_value: number | null;
+  total_revenue: number | null;
+  currency_type: string | null;
+  expected_closing_date: string | null;
+  signed_contract_date: string | null;
+  created_at: string | null;
+}
+
+interface ExchangeRate {
+  from_currency: string;
+  to_currency: string;
+  rate: number;
+  effective_date: string;
+}
+
+// Deals created before currency_type existed were entered in EUR
+const DEFAULT_DEAL_CURRENCY = 'EUR';
+
+const originalValue = (deal: ReportDeal): number => Number(deal.total_contract_value ?? deal.total_revenue ?? 0);
+
+const dealCurrency = (deal: ReportDeal): string => deal.currency_type || DEFAULT_DEAL_CURRENCY;
+
+// Won and lost stages from the pipeline configuration
+async function loadStages(supabase: SupabaseClient) {
+  const { data, error } = await supabase.from('pipeline_stages').select('stage_name, is_won_stage, is_lost_stage');
+  if (error) throw new Error(`Failed to load pipeline stages: ${error.message}`);
+  const stages = data || [];
+  const won = new Set(stages.length ? stages.filter(s => s.is_won_stage).map(s => s.stage_name) : DEFAULT_WON_STAGES);
+  const lost = new Set(stages.length ? stages.filter(s => s.is_lost_stage).map(s => s.stage_name) : DEFAULT_LOST_STAGES);
+  return {
+    isWon: (stage: string) => won.has(stage),
+    isLost: (stage: string) => lost.has(stage),
+    isClosed: (stage: string) => won.has(stage) || lost.has(stage),
+  };
+}
+
+type Stages = Awaited<ReturnType<typeof loadStages>>;
+
+/**
+ * Deal values in the company reporting currency, using the rate valid on the signing date for
+ * won deals and the expected close otherwise (same rules as src/utils/currencyConversion.ts).
+ */
+async function loadMoney(supabase: SupabaseClient, stages: Stages) {
+  const [{ data: settings }, { data: rateRows, error }] = await Promise.all([
+    supabase.from('currency_settings').select('reporting_currency').maybeSingle(),
+    supabase.from('exchange_rates').select('from_currency, to_currency, rate, effective_date').order('effective_date', { ascending: false }),
+  ]);
+  if (error) throw new Error(`Failed to load exchange rates: ${error.message}`);
+
+  const currency: string = settings?.reporting_currency || 'EUR';
+  const rates = (rateRows || []) as ExchangeRate[];
+  const currencies = new Set(rates.flatMap(r => [r.from_currency, r.to_currency]));
+  const missing = new Set<string>();
+
+  // Rates are newest first: latest on or before the date, else the earliest entry
+  const pick = (from: string, to: string, date: string): number | null => {
+    const pair = rates.filter(r => r.from_currency === from && r.to_currency === to);
+    if (pair.length === 0) return null;
+    return Number((pair.find(r => r.effective_date <= date) || pair[pair.length - 1]).rate);
+  };
+  const direct = (from: string, to: string, date: string): number | null => {
+    const rate = pick(from, to, date);
+    if (rate !== null) return rate;
+    const inverse = pick(to, from, date);
+    return inverse !== null ? 1 / inverse : null;
+  };
+  const getRate = (from: string, to: string, date: string): number | null => {
+    if (from === to) return 1;
+    const rate = direct(from, to, date);
+    if (rate !== null) return rate;
+    for (const via of currencies) {
+      if (via === from || via === to) continue;
+      const first = direct(from, via, date);
+      const second = first !== null ? direct(via, to, date) : null;
+      if (first !== null && second !== null) return first * second;
+    }
+    return null;
+  };
+
+  const value = (deal: ReportDeal): number => {
+    const date = ((stages.isWon(deal.stage) ? deal.signed_contract_date : null)
+      || deal.expected_closing_date || deal.signed_contract_date || deal.created_at || new Date().toISOString()).slice(0, 10);
+    const rate = getRate(dealCurrency(deal), currency, date);
+    if (rate === null) {
+      // Left out of totals rather than mixed in at face value
+      missing.add(deal.id);
+      return 0;
+    }
+    return originalValue(deal) * rate;
+  };
+
+  const format = (amount: number): string =>
+    new Intl.NumberFormat('en-US', { style: 'currency', currency, maximumFractionDigits: 0 }).format(amount || 0);
+
+  return { currency, value, format, missing };
+}
+
+async function loadOwnerNames(supabase: SupabaseClient): Promise<Record<string, string>> {
+  const { data } = await supabase.from('profiles').select('id, full_name');
+  const names: Record<string, string> = {};
+  for (const profile of data || []) {
+    names[profile.id] = profile.full_name?.trim() || 'Unknown User';
+  }
+  return names;
+}
+
+async function fetchDeals(supabase: SupabaseClient, filters: ReportFilters) {
+  let query = supabase
+    .from('deals')
+    .select('id, deal_name, customer_name, stage, total_contract_value, total_revenue, currency_type, probability, forecast_category, expected_closing_date, signed_contract_date, region, created_by, created_at, modified_at');
+
+  if (filters.owner_id) query = query.eq('created_by', filters.owner_id);
+  if (filters.region) query = query.eq('region', filters.region);
+
+  const { data, error } = await query.limit(5000);
+  if (error) throw new Error(`Failed to load deals: ${error.message}`);
+  return data || [];
+}
+
+async function fetchLeads(supabase: SupabaseClient, filters: ReportFilters, since: string) {
+  let query = supabase
+    .from('leads')
+    .select('id, lead_name, company_name, lead_status, contact_source, country, created_by, created_time')
+    .gte('created_time', since);
+
+  if (filters.owner_id) query = query.eq('created_by', filters.owner_id);
+
+  const { data, error } = await query.order('created_time', { ascending: false }).limit(5000);
+  if (error) throw new Error(`Failed to load leads: ${error.message}`);
+  return data || [];
+}
+
+// Forecast category per deal after manager overrides; unset counts as pipeline
+async function loadForecastCategories(supabase: SupabaseClient, deals: { id: string; forecast_category: string | null }[]) {
+  const categories = new Map(deals.map(d => [d.id, d.forecast_category || 'pipeline']));
+  const amounts = new Map<string, number>();
+  for (let i = 0; i < deals.length; i += 200) {
+    const { data, error } = await supabase
+      .from('deal_forecast_overrides')
+      .select('deal_id, category, amount')
+      .in('deal_id', deals.slice(i, i + 200).map(d => d.id));
+    if (error) throw new Error(`Failed to load forecast overrides: ${error.message}`);
+    for (const override of data || []) {
+      if (override.category) categories.set(override.deal_id, override.category);
+      if (override.amount !== null) amounts.set(override.deal_id, Number(override.amount));
+    }
+  }
+  return { categories, amounts };
+}
+
+const FORECAST_CATEGORY_LABELS: Record<string, string> = {
+  commit: 'Commit',
+  best_case: 'Best Case',
+  pipeline: 'Pipeline',
+};
+
+function countBy<T>(items: T[], key: (item: T) => string): [string, number][] {
+  const counts = new Map<string, number>();
+  for (const item of items) {
+    const k = key(item) || 'Unspecified';
+    counts.set(k, (counts.get(k) || 0) + 1);
+  }
+  return [...counts.entries()].sort((a, b) => b[1] - a[1]);
+}
+
+type Money = Awaited<ReturnType<typeof loadMoney>>;
+
+async function buildReport(
+  supabase: SupabaseClient,
+  schedule: ReportSchedule,
+  now: Date,
+  money: Money,
+  stages: Stages
+): Promise<BuiltReport> {
+  const filters = schedule.filters || {};
+  const periodDays = filters.period_days || getDefaultPeriodDays(schedule.frequency);
+  const since = new Date(now.getTime() - periodDays * 24 * 60 * 60 * 1000).toISOString();
+  const title = REPORT_TITLES[schedule.report_type] || schedule.report_type;
+  const names = await loadOwnerNames(supabase);
+  const ownerName = (id: string | null) => (id ? names[id] || 'Unknown User' : 'Unassigned');
+
+  switch (schedule.report_type) {
+    case 'deals_summary': {
+      const deals = (await fetchDeals(supabase, filters)).filter(d => (d.modified_at || d.created_at || '') >= since);
+      const won = deals.filter(d => stages.isWon(d.stage));
+      const lost = deals.filter(d => stages.isLost(d.stage));
+      const created = deals.filter(d => (d.created_at || '') >= since);
+      const rows = deals.map(d => [
+        d.deal_name, d.customer_name, d.stage, Math.round(money.value(d)), originalValue(d), dealCurrency(d), d.probability, formatDate(d.expected_closing_date), d.region, ownerName(d.created_by), formatDate(d.modified_at),
+      ]);
+      const columns = ['Deal', 'Customer', 'Stage', `Value (${money.currency})`, 'Original Value', 'Currency', 'Probability', 'Expected Close', 'Region', 'Owner', 'Last Updated'];
+      return {
+        title,
+        summary: [
+          { label: 'Deals updated', value: String(deals.length) },
+          { label: 'New deals', value: String(created.length) },
+          { label: 'Won', value: `${won.length} (${money.format(won.reduce((s, d) => s + money.value(d), 0))})` },
+          { label: 'Lost / dropped', value: String(lost.length) },
+        ],
+        tables: [{ title: 'Deals by stage', columns: ['Stage', 'Deals'], rows: countBy(deals, d => d.stage) }],
+        csv: { title: 'Deals', columns, rows },
+      };
+    }
+
+    case 'leads_activity': {
+      const leads = await fetchLeads(supabase, filters, since);
+      const rows = leads.map(l => [
+        l.lead_name, l.company_name, l.lead_status, l.contact_source, l.country, ownerName(l.created_by), formatDate(l.created_time),
+      ]);
+      return {
+        title,
+        summary: [
+          { label: 'New leads', value: String(leads.length) },
+          { label: 'Qualified', value: String(leads.filter(l => l.lead_status === 'Qualified').length) },
+          { label: 'Converted', value: String(leads.filter(l => l.lead_status === 'Converted').length) },
+        ],
+        tables: [
+          { title: 'Leads by status', columns: ['Status', 'Leads'], rows: countBy(leads, l => l.lead_status || '') },
+          { title: 'Leads by source', columns: ['Source', 'Leads'], rows: countBy(leads, l => l.contact_source || '') },
+        ],
+        csv: { title: 'Leads', columns: ['Lead', 'Company', 'Status', 'Source', 'Country', 'Owner', 'Created'], rows },
+      };
+    }
+
+    case 'pipeline_status': {
+      const open = (await fetchDeals(supabase, filters)).filter(d => !stages.isClosed(d.stage));
+      const byStage = new Map<string, { count: number; value: number }>();
+      for (const deal of open) {
+        const entry = byStage.get(deal.stage) || { count: 0, value: 0 };
+        entry.count++;
+        entry.value += money.value(deal);
+        byStage.set(deal.stage, entry);
+      }
+      const total = open.reduce((s, d) => s + money.value(d), 0);
+      return {
+        title,
+        summary: [
+          { label: 'Open deals', value: String(open.length) },
+          { label: 'Pipeline value', value: money.format(total) },
+          { label: 'Overdue closes', value: String(open.filter(d => d.expected_closing_date && d.expected_closing_date < now.toISOString().split('T')[0]).length) },
+        ],
+        tables: [{
+          title: 'Pipeline by stage',
+          columns: ['Stage', 'Deals', 'Value'],
+          rows: [...byStage.entries()].map(([stage, v]) => [stage, v.count, money.format(v.value)]),
+        }],
+        csv: {
+          title: 'Open deals',
+          columns: ['Deal', 'Customer', 'Stage', `Value (${money.currency})`, 'Original Value', 'Currency', 'Probability', 'Expected Close', 'Owner'],
+          rows: open.map(d => [d.deal_name, d.customer_name, d.stage, Math.round(money.value(d)), originalValue(d), dealCurrency(d), d.probability, formatDate(d.expected_closing_date), ownerName(d.created_by)]),
+        },
+      };
+    }
+
+    case 'revenue_forecast': {
+      // Forecast horizon looks forward instead of back
+      const horizon = new Date(now.getTime() + Math.max(periodDays, 90) * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+      const today = now.toISOString().split('T')[0];
+      const closing = (await fetchDeals(supabase, filters)).filter(d =>
+        !stages.isClosed(d.stage) && d.expected_closing_date && d.expected_closing_date >= today && d.expected_closing_date <= horizon
+      );
+      // Deals a manager or rep marked as omitted stay out of the forecast
+      const forecast = await loadForecastCategories(supabase, closing);
+      const open = closing
+        .filter(d => forecast.categories.get(d.id) !== 'omitted')
+        .map(d => forecast.amounts.has(d.id) ? { ...d, total_contract_value: forecast.amounts.get(d.id)! } : d);
+      const categoryOf = (d: { id: string }) => forecast.categories.get(d.id) || 'pipeline';
+
+      const byMonth = new Map<string, { value: number; weighted: number; commit: number; bestCase: number; count: number }>();
+      for (const deal of open) {
+        const month = deal.expected_closing_date!.slice(0, 7);
+        const entry = byMonth.get(month) || { value: 0, weighted: 0, commit: 0, bestCase: 0, count: 0 };
+        const value = money.value(deal);
+        entry.count++;
+        entry.value += value;
+        entry.weighted += value * (Number(deal.probability) || 0) / 100;
+        if (categoryOf(deal) === 'commit') entry.commit += value;
+        if (categoryOf(deal) !== 'pipeline') entry.bestCase += value;
+        byMonth.set(month, entry);
+      }
+      const sum = (key: 'weighted' | 'commit' | 'bestCase') => [...byMonth.values()].reduce((s, m) => s + m[key], 0);
+      return {
+        title,
+        summary: [
+          { label: 'Deals closing', value: String(open.length) },
+          { label: 'Unweighted', value: money.format(open.reduce((s, d) => s + money.value(d), 0)) },
+          { label: 'Weighted forecast', value: money.format(sum('weighted')) },
+          { label: 'Commit', value: money.format(sum('commit')) },
+          { label: 'Best case', value: money.format(sum('bestCase')) },
+        ],
+        tables: [{
+          title: 'Forecast by month',
+          columns: ['Month', 'Deals', 'Value', 'Weighted', 'Commit', 'Best Case'],
+          rows: [...byMonth.entries()].sort().map(([month, m]) => [
+            month, m.count, money.format(m.value), money.format(m.weighted), money.format(m.commit), money.format(m.bestCase),
+          ]),
+        }],
+        csv: {
+          title: 'Forecast deals',
+          columns: ['Deal', 'Customer', 'Stage', 'Category', `Value (${money.currency})`, 'Original Value', 'Currency', 'Probability', 'Weighted', 'Expected Close', 'Owner'],
+          rows: open.map(d => [
+            d.deal_name, d.customer_name, d.stage, FORECAST_CATEGORY_LABELS[categoryOf(d)] || categoryOf(d), Math.round(money.value(d)), originalValue(d), dealCurrency(d), d.probability,
+            Math.round(money.value(d) * (Number(d.probability) || 0) / 100), formatDate(d.expected_closing_date), ownerName(d.created_by),
+          ]),
+        },
+      };
+    }
+
+    case 'team_performance': {
+      const deals = await fetchDeals(supabase, filters);
+      const leads = await fetchLeads(supabase, filters, since);
+      const stats = new Map<string, { leads: number; open: number; openValue: number; won: number; wonValue: number }>();
+      const entry = (id: string | null) => {
+        const key = id || '';
+        if (!stats.has(key)) stats.set(key, { leads: 0, open: 0, openValue: 0, won: 0, wonValue: 0 });
+        return stats.get(key)!;
+      };
+      for (const lead of leads) entry(lead.created_by).leads++;
+      for (const deal of deals) {
+        if (!stages.isClosed(deal.stage)) {
+          entry(deal.created_by).open++;
+          entry(deal.created_by).openValue += money.value(deal);
+        } else if (stages.isWon(deal.stage) && (deal.modified_at || '') >= since) {
+          entry(deal.created_by).won++;
+          entry(deal.created_by).wonValue += money.value(deal);
+        }
+      }
+      const rows = [...stats.entries()]
+        .sort((a, b) => b[1].wonValue - a[1].wonValue)
+        .map(([id, s]) => [ownerName(id || null), s.leads, s.open, Math.round(s.openValue), s.won, Math.round(s.wonValue)]);
+      const columns = ['Owner', 'New Leads', 'Open Deals', `Open Value (${money.currency})`, 'Won', `Won Value (${money.currency})`];
+      return {
+        title,
+        summary: [
+          { label: 'Team members', value: String(rows.length) },
+          { label: 'Deals won', value: String(rows.reduce((s, r) => s + Number(r[4]), 0)) },
+          { label: 'Won value', value: money.format(rows.reduce((s, r) => s + Number(r[5]), 0)) },
+        ],
+        tables: [{
+          title: 'By owner',
+          columns,
+          rows: rows.map(r => [r[0], r[1], r[2], money.format(Number(r[3])), r[4], money.format(Number(r[5]))]),
+        }],
+        csv: { title: 'Team performance', columns, rows },
+      };
+    }
+
+    case 'lead_conversion': {
+      const { data, error } = await supabase.rpc('get_lead_conversion_rates', { p_since: since });
+      if (error) throw new Error(`Failed to load conversion rates: ${error.message}`);
+      const rates = ((data || []) as {
+        owner_id: string | null; total_leads: number; converted_leads: number; conversion_rate: number;
+        won_deals: number; avg_days_to_convert: number | null;
+      }[]).filter(r => !filters.owner_id || r.owner_id === filters.owner_id);
+      const totalLeads = rates.reduce((s, r) => s + Number(r.total_leads), 0);
+      const converted = rates.reduce((s, r) => s + Number(r.converted_leads), 0);
+      const columns = ['Owner', 'Leads', 'Converted', 'Conversion Rate (%)', 'Won Deals', 'Avg. Days to Convert'];
+      const rows = rates.map(r => [
+        ownerName(r.owner_id), r.total_leads, r.converted_leads, r.conversion_rate, r.won_deals, r.avg_days_to_convert ?? '',
+      ]);
+      return {
+        title,
+        summary: [
+          { label: 'New leads', value: String(totalLeads) },
+          { label: 'Converted to deals', value: String(converted) },
+          { label: 'Conversion rate', value: totalLeads ? `${((converted / totalLeads) * 100).toFixed(1)}%` : '-' },
+        ],
+        tables: [{ title: 'By lead owner', columns, rows }],
+        csv: { title: 'Lead conversion', columns, rows },
+      };
+    }
+
+    default:
+      throw new Error(`Unknown report type: ${schedule.report_type}`);
+  }
+}
+
+function renderHtml(schedule: ReportSchedule, report: BuiltReport, appUrl: string, now: Date): string {
+  const cell = 'padding: 6px 10px; border: 1px solid #e5e7eb; text-align: left;';
+  const tables = report.tables.map(table => `
+    <h3>${escapeHtml(table.title)}</h3>
+    <table style="border-collapse: collapse; margin-bottom: 16px;">
+      <tr>${table.columns.map(c => `<th style="${cell} background: #f3f4f6;">${escapeHtml(c)}</th>`).join('')}</tr>
+      ${table.rows.length === 0
+        ? `<tr><td style="${cell}" colspan="${table.columns.length}">No data for this period</td></tr>`
+        : table.rows.map(row => `<tr>${row.map(v => `<td style="${cell}">${escapeHtml(v)}</td>`).join('')}</tr>`).join('')}
+    </table>`).join('');
+
+  return `
+    <h2>${escapeHtml(schedule.name)}</h2>
+    <p>${escapeHtml(report.title)} generated ${escapeHtml(now.toUTCString())}</p>
+    <p>&nbsp;</p>
+    <table style="border-collapse: collapse; margin-bottom: 16px;">
+      ${report.summary.map(s => `<tr><td style="${cell}"><strong>${escapeHtml(s.label)}</strong></td><td style="${cell}">${escapeHtml(s.value)}</td></tr>`).join('')}
+    </table>
+    ${tables}
+    <p>The full data set is attached as a CSV file.</p>
+    <p><a href="${escapeHtml(appUrl)}">Open the CRM</a></p>`;
+}
+
+function renderCsv(table: ReportTable): string {
+  const lines = [table.columns, ...table.rows].map(row => row.map(escapeCsv).join(','));
+  return lines.join('\r\n');
+}
+
+function toBase64(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+async function resolveSender(supabase: SupabaseClient, schedule: ReportSchedule): Promise<string | null> {
+  if (schedule.created_by) {
+    const { data } = await supabase
+      .from('profiles')
+      .select('"Email ID"')
+      .eq('id', schedule.created_by)
+      .maybeSingle();
+    if (data?.['Email ID']) return data['Email ID'];
+  }
+  return Deno.env.get('REPORTS_SENDER_EMAIL') || null;
+}
+
+async function runSchedule(
+  supabaseAdmin: SupabaseClient,
+  schedule: ReportSchedule,
+  triggerSource: 'cron' | 'manual',
+  now: Date
+) {
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+  const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+  const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY')!;
+  const appUrl = Deno.env.get('APP_URL') || 'https://insidesales.realthingks.com';
+  const recipients = (Array.isArray(schedule.recipients) ? schedule.recipients : []).filter(Boolean);
+
+  const { data: run, error: runError } = await supabaseAdmin
+    .from('report_runs')
+    .insert({
+      schedule_id: schedule.id,
+      report_type: schedule.report_type,
+      trigger_source: triggerSource,
+      recipients_count: recipients.length,
+    })
+    .select('id')
+    .single();
+
+  if (runError) {
+    console.error('Error recording report run:', runError);
+  }
+
+  const finishRun = async (fields: Record<string, unknown>) => {
+    if (!run) return;
+    await supabaseAdmin
+      .from('report_runs')
+      .update({ ...fields, completed_at: new Date().toISOString() })
+      .eq('id', run.id);
+  };
+
+  try {
+    if (recipients.length === 0) throw new Error('Schedule has no recipients');
+
+    const sender = await resolveSender(supabaseAdmin, schedule);
+    if (!sender) throw new Error('No sender mailbox: schedule owner has no email and REPORTS_SENDER_EMAIL is not set');
+
+    const stages = await loadStages(supabaseAdmin);
+    const money = await loadMoney(supabaseAdmin, stages);
+    const report = await buildReport(supabaseAdmin, schedule, now, money, stages);
+    if (money.missing.size > 0) {
+      report.summary.push({ label: `Not converted to ${money.currency}`, value: `${money.missing.size} deals (no exchange rate)` });
+    }
+    const html = renderHtml(schedule, report, appUrl, now);
+    const fileDate = now.toISOString().split('T')[0];
+    const attachment = {
+      name: `${schedule.report_type}_${fileDate}.csv`,
+      contentType: 'text/csv',
+      contentBytes: toBase64(renderCsv(report.csv)),
+    };
+
+    const errors: string[] = [];
+    let sentCount = 0;
+    for (const recipient of recipients) {
+      const response = await fetch(`${supabaseUrl}/functions/v1/send-email`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${supabaseServiceKey}`,
+          'apikey': supabaseAnonKey,
+        },
+        body: JSON.stringify({
+          to: recipient,
+          from: sender,
+          subject: `${schedule.name} - ${report.title} (${fileDate})`,
+          body: html,
+          attachments: [attachment],
+        }),
+      });
+
+      if (response.ok) {
+        sentCount++;
+      } else {
+        const errorText = await response.text();
+        console.error(`Report ${schedule.id} failed for ${recipient}:`, errorText);
+        errors.push(`${recipient}: ${errorText}`);
+      }
+    }
+
+    const status = sentCount === recipients.length ? 'success' : sentCount > 0 ? 'partial' : 'failed';
+    await finishRun({
+      status,
+      sent_count: sentCount,
+      row_count: report.csv.rows.length,
+      error_message: errors.length ? errors.join('\n').slice(0, 2000) : null,
+    });
+
+    if (sentCount > 0) {
+      await supabaseAdmin
+        .from('report_schedules')
+        .update({
+          last_sent_at: now.toISOString(),
+          next_run_at: calculateNextRunTime(schedule, now).toISOString(),
+        })
+        .eq('id', schedule.id);
+    }
+
+    return { scheduleId: schedule.id, success: sentCount > 0, status, sentCount, runId: run?.id };
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error(`Error running report ${schedule.id}:`, error);
+    await finishRun({ status: 'failed', error_message: errorMessage });
+    return { scheduleId: schedule.id, success: false, status: 'failed', error: errorMessage, runId: run?.id };
+  }
+}
+
+async function countFailedAttempts(supabase: SupabaseClient, scheduleId: string, since: Date): Promise<number> {
+  const { count } = await supabase
+    .from('report_runs')
+    .select('id', { count: 'exact', head: true })
+    .eq('schedule_id', scheduleId)
+    .eq('status', 'failed')
+    .gte('started_at', since.toISOString());
+  return count || 0;
+}
+
+interface Caller {
+  service: boolean;
+  userId: string | null;
+  isAdmin: boolean;
+}
+
+// Who sent the request: the service role (cron, other functions) or a signed-in user
+async function resolveCaller(req: Request, supabaseAdmin: SupabaseClient, serviceKey: string): Promise<Caller | null> {
+  const token = (req.headers.get('Authorization') || '').replace(/^Bearer\s+/i, '');
+  if (!token) return null;
+  if (token === serviceKey) return { service: true, userId: null, isAdmin: false };
+
+  const { data: { user } } = await supabaseAdmin.auth.getUser(token);
+  if (!user) return null;
+  const { data: roleData } = await supabaseAdmin
+    .from('user_roles')
+    .select('role')
+    .eq('user_id', user.id)
+    .maybeSingle();
+  return { service: false, userId: user.id, isAdmin: roleData?.role === 'admin' };
+}
+
+const canSendNow = (caller: Caller, schedule: ReportSchedule) =>
+  caller.service || caller.isAdmin || (!!caller.userId && caller.userId === schedule.created_by);
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) =>
+  new Response(JSON.stringify(body), { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status });
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Optional body: { scheduleId } sends one schedule immediately ("Send now")
+    let scheduleId: string | null = null;
+    try {
+      const body = await req.json();
+      scheduleId = body?.scheduleId || null;
+    } catch {
+      // No body - regular cron invocation
+    }
+
+    // Send now mails a schedule's report off-cycle: only admins, the schedule's owner or the service role
+    const caller = scheduleId ? await resolveCaller(req, supabaseAdmin, supabaseServiceKey) : null;
+    if (scheduleId && !caller) {
+      return jsonResponse({ error: 'Unauthorized' }, 401);
+    }
+
+    const now = new Date();
+    console.log(`Checking for scheduled reports...${scheduleId ? ` (manual: ${scheduleId})` : ''}`);
+
+    let query = supabaseAdmin.from('report_schedules').select('*');
+    query = scheduleId ? query.eq('id', scheduleId) : query.eq('is_enabled', true);
+    const { data: schedules, error: schedulesError } = await query;
+
+    if (schedulesError) {
+      console.error('Error fetching report schedules:', schedulesError);
+      throw new Error(`Failed to fetch report schedules: ${schedulesError.message}`);
+    }
+
+    if (!schedules || schedules.length === 0) {
+      console.log('No report schedules to process');
+      return new Response(
+        JSON.stringify({ success: true, message: 'No schedules to process', reportsRun: 0 }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    let reportsRun = 0;
+    const results: Record<string, unknown>[] = [];
+
+    for (const schedule of schedules as ReportSchedule[]) {
+      if (scheduleId) {
+        if (!canSendNow(caller!, schedule)) {
+          return jsonResponse({ error: 'Only admins and the schedule owner can send this report' }, 403);
+        }
+        results.push(await runSchedule(supabaseAdmin, schedule, 'manual', now));
+        reportsRun++;
+        continue;
+      }
+
+      const nextRunAt = calculateNextRunTime(schedule, now);
+
+      if (!isDue(schedule, now)) {
+        if (!schedule.next_run_at || new Date(schedule.next_run_at).getTime() !== nextRunAt.getTime()) {
+          await supabaseAdmin
+            .from('report_schedules')
+            .update({ next_run_at: nextRunAt.toISOString() })
+            .eq('id', schedule.id);
+        }
+        results.push({ scheduleId: schedule.id, skipped: true, nextRunAt: nextRunAt.toISOString() });
+        continue;
+      }
+
+      const failedAttempts = await countFailedAttempts(supabaseAdmin, schedule.id, getLastOccurrence(schedule, now));
+      if (failedAttempts >= MAX_FAILED_ATTEMPTS) {
+        console.log(`Schedule ${schedule.id} failed ${failedAttempts} times for this occurrence, waiting for next run`);
+        results.push({ scheduleId: schedule.id, skipped: true, reason: 'max_attempts' });
+        continue;
+      }
+
+      console.log(`Running report schedule: ${schedule.id} (${schedule.report_type})`);
+      results.push(await runSchedule(supabaseAdmin, schedule, 'cron', now));
+      reportsRun++;
+    }
+
+    console.log(`Scheduled report check complete. Reports run: ${reportsRun}`);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        message: `Processed ${schedules.length} schedules, ran ${reportsRun} reports`,
+        reportsRun,
+        results
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error('Scheduled reports error:', error);
+    return new Response(
+      JSON.stringify({ error: errorMessage }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' }, status: 500 }
+    );
+  }
+});
@@ -1,90 +1,12 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getEmailTransport } from "../_shared/email/index.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
-// Azure Graph API email functions
-async function getAccessToken(): Promise<string> {
-  const tenantId = Deno.env.get("AZURE_EMAIL_TENANT_ID");
-  const clientId = Deno.env.get("AZURE_EMAIL_CLIENT_ID");
-  const clientSecret = Deno.env.get("AZURE_EMAIL_CLIENT_SECRET");
-
-  if (!tenantId || !clientId || !clientSecret) {
-    throw new Error("Azure email credentials not configured");
-  }
-
-  const tokenUrl = `https://login.microsoftonline.com/${tenantId}/oauth2/v2.0/token`;
-  const params = new URLSearchParams({
-    client_id: clientId,
-    client_secret: clientSecret,
-    scope: "https://graph.microsoft.com/.default",
-    grant_type: "client_credentials",
-  });
-
-  const response = await fetch(tokenUrl, {
-    method: "POST",
-    headers: { "Content-Type": "application/x-www-form-urlencoded" },
-    body: params.toString(),
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    console.error("Azure token error:", errorText);
-    throw new Error(`Failed to get Azure access token: ${response.status}`);
-  }
-
-  const data = await response.json();
-  return data.access_token;
-}
-
-async function sendEmailViaGraph(
-  accessToken: string,
-  to: string,
-  toName: string,
-  subject: string,
-  body: string,
-  from: string
-): Promise<void> {
-  const graphUrl = `https://graph.microsoft.com/v1.0/users/${from}/sendMail`;
-
-  const emailPayload = {
-    message: {
-      subject,
-      body: {
-        contentType: "HTML",
-        content: body,
-      },
-      toRecipients: [
-        {
-          emailAddress: {
-            address: to,
-            name: toName || to,
-          },
-        },
-      ],
-    },
-    saveToSentItems: true,
-  };
-
-  const response = await fetch(graphUrl, {
-    method: "POST",
-    headers: {
-      Authorization: `Bearer ${accessToken}`,
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify(emailPayload),
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    console.error("Graph API error:", errorText);
-    throw new Error(`Failed to send email via Graph API: ${response.status}`);
-  }
-}
-
 type NotificationType = "task_assigned" | "task_unassigned" | "status_in_progress" | "status_completed" | "status_cancelled" | "status_open";
 
 interface TaskNotificationRequest {
@@ -395,16 +317,14 @@ const handler = async (req: Request): Promise<Response> => {
 
     console.log(`Sending email from ${fromEmail} to ${recipientEmail}`);
 
-    // Send email directly via Azure Graph API
-    const accessToken = await getAccessToken();
-    await sendEmailViaGraph(
-      accessToken,
-      recipientEmail,
-      recipientProfile.full_name || "",
-      emailSubject,
-      emailHtml,
-      fromEmail
-    );
+    const transport = await getEmailTransport(supabase);
+    await transport.send({
+      from: fromEmail,
+      to: recipientEmail,
+      toName: recipientProfile.full_name || "",
+      subject: emailSubject,
+      html: emailHtml,
+    });
 
     console.log(`Task notification email sent successfully: ${notificationType} from ${fromEmail} to ${recipientEmail}`);
 
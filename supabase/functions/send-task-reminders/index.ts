@@ -1,92 +1,12 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+import { getEmailTransport, type EmailTransport } from "../_shared/email/index.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
-// Azure Graph API email functions (same as send-email)
-async function getAccessToken(): Promise<string> {
-  const tenantId = Deno.env.get("AZURE_EMAIL_TENANT_ID");
-  const clientId = Deno.env.get("AZURE_EMAIL_CLIENT_ID");
-  const clientSecret = Deno.env.get("AZURE_EMAIL_CLIENT_SECRET");
-
-  if (!tenantId || !clientId || !clientSecret) {
-    throw new Error("Azure email credentials not configured");
-  }
-
-  const tokenUrl = `https://login.microsoftonline.com/${tenantId}/oauth2/v2.0/token`;
-  const params = new URLSearchParams({
-    client_id: clientId,
-    client_secret: clientSecret,
-    scope: "https://graph.microsoft.com/.default",
-    grant_type: "client_credentials",
-  });
-
-  const response = await fetch(tokenUrl, {
-    method: "POST",
-    headers: { "Content-Type": "application/x-www-form-urlencoded" },
-    body: params.toString(),
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    console.error("Azure token error:", errorText);
-    throw new Error(`Failed to get Azure access token: ${response.status}`);
-  }
-
-  const data = await response.json();
-  return data.access_token;
-}
-
-async function sendEmailViaGraph(
-  accessToken: string,
-  to: string,
-  toName: string,
-  subject: string,
-  body: string,
-  from: string
-): Promise<void> {
-  const graphUrl = `https://graph.microsoft.com/v1.0/users/${from}/sendMail`;
-
-  const emailPayload = {
-    message: {
-      subject,
-      body: {
-        contentType: "HTML",
-        content: body,
-      },
-      toRecipients: [
-        {
-          emailAddress: {
-            address: to,
-            name: toName || to,
-          },
-        },
-      ],
-    },
-    saveToSentItems: true,
-  };
-
-  const response = await fetch(graphUrl, {
-    method: "POST",
-    headers: {
-      Authorization: `Bearer ${accessToken}`,
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify(emailPayload),
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    console.error("Graph API error:", errorText);
-    throw new Error(`Failed to send email via Graph API: ${response.status}`);
-  }
-
-  console.log(`Email sent successfully to ${to}`);
-}
-
 interface Task {
   id: string;
   title: string;
@@ -97,6 +17,26 @@ interface Task {
   status: string;
   module_type: string | null;
   assigned_to: string;
+  created_by?: string | null;
+  reminder_date?: string | null;
+}
+
+interface DealActionItem {
+  id: string;
+  deal_id: string;
+  next_action: string;
+  due_date: string;
+  status: string;
+  assigned_to: string;
+  deals: { deal_name: string; project_name: string | null } | null;
+}
+
+interface StaleDeal {
+  id: string;
+  deal_name: string;
+  project_name: string | null;
+  stage: string;
+  created_by: string;
 }
 
 interface UserTasks {
@@ -105,8 +45,31 @@ interface UserTasks {
   fullName: string;
   tasks: Task[];
   overdueTasks: Task[];
+  dealActions: DealActionItem[];
+  overdueDealActions: DealActionItem[];
+  staleDeals: StaleDeal[];
 }
 
+// Open deals get a nudge when they have had no open action item for this long,
+// and at most once per this many days
+const STALE_DEAL_DAYS = 7;
+
+// PostgREST returns at most this many rows per request
+const PAGE_SIZE = 1000;
+
+// Every row of a query, read page by page; the query needs a stable order
+const fetchAllRows = async <T>(
+  page: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>,
+): Promise<T[]> => {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await page(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+};
+
 const formatTime = (time: string | null): string => {
   if (!time || time === "00:00:00") return "";
   try {
@@ -119,8 +82,11 @@ const formatTime = (time: string | null): string => {
   }
 };
 
+const dealLabel = (deal: { deal_name: string; project_name: string | null } | null): string =>
+  deal?.project_name || deal?.deal_name || "Deal";
+
 const generateEmailHtml = (userTasks: UserTasks, appUrl: string): string => {
-  const { fullName, tasks, overdueTasks } = userTasks;
+  const { fullName, tasks, overdueTasks, dealActions, overdueDealActions, staleDeals } = userTasks;
   const today = new Date().toLocaleDateString("en-US", { weekday: "long", year: "numeric", month: "long", day: "numeric" });
 
   const renderTask = (task: Task, isOverdue: boolean = false) => `
@@ -142,6 +108,24 @@ const generateEmailHtml = (userTasks: UserTasks, appUrl: string): string => {
     </tr>
   `;
 
+  const renderDealAction = (action: DealActionItem, isOverdue: boolean = false) => `
+    <tr style="border-bottom: 1px solid #e5e7eb;">
+      <td style="padding: 12px 8px;">
+        <div style="font-weight: 500; color: #1f2937;">${action.next_action}</div>
+        <div style="font-size: 12px; color: #6b7280; margin-top: 4px;">
+          <a href="${appUrl}/deals?viewId=${action.deal_id}" style="color: #6b7280;">${dealLabel(action.deals)}</a>
+        </div>
+        ${isOverdue ? `<div style="font-size: 11px; color: #ef4444; margin-top: 4px;">Due: ${new Date(action.due_date).toLocaleDateString()}</div>` : ""}
+      </td>
+      <td style="padding: 12px 8px; text-align: right; white-space: nowrap;">
+        <span style="display: inline-block; font-size: 10px; background: #f3f4f6; color: #4b5563; padding: 2px 6px; border-radius: 4px;">${action.status}</span>
+      </td>
+    </tr>
+  `;
+
+  const allDealActions = [...overdueDealActions, ...dealActions];
+  const itemCount = tasks.length + overdueTasks.length + allDealActions.length;
+
   return `
 <!DOCTYPE html>
 <html>
@@ -196,12 +180,40 @@ const generateEmailHtml = (userTasks: UserTasks, appUrl: string): string => {
       </div>
       `}
 
+      ${allDealActions.length > 0 ? `
+      <!-- Deal Action Items -->
+      <div style="margin-bottom: 24px;">
+        <h2 style="margin: 0 0 16px; color: #1f2937; font-size: 16px; font-weight: 600;">
+          💼 Deal Action Items (${allDealActions.length})
+        </h2>
+        <table style="width: 100%; border-collapse: collapse; background: #f9fafb; border-radius: 8px;">
+          <tbody>
+            ${overdueDealActions.map(action => renderDealAction(action, true)).join("")}
+            ${dealActions.map(action => renderDealAction(action)).join("")}
+          </tbody>
+        </table>
+      </div>
+      ` : ""}
+
+      ${staleDeals.length > 0 ? `
+      <!-- Deals without a next action -->
+      <div style="margin-bottom: 24px; padding: 16px; background: #fffbeb; border-radius: 8px; border-left: 4px solid #f59e0b;">
+        <h2 style="margin: 0 0 8px; color: #92400e; font-size: 16px; font-weight: 600;">
+          ⏳ Deals Without a Next Action (${staleDeals.length})
+        </h2>
+        <p style="margin: 0 0 12px; font-size: 12px; color: #92400e;">Add an action item so these deals keep moving.</p>
+        <ul style="margin: 0; padding-left: 20px; font-size: 14px; color: #374151;">
+          ${staleDeals.map(deal => `<li style="margin-bottom: 4px;"><a href="${appUrl}/deals?viewId=${deal.id}" style="color: #1d4ed8;">${dealLabel(deal)}</a> <span style="color: #6b7280; font-size: 12px;">(${deal.stage})</span></li>`).join("")}
+        </ul>
+      </div>
+      ` : ""}
+
       <!-- Summary -->
       <div style="margin-top: 24px; padding: 16px; background: #f3f4f6; border-radius: 8px; text-align: center;">
         <p style="margin: 0; font-size: 14px; color: #4b5563;">
           ${tasks.length > 0 || overdueTasks.length > 0 
             ? `You have <strong>${tasks.length}</strong> task${tasks.length !== 1 ? "s" : ""} due today${overdueTasks.length > 0 ? ` and <strong style="color: #ef4444;">${overdueTasks.length}</strong> overdue` : ""}.` 
-            : "You're all caught up! Great job! 🎉"}
+            : itemCount > 0 ? "No tasks due, but your deals need attention." : "You're all caught up! Great job! 🎉"}
         </p>
       </div>
 
@@ -268,6 +280,208 @@ const getTodayInTimezone = (timezone: string): string => {
   }
 };
 
+const generateReminderEmailHtml = (task: Task, fullName: string, appUrl: string): string => `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Task Reminder</title>
+</head>
+<body style="margin: 0; padding: 0; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; background-color: #f9fafb;">
+  <div style="max-width: 600px; margin: 0 auto; padding: 20px;">
+    <div style="background: white; padding: 24px; border-radius: 12px; box-shadow: 0 4px 6px -1px rgba(0, 0, 0, 0.1);">
+      <p style="margin: 0 0 16px; color: #374151; font-size: 16px;">Hi <strong>${fullName || "there"}</strong>,</p>
+      <p style="margin: 0 0 16px; color: #374151; font-size: 14px;">This is your reminder for:</p>
+      <div style="padding: 16px; background: #f3f4f6; border-radius: 8px; border-left: 4px solid #3b82f6;">
+        <div style="font-weight: 600; color: #1f2937;">${task.title}</div>
+        ${task.description ? `<div style="font-size: 12px; color: #6b7280; margin-top: 4px;">${task.description.substring(0, 200)}${task.description.length > 200 ? "..." : ""}</div>` : ""}
+        ${task.due_date ? `<div style="font-size: 12px; color: #4b5563; margin-top: 8px;">Due: ${new Date(task.due_date).toLocaleDateString()} ${formatTime(task.due_time)}</div>` : ""}
+      </div>
+      <div style="text-align: center; margin-top: 24px;">
+        <a href="${appUrl}/tasks" style="display: inline-block; padding: 12px 32px; background: #3b82f6; color: white; text-decoration: none; border-radius: 8px; font-weight: 500; font-size: 14px;">
+          View Task →
+        </a>
+      </div>
+    </div>
+  </div>
+</body>
+</html>
+`;
+
+/**
+ * Send the reminders set on individual tasks (tasks.reminder_date) that have come due.
+ * Runs on every invocation, independent of the 9 AM daily digest.
+ */
+const sendDueTaskReminders = async (supabase: SupabaseClient, transport: EmailTransport, appUrl: string): Promise<number> => {
+  const { data: dueTasks, error } = await supabase
+    .from("tasks")
+    .select("*")
+    .lte("reminder_date", new Date().toISOString())
+    .is("reminder_sent_at", null)
+    .in("status", ["open", "in_progress"]);
+
+  if (error) {
+    console.error("Error fetching due task reminders:", error);
+    return 0;
+  }
+
+  const tasks = (dueTasks || []) as Task[];
+  if (tasks.length === 0) return 0;
+
+  // Unassigned tasks remind their creator
+  const recipientIds = [...new Set(tasks.map(t => t.assigned_to || t.created_by).filter(Boolean))] as string[];
+
+  const [{ data: profiles }, { data: notifPrefs }] = await Promise.all([
+    supabase.from("profiles").select('id, full_name, "Email ID"').in("id", recipientIds),
+    supabase.from("notification_preferences").select("user_id, task_reminders, email_notifications").in("user_id", recipientIds),
+  ]);
+
+  let sent = 0;
+
+  for (const task of tasks) {
+    const recipientId = task.assigned_to || task.created_by;
+    const prefs = notifPrefs?.find(p => p.user_id === recipientId);
+
+    if (recipientId && prefs?.task_reminders !== false) {
+      await supabase.from("notifications").insert({
+        user_id: recipientId,
+        message: `Reminder: ${task.title}`,
+        notification_type: "task_reminder",
+      });
+
+      const profile = profiles?.find(p => p.id === recipientId);
+      const email = profile?.["Email ID"];
+      if (email && prefs?.email_notifications !== false) {
+        try {
+          await transport.send({
+            from: email,
+            to: email,
+            toName: profile?.full_name || "",
+            subject: `⏰ Reminder: ${task.title}`,
+            html: generateReminderEmailHtml(task, profile?.full_name || "", appUrl),
+          });
+          sent++;
+        } catch (err) {
+          console.error(`Failed to send reminder email for task ${task.id}:`, err);
+        }
+      }
+    }
+
+    // Marked even when skipped so a disabled preference doesn't re-queue the task every run
+    const { error: markError } = await supabase
+      .from("tasks")
+      .update({ reminder_sent_at: new Date().toISOString() })
+      .eq("id", task.id);
+
+    if (markError) {
+      console.error(`Failed to mark reminder sent for task ${task.id}:`, markError);
+    }
+  }
+
+  console.log(`Task reminders: ${tasks.length} due, ${sent} emails sent`);
+  return sent;
+};
+
+/**
+ * Find open deals with no open action item and nudge their owners (deals.created_by)
+ * with an in-app notification, at most once per STALE_DEAL_DAYS per deal.
+ * Returns every stale deal so the daily digest can list them too.
+ */
+const nudgeStaleDeals = async (supabase: SupabaseClient): Promise<{ staleDeals: StaleDeal[]; nudged: number }> => {
+  const cutoff = new Date(Date.now() - STALE_DEAL_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+  let closedStages: { stage_name: string }[];
+  let deals: StaleDeal[];
+  let openActions: { deal_id: string }[];
+  try {
+    [closedStages, deals, openActions] = await Promise.all([
+      fetchAllRows<{ stage_name: string }>((from, to) =>
+        supabase
+          .from("pipeline_stages")
+          .select("stage_name")
+          .or("is_won_stage.eq.true,is_lost_stage.eq.true")
+          .order("id")
+          .range(from, to)
+      ),
+      fetchAllRows<StaleDeal>((from, to) =>
+        supabase
+          .from("deals")
+          .select("id, deal_name, project_name, stage, created_by")
+          .lt("created_at", cutoff)
+          .not("created_by", "is", null)
+          .order("id")
+          .range(from, to)
+      ),
+      fetchAllRows<{ deal_id: string }>((from, to) =>
+        supabase
+          .from("deal_action_items")
+          .select("deal_id")
+          .in("status", ["Open", "Ongoing"])
+          .order("id")
+          .range(from, to)
+      ),
+    ]);
+  } catch (error) {
+    console.error("Error fetching data for stale deal detection:", error);
+    return { staleDeals: [], nudged: 0 };
+  }
+
+  const closed = new Set(closedStages.map(s => s.stage_name));
+  const withOpenAction = new Set(openActions.map(a => a.deal_id));
+  const staleDeals = deals.filter(d => !closed.has(d.stage) && !withOpenAction.has(d.id));
+
+  if (staleDeals.length === 0) return { staleDeals, nudged: 0 };
+
+  let recentNudges: { deal_id: string | null }[];
+  try {
+    recentNudges = await fetchAllRows<{ deal_id: string | null }>((from, to) =>
+      supabase
+        .from("notifications")
+        .select("deal_id")
+        .eq("notification_type", "stale_deal")
+        .gte("created_at", cutoff)
+        .order("id")
+        .range(from, to)
+    );
+  } catch (error) {
+    // Without the recent nudges every stale deal would be nudged again
+    console.error("Error fetching recent stale deal notifications:", error);
+    return { staleDeals, nudged: 0 };
+  }
+
+  const alreadyNudged = new Set(recentNudges.map(n => n.deal_id));
+  const ownerIds = [...new Set(staleDeals.map(d => d.created_by))];
+  const { data: notifPrefs } = await supabase
+    .from("notification_preferences")
+    .select("user_id, deal_updates, in_app_notifications")
+    .in("user_id", ownerIds);
+
+  const nudges = staleDeals
+    .filter(d => !alreadyNudged.has(d.id))
+    .filter(d => {
+      const prefs = notifPrefs?.find(p => p.user_id === d.created_by);
+      return prefs?.deal_updates !== false && prefs?.in_app_notifications !== false;
+    })
+    .map(d => ({
+      user_id: d.created_by,
+      deal_id: d.id,
+      message: `${dealLabel(d)} has no open action item. Add a next step to keep it moving.`,
+      notification_type: "stale_deal",
+    }));
+
+  if (nudges.length > 0) {
+    const { error } = await supabase.from("notifications").insert(nudges);
+    if (error) {
+      console.error("Failed to insert stale deal notifications:", error);
+      return { staleDeals, nudged: 0 };
+    }
+  }
+
+  console.log(`Stale deals: ${staleDeals.length} without an open action item, ${nudges.length} owners nudged`);
+  return { staleDeals, nudged: nudges.length };
+};
+
 const handler = async (req: Request): Promise<Response> => {
   // Handle CORS preflight
   if (req.method === "OPTIONS") {
@@ -290,6 +504,14 @@ const handler = async (req: Request): Promise<Response> => {
     const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
+    // Use production app URL (configurable via secret)
+    const appUrl = Deno.env.get("APP_URL") || "https://insidesales.realthingks.com";
+
+    const transport = await getEmailTransport(supabase);
+
+    const remindersSent = await sendDueTaskReminders(supabase, transport, appUrl);
+    const { staleDeals, nudged: staleDealsNudged } = await nudgeStaleDeals(supabase);
+
     // Get today's date in UTC for initial task query
     const utcToday = new Date().toISOString().split("T")[0];
     console.log(`UTC date: ${utcToday}`);
@@ -320,14 +542,34 @@ const handler = async (req: Request): Promise<Response> => {
 
     console.log(`Found ${todayTasks?.length || 0} tasks due today, ${overdueTasks?.length || 0} overdue`);
 
+    // Open deal action items due today or earlier
+    const { data: dueDealActions, error: dealActionsError } = await supabase
+      .from("deal_action_items")
+      .select("id, deal_id, next_action, due_date, status, assigned_to, deals(deal_name, project_name)")
+      .lte("due_date", utcToday)
+      .in("status", ["Open", "Ongoing"])
+      .not("assigned_to", "is", null);
+
+    if (dealActionsError) {
+      console.error("Error fetching deal action items:", dealActionsError);
+      throw dealActionsError;
+    }
+
+    const dealActions = (dueDealActions || []) as unknown as DealActionItem[];
+    console.log(`Found ${dealActions.length} deal action items due today or overdue`);
+
     // Get unique user IDs
     const allTasks = [...(todayTasks || []), ...(overdueTasks || [])];
-    const userIds = [...new Set(allTasks.map(t => t.assigned_to).filter(Boolean))];
+    const userIds = [...new Set([
+      ...allTasks.map(t => t.assigned_to),
+      ...dealActions.map(a => a.assigned_to),
+      ...staleDeals.map(d => d.created_by),
+    ].filter(Boolean))];
 
     if (userIds.length === 0) {
       console.log("No users with tasks to notify");
       return new Response(
-        JSON.stringify({ success: true, message: "No users to notify", emailsSent: 0 }),
+        JSON.stringify({ success: true, message: "No users to notify", emailsSent: 0, remindersSent, staleDealsNudged }),
         { headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
@@ -353,9 +595,6 @@ const handler = async (req: Request): Promise<Response> => {
       console.error("Error fetching notification preferences:", prefsError);
     }
 
-    // Use production app URL (configurable via secret)
-    const appUrl = Deno.env.get("APP_URL") || "https://insidesales.realthingks.com";
-    
     // Send emails with timezone awareness and duplicate prevention
     const emailResults: { userId: string; success: boolean; error?: string; skipped?: string }[] = [];
 
@@ -417,8 +656,13 @@ const handler = async (req: Request): Promise<Response> => {
       const userTodayTasks = (todayTasks || []).filter(t => t.assigned_to === userId);
       const userOverdueTasks = (overdueTasks || []).filter(t => t.assigned_to === userId);
 
-      // Skip if user has no tasks
-      if (userTodayTasks.length === 0 && userOverdueTasks.length === 0) {
+      const userDealActions = dealActions.filter(a => a.assigned_to === userId);
+      const userTodayDealActions = userDealActions.filter(a => a.due_date === utcToday);
+      const userOverdueDealActions = userDealActions.filter(a => a.due_date < utcToday);
+      const userStaleDeals = staleDeals.filter(d => d.created_by === userId);
+
+      // Skip if user has nothing to act on
+      if (userTodayTasks.length === 0 && userOverdueTasks.length === 0 && userDealActions.length === 0 && userStaleDeals.length === 0) {
         console.log(`Skipping user ${userId} - no tasks`);
         emailResults.push({ userId, success: false, skipped: "no_tasks" });
         continue;
@@ -430,26 +674,28 @@ const handler = async (req: Request): Promise<Response> => {
         fullName: profile?.full_name || "",
         tasks: userTodayTasks,
         overdueTasks: userOverdueTasks,
+        dealActions: userTodayDealActions,
+        overdueDealActions: userOverdueDealActions,
+        staleDeals: userStaleDeals,
       };
 
       try {
         const emailHtml = generateEmailHtml(userTasksData, appUrl);
-        const taskCount = userTodayTasks.length + userOverdueTasks.length;
+        const taskCount = userTodayTasks.length + userOverdueTasks.length + userDealActions.length;
         
         // For daily task reminders, use the recipient's own email as the sender
         // This makes the email appear as a self-reminder
         const senderEmail = email;
         
-        // Send email directly via Azure Graph API
-        const accessToken = await getAccessToken();
-        await sendEmailViaGraph(
-          accessToken,
-          email,
-          userTasksData.fullName,
-          `📋 You have ${taskCount} task${taskCount !== 1 ? "s" : ""} to complete today`,
-          emailHtml,
-          senderEmail
-        );
+        await transport.send({
+          from: senderEmail,
+          to: email,
+          toName: userTasksData.fullName,
+          subject: taskCount > 0
+            ? `📋 You have ${taskCount} task${taskCount !== 1 ? "s" : ""} to complete today`
+            : `⏳ ${userStaleDeals.length} deal${userStaleDeals.length !== 1 ? "s" : ""} need${userStaleDeals.length === 1 ? "s" : ""} a next action`,
+          html: emailHtml,
+        });
         
         // Log the successful send to prevent duplicates
         const { error: insertError } = await supabase
@@ -457,8 +703,8 @@ const handler = async (req: Request): Promise<Response> => {
           .insert({
             user_id: userId,
             sent_date: userTodayDate,
-            tasks_count: userTodayTasks.length,
-            overdue_count: userOverdueTasks.length,
+            tasks_count: userTodayTasks.length + userTodayDealActions.length,
+            overdue_count: userOverdueTasks.length + userOverdueDealActions.length,
             email_sent_to: email,
           });
 
@@ -486,6 +732,8 @@ const handler = async (req: Request): Promise<Response> => {
         emailsSent: successCount,
         emailsFailed: failCount,
         emailsSkipped: skippedCount,
+        remindersSent,
+        staleDealsNudged,
         results: emailResults,
       }),
       { headers: { ...corsHeaders, "Content-Type": "application/json" } }
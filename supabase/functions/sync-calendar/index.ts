@@ -0,0 +1,76 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.80.0'
+import {
+  createCalendarAdapter,
+  DEFAULT_SYNC_FREQUENCY_MINUTES,
+  loadCalendarSettings,
+  syncExternalCalendars,
+} from '../_shared/calendar/index.ts'
+
+// Imports external calendar events into CRM meetings (see _shared/calendar/sync.ts). Invoked by the
+// external scheduler every few minutes; runs are skipped until the integration's sync_frequency
+// has passed since the last one. A { force: true } body ("Sync Now" in settings) runs right away.
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const json = (body: Record<string, unknown>, status = 200) =>
+    new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } });
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+  const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+  const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey);
+  let settingsId: string | null = null;
+
+  try {
+    let force = false;
+    try {
+      const body = await req.json();
+      force = body?.force === true;
+    } catch {
+      // No body - regular cron invocation
+    }
+
+    const settings = await loadCalendarSettings(supabaseAdmin);
+    settingsId = settings.id;
+    if (!settings.enabled) {
+      return json({ success: true, skipped: 'Calendar Sync integration is disabled' });
+    }
+
+    const frequency = Number(settings.config.sync_frequency) || DEFAULT_SYNC_FREQUENCY_MINUTES;
+    if (!force && settings.lastSyncAt && Date.now() - new Date(settings.lastSyncAt).getTime() < frequency * 60 * 1000) {
+      return json({ success: true, skipped: `Last sync less than ${frequency} minutes ago` });
+    }
+
+    const adapter = createCalendarAdapter(settings.config);
+    await adapter.verify();
+    const summary = await syncExternalCalendars(supabaseAdmin, adapter, settings.config);
+
+    // Errors for some users still leave the integration working; none succeeding does not
+    const failed = summary.errors.length > 0 && summary.users === 0;
+    await supabaseAdmin
+      .from('integration_settings')
+      .update({ last_sync_at: new Date().toISOString(), sync_status: failed ? 'error' : 'active' })
+      .eq('id', settings.id);
+
+    console.log(`Calendar sync (${adapter.provider}) finished:`, JSON.stringify(summary));
+
+    return json({ success: !failed, provider: adapter.provider, ...summary });
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error('Error in sync-calendar function:', error);
+    if (settingsId) {
+      await supabaseAdmin
+        .from('integration_settings')
+        .update({ last_sync_at: new Date().toISOString(), sync_status: 'error' })
+        .eq('id', settingsId);
+    }
+    return json({ success: false, error: errorMessage }, 500);
+  }
+});
@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { rescoreRecords } from "../_shared/scoring.ts";
 
 const handler = async (req: Request): Promise<Response> => {
   try {
@@ -58,30 +59,30 @@ const handler = async (req: Request): Promise<Response> => {
             console.log(`Click tracked for email ${emailId} - total clicks: ${currentClickCount + 1}`);
           }
 
-          // Update contact engagement on first click
+          // Update contact click count and rescore on first click
           if (isFirstClick && emailData.contact_id) {
             const { data: contact } = await supabase
               .from("contacts")
-              .select("email_clicks, engagement_score")
+              .select("email_clicks")
               .eq("id", emailData.contact_id)
               .single();
 
             if (contact) {
               const newClicks = (contact.email_clicks || 0) + 1;
-              const newScore = Math.min((contact.engagement_score || 0) + 10, 100);
 
               await supabase
                 .from("contacts")
-                .update({
-                  email_clicks: newClicks,
-                  engagement_score: newScore,
-                })
+                .update({ email_clicks: newClicks })
                 .eq("id", emailData.contact_id);
 
-              console.log(`Updated contact ${emailData.contact_id} - clicks: ${newClicks}, score: ${newScore}`);
+              console.log(`Updated contact ${emailData.contact_id} - clicks: ${newClicks}`);
             }
           }
 
+          if (isFirstClick) {
+            await rescoreRecords(supabase, emailData, "email_click");
+          }
+
           // Create notification for email click
           if (isFirstClick && emailData.sent_by) {
             const recipientDisplay = emailData.recipient_name || emailData.recipient_email;
@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { rescoreRecords } from "../_shared/scoring.ts";
 
 // 1x1 transparent GIF pixel
 const TRACKING_PIXEL = new Uint8Array([
@@ -270,29 +271,23 @@ const handler = async (req: Request): Promise<Response> => {
       if (emailData.contact_id) {
         const { data: contact } = await supabase
           .from("contacts")
-          .select("email_opens, engagement_score")
+          .select("email_opens")
           .eq("id", emailData.contact_id)
           .single();
 
         if (contact) {
           const newOpens = (contact.email_opens || 0) + 1;
-          const newScore = Math.min((contact.engagement_score || 0) + 5, 100);
-          
+
           await supabase
             .from("contacts")
-            .update({
-              email_opens: newOpens,
-              engagement_score: newScore,
-            })
+            .update({ email_opens: newOpens })
             .eq("id", emailData.contact_id);
           
-          console.log(`Updated contact ${emailData.contact_id} - opens: ${newOpens}, score: ${newScore}`);
+          console.log(`Updated contact ${emailData.contact_id} - opens: ${newOpens}`);
         }
       }
 
-      if (emailData.lead_id) {
-        console.log(`Email associated with lead ${emailData.lead_id} - opened`);
-      }
+      await rescoreRecords(supabase, emailData, "email_open");
 
       if (emailData.account_id) {
         console.log(`Email associated with account ${emailData.account_id} - opened`);
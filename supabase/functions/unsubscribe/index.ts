@@ -0,0 +1,149 @@
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { isConsentTopic, type ConsentTopic } from "../_shared/email/index.ts";
+
+// Public endpoint behind the unsubscribe link and List-Unsubscribe header of every tracked
+// email (?id=<email_history id>). GET only shows a confirmation page, so link scanners cannot
+// unsubscribe anyone; the form POSTs the choice back. Mail clients send the RFC 8058 one-click
+// POST (body "List-Unsubscribe=One-Click"), which opts out of all email.
+
+const TOPIC_OPTIONS: { topic: ConsentTopic; label: string }[] = [
+  { topic: "all", label: "All emails from us" },
+  { topic: "marketing", label: "Newsletters and campaigns only" },
+  { topic: "sequences", label: "Automated follow-up emails only" },
+];
+
+interface EmailRecord {
+  id: string;
+  recipient_email: string;
+  contact_id: string | null;
+  lead_id: string | null;
+}
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+// j***@example.com
+const maskEmail = (email: string) => {
+  const [local, domain] = email.split("@");
+  return `${local.charAt(0)}${"*".repeat(Math.max(local.length - 1, 3))}@${domain}`;
+};
+
+function page(title: string, content: string, status = 200): Response {
+  const html = `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8" />
+<meta name="viewport" content="width=device-width, initial-scale=1" />
+<meta name="robots" content="noindex" />
+<title>${escapeHtml(title)}</title>
+<style>
+  body { font-family: Arial, Helvetica, sans-serif; background: #f5f5f5; color: #222; margin: 0; padding: 48px 16px; }
+  main { max-width: 460px; margin: 0 auto; background: #fff; border-radius: 8px; padding: 32px; box-shadow: 0 1px 3px rgba(0,0,0,.1); }
+  h1 { font-size: 20px; margin: 0 0 12px; }
+  p { line-height: 1.5; }
+  label { display: block; margin: 8px 0; }
+  button { margin-top: 16px; background: #222; color: #fff; border: 0; border-radius: 4px; padding: 10px 18px; font-size: 14px; cursor: pointer; }
+  button.link { background: none; color: #555; padding: 0; text-decoration: underline; }
+</style>
+</head>
+<body><main><h1>${escapeHtml(title)}</h1>${content}</main></body>
+</html>`;
+  return new Response(html, { status, headers: { "Content-Type": "text/html; charset=utf-8" } });
+}
+
+async function loadEmail(supabase: SupabaseClient, id: string | null): Promise<EmailRecord | null> {
+  if (!id || !/^[0-9a-f-]{36}$/i.test(id)) return null;
+  const { data } = await supabase
+    .from("email_history")
+    .select("id, recipient_email, contact_id, lead_id")
+    .eq("id", id)
+    .maybeSingle();
+  return data;
+}
+
+async function recordConsent(
+  supabase: SupabaseClient,
+  email: EmailRecord,
+  topic: ConsentTopic,
+  status: "subscribed" | "unsubscribed",
+  source: "unsubscribe_link" | "one_click"
+) {
+  const { error } = await supabase.from("email_consent_events").insert({
+    email: email.recipient_email,
+    contact_id: email.contact_id,
+    lead_id: email.lead_id,
+    channel: "email",
+    topic,
+    status,
+    source,
+    email_history_id: email.id,
+  });
+  if (error) throw new Error(`Failed to record consent: ${error.message}`);
+  console.log(`${email.recipient_email} ${status} (${topic}) via ${source}`);
+}
+
+const choiceForm = (id: string, email: string) => `
+  <p>Choose which emails <strong>${escapeHtml(maskEmail(email))}</strong> should stop receiving.</p>
+  <form method="post" action="?id=${id}">
+    <input type="hidden" name="action" value="unsubscribe" />
+    ${TOPIC_OPTIONS.map((option, index) => `
+    <label><input type="radio" name="topic" value="${option.topic}"${index === 0 ? " checked" : ""} /> ${escapeHtml(option.label)}</label>`).join("")}
+    <button type="submit">Unsubscribe</button>
+  </form>`;
+
+const confirmation = (id: string, topic: ConsentTopic) => {
+  const label = TOPIC_OPTIONS.find((option) => option.topic === topic)?.label.toLowerCase() || "these emails";
+  return `
+  <p>You will no longer receive ${escapeHtml(label)}. It may take a few minutes for emails already on their way to stop.</p>
+  <form method="post" action="?id=${id}">
+    <input type="hidden" name="action" value="resubscribe" />
+    <input type="hidden" name="topic" value="${topic}" />
+    <button type="submit" class="link">Unsubscribed by mistake? Subscribe again</button>
+  </form>`;
+};
+
+Deno.serve(async (req) => {
+  const supabase = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+  const url = new URL(req.url);
+
+  try {
+    const email = await loadEmail(supabase, url.searchParams.get("id"));
+    if (!email) {
+      return page("Link not recognised", "<p>This unsubscribe link is invalid or no longer available.</p>", 404);
+    }
+
+    if (req.method === "GET") {
+      return page("Unsubscribe", choiceForm(email.id, email.recipient_email));
+    }
+    if (req.method !== "POST") {
+      return new Response("Method not allowed", { status: 405 });
+    }
+
+    const form = new URLSearchParams(await req.text());
+
+    if (form.get("List-Unsubscribe") === "One-Click") {
+      await recordConsent(supabase, email, "all", "unsubscribed", "one_click");
+      return new Response(null, { status: 200 });
+    }
+
+    const topic = form.get("topic");
+    if (!isConsentTopic(topic)) {
+      return page("Unsubscribe", `<p>Please choose an option.</p>${choiceForm(email.id, email.recipient_email)}`, 400);
+    }
+
+    if (form.get("action") === "resubscribe") {
+      await recordConsent(supabase, email, topic, "subscribed", "unsubscribe_link");
+      return page("You are subscribed again", "<p>Thanks, we have updated your preferences.</p>");
+    }
+
+    await recordConsent(supabase, email, topic, "unsubscribed", "unsubscribe_link");
+    return page("You have been unsubscribed", confirmation(email.id, topic));
+  } catch (error: unknown) {
+    console.error("Error in unsubscribe function:", error);
+    return page(
+      "Something went wrong",
+      "<p>We could not update your preferences. Please try again in a few minutes.</p>",
+      500
+    );
+  }
+});
@@ -0,0 +1,407 @@
+-- Runtime approval engine for approval_workflows
+-- Workflows hold back a "guarded" change (e.g. moving a deal to Won) until every
+-- approval step has been approved. The held value is stored on the request and
+-- applied automatically once the final step is approved.
+
+-- Requests are opened by the trigger below and change only through act_on_approval_request
+-- and cancel_approval_request. Direct writes would let a submitter edit the held change or
+-- re-point the request at another record before an approver applies it.
+DROP POLICY IF EXISTS "Users can create approval requests" ON public.approval_requests;
+DROP POLICY IF EXISTS "Admins and approvers can update approval requests" ON public.approval_requests;
+DROP POLICY IF EXISTS "Approvers can create approval actions" ON public.approval_actions;
+
+-- Store the change that is waiting for approval on the request
+ALTER TABLE public.approval_requests
+  ADD COLUMN IF NOT EXISTS pending_changes JSONB,
+  ADD COLUMN IF NOT EXISTS entity_name TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_approval_requests_entity
+  ON public.approval_requests(entity_type, entity_id);
+
+CREATE INDEX IF NOT EXISTS idx_approval_requests_status
+  ON public.approval_requests(status)
+  WHERE status = 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_approval_actions_request_id
+  ON public.approval_actions(request_id);
+
+-- Evaluate a workflow trigger condition ({"field", "operator", "value"}) against a record
+CREATE OR REPLACE FUNCTION public.approval_condition_matches(p_conditions jsonb, p_record jsonb)
+RETURNS boolean
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_field TEXT := p_conditions ->> 'field';
+  v_operator TEXT := COALESCE(p_conditions ->> 'operator', '=');
+  v_expected jsonb := p_conditions -> 'value';
+  v_actual TEXT;
+BEGIN
+  IF v_field IS NULL OR v_field = '' THEN
+    RETURN true;
+  END IF;
+
+  v_actual := p_record ->> v_field;
+  IF v_actual IS NULL THEN
+    RETURN false;
+  END IF;
+
+  IF jsonb_typeof(v_expected) = 'number' THEN
+    BEGIN
+      RETURN CASE v_operator
+        WHEN '>=' THEN v_actual::numeric >= (v_expected #>> '{}')::numeric
+        WHEN '>'  THEN v_actual::numeric >  (v_expected #>> '{}')::numeric
+        WHEN '<=' THEN v_actual::numeric <= (v_expected #>> '{}')::numeric
+        WHEN '<'  THEN v_actual::numeric <  (v_expected #>> '{}')::numeric
+        ELSE v_actual::numeric = (v_expected #>> '{}')::numeric
+      END;
+    EXCEPTION WHEN invalid_text_representation THEN
+      RETURN false;
+    END;
+  END IF;
+
+  RETURN CASE v_operator
+    WHEN '>=' THEN v_actual >= (v_expected #>> '{}')
+    WHEN '>'  THEN v_actual >  (v_expected #>> '{}')
+    WHEN '<=' THEN v_actual <= (v_expected #>> '{}')
+    WHEN '<'  THEN v_actual <  (v_expected #>> '{}')
+    ELSE lower(v_actual) = lower(v_expected #>> '{}')
+  END;
+END;
+$$;
+
+-- Notify everyone who can act on the current step of a request
+CREATE OR REPLACE FUNCTION public.notify_approval_step(p_request_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_request approval_requests%ROWTYPE;
+  v_workflow approval_workflows%ROWTYPE;
+  v_step jsonb;
+  v_message TEXT;
+BEGIN
+  SELECT * INTO v_request FROM approval_requests WHERE id = p_request_id;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  SELECT * INTO v_workflow FROM approval_workflows WHERE id = v_request.workflow_id;
+  v_step := v_workflow.approval_steps -> (COALESCE(v_request.current_step, 1) - 1);
+  IF v_step IS NULL THEN
+    RETURN;
+  END IF;
+
+  v_message := 'Approval required (step ' || v_request.current_step || '): ' ||
+    COALESCE(v_workflow.name, 'Approval workflow') || ' for ' ||
+    rtrim(v_request.entity_type, 's') || ' "' || COALESCE(v_request.entity_name, 'Unnamed') || '"';
+
+  INSERT INTO notifications (user_id, lead_id, message, notification_type)
+  SELECT DISTINCT approver.user_id,
+    CASE WHEN v_request.entity_type = 'leads' THEN v_request.entity_id ELSE NULL END,
+    v_message,
+    'approval_request'
+  FROM (
+    SELECT (v_step ->> 'user_id')::uuid AS user_id
+    WHERE COALESCE(v_step ->> 'user_id', '') <> ''
+    UNION
+    SELECT ur.user_id
+    FROM user_roles ur
+    WHERE COALESCE(v_step ->> 'user_id', '') = ''
+      AND ur.role::text = COALESCE(v_step ->> 'role', 'manager')
+  ) approver
+  WHERE approver.user_id IS NOT NULL
+    AND approver.user_id IS DISTINCT FROM v_request.submitted_by;
+END;
+$$;
+
+-- Value a new record keeps in a guarded field until the request is approved: the first
+-- pipeline stage for a deal's stage, otherwise the column default (NULL without one)
+CREATE OR REPLACE FUNCTION public.approval_initial_value(p_table text, p_column text)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_default TEXT;
+  v_value jsonb;
+BEGIN
+  IF p_table = 'deals' AND p_column = 'stage' THEN
+    SELECT to_jsonb(stage_name) INTO v_value
+    FROM pipeline_stages
+    WHERE is_active = true
+    ORDER BY stage_order
+    LIMIT 1;
+    IF v_value IS NOT NULL THEN
+      RETURN v_value;
+    END IF;
+  END IF;
+
+  SELECT pg_get_expr(d.adbin, d.adrelid) INTO v_default
+  FROM pg_attrdef d
+  JOIN pg_attribute a ON a.attrelid = d.adrelid AND a.attnum = d.adnum
+  WHERE d.adrelid = format('public.%I', p_table)::regclass
+    AND a.attname = p_column;
+
+  IF v_default IS NULL THEN
+    RETURN 'null'::jsonb;
+  END IF;
+
+  EXECUTE format('SELECT to_jsonb(%s)', v_default) INTO v_value;
+  RETURN COALESCE(v_value, 'null'::jsonb);
+END;
+$$;
+
+-- Hold back guarded changes on deals, leads and accounts until approved. Records created
+-- straight into a guarded value are saved with the field's initial value and a request.
+CREATE OR REPLACE FUNCTION public.enforce_approval_workflows()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_workflow approval_workflows%ROWTYPE;
+  v_new jsonb;
+  v_old jsonb;
+  v_guard_field TEXT;
+  v_guard_value TEXT;
+  v_request_id uuid;
+  v_entity_name TEXT;
+  v_held jsonb;
+BEGIN
+  -- Changes applied by act_on_approval_request are already approved
+  IF current_setting('app.approval_bypass', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  FOR v_workflow IN
+    SELECT * FROM approval_workflows
+    WHERE entity_type = TG_TABLE_NAME AND is_enabled = true
+    ORDER BY created_at
+  LOOP
+    v_new := to_jsonb(NEW);
+    v_old := CASE WHEN TG_OP = 'UPDATE' THEN to_jsonb(OLD) END;
+
+    -- The guarded field defaults to the condition field when no explicit guard is configured
+    v_guard_field := COALESCE(
+      NULLIF(v_workflow.trigger_conditions ->> 'guarded_field', ''),
+      v_workflow.trigger_conditions ->> 'field'
+    );
+    v_guard_value := NULLIF(v_workflow.trigger_conditions ->> 'guarded_value', '');
+
+    CONTINUE WHEN v_guard_field IS NULL OR NOT (v_new ? v_guard_field);
+    CONTINUE WHEN (v_new -> v_guard_field) IS NOT DISTINCT FROM (v_old -> v_guard_field);
+    CONTINUE WHEN v_guard_value IS NOT NULL
+      AND lower(COALESCE(v_new ->> v_guard_field, '')) <> lower(v_guard_value);
+    CONTINUE WHEN NOT approval_condition_matches(v_workflow.trigger_conditions, v_new);
+
+    v_entity_name := COALESCE(v_new ->> 'deal_name', v_new ->> 'lead_name', v_new ->> 'company_name');
+
+    -- Reuse an open request for the same workflow and record, otherwise open a new one
+    SELECT id INTO v_request_id
+    FROM approval_requests
+    WHERE workflow_id = v_workflow.id
+      AND entity_id = NEW.id
+      AND status = 'pending'
+    LIMIT 1;
+
+    IF v_request_id IS NULL THEN
+      INSERT INTO approval_requests (
+        workflow_id, entity_type, entity_id, entity_name, current_step,
+        status, submitted_by, pending_changes
+      ) VALUES (
+        v_workflow.id, TG_TABLE_NAME, NEW.id, v_entity_name, 1,
+        'pending', auth.uid(), jsonb_build_object(v_guard_field, v_new -> v_guard_field)
+      )
+      RETURNING id INTO v_request_id;
+
+      PERFORM notify_approval_step(v_request_id);
+    ELSE
+      UPDATE approval_requests
+      SET pending_changes = COALESCE(pending_changes, '{}'::jsonb)
+            || jsonb_build_object(v_guard_field, v_new -> v_guard_field),
+          entity_name = v_entity_name
+      WHERE id = v_request_id;
+    END IF;
+
+    -- Keep the previous value (the initial one on insert) until the request is approved;
+    -- other edits still save
+    v_held := CASE
+      WHEN TG_OP = 'INSERT' THEN approval_initial_value(TG_TABLE_NAME, v_guard_field)
+      ELSE v_old -> v_guard_field
+    END;
+    NEW := jsonb_populate_record(NEW, jsonb_build_object(v_guard_field, v_held));
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_approval_workflows_trigger ON public.deals;
+CREATE TRIGGER enforce_approval_workflows_trigger
+  BEFORE INSERT OR UPDATE ON public.deals
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_approval_workflows();
+
+DROP TRIGGER IF EXISTS enforce_approval_workflows_trigger ON public.leads;
+CREATE TRIGGER enforce_approval_workflows_trigger
+  BEFORE INSERT OR UPDATE ON public.leads
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_approval_workflows();
+
+DROP TRIGGER IF EXISTS enforce_approval_workflows_trigger ON public.accounts;
+CREATE TRIGGER enforce_approval_workflows_trigger
+  BEFORE INSERT OR UPDATE ON public.accounts
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_approval_workflows();
+
+-- Approve or reject the current step of a request
+CREATE OR REPLACE FUNCTION public.act_on_approval_request(
+  p_request_id uuid,
+  p_action text,
+  p_comments text DEFAULT NULL
+)
+RETURNS approval_requests
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_request approval_requests%ROWTYPE;
+  v_workflow approval_workflows%ROWTYPE;
+  v_step jsonb;
+  v_total_steps INTEGER;
+  v_guard_field TEXT;
+BEGIN
+  IF p_action NOT IN ('approved', 'rejected') THEN
+    RAISE EXCEPTION 'Invalid approval action: %', p_action;
+  END IF;
+
+  SELECT * INTO v_request FROM approval_requests WHERE id = p_request_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Approval request not found';
+  END IF;
+  IF v_request.status <> 'pending' THEN
+    RAISE EXCEPTION 'Approval request is already %', v_request.status;
+  END IF;
+
+  SELECT * INTO v_workflow FROM approval_workflows WHERE id = v_request.workflow_id;
+  v_total_steps := jsonb_array_length(COALESCE(v_workflow.approval_steps, '[]'::jsonb));
+  v_step := v_workflow.approval_steps -> (COALESCE(v_request.current_step, 1) - 1);
+
+  -- Admins can act on any step; otherwise the step's user or role must match
+  IF NOT (
+    is_user_admin()
+    OR (COALESCE(v_step ->> 'user_id', '') <> '' AND (v_step ->> 'user_id')::uuid = auth.uid())
+    OR (COALESCE(v_step ->> 'user_id', '') = '' AND get_user_role(auth.uid()) = COALESCE(v_step ->> 'role', 'manager'))
+  ) THEN
+    RAISE EXCEPTION 'You are not an approver for this step';
+  END IF;
+  -- Nobody but an admin signs off their own change
+  IF v_request.submitted_by = auth.uid() AND NOT is_user_admin() THEN
+    RAISE EXCEPTION 'You cannot approve your own request' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  INSERT INTO approval_actions (request_id, step_number, approver_id, action, comments)
+  VALUES (p_request_id, COALESCE(v_request.current_step, 1), auth.uid(), p_action, NULLIF(p_comments, ''));
+
+  IF p_action = 'rejected' THEN
+    UPDATE approval_requests
+    SET status = 'rejected', completed_at = now()
+    WHERE id = p_request_id
+    RETURNING * INTO v_request;
+
+    IF v_request.submitted_by IS NOT NULL THEN
+      INSERT INTO notifications (user_id, lead_id, message, notification_type)
+      VALUES (
+        v_request.submitted_by,
+        CASE WHEN v_request.entity_type = 'leads' THEN v_request.entity_id ELSE NULL END,
+        'Approval rejected: ' || COALESCE(v_workflow.name, 'Approval workflow') || ' for "' ||
+          COALESCE(v_request.entity_name, 'Unnamed') || '"',
+        'approval_rejected'
+      );
+    END IF;
+
+    RETURN v_request;
+  END IF;
+
+  IF COALESCE(v_request.current_step, 1) < v_total_steps THEN
+    UPDATE approval_requests
+    SET current_step = COALESCE(current_step, 1) + 1
+    WHERE id = p_request_id
+    RETURNING * INTO v_request;
+
+    PERFORM notify_approval_step(p_request_id);
+    RETURN v_request;
+  END IF;
+
+  UPDATE approval_requests
+  SET status = 'approved', completed_at = now()
+  WHERE id = p_request_id
+  RETURNING * INTO v_request;
+
+  -- Apply the held change now that every step has approved it. Only the workflow's guarded
+  -- field is written, on the workflow's own table, whatever else pending_changes holds.
+  v_guard_field := COALESCE(
+    NULLIF(v_workflow.trigger_conditions ->> 'guarded_field', ''),
+    v_workflow.trigger_conditions ->> 'field'
+  );
+  IF v_guard_field IS NOT NULL
+    AND v_request.pending_changes ? v_guard_field
+    AND v_request.entity_type = v_workflow.entity_type
+    AND v_workflow.entity_type IN ('deals', 'leads', 'accounts') THEN
+    PERFORM set_config('app.approval_bypass', 'on', true);
+    EXECUTE format(
+      'UPDATE public.%I t SET %I = (jsonb_populate_record(t, $2)).%I WHERE id = $1',
+      v_workflow.entity_type, v_guard_field, v_guard_field
+    ) USING v_request.entity_id, jsonb_build_object(v_guard_field, v_request.pending_changes -> v_guard_field);
+    PERFORM set_config('app.approval_bypass', 'off', true);
+  END IF;
+
+  IF v_request.submitted_by IS NOT NULL THEN
+    INSERT INTO notifications (user_id, lead_id, message, notification_type)
+    VALUES (
+      v_request.submitted_by,
+      CASE WHEN v_request.entity_type = 'leads' THEN v_request.entity_id ELSE NULL END,
+      'Approval granted: ' || COALESCE(v_workflow.name, 'Approval workflow') || ' for "' ||
+        COALESCE(v_request.entity_name, 'Unnamed') || '"',
+      'approval_approved'
+    );
+  END IF;
+
+  RETURN v_request;
+END;
+$$;
+
+-- Let the submitter withdraw a pending request
+CREATE OR REPLACE FUNCTION public.cancel_approval_request(p_request_id uuid)
+RETURNS approval_requests
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_request approval_requests%ROWTYPE;
+BEGIN
+  UPDATE approval_requests
+  SET status = 'cancelled', completed_at = now()
+  WHERE id = p_request_id
+    AND status = 'pending'
+    AND (submitted_by = auth.uid() OR is_user_admin())
+  RETURNING * INTO v_request;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Approval request cannot be cancelled';
+  END IF;
+
+  RETURN v_request;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.notify_approval_step(uuid) FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION public.act_on_approval_request(uuid, text, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.cancel_approval_request(uuid) TO authenticated;
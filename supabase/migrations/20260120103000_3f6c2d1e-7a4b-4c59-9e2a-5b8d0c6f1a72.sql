@@ -0,0 +1,28 @@
+-- Delivery history for scheduled reports (written by the run-scheduled-reports edge function)
+ALTER TABLE public.report_schedules
+  ADD COLUMN IF NOT EXISTS next_run_at TIMESTAMPTZ;
+
+CREATE TABLE IF NOT EXISTS public.report_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  schedule_id UUID REFERENCES public.report_schedules(id) ON DELETE CASCADE,
+  report_type TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'running', -- running, success, partial, failed
+  trigger_source TEXT NOT NULL DEFAULT 'cron', -- cron, manual
+  row_count INTEGER DEFAULT 0,
+  recipients_count INTEGER DEFAULT 0,
+  sent_count INTEGER DEFAULT 0,
+  error_message TEXT,
+  started_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  completed_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_report_runs_schedule ON public.report_runs(schedule_id, started_at DESC);
+CREATE INDEX IF NOT EXISTS idx_report_runs_started_at ON public.report_runs(started_at DESC);
+
+ALTER TABLE public.report_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view report runs" ON public.report_runs
+  FOR SELECT USING (is_user_admin());
+
+CREATE POLICY "Admins can delete report runs" ON public.report_runs
+  FOR DELETE USING (is_user_admin());
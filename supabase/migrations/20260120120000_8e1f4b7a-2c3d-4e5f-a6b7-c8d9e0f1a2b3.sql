@@ -0,0 +1,149 @@
+-- Deal stages are now configured in pipeline_stages instead of a fixed CHECK list
+ALTER TABLE public.deals DROP CONSTRAINT IF EXISTS deals_stage_check;
+
+-- The original seed put Discussions after Offered; put it back in pipeline order if nobody has edited it yet
+UPDATE public.pipeline_stages AS ps
+SET stage_order = v.stage_order, stage_probability = v.stage_probability
+FROM (VALUES
+  ('Lead', 0, 10),
+  ('Discussions', 1, 20),
+  ('Qualified', 2, 40),
+  ('RFQ', 3, 60),
+  ('Offered', 4, 80)
+) AS v(stage_name, stage_order, stage_probability)
+WHERE ps.stage_name = v.stage_name
+  AND EXISTS (
+    SELECT 1 FROM public.pipeline_stages
+    WHERE stage_name = 'Discussions' AND stage_order = 4 AND updated_at = created_at
+  );
+
+-- Any stage value already used by deals must exist as a pipeline stage
+INSERT INTO public.pipeline_stages (stage_name, stage_order, is_active)
+SELECT orphan.stage, (SELECT COALESCE(MAX(stage_order), -1) FROM public.pipeline_stages) + row_number() OVER (ORDER BY orphan.stage), true
+FROM (
+  SELECT DISTINCT stage FROM public.deals
+  WHERE stage IS NOT NULL
+    AND stage NOT IN (SELECT stage_name FROM public.pipeline_stages)
+) AS orphan
+WHERE EXISTS (SELECT 1 FROM public.pipeline_stages);
+
+-- Reject deal stages that are not in the pipeline
+CREATE OR REPLACE FUNCTION public.validate_deal_stage()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.stage IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.stage IS NOT DISTINCT FROM OLD.stage THEN
+    RETURN NEW;
+  END IF;
+
+  -- Nothing configured yet: keep accepting the default stages
+  IF NOT EXISTS (SELECT 1 FROM public.pipeline_stages) THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.pipeline_stages WHERE stage_name = NEW.stage) THEN
+    RAISE EXCEPTION 'Unknown deal stage "%"', NEW.stage
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS validate_deal_stage_trigger ON public.deals;
+CREATE TRIGGER validate_deal_stage_trigger
+  BEFORE INSERT OR UPDATE OF stage ON public.deals
+  FOR EACH ROW EXECUTE FUNCTION public.validate_deal_stage();
+
+-- Renaming a stage carries its deals along
+CREATE OR REPLACE FUNCTION public.cascade_pipeline_stage_rename()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.stage_name IS DISTINCT FROM OLD.stage_name THEN
+    -- A rename is not a stage move, so it must not start approval workflows
+    PERFORM set_config('app.approval_bypass', 'on', true);
+    UPDATE public.deals SET stage = NEW.stage_name WHERE stage = OLD.stage_name;
+    PERFORM set_config('app.approval_bypass', 'off', true);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS cascade_pipeline_stage_rename_trigger ON public.pipeline_stages;
+CREATE TRIGGER cascade_pipeline_stage_rename_trigger
+  AFTER UPDATE OF stage_name ON public.pipeline_stages
+  FOR EACH ROW EXECUTE FUNCTION public.cascade_pipeline_stage_rename();
+
+-- A stage that still holds deals cannot be deleted directly; use delete_pipeline_stage
+CREATE OR REPLACE FUNCTION public.prevent_used_pipeline_stage_delete()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  SELECT COUNT(*) INTO v_count FROM public.deals WHERE stage = OLD.stage_name;
+  IF v_count > 0 THEN
+    RAISE EXCEPTION 'Stage "%" still has % deal(s); reassign them before deleting it', OLD.stage_name, v_count;
+  END IF;
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS prevent_used_pipeline_stage_delete_trigger ON public.pipeline_stages;
+CREATE TRIGGER prevent_used_pipeline_stage_delete_trigger
+  BEFORE DELETE ON public.pipeline_stages
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_used_pipeline_stage_delete();
+
+-- Move a stage's deals to another stage, then delete it. Returns the number of deals moved.
+CREATE OR REPLACE FUNCTION public.delete_pipeline_stage(p_stage_id uuid, p_reassign_to text)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_stage public.pipeline_stages%ROWTYPE;
+  v_moved INTEGER;
+BEGIN
+  IF NOT is_user_admin() THEN
+    RAISE EXCEPTION 'Only administrators can delete pipeline stages';
+  END IF;
+
+  SELECT * INTO v_stage FROM public.pipeline_stages WHERE id = p_stage_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Pipeline stage not found';
+  END IF;
+
+  IF p_reassign_to = v_stage.stage_name
+     OR NOT EXISTS (SELECT 1 FROM public.pipeline_stages WHERE stage_name = p_reassign_to AND id <> p_stage_id) THEN
+    RAISE EXCEPTION 'Choose another existing stage to move deals to';
+  END IF;
+
+  PERFORM set_config('app.approval_bypass', 'on', true);
+  UPDATE public.deals
+  SET stage = p_reassign_to, modified_at = now(), modified_by = auth.uid()
+  WHERE stage = v_stage.stage_name;
+  GET DIAGNOSTICS v_moved = ROW_COUNT;
+  PERFORM set_config('app.approval_bypass', 'off', true);
+
+  DELETE FROM public.pipeline_stages WHERE id = p_stage_id;
+
+  RETURN v_moved;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.delete_pipeline_stage(uuid, text) TO authenticated;
@@ -0,0 +1,51 @@
+-- Values for admin-defined fields (crm_custom_fields), keyed by field_name
+ALTER TABLE public.accounts ADD COLUMN IF NOT EXISTS custom_fields JSONB NOT NULL DEFAULT '{}'::jsonb;
+ALTER TABLE public.contacts ADD COLUMN IF NOT EXISTS custom_fields JSONB NOT NULL DEFAULT '{}'::jsonb;
+ALTER TABLE public.leads ADD COLUMN IF NOT EXISTS custom_fields JSONB NOT NULL DEFAULT '{}'::jsonb;
+ALTER TABLE public.deals ADD COLUMN IF NOT EXISTS custom_fields JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+ALTER TABLE public.crm_custom_fields
+  ADD CONSTRAINT crm_custom_fields_entity_type_check
+  CHECK (entity_type IN ('account', 'contact', 'lead', 'deal'));
+
+ALTER TABLE public.crm_custom_fields
+  ADD CONSTRAINT crm_custom_fields_field_type_check
+  CHECK (field_type IN ('text', 'textarea', 'number', 'date', 'select', 'multiselect', 'boolean'));
+
+ALTER TABLE public.crm_custom_fields
+  ADD CONSTRAINT crm_custom_fields_field_name_check
+  CHECK (field_name ~ '^[a-z][a-z0-9_]*$');
+
+CREATE INDEX IF NOT EXISTS idx_crm_custom_fields_entity ON public.crm_custom_fields(entity_type, display_order);
+
+-- Deleting a field definition removes its stored values
+CREATE OR REPLACE FUNCTION public.cleanup_custom_field_values()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Value cleanup is not a user edit, so it must not start approval workflows
+  PERFORM set_config('app.approval_bypass', 'on', true);
+  CASE OLD.entity_type
+    WHEN 'account' THEN
+      UPDATE public.accounts SET custom_fields = custom_fields - OLD.field_name WHERE custom_fields ? OLD.field_name;
+    WHEN 'contact' THEN
+      UPDATE public.contacts SET custom_fields = custom_fields - OLD.field_name WHERE custom_fields ? OLD.field_name;
+    WHEN 'lead' THEN
+      UPDATE public.leads SET custom_fields = custom_fields - OLD.field_name WHERE custom_fields ? OLD.field_name;
+    WHEN 'deal' THEN
+      UPDATE public.deals SET custom_fields = custom_fields - OLD.field_name WHERE custom_fields ? OLD.field_name;
+    ELSE
+      NULL;
+  END CASE;
+  PERFORM set_config('app.approval_bypass', 'off', true);
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS cleanup_custom_field_values_trigger ON public.crm_custom_fields;
+CREATE TRIGGER cleanup_custom_field_values_trigger
+  AFTER DELETE ON public.crm_custom_fields
+  FOR EACH ROW EXECUTE FUNCTION public.cleanup_custom_field_values();
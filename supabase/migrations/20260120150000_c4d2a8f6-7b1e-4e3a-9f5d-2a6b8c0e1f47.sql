@@ -0,0 +1,198 @@
+-- Recurring tasks. tasks.recurrence holds an RRULE-style string such as
+-- 'FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH;COUNT=10'; the older plain values ('daily', 'weekly', ...) still work.
+-- Occurrences of one series share recurrence_series_id (the first task's id) and are numbered by recurrence_index.
+ALTER TABLE public.tasks
+  ADD COLUMN IF NOT EXISTS recurrence_series_id UUID,
+  ADD COLUMN IF NOT EXISTS recurrence_index INTEGER NOT NULL DEFAULT 1,
+  ADD COLUMN IF NOT EXISTS recurrence_exception BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS reminder_sent_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_tasks_recurrence_series ON public.tasks(recurrence_series_id, recurrence_index)
+  WHERE recurrence_series_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_tasks_pending_reminders ON public.tasks(reminder_date)
+  WHERE reminder_date IS NOT NULL AND reminder_sent_at IS NULL;
+
+UPDATE public.tasks
+SET recurrence_series_id = id
+WHERE recurrence IS NOT NULL AND recurrence NOT IN ('', 'none') AND recurrence_series_id IS NULL;
+
+-- One part of a rule, e.g. task_rrule_part('FREQ=WEEKLY;INTERVAL=2', 'INTERVAL') = '2'
+CREATE OR REPLACE FUNCTION public.task_rrule_part(p_rule text, p_key text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT substring(';' || upper(p_rule) || ';' FROM ';' || upper(p_key) || '=([^;]*);');
+$$;
+
+-- Date of the occurrence p_steps occurrences after p_from
+CREATE OR REPLACE FUNCTION public.next_task_occurrence_date(p_rule text, p_from date, p_steps integer DEFAULT 1)
+RETURNS date
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  v_rule text := upper(COALESCE(p_rule, ''));
+  v_freq text;
+  v_interval integer;
+  v_days integer[];
+  v_next date := p_from;
+  v_candidate date;
+  i integer;
+BEGIN
+  IF v_rule IN ('DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY') THEN
+    v_rule := 'FREQ=' || v_rule;
+  END IF;
+
+  v_freq := public.task_rrule_part(v_rule, 'FREQ');
+  IF v_freq IS NULL OR p_from IS NULL OR p_steps < 1 THEN
+    RETURN NULL;
+  END IF;
+
+  v_interval := GREATEST(COALESCE(NULLIF(public.task_rrule_part(v_rule, 'INTERVAL'), '')::integer, 1), 1);
+
+  IF v_freq = 'WEEKLY' THEN
+    SELECT array_agg(pos ORDER BY pos) INTO v_days
+    FROM (
+      SELECT DISTINCT array_position(ARRAY['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'], trim(d)) AS pos
+      FROM unnest(string_to_array(public.task_rrule_part(v_rule, 'BYDAY'), ',')) AS d
+    ) AS days
+    WHERE pos IS NOT NULL;
+  END IF;
+
+  CASE v_freq
+    WHEN 'DAILY' THEN
+      RETURN p_from + v_interval * p_steps;
+    WHEN 'WEEKLY' THEN
+      IF v_days IS NULL THEN
+        RETURN p_from + 7 * v_interval * p_steps;
+      END IF;
+      -- Walk the listed weekdays: the rest of this week first, then the first day of the next active week
+      FOR i IN 1..p_steps LOOP
+        SELECT min(v_next - extract(isodow FROM v_next)::integer + day) INTO v_candidate
+        FROM unnest(v_days) AS day
+        WHERE day > extract(isodow FROM v_next);
+
+        IF v_candidate IS NULL THEN
+          v_candidate := v_next - (extract(isodow FROM v_next)::integer - 1) + 7 * v_interval + (v_days[1] - 1);
+        END IF;
+        v_next := v_candidate;
+      END LOOP;
+      RETURN v_next;
+    WHEN 'MONTHLY' THEN
+      RETURN (p_from + make_interval(months => v_interval * p_steps))::date;
+    WHEN 'YEARLY' THEN
+      RETURN (p_from + make_interval(years => v_interval * p_steps))::date;
+    ELSE
+      RETURN NULL;
+  END CASE;
+END;
+$$;
+
+-- New recurring tasks start their own series; a changed reminder is sent again
+CREATE OR REPLACE FUNCTION public.prepare_task_recurrence()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.recurrence IS NOT NULL AND NEW.recurrence NOT IN ('', 'none') AND NEW.recurrence_series_id IS NULL THEN
+    NEW.recurrence_series_id := NEW.id;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.reminder_date IS DISTINCT FROM OLD.reminder_date THEN
+    NEW.reminder_sent_at := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS prepare_task_recurrence_trigger ON public.tasks;
+CREATE TRIGGER prepare_task_recurrence_trigger
+  BEFORE INSERT OR UPDATE ON public.tasks
+  FOR EACH ROW EXECUTE FUNCTION public.prepare_task_recurrence();
+
+-- Completing an occurrence of a recurring task creates the next one
+CREATE OR REPLACE FUNCTION public.create_next_task_occurrence()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_source public.tasks%ROWTYPE;
+  v_next_index integer := NEW.recurrence_index + 1;
+  v_count integer;
+  v_next_due date;
+BEGIN
+  IF NEW.status <> 'completed' OR OLD.status = 'completed' THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.recurrence IS NULL OR NEW.recurrence IN ('', 'none') OR NEW.due_date IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  -- Reopening and completing an occurrence again must not add a second follow-up
+  IF EXISTS (
+    SELECT 1 FROM public.tasks
+    WHERE recurrence_series_id = NEW.recurrence_series_id AND recurrence_index >= v_next_index
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  -- Series values come from the latest occurrence that was not edited on its own
+  SELECT * INTO v_source
+  FROM public.tasks
+  WHERE recurrence_series_id = NEW.recurrence_series_id
+    AND NOT recurrence_exception
+    AND due_date IS NOT NULL
+    AND recurrence_index <= NEW.recurrence_index
+  ORDER BY recurrence_index DESC
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    v_source := NEW;
+  END IF;
+
+  v_count := NULLIF(public.task_rrule_part(v_source.recurrence, 'COUNT'), '')::integer;
+  IF v_count IS NOT NULL AND v_next_index > v_count THEN
+    RETURN NEW;
+  END IF;
+
+  -- Counted from the source occurrence so a moved one-off date doesn't shift the series
+  v_next_due := public.next_task_occurrence_date(
+    v_source.recurrence, v_source.due_date, v_next_index - v_source.recurrence_index
+  );
+  IF v_next_due IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF v_source.recurrence_end_date IS NOT NULL AND v_next_due > v_source.recurrence_end_date THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.tasks (
+    title, description, status, priority, category, tags,
+    due_date, due_time, reminder_date,
+    assigned_to, created_by, module_type,
+    account_id, contact_id, lead_id, meeting_id, deal_id, parent_task_id,
+    recurrence, recurrence_end_date, recurrence_series_id, recurrence_index
+  ) VALUES (
+    v_source.title, v_source.description, 'open', v_source.priority, v_source.category, v_source.tags,
+    v_next_due, v_source.due_time,
+    CASE WHEN v_source.reminder_date IS NULL THEN NULL
+         ELSE v_next_due::timestamptz + (v_source.reminder_date - v_source.due_date::timestamptz) END,
+    v_source.assigned_to, v_source.created_by, v_source.module_type,
+    v_source.account_id, v_source.contact_id, v_source.lead_id, v_source.meeting_id, v_source.deal_id, v_source.parent_task_id,
+    v_source.recurrence, v_source.recurrence_end_date, NEW.recurrence_series_id, v_next_index
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS create_next_task_occurrence_trigger ON public.tasks;
+CREATE TRIGGER create_next_task_occurrence_trigger
+  AFTER UPDATE OF status ON public.tasks
+  FOR EACH ROW EXECUTE FUNCTION public.create_next_task_occurrence();
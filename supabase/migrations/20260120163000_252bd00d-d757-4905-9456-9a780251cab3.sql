@@ -0,0 +1,196 @@
+-- Sub-tasks are tasks with parent_task_id set. Each has its own assignee, due date,
+-- status and linked record; a parent cannot be completed while any sub-task is still open.
+CREATE INDEX IF NOT EXISTS idx_tasks_parent_task_id ON public.tasks(parent_task_id)
+  WHERE parent_task_id IS NOT NULL;
+
+-- A task cannot become its own ancestor
+CREATE OR REPLACE FUNCTION public.prevent_task_hierarchy_cycle()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.parent_task_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.parent_task_id = NEW.id OR EXISTS (
+    WITH RECURSIVE ancestors AS (
+      SELECT id, parent_task_id FROM public.tasks WHERE id = NEW.parent_task_id
+      UNION
+      SELECT t.id, t.parent_task_id FROM public.tasks t JOIN ancestors a ON t.id = a.parent_task_id
+    )
+    SELECT 1 FROM ancestors WHERE id = NEW.id
+  ) THEN
+    RAISE EXCEPTION 'A task cannot be a sub-task of itself or of one of its own sub-tasks'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS prevent_task_hierarchy_cycle_trigger ON public.tasks;
+CREATE TRIGGER prevent_task_hierarchy_cycle_trigger
+  BEFORE INSERT OR UPDATE OF parent_task_id ON public.tasks
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_task_hierarchy_cycle();
+
+-- Completing a parent requires every sub-task to be completed or cancelled
+CREATE OR REPLACE FUNCTION public.enforce_subtasks_complete()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_open INTEGER;
+BEGIN
+  IF NEW.status <> 'completed' OR OLD.status = 'completed' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT COUNT(*) INTO v_open
+  FROM public.tasks
+  WHERE parent_task_id = NEW.id AND status IN ('open', 'in_progress');
+
+  IF v_open > 0 THEN
+    RAISE EXCEPTION 'This task has % open sub-task(s); complete or cancel them first', v_open
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_subtasks_complete_trigger ON public.tasks;
+CREATE TRIGGER enforce_subtasks_complete_trigger
+  BEFORE UPDATE OF status ON public.tasks
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_subtasks_complete();
+
+-- Turn the old checklist items (task_subtasks) into real sub-tasks.
+-- The table is kept for reference but is no longer read by the app.
+INSERT INTO public.tasks (
+  title, status, priority, due_date, assigned_to, created_by, module_type,
+  account_id, contact_id, lead_id, meeting_id, deal_id, parent_task_id,
+  completed_at, created_at
+)
+SELECT
+  s.title,
+  CASE WHEN s.is_completed THEN 'completed' ELSE 'open' END,
+  t.priority, t.due_date, t.assigned_to, t.created_by, t.module_type,
+  t.account_id, t.contact_id, t.lead_id, t.meeting_id, t.deal_id, t.id,
+  CASE WHEN s.is_completed THEN s.updated_at END,
+  s.created_at + s.order_index * interval '1 millisecond'
+FROM public.task_subtasks s
+JOIN public.tasks t ON t.id = s.task_id;
+
+-- Sub-task templates started when a deal enters a pipeline stage
+CREATE TABLE IF NOT EXISTS public.task_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  pipeline_stage_id UUID NOT NULL REFERENCES public.pipeline_stages(id) ON DELETE CASCADE,
+  description TEXT,
+  priority TEXT NOT NULL DEFAULT 'medium',
+  due_in_days INTEGER,
+  -- [{"title": "...", "priority": "high", "due_in_days": 2}]
+  subtasks JSONB NOT NULL DEFAULT '[]'::jsonb,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT task_templates_priority_check CHECK (priority IN ('high', 'medium', 'low')),
+  CONSTRAINT task_templates_subtasks_check CHECK (jsonb_typeof(subtasks) = 'array')
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_templates_stage ON public.task_templates(pipeline_stage_id)
+  WHERE is_active;
+
+ALTER TABLE public.task_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view task templates" ON public.task_templates
+  FOR SELECT USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Admins can manage task templates" ON public.task_templates
+  FOR ALL USING (is_user_admin()) WITH CHECK (is_user_admin());
+
+DROP TRIGGER IF EXISTS update_task_templates_updated_at ON public.task_templates;
+CREATE TRIGGER update_task_templates_updated_at
+  BEFORE UPDATE ON public.task_templates
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Which template a task was created from, so a deal re-entering a stage doesn't duplicate open work
+ALTER TABLE public.tasks
+  ADD COLUMN IF NOT EXISTS task_template_id UUID REFERENCES public.task_templates(id) ON DELETE SET NULL;
+
+-- Create the stage's template tasks when a deal enters it. Runs after the approval
+-- guard, so a stage move that is held for approval creates nothing until it is applied.
+CREATE OR REPLACE FUNCTION public.create_stage_template_tasks()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_template public.task_templates%ROWTYPE;
+  v_subtask jsonb;
+  v_parent_id UUID;
+  v_owner UUID := COALESCE(NEW.created_by, auth.uid());
+BEGIN
+  IF NEW.stage IS NULL OR (TG_OP = 'UPDATE' AND NEW.stage IS NOT DISTINCT FROM OLD.stage) THEN
+    RETURN NEW;
+  END IF;
+
+  FOR v_template IN
+    SELECT tt.*
+    FROM public.task_templates tt
+    JOIN public.pipeline_stages ps ON ps.id = tt.pipeline_stage_id
+    WHERE ps.stage_name = NEW.stage AND tt.is_active
+    ORDER BY tt.created_at
+  LOOP
+    IF EXISTS (
+      SELECT 1 FROM public.tasks
+      WHERE deal_id = NEW.id
+        AND task_template_id = v_template.id
+        AND parent_task_id IS NULL
+        AND status IN ('open', 'in_progress')
+    ) THEN
+      CONTINUE;
+    END IF;
+
+    INSERT INTO public.tasks (
+      title, description, status, priority, due_date,
+      assigned_to, created_by, module_type, deal_id, task_template_id
+    ) VALUES (
+      v_template.name || ': ' || NEW.deal_name, v_template.description, 'open', v_template.priority,
+      CASE WHEN v_template.due_in_days IS NULL THEN NULL ELSE current_date + v_template.due_in_days END,
+      v_owner, v_owner, 'deals', NEW.id, v_template.id
+    )
+    RETURNING id INTO v_parent_id;
+
+    FOR v_subtask IN SELECT * FROM jsonb_array_elements(v_template.subtasks)
+    LOOP
+      CONTINUE WHEN COALESCE(trim(v_subtask ->> 'title'), '') = '';
+
+      INSERT INTO public.tasks (
+        title, status, priority, due_date,
+        assigned_to, created_by, module_type, deal_id, parent_task_id, task_template_id
+      ) VALUES (
+        trim(v_subtask ->> 'title'), 'open',
+        COALESCE(NULLIF(v_subtask ->> 'priority', ''), v_template.priority),
+        CASE WHEN v_subtask ? 'due_in_days' AND jsonb_typeof(v_subtask -> 'due_in_days') = 'number'
+          THEN current_date + (v_subtask ->> 'due_in_days')::integer
+          ELSE NULL END,
+        v_owner, v_owner, 'deals', NEW.id, v_parent_id, v_template.id
+      );
+    END LOOP;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS create_stage_template_tasks_trigger ON public.deals;
+CREATE TRIGGER create_stage_template_tasks_trigger
+  AFTER INSERT OR UPDATE OF stage ON public.deals
+  FOR EACH ROW EXECUTE FUNCTION public.create_stage_template_tasks();
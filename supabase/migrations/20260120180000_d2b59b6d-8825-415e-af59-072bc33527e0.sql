@@ -0,0 +1,13 @@
+-- Deal action items are the "next step" on a deal. Speed up the per-deal panel,
+-- the "my overdue deal actions" widget and the reminder digest lookups.
+CREATE INDEX IF NOT EXISTS idx_deal_action_items_deal_id ON public.deal_action_items(deal_id);
+
+CREATE INDEX IF NOT EXISTS idx_deal_action_items_open_due ON public.deal_action_items(assigned_to, due_date)
+  WHERE status IN ('Open', 'Ongoing');
+
+-- Lets a notification point at the deal it is about (stale-deal nudges, deal action reminders)
+ALTER TABLE public.notifications
+  ADD COLUMN IF NOT EXISTS deal_id UUID REFERENCES public.deals(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_notifications_deal_id ON public.notifications(deal_id)
+  WHERE deal_id IS NOT NULL;
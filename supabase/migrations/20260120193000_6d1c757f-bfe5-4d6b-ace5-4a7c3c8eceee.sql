@@ -0,0 +1,18 @@
+-- import_export_settings holds named column-mapping presets for module imports.
+-- A user can keep several presets per entity (one per vendor spreadsheet), so the
+-- old one-row-per-entity constraint becomes one row per name.
+ALTER TABLE public.import_export_settings
+  ADD COLUMN IF NOT EXISTS name TEXT NOT NULL DEFAULT 'Default';
+
+ALTER TABLE public.import_export_settings
+  DROP CONSTRAINT IF EXISTS import_export_settings_user_id_entity_type_key;
+
+ALTER TABLE public.import_export_settings
+  DROP CONSTRAINT IF EXISTS import_export_settings_user_entity_name_key;
+
+ALTER TABLE public.import_export_settings
+  ADD CONSTRAINT import_export_settings_user_entity_name_key UNIQUE (user_id, entity_type, name);
+
+-- field_mappings: {"<source header>": "<target field>"}, default_values: {"<target field>": "<value>"}
+COMMENT ON COLUMN public.import_export_settings.field_mappings IS 'Source CSV header -> target field key';
+COMMENT ON COLUMN public.import_export_settings.default_values IS 'Target field key -> value used when the mapped cell is empty';
@@ -0,0 +1,67 @@
+-- Company-wide reporting currency. Deals keep their own currency_type; dashboards, targets,
+-- forecasts and exports convert into this currency using exchange_rates.
+CREATE TABLE IF NOT EXISTS public.currency_settings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  reporting_currency TEXT NOT NULL DEFAULT 'EUR',
+  updated_by UUID,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT currency_settings_reporting_currency_check CHECK (reporting_currency ~ '^[A-Z]{3}$')
+);
+
+-- Single-row table
+CREATE UNIQUE INDEX IF NOT EXISTS currency_settings_singleton ON public.currency_settings ((true));
+
+-- Revenue figures were always shown in EUR, so that stays the default
+INSERT INTO public.currency_settings (reporting_currency)
+SELECT 'EUR'
+WHERE NOT EXISTS (SELECT 1 FROM public.currency_settings);
+
+ALTER TABLE public.currency_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view currency settings" ON public.currency_settings
+  FOR SELECT USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Admins can manage currency settings" ON public.currency_settings
+  FOR ALL USING (is_user_admin()) WITH CHECK (is_user_admin());
+
+DROP TRIGGER IF EXISTS update_currency_settings_updated_at ON public.currency_settings;
+CREATE TRIGGER update_currency_settings_updated_at
+  BEFORE UPDATE ON public.currency_settings
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- 1 from_currency = rate to_currency, from effective_date until the pair's next entry
+CREATE TABLE IF NOT EXISTS public.exchange_rates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  from_currency TEXT NOT NULL,
+  to_currency TEXT NOT NULL,
+  rate NUMERIC(20, 10) NOT NULL,
+  effective_date DATE NOT NULL,
+  created_by UUID,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT exchange_rates_currency_check CHECK (from_currency ~ '^[A-Z]{3}$' AND to_currency ~ '^[A-Z]{3}$'),
+  CONSTRAINT exchange_rates_distinct_check CHECK (from_currency <> to_currency),
+  CONSTRAINT exchange_rates_rate_check CHECK (rate > 0),
+  CONSTRAINT exchange_rates_pair_date_key UNIQUE (from_currency, to_currency, effective_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_exchange_rates_pair ON public.exchange_rates(from_currency, to_currency, effective_date DESC);
+
+ALTER TABLE public.exchange_rates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view exchange rates" ON public.exchange_rates
+  FOR SELECT USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Admins can manage exchange rates" ON public.exchange_rates
+  FOR ALL USING (is_user_admin()) WITH CHECK (is_user_admin());
+
+DROP TRIGGER IF EXISTS update_exchange_rates_updated_at ON public.exchange_rates;
+CREATE TRIGGER update_exchange_rates_updated_at
+  BEFORE UPDATE ON public.exchange_rates
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Targets remember the currency they were entered in so changing the reporting currency
+-- converts them instead of silently relabelling the number
+ALTER TABLE public.yearly_revenue_targets
+  ADD COLUMN IF NOT EXISTS currency TEXT NOT NULL DEFAULT 'EUR';
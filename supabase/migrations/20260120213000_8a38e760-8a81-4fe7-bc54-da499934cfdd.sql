@@ -0,0 +1,424 @@
+-- Server-side merge for accounts, contacts and leads.
+-- merge_records folds one record into another in a single transaction: the chosen field
+-- values are written to the survivor, every child row is re-parented, tags are unioned
+-- and the duplicate is deleted. record_merges keeps full snapshots plus the ids of every
+-- moved row so unmerge_records can put things back within the retention window.
+
+CREATE TABLE IF NOT EXISTS public.record_merges (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  entity_type TEXT NOT NULL,
+  survivor_id UUID NOT NULL,
+  merged_id UUID NOT NULL,
+  -- The deleted record, as it was
+  merged_record JSONB NOT NULL,
+  -- The survivor before and right after the merge
+  survivor_before JSONB NOT NULL,
+  survivor_after JSONB NOT NULL,
+  -- {"<table>.<column>": ["<row id>", ...]} for every child row that was re-parented
+  moved_rows JSONB NOT NULL DEFAULT '{}'::jsonb,
+  merged_by UUID,
+  merged_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  undo_until TIMESTAMPTZ NOT NULL,
+  unmerged_at TIMESTAMPTZ,
+  unmerged_by UUID,
+  CONSTRAINT record_merges_entity_type_check CHECK (entity_type IN ('accounts', 'contacts', 'leads'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_record_merges_survivor ON public.record_merges(entity_type, survivor_id);
+CREATE INDEX IF NOT EXISTS idx_record_merges_merged ON public.record_merges(entity_type, merged_id);
+
+ALTER TABLE public.record_merges ENABLE ROW LEVEL SECURITY;
+
+-- Written only through merge_records / unmerge_records
+CREATE POLICY "Users can view merges they made, admins can view all" ON public.record_merges
+  FOR SELECT USING (is_user_admin() OR merged_by = auth.uid());
+
+-- Child columns pointing at each mergeable entity, as '<table>.<column>'. Every single-column
+-- foreign key to the entity is picked up from the catalog, so tables added later are re-pointed
+-- (and restored on unmerge) without touching the merge. The core columns are also listed by
+-- hand, since not all of them are backed by a constraint in every environment.
+CREATE OR REPLACE FUNCTION public.merge_reference_columns(p_entity_type text)
+RETURNS text[]
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT ARRAY(
+    SELECT DISTINCT ref
+    FROM (
+      SELECT child.relname || '.' || att.attname AS ref
+      FROM pg_constraint con
+      JOIN pg_class child ON child.oid = con.conrelid
+      JOIN pg_namespace ns ON ns.oid = child.relnamespace
+      JOIN pg_attribute att ON att.attrelid = con.conrelid AND att.attnum = con.conkey[1]
+      WHERE con.contype = 'f'
+        AND con.confrelid = to_regclass(format('public.%I', p_entity_type))
+        AND ns.nspname = 'public'
+        AND array_length(con.conkey, 1) = 1
+        -- Moved rows are remembered by id so unmerge can move them back
+        AND EXISTS (
+          SELECT 1 FROM pg_attribute id_att
+          WHERE id_att.attrelid = child.oid AND id_att.attname = 'id' AND NOT id_att.attisdropped
+        )
+      UNION
+      SELECT unnest(CASE p_entity_type
+        WHEN 'accounts' THEN ARRAY[
+          'contacts.account_id', 'leads.account_id', 'deals.account_id', 'meetings.account_id',
+          'tasks.account_id', 'email_history.account_id', 'account_activities.account_id'
+        ]
+        WHEN 'contacts' THEN ARRAY[
+          'deals.contact_id', 'meetings.contact_id', 'tasks.contact_id', 'email_history.contact_id',
+          'contact_activities.contact_id', 'leads.converted_from_contact_id'
+        ]
+        WHEN 'leads' THEN ARRAY[
+          'meetings.lead_id', 'tasks.lead_id', 'email_history.lead_id', 'lead_action_items.lead_id',
+          'notifications.lead_id'
+        ]
+      END)
+    ) refs
+    ORDER BY ref
+  );
+$$;
+
+-- Rows that name an entity by a type column and an id instead of a foreign key, as
+-- ('<table>.<id column>', type column, type value). Tables added later extend this list.
+CREATE OR REPLACE FUNCTION public.merge_keyed_references(p_entity_type text)
+RETURNS TABLE(ref text, type_column text, type_value text)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT 'approval_requests.entity_id', 'entity_type', p_entity_type;
+$$;
+
+-- Whether the caller may change (or, with p_delete, remove) a record; mirrors the table RLS
+CREATE OR REPLACE FUNCTION public.can_modify_merge_record(p_entity_type text, p_record jsonb, p_delete boolean)
+RETURNS boolean
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_owner_column TEXT := CASE p_entity_type WHEN 'accounts' THEN 'account_owner' ELSE 'contact_owner' END;
+BEGIN
+  RETURN COALESCE(
+    is_user_admin()
+      OR (NOT p_delete AND is_user_manager())
+      OR (p_record ->> 'created_by')::uuid = auth.uid()
+      OR (p_record ->> v_owner_column)::uuid = auth.uid(),
+    false
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.refresh_account_counts(p_account_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF p_account_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  UPDATE public.accounts
+  SET
+    deal_count = (SELECT COUNT(*) FROM public.deals WHERE account_id = p_account_id),
+    contact_count = (SELECT COUNT(*) FROM public.contacts WHERE account_id = p_account_id)
+  WHERE id = p_account_id;
+END;
+$$;
+
+-- Writes the columns of p_new that differ from p_old onto the record
+CREATE OR REPLACE FUNCTION public.apply_merge_record_changes(p_entity_type text, p_id uuid, p_old jsonb, p_new jsonb)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_columns TEXT;
+  v_values TEXT;
+BEGIN
+  IF p_entity_type NOT IN ('accounts', 'contacts', 'leads') THEN
+    RAISE EXCEPTION 'Unsupported record type: %', p_entity_type USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  SELECT string_agg(quote_ident(key), ', '), string_agg('r.' || quote_ident(key), ', ')
+  INTO v_columns, v_values
+  FROM jsonb_each(p_new)
+  WHERE key <> 'id' AND value IS DISTINCT FROM p_old -> key;
+
+  IF v_columns IS NULL THEN
+    RETURN;
+  END IF;
+
+  EXECUTE format(
+    'UPDATE public.%I t SET (%s) = (SELECT %s FROM jsonb_populate_record(NULL::public.%I, $1) r) WHERE t.id = $2',
+    p_entity_type, v_columns, v_values, p_entity_type
+  ) USING p_new, p_id;
+END;
+$$;
+
+-- Union of two jsonb tag arrays, keeping first-seen order
+CREATE OR REPLACE FUNCTION public.merge_tag_arrays(p_first jsonb, p_second jsonb)
+RETURNS jsonb
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN jsonb_typeof(p_first) IS DISTINCT FROM 'array' AND jsonb_typeof(p_second) IS DISTINCT FROM 'array' THEN p_first
+    ELSE (
+      SELECT COALESCE(jsonb_agg(tag ORDER BY first_position), '[]'::jsonb)
+      FROM (
+        SELECT tag, MIN(position) AS first_position
+        FROM jsonb_array_elements_text(
+          (CASE WHEN jsonb_typeof(p_first) = 'array' THEN p_first ELSE '[]'::jsonb END)
+          || (CASE WHEN jsonb_typeof(p_second) = 'array' THEN p_second ELSE '[]'::jsonb END)
+        ) WITH ORDINALITY AS e(tag, position)
+        GROUP BY tag
+      ) tags
+    )
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.merge_records(
+  p_entity_type text,
+  p_survivor_id uuid,
+  p_merged_id uuid,
+  p_field_values jsonb DEFAULT '{}'::jsonb
+)
+RETURNS public.record_merges
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  -- How long a merge can be undone
+  v_retention CONSTANT interval := interval '30 days';
+  -- Never taken from p_field_values: identity, audit and derived columns
+  v_protected CONSTANT text[] := ARRAY[
+    'id', 'created_by', 'created_at', 'created_time', 'updated_at', 'modified_at', 'modified_time',
+    'modified_by', 'tags', 'custom_fields', 'deal_count', 'contact_count', 'email_opens', 'email_clicks'
+  ];
+  v_survivor jsonb;
+  v_merged jsonb;
+  v_new jsonb;
+  v_moved jsonb := '{}'::jsonb;
+  v_ids jsonb;
+  v_ref TEXT;
+  v_table TEXT;
+  v_column TEXT;
+  v_field RECORD;
+  v_keyed RECORD;
+  v_merge record_merges%ROWTYPE;
+BEGIN
+  IF p_entity_type NOT IN ('accounts', 'contacts', 'leads') THEN
+    RAISE EXCEPTION 'Records of type % cannot be merged', p_entity_type USING ERRCODE = 'check_violation';
+  END IF;
+  IF p_survivor_id = p_merged_id THEN
+    RAISE EXCEPTION 'A record cannot be merged into itself' USING ERRCODE = 'check_violation';
+  END IF;
+
+  EXECUTE format('SELECT to_jsonb(t) FROM public.%I t WHERE t.id = $1 FOR UPDATE', p_entity_type)
+    INTO v_survivor USING p_survivor_id;
+  EXECUTE format('SELECT to_jsonb(t) FROM public.%I t WHERE t.id = $1 FOR UPDATE', p_entity_type)
+    INTO v_merged USING p_merged_id;
+
+  IF v_survivor IS NULL OR v_merged IS NULL THEN
+    RAISE EXCEPTION 'One of the records no longer exists' USING ERRCODE = 'no_data_found';
+  END IF;
+  IF NOT can_modify_merge_record(p_entity_type, v_survivor, false)
+     OR NOT can_modify_merge_record(p_entity_type, v_merged, true) THEN
+    RAISE EXCEPTION 'You do not have permission to merge these records' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  -- Chosen field values, then the fields every merge combines
+  v_new := v_survivor;
+  FOR v_field IN SELECT key, value FROM jsonb_each(COALESCE(p_field_values, '{}'::jsonb)) LOOP
+    IF v_survivor ? v_field.key AND NOT v_field.key = ANY(v_protected) THEN
+      v_new := jsonb_set(v_new, ARRAY[v_field.key], v_field.value);
+    END IF;
+  END LOOP;
+
+  IF v_survivor ? 'tags' THEN
+    v_new := jsonb_set(v_new, '{tags}', merge_tag_arrays(v_survivor -> 'tags', v_merged -> 'tags'));
+  END IF;
+  IF v_survivor ? 'custom_fields' THEN
+    -- Survivor values win; the duplicate only fills blanks
+    v_new := jsonb_set(v_new, '{custom_fields}',
+      COALESCE(NULLIF(v_merged -> 'custom_fields', 'null'::jsonb), '{}'::jsonb)
+      || COALESCE(NULLIF(v_survivor -> 'custom_fields', 'null'::jsonb), '{}'::jsonb));
+  END IF;
+  IF p_entity_type = 'contacts' THEN
+    v_new := v_new
+      || jsonb_build_object('email_opens', COALESCE((v_survivor ->> 'email_opens')::int, 0) + COALESCE((v_merged ->> 'email_opens')::int, 0))
+      || jsonb_build_object('email_clicks', COALESCE((v_survivor ->> 'email_clicks')::int, 0) + COALESCE((v_merged ->> 'email_clicks')::int, 0));
+  END IF;
+  IF v_survivor ? 'modified_by' THEN
+    v_new := jsonb_set(v_new, '{modified_by}', to_jsonb(auth.uid()));
+  END IF;
+  IF v_survivor ? 'modified_time' THEN
+    v_new := jsonb_set(v_new, '{modified_time}', to_jsonb(now()));
+  END IF;
+
+  PERFORM apply_merge_record_changes(p_entity_type, p_survivor_id, v_survivor, v_new);
+
+  -- Re-parent every child row, remembering which ones moved
+  FOREACH v_ref IN ARRAY merge_reference_columns(p_entity_type) LOOP
+    v_table := split_part(v_ref, '.', 1);
+    v_column := split_part(v_ref, '.', 2);
+    EXECUTE format(
+      'WITH moved AS (UPDATE public.%I SET %I = $1 WHERE %I = $2 RETURNING id) SELECT COALESCE(jsonb_agg(id), ''[]''::jsonb) FROM moved',
+      v_table, v_column, v_column
+    ) INTO v_ids USING p_survivor_id, p_merged_id;
+    IF jsonb_array_length(v_ids) > 0 THEN
+      v_moved := v_moved || jsonb_build_object(v_ref, v_ids);
+    END IF;
+  END LOOP;
+
+  -- Rows keyed by entity type as well as id, such as approval requests
+  FOR v_keyed IN SELECT * FROM merge_keyed_references(p_entity_type) LOOP
+    v_table := split_part(v_keyed.ref, '.', 1);
+    v_column := split_part(v_keyed.ref, '.', 2);
+    EXECUTE format(
+      'WITH moved AS (UPDATE public.%I SET %I = $1 WHERE %I = $2 AND %I = $3 RETURNING id) SELECT COALESCE(jsonb_agg(id), ''[]''::jsonb) FROM moved',
+      v_table, v_column, v_column, v_keyed.type_column
+    ) INTO v_ids USING p_survivor_id, p_merged_id, v_keyed.type_value;
+    IF jsonb_array_length(v_ids) > 0 THEN
+      v_moved := v_moved || jsonb_build_object(v_keyed.ref, v_ids);
+    END IF;
+  END LOOP;
+
+  EXECUTE format('DELETE FROM public.%I WHERE id = $1', p_entity_type) USING p_merged_id;
+
+  IF p_entity_type = 'accounts' THEN
+    PERFORM refresh_account_counts(p_survivor_id);
+  ELSE
+    PERFORM refresh_account_counts((v_survivor ->> 'account_id')::uuid);
+    PERFORM refresh_account_counts((v_merged ->> 'account_id')::uuid);
+  END IF;
+
+  EXECUTE format('SELECT to_jsonb(t) FROM public.%I t WHERE t.id = $1', p_entity_type)
+    INTO v_new USING p_survivor_id;
+
+  INSERT INTO public.record_merges (
+    entity_type, survivor_id, merged_id, merged_record, survivor_before, survivor_after,
+    moved_rows, merged_by, undo_until
+  ) VALUES (
+    p_entity_type, p_survivor_id, p_merged_id, v_merged, v_survivor, v_new,
+    v_moved, auth.uid(), now() + v_retention
+  )
+  RETURNING * INTO v_merge;
+
+  PERFORM log_security_event('RECORD_MERGE', p_entity_type, p_survivor_id::text, jsonb_build_object(
+    'merge_id', v_merge.id,
+    'merged_id', p_merged_id,
+    'moved_rows', (SELECT COALESCE(jsonb_object_agg(key, jsonb_array_length(value)), '{}'::jsonb) FROM jsonb_each(v_moved))
+  ));
+
+  RETURN v_merge;
+END;
+$$;
+
+-- Recreates the merged record, moves its child rows back and restores the survivor's
+-- fields. Fields edited on the survivor since the merge keep their newer value.
+CREATE OR REPLACE FUNCTION public.unmerge_records(p_merge_id uuid)
+RETURNS public.record_merges
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_merge record_merges%ROWTYPE;
+  v_current jsonb;
+  v_restored jsonb;
+  v_field RECORD;
+  v_ref RECORD;
+  v_exists boolean;
+BEGIN
+  SELECT * INTO v_merge FROM record_merges WHERE id = p_merge_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Merge not found' USING ERRCODE = 'no_data_found';
+  END IF;
+  IF NOT (is_user_admin() OR v_merge.merged_by = auth.uid()) THEN
+    RAISE EXCEPTION 'Only the user who merged these records or an admin can undo the merge'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+  IF v_merge.unmerged_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This merge has already been undone' USING ERRCODE = 'check_violation';
+  END IF;
+  IF v_merge.undo_until < now() THEN
+    RAISE EXCEPTION 'This merge can no longer be undone' USING ERRCODE = 'check_violation';
+  END IF;
+
+  EXECUTE format('SELECT to_jsonb(t) FROM public.%I t WHERE t.id = $1 FOR UPDATE', v_merge.entity_type)
+    INTO v_current USING v_merge.survivor_id;
+  IF v_current IS NULL THEN
+    RAISE EXCEPTION 'The record that was kept has since been deleted' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  EXECUTE format('SELECT EXISTS (SELECT 1 FROM public.%I WHERE id = $1)', v_merge.entity_type)
+    INTO v_exists USING v_merge.merged_id;
+  IF v_exists THEN
+    RAISE EXCEPTION 'The merged record already exists again' USING ERRCODE = 'unique_violation';
+  END IF;
+
+  -- Only roll back fields that still hold the value the merge wrote
+  v_restored := v_current;
+  FOR v_field IN SELECT key, value FROM jsonb_each(v_merge.survivor_after) LOOP
+    IF v_field.value IS DISTINCT FROM v_merge.survivor_before -> v_field.key
+       AND v_current -> v_field.key IS NOT DISTINCT FROM v_field.value
+       AND v_field.key NOT IN ('modified_time', 'modified_at', 'updated_at', 'modified_by', 'deal_count', 'contact_count', 'last_activity_date') THEN
+      v_restored := jsonb_set(v_restored, ARRAY[v_field.key], v_merge.survivor_before -> v_field.key);
+    END IF;
+  END LOOP;
+  PERFORM apply_merge_record_changes(v_merge.entity_type, v_merge.survivor_id, v_current, v_restored);
+
+  EXECUTE format(
+    'INSERT INTO public.%I SELECT * FROM jsonb_populate_record(NULL::public.%I, $1)',
+    v_merge.entity_type, v_merge.entity_type
+  ) USING v_merge.merged_record;
+
+  -- Move back the child rows that still point at the survivor
+  FOR v_ref IN SELECT key, value FROM jsonb_each(v_merge.moved_rows) LOOP
+    EXECUTE format(
+      'UPDATE public.%I SET %I = $1 WHERE %I = $2 AND id = ANY($3)',
+      split_part(v_ref.key, '.', 1), split_part(v_ref.key, '.', 2), split_part(v_ref.key, '.', 2)
+    ) USING v_merge.merged_id, v_merge.survivor_id,
+      ARRAY(SELECT jsonb_array_elements_text(v_ref.value)::uuid);
+  END LOOP;
+
+  IF v_merge.entity_type = 'accounts' THEN
+    PERFORM refresh_account_counts(v_merge.survivor_id);
+    PERFORM refresh_account_counts(v_merge.merged_id);
+  ELSE
+    PERFORM refresh_account_counts((v_restored ->> 'account_id')::uuid);
+    PERFORM refresh_account_counts((v_merge.merged_record ->> 'account_id')::uuid);
+  END IF;
+
+  UPDATE record_merges
+  SET unmerged_at = now(), unmerged_by = auth.uid()
+  WHERE id = p_merge_id
+  RETURNING * INTO v_merge;
+
+  PERFORM log_security_event('RECORD_UNMERGE', v_merge.entity_type, v_merge.survivor_id::text, jsonb_build_object(
+    'merge_id', v_merge.id,
+    'merged_id', v_merge.merged_id
+  ));
+
+  RETURN v_merge;
+END;
+$$;
+
+-- Helpers of merge_records/unmerge_records only, which check the caller's rights first
+REVOKE EXECUTE ON FUNCTION public.can_modify_merge_record(text, jsonb, boolean) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.refresh_account_counts(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.apply_merge_record_changes(text, uuid, jsonb, jsonb) FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION public.merge_records(text, uuid, uuid, jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.unmerge_records(uuid) TO authenticated;
@@ -0,0 +1,328 @@
+-- Lead-to-deal and contact-to-lead conversion as single database operations.
+-- Admins map source fields onto target fields (custom fields as cf_<field_name>); the
+-- convert_* functions create the new record, flag the source and re-link open tasks,
+-- scheduled meetings and email history in one transaction.
+
+CREATE TABLE IF NOT EXISTS public.conversion_field_mappings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  conversion_type TEXT NOT NULL,
+  source_field TEXT NOT NULL,
+  target_field TEXT NOT NULL,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_by UUID,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT conversion_field_mappings_type_check CHECK (conversion_type IN ('lead_to_deal', 'contact_to_lead')),
+  CONSTRAINT conversion_field_mappings_target_unique UNIQUE (conversion_type, target_field)
+);
+
+ALTER TABLE public.conversion_field_mappings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view conversion field mappings" ON public.conversion_field_mappings
+  FOR SELECT USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Admins can manage conversion field mappings" ON public.conversion_field_mappings
+  FOR ALL USING (is_user_admin()) WITH CHECK (is_user_admin());
+
+DROP TRIGGER IF EXISTS update_conversion_field_mappings_updated_at ON public.conversion_field_mappings;
+CREATE TRIGGER update_conversion_field_mappings_updated_at
+  BEFORE UPDATE ON public.conversion_field_mappings
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Defaults match what the conversion dialogs used to copy
+INSERT INTO public.conversion_field_mappings (conversion_type, source_field, target_field, sort_order) VALUES
+  ('lead_to_deal', 'lead_name', 'lead_name', 1),
+  ('lead_to_deal', 'company_name', 'customer_name', 2),
+  ('lead_to_deal', 'country', 'region', 3),
+  ('lead_to_deal', 'account_id', 'account_id', 4),
+  ('lead_to_deal', 'converted_from_contact_id', 'contact_id', 5),
+  ('contact_to_lead', 'contact_name', 'lead_name', 1),
+  ('contact_to_lead', 'company_name', 'company_name', 2),
+  ('contact_to_lead', 'position', 'position', 3),
+  ('contact_to_lead', 'email', 'email', 4),
+  ('contact_to_lead', 'phone_no', 'phone_no', 5),
+  ('contact_to_lead', 'linkedin', 'linkedin', 6),
+  ('contact_to_lead', 'contact_source', 'contact_source', 7),
+  ('contact_to_lead', 'description', 'description', 8),
+  ('contact_to_lead', 'contact_owner', 'contact_owner', 9),
+  ('contact_to_lead', 'account_id', 'account_id', 10)
+ON CONFLICT (conversion_type, target_field) DO NOTHING;
+
+-- Back-reference from a deal to the lead it was converted from
+ALTER TABLE public.deals ADD COLUMN IF NOT EXISTS source_lead_id UUID REFERENCES public.leads(id) ON DELETE SET NULL;
+ALTER TABLE public.leads ADD COLUMN IF NOT EXISTS converted_at TIMESTAMPTZ;
+-- Emails stay linked to the lead and follow it onto the deal
+ALTER TABLE public.email_history ADD COLUMN IF NOT EXISTS deal_id UUID REFERENCES public.deals(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_deals_source_lead_id ON public.deals(source_lead_id);
+CREATE INDEX IF NOT EXISTS idx_email_history_deal_id ON public.email_history(deal_id);
+
+-- Converted leads from before this migration: best-effort timestamp
+UPDATE public.leads SET converted_at = modified_time WHERE lead_status = 'Converted' AND converted_at IS NULL;
+
+-- Target values produced by the active mappings for one source record
+CREATE OR REPLACE FUNCTION public.apply_conversion_mappings(p_conversion_type text, p_source jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_result jsonb := '{}'::jsonb;
+  v_custom jsonb := '{}'::jsonb;
+  v_mapping RECORD;
+  v_value jsonb;
+BEGIN
+  FOR v_mapping IN
+    SELECT source_field, target_field
+    FROM conversion_field_mappings
+    WHERE conversion_type = p_conversion_type AND is_active
+    ORDER BY sort_order, created_at
+  LOOP
+    v_value := CASE
+      WHEN v_mapping.source_field LIKE 'cf\_%' THEN p_source -> 'custom_fields' -> substr(v_mapping.source_field, 4)
+      ELSE p_source -> v_mapping.source_field
+    END;
+
+    IF v_value IS NULL OR v_value = 'null'::jsonb OR v_value = '""'::jsonb THEN
+      CONTINUE;
+    END IF;
+
+    IF v_mapping.target_field LIKE 'cf\_%' THEN
+      v_custom := v_custom || jsonb_build_object(substr(v_mapping.target_field, 4), v_value);
+    ELSE
+      v_result := v_result || jsonb_build_object(v_mapping.target_field, v_value);
+    END IF;
+  END LOOP;
+
+  IF v_custom <> '{}'::jsonb THEN
+    v_result := v_result || jsonb_build_object('custom_fields', v_custom);
+  END IF;
+
+  RETURN v_result;
+END;
+$$;
+
+-- Inserts the given columns only, so the table defaults apply to everything else.
+-- Internal to the convert functions: runs with their rights and cannot be called directly.
+CREATE OR REPLACE FUNCTION public.insert_converted_record(p_table text, p_values jsonb)
+RETURNS uuid
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_columns jsonb;
+  v_names TEXT;
+  v_id UUID;
+BEGIN
+  IF p_table NOT IN ('deals', 'leads') THEN
+    RAISE EXCEPTION 'Unsupported conversion target: %', p_table USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  EXECUTE format('SELECT to_jsonb(jsonb_populate_record(NULL::public.%I, ''{}''::jsonb))', p_table) INTO v_columns;
+
+  SELECT string_agg(quote_ident(key), ', ')
+  INTO v_names
+  FROM jsonb_object_keys(p_values) AS key
+  WHERE v_columns ? key AND key <> 'id';
+
+  EXECUTE format(
+    'INSERT INTO public.%I (%s) SELECT %s FROM jsonb_populate_record(NULL::public.%I, $1) RETURNING id',
+    p_table, v_names, v_names, p_table
+  ) INTO v_id USING p_values;
+
+  RETURN v_id;
+END;
+$$;
+
+-- p_values holds what the user entered in the deal form and wins over the mapped values
+CREATE OR REPLACE FUNCTION public.convert_lead_to_deal(p_lead_id uuid, p_values jsonb DEFAULT '{}'::jsonb)
+RETURNS public.deals
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  -- Never taken from the form: identity, audit and conversion columns
+  v_protected CONSTANT text[] := ARRAY['id', 'created_at', 'created_by', 'modified_at', 'modified_by', 'source_lead_id'];
+  v_lead jsonb;
+  v_values jsonb;
+  v_mapped jsonb;
+  v_field RECORD;
+  v_deal deals%ROWTYPE;
+  v_deal_id UUID;
+  v_tasks INTEGER;
+  v_meetings INTEGER;
+  v_emails INTEGER;
+BEGIN
+  SELECT to_jsonb(l) INTO v_lead FROM leads l WHERE l.id = p_lead_id FOR UPDATE;
+
+  IF v_lead IS NULL THEN
+    RAISE EXCEPTION 'Lead not found' USING ERRCODE = 'no_data_found';
+  END IF;
+  IF NOT COALESCE(is_user_admin() OR is_user_manager()
+          OR (v_lead ->> 'created_by')::uuid = auth.uid()
+          OR (v_lead ->> 'contact_owner')::uuid = auth.uid(), false) THEN
+    RAISE EXCEPTION 'You do not have permission to convert this lead' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+  IF EXISTS (SELECT 1 FROM deals WHERE source_lead_id = p_lead_id) THEN
+    RAISE EXCEPTION 'This lead has already been converted to a deal' USING ERRCODE = 'unique_violation';
+  END IF;
+
+  v_mapped := apply_conversion_mappings('lead_to_deal', v_lead);
+  v_values := v_mapped;
+  FOR v_field IN SELECT key, value FROM jsonb_each(COALESCE(p_values, '{}'::jsonb)) LOOP
+    IF v_field.key = ANY(v_protected) OR v_field.value = 'null'::jsonb OR v_field.value = '""'::jsonb THEN
+      CONTINUE;
+    END IF;
+    IF v_field.key = 'custom_fields' THEN
+      v_values := v_values || jsonb_build_object('custom_fields',
+        COALESCE(v_mapped -> 'custom_fields', '{}'::jsonb) || v_field.value);
+    ELSE
+      v_values := v_values || jsonb_build_object(v_field.key, v_field.value);
+    END IF;
+  END LOOP;
+
+  v_values := v_values || jsonb_build_object(
+    'deal_name', COALESCE(NULLIF(v_values ->> 'deal_name', ''), 'Deal for ' || (v_lead ->> 'lead_name')),
+    'source_lead_id', p_lead_id,
+    'created_by', auth.uid(),
+    'modified_by', auth.uid()
+  );
+
+  v_deal_id := insert_converted_record('deals', v_values);
+
+  UPDATE leads
+  SET lead_status = 'Converted', converted_at = now(), modified_by = auth.uid(), modified_time = now()
+  WHERE id = p_lead_id;
+
+  -- Open work on the lead continues on the deal; the lead link is kept for history
+  UPDATE tasks SET deal_id = v_deal_id
+  WHERE lead_id = p_lead_id AND deal_id IS NULL AND status IN ('open', 'in_progress');
+  GET DIAGNOSTICS v_tasks = ROW_COUNT;
+
+  UPDATE meetings SET deal_id = v_deal_id
+  WHERE lead_id = p_lead_id AND deal_id IS NULL AND status = 'scheduled';
+  GET DIAGNOSTICS v_meetings = ROW_COUNT;
+
+  UPDATE email_history SET deal_id = v_deal_id
+  WHERE lead_id = p_lead_id AND deal_id IS NULL;
+  GET DIAGNOSTICS v_emails = ROW_COUNT;
+
+  PERFORM log_security_event('LEAD_CONVERTED', 'leads', p_lead_id::text, jsonb_build_object(
+    'deal_id', v_deal_id,
+    'tasks_moved', v_tasks,
+    'meetings_moved', v_meetings,
+    'emails_linked', v_emails
+  ));
+
+  SELECT * INTO v_deal FROM deals WHERE id = v_deal_id;
+  RETURN v_deal;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.convert_contact_to_lead(p_contact_id uuid)
+RETURNS public.leads
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_contact jsonb;
+  v_values jsonb;
+  v_lead leads%ROWTYPE;
+  v_lead_id UUID;
+  v_tasks INTEGER;
+  v_meetings INTEGER;
+  v_emails INTEGER;
+BEGIN
+  SELECT to_jsonb(c) INTO v_contact FROM contacts c WHERE c.id = p_contact_id FOR UPDATE;
+
+  IF v_contact IS NULL THEN
+    RAISE EXCEPTION 'Contact not found' USING ERRCODE = 'no_data_found';
+  END IF;
+  -- Same rule as the contacts update policy
+  IF NOT COALESCE(is_user_admin() OR is_user_manager()
+          OR (v_contact ->> 'created_by')::uuid = auth.uid()
+          OR (v_contact ->> 'contact_owner')::uuid = auth.uid(), false) THEN
+    RAISE EXCEPTION 'You do not have permission to convert this contact' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+  IF EXISTS (SELECT 1 FROM leads WHERE converted_from_contact_id = p_contact_id) THEN
+    RAISE EXCEPTION 'This contact has already been converted to a lead' USING ERRCODE = 'unique_violation';
+  END IF;
+
+  v_values := apply_conversion_mappings('contact_to_lead', v_contact) - ARRAY['id', 'created_by', 'created_time', 'modified_by', 'modified_time', 'converted_from_contact_id'];
+  v_values := v_values || jsonb_build_object(
+    'lead_name', COALESCE(NULLIF(v_values ->> 'lead_name', ''), v_contact ->> 'contact_name'),
+    'contact_owner', COALESCE(v_values -> 'contact_owner', to_jsonb(auth.uid())),
+    'converted_from_contact_id', p_contact_id,
+    'created_by', auth.uid(),
+    'modified_by', auth.uid(),
+    'created_time', now(),
+    'modified_time', now()
+  );
+
+  v_lead_id := insert_converted_record('leads', v_values);
+
+  UPDATE tasks SET lead_id = v_lead_id
+  WHERE contact_id = p_contact_id AND lead_id IS NULL AND status IN ('open', 'in_progress');
+  GET DIAGNOSTICS v_tasks = ROW_COUNT;
+
+  UPDATE meetings SET lead_id = v_lead_id
+  WHERE contact_id = p_contact_id AND lead_id IS NULL AND status = 'scheduled';
+  GET DIAGNOSTICS v_meetings = ROW_COUNT;
+
+  UPDATE email_history SET lead_id = v_lead_id
+  WHERE contact_id = p_contact_id AND lead_id IS NULL;
+  GET DIAGNOSTICS v_emails = ROW_COUNT;
+
+  PERFORM log_security_event('CONTACT_CONVERTED', 'contacts', p_contact_id::text, jsonb_build_object(
+    'lead_id', v_lead_id,
+    'tasks_linked', v_tasks,
+    'meetings_linked', v_meetings,
+    'emails_linked', v_emails
+  ));
+
+  SELECT * INTO v_lead FROM leads WHERE id = v_lead_id;
+  RETURN v_lead;
+END;
+$$;
+
+-- Lead-to-deal conversion per lead owner, for leads created since p_since (all time when NULL).
+-- Runs with the caller's rights, so users only see the leads RLS lets them see.
+CREATE OR REPLACE FUNCTION public.get_lead_conversion_rates(p_since timestamptz DEFAULT NULL)
+RETURNS TABLE (
+  owner_id uuid,
+  total_leads bigint,
+  converted_leads bigint,
+  conversion_rate numeric,
+  won_deals bigint,
+  avg_days_to_convert numeric
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    COALESCE(l.contact_owner, l.created_by) AS owner_id,
+    COUNT(*) AS total_leads,
+    COUNT(*) FILTER (WHERE l.lead_status = 'Converted') AS converted_leads,
+    ROUND(100.0 * COUNT(*) FILTER (WHERE l.lead_status = 'Converted') / COUNT(*), 1) AS conversion_rate,
+    COUNT(DISTINCT d.id) FILTER (WHERE ps.is_won_stage) AS won_deals,
+    ROUND(AVG(EXTRACT(EPOCH FROM (l.converted_at - l.created_time)) / 86400)
+      FILTER (WHERE l.converted_at IS NOT NULL AND l.created_time IS NOT NULL), 1) AS avg_days_to_convert
+  FROM leads l
+  LEFT JOIN deals d ON d.source_lead_id = l.id
+  LEFT JOIN pipeline_stages ps ON ps.stage_name = d.stage
+  WHERE p_since IS NULL OR l.created_time >= p_since
+  GROUP BY COALESCE(l.contact_owner, l.created_by)
+  ORDER BY converted_leads DESC, total_leads DESC;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.insert_converted_record(text, jsonb) FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION public.convert_lead_to_deal(uuid, jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.convert_contact_to_lead(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_lead_conversion_rates(timestamptz) TO authenticated;
@@ -0,0 +1,11 @@
+-- The email edge functions choose their transport from the "Email (SMTP)" integration:
+-- config.provider is 'graph' (Microsoft Graph), 'smtp' (SMTP + IMAP) or 'file' (local .eml
+-- files for development). Existing installs keep Microsoft Graph.
+UPDATE public.integration_settings
+SET config = jsonb_build_object('provider', 'graph') || COALESCE(config, '{}'::jsonb)
+WHERE integration_name = 'Email (SMTP)'
+  AND (config IS NULL OR NOT config ? 'provider');
+
+INSERT INTO public.integration_settings (integration_name, is_enabled, config)
+VALUES ('Email (SMTP)', false, '{"provider": "graph", "host": null, "port": 587, "secure": false}')
+ON CONFLICT (integration_name) DO NOTHING;
@@ -0,0 +1,288 @@
+-- Email sequences: ordered template steps sent to enrolled leads and contacts.
+-- process-email-sequences sends due steps inside the sequence's business hours, in the
+-- enrollment's timezone. A reply or bounce on any email to the recipient stops the enrollment.
+
+CREATE TABLE IF NOT EXISTS public.email_sequences (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  description TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  -- Sending window, in the recipient's local time
+  business_hours_start TIME NOT NULL DEFAULT '09:00',
+  business_hours_end TIME NOT NULL DEFAULT '17:00',
+  -- ISO weekdays, 1 = Monday ... 7 = Sunday
+  business_days INTEGER[] NOT NULL DEFAULT ARRAY[1, 2, 3, 4, 5],
+  -- Used for enrollments that were not given a timezone
+  default_timezone TEXT NOT NULL DEFAULT 'UTC',
+  created_by UUID DEFAULT auth.uid(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT email_sequences_business_hours_check CHECK (business_hours_start < business_hours_end),
+  CONSTRAINT email_sequences_business_days_check CHECK (
+    cardinality(business_days) > 0 AND business_days <@ ARRAY[1, 2, 3, 4, 5, 6, 7]
+  )
+);
+
+CREATE TABLE IF NOT EXISTS public.email_sequence_steps (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  sequence_id UUID NOT NULL REFERENCES public.email_sequences(id) ON DELETE CASCADE,
+  step_order INTEGER NOT NULL,
+  -- Days after the previous step (after enrollment for the first step)
+  day_offset INTEGER NOT NULL DEFAULT 0,
+  template_id UUID NOT NULL REFERENCES public.email_templates(id) ON DELETE RESTRICT,
+  -- Send as a reply in the thread of the previous step
+  reply_to_previous BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT email_sequence_steps_day_offset_check CHECK (day_offset >= 0),
+  CONSTRAINT email_sequence_steps_order_key UNIQUE (sequence_id, step_order) DEFERRABLE INITIALLY DEFERRED
+);
+
+CREATE TABLE IF NOT EXISTS public.email_sequence_enrollments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  sequence_id UUID NOT NULL REFERENCES public.email_sequences(id) ON DELETE CASCADE,
+  lead_id UUID REFERENCES public.leads(id) ON DELETE CASCADE,
+  contact_id UUID REFERENCES public.contacts(id) ON DELETE CASCADE,
+  recipient_email TEXT NOT NULL,
+  recipient_name TEXT,
+  timezone TEXT NOT NULL DEFAULT 'UTC',
+  status TEXT NOT NULL DEFAULT 'active',
+  -- step_order of the next step to send
+  current_step INTEGER NOT NULL DEFAULT 1,
+  next_send_at TIMESTAMPTZ,
+  last_email_id UUID REFERENCES public.email_history(id) ON DELETE SET NULL,
+  -- Failed sends of the current step; reset once it goes out
+  send_attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  enrolled_by UUID DEFAULT auth.uid(),
+  enrolled_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  stopped_at TIMESTAMPTZ,
+  stop_reason TEXT,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT email_sequence_enrollments_status_check CHECK (
+    status IN ('active', 'completed', 'replied', 'bounced', 'stopped', 'failed')
+  ),
+  CONSTRAINT email_sequence_enrollments_target_check CHECK (num_nonnulls(lead_id, contact_id) = 1)
+);
+
+-- One active enrollment per recipient and sequence
+CREATE UNIQUE INDEX IF NOT EXISTS idx_email_sequence_enrollments_active
+  ON public.email_sequence_enrollments(sequence_id, lower(recipient_email)) WHERE status = 'active';
+CREATE INDEX IF NOT EXISTS idx_email_sequence_enrollments_due
+  ON public.email_sequence_enrollments(next_send_at) WHERE status = 'active';
+CREATE INDEX IF NOT EXISTS idx_email_sequence_enrollments_recipient
+  ON public.email_sequence_enrollments(lower(recipient_email)) WHERE status = 'active';
+CREATE INDEX IF NOT EXISTS idx_email_sequence_steps_sequence ON public.email_sequence_steps(sequence_id, step_order);
+
+ALTER TABLE public.email_history
+  ADD COLUMN IF NOT EXISTS sequence_enrollment_id UUID REFERENCES public.email_sequence_enrollments(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS sequence_step_id UUID REFERENCES public.email_sequence_steps(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_email_history_sequence_step ON public.email_history(sequence_step_id)
+  WHERE sequence_step_id IS NOT NULL;
+
+ALTER TABLE public.email_sequences ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.email_sequence_steps ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.email_sequence_enrollments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view email sequences" ON public.email_sequences
+  FOR SELECT USING (true);
+
+CREATE POLICY "Users can insert email sequences" ON public.email_sequences
+  FOR INSERT WITH CHECK (created_by = auth.uid());
+
+CREATE POLICY "Users can update their own sequences, managers and admins can update all" ON public.email_sequences
+  FOR UPDATE USING (is_user_admin() OR is_user_manager() OR created_by = auth.uid());
+
+CREATE POLICY "Users can delete their own sequences, admins can delete all" ON public.email_sequences
+  FOR DELETE USING (is_user_admin() OR created_by = auth.uid());
+
+CREATE POLICY "Authenticated users can view email sequence steps" ON public.email_sequence_steps
+  FOR SELECT USING (true);
+
+CREATE POLICY "Sequence editors can manage email sequence steps" ON public.email_sequence_steps
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM public.email_sequences s
+      WHERE s.id = sequence_id
+        AND (is_user_admin() OR is_user_manager() OR s.created_by = auth.uid())
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.email_sequences s
+      WHERE s.id = sequence_id
+        AND (is_user_admin() OR is_user_manager() OR s.created_by = auth.uid())
+    )
+  );
+
+-- Created only through enroll_in_sequence; users can stop their own enrollments
+CREATE POLICY "Users can view their enrollments, managers and admins can view all" ON public.email_sequence_enrollments
+  FOR SELECT USING (is_user_admin() OR is_user_manager() OR enrolled_by = auth.uid());
+
+CREATE POLICY "Users can update their enrollments, managers and admins can update all" ON public.email_sequence_enrollments
+  FOR UPDATE USING (is_user_admin() OR is_user_manager() OR enrolled_by = auth.uid());
+
+DROP TRIGGER IF EXISTS update_email_sequences_updated_at ON public.email_sequences;
+CREATE TRIGGER update_email_sequences_updated_at
+  BEFORE UPDATE ON public.email_sequences
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_email_sequence_enrollments_updated_at ON public.email_sequence_enrollments;
+CREATE TRIGGER update_email_sequence_enrollments_updated_at
+  BEFORE UPDATE ON public.email_sequence_enrollments
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- process-email-replies sets status 'replied' and the bounce functions set 'bounced' on the
+-- email that was answered or rejected. Either one ends every active enrollment for that
+-- recipient, not only the one that sent the email.
+CREATE OR REPLACE FUNCTION public.stop_sequence_enrollments_on_email_status()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IN ('replied', 'bounced') AND NEW.status IS DISTINCT FROM OLD.status THEN
+    UPDATE email_sequence_enrollments
+    SET status = NEW.status,
+        next_send_at = NULL,
+        stopped_at = now(),
+        stop_reason = CASE NEW.status
+          WHEN 'replied' THEN 'Recipient replied'
+          ELSE COALESCE('Email bounced: ' || NEW.bounce_reason, 'Email bounced')
+        END
+    WHERE status = 'active'
+      AND (id = NEW.sequence_enrollment_id OR lower(recipient_email) = lower(NEW.recipient_email));
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS stop_sequence_enrollments_on_email_status ON public.email_history;
+CREATE TRIGGER stop_sequence_enrollments_on_email_status
+  AFTER UPDATE OF status ON public.email_history
+  FOR EACH ROW EXECUTE FUNCTION public.stop_sequence_enrollments_on_email_status();
+
+-- Enrolls the given leads and contacts. Records without an email address, and recipients
+-- already active in the sequence, are skipped and counted.
+CREATE OR REPLACE FUNCTION public.enroll_in_sequence(
+  p_sequence_id uuid,
+  p_lead_ids uuid[] DEFAULT '{}',
+  p_contact_ids uuid[] DEFAULT '{}',
+  p_timezone text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_sequence email_sequences;
+  v_first_step email_sequence_steps;
+  v_timezone TEXT;
+  v_recipient RECORD;
+  v_enrolled INTEGER := 0;
+  v_no_email INTEGER := 0;
+  v_already INTEGER := 0;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_sequence FROM email_sequences WHERE id = p_sequence_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Sequence % not found', p_sequence_id USING ERRCODE = 'P0002';
+  END IF;
+  IF NOT v_sequence.is_active THEN
+    RAISE EXCEPTION 'Sequence "%" is paused', v_sequence.name USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO v_first_step FROM email_sequence_steps
+  WHERE sequence_id = p_sequence_id ORDER BY step_order LIMIT 1;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Sequence "%" has no steps', v_sequence.name USING ERRCODE = '22023';
+  END IF;
+
+  v_timezone := COALESCE(NULLIF(trim(p_timezone), ''), v_sequence.default_timezone);
+  IF NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = v_timezone) THEN
+    RAISE EXCEPTION 'Unknown timezone "%"', v_timezone USING ERRCODE = '22023';
+  END IF;
+
+  FOR v_recipient IN
+    SELECT l.id AS lead_id, NULL::uuid AS contact_id, NULLIF(trim(l.email), '') AS email, l.lead_name AS name
+    FROM leads l WHERE l.id = ANY(COALESCE(p_lead_ids, '{}'))
+    UNION ALL
+    SELECT NULL::uuid, c.id, NULLIF(trim(c.email), ''), c.contact_name
+    FROM contacts c WHERE c.id = ANY(COALESCE(p_contact_ids, '{}'))
+  LOOP
+    IF v_recipient.email IS NULL THEN
+      v_no_email := v_no_email + 1;
+      CONTINUE;
+    END IF;
+
+    INSERT INTO email_sequence_enrollments (
+      sequence_id, lead_id, contact_id, recipient_email, recipient_name, timezone,
+      current_step, next_send_at, enrolled_by
+    ) VALUES (
+      p_sequence_id, v_recipient.lead_id, v_recipient.contact_id, v_recipient.email, v_recipient.name, v_timezone,
+      v_first_step.step_order, now() + make_interval(days => v_first_step.day_offset), auth.uid()
+    )
+    ON CONFLICT (sequence_id, lower(recipient_email)) WHERE status = 'active' DO NOTHING;
+
+    IF FOUND THEN
+      v_enrolled := v_enrolled + 1;
+    ELSE
+      v_already := v_already + 1;
+    END IF;
+  END LOOP;
+
+  PERFORM log_security_event('SEQUENCE_ENROLLMENT', 'email_sequences', p_sequence_id::text, jsonb_build_object(
+    'enrolled', v_enrolled, 'skipped_no_email', v_no_email, 'skipped_already_enrolled', v_already
+  ));
+
+  RETURN jsonb_build_object(
+    'enrolled', v_enrolled,
+    'skipped_no_email', v_no_email,
+    'skipped_already_enrolled', v_already
+  );
+END;
+$$;
+
+-- Per-step delivery and engagement for one sequence. Runs with the caller's rights, so the
+-- counts cover the sequence emails the caller can see in email_history.
+CREATE OR REPLACE FUNCTION public.get_sequence_step_stats(p_sequence_id uuid)
+RETURNS TABLE (
+  step_id uuid,
+  step_order integer,
+  day_offset integer,
+  template_name text,
+  sent bigint,
+  opened bigint,
+  clicked bigint,
+  replied bigint,
+  bounced bigint
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    s.id AS step_id,
+    s.step_order,
+    s.day_offset,
+    t.name AS template_name,
+    COUNT(e.id) AS sent,
+    COUNT(e.id) FILTER (WHERE COALESCE(e.unique_opens, e.open_count, 0) > 0 AND e.status <> 'bounced') AS opened,
+    COUNT(e.id) FILTER (WHERE COALESCE(e.click_count, 0) > 0) AS clicked,
+    COUNT(e.id) FILTER (WHERE e.status = 'replied' OR COALESCE(e.reply_count, 0) > 0) AS replied,
+    COUNT(e.id) FILTER (WHERE e.status = 'bounced') AS bounced
+  FROM email_sequence_steps s
+  LEFT JOIN email_templates t ON t.id = s.template_id
+  LEFT JOIN email_history e ON e.sequence_step_id = s.id
+  WHERE s.sequence_id = p_sequence_id
+  GROUP BY s.id, s.step_order, s.day_offset, t.name
+  ORDER BY s.step_order;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.enroll_in_sequence(uuid, uuid[], uuid[], text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_sequence_step_stats(uuid) TO authenticated;
@@ -0,0 +1,228 @@
+-- Server-side bulk email. A job holds the message and its recipients; process-bulk-email-jobs
+-- sends pending recipients at the job's rate once scheduled_at has passed, retries transient
+-- failures with backoff and keeps the job counters current. Jobs can be paused, resumed and
+-- cancelled while they run.
+
+CREATE TABLE IF NOT EXISTS public.bulk_email_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  subject TEXT NOT NULL,
+  body TEXT NOT NULL DEFAULT '',
+  sender_email TEXT NOT NULL,
+  template_id UUID REFERENCES public.email_templates(id) ON DELETE SET NULL,
+  status TEXT NOT NULL DEFAULT 'scheduled',
+  scheduled_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  -- Throttle: at most this many sends per minute for this job
+  rate_per_minute INTEGER NOT NULL DEFAULT 30,
+  total_count INTEGER NOT NULL DEFAULT 0,
+  sent_count INTEGER NOT NULL DEFAULT 0,
+  failed_count INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  created_by UUID DEFAULT auth.uid(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  started_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT bulk_email_jobs_status_check CHECK (
+    status IN ('scheduled', 'running', 'paused', 'completed', 'cancelled', 'failed')
+  ),
+  CONSTRAINT bulk_email_jobs_rate_check CHECK (rate_per_minute BETWEEN 1 AND 600)
+);
+
+CREATE TABLE IF NOT EXISTS public.bulk_email_recipients (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_id UUID NOT NULL REFERENCES public.bulk_email_jobs(id) ON DELETE CASCADE,
+  lead_id UUID REFERENCES public.leads(id) ON DELETE SET NULL,
+  contact_id UUID REFERENCES public.contacts(id) ON DELETE SET NULL,
+  account_id UUID REFERENCES public.accounts(id) ON DELETE SET NULL,
+  recipient_email TEXT NOT NULL,
+  recipient_name TEXT,
+  status TEXT NOT NULL DEFAULT 'pending',
+  attempts INTEGER NOT NULL DEFAULT 0,
+  -- Earliest retry time after a transient failure
+  next_attempt_at TIMESTAMPTZ,
+  -- Set while a worker is sending; stale locks are released by the next run
+  locked_at TIMESTAMPTZ,
+  last_error TEXT,
+  email_history_id UUID REFERENCES public.email_history(id) ON DELETE SET NULL,
+  sent_at TIMESTAMPTZ,
+  CONSTRAINT bulk_email_recipients_status_check CHECK (
+    status IN ('pending', 'sending', 'sent', 'failed', 'cancelled')
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_bulk_email_jobs_status ON public.bulk_email_jobs(status, scheduled_at);
+CREATE INDEX IF NOT EXISTS idx_bulk_email_jobs_created_by ON public.bulk_email_jobs(created_by);
+CREATE INDEX IF NOT EXISTS idx_bulk_email_recipients_job ON public.bulk_email_recipients(job_id, status);
+
+ALTER TABLE public.bulk_email_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.bulk_email_recipients ENABLE ROW LEVEL SECURITY;
+
+-- Created through create_bulk_email_job and controlled through set_bulk_email_job_status
+CREATE POLICY "Users can view their bulk email jobs, managers and admins can view all" ON public.bulk_email_jobs
+  FOR SELECT USING (is_user_admin() OR is_user_manager() OR created_by = auth.uid());
+
+CREATE POLICY "Users can delete their finished bulk email jobs, admins can delete all" ON public.bulk_email_jobs
+  FOR DELETE USING (
+    is_user_admin() OR (created_by = auth.uid() AND status IN ('completed', 'cancelled', 'failed'))
+  );
+
+CREATE POLICY "Users can view recipients of bulk email jobs they can view" ON public.bulk_email_recipients
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.bulk_email_jobs j
+      WHERE j.id = job_id
+        AND (is_user_admin() OR is_user_manager() OR j.created_by = auth.uid())
+    )
+  );
+
+DROP TRIGGER IF EXISTS update_bulk_email_jobs_updated_at ON public.bulk_email_jobs;
+CREATE TRIGGER update_bulk_email_jobs_updated_at
+  BEFORE UPDATE ON public.bulk_email_jobs
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- p_recipients: [{"email", "name", "lead_id"?, "contact_id"?, "account_id"?}, ...].
+-- Blank and repeated addresses are dropped.
+CREATE OR REPLACE FUNCTION public.create_bulk_email_job(
+  p_subject text,
+  p_body text,
+  p_sender_email text,
+  p_recipients jsonb,
+  p_scheduled_at timestamptz DEFAULT NULL,
+  p_rate_per_minute integer DEFAULT 30,
+  p_template_id uuid DEFAULT NULL
+)
+RETURNS public.bulk_email_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_job bulk_email_jobs;
+  v_count INTEGER;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+  IF COALESCE(trim(p_subject), '') = '' THEN
+    RAISE EXCEPTION 'Subject is required' USING ERRCODE = '22023';
+  END IF;
+  IF COALESCE(trim(p_sender_email), '') = '' THEN
+    RAISE EXCEPTION 'Sender email is required' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO bulk_email_jobs (subject, body, sender_email, template_id, scheduled_at, rate_per_minute, created_by)
+  VALUES (
+    trim(p_subject), COALESCE(p_body, ''), trim(p_sender_email), p_template_id,
+    COALESCE(p_scheduled_at, now()), COALESCE(p_rate_per_minute, 30), auth.uid()
+  )
+  RETURNING * INTO v_job;
+
+  INSERT INTO bulk_email_recipients (job_id, lead_id, contact_id, account_id, recipient_email, recipient_name)
+  SELECT DISTINCT ON (lower(trim(r ->> 'email')))
+    v_job.id,
+    NULLIF(r ->> 'lead_id', '')::uuid,
+    NULLIF(r ->> 'contact_id', '')::uuid,
+    NULLIF(r ->> 'account_id', '')::uuid,
+    trim(r ->> 'email'),
+    NULLIF(trim(r ->> 'name'), '')
+  FROM jsonb_array_elements(COALESCE(p_recipients, '[]'::jsonb)) AS r
+  WHERE COALESCE(trim(r ->> 'email'), '') <> ''
+  ORDER BY lower(trim(r ->> 'email'));
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  IF v_count = 0 THEN
+    RAISE EXCEPTION 'No recipients with an email address' USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE bulk_email_jobs SET total_count = v_count WHERE id = v_job.id RETURNING * INTO v_job;
+
+  PERFORM log_security_event('BULK_EMAIL_JOB_CREATED', 'bulk_email_jobs', v_job.id::text, jsonb_build_object(
+    'recipients', v_count, 'scheduled_at', v_job.scheduled_at, 'rate_per_minute', v_job.rate_per_minute
+  ));
+
+  RETURN v_job;
+END;
+$$;
+
+-- pause, resume or cancel. Cancelling drops the recipients that have not been sent yet.
+CREATE OR REPLACE FUNCTION public.set_bulk_email_job_status(p_job_id uuid, p_action text)
+RETURNS public.bulk_email_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_job bulk_email_jobs;
+BEGIN
+  SELECT * INTO v_job FROM bulk_email_jobs WHERE id = p_job_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Bulk email job % not found', p_job_id USING ERRCODE = 'P0002';
+  END IF;
+  IF NOT (is_user_admin() OR is_user_manager() OR v_job.created_by = auth.uid()) THEN
+    RAISE EXCEPTION 'Not allowed to change this bulk email job' USING ERRCODE = '42501';
+  END IF;
+
+  CASE p_action
+    WHEN 'pause' THEN
+      IF v_job.status NOT IN ('scheduled', 'running') THEN
+        RAISE EXCEPTION 'Only scheduled or running jobs can be paused' USING ERRCODE = '22023';
+      END IF;
+      UPDATE bulk_email_jobs SET status = 'paused' WHERE id = p_job_id RETURNING * INTO v_job;
+    WHEN 'resume' THEN
+      IF v_job.status <> 'paused' THEN
+        RAISE EXCEPTION 'Only paused jobs can be resumed' USING ERRCODE = '22023';
+      END IF;
+      UPDATE bulk_email_jobs
+      SET status = CASE WHEN started_at IS NULL THEN 'scheduled' ELSE 'running' END
+      WHERE id = p_job_id
+      RETURNING * INTO v_job;
+    WHEN 'cancel' THEN
+      IF v_job.status NOT IN ('scheduled', 'running', 'paused') THEN
+        RAISE EXCEPTION 'Only unfinished jobs can be cancelled' USING ERRCODE = '22023';
+      END IF;
+      UPDATE bulk_email_recipients SET status = 'cancelled', locked_at = NULL
+      WHERE job_id = p_job_id AND status = 'pending';
+      UPDATE bulk_email_jobs SET status = 'cancelled', completed_at = now() WHERE id = p_job_id RETURNING * INTO v_job;
+    ELSE
+      RAISE EXCEPTION 'Unknown action "%"', p_action USING ERRCODE = '22023';
+  END CASE;
+
+  RETURN v_job;
+END;
+$$;
+
+-- Recount a job's recipients; a running job with nothing left to send is completed.
+-- Called by process-bulk-email-jobs after each batch.
+CREATE OR REPLACE FUNCTION public.refresh_bulk_email_job(p_job_id uuid)
+RETURNS public.bulk_email_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_job bulk_email_jobs;
+BEGIN
+  UPDATE bulk_email_jobs j
+  SET sent_count = c.sent,
+      failed_count = c.failed,
+      status = CASE WHEN j.status = 'running' AND c.open = 0
+        THEN CASE WHEN c.sent = 0 AND c.failed > 0 THEN 'failed' ELSE 'completed' END
+        ELSE j.status END,
+      completed_at = CASE WHEN j.status = 'running' AND c.open = 0 THEN now() ELSE j.completed_at END
+  FROM (
+    SELECT
+      COUNT(*) FILTER (WHERE status = 'sent') AS sent,
+      COUNT(*) FILTER (WHERE status = 'failed') AS failed,
+      COUNT(*) FILTER (WHERE status IN ('pending', 'sending')) AS open
+    FROM bulk_email_recipients
+    WHERE job_id = p_job_id
+  ) c
+  WHERE j.id = p_job_id
+  RETURNING j.* INTO v_job;
+
+  RETURN v_job;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_bulk_email_job(text, text, text, jsonb, timestamptz, integer, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.set_bulk_email_job_status(uuid, text) TO authenticated;
@@ -0,0 +1,223 @@
+-- Email consent. Every opt-out or opt-in is recorded in email_consent_events with where it came
+-- from (unsubscribe link, one-click List-Unsubscribe, manual change, CSV import).
+-- email_suppressions holds the current opt-outs per address, channel and topic and is kept in
+-- sync by a trigger on the events. send-email refuses suppressed addresses, and an opt-out
+-- stops active sequence enrollments and pending bulk email recipients for the address.
+--
+-- Topics: 'all' covers every email, including one-to-one sends. 'marketing' covers bulk email
+-- and 'sequences' covers email sequences.
+
+CREATE TABLE IF NOT EXISTS public.email_consent_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  email TEXT NOT NULL,
+  contact_id UUID REFERENCES public.contacts(id) ON DELETE SET NULL,
+  lead_id UUID REFERENCES public.leads(id) ON DELETE SET NULL,
+  channel TEXT NOT NULL DEFAULT 'email',
+  topic TEXT NOT NULL DEFAULT 'all',
+  status TEXT NOT NULL,
+  source TEXT NOT NULL,
+  reason TEXT,
+  -- The email whose unsubscribe link or header was used
+  email_history_id UUID REFERENCES public.email_history(id) ON DELETE SET NULL,
+  created_by UUID DEFAULT auth.uid(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT email_consent_events_channel_check CHECK (channel IN ('email', 'phone', 'sms')),
+  CONSTRAINT email_consent_events_topic_check CHECK (topic IN ('all', 'marketing', 'sequences')),
+  CONSTRAINT email_consent_events_status_check CHECK (status IN ('subscribed', 'unsubscribed')),
+  CONSTRAINT email_consent_events_source_check CHECK (
+    source IN ('unsubscribe_link', 'one_click', 'manual', 'import')
+  )
+);
+
+CREATE TABLE IF NOT EXISTS public.email_suppressions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  email TEXT NOT NULL,
+  channel TEXT NOT NULL DEFAULT 'email',
+  topic TEXT NOT NULL DEFAULT 'all',
+  source TEXT NOT NULL,
+  reason TEXT,
+  consent_event_id UUID REFERENCES public.email_consent_events(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT email_suppressions_unique UNIQUE (email, channel, topic)
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_consent_events_email ON public.email_consent_events(email, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_email_consent_events_contact ON public.email_consent_events(contact_id);
+CREATE INDEX IF NOT EXISTS idx_email_consent_events_lead ON public.email_consent_events(lead_id);
+
+ALTER TABLE public.email_consent_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.email_suppressions ENABLE ROW LEVEL SECURITY;
+
+-- The consent history is an audit trail: rows are never updated or deleted
+CREATE POLICY "Authenticated users can view consent events" ON public.email_consent_events
+  FOR SELECT USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Users can record manual consent changes" ON public.email_consent_events
+  FOR INSERT WITH CHECK (created_by = auth.uid() AND source = 'manual');
+
+-- Maintained by sync_email_suppression
+CREATE POLICY "Authenticated users can view email suppressions" ON public.email_suppressions
+  FOR SELECT USING (auth.uid() IS NOT NULL);
+
+-- Addresses are compared lower-cased; the lead or contact is looked up when not given
+CREATE OR REPLACE FUNCTION public.prepare_email_consent_event()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.email := lower(trim(NEW.email));
+  IF NEW.email = '' THEN
+    RAISE EXCEPTION 'Email is required' USING ERRCODE = '22023';
+  END IF;
+
+  IF NEW.contact_id IS NULL AND NEW.lead_id IS NULL THEN
+    SELECT id INTO NEW.contact_id FROM contacts WHERE lower(email) = NEW.email LIMIT 1;
+    IF NEW.contact_id IS NULL THEN
+      SELECT id INTO NEW.lead_id FROM leads WHERE lower(email) = NEW.email LIMIT 1;
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS prepare_email_consent_event ON public.email_consent_events;
+CREATE TRIGGER prepare_email_consent_event
+  BEFORE INSERT ON public.email_consent_events
+  FOR EACH ROW EXECUTE FUNCTION public.prepare_email_consent_event();
+
+-- Applies an event: updates the suppression list, mirrors it onto the contact's
+-- communication_preferences and stops whatever is still queued for the address.
+-- Opting back in to 'all' clears every topic for the channel.
+CREATE OR REPLACE FUNCTION public.sync_email_suppression()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'unsubscribed' THEN
+    INSERT INTO email_suppressions (email, channel, topic, source, reason, consent_event_id, created_at)
+    VALUES (NEW.email, NEW.channel, NEW.topic, NEW.source, NEW.reason, NEW.id, NEW.created_at)
+    ON CONFLICT (email, channel, topic) DO UPDATE
+      SET source = EXCLUDED.source,
+          reason = EXCLUDED.reason,
+          consent_event_id = EXCLUDED.consent_event_id,
+          created_at = EXCLUDED.created_at;
+  ELSE
+    DELETE FROM email_suppressions
+    WHERE email = NEW.email
+      AND channel = NEW.channel
+      AND (topic = NEW.topic OR NEW.topic = 'all');
+  END IF;
+
+  UPDATE contacts c
+  SET communication_preferences = COALESCE(c.communication_preferences, '{}'::jsonb) || jsonb_build_object(
+    NEW.channel, jsonb_build_object(
+      'unsubscribed_topics', COALESCE((
+        SELECT jsonb_agg(s.topic ORDER BY s.topic)
+        FROM email_suppressions s
+        WHERE s.email = NEW.email AND s.channel = NEW.channel
+      ), '[]'::jsonb),
+      'updated_at', NEW.created_at
+    )
+  )
+  WHERE c.id = NEW.contact_id OR lower(c.email) = NEW.email;
+
+  IF NEW.status = 'unsubscribed' AND NEW.channel = 'email' THEN
+    IF NEW.topic IN ('all', 'sequences') THEN
+      UPDATE email_sequence_enrollments
+      SET status = 'stopped',
+          next_send_at = NULL,
+          stopped_at = now(),
+          stop_reason = 'Recipient unsubscribed'
+      WHERE status = 'active' AND lower(recipient_email) = NEW.email;
+    END IF;
+
+    IF NEW.topic IN ('all', 'marketing') THEN
+      UPDATE bulk_email_recipients
+      SET status = 'cancelled', last_error = 'Recipient unsubscribed'
+      WHERE status = 'pending' AND lower(recipient_email) = NEW.email;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sync_email_suppression ON public.email_consent_events;
+CREATE TRIGGER sync_email_suppression
+  AFTER INSERT ON public.email_consent_events
+  FOR EACH ROW EXECUTE FUNCTION public.sync_email_suppression();
+
+-- True when the address opted out of all email or of the given topic
+CREATE OR REPLACE FUNCTION public.is_email_suppressed(p_email text, p_topic text DEFAULT NULL)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM email_suppressions
+    WHERE email = lower(trim(p_email))
+      AND channel = 'email'
+      AND (topic = 'all' OR topic = p_topic)
+  );
+$$;
+
+-- p_rows: [{"email", "topic"?, "reason"?}, ...] from a suppression list CSV. Addresses that are
+-- already suppressed for the topic are skipped, invalid rows are reported by row number.
+CREATE OR REPLACE FUNCTION public.import_email_suppressions(p_rows jsonb)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_row jsonb;
+  v_index INTEGER := 0;
+  v_email TEXT;
+  v_topic TEXT;
+  v_imported INTEGER := 0;
+  v_skipped INTEGER := 0;
+  v_errors jsonb := '[]'::jsonb;
+BEGIN
+  IF NOT (is_user_admin() OR is_user_manager()) THEN
+    RAISE EXCEPTION 'Only admins and managers can import suppression lists' USING ERRCODE = '42501';
+  END IF;
+
+  FOR v_row IN SELECT * FROM jsonb_array_elements(COALESCE(p_rows, '[]'::jsonb)) LOOP
+    v_index := v_index + 1;
+    v_email := lower(trim(COALESCE(v_row ->> 'email', '')));
+    v_topic := lower(COALESCE(NULLIF(trim(v_row ->> 'topic'), ''), 'all'));
+
+    IF v_email !~ '^[^\s@]+@[^\s@]+\.[^\s@]+$' THEN
+      v_errors := v_errors || jsonb_build_object('index', v_index, 'error', 'Invalid email address');
+      CONTINUE;
+    END IF;
+    IF v_topic NOT IN ('all', 'marketing', 'sequences') THEN
+      v_errors := v_errors || jsonb_build_object('index', v_index, 'error', format('Unknown topic "%s"', v_topic));
+      CONTINUE;
+    END IF;
+    IF EXISTS (SELECT 1 FROM email_suppressions WHERE email = v_email AND channel = 'email' AND topic = v_topic) THEN
+      v_skipped := v_skipped + 1;
+      CONTINUE;
+    END IF;
+
+    INSERT INTO email_consent_events (email, topic, status, source, reason, created_by)
+    VALUES (v_email, v_topic, 'unsubscribed', 'import', NULLIF(trim(v_row ->> 'reason'), ''), auth.uid());
+    v_imported := v_imported + 1;
+  END LOOP;
+
+  PERFORM log_security_event('EMAIL_SUPPRESSIONS_IMPORTED', 'email_suppressions', NULL, jsonb_build_object(
+    'imported', v_imported, 'skipped', v_skipped, 'errors', jsonb_array_length(v_errors)
+  ));
+
+  RETURN jsonb_build_object('imported', v_imported, 'skipped', v_skipped, 'errors', v_errors);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.is_email_suppressed(text, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.import_email_suppressions(jsonb) TO authenticated;
@@ -0,0 +1,366 @@
+-- Lead and contact scoring. Admins define the model in scoring_rules:
+--   fit rules award points when a firmographic field matches (industry, region, country,
+--   company_type, position, source), falling back to the linked account's value;
+--   behaviour rules award points per signal (email open, click, reply, meeting, completed
+--   task), decayed by age with a half-life and capped per rule.
+-- calculate_record_score stores the 0-100 score and its breakdown on the record and logs
+-- changes in record_score_history. The recalculate-scores function re-scores every record on
+-- a schedule so time decay takes effect; the email tracking functions re-score on each signal.
+-- Callers other than the service role can only score records they can see (admins, creator
+-- or owner, as in the select policies).
+--
+-- contacts.score already existed before this migration. ADD COLUMN IF NOT EXISTS keeps that
+-- column, and the first recalculation overwrites whatever it holds with the rule-based score.
+-- It also replaces contacts.engagement_score: the tracking functions no longer add to
+-- engagement_score, which keeps its last value and is not read by the app any more; the
+-- behaviour rules below carry its points over.
+
+ALTER TABLE public.leads
+  ADD COLUMN IF NOT EXISTS score INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS score_breakdown JSONB,
+  ADD COLUMN IF NOT EXISTS score_updated_at TIMESTAMPTZ;
+
+ALTER TABLE public.contacts
+  ADD COLUMN IF NOT EXISTS score INTEGER DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS score_breakdown JSONB,
+  ADD COLUMN IF NOT EXISTS score_updated_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_leads_score ON public.leads(score DESC);
+CREATE INDEX IF NOT EXISTS idx_contacts_score ON public.contacts(score DESC);
+
+CREATE TABLE IF NOT EXISTS public.scoring_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  category TEXT NOT NULL,
+  applies_to TEXT NOT NULL DEFAULT 'all',
+  -- Fit rules
+  field TEXT,
+  operator TEXT NOT NULL DEFAULT 'equals',
+  -- Comma-separated for 'equals' (any of); ignored for 'is_set'
+  value TEXT,
+  -- Behaviour rules
+  signal TEXT,
+  -- Per match for fit rules, per event for behaviour rules; may be negative
+  points INTEGER NOT NULL,
+  max_points INTEGER,
+  -- An event counts half after this many days, a quarter after twice as many. NULL: no decay
+  half_life_days INTEGER,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID DEFAULT auth.uid(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT scoring_rules_category_check CHECK (category IN ('fit', 'behavior')),
+  CONSTRAINT scoring_rules_applies_to_check CHECK (applies_to IN ('all', 'lead', 'contact')),
+  CONSTRAINT scoring_rules_operator_check CHECK (operator IN ('equals', 'contains', 'is_set')),
+  CONSTRAINT scoring_rules_field_check CHECK (
+    category <> 'fit'
+    OR field IN ('industry', 'region', 'country', 'company_type', 'position', 'contact_source')
+  ),
+  CONSTRAINT scoring_rules_signal_check CHECK (
+    category <> 'behavior'
+    OR signal IN ('email_open', 'email_click', 'email_reply', 'meeting', 'task_completed')
+  ),
+  CONSTRAINT scoring_rules_max_points_check CHECK (max_points IS NULL OR max_points > 0),
+  CONSTRAINT scoring_rules_half_life_check CHECK (half_life_days IS NULL OR half_life_days > 0)
+);
+
+CREATE TABLE IF NOT EXISTS public.record_score_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  entity_type TEXT NOT NULL,
+  entity_id UUID NOT NULL,
+  score INTEGER NOT NULL,
+  previous_score INTEGER,
+  fit_score NUMERIC NOT NULL DEFAULT 0,
+  behavior_score NUMERIC NOT NULL DEFAULT 0,
+  breakdown JSONB NOT NULL DEFAULT '[]'::jsonb,
+  -- What triggered the recalculation, e.g. 'scheduled', 'manual', 'email_open'
+  reason TEXT,
+  calculated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT record_score_history_entity_type_check CHECK (entity_type IN ('lead', 'contact'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_record_score_history_entity
+  ON public.record_score_history(entity_type, entity_id, calculated_at DESC);
+
+-- Merging leads or contacts moves the duplicate's score history to the survivor
+CREATE OR REPLACE FUNCTION public.merge_keyed_references(p_entity_type text)
+RETURNS TABLE(ref text, type_column text, type_value text)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT 'approval_requests.entity_id', 'entity_type', p_entity_type
+  UNION ALL
+  SELECT 'record_score_history.entity_id', 'entity_type',
+    CASE p_entity_type WHEN 'leads' THEN 'lead' ELSE 'contact' END
+  WHERE p_entity_type IN ('leads', 'contacts');
+$$;
+
+ALTER TABLE public.scoring_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.record_score_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view scoring rules" ON public.scoring_rules
+  FOR SELECT USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Admins can insert scoring rules" ON public.scoring_rules
+  FOR INSERT WITH CHECK (is_user_admin());
+
+CREATE POLICY "Admins can update scoring rules" ON public.scoring_rules
+  FOR UPDATE USING (is_user_admin());
+
+CREATE POLICY "Admins can delete scoring rules" ON public.scoring_rules
+  FOR DELETE USING (is_user_admin());
+
+-- Written by calculate_record_score only
+CREATE POLICY "Authenticated users can view score history" ON public.record_score_history
+  FOR SELECT USING (auth.uid() IS NOT NULL);
+
+DROP TRIGGER IF EXISTS update_scoring_rules_updated_at ON public.scoring_rules;
+CREATE TRIGGER update_scoring_rules_updated_at
+  BEFORE UPDATE ON public.scoring_rules
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Starting model: roughly what the tracking functions used to add to engagement_score
+INSERT INTO public.scoring_rules (name, category, signal, points, max_points, half_life_days, created_by)
+SELECT name, 'behavior', signal, points, max_points, half_life_days, NULL
+FROM (VALUES
+  ('Opened an email', 'email_open', 5, 25, 30),
+  ('Clicked a link', 'email_click', 10, 30, 30),
+  ('Replied to an email', 'email_reply', 15, 30, 45),
+  ('Had a meeting', 'meeting', 15, 30, 60),
+  ('Completed task', 'task_completed', 5, 15, 60)
+) AS defaults(name, signal, points, max_points, half_life_days)
+WHERE NOT EXISTS (SELECT 1 FROM public.scoring_rules);
+
+-- Dated behavioural signals of one lead or contact
+CREATE OR REPLACE FUNCTION public.record_score_signals(p_lead_id uuid, p_contact_id uuid)
+RETURNS TABLE (signal text, occurred_at timestamptz)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT 'email_open', e.opened_at
+  FROM email_history e
+  WHERE (e.lead_id = p_lead_id OR e.contact_id = p_contact_id)
+    AND e.opened_at IS NOT NULL AND COALESCE(e.is_valid_open, true)
+  UNION ALL
+  SELECT 'email_click', e.clicked_at
+  FROM email_history e
+  WHERE (e.lead_id = p_lead_id OR e.contact_id = p_contact_id) AND e.clicked_at IS NOT NULL
+  UNION ALL
+  SELECT 'email_reply', e.replied_at
+  FROM email_history e
+  WHERE (e.lead_id = p_lead_id OR e.contact_id = p_contact_id) AND e.replied_at IS NOT NULL
+  UNION ALL
+  SELECT 'meeting', m.start_time
+  FROM meetings m
+  WHERE (m.lead_id = p_lead_id OR m.contact_id = p_contact_id)
+    AND m.status <> 'cancelled' AND m.start_time <= now()
+  UNION ALL
+  SELECT 'task_completed', COALESCE(t.completed_at, t.updated_at)
+  FROM tasks t
+  WHERE (t.lead_id = p_lead_id OR t.contact_id = p_contact_id) AND t.status = 'completed';
+$$;
+
+-- Scores one lead or contact against the active rules and stores the result.
+-- Returns {score, previous_score, fit_score, behavior_score, breakdown}; each breakdown item
+-- names the rule, its category and points, plus the matched value or the number of events.
+CREATE OR REPLACE FUNCTION public.calculate_record_score(
+  p_entity_type text,
+  p_entity_id uuid,
+  p_reason text DEFAULT 'manual'
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_values jsonb;
+  v_previous INTEGER;
+  v_rule scoring_rules;
+  v_value TEXT;
+  v_matched BOOLEAN;
+  v_points NUMERIC;
+  v_count INTEGER;
+  v_fit NUMERIC := 0;
+  v_behavior NUMERIC := 0;
+  v_breakdown jsonb := '[]'::jsonb;
+  v_score INTEGER;
+  v_lead_id UUID;
+  v_contact_id UUID;
+  v_created_by UUID;
+  v_owner UUID;
+BEGIN
+  IF p_entity_type = 'lead' THEN
+    SELECT jsonb_build_object(
+             'industry', COALESCE(NULLIF(l.industry, ''), a.industry),
+             'region', a.region,
+             'country', COALESCE(NULLIF(l.country, ''), a.country),
+             'company_type', a.company_type,
+             'position', l.position,
+             'contact_source', l.contact_source
+           ),
+           l.score,
+           l.created_by,
+           l.contact_owner
+    INTO v_values, v_previous, v_created_by, v_owner
+    FROM leads l
+    LEFT JOIN accounts a ON a.id = l.account_id
+    WHERE l.id = p_entity_id;
+    v_lead_id := p_entity_id;
+  ELSIF p_entity_type = 'contact' THEN
+    SELECT jsonb_build_object(
+             'industry', COALESCE(NULLIF(c.industry, ''), a.industry),
+             'region', COALESCE(NULLIF(c.region, ''), a.region),
+             'country', a.country,
+             'company_type', a.company_type,
+             'position', c.position,
+             'contact_source', c.contact_source
+           ),
+           c.score,
+           c.created_by,
+           c.contact_owner
+    INTO v_values, v_previous, v_created_by, v_owner
+    FROM contacts c
+    LEFT JOIN accounts a ON a.id = c.account_id
+    WHERE c.id = p_entity_id;
+    v_contact_id := p_entity_id;
+  ELSE
+    RAISE EXCEPTION 'Unknown record type: %', p_entity_type USING ERRCODE = '22023';
+  END IF;
+
+  IF v_values IS NULL THEN
+    RAISE EXCEPTION 'Record not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Same rule as the leads and contacts select policies
+  IF NOT (
+    auth.role() = 'service_role' OR is_user_admin()
+    OR v_created_by = auth.uid() OR v_owner = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'You can only score records you can see' USING ERRCODE = '42501';
+  END IF;
+
+  FOR v_rule IN
+    SELECT * FROM scoring_rules
+    WHERE is_active AND applies_to IN ('all', p_entity_type)
+    ORDER BY category, created_at
+  LOOP
+    IF v_rule.category = 'fit' THEN
+      v_value := NULLIF(trim(v_values ->> v_rule.field), '');
+      v_matched := CASE v_rule.operator
+        WHEN 'is_set' THEN v_value IS NOT NULL
+        WHEN 'contains' THEN v_value ILIKE '%' || COALESCE(v_rule.value, '') || '%'
+        ELSE lower(v_value) IN (
+          SELECT lower(trim(option)) FROM unnest(string_to_array(COALESCE(v_rule.value, ''), ',')) AS option
+        )
+      END;
+      CONTINUE WHEN NOT COALESCE(v_matched, false);
+
+      v_fit := v_fit + v_rule.points;
+      v_breakdown := v_breakdown || jsonb_build_object(
+        'rule_id', v_rule.id, 'name', v_rule.name, 'category', 'fit',
+        'points', v_rule.points, 'field', v_rule.field, 'value', v_value
+      );
+    ELSE
+      SELECT COUNT(*),
+             COALESCE(SUM(v_rule.points * CASE
+               WHEN v_rule.half_life_days IS NULL THEN 1
+               ELSE power(0.5, GREATEST(EXTRACT(EPOCH FROM now() - s.occurred_at), 0) / 86400.0 / v_rule.half_life_days)
+             END), 0)
+      INTO v_count, v_points
+      FROM record_score_signals(v_lead_id, v_contact_id) s
+      WHERE s.signal = v_rule.signal;
+      CONTINUE WHEN v_count = 0;
+
+      IF v_rule.max_points IS NOT NULL THEN
+        v_points := GREATEST(LEAST(v_points, v_rule.max_points), -v_rule.max_points);
+      END IF;
+      v_points := round(v_points, 1);
+      v_behavior := v_behavior + v_points;
+      v_breakdown := v_breakdown || jsonb_build_object(
+        'rule_id', v_rule.id, 'name', v_rule.name, 'category', 'behavior',
+        'points', v_points, 'signal', v_rule.signal, 'count', v_count
+      );
+    END IF;
+  END LOOP;
+
+  v_score := GREATEST(0, LEAST(100, round(v_fit + v_behavior)))::integer;
+
+  IF p_entity_type = 'lead' THEN
+    UPDATE leads SET score = v_score, score_breakdown = v_breakdown, score_updated_at = now()
+    WHERE id = p_entity_id;
+  ELSE
+    UPDATE contacts SET score = v_score, score_breakdown = v_breakdown, score_updated_at = now()
+    WHERE id = p_entity_id;
+  END IF;
+
+  IF v_score IS DISTINCT FROM v_previous OR NOT EXISTS (
+    SELECT 1 FROM record_score_history WHERE entity_type = p_entity_type AND entity_id = p_entity_id
+  ) THEN
+    INSERT INTO record_score_history (
+      entity_type, entity_id, score, previous_score, fit_score, behavior_score, breakdown, reason
+    ) VALUES (
+      p_entity_type, p_entity_id, v_score, v_previous, v_fit, v_behavior, v_breakdown, p_reason
+    );
+  END IF;
+
+  RETURN jsonb_build_object(
+    'score', v_score,
+    'previous_score', v_previous,
+    'fit_score', v_fit,
+    'behavior_score', v_behavior,
+    'breakdown', v_breakdown
+  );
+END;
+$$;
+
+-- Re-scores one batch of leads or contacts in id order, for the recalculate-scores function.
+-- Returns {processed, changed, last_id}; pass last_id back as p_after for the next batch.
+CREATE OR REPLACE FUNCTION public.recalculate_record_scores(
+  p_entity_type text,
+  p_after uuid DEFAULT NULL,
+  p_limit integer DEFAULT 200
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id UUID;
+  v_result jsonb;
+  v_processed INTEGER := 0;
+  v_changed INTEGER := 0;
+BEGIN
+  IF NOT (auth.role() = 'service_role' OR is_user_admin()) THEN
+    RAISE EXCEPTION 'Only admins can recalculate all scores' USING ERRCODE = '42501';
+  END IF;
+
+  FOR v_id IN EXECUTE format(
+    'SELECT id FROM %I WHERE $1 IS NULL OR id > $1 ORDER BY id LIMIT $2',
+    CASE p_entity_type WHEN 'lead' THEN 'leads' WHEN 'contact' THEN 'contacts' END
+  ) USING p_after, COALESCE(p_limit, 200)
+  LOOP
+    v_result := calculate_record_score(p_entity_type, v_id, 'scheduled');
+    v_processed := v_processed + 1;
+    IF (v_result ->> 'score')::integer IS DISTINCT FROM (v_result ->> 'previous_score')::integer THEN
+      v_changed := v_changed + 1;
+    END IF;
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'processed', v_processed,
+    'changed', v_changed,
+    'last_id', CASE WHEN v_processed = COALESCE(p_limit, 200) THEN v_id END
+  );
+END;
+$$;
+
+-- Signals are only read through calculate_record_score, which checks the caller can see the record
+REVOKE EXECUTE ON FUNCTION public.record_score_signals(uuid, uuid) FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION public.calculate_record_score(text, uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.recalculate_record_scores(text, uuid, integer) TO authenticated;
@@ -0,0 +1,181 @@
+-- Team performance for managers and admins. Reps are identified by deals.created_by,
+-- meetings.created_by, the task assignee and email_history.sent_by.
+-- rep_revenue_targets splits the company target in yearly_revenue_targets per rep;
+-- get_team_performance returns activity and win/loss counts per rep for a period and
+-- get_team_stage_metrics the stage-to-stage conversion and time in stage from deal_stage_history.
+-- Deal values are converted into the reporting currency on the client.
+
+CREATE TABLE IF NOT EXISTS public.rep_revenue_targets (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  year INTEGER NOT NULL,
+  target NUMERIC NOT NULL DEFAULT 0,
+  currency TEXT NOT NULL DEFAULT 'EUR',
+  created_by UUID,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT rep_revenue_targets_user_year_unique UNIQUE (user_id, year),
+  CONSTRAINT rep_revenue_targets_target_check CHECK (target >= 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_rep_revenue_targets_year ON public.rep_revenue_targets(year);
+
+ALTER TABLE public.rep_revenue_targets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own targets, managers and admins can view all" ON public.rep_revenue_targets
+  FOR SELECT USING (is_user_admin() OR is_user_manager() OR user_id = auth.uid());
+
+CREATE POLICY "Managers and admins can manage rep targets" ON public.rep_revenue_targets
+  FOR ALL USING (is_user_admin() OR is_user_manager()) WITH CHECK (is_user_admin() OR is_user_manager());
+
+DROP TRIGGER IF EXISTS update_rep_revenue_targets_updated_at ON public.rep_revenue_targets;
+CREATE TRIGGER update_rep_revenue_targets_updated_at
+  BEFORE UPDATE ON public.rep_revenue_targets
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX IF NOT EXISTS idx_deals_created_by ON public.deals(created_by);
+CREATE INDEX IF NOT EXISTS idx_email_history_sent_by_sent_at ON public.email_history(sent_by, sent_at);
+
+-- Per-rep counts for [p_from, p_to). Won and lost deals are those that entered a won or
+-- lost pipeline stage in the period; the win rate is won / (won + lost).
+CREATE OR REPLACE FUNCTION public.get_team_performance(p_from timestamptz, p_to timestamptz)
+RETURNS TABLE (
+  rep_id uuid,
+  deals_created bigint,
+  deals_won bigint,
+  deals_lost bigint,
+  win_rate numeric,
+  meetings_held bigint,
+  tasks_completed bigint,
+  emails_sent bigint
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT (is_user_admin() OR is_user_manager()) THEN
+    RAISE EXCEPTION 'Only managers and admins can view team performance' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN QUERY
+  WITH closed AS (
+    SELECT d.created_by AS rep,
+      COUNT(DISTINCT d.id) FILTER (WHERE ps.is_won_stage) AS won,
+      COUNT(DISTINCT d.id) FILTER (WHERE ps.is_lost_stage) AS lost
+    FROM deal_stage_history h
+    JOIN deals d ON d.id = h.deal_id
+    JOIN pipeline_stages ps ON ps.stage_name = h.to_stage
+    WHERE h.changed_at >= p_from AND h.changed_at < p_to
+      AND (ps.is_won_stage OR ps.is_lost_stage)
+    GROUP BY d.created_by
+  ),
+  created AS (
+    SELECT d.created_by AS rep, COUNT(*) AS total
+    FROM deals d
+    WHERE d.created_at >= p_from AND d.created_at < p_to
+    GROUP BY d.created_by
+  ),
+  held AS (
+    SELECT m.created_by AS rep, COUNT(*) AS total
+    FROM meetings m
+    WHERE m.start_time >= p_from AND m.start_time < p_to
+      AND COALESCE(m.status, '') <> 'cancelled'
+    GROUP BY m.created_by
+  ),
+  completed AS (
+    SELECT COALESCE(t.assigned_to, t.created_by) AS rep, COUNT(*) AS total
+    FROM tasks t
+    WHERE t.completed_at >= p_from AND t.completed_at < p_to
+    GROUP BY COALESCE(t.assigned_to, t.created_by)
+  ),
+  sent AS (
+    SELECT e.sent_by AS rep, COUNT(*) AS total
+    FROM email_history e
+    WHERE e.sent_at >= p_from AND e.sent_at < p_to
+    GROUP BY e.sent_by
+  ),
+  reps AS (
+    SELECT rep FROM closed
+    UNION SELECT rep FROM created
+    UNION SELECT rep FROM held
+    UNION SELECT rep FROM completed
+    UNION SELECT rep FROM sent
+  )
+  SELECT
+    r.rep,
+    COALESCE(cr.total, 0),
+    COALESCE(cl.won, 0),
+    COALESCE(cl.lost, 0),
+    CASE WHEN COALESCE(cl.won, 0) + COALESCE(cl.lost, 0) = 0 THEN NULL
+      ELSE ROUND(100.0 * cl.won / (cl.won + cl.lost), 1) END,
+    COALESCE(h.total, 0),
+    COALESCE(c.total, 0),
+    COALESCE(s.total, 0)
+  FROM reps r
+  LEFT JOIN closed cl ON cl.rep = r.rep
+  LEFT JOIN created cr ON cr.rep = r.rep
+  LEFT JOIN held h ON h.rep = r.rep
+  LEFT JOIN completed c ON c.rep = r.rep
+  LEFT JOIN sent s ON s.rep = r.rep
+  WHERE r.rep IS NOT NULL;
+END;
+$$;
+
+-- Per rep and open stage: deals that entered the stage in [p_from, p_to), how many of them
+-- moved on to a later stage or were won, and the average days spent in the stage by those
+-- that have left it.
+CREATE OR REPLACE FUNCTION public.get_team_stage_metrics(p_from timestamptz, p_to timestamptz)
+RETURNS TABLE (
+  rep_id uuid,
+  stage text,
+  stage_order integer,
+  entered bigint,
+  advanced bigint,
+  conversion_rate numeric,
+  avg_days_in_stage numeric
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT (is_user_admin() OR is_user_manager()) THEN
+    RAISE EXCEPTION 'Only managers and admins can view team performance' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN QUERY
+  WITH transitions AS (
+    SELECT
+      h.deal_id,
+      h.to_stage,
+      h.changed_at,
+      LEAD(h.to_stage) OVER (PARTITION BY h.deal_id ORDER BY h.changed_at) AS next_stage,
+      LEAD(h.changed_at) OVER (PARTITION BY h.deal_id ORDER BY h.changed_at) AS left_at
+    FROM deal_stage_history h
+  )
+  SELECT
+    d.created_by,
+    ps.stage_name,
+    ps.stage_order,
+    COUNT(*),
+    COUNT(*) FILTER (WHERE ns.is_won_stage OR (NOT COALESCE(ns.is_lost_stage, false) AND ns.stage_order > ps.stage_order)),
+    ROUND(100.0 * COUNT(*) FILTER (WHERE ns.is_won_stage OR (NOT COALESCE(ns.is_lost_stage, false) AND ns.stage_order > ps.stage_order)) / COUNT(*), 1),
+    ROUND(AVG(EXTRACT(EPOCH FROM (t.left_at - t.changed_at)) / 86400) FILTER (WHERE t.left_at IS NOT NULL), 1)
+  FROM transitions t
+  JOIN deals d ON d.id = t.deal_id
+  JOIN pipeline_stages ps ON ps.stage_name = t.to_stage
+  LEFT JOIN pipeline_stages ns ON ns.stage_name = t.next_stage
+  WHERE t.changed_at >= p_from AND t.changed_at < p_to
+    AND NOT COALESCE(ps.is_won_stage, false)
+    AND NOT COALESCE(ps.is_lost_stage, false)
+    AND d.created_by IS NOT NULL
+  GROUP BY d.created_by, ps.stage_name, ps.stage_order
+  ORDER BY ps.stage_order;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_team_performance(timestamptz, timestamptz) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_team_stage_metrics(timestamptz, timestamptz) TO authenticated;
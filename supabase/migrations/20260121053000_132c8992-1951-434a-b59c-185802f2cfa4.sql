@@ -0,0 +1,203 @@
+-- Stage gates for deals
+-- Each pipeline stage lists the deal fields that must be filled before a deal can enter it,
+-- and can require approval. A trigger on deals enforces the entry criteria on every insert
+-- and stage change, whichever client writes it; move_deal_stage lets the Kanban board and
+-- bulk stage changes fill the missing fields in the same update as the move. Changes applied
+-- by an approval and the stage rename cascade run with app.approval_bypass and are not held
+-- to the criteria again.
+
+ALTER TABLE public.pipeline_stages
+  ADD COLUMN IF NOT EXISTS required_fields TEXT[],
+  ADD COLUMN IF NOT EXISTS requires_approval BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS approval_workflow_id UUID REFERENCES public.approval_workflows(id) ON DELETE SET NULL;
+
+-- Start the built-in stages from the criteria the deal form has always used
+UPDATE public.pipeline_stages SET required_fields = CASE stage_name
+    WHEN 'Lead' THEN ARRAY['project_name', 'lead_name', 'customer_name', 'region', 'lead_owner', 'priority']
+    WHEN 'Discussions' THEN ARRAY['customer_need', 'relationship_strength', 'internal_comment']
+    WHEN 'Qualified' THEN ARRAY['customer_challenges', 'budget', 'probability', 'expected_closing_date', 'is_recurring', 'internal_comment']
+    WHEN 'RFQ' THEN ARRAY['total_contract_value', 'currency_type', 'start_date', 'end_date', 'rfq_received_date', 'proposal_due_date', 'rfq_status', 'action_items', 'internal_comment']
+    WHEN 'Offered' THEN ARRAY['business_value', 'decision_maker_level', 'current_status', 'closing']
+    WHEN 'Won' THEN ARRAY['won_reason', 'start_date', 'total_revenue', 'signed_contract_date', 'handoff_status']
+    WHEN 'Lost' THEN ARRAY['lost_reason', 'need_improvement']
+    WHEN 'Dropped' THEN ARRAY['drop_reason']
+  END
+WHERE required_fields IS NULL
+  AND stage_name IN ('Lead', 'Discussions', 'Qualified', 'RFQ', 'Offered', 'Won', 'Lost', 'Dropped');
+
+-- "Requires approval" is backed by an approval workflow on the deal stage, so the existing
+-- approval engine holds the move back. The workflow starts with one manager step and can be
+-- extended under Approval Workflows.
+CREATE OR REPLACE FUNCTION public.sync_stage_approval_workflow()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_conditions jsonb := jsonb_build_object('field', 'stage', 'operator', '=', 'value', NEW.stage_name);
+BEGIN
+  IF NEW.approval_workflow_id IS NOT NULL THEN
+    UPDATE approval_workflows
+    SET is_enabled = NEW.requires_approval,
+        trigger_conditions = v_conditions,
+        name = 'Stage gate: ' || NEW.stage_name,
+        updated_at = now()
+    WHERE id = NEW.approval_workflow_id;
+  ELSIF NEW.requires_approval THEN
+    INSERT INTO approval_workflows (name, entity_type, trigger_conditions, approval_steps, is_enabled, created_by)
+    VALUES (
+      'Stage gate: ' || NEW.stage_name,
+      'deals',
+      v_conditions,
+      jsonb_build_array(jsonb_build_object('step', 1, 'role', 'manager')),
+      true,
+      auth.uid()
+    )
+    RETURNING id INTO NEW.approval_workflow_id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sync_stage_approval_workflow_trigger ON public.pipeline_stages;
+CREATE TRIGGER sync_stage_approval_workflow_trigger
+  BEFORE INSERT OR UPDATE OF requires_approval, stage_name ON public.pipeline_stages
+  FOR EACH ROW EXECUTE FUNCTION public.sync_stage_approval_workflow();
+
+-- A deleted stage no longer gates anything
+CREATE OR REPLACE FUNCTION public.disable_stage_approval_workflow()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.approval_workflow_id IS NOT NULL THEN
+    UPDATE approval_workflows SET is_enabled = false, updated_at = now() WHERE id = OLD.approval_workflow_id;
+  END IF;
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS disable_stage_approval_workflow_trigger ON public.pipeline_stages;
+CREATE TRIGGER disable_stage_approval_workflow_trigger
+  AFTER DELETE ON public.pipeline_stages
+  FOR EACH ROW EXECUTE FUNCTION public.disable_stage_approval_workflow();
+
+-- Entry criteria of p_stage that a deal (with p_changes applied) leaves empty
+CREATE OR REPLACE FUNCTION public.get_missing_stage_fields(p_deal jsonb, p_stage text)
+RETURNS text[]
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(array_agg(field ORDER BY ordinality), '{}')
+  FROM pipeline_stages ps,
+    unnest(COALESCE(ps.required_fields, '{}')) WITH ORDINALITY AS f(field, ordinality)
+  WHERE ps.stage_name = p_stage
+    AND p_deal ? f.field
+    AND NULLIF(btrim(p_deal ->> f.field), '') IS NULL;
+$$;
+
+-- Move a deal into a stage, filling in the stage's missing fields in the same update.
+-- Raises check_violation with the missing field names in DETAIL when criteria are not met.
+-- Stages that require approval are held back by enforce_approval_workflows as usual.
+CREATE OR REPLACE FUNCTION public.move_deal_stage(
+  p_deal_id uuid,
+  p_stage text,
+  p_changes jsonb DEFAULT '{}'::jsonb
+)
+RETURNS public.deals
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_deal deals%ROWTYPE;
+  v_changes jsonb;
+  v_missing text[];
+  v_columns text;
+  v_result deals%ROWTYPE;
+BEGIN
+  SELECT * INTO v_deal FROM deals WHERE id = p_deal_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Deal not found';
+  END IF;
+
+  -- Same rule as the deals update policy
+  IF NOT (is_user_admin() OR v_deal.created_by = auth.uid()) THEN
+    RAISE EXCEPTION 'You can only move your own deals' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pipeline_stages WHERE stage_name = p_stage AND is_active) THEN
+    RAISE EXCEPTION 'Unknown pipeline stage "%"', p_stage USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Only real deal columns can be written, and never the ownership or identity columns
+  SELECT COALESCE(jsonb_object_agg(key, value), '{}'::jsonb) INTO v_changes
+  FROM jsonb_each(COALESCE(p_changes, '{}'::jsonb))
+  WHERE to_jsonb(v_deal) ? key
+    AND key NOT IN ('id', 'created_by', 'created_at', 'stage', 'modified_at', 'modified_by');
+
+  v_missing := get_missing_stage_fields(to_jsonb(v_deal) || v_changes, p_stage);
+  IF array_length(v_missing, 1) > 0 THEN
+    RAISE EXCEPTION 'Deal is missing fields required for stage "%"', p_stage
+      USING ERRCODE = 'check_violation', DETAIL = array_to_string(v_missing, ',');
+  END IF;
+
+  v_changes := v_changes || jsonb_build_object(
+    'stage', p_stage,
+    'modified_at', now(),
+    'modified_by', auth.uid()
+  );
+
+  SELECT string_agg(quote_ident(key), ', ') INTO v_columns FROM jsonb_object_keys(v_changes) AS key;
+
+  EXECUTE format(
+    'UPDATE public.deals SET (%s) = (SELECT %s FROM jsonb_populate_record(NULL::public.deals, $1)) WHERE id = $2 RETURNING *',
+    v_columns, v_columns
+  ) INTO v_result USING v_changes, p_deal_id;
+
+  RETURN v_result;
+END;
+$$;
+
+-- Entry criteria on every insert and stage change, not only moves through move_deal_stage.
+-- Named to fire before enforce_approval_workflows_trigger so the requested stage is checked,
+-- not the one an approval holds the deal at.
+CREATE OR REPLACE FUNCTION public.enforce_deal_stage_gate()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_missing text[];
+BEGIN
+  -- Approved changes and the rename cascade were checked (or gated) when they were requested
+  IF current_setting('app.approval_bypass', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.stage IS NOT DISTINCT FROM OLD.stage THEN
+    RETURN NEW;
+  END IF;
+
+  v_missing := get_missing_stage_fields(to_jsonb(NEW), NEW.stage);
+  IF array_length(v_missing, 1) > 0 THEN
+    RAISE EXCEPTION 'Deal is missing fields required for stage "%"', NEW.stage
+      USING ERRCODE = 'check_violation', DETAIL = array_to_string(v_missing, ',');
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_deal_stage_gate_trigger ON public.deals;
+CREATE TRIGGER check_deal_stage_gate_trigger
+  BEFORE INSERT OR UPDATE OF stage ON public.deals
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_deal_stage_gate();
+
+GRANT EXECUTE ON FUNCTION public.get_missing_stage_fields(jsonb, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.move_deal_stage(uuid, text, jsonb) TO authenticated;
@@ -0,0 +1,133 @@
+-- Pipeline forecasting. Reps put each open deal in a forecast category (deals.forecast_category:
+-- commit, best_case, pipeline or omitted; unset counts as pipeline). Managers and admins can
+-- override the category and the forecast amount per deal in deal_forecast_overrides without
+-- touching the rep's own call. capture_forecast_snapshot stores the forecast deal by deal once a
+-- week (forecast_snapshots / forecast_snapshot_deals) so movements between weeks can be shown;
+-- the capture-forecast-snapshot edge function runs it from the external scheduler.
+-- Amounts stay in the deal currency and are converted into the reporting currency on the client.
+
+ALTER TABLE public.deals
+  ADD COLUMN IF NOT EXISTS forecast_category TEXT;
+
+ALTER TABLE public.deals DROP CONSTRAINT IF EXISTS deals_forecast_category_check;
+ALTER TABLE public.deals ADD CONSTRAINT deals_forecast_category_check
+  CHECK (forecast_category IS NULL OR forecast_category IN ('commit', 'best_case', 'pipeline', 'omitted'));
+
+CREATE TABLE IF NOT EXISTS public.deal_forecast_overrides (
+  deal_id UUID PRIMARY KEY REFERENCES public.deals(id) ON DELETE CASCADE,
+  -- NULL keeps the rep's category and only overrides the amount
+  category TEXT,
+  -- NULL keeps the deal value; in the deal currency
+  amount NUMERIC,
+  note TEXT,
+  set_by UUID,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT deal_forecast_overrides_category_check
+    CHECK (category IS NULL OR category IN ('commit', 'best_case', 'pipeline', 'omitted')),
+  CONSTRAINT deal_forecast_overrides_amount_check CHECK (amount IS NULL OR amount >= 0)
+);
+
+ALTER TABLE public.deal_forecast_overrides ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view forecast overrides" ON public.deal_forecast_overrides
+  FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Managers and admins can manage forecast overrides" ON public.deal_forecast_overrides
+  FOR ALL USING (is_user_admin() OR is_user_manager()) WITH CHECK (is_user_admin() OR is_user_manager());
+
+DROP TRIGGER IF EXISTS update_deal_forecast_overrides_updated_at ON public.deal_forecast_overrides;
+CREATE TRIGGER update_deal_forecast_overrides_updated_at
+  BEFORE UPDATE ON public.deal_forecast_overrides
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- One snapshot per week, dated the Monday it belongs to
+CREATE TABLE IF NOT EXISTS public.forecast_snapshots (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  snapshot_date DATE NOT NULL,
+  created_by UUID,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT forecast_snapshots_date_unique UNIQUE (snapshot_date)
+);
+
+-- The forecast as it stood for each deal; deals are not referenced so deleted deals stay in history
+CREATE TABLE IF NOT EXISTS public.forecast_snapshot_deals (
+  snapshot_id UUID NOT NULL REFERENCES public.forecast_snapshots(id) ON DELETE CASCADE,
+  deal_id UUID NOT NULL,
+  deal_name TEXT,
+  owner_id UUID,
+  stage TEXT,
+  -- Effective category after overrides; 'closed' for won deals
+  category TEXT NOT NULL,
+  amount NUMERIC NOT NULL DEFAULT 0,
+  currency TEXT NOT NULL DEFAULT 'EUR',
+  probability NUMERIC NOT NULL DEFAULT 0,
+  close_date DATE,
+  PRIMARY KEY (snapshot_id, deal_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_forecast_snapshot_deals_deal ON public.forecast_snapshot_deals(deal_id);
+
+ALTER TABLE public.forecast_snapshots ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.forecast_snapshot_deals ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view forecast snapshots" ON public.forecast_snapshots
+  FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Reps view their snapshot deals, managers and admins view all" ON public.forecast_snapshot_deals
+  FOR SELECT USING (is_user_admin() OR is_user_manager() OR owner_id = auth.uid());
+
+-- Captures the current forecast into the snapshot for p_date's week, replacing an earlier
+-- capture of the same week. Open deals and deals won this year or later are included; lost
+-- deals are left out, so a deal missing from a later snapshot was lost or deleted.
+CREATE OR REPLACE FUNCTION public.capture_forecast_snapshot(p_date date DEFAULT CURRENT_DATE)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_week date := date_trunc('week', p_date)::date;
+  v_snapshot_id uuid;
+BEGIN
+  IF NOT (auth.role() = 'service_role' OR is_user_admin() OR is_user_manager()) THEN
+    RAISE EXCEPTION 'Only managers and admins can capture forecast snapshots' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  INSERT INTO forecast_snapshots (snapshot_date, created_by)
+  VALUES (v_week, auth.uid())
+  ON CONFLICT (snapshot_date) DO UPDATE SET created_at = now(), created_by = EXCLUDED.created_by
+  RETURNING id INTO v_snapshot_id;
+
+  DELETE FROM forecast_snapshot_deals WHERE snapshot_id = v_snapshot_id;
+
+  INSERT INTO forecast_snapshot_deals (
+    snapshot_id, deal_id, deal_name, owner_id, stage, category, amount, currency, probability, close_date
+  )
+  SELECT
+    v_snapshot_id,
+    d.id,
+    COALESCE(d.project_name, d.deal_name),
+    d.created_by,
+    d.stage,
+    CASE WHEN ps.is_won_stage THEN 'closed'
+      ELSE COALESCE(o.category, d.forecast_category, 'pipeline') END,
+    COALESCE(o.amount,
+      CASE WHEN ps.is_won_stage THEN COALESCE(d.total_revenue, d.total_contract_value) ELSE d.total_contract_value END,
+      0),
+    COALESCE(d.currency_type, 'EUR'),
+    CASE WHEN ps.is_won_stage THEN 100 ELSE COALESCE(d.probability, ps.stage_probability, 0) END,
+    CASE WHEN ps.is_won_stage THEN COALESCE(d.signed_contract_date, d.expected_closing_date)
+      ELSE d.expected_closing_date END
+  FROM deals d
+  LEFT JOIN pipeline_stages ps ON ps.stage_name = d.stage
+  LEFT JOIN deal_forecast_overrides o ON o.deal_id = d.id
+  WHERE NOT COALESCE(ps.is_lost_stage, false)
+    AND (NOT COALESCE(ps.is_won_stage, false)
+      OR COALESCE(d.signed_contract_date, d.expected_closing_date) >= date_trunc('year', v_week)::date);
+
+  RETURN v_snapshot_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.capture_forecast_snapshot(date) TO authenticated;
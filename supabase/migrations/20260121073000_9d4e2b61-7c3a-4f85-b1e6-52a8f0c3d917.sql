@@ -0,0 +1,20 @@
+-- Deal analytics: stage funnels, time in stage, stuck deals, creation-month cohorts and
+-- win/loss reasons are computed on the client from deals and deal_stage_history.
+-- sla_days is the number of days an open deal may stay in a stage before it counts as stuck.
+
+ALTER TABLE public.pipeline_stages
+  ADD COLUMN IF NOT EXISTS sla_days INTEGER;
+
+ALTER TABLE public.pipeline_stages
+  DROP CONSTRAINT IF EXISTS pipeline_stages_sla_days_check;
+ALTER TABLE public.pipeline_stages
+  ADD CONSTRAINT pipeline_stages_sla_days_check CHECK (sla_days IS NULL OR sla_days > 0);
+
+-- Time in stage pairs each history entry with the deal's next one
+CREATE INDEX IF NOT EXISTS idx_deal_stage_history_deal_changed_at
+  ON public.deal_stage_history(deal_id, changed_at);
+
+INSERT INTO page_permissions (page_name, route, description, admin_access, manager_access, user_access)
+VALUES
+  ('Deal Analytics', '/analytics', 'Deal funnel, velocity, cohorts and win/loss reasons', true, true, true)
+ON CONFLICT (route) DO NOTHING;
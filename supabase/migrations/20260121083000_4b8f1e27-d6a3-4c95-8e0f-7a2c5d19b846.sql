@@ -0,0 +1,148 @@
+-- Calendar sync behind the "Calendar Sync" integration.
+-- Outgoing: every user gets a private ICS subscription feed of their meetings and tasks
+-- (calendar-feed, keyed by calendar_feed_tokens.token), and meeting emails can carry an .ics
+-- invitation. meetings.ics_uid/ics_sequence keep the event identity stable across updates.
+-- Incoming: sync-calendar reads each user's external calendar through Microsoft Graph or CalDAV
+-- and matches events to CRM meetings; calendar_event_links remembers which external event
+-- belongs to which meeting and the versions last seen on both sides.
+
+ALTER TABLE public.meetings
+  ADD COLUMN IF NOT EXISTS ics_uid TEXT,
+  ADD COLUMN IF NOT EXISTS ics_sequence INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS external_source TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_meetings_ics_uid ON public.meetings(ics_uid) WHERE ics_uid IS NOT NULL;
+
+-- Calendar clients only apply an update whose SEQUENCE is higher than the one they have
+CREATE OR REPLACE FUNCTION public.bump_meeting_ics_sequence()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.start_time IS DISTINCT FROM OLD.start_time
+    OR NEW.end_time IS DISTINCT FROM OLD.end_time
+    OR NEW.subject IS DISTINCT FROM OLD.subject
+    OR NEW.description IS DISTINCT FROM OLD.description
+    OR NEW.join_url IS DISTINCT FROM OLD.join_url
+    OR NEW.status IS DISTINCT FROM OLD.status THEN
+    NEW.ics_sequence := COALESCE(OLD.ics_sequence, 0) + 1;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS bump_meetings_ics_sequence ON public.meetings;
+CREATE TRIGGER bump_meetings_ics_sequence
+  BEFORE UPDATE ON public.meetings
+  FOR EACH ROW EXECUTE FUNCTION public.bump_meeting_ics_sequence();
+
+-- Secret part of a user's feed URL; rotating it invalidates the old subscription
+CREATE TABLE IF NOT EXISTS public.calendar_feed_tokens (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  token TEXT NOT NULL UNIQUE,
+  last_accessed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.calendar_feed_tokens ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own calendar feed token" ON public.calendar_feed_tokens
+  FOR SELECT USING (user_id = auth.uid());
+
+CREATE POLICY "Users can remove their own calendar feed token" ON public.calendar_feed_tokens
+  FOR DELETE USING (user_id = auth.uid());
+
+CREATE OR REPLACE FUNCTION public.rotate_calendar_feed_token()
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_token text := replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', '');
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  INSERT INTO calendar_feed_tokens (user_id, token)
+  VALUES (auth.uid(), v_token)
+  ON CONFLICT (user_id) DO UPDATE
+    SET token = EXCLUDED.token, created_at = now(), last_accessed_at = NULL;
+
+  RETURN v_token;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.rotate_calendar_feed_token() TO authenticated;
+
+-- Written by sync-calendar with the service role only
+CREATE TABLE IF NOT EXISTS public.calendar_event_links (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  meeting_id UUID NOT NULL REFERENCES public.meetings(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  provider TEXT NOT NULL,
+  external_id TEXT NOT NULL,
+  external_uid TEXT,
+  external_etag TEXT,
+  -- Last modification of the external event and of the meeting when they were last in step
+  external_updated_at TIMESTAMPTZ,
+  crm_updated_at TIMESTAMPTZ,
+  last_synced_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  -- Both sides changed since the last sync; the resolution says which side was kept
+  last_conflict_at TIMESTAMPTZ,
+  conflict_resolution TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT calendar_event_links_provider_check CHECK (provider IN ('graph', 'caldav')),
+  CONSTRAINT calendar_event_links_resolution_check CHECK (conflict_resolution IS NULL OR conflict_resolution IN ('crm', 'external')),
+  CONSTRAINT calendar_event_links_external_unique UNIQUE (provider, user_id, external_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_calendar_event_links_meeting ON public.calendar_event_links(meeting_id);
+
+-- Contacts and leads whose email is one of p_emails (lower-cased), ignoring case and
+-- surrounding spaces, so sync-calendar can link external participants to CRM people
+CREATE OR REPLACE FUNCTION public.find_people_by_email(p_emails text[])
+RETURNS TABLE(email text, contact_id uuid, lead_id uuid)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT lower(btrim(c.email)), c.id, NULL::uuid
+  FROM contacts c
+  WHERE lower(btrim(c.email)) = ANY(p_emails)
+  UNION ALL
+  SELECT lower(btrim(l.email)), NULL::uuid, l.id
+  FROM leads l
+  WHERE lower(btrim(l.email)) = ANY(p_emails);
+$$;
+
+CREATE INDEX IF NOT EXISTS idx_contacts_email_lower ON public.contacts(lower(btrim(email)));
+CREATE INDEX IF NOT EXISTS idx_leads_email_lower ON public.leads(lower(btrim(email)));
+
+REVOKE EXECUTE ON FUNCTION public.find_people_by_email(text[]) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.find_people_by_email(text[]) TO service_role;
+
+ALTER TABLE public.calendar_event_links ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own calendar links, admins can view all" ON public.calendar_event_links
+  FOR SELECT USING (is_user_admin() OR user_id = auth.uid());
+
+DROP TRIGGER IF EXISTS update_calendar_event_links_updated_at ON public.calendar_event_links;
+CREATE TRIGGER update_calendar_event_links_updated_at
+  BEFORE UPDATE ON public.calendar_event_links
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- config.provider is 'graph' or 'caldav'; sync_frequency is in minutes and conflict_policy
+-- decides which side wins when a meeting changed in the CRM and externally ('newest', 'crm'
+-- or 'external'). The original entry stored provider: null, which the defaults replace.
+UPDATE public.integration_settings
+SET config = jsonb_build_object('provider', 'graph', 'sync_frequency', 15, 'conflict_policy', 'newest')
+  || jsonb_strip_nulls(COALESCE(config, '{}'::jsonb))
+WHERE integration_name = 'Calendar Sync';
+
+INSERT INTO public.integration_settings (integration_name, is_enabled, config)
+VALUES ('Calendar Sync', false, '{"provider": "graph", "sync_frequency": 15, "conflict_policy": "newest"}')
+ON CONFLICT (integration_name) DO NOTHING;